@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getTrustedProxies, resolveClientIpAddress } from './client-ip';
+
+describe('resolveClientIpAddress（接続元IPの解決）', () => {
+  const trustedProxies = new Set(['10.0.0.1', '10.0.0.2']);
+
+  const createHeaders = (forwardedFor?: string) =>
+    new Headers(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {});
+
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('正常系', () => {
+    it('プロキシを経由しない直接接続ではソケットの接続元を返す', () => {
+      expect(
+        resolveClientIpAddress('203.0.113.1', createHeaders(), trustedProxies),
+      ).toBe('203.0.113.1');
+    });
+
+    it('IPv4 射影アドレスは IPv4 表記にそろえる', () => {
+      expect(
+        resolveClientIpAddress(
+          '::ffff:203.0.113.1',
+          createHeaders(),
+          trustedProxies,
+        ),
+      ).toBe('203.0.113.1');
+    });
+
+    it('信頼済みプロキシ経由の場合はX-Forwarded-Forの右端から最初の信頼済みでないアドレスを返す', () => {
+      expect(
+        resolveClientIpAddress(
+          '10.0.0.1',
+          createHeaders('198.51.100.7, 203.0.113.1, 10.0.0.2'),
+          trustedProxies,
+        ),
+      ).toBe('203.0.113.1');
+    });
+
+    it('信頼済みプロキシがX-Forwarded-Forを付与していない場合はソケットの接続元を返す', () => {
+      expect(
+        resolveClientIpAddress('10.0.0.1', createHeaders(), trustedProxies),
+      ).toBe('10.0.0.1');
+    });
+
+    it('TRUSTED_PROXIES をカンマ区切りで読み込む', () => {
+      vi.stubEnv('TRUSTED_PROXIES', ' 10.0.0.1, ::ffff:10.0.0.2 ,');
+
+      expect(getTrustedProxies()).toEqual(new Set(['10.0.0.1', '10.0.0.2']));
+    });
+  });
+
+  describe('異常系', () => {
+    it('信頼済みプロキシを経由しない場合は偽装されたX-Forwarded-Forを無視する', () => {
+      expect(
+        resolveClientIpAddress(
+          '203.0.113.1',
+          createHeaders('198.51.100.7'),
+          trustedProxies,
+        ),
+      ).toBe('203.0.113.1');
+    });
+
+    it('TRUSTED_PROXIES が未設定の場合はX-Forwarded-Forを参照しない', () => {
+      vi.stubEnv('TRUSTED_PROXIES', '');
+
+      expect(
+        resolveClientIpAddress('10.0.0.1', createHeaders('198.51.100.7')),
+      ).toBe('10.0.0.1');
+    });
+
+    it('ソケットの接続元が分からない場合はX-Forwarded-Forがあってもundefinedを返す', () => {
+      expect(
+        resolveClientIpAddress(
+          undefined,
+          createHeaders('198.51.100.7'),
+          trustedProxies,
+        ),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// Presentation Layer: Client IP Address
+// 接続元クライアントのIPアドレスを解決する（レート制限・ログイン試行制限・セッションの端末情報で共通に使う）
+
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { Context } from 'hono';
+
+// IPv4 射影アドレス（::ffff:203.0.113.1）は IPv4 表記にそろえて比較する
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+const normalizeIpAddress = (value: string | undefined): string | undefined => {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  return trimmed.startsWith(IPV4_MAPPED_PREFIX) && trimmed.includes('.')
+    ? trimmed.slice(IPV4_MAPPED_PREFIX.length)
+    : trimmed;
+};
+
+/**
+ * 信頼するリバースプロキシのIPアドレス一覧（環境変数 TRUSTED_PROXIES にカンマ区切りで指定する）
+ */
+export const getTrustedProxies = (): ReadonlySet<string> =>
+  new Set(
+    (process.env.TRUSTED_PROXIES ?? '')
+      .split(',')
+      .map(normalizeIpAddress)
+      .filter((address): address is string => address !== undefined),
+  );
+
+/**
+ * ソケットの接続元アドレスを返す（Node.js のサーバー以外から呼ばれた場合は undefined）
+ */
+export const getRemoteAddress = (c: Context): string | undefined => {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 接続元クライアントのIPアドレスを解決する
+ * NOTE: X-Forwarded-For は誰でも付与できるため、ソケットの接続元が信頼済みプロキシの場合に限り参照する。
+ * 各プロキシは受け取った接続元を末尾に追記するので、右から順にたどって最初に現れた信頼済みでないアドレスを使う
+ */
+export const resolveClientIpAddress = (
+  remoteAddress: string | undefined,
+  headers: Headers,
+  trustedProxies: ReadonlySet<string> = getTrustedProxies(),
+): string | undefined => {
+  const remote = normalizeIpAddress(remoteAddress);
+  if (!remote || !trustedProxies.has(remote)) {
+    return remote;
+  }
+
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(normalizeIpAddress)
+    .filter((address): address is string => address !== undefined);
+
+  for (const hop of [...hops].reverse()) {
+    if (!trustedProxies.has(hop)) {
+      return hop;
+    }
+  }
+
+  // すべて信頼済みプロキシを経由している場合は最も手前の記録を使う
+  return hops[0] ?? remote;
+};
+
+export const getClientIpAddress = (c: Context): string | undefined =>
+  resolveClientIpAddress(getRemoteAddress(c), c.req.raw.headers);
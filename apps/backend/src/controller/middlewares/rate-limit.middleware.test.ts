@@ -0,0 +1,144 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../services/di/tokens';
+
+const { createRequestContainerMock, consumeMock, getMock } = vi.hoisted(() => {
+  const consume = vi.fn();
+  const get = vi.fn(() => ({ consume }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    consumeMock: consume,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { createRateLimitMiddleware } from './rate-limit.middleware';
+
+describe('createRateLimitMiddleware（レート制限ミドルウェア）', () => {
+  const db = {} as NodePgDatabase;
+  const policy = { name: 'api', limit: 2, windowMs: 60_000 };
+
+  const createApp = () => {
+    const app = new Hono();
+    app.use('*', createRateLimitMiddleware(db, policy));
+    app.get('/', (c) => c.json({ status: 'ok' }));
+    return app;
+  };
+
+  // getConnInfo が参照する Node.js サーバーのバインディング（ソケットの接続元）
+  const createBindings = (remoteAddress: string) => ({
+    incoming: { socket: { remoteAddress } },
+  });
+
+  const allowedDecision = {
+    allowed: true,
+    limit: 2,
+    remaining: 1,
+    resetAt: new Date(),
+    retryAfterSeconds: 0,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('正常系', () => {
+    it('上限以内であればリクエストを通し、残り回数をヘッダーで返す', async () => {
+      consumeMock.mockResolvedValueOnce({
+        allowed: true,
+        limit: 2,
+        remaining: 1,
+        resetAt: new Date(),
+        retryAfterSeconds: 0,
+      });
+
+      const response = await createApp().request(
+        '/',
+        {},
+        createBindings('203.0.113.1'),
+      );
+
+      expect(response.status).toBe(200);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RateLimiter);
+      expect(consumeMock).toHaveBeenCalledWith({
+        policy,
+        key: 'ip:203.0.113.1',
+      });
+      expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('1');
+    });
+
+    it('信頼済みプロキシ経由の場合はX-Forwarded-Forの右端の信頼済みでないアドレスで数える', async () => {
+      vi.stubEnv('TRUSTED_PROXIES', '10.0.0.1,10.0.0.2');
+      consumeMock.mockResolvedValueOnce(allowedDecision);
+
+      await createApp().request(
+        '/',
+        {
+          headers: { 'x-forwarded-for': '198.51.100.7, 203.0.113.1, 10.0.0.2' },
+        },
+        createBindings('10.0.0.1'),
+      );
+
+      expect(consumeMock).toHaveBeenCalledWith({
+        policy,
+        key: 'ip:203.0.113.1',
+      });
+    });
+
+    it('カウンタの保存先に障害がある場合はリクエストを通す', async () => {
+      consumeMock.mockRejectedValueOnce(new Error('store down'));
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await createApp().request('/');
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('異常系', () => {
+    it('信頼済みプロキシを経由しない場合は偽装されたX-Forwarded-Forを無視してソケットの接続元で数える', async () => {
+      consumeMock.mockResolvedValueOnce(allowedDecision);
+
+      await createApp().request(
+        '/',
+        { headers: { 'x-forwarded-for': '198.51.100.7' } },
+        createBindings('203.0.113.1'),
+      );
+
+      expect(consumeMock).toHaveBeenCalledWith({
+        policy,
+        key: 'ip:203.0.113.1',
+      });
+    });
+
+    it('上限を超えた場合は Retry-After 付きで429を返す', async () => {
+      consumeMock.mockResolvedValueOnce({
+        allowed: false,
+        limit: 2,
+        remaining: 0,
+        resetAt: new Date(),
+        retryAfterSeconds: 42,
+      });
+
+      const response = await createApp().request('/');
+      const json = await response.json();
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('42');
+      expect(json).toEqual({
+        message:
+          'リクエスト回数の上限を超えました。しばらくしてから再度お試しください',
+      });
+    });
+  });
+});
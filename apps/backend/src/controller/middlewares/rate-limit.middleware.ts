@@ -0,0 +1,75 @@
+// Presentation Layer: Rate Limit Middleware
+// 接続元IPごとのリクエスト数を制限する（Hono のミドルウェアと tRPC のミドルウェアで共通の判定を使う）
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import type { MiddlewareHandler } from 'hono';
+
+import { createRequestContainer } from '../../infrastructre/di/container';
+import { TOKENS } from '../../services/di/tokens';
+import { RateLimitExceededError } from '../../services/rate-limit/rate-limit.errors';
+import type {
+  IRateLimiter,
+  RateLimitDecision,
+  RateLimitPolicy,
+} from '../../services/rate-limit/rate-limiter.service';
+import { TooManyLoginAttemptsError } from '../../services/users/login-user.errors';
+import { getClientIpAddress } from '../client-ip';
+
+// NOTE: 接続元IPが分からないリクエスト（Node.js のサーバーを経由しない呼び出し等）は1つのカウンタで数える
+const UNKNOWN_IP_ADDRESS = 'unknown';
+
+/**
+ * 接続元IPのカウンタを1つ進めて判定結果を返す
+ * NOTE: カウンタの保存先に障害があってもAPI全体を止めないよう、判定できない場合は null（許可）とする
+ */
+export const consumeRateLimit = async (
+  db: NodePgDatabase,
+  policy: RateLimitPolicy,
+  ipAddress: string | undefined,
+): Promise<RateLimitDecision | null> => {
+  try {
+    const rateLimiter = createRequestContainer(db).get<IRateLimiter>(
+      TOKENS.RateLimiter,
+    );
+    return await rateLimiter.consume({
+      policy,
+      key: `ip:${ipAddress ?? UNKNOWN_IP_ADDRESS}`,
+    });
+  } catch (error) {
+    console.error(`[rateLimit] ${policy.name} error:`, error);
+    return null;
+  }
+};
+
+/**
+ * Retry-After ヘッダーに設定する秒数を返す（待ち時間を持つエラーでなければ null）
+ */
+export const getRetryAfterSeconds = (cause: unknown): number | null =>
+  cause instanceof RateLimitExceededError ||
+  cause instanceof TooManyLoginAttemptsError
+    ? cause.retryAfterSeconds
+    : null;
+
+export const createRateLimitMiddleware = (
+  db: NodePgDatabase,
+  policy: RateLimitPolicy,
+): MiddlewareHandler => {
+  return async (c, next) => {
+    const decision = await consumeRateLimit(db, policy, getClientIpAddress(c));
+
+    if (decision && !decision.allowed) {
+      const error = new RateLimitExceededError(decision.retryAfterSeconds);
+      c.header('Retry-After', String(error.retryAfterSeconds));
+      c.header('X-RateLimit-Limit', String(decision.limit));
+      c.header('X-RateLimit-Remaining', '0');
+      return c.json({ message: error.message }, 429);
+    }
+
+    await next();
+
+    if (decision) {
+      c.header('X-RateLimit-Limit', String(decision.limit));
+      c.header('X-RateLimit-Remaining', String(decision.remaining));
+    }
+  };
+};
@@ -0,0 +1,249 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TRPCError } from '@trpc/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  AccountAlreadyExistsError,
+  UnsupportedAccountCurrencyError,
+} from '../../services/accounts/create-account.errors';
+import { InvalidBalanceDateError } from '../../services/accounts/get-account-balances.errors';
+import {
+  AccountNotFoundError,
+  NotAccountOwnerError,
+} from '../../services/accounts/update-account.errors';
+import { TOKENS } from '../../services/di/tokens';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { accountRouter } from './account.router';
+
+const accountOutput = {
+  id: 1,
+  name: 'メインバンク',
+  type: 'BANK' as const,
+  currencyCode: 'JPY',
+  openingBalance: 100000,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('accountRouter（口座ルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('認証済みの場合、口座を作成できる（通貨と開始残高は既定値が補われる）', async () => {
+      executeMock.mockResolvedValueOnce({
+        account: { ...accountOutput, openingBalance: 0 },
+      });
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      const result = await caller.create({
+        name: 'メインバンク',
+        type: 'BANK',
+      });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.CreateAccountUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        name: 'メインバンク',
+        type: 'BANK',
+        currency: 'JPY',
+        openingBalance: 0,
+      });
+      expect(result.account.openingBalance).toBe(0);
+    });
+
+    it('利用できない通貨の場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UnsupportedAccountCurrencyError('USD'),
+      );
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ name: 'USD口座', type: 'BANK', currency: 'USD' }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('口座名が重複する場合は CONFLICT に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new AccountAlreadyExistsError('メインバンク'),
+      );
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ name: 'メインバンク', type: 'BANK' }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('不正な口座種別の場合は BAD_REQUEST になる（ユースケースは呼ばれない）', async () => {
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({
+          name: '財布',
+          type: 'WALLET' as unknown as 'CASH',
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('認証済みの場合、口座一覧を取得できる', async () => {
+      executeMock.mockResolvedValueOnce({ accounts: [accountOutput] });
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      const result = await caller.list();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListAccountsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual({ accounts: [accountOutput] });
+    });
+  });
+
+  describe('update', () => {
+    it('認証済みの場合、口座を更新できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        account: { ...accountOutput, openingBalance: -20000 },
+      });
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      const result = await caller.update({ id: 1, openingBalance: -20000 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.UpdateAccountUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        id: 1,
+        name: undefined,
+        type: undefined,
+        openingBalance: -20000,
+      });
+      expect(result.account.openingBalance).toBe(-20000);
+    });
+
+    it('口座が見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new AccountNotFoundError(999));
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 999, name: '財布' }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new NotAccountOwnerError());
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 1, name: '財布' }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('delete', () => {
+    it('認証済みの場合、口座を削除できる', async () => {
+      executeMock.mockResolvedValueOnce({ deleted: true });
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      const result = await caller.delete({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.DeleteAccountUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      const error = await caller.delete({ id: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TRPCError);
+      expect(error).toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: '口座の削除に失敗しました',
+      });
+    });
+  });
+
+  describe('balances', () => {
+    it('認証済みの場合、指定日時点の口座残高を取得できる', async () => {
+      const balances = {
+        asOf: '2025-01-31',
+        accounts: [
+          {
+            accountId: 1,
+            name: 'メインバンク',
+            type: 'BANK' as const,
+            currencyCode: 'JPY',
+            openingBalance: 100000,
+            totalIncome: 300000,
+            totalExpense: 120000,
+            totalTransferIn: 0,
+            totalTransferOut: 0,
+            balance: 280000,
+          },
+        ],
+      };
+      executeMock.mockResolvedValueOnce(balances);
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      const result = await caller.balances({ asOf: '2025-01-31' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.GetAccountBalancesUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        asOf: '2025-01-31',
+      });
+      expect(result).toEqual(balances);
+    });
+
+    it('入力を省略した場合、asOf なしでユースケースが呼ばれる', async () => {
+      executeMock.mockResolvedValueOnce({ asOf: '2025-02-01', accounts: [] });
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+      await caller.balances();
+
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        asOf: undefined,
+      });
+    });
+
+    it('不正な日付は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidBalanceDateError('2025-02-30'),
+      );
+
+      const caller = accountRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.balances({ asOf: '2025-02-30' }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+});
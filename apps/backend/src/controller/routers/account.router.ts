@@ -0,0 +1,283 @@
+// Presentation Layer: Account Router
+// 口座関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  accountsBalancesInputSchema,
+  accountsBalancesOutputSchema,
+  accountsCreateInputSchema,
+  accountsCreateOutputSchema,
+  accountsDeleteInputSchema,
+  accountsDeleteOutputSchema,
+  accountsListOutputSchema,
+  accountsUpdateInputSchema,
+  accountsUpdateOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import {
+  AccountAlreadyExistsError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+  UnsupportedAccountCurrencyError,
+} from '../../services/accounts/create-account.errors';
+import type { CreateAccountUseCase } from '../../services/accounts/create-account.service';
+import type { DeleteAccountUseCase } from '../../services/accounts/delete-account.service';
+import { InvalidBalanceDateError } from '../../services/accounts/get-account-balances.errors';
+import type { GetAccountBalancesUseCase } from '../../services/accounts/get-account-balances.service';
+import type { ListAccountsUseCase } from '../../services/accounts/list-accounts.service';
+import {
+  AccountNotFoundError,
+  NotAccountOwnerError,
+} from '../../services/accounts/update-account.errors';
+import type { UpdateAccountUseCase } from '../../services/accounts/update-account.service';
+import { TOKENS } from '../../services/di/tokens';
+import { Effect } from '../../shared/result';
+import { protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveCreateAccountUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<CreateAccountUseCase>(TOKENS.CreateAccountUseCase);
+};
+
+const resolveListAccountsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListAccountsUseCase>(TOKENS.ListAccountsUseCase);
+};
+
+const resolveUpdateAccountUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UpdateAccountUseCase>(TOKENS.UpdateAccountUseCase);
+};
+
+const resolveDeleteAccountUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteAccountUseCase>(TOKENS.DeleteAccountUseCase);
+};
+
+const resolveGetAccountBalancesUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<GetAccountBalancesUseCase>(
+    TOKENS.GetAccountBalancesUseCase,
+  );
+};
+
+const toCreateAccountTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[accounts.create] error:', error);
+  }
+
+  if (
+    error instanceof InvalidAccountNameError ||
+    error instanceof InvalidOpeningBalanceError ||
+    error instanceof UnsupportedAccountCurrencyError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof AccountAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '口座の作成に失敗しました',
+  });
+};
+
+const toListAccountsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[accounts.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '口座一覧の取得に失敗しました',
+  });
+};
+
+const toUpdateAccountTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[accounts.update] error:', error);
+  }
+
+  if (
+    error instanceof InvalidAccountNameError ||
+    error instanceof InvalidOpeningBalanceError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof AccountNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotAccountOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof AccountAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '口座の更新に失敗しました',
+  });
+};
+
+const toDeleteAccountTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[accounts.delete] error:', error);
+  }
+
+  if (error instanceof AccountNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotAccountOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '口座の削除に失敗しました',
+  });
+};
+
+const toGetAccountBalancesTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[accounts.balances] error:', error);
+  }
+
+  if (error instanceof InvalidBalanceDateError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '口座残高の取得に失敗しました',
+  });
+};
+
+export const accountRouter = router({
+  create: protectedProcedure
+    .input(accountsCreateInputSchema)
+    .output(accountsCreateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveCreateAccountUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              name: input.name,
+              type: input.type,
+              currency: input.currency,
+              openingBalance: input.openingBalance,
+            }),
+          catch: (cause) => toCreateAccountTrpcError(cause),
+        }),
+      ),
+    ),
+
+  list: protectedProcedure.output(accountsListOutputSchema).query(({ ctx }) =>
+    runTrpcEffect(
+      Effect.tryPromise({
+        try: () =>
+          resolveListAccountsUseCase(ctx.db).execute({
+            userId: ctx.userId,
+          }),
+        catch: (cause) => toListAccountsTrpcError(cause),
+      }),
+    ),
+  ),
+
+  update: protectedProcedure
+    .input(accountsUpdateInputSchema)
+    .output(accountsUpdateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateAccountUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+              name: input.name,
+              type: input.type,
+              openingBalance: input.openingBalance,
+            }),
+          catch: (cause) => toUpdateAccountTrpcError(cause),
+        }),
+      ),
+    ),
+
+  delete: protectedProcedure
+    .input(accountsDeleteInputSchema)
+    .output(accountsDeleteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteAccountUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toDeleteAccountTrpcError(cause),
+        }),
+      ),
+    ),
+
+  balances: protectedProcedure
+    .input(accountsBalancesInputSchema)
+    .output(accountsBalancesOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveGetAccountBalancesUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              asOf: input.asOf,
+            }),
+          catch: (cause) => toGetAccountBalancesTrpcError(cause),
+        }),
+      ),
+    ),
+});
@@ -0,0 +1,232 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TRPCError } from '@trpc/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  BudgetAlreadyExistsError,
+  BudgetCategoryNotFoundError,
+  BudgetCategoryTypeMismatchError,
+} from '../../services/budgets/create-budget.errors';
+import { InvalidBudgetMonthError } from '../../services/budgets/get-budget-status.errors';
+import {
+  BudgetNotFoundError,
+  NotBudgetOwnerError,
+} from '../../services/budgets/update-budget.errors';
+import { TOKENS } from '../../services/di/tokens';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { budgetRouter } from './budget.router';
+
+const budgetOutput = {
+  id: 1,
+  categoryId: 10,
+  categoryName: '食費',
+  amount: 50000,
+  currencyCode: 'JPY',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('budgetRouter（予算ルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('認証済みの場合、予算を作成できる', async () => {
+      executeMock.mockResolvedValueOnce({ budget: budgetOutput });
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+      const result = await caller.create({ categoryId: 10, amount: 50000 });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.CreateBudgetUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        categoryId: 10,
+        amount: 50000,
+      });
+      expect(result).toEqual({ budget: budgetOutput });
+    });
+
+    it('収入カテゴリの場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new BudgetCategoryTypeMismatchError('INCOME'),
+      );
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ categoryId: 1, amount: 50000 }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('カテゴリが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new BudgetCategoryNotFoundError(999));
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ categoryId: 999, amount: 50000 }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('予算が重複する場合は CONFLICT に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new BudgetAlreadyExistsError(10));
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ categoryId: 10, amount: 50000 }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('予算額が0の場合は BAD_REQUEST になる（ユースケースは呼ばれない）', async () => {
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ categoryId: 10, amount: 0 }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('認証済みの場合、予算一覧を取得できる', async () => {
+      executeMock.mockResolvedValueOnce({ budgets: [budgetOutput] });
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+      const result = await caller.list();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListBudgetsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual({ budgets: [budgetOutput] });
+    });
+  });
+
+  describe('update', () => {
+    it('認証済みの場合、予算額を更新できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        budget: { ...budgetOutput, amount: 60000 },
+      });
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+      const result = await caller.update({ id: 1, amount: 60000 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.UpdateBudgetUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        id: 1,
+        amount: 60000,
+      });
+      expect(result.budget.amount).toBe(60000);
+    });
+
+    it('予算が見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new BudgetNotFoundError(999));
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 999, amount: 60000 }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new NotBudgetOwnerError());
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 1, amount: 60000 }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('delete', () => {
+    it('認証済みの場合、予算を削除できる', async () => {
+      executeMock.mockResolvedValueOnce({ deleted: true });
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+      const result = await caller.delete({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.DeleteBudgetUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      const error = await caller.delete({ id: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TRPCError);
+      expect(error).toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: '予算の削除に失敗しました',
+      });
+    });
+  });
+
+  describe('status', () => {
+    it('認証済みの場合、予算の消化状況を取得できる', async () => {
+      const status = {
+        month: '2025-01',
+        currencyCode: 'JPY',
+        budgets: [
+          {
+            id: 1,
+            categoryId: 10,
+            categoryName: '食費',
+            amount: 50000,
+            spent: 55000,
+            remaining: -5000,
+            percentUsed: 110,
+            isOverBudget: true,
+          },
+        ],
+        unconvertedCount: 0,
+      };
+      executeMock.mockResolvedValueOnce(status);
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+      const result = await caller.status({ month: '2025-01' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.GetBudgetStatusUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        month: '2025-01',
+      });
+      expect(result).toEqual(status);
+    });
+
+    it('不正な月は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidBudgetMonthError('2025-13'));
+
+      const caller = budgetRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.status({ month: '2025-13' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    });
+  });
+});
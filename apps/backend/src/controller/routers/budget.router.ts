@@ -0,0 +1,273 @@
+// Presentation Layer: Budget Router
+// 予算関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  budgetsCreateInputSchema,
+  budgetsCreateOutputSchema,
+  budgetsDeleteInputSchema,
+  budgetsDeleteOutputSchema,
+  budgetsListOutputSchema,
+  budgetsStatusInputSchema,
+  budgetsStatusOutputSchema,
+  budgetsUpdateInputSchema,
+  budgetsUpdateOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import {
+  BudgetAlreadyExistsError,
+  BudgetCategoryNotFoundError,
+  BudgetCategoryTypeMismatchError,
+  InvalidBudgetAmountError,
+} from '../../services/budgets/create-budget.errors';
+import type { CreateBudgetUseCase } from '../../services/budgets/create-budget.service';
+import type { DeleteBudgetUseCase } from '../../services/budgets/delete-budget.service';
+import { InvalidBudgetMonthError } from '../../services/budgets/get-budget-status.errors';
+import type { GetBudgetStatusUseCase } from '../../services/budgets/get-budget-status.service';
+import type { ListBudgetsUseCase } from '../../services/budgets/list-budgets.service';
+import {
+  BudgetNotFoundError,
+  NotBudgetOwnerError,
+} from '../../services/budgets/update-budget.errors';
+import type { UpdateBudgetUseCase } from '../../services/budgets/update-budget.service';
+import { TOKENS } from '../../services/di/tokens';
+import { Effect } from '../../shared/result';
+import { protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveCreateBudgetUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<CreateBudgetUseCase>(TOKENS.CreateBudgetUseCase);
+};
+
+const resolveListBudgetsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListBudgetsUseCase>(TOKENS.ListBudgetsUseCase);
+};
+
+const resolveUpdateBudgetUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UpdateBudgetUseCase>(TOKENS.UpdateBudgetUseCase);
+};
+
+const resolveDeleteBudgetUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteBudgetUseCase>(TOKENS.DeleteBudgetUseCase);
+};
+
+const resolveGetBudgetStatusUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<GetBudgetStatusUseCase>(TOKENS.GetBudgetStatusUseCase);
+};
+
+const toCreateBudgetTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[budgets.create] error:', error);
+  }
+
+  if (
+    error instanceof InvalidBudgetAmountError ||
+    error instanceof BudgetCategoryTypeMismatchError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof BudgetCategoryNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof BudgetAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '予算の作成に失敗しました',
+  });
+};
+
+const toListBudgetsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[budgets.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '予算一覧の取得に失敗しました',
+  });
+};
+
+const toUpdateBudgetTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[budgets.update] error:', error);
+  }
+
+  if (error instanceof InvalidBudgetAmountError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof BudgetNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotBudgetOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '予算の更新に失敗しました',
+  });
+};
+
+const toDeleteBudgetTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[budgets.delete] error:', error);
+  }
+
+  if (error instanceof BudgetNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotBudgetOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '予算の削除に失敗しました',
+  });
+};
+
+const toGetBudgetStatusTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[budgets.status] error:', error);
+  }
+
+  if (error instanceof InvalidBudgetMonthError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '予算の消化状況の取得に失敗しました',
+  });
+};
+
+export const budgetRouter = router({
+  create: protectedProcedure
+    .input(budgetsCreateInputSchema)
+    .output(budgetsCreateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveCreateBudgetUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              categoryId: input.categoryId,
+              amount: input.amount,
+            }),
+          catch: (cause) => toCreateBudgetTrpcError(cause),
+        }),
+      ),
+    ),
+
+  list: protectedProcedure.output(budgetsListOutputSchema).query(({ ctx }) =>
+    runTrpcEffect(
+      Effect.tryPromise({
+        try: () =>
+          resolveListBudgetsUseCase(ctx.db).execute({
+            userId: ctx.userId,
+          }),
+        catch: (cause) => toListBudgetsTrpcError(cause),
+      }),
+    ),
+  ),
+
+  update: protectedProcedure
+    .input(budgetsUpdateInputSchema)
+    .output(budgetsUpdateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateBudgetUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+              amount: input.amount,
+            }),
+          catch: (cause) => toUpdateBudgetTrpcError(cause),
+        }),
+      ),
+    ),
+
+  delete: protectedProcedure
+    .input(budgetsDeleteInputSchema)
+    .output(budgetsDeleteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteBudgetUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toDeleteBudgetTrpcError(cause),
+        }),
+      ),
+    ),
+
+  status: protectedProcedure
+    .input(budgetsStatusInputSchema)
+    .output(budgetsStatusOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveGetBudgetStatusUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              month: input.month,
+            }),
+          catch: (cause) => toGetBudgetStatusTrpcError(cause),
+        }),
+      ),
+    ),
+});
@@ -8,6 +8,9 @@ import {
   InvalidCategoryNameError,
   TransactionTypeNotFoundError,
 } from '../../services/categories/create-category.errors';
+import { CategoryInUseError } from '../../services/categories/delete-category.errors';
+import { InvalidMergeTargetError } from '../../services/categories/merge-category.errors';
+import { CategoriesNotFoundError } from '../../services/categories/reorder-categories.errors';
 import { TOKENS } from '../../services/di/tokens';
 
 const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
@@ -36,6 +39,7 @@ const makeCategoryRecord = (
   name: '食費',
   type: 'EXPENSE',
   isDefault: false,
+  parentId: null,
   createdAt: fixedNow,
   updatedAt: fixedNow,
   ...override,
@@ -80,6 +84,76 @@ describe('categoryRouter（カテゴリルーター）', () => {
     });
   });
 
+  it('付け替え先を指定してカテゴリを削除できる', async () => {
+    executeMock.mockResolvedValueOnce({ deleted: true });
+
+    const caller = categoryRouter.createCaller({ db, userId: 1 });
+    const result = await caller.delete({
+      categoryId: 10,
+      reassignToCategoryId: 1,
+    });
+
+    expect(getMock).toHaveBeenCalledWith(TOKENS.DeleteCategoryUseCase);
+    expect(executeMock).toHaveBeenCalledWith({
+      categoryId: 10,
+      userId: 1,
+      reassignToCategoryId: 1,
+    });
+    expect(result).toEqual({ deleted: true });
+  });
+
+  it('カテゴリを統合できる', async () => {
+    executeMock.mockResolvedValueOnce({ merged: true });
+
+    const caller = categoryRouter.createCaller({ db, userId: 1 });
+    const result = await caller.merge({
+      sourceCategoryId: 10,
+      targetCategoryId: 1,
+    });
+
+    expect(getMock).toHaveBeenCalledWith(TOKENS.MergeCategoryUseCase);
+    expect(executeMock).toHaveBeenCalledWith({
+      sourceCategoryId: 10,
+      targetCategoryId: 1,
+      userId: 1,
+    });
+    expect(result).toEqual({ merged: true });
+  });
+
+  it('カテゴリをまとめて並び替えられる', async () => {
+    executeMock.mockResolvedValueOnce({ success: true });
+
+    const caller = categoryRouter.createCaller({ db, userId: 1 });
+    const result = await caller.reorder({ categoryIds: [3, 1, 2] });
+
+    expect(getMock).toHaveBeenCalledWith(TOKENS.ReorderCategoriesUseCase);
+    expect(executeMock).toHaveBeenCalledWith({
+      userId: 1,
+      categoryIds: [3, 1, 2],
+    });
+    expect(result).toEqual({ success: true });
+  });
+
+  it('カテゴリの表示設定をまとめて更新できる', async () => {
+    executeMock.mockResolvedValueOnce({ success: true });
+
+    const caller = categoryRouter.createCaller({ db, userId: 1 });
+    const result = await caller.bulkUpdateVisibility({
+      categoryIds: [1, 2],
+      isVisible: false,
+    });
+
+    expect(getMock).toHaveBeenCalledWith(
+      TOKENS.BulkUpdateCategoryVisibilityUseCase,
+    );
+    expect(executeMock).toHaveBeenCalledWith({
+      userId: 1,
+      categoryIds: [1, 2],
+      isVisible: false,
+    });
+    expect(result).toEqual({ success: true });
+  });
+
   describe('異常系', () => {
     it('未認証の場合は UNAUTHORIZED になる', async () => {
       const caller = categoryRouter.createCaller({ db });
@@ -158,6 +232,67 @@ describe('categoryRouter（カテゴリルーター）', () => {
       });
     });
 
+    it('使用中のカテゴリを付け替え先なしで削除した場合は CONFLICT に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new CategoryInUseError({
+          message: 'カテゴリは取引で使用されているため削除できません',
+          categoryId: 10,
+        }),
+      );
+
+      const caller = categoryRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.delete({ categoryId: 10 })).rejects.toMatchObject({
+        code: 'CONFLICT',
+        message: 'カテゴリは取引で使用されているため削除できません',
+      });
+    });
+
+    it('統合先が不正な場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidMergeTargetError({
+          message: '統合先は同じ取引種別のカテゴリである必要があります',
+          categoryId: 1,
+        }),
+      );
+
+      const caller = categoryRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.merge({ sourceCategoryId: 10, targetCategoryId: 1 }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: '統合先は同じ取引種別のカテゴリである必要があります',
+      });
+    });
+
+    it('並び替えで利用できないカテゴリが含まれる場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new CategoriesNotFoundError({
+          message: 'カテゴリが見つかりません: 99',
+          categoryIds: [99],
+        }),
+      );
+
+      const caller = categoryRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.reorder({ categoryIds: [1, 99] }),
+      ).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'カテゴリが見つかりません: 99',
+      });
+    });
+
+    it('並び替えのカテゴリIDが重複している場合は usecase が呼ばれない', async () => {
+      const caller = categoryRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.reorder({ categoryIds: [1, 1] }),
+      ).rejects.toBeInstanceOf(TRPCError);
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
     it('入力スキーマに違反する場合は usecase が呼ばれない', async () => {
       const caller = categoryRouter.createCaller({ db, userId: 1 });
 
@@ -3,36 +3,65 @@
 
 import type { NodePgDatabase } from '@account-book-app/db';
 import {
+  categoriesBulkUpdateVisibilityInputSchema,
+  categoriesBulkUpdateVisibilityOutputSchema,
   categoriesCreateInputSchema,
   categoriesCreateOutputSchema,
+  categoriesDeleteInputSchema,
+  categoriesDeleteOutputSchema,
   categoriesGetByIdInputSchema,
   categoriesGetByIdOutputSchema,
   categoriesListInputSchema,
   categoriesListOutputSchema,
+  categoriesMergeInputSchema,
+  categoriesMergeOutputSchema,
+  categoriesReorderInputSchema,
+  categoriesReorderOutputSchema,
   categoriesUpdateInputSchema,
   categoriesUpdateOutputSchema,
 } from '@account-book-app/shared';
 import { TRPCError } from '@trpc/server';
 import { createRequestContainer } from '../../infrastructre/di/container';
+import type { BulkUpdateCategoryVisibilityUseCase } from '../../services/categories/bulk-update-category-visibility.service';
 import type { CreateCategoryUseCase } from '../../services/categories/create.category.service';
 import {
   DuplicateCategoryError,
   InvalidCategoryNameError,
+  InvalidCategoryParentError,
   InvalidTypeIdError,
   TransactionTypeNotFoundError,
 } from '../../services/categories/create-category.errors';
+import {
+  CategoryInUseError,
+  DefaultCategoryDeleteForbiddenError,
+  CategoryNotFoundError as DeleteCategoryNotFoundError,
+  InvalidReassignTargetError,
+} from '../../services/categories/delete-category.errors';
+import type { DeleteCategoryUseCase } from '../../services/categories/delete-category.service';
 import type { GetCategoryUseCase } from '../../services/categories/get-category.service';
 import type { ListCategoriesUseCase } from '../../services/categories/list-categories.service';
+import {
+  DefaultCategoryMergeForbiddenError,
+  InvalidMergeTargetError,
+  CategoryNotFoundError as MergeCategoryNotFoundError,
+} from '../../services/categories/merge-category.errors';
+import type { MergeCategoryUseCase } from '../../services/categories/merge-category.service';
 import {
   CategoryNotFoundError,
   InvalidCategoryIdError,
   InvalidPaginationError,
   InvalidSortParameterError,
 } from '../../services/categories/read-category.errors';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+} from '../../services/categories/reorder-categories.errors';
+import type { ReorderCategoriesUseCase } from '../../services/categories/reorder-categories.service';
 import {
   DefaultCategoryUpdateForbiddenError,
   InvalidUpdateDataError,
   CategoryNotFoundError as UpdateCategoryNotFoundError,
+  InvalidCategoryParentError as UpdateInvalidCategoryParentError,
 } from '../../services/categories/update-category.errors';
 import type { UpdateCategoryUseCase } from '../../services/categories/update-category.service';
 import { TOKENS } from '../../services/di/tokens';
@@ -60,6 +89,30 @@ const resolveUpdateCategoryUseCase = (db: NodePgDatabase) => {
   return container.get<UpdateCategoryUseCase>(TOKENS.UpdateCategoryUseCase);
 };
 
+const resolveDeleteCategoryUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteCategoryUseCase>(TOKENS.DeleteCategoryUseCase);
+};
+
+const resolveMergeCategoryUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<MergeCategoryUseCase>(TOKENS.MergeCategoryUseCase);
+};
+
+const resolveReorderCategoriesUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ReorderCategoriesUseCase>(
+    TOKENS.ReorderCategoriesUseCase,
+  );
+};
+
+const resolveBulkUpdateCategoryVisibilityUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<BulkUpdateCategoryVisibilityUseCase>(
+    TOKENS.BulkUpdateCategoryVisibilityUseCase,
+  );
+};
+
 const toCreateCategoryTrpcError = <T>(cause: T) => {
   const error = cause instanceof Error ? cause : new Error(String(cause));
 
@@ -84,7 +137,8 @@ const toCreateCategoryTrpcError = <T>(cause: T) => {
 
   if (
     error instanceof InvalidCategoryNameError ||
-    error instanceof InvalidTypeIdError
+    error instanceof InvalidTypeIdError ||
+    error instanceof InvalidCategoryParentError
   ) {
     return new TRPCError({
       code: 'BAD_REQUEST',
@@ -169,7 +223,10 @@ const toUpdateCategoryTrpcError = <T>(cause: T) => {
     });
   }
 
-  if (error instanceof InvalidUpdateDataError) {
+  if (
+    error instanceof InvalidUpdateDataError ||
+    error instanceof UpdateInvalidCategoryParentError
+  ) {
     return new TRPCError({
       code: 'BAD_REQUEST',
       message: error.message,
@@ -182,6 +239,112 @@ const toUpdateCategoryTrpcError = <T>(cause: T) => {
   });
 };
 
+const toDeleteCategoryTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[categories.delete] error:', error);
+  }
+
+  if (error instanceof DeleteCategoryNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof DefaultCategoryDeleteForbiddenError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof CategoryInUseError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof InvalidReassignTargetError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'カテゴリの削除に失敗しました',
+  });
+};
+
+const toMergeCategoryTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[categories.merge] error:', error);
+  }
+
+  if (error instanceof MergeCategoryNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof DefaultCategoryMergeForbiddenError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof InvalidMergeTargetError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'カテゴリの統合に失敗しました',
+  });
+};
+
+const toBulkCategoryTrpcError = <T>(
+  procedure: 'reorder' | 'bulkUpdateVisibility',
+  fallbackMessage: string,
+  cause: T,
+) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error(`[categories.${procedure}] error:`, error);
+  }
+
+  if (error instanceof CategoriesNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof InvalidCategoryIdsError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: fallbackMessage,
+  });
+};
+
 export const categoryRouter = router({
   create: protectedProcedure
     .input(categoriesCreateInputSchema)
@@ -195,6 +358,7 @@ export const categoryRouter = router({
                 name: input.name,
                 typeId: input.typeId,
                 userId: ctx.userId,
+                parentId: input.parentId,
               }),
             catch: (cause) => toCreateCategoryTrpcError(cause),
           }),
@@ -218,6 +382,7 @@ export const categoryRouter = router({
               sortOrder: input.sortOrder,
               type: input.type,
               includeHidden: input.includeHidden,
+              tree: input.tree,
             }),
           catch: (cause) => toListCategoriesTrpcError(cause),
         }),
@@ -254,6 +419,7 @@ export const categoryRouter = router({
                 isVisible: input.isVisible,
                 customName: input.customName,
                 displayOrder: input.displayOrder,
+                parentId: input.parentId,
               }),
             catch: (cause) => toUpdateCategoryTrpcError(cause),
           }),
@@ -261,4 +427,81 @@ export const categoryRouter = router({
         ),
       ),
     ),
+
+  delete: protectedProcedure
+    .input(categoriesDeleteInputSchema)
+    .output(categoriesDeleteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteCategoryUseCase(ctx.db).execute({
+              categoryId: input.categoryId,
+              userId: ctx.userId,
+              reassignToCategoryId: input.reassignToCategoryId,
+            }),
+          catch: (cause) => toDeleteCategoryTrpcError(cause),
+        }),
+      ),
+    ),
+
+  merge: protectedProcedure
+    .input(categoriesMergeInputSchema)
+    .output(categoriesMergeOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveMergeCategoryUseCase(ctx.db).execute({
+              sourceCategoryId: input.sourceCategoryId,
+              targetCategoryId: input.targetCategoryId,
+              userId: ctx.userId,
+            }),
+          catch: (cause) => toMergeCategoryTrpcError(cause),
+        }),
+      ),
+    ),
+
+  reorder: protectedProcedure
+    .input(categoriesReorderInputSchema)
+    .output(categoriesReorderOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveReorderCategoriesUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              categoryIds: input.categoryIds,
+            }),
+          catch: (cause) =>
+            toBulkCategoryTrpcError(
+              'reorder',
+              'カテゴリの並び替えに失敗しました',
+              cause,
+            ),
+        }),
+      ),
+    ),
+
+  bulkUpdateVisibility: protectedProcedure
+    .input(categoriesBulkUpdateVisibilityInputSchema)
+    .output(categoriesBulkUpdateVisibilityOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveBulkUpdateCategoryVisibilityUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              categoryIds: input.categoryIds,
+              isVisible: input.isVisible,
+            }),
+          catch: (cause) =>
+            toBulkCategoryTrpcError(
+              'bulkUpdateVisibility',
+              'カテゴリの表示設定の更新に失敗しました',
+              cause,
+            ),
+        }),
+      ),
+    ),
 });
@@ -0,0 +1,173 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TRPCError } from '@trpc/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  CurrencyNotFoundError,
+  DefaultCurrencyDeactivationError,
+} from '../../services/currencies/update-currency-status.errors';
+import { TOKENS } from '../../services/di/tokens';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { currencyRouter } from './currency.router';
+
+const currencyOutput = {
+  code: 'USD',
+  name: '米ドル',
+  symbol: '$',
+  exponent: 2,
+  isActive: true,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('currencyRouter（通貨ルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_USER_IDS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('list', () => {
+    it('入力を省略した場合は有効な通貨のみ取得する', async () => {
+      executeMock.mockResolvedValueOnce({ currencies: [currencyOutput] });
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+      const result = await caller.list();
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListCurrenciesUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ includeInactive: false });
+      expect(result).toEqual({ currencies: [currencyOutput] });
+    });
+
+    it('includeInactive を指定した場合は無効な通貨も含めて取得する', async () => {
+      executeMock.mockResolvedValueOnce({ currencies: [] });
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+      await caller.list({ includeInactive: true });
+
+      expect(executeMock).toHaveBeenCalledWith({ includeInactive: true });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.list()).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    });
+  });
+
+  describe('activate', () => {
+    it('管理者の場合、通貨を有効化できる', async () => {
+      executeMock.mockResolvedValueOnce({ currency: currencyOutput });
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+      const result = await caller.activate({ code: 'USD' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.UpdateCurrencyStatusUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        code: 'USD',
+        isActive: true,
+      });
+      expect(result).toEqual({ currency: currencyOutput });
+    });
+
+    it('通貨が見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new CurrencyNotFoundError('XXX'));
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.activate({ code: 'XXX' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('通貨コードがISO 4217形式でない場合は usecase が呼ばれない', async () => {
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.activate({ code: 'usd' })).rejects.toBeInstanceOf(
+        TRPCError,
+      );
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('管理者でない場合は FORBIDDEN になり usecase が呼ばれない', async () => {
+      const caller = currencyRouter.createCaller({ db, userId: 2 });
+
+      await expect(caller.activate({ code: 'USD' })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deactivate', () => {
+    it('管理者の場合、通貨を無効化できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        currency: { ...currencyOutput, isActive: false },
+      });
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+      const result = await caller.deactivate({ code: 'USD' });
+
+      expect(executeMock).toHaveBeenCalledWith({
+        code: 'USD',
+        isActive: false,
+      });
+      expect(result.currency.isActive).toBe(false);
+    });
+
+    it('既定の通貨の無効化は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new DefaultCurrencyDeactivationError('JPY'),
+      );
+
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.deactivate({ code: 'JPY' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    });
+
+    it('管理者が設定されていない場合は FORBIDDEN になる', async () => {
+      vi.stubEnv('ADMIN_USER_IDS', '');
+      const caller = currencyRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.deactivate({ code: 'USD' })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('未認証の場合は UNAUTHORIZED になる', async () => {
+      const caller = currencyRouter.createCaller({ db });
+
+      await expect(caller.deactivate({ code: 'USD' })).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+// Presentation Layer: Currency Router
+// 通貨関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  currenciesActivateInputSchema,
+  currenciesActivateOutputSchema,
+  currenciesDeactivateInputSchema,
+  currenciesDeactivateOutputSchema,
+  currenciesListInputSchema,
+  currenciesListOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import type { ListCurrenciesUseCase } from '../../services/currencies/list-currencies.service';
+import {
+  CurrencyNotFoundError,
+  DefaultCurrencyDeactivationError,
+} from '../../services/currencies/update-currency-status.errors';
+import type { UpdateCurrencyStatusUseCase } from '../../services/currencies/update-currency-status.service';
+import { TOKENS } from '../../services/di/tokens';
+import { Effect } from '../../shared/result';
+import { adminProcedure, protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveListCurrenciesUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListCurrenciesUseCase>(TOKENS.ListCurrenciesUseCase);
+};
+
+const resolveUpdateCurrencyStatusUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UpdateCurrencyStatusUseCase>(
+    TOKENS.UpdateCurrencyStatusUseCase,
+  );
+};
+
+const toListCurrenciesTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[currencies.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '通貨一覧の取得に失敗しました',
+  });
+};
+
+const toActivateCurrencyTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[currencies.activate] error:', error);
+  }
+
+  if (error instanceof CurrencyNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '通貨の有効化に失敗しました',
+  });
+};
+
+const toDeactivateCurrencyTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[currencies.deactivate] error:', error);
+  }
+
+  if (error instanceof DefaultCurrencyDeactivationError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof CurrencyNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '通貨の無効化に失敗しました',
+  });
+};
+
+export const currencyRouter = router({
+  list: protectedProcedure
+    .input(currenciesListInputSchema)
+    .output(currenciesListOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveListCurrenciesUseCase(ctx.db).execute({
+              includeInactive: input.includeInactive,
+            }),
+          catch: (cause) => toListCurrenciesTrpcError(cause),
+        }),
+      ),
+    ),
+
+  activate: adminProcedure
+    .input(currenciesActivateInputSchema)
+    .output(currenciesActivateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateCurrencyStatusUseCase(ctx.db).execute({
+              code: input.code,
+              isActive: true,
+            }),
+          catch: (cause) => toActivateCurrencyTrpcError(cause),
+        }),
+      ),
+    ),
+
+  deactivate: adminProcedure
+    .input(currenciesDeactivateInputSchema)
+    .output(currenciesDeactivateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateCurrencyStatusUseCase(ctx.db).execute({
+              code: input.code,
+              isActive: false,
+            }),
+          catch: (cause) => toDeactivateCurrencyTrpcError(cause),
+        }),
+      ),
+    ),
+});
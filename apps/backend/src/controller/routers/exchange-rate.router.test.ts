@@ -0,0 +1,112 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TRPCError } from '@trpc/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../services/di/tokens';
+import {
+  InvalidExchangeRateFileError,
+  InvalidExchangeRateRowError,
+} from '../../services/exchange-rates/import-exchange-rates.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { exchangeRateRouter } from './exchange-rate.router';
+
+const CSV_CONTENT = 'from,to,date,rate\nUSD,JPY,2025-01-01,150.25\n';
+const BASE64_CONTENT = Buffer.from(CSV_CONTENT).toString('base64');
+
+describe('exchangeRateRouter（為替レートルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_USER_IDS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('import', () => {
+    it('Base64をデコードしたCSVを usecase に渡して取り込める', async () => {
+      executeMock.mockResolvedValueOnce({ imported: 1 });
+
+      const caller = exchangeRateRouter.createCaller({ db, userId: 1 });
+      const result = await caller.import({ content: BASE64_CONTENT });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ImportExchangeRatesUseCase);
+      expect(
+        Buffer.from(executeMock.mock.calls[0]?.[0].content).toString(),
+      ).toBe(CSV_CONTENT);
+      expect(result).toEqual({ imported: 1 });
+    });
+
+    it('ファイル/行の不正は BAD_REQUEST に変換される', async () => {
+      executeMock
+        .mockRejectedValueOnce(
+          new InvalidExchangeRateFileError('取り込む行がありません'),
+        )
+        .mockRejectedValueOnce(
+          new InvalidExchangeRateRowError(
+            2,
+            'レートは0より大きい必要があります',
+          ),
+        );
+
+      const caller = exchangeRateRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.import({ content: BASE64_CONTENT }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      await expect(
+        caller.import({ content: BASE64_CONTENT }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: '2行目: レートは0より大きい必要があります',
+      });
+    });
+
+    it('Base64形式でない場合は usecase が呼ばれない', async () => {
+      const caller = exchangeRateRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.import({ content: 'not base64!' }),
+      ).rejects.toBeInstanceOf(TRPCError);
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('管理者でない場合は FORBIDDEN になり usecase が呼ばれない', async () => {
+      const caller = exchangeRateRouter.createCaller({ db, userId: 2 });
+
+      await expect(
+        caller.import({ content: BASE64_CONTENT }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = exchangeRateRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.import({ content: BASE64_CONTENT }),
+      ).rejects.toMatchObject({ code: 'INTERNAL_SERVER_ERROR' });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// Presentation Layer: Exchange Rate Router
+// 為替レート関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  exchangeRatesImportInputSchema,
+  exchangeRatesImportOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import { TOKENS } from '../../services/di/tokens';
+import {
+  InvalidExchangeRateFileError,
+  InvalidExchangeRateRowError,
+} from '../../services/exchange-rates/import-exchange-rates.errors';
+import type { ImportExchangeRatesUseCase } from '../../services/exchange-rates/import-exchange-rates.service';
+import { Effect } from '../../shared/result';
+import { adminProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveImportExchangeRatesUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ImportExchangeRatesUseCase>(
+    TOKENS.ImportExchangeRatesUseCase,
+  );
+};
+
+const toImportExchangeRatesTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[exchangeRates.import] error:', error);
+  }
+
+  if (
+    error instanceof InvalidExchangeRateFileError ||
+    error instanceof InvalidExchangeRateRowError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '為替レートの取り込みに失敗しました',
+  });
+};
+
+export const exchangeRateRouter = router({
+  import: adminProcedure
+    .input(exchangeRatesImportInputSchema)
+    .output(exchangeRatesImportOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveImportExchangeRatesUseCase(ctx.db).execute({
+              content: Buffer.from(input.content, 'base64'),
+            }),
+          catch: (cause) => toImportExchangeRatesTrpcError(cause),
+        }),
+      ),
+    ),
+});
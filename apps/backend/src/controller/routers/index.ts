@@ -2,12 +2,26 @@
 // すべてのルーターを統合
 
 import { router } from '../trpc/trpc';
+import { accountRouter } from './account.router';
+import { budgetRouter } from './budget.router';
 import { categoryRouter } from './category.router';
+import { currencyRouter } from './currency.router';
+import { exchangeRateRouter } from './exchange-rate.router';
+import { ledgerRouter } from './ledger.router';
+import { recurringTransactionRouter } from './recurring-transaction.router';
+import { tagRouter } from './tag.router';
 import { transactionRouter } from './transaction.router';
 import { userRouter } from './user.router';
 
 export const appRouter = router({
+  accounts: accountRouter,
+  budgets: budgetRouter,
   categories: categoryRouter,
+  currencies: currencyRouter,
+  exchangeRates: exchangeRateRouter,
+  ledgers: ledgerRouter,
+  recurringTransactions: recurringTransactionRouter,
+  tags: tagRouter,
   transactions: transactionRouter,
   users: userRouter,
 });
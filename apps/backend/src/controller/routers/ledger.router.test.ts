@@ -0,0 +1,231 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../services/di/tokens';
+import {
+  InvalidLedgerInvitationError,
+  LedgerInvitationEmailMismatchError,
+} from '../../services/ledgers/accept-ledger-invitation.errors';
+import { AlreadyLedgerMemberError } from '../../services/ledgers/invite-ledger-member.errors';
+import {
+  LedgerMemberNotFoundError,
+  LedgerOwnerCannotBeRemovedError,
+  LedgerPermissionDeniedError,
+} from '../../services/ledgers/remove-ledger-member.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { ledgerRouter } from './ledger.router';
+
+const ledgerOutput = {
+  id: 1,
+  name: 'マイ家計簿',
+  role: 'OWNER' as const,
+  members: [
+    {
+      userId: 1,
+      name: 'オーナー',
+      email: 'owner@example.com',
+      role: 'OWNER' as const,
+      joinedAt: '2025-01-01T00:00:00.000Z',
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('ledgerRouter（帳簿ルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('認証済みの場合、参加している帳簿の一覧を取得できる', async () => {
+      executeMock.mockResolvedValueOnce({ ledgers: [ledgerOutput] });
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+      const result = await caller.list();
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListLedgersUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result.ledgers).toEqual([ledgerOutput]);
+    });
+
+    it('未認証の場合は UNAUTHORIZED になる（ユースケースは呼ばれない）', async () => {
+      const caller = ledgerRouter.createCaller({ db });
+
+      await expect(caller.list()).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invite', () => {
+    it('認証済みの場合、メンバーを招待できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        invitation: {
+          id: 5,
+          ledgerId: 1,
+          email: 'editor@example.com',
+          role: 'EDITOR',
+          expiresAt: '2025-01-08T00:00:00.000Z',
+        },
+      });
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+      const result = await caller.invite({
+        ledgerId: 1,
+        email: 'editor@example.com',
+        role: 'EDITOR',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.InviteLedgerMemberUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        ledgerId: 1,
+        email: 'editor@example.com',
+        role: 'EDITOR',
+      });
+      expect(result.invitation.id).toBe(5);
+    });
+
+    it('OWNER ロールでは招待できない（ユースケースは呼ばれない）', async () => {
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.invite({
+          ledgerId: 1,
+          email: 'owner2@example.com',
+          role: 'OWNER' as unknown as 'EDITOR',
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
+
+      const caller = ledgerRouter.createCaller({ db, userId: 2 });
+
+      await expect(
+        caller.invite({
+          ledgerId: 1,
+          email: 'viewer@example.com',
+          role: 'VIEWER',
+        }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('既にメンバーの場合は CONFLICT に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new AlreadyLedgerMemberError('editor@example.com'),
+      );
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.invite({
+          ledgerId: 1,
+          email: 'editor@example.com',
+          role: 'EDITOR',
+        }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+  });
+
+  describe('accept', () => {
+    it('認証済みの場合、招待を承諾して帳簿に参加できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        ledger: { ...ledgerOutput, role: 'EDITOR' },
+      });
+
+      const caller = ledgerRouter.createCaller({ db, userId: 2 });
+      const result = await caller.accept({ token: 'invitation-token' });
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.AcceptLedgerInvitationUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 2,
+        token: 'invitation-token',
+      });
+      expect(result.ledger.role).toBe('EDITOR');
+    });
+
+    it('招待が無効な場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidLedgerInvitationError());
+
+      const caller = ledgerRouter.createCaller({ db, userId: 2 });
+
+      await expect(
+        caller.accept({ token: 'invitation-token' }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('招待先のメールアドレスと異なる場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new LedgerInvitationEmailMismatchError(),
+      );
+
+      const caller = ledgerRouter.createCaller({ db, userId: 3 });
+
+      await expect(
+        caller.accept({ token: 'invitation-token' }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('認証済みの場合、メンバーを削除できる（操作したユーザーが渡される）', async () => {
+      executeMock.mockResolvedValueOnce({ removed: true });
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+      const result = await caller.removeMember({ ledgerId: 1, userId: 2 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RemoveLedgerMemberUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        actorUserId: 1,
+        ledgerId: 1,
+        userId: 2,
+      });
+      expect(result).toEqual({ removed: true });
+    });
+
+    it('オーナーを削除しようとした場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerOwnerCannotBeRemovedError());
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.removeMember({ ledgerId: 1, userId: 1 }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('メンバーが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerMemberNotFoundError(9));
+
+      const caller = ledgerRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.removeMember({ ledgerId: 1, userId: 9 }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+});
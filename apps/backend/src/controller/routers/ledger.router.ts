@@ -0,0 +1,240 @@
+// Presentation Layer: Ledger Router
+// 帳簿（共有）関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  ledgersAcceptInputSchema,
+  ledgersAcceptOutputSchema,
+  ledgersInviteInputSchema,
+  ledgersInviteOutputSchema,
+  ledgersListOutputSchema,
+  ledgersRemoveMemberInputSchema,
+  ledgersRemoveMemberOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import { TOKENS } from '../../services/di/tokens';
+import {
+  AlreadyLedgerMemberError,
+  InvalidLedgerInvitationError,
+  LedgerInvitationEmailMismatchError,
+  UserNotFoundError,
+} from '../../services/ledgers/accept-ledger-invitation.errors';
+import type { AcceptLedgerInvitationUseCase } from '../../services/ledgers/accept-ledger-invitation.service';
+import type { InviteLedgerMemberUseCase } from '../../services/ledgers/invite-ledger-member.service';
+import type { ListLedgersUseCase } from '../../services/ledgers/list-ledgers.service';
+import {
+  LedgerMemberNotFoundError,
+  LedgerOwnerCannotBeRemovedError,
+  LedgerPermissionDeniedError,
+} from '../../services/ledgers/remove-ledger-member.errors';
+import type { RemoveLedgerMemberUseCase } from '../../services/ledgers/remove-ledger-member.service';
+import { Effect } from '../../shared/result';
+import { protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveListLedgersUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListLedgersUseCase>(TOKENS.ListLedgersUseCase);
+};
+
+const resolveInviteLedgerMemberUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<InviteLedgerMemberUseCase>(
+    TOKENS.InviteLedgerMemberUseCase,
+  );
+};
+
+const resolveAcceptLedgerInvitationUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<AcceptLedgerInvitationUseCase>(
+    TOKENS.AcceptLedgerInvitationUseCase,
+  );
+};
+
+const resolveRemoveLedgerMemberUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RemoveLedgerMemberUseCase>(
+    TOKENS.RemoveLedgerMemberUseCase,
+  );
+};
+
+const toListLedgersTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[ledgers.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '帳簿一覧の取得に失敗しました',
+  });
+};
+
+const toInviteLedgerMemberTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[ledgers.invite] error:', error);
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof AlreadyLedgerMemberError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '帳簿への招待に失敗しました',
+  });
+};
+
+const toAcceptLedgerInvitationTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[ledgers.accept] error:', error);
+  }
+
+  if (error instanceof InvalidLedgerInvitationError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerInvitationEmailMismatchError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof AlreadyLedgerMemberError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '帳簿への招待の承諾に失敗しました',
+  });
+};
+
+const toRemoveLedgerMemberTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[ledgers.removeMember] error:', error);
+  }
+
+  if (error instanceof LedgerOwnerCannotBeRemovedError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerMemberNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '帳簿メンバーの削除に失敗しました',
+  });
+};
+
+export const ledgerRouter = router({
+  list: protectedProcedure.output(ledgersListOutputSchema).query(({ ctx }) =>
+    runTrpcEffect(
+      Effect.tryPromise({
+        try: () =>
+          resolveListLedgersUseCase(ctx.db).execute({
+            userId: ctx.userId,
+          }),
+        catch: (cause) => toListLedgersTrpcError(cause),
+      }),
+    ),
+  ),
+
+  invite: protectedProcedure
+    .input(ledgersInviteInputSchema)
+    .output(ledgersInviteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveInviteLedgerMemberUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              ledgerId: input.ledgerId,
+              email: input.email,
+              role: input.role,
+            }),
+          catch: (cause) => toInviteLedgerMemberTrpcError(cause),
+        }),
+      ),
+    ),
+
+  accept: protectedProcedure
+    .input(ledgersAcceptInputSchema)
+    .output(ledgersAcceptOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveAcceptLedgerInvitationUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              token: input.token,
+            }),
+          catch: (cause) => toAcceptLedgerInvitationTrpcError(cause),
+        }),
+      ),
+    ),
+
+  removeMember: protectedProcedure
+    .input(ledgersRemoveMemberInputSchema)
+    .output(ledgersRemoveMemberOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRemoveLedgerMemberUseCase(ctx.db).execute({
+              actorUserId: ctx.userId,
+              ledgerId: input.ledgerId,
+              userId: input.userId,
+            }),
+          catch: (cause) => toRemoveLedgerMemberTrpcError(cause),
+        }),
+      ),
+    ),
+});
@@ -1,10 +1,17 @@
 import type { NodePgDatabase } from '@account-book-app/db';
 import {
+  categoriesBulkUpdateVisibilityInputSchema,
+  categoriesBulkUpdateVisibilityOutputSchema,
   categoriesCreateInputSchema,
   categoriesCreateOutputSchema,
+  categoriesDeleteOutputSchema,
   categoriesGetByIdOutputSchema,
   categoriesListInputSchema,
   categoriesListOutputSchema,
+  categoriesMergeInputSchema,
+  categoriesMergeOutputSchema,
+  categoriesReorderInputSchema,
+  categoriesReorderOutputSchema,
   categoriesUpdateInputSchema,
   categoriesUpdateOutputSchema,
 } from '@account-book-app/shared';
@@ -13,25 +20,46 @@ import { createRoute, z } from '@hono/zod-openapi';
 import type { Context, Env } from 'hono';
 
 import { createRequestContainer } from '../../../infrastructre/di/container';
+import type { BulkUpdateCategoryVisibilityUseCase } from '../../../services/categories/bulk-update-category-visibility.service';
 import type { CreateCategoryUseCase } from '../../../services/categories/create.category.service';
 import {
   DuplicateCategoryError,
   InvalidCategoryNameError,
+  InvalidCategoryParentError,
   InvalidTypeIdError,
   TransactionTypeNotFoundError,
 } from '../../../services/categories/create-category.errors';
+import {
+  CategoryInUseError,
+  DefaultCategoryDeleteForbiddenError,
+  CategoryNotFoundError as DeleteCategoryNotFoundError,
+  InvalidReassignTargetError,
+} from '../../../services/categories/delete-category.errors';
+import type { DeleteCategoryUseCase } from '../../../services/categories/delete-category.service';
 import type { GetCategoryUseCase } from '../../../services/categories/get-category.service';
 import type { ListCategoriesUseCase } from '../../../services/categories/list-categories.service';
+import {
+  DefaultCategoryMergeForbiddenError,
+  InvalidMergeTargetError,
+  CategoryNotFoundError as MergeCategoryNotFoundError,
+} from '../../../services/categories/merge-category.errors';
+import type { MergeCategoryUseCase } from '../../../services/categories/merge-category.service';
 import {
   CategoryNotFoundError,
   InvalidCategoryIdError,
   InvalidPaginationError,
   InvalidSortParameterError,
 } from '../../../services/categories/read-category.errors';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+} from '../../../services/categories/reorder-categories.errors';
+import type { ReorderCategoriesUseCase } from '../../../services/categories/reorder-categories.service';
 import {
   DefaultCategoryUpdateForbiddenError,
   InvalidUpdateDataError,
   CategoryNotFoundError as UpdateCategoryNotFoundError,
+  InvalidCategoryParentError as UpdateInvalidCategoryParentError,
 } from '../../../services/categories/update-category.errors';
 import type { UpdateCategoryUseCase } from '../../../services/categories/update-category.service';
 import { TOKENS } from '../../../services/di/tokens';
@@ -57,6 +85,30 @@ const resolveUpdateCategoryUseCase = (db: NodePgDatabase) => {
   return container.get<UpdateCategoryUseCase>(TOKENS.UpdateCategoryUseCase);
 };
 
+const resolveDeleteCategoryUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteCategoryUseCase>(TOKENS.DeleteCategoryUseCase);
+};
+
+const resolveMergeCategoryUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<MergeCategoryUseCase>(TOKENS.MergeCategoryUseCase);
+};
+
+const resolveReorderCategoriesUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ReorderCategoriesUseCase>(
+    TOKENS.ReorderCategoriesUseCase,
+  );
+};
+
+const resolveBulkUpdateCategoryVisibilityUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<BulkUpdateCategoryVisibilityUseCase>(
+    TOKENS.BulkUpdateCategoryVisibilityUseCase,
+  );
+};
+
 const errorResponseSchema = z.object({
   message: z.string(),
 });
@@ -84,7 +136,8 @@ const toCreateCategoryHttpError = (
   if (
     error instanceof TransactionTypeNotFoundError ||
     error instanceof InvalidCategoryNameError ||
-    error instanceof InvalidTypeIdError
+    error instanceof InvalidTypeIdError ||
+    error instanceof InvalidCategoryParentError
   ) {
     return { status: 400, message: error.message };
   }
@@ -128,7 +181,10 @@ const toUpdateCategoryHttpError = (
 ): HttpError<400 | 403 | 404 | 500> => {
   const error = normalizeError(cause);
 
-  if (error instanceof InvalidUpdateDataError) {
+  if (
+    error instanceof InvalidUpdateDataError ||
+    error instanceof UpdateInvalidCategoryParentError
+  ) {
     return { status: 400, message: error.message };
   }
 
@@ -143,6 +199,67 @@ const toUpdateCategoryHttpError = (
   return { status: 500, message: 'カテゴリの更新に失敗しました' };
 };
 
+const toDeleteCategoryHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 404 | 409 | 500> => {
+  const error = normalizeError(cause);
+
+  if (error instanceof InvalidReassignTargetError) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof DefaultCategoryDeleteForbiddenError) {
+    return { status: 403, message: error.message };
+  }
+
+  if (error instanceof DeleteCategoryNotFoundError) {
+    return { status: 404, message: error.message };
+  }
+
+  if (error instanceof CategoryInUseError) {
+    return { status: 409, message: error.message };
+  }
+
+  return { status: 500, message: 'カテゴリの削除に失敗しました' };
+};
+
+const toMergeCategoryHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 404 | 500> => {
+  const error = normalizeError(cause);
+
+  if (error instanceof InvalidMergeTargetError) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof DefaultCategoryMergeForbiddenError) {
+    return { status: 403, message: error.message };
+  }
+
+  if (error instanceof MergeCategoryNotFoundError) {
+    return { status: 404, message: error.message };
+  }
+
+  return { status: 500, message: 'カテゴリの統合に失敗しました' };
+};
+
+const toBulkCategoryHttpError = (
+  cause: unknown,
+  fallbackMessage: string,
+): HttpError<400 | 404 | 500> => {
+  const error = normalizeError(cause);
+
+  if (error instanceof InvalidCategoryIdsError) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof CategoriesNotFoundError) {
+    return { status: 404, message: error.message };
+  }
+
+  return { status: 500, message: fallbackMessage };
+};
+
 const createCategoryRoute = createRoute({
   method: 'post',
   path: '/categories',
@@ -334,6 +451,235 @@ const updateCategoryRoute = createRoute({
   },
 });
 
+const deleteCategoryRoute = createRoute({
+  method: 'delete',
+  path: '/categories/{id}',
+  tags: ['categories'],
+  request: {
+    params: z.object({
+      id: z.string().regex(/^\d+$/).transform(Number),
+    }),
+    query: z.object({
+      reassignToCategoryId: z
+        .string()
+        .regex(/^\d+$/)
+        .transform(Number)
+        .optional(),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'カテゴリ削除成功',
+      content: {
+        'application/json': {
+          schema: categoriesDeleteOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（付け替え先が不正）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: 'デフォルトカテゴリの削除は禁止されています',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'カテゴリが見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: '競合（取引で使用中のカテゴリ）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const mergeCategoryRoute = createRoute({
+  method: 'post',
+  path: '/categories/{id}/merge',
+  tags: ['categories'],
+  request: {
+    params: z.object({
+      id: z.string().regex(/^\d+$/).transform(Number),
+    }),
+    body: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: categoriesMergeInputSchema.omit({ sourceCategoryId: true }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'カテゴリ統合成功',
+      content: {
+        'application/json': {
+          schema: categoriesMergeOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（統合先が不正）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: 'デフォルトカテゴリの統合は禁止されています',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'カテゴリが見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const reorderCategoriesRoute = createRoute({
+  method: 'post',
+  path: '/categories/reorder',
+  tags: ['categories'],
+  request: {
+    body: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: categoriesReorderInputSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'カテゴリ並び替え成功',
+      content: {
+        'application/json': {
+          schema: categoriesReorderOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（カテゴリIDが空または重複）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '利用できないカテゴリが含まれています',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const bulkUpdateCategoryVisibilityRoute = createRoute({
+  method: 'post',
+  path: '/categories/visibility',
+  tags: ['categories'],
+  request: {
+    body: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: categoriesBulkUpdateVisibilityInputSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'カテゴリ表示設定の一括更新成功',
+      content: {
+        'application/json': {
+          schema: categoriesBulkUpdateVisibilityOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（カテゴリIDが空または重複）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '利用できないカテゴリが含まれています',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
 export const registerCategoriesOpenApi = (
   app: OpenAPIHono,
   db: NodePgDatabase,
@@ -350,6 +696,7 @@ export const registerCategoriesOpenApi = (
               name: input.name,
               typeId: input.typeId,
               userId: 1,
+              parentId: input.parentId,
             }),
           catch: (cause) => toCreateCategoryHttpError(cause),
         }),
@@ -388,6 +735,7 @@ export const registerCategoriesOpenApi = (
               sortOrder: query.sortOrder,
               type: query.type,
               includeHidden: query.includeHidden,
+              tree: query.tree,
             }),
           catch: (cause) => toListCategoriesHttpError(cause),
         }),
@@ -436,6 +784,7 @@ export const registerCategoriesOpenApi = (
               isVisible: body.isVisible,
               customName: body.customName,
               displayOrder: body.displayOrder,
+              parentId: body.parentId,
             }),
           catch: (cause) => toUpdateCategoryHttpError(cause),
         }),
@@ -446,4 +795,103 @@ export const registerCategoriesOpenApi = (
       ),
     );
   });
+
+  app.openapi(deleteCategoryRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const deleteCategoryUseCase = resolveDeleteCategoryUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            deleteCategoryUseCase.execute({
+              categoryId: id,
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              reassignToCategoryId: query.reassignToCategoryId,
+            }),
+          catch: (cause) => toDeleteCategoryHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (result) => c.json(result, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(mergeCategoryRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+    const mergeCategoryUseCase = resolveMergeCategoryUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            mergeCategoryUseCase.execute({
+              sourceCategoryId: id,
+              targetCategoryId: body.targetCategoryId,
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+            }),
+          catch: (cause) => toMergeCategoryHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (result) => c.json(result, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(reorderCategoriesRoute, async (c) => {
+    const body = c.req.valid('json');
+    const reorderCategoriesUseCase = resolveReorderCategoriesUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            reorderCategoriesUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              categoryIds: body.categoryIds,
+            }),
+          catch: (cause) =>
+            toBulkCategoryHttpError(cause, 'カテゴリの並び替えに失敗しました'),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (result) => c.json(result, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(bulkUpdateCategoryVisibilityRoute, async (c) => {
+    const body = c.req.valid('json');
+    const bulkUpdateCategoryVisibilityUseCase =
+      resolveBulkUpdateCategoryVisibilityUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            bulkUpdateCategoryVisibilityUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              categoryIds: body.categoryIds,
+              isVisible: body.isVisible,
+            }),
+          catch: (cause) =>
+            toBulkCategoryHttpError(
+              cause,
+              'カテゴリの表示設定の更新に失敗しました',
+            ),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (result) => c.json(result, 200),
+        }),
+      ),
+    );
+  });
 };
@@ -3,6 +3,7 @@ import { swaggerUI } from '@hono/swagger-ui';
 import type { OpenAPIHono } from '@hono/zod-openapi';
 
 import { registerCategoriesOpenApi } from './categories.openapi';
+import { registerTransactionAttachmentsOpenApi } from './transaction-attachments.openapi';
 import { registerTransactionsOpenApi } from './transactions.openapi';
 import { registerUsersOpenApi } from './users.openapi';
 
@@ -34,5 +35,6 @@ export const registerOpenApi = (app: OpenAPIHono, db: NodePgDatabase) => {
 
   registerCategoriesOpenApi(app, db);
   registerTransactionsOpenApi(app, db);
+  registerTransactionAttachmentsOpenApi(app, db);
   registerUsersOpenApi(app, db);
 };
@@ -0,0 +1,205 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../../services/di/tokens';
+import { TransactionAttachmentNotFoundError } from '../../../services/transaction-attachments/download-transaction-attachment.errors';
+import {
+  LedgerPermissionDeniedError,
+  UnsupportedAttachmentContentTypeError,
+} from '../../../services/transaction-attachments/upload-transaction-attachment.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { registerTransactionAttachmentsOpenApi } from './transaction-attachments.openapi';
+
+describe('registerTransactionAttachmentsOpenApi（取引の添付ファイルOpenAPI）', () => {
+  const db = {} as NodePgDatabase;
+
+  const createApp = () => {
+    const app = new OpenAPIHono();
+    registerTransactionAttachmentsOpenApi(app, db);
+    return app;
+  };
+
+  const attachment = {
+    id: 1,
+    transactionId: 10,
+    fileName: 'receipt.jpg',
+    contentType: 'image/jpeg',
+    size: 3,
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  const createUploadForm = (type: string) => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new File([new Uint8Array([1, 2, 3])], 'receipt.jpg', { type }),
+    );
+    return form;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /transactions/{id}/attachments', () => {
+    it('アップロードされたファイルをユースケースに渡す', async () => {
+      executeMock.mockResolvedValueOnce({ attachment });
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments', {
+        method: 'POST',
+        body: createUploadForm('image/jpeg'),
+      });
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.UploadTransactionAttachmentUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        transactionId: 10,
+        fileName: 'receipt.jpg',
+        contentType: 'image/jpeg',
+        content: new Uint8Array([1, 2, 3]),
+      });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ attachment });
+    });
+
+    it('添付できないファイル形式の場合は400を返す', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UnsupportedAttachmentContentTypeError('application/pdf'),
+      );
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments', {
+        method: 'POST',
+        body: createUploadForm('application/pdf'),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('帳簿に対する権限がない場合は403を返す', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments', {
+        method: 'POST',
+        body: createUploadForm('image/jpeg'),
+      });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        message: '帳簿に対する権限がありません',
+      });
+    });
+  });
+
+  describe('GET /transactions/{id}/attachments', () => {
+    it('添付ファイル一覧を返す', async () => {
+      executeMock.mockResolvedValueOnce({ attachments: [attachment] });
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments');
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.ListTransactionAttachmentsUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        transactionId: 10,
+      });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ attachments: [attachment] });
+    });
+  });
+
+  describe('GET /transactions/{id}/attachments/{attachmentId}', () => {
+    it('ファイル本体を登録時のファイル名/形式で返す', async () => {
+      executeMock.mockResolvedValueOnce({
+        fileName: 'レシート.jpg',
+        contentType: 'image/jpeg',
+        body: new Uint8Array([1, 2, 3]),
+      });
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments/1');
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.DownloadTransactionAttachmentUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        transactionId: 10,
+        attachmentId: 1,
+      });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+      expect(response.headers.get('Content-Disposition')).toBe(
+        `attachment; filename="____.jpg"; filename*=UTF-8''${encodeURIComponent('レシート.jpg')}`,
+      );
+      expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+        new Uint8Array([1, 2, 3]),
+      );
+    });
+
+    it('添付ファイルが見つからない場合は404を返す', async () => {
+      executeMock.mockRejectedValueOnce(
+        new TransactionAttachmentNotFoundError(999),
+      );
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments/999');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /transactions/{id}/attachments/{attachmentId}', () => {
+    it('添付ファイルを削除する', async () => {
+      executeMock.mockResolvedValueOnce({ deleted: true });
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments/1', {
+        method: 'DELETE',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.DeleteTransactionAttachmentUseCase,
+      );
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ deleted: true });
+    });
+
+    it('想定外の例外は500を返す', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const app = createApp();
+      const response = await app.request('/transactions/10/attachments/1', {
+        method: 'DELETE',
+      });
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        message: '添付ファイルの削除に失敗しました',
+      });
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  transactionsAttachmentsDeleteOutputSchema,
+  transactionsAttachmentsListOutputSchema,
+  transactionsAttachmentsUploadOutputSchema,
+} from '@account-book-app/shared';
+import type { OpenAPIHono } from '@hono/zod-openapi';
+import { createRoute, z } from '@hono/zod-openapi';
+import type { Context, Env } from 'hono';
+
+import { createRequestContainer } from '../../../infrastructre/di/container';
+import { TOKENS } from '../../../services/di/tokens';
+import type { DeleteTransactionAttachmentUseCase } from '../../../services/transaction-attachments/delete-transaction-attachment.service';
+import { TransactionAttachmentNotFoundError } from '../../../services/transaction-attachments/download-transaction-attachment.errors';
+import type { DownloadTransactionAttachmentUseCase } from '../../../services/transaction-attachments/download-transaction-attachment.service';
+import type { ListTransactionAttachmentsUseCase } from '../../../services/transaction-attachments/list-transaction-attachments.service';
+import {
+  InvalidAttachmentFileNameError,
+  InvalidAttachmentSizeError,
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+  UnsupportedAttachmentContentTypeError,
+} from '../../../services/transaction-attachments/upload-transaction-attachment.errors';
+import type { UploadTransactionAttachmentUseCase } from '../../../services/transaction-attachments/upload-transaction-attachment.service';
+import { Effect, pipe } from '../../../shared/result';
+
+const resolveUploadTransactionAttachmentUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UploadTransactionAttachmentUseCase>(
+    TOKENS.UploadTransactionAttachmentUseCase,
+  );
+};
+
+const resolveListTransactionAttachmentsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListTransactionAttachmentsUseCase>(
+    TOKENS.ListTransactionAttachmentsUseCase,
+  );
+};
+
+const resolveDownloadTransactionAttachmentUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DownloadTransactionAttachmentUseCase>(
+    TOKENS.DownloadTransactionAttachmentUseCase,
+  );
+};
+
+const resolveDeleteTransactionAttachmentUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteTransactionAttachmentUseCase>(
+    TOKENS.DeleteTransactionAttachmentUseCase,
+  );
+};
+
+const errorResponseSchema = z.object({
+  message: z.string(),
+});
+
+type ErrorStatus = 400 | 403 | 404 | 500;
+
+type HttpError<S extends ErrorStatus = ErrorStatus> = {
+  status: S;
+  message: string;
+};
+
+const respondError = <S extends ErrorStatus, E extends Env, P extends string>(
+  c: Context<E, P>,
+  error: HttpError<S>,
+) => c.json({ message: error.message }, error.status);
+
+const normalizeError = (cause: unknown) =>
+  cause instanceof Error ? cause : new Error(String(cause));
+
+// NOTE: 帳簿に対する権限がない場合は403、取引/添付ファイルが存在しない場合は404（各ユースケースで共通）
+const toOwnershipHttpError = (error: Error): HttpError<403 | 404> | null => {
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
+  if (
+    error instanceof TransactionNotFoundError ||
+    error instanceof TransactionAttachmentNotFoundError
+  ) {
+    return { status: 404, message: error.message };
+  }
+
+  return null;
+};
+
+const toUploadTransactionAttachmentHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 404 | 500> => {
+  const error = normalizeError(cause);
+
+  if (
+    error instanceof InvalidAttachmentFileNameError ||
+    error instanceof UnsupportedAttachmentContentTypeError ||
+    error instanceof InvalidAttachmentSizeError
+  ) {
+    return { status: 400, message: error.message };
+  }
+
+  return (
+    toOwnershipHttpError(error) ?? {
+      status: 500,
+      message: '添付ファイルのアップロードに失敗しました',
+    }
+  );
+};
+
+const toListTransactionAttachmentsHttpError = (
+  cause: unknown,
+): HttpError<403 | 404 | 500> =>
+  toOwnershipHttpError(normalizeError(cause)) ?? {
+    status: 500,
+    message: '添付ファイル一覧の取得に失敗しました',
+  };
+
+const toDownloadTransactionAttachmentHttpError = (
+  cause: unknown,
+): HttpError<403 | 404 | 500> =>
+  toOwnershipHttpError(normalizeError(cause)) ?? {
+    status: 500,
+    message: '添付ファイルのダウンロードに失敗しました',
+  };
+
+const toDeleteTransactionAttachmentHttpError = (
+  cause: unknown,
+): HttpError<403 | 404 | 500> =>
+  toOwnershipHttpError(normalizeError(cause)) ?? {
+    status: 500,
+    message: '添付ファイルの削除に失敗しました',
+  };
+
+// NOTE: 日本語などのファイル名を扱えるよう RFC 5987 形式（filename*）でも指定する
+const toContentDisposition = (fileName: string): string =>
+  `attachment; filename="${fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+const transactionParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/).transform(Number),
+});
+
+const attachmentParamsSchema = transactionParamsSchema.extend({
+  attachmentId: z.string().regex(/^\d+$/).transform(Number),
+});
+
+const uploadTransactionAttachmentFormSchema = z.object({
+  file: z.instanceof(File).openapi({ type: 'string', format: 'binary' }),
+});
+
+const uploadTransactionAttachmentRoute = createRoute({
+  method: 'post',
+  path: '/transactions/{id}/attachments',
+  tags: ['transactions'],
+  request: {
+    params: transactionParamsSchema,
+    body: {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: uploadTransactionAttachmentFormSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        '添付ファイル（レシート画像: JPEG/PNG/WebP/HEIC、10MBまで）のアップロード',
+      content: {
+        'application/json': {
+          schema: transactionsAttachmentsUploadOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（ファイル形式/サイズ等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '取引が見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const listTransactionAttachmentsRoute = createRoute({
+  method: 'get',
+  path: '/transactions/{id}/attachments',
+  tags: ['transactions'],
+  request: {
+    params: transactionParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '添付ファイル一覧取得（登録順）',
+      content: {
+        'application/json': {
+          schema: transactionsAttachmentsListOutputSchema,
+        },
+      },
+    },
+    403: {
+      description: '権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '取引が見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const downloadTransactionAttachmentRoute = createRoute({
+  method: 'get',
+  path: '/transactions/{id}/attachments/{attachmentId}',
+  tags: ['transactions'],
+  request: {
+    params: attachmentParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '添付ファイルのダウンロード',
+      content: {
+        'application/octet-stream': {
+          schema: z.string().openapi({ type: 'string', format: 'binary' }),
+        },
+      },
+    },
+    403: {
+      description: '権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '取引/添付ファイルが見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const deleteTransactionAttachmentRoute = createRoute({
+  method: 'delete',
+  path: '/transactions/{id}/attachments/{attachmentId}',
+  tags: ['transactions'],
+  request: {
+    params: attachmentParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '添付ファイル削除',
+      content: {
+        'application/json': {
+          schema: transactionsAttachmentsDeleteOutputSchema,
+        },
+      },
+    },
+    403: {
+      description: '権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: '取引/添付ファイルが見つかりません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+export const registerTransactionAttachmentsOpenApi = (
+  app: OpenAPIHono,
+  db: NodePgDatabase,
+) => {
+  app.openapi(uploadTransactionAttachmentRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const form = c.req.valid('form');
+    const uploadTransactionAttachmentUseCase =
+      resolveUploadTransactionAttachmentUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: async () =>
+            uploadTransactionAttachmentUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              transactionId: id,
+              fileName: form.file.name,
+              contentType: form.file.type,
+              content: new Uint8Array(await form.file.arrayBuffer()),
+            }),
+          catch: (cause) => toUploadTransactionAttachmentHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) => c.json(output, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(listTransactionAttachmentsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const listTransactionAttachmentsUseCase =
+      resolveListTransactionAttachmentsUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            listTransactionAttachmentsUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              transactionId: id,
+            }),
+          catch: (cause) => toListTransactionAttachmentsHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) => c.json(output, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(downloadTransactionAttachmentRoute, async (c) => {
+    const { id, attachmentId } = c.req.valid('param');
+    const downloadTransactionAttachmentUseCase =
+      resolveDownloadTransactionAttachmentUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            downloadTransactionAttachmentUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              transactionId: id,
+              attachmentId,
+            }),
+          catch: (cause) => toDownloadTransactionAttachmentHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) =>
+            c.body(output.body, 200, {
+              'Content-Type': output.contentType,
+              'Content-Disposition': toContentDisposition(output.fileName),
+            }),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(deleteTransactionAttachmentRoute, async (c) => {
+    const { id, attachmentId } = c.req.valid('param');
+    const deleteTransactionAttachmentUseCase =
+      resolveDeleteTransactionAttachmentUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            deleteTransactionAttachmentUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              transactionId: id,
+              attachmentId,
+            }),
+          catch: (cause) => toDeleteTransactionAttachmentHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) => c.json(output, 200),
+        }),
+      ),
+    );
+  });
+};
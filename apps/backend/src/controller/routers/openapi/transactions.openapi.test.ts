@@ -0,0 +1,157 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../../services/di/tokens';
+import { UnexpectedExportTransactionsError } from '../../../services/transactions/export-transactions.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { registerTransactionsOpenApi } from './transactions.openapi';
+
+describe('registerTransactionsOpenApi（取引OpenAPI）', () => {
+  const db = {} as NodePgDatabase;
+
+  const createApp = () => {
+    const app = new OpenAPIHono();
+    registerTransactionsOpenApi(app, db);
+    return app;
+  };
+
+  async function* toChunks(chunks: string[]) {
+    yield* chunks;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /transactions/export', () => {
+    it('絞り込み条件をユースケースに渡し、ファイルとしてストリーム出力する', async () => {
+      executeMock.mockResolvedValueOnce({
+        contentType: 'text/csv; charset=utf-8',
+        fileName: 'transactions-2025-01-31.csv',
+        chunks: toChunks(['id,title\r\n', '1,ランチ\r\n']),
+      });
+
+      const app = createApp();
+      const response = await app.request(
+        '/transactions/export?startDate=2025-01-01&categoryIds=10&categoryIds=11',
+      );
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ExportTransactionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        format: 'csv',
+        startDate: '2025-01-01',
+        endDate: undefined,
+        type: undefined,
+        categoryIds: [10, 11],
+        order: 'desc',
+      });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe(
+        'text/csv; charset=utf-8',
+      );
+      expect(response.headers.get('Content-Disposition')).toBe(
+        'attachment; filename="transactions-2025-01-31.csv"',
+      );
+      expect(await response.text()).toBe('id,title\r\n1,ランチ\r\n');
+    });
+
+    it('format が不正な場合は400を返す（ユースケースは呼ばれない）', async () => {
+      const app = createApp();
+      const response = await app.request('/transactions/export?format=xlsx');
+
+      expect(response.status).toBe(400);
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('想定外の例外は500を返す', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UnexpectedExportTransactionsError({
+          message: '取引の取得に失敗しました',
+        }),
+      );
+
+      const app = createApp();
+      const response = await app.request('/transactions/export?format=json');
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        message: '取引のエクスポートに失敗しました',
+      });
+    });
+  });
+
+  describe('POST /transactions/import', () => {
+    const createImportForm = (file: File) => {
+      const form = new FormData();
+      form.append('file', file);
+      form.append(
+        'options',
+        JSON.stringify({
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+          defaultCategoryId: 10,
+          dryRun: true,
+        }),
+      );
+      return form;
+    };
+
+    it('ファイルサイズの上限を超える場合は400を返す（ユースケースは呼ばれない）', async () => {
+      const app = createApp();
+      const response = await app.request('/transactions/import', {
+        method: 'POST',
+        body: createImportForm(
+          new File([new Uint8Array(2 * 1024 * 1024 + 1)], 'transactions.csv', {
+            type: 'text/csv',
+          }),
+        ),
+      });
+
+      expect(response.status).toBe(400);
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('上限以内のファイルはユースケースに渡す', async () => {
+      executeMock.mockResolvedValueOnce({
+        dryRun: true,
+        committed: false,
+        summary: { total: 0, valid: 0, invalid: 0, duplicate: 0, imported: 0 },
+        rows: [],
+      });
+
+      const app = createApp();
+      const response = await app.request('/transactions/import', {
+        method: 'POST',
+        body: createImportForm(
+          new File(['日付,摘要,金額'], 'transactions.csv', {
+            type: 'text/csv',
+          }),
+        ),
+      });
+
+      expect(response.status).toBe(200);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ImportTransactionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, dryRun: true }),
+      );
+    });
+  });
+});
@@ -3,8 +3,15 @@ import {
   transactionsCreateInputSchema,
   transactionsCreateOutputSchema,
   transactionsDeleteOutputSchema,
+  transactionsExportInputSchema,
+  transactionsExportOutputSchema,
+  transactionsImportFileSizeSchema,
+  transactionsImportOptionsSchema,
+  transactionsImportOutputSchema,
   transactionsListInputSchema,
   transactionsListOutputSchema,
+  transactionsSummaryInputSchema,
+  transactionsSummaryOutputSchema,
   transactionsUpdateInputSchema,
   transactionsUpdateOutputSchema,
 } from '@account-book-app/shared';
@@ -15,25 +22,44 @@ import type { Context, Env } from 'hono';
 import { createRequestContainer } from '../../../infrastructre/di/container';
 import { TOKENS } from '../../../services/di/tokens';
 import {
+  AccountCurrencyMismatchError,
   CategoryNotFoundError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
   TransactionTitleTooLongError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from '../../../services/transactions/create-transaction.errors';
 import type { CreateTransactionUseCase } from '../../../services/transactions/create-transaction.service';
 import { UnexpectedDeleteTransactionError } from '../../../services/transactions/delete-transaction.errors';
 import type { DeleteTransactionUseCase } from '../../../services/transactions/delete-transaction.service';
-import { InvalidPaginationError } from '../../../services/transactions/list-transactions.errors';
+import type { ExportTransactionsUseCase } from '../../../services/transactions/export-transactions.service';
+import {
+  InvalidImportFileError,
+  InvalidImportMappingError,
+} from '../../../services/transactions/import-transactions.errors';
+import type { ImportTransactionsUseCase } from '../../../services/transactions/import-transactions.service';
+import {
+  InvalidCursorError,
+  InvalidPaginationError,
+} from '../../../services/transactions/list-transactions.errors';
 import type { ListTransactionsUseCase } from '../../../services/transactions/list-transactions.service';
+import { InvalidSummaryPeriodError } from '../../../services/transactions/summarize-transactions.errors';
+import type { SummarizeTransactionsUseCase } from '../../../services/transactions/summarize-transactions.service';
 import {
   CategoriesNotFoundError,
   InvalidCategoryIdsError,
-  NotOwnerError,
+  InvalidTransactionSplitsError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
 } from '../../../services/transactions/update-transaction.errors';
 import type { UpdateTransactionUseCase } from '../../../services/transactions/update-transaction.service';
@@ -65,6 +91,27 @@ const resolveDeleteTransactionUseCase = (db: NodePgDatabase) => {
   );
 };
 
+const resolveSummarizeTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<SummarizeTransactionsUseCase>(
+    TOKENS.SummarizeTransactionsUseCase,
+  );
+};
+
+const resolveExportTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ExportTransactionsUseCase>(
+    TOKENS.ExportTransactionsUseCase,
+  );
+};
+
+const resolveImportTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ImportTransactionsUseCase>(
+    TOKENS.ImportTransactionsUseCase,
+  );
+};
+
 const errorResponseSchema = z.object({
   message: z.string(),
 });
@@ -86,7 +133,7 @@ const normalizeError = (cause: unknown) =>
 
 const toCreateTransactionHttpError = (
   cause: unknown,
-): HttpError<400 | 404 | 500> => {
+): HttpError<400 | 403 | 404 | 500> => {
   const error = normalizeError(cause);
 
   if (
@@ -97,28 +144,117 @@ const toCreateTransactionHttpError = (
     error instanceof InvalidDateFormatError ||
     error instanceof FutureTransactionDateError ||
     error instanceof TransactionMemoTooLongError ||
-    error instanceof CategoryTypeMismatchError
+    error instanceof CategoryTypeMismatchError ||
+    error instanceof UnsupportedCurrencyError ||
+    error instanceof AccountCurrencyMismatchError ||
+    error instanceof TransferAccountRequiredError ||
+    error instanceof SameTransferAccountError ||
+    error instanceof TransferAccountNotAllowedError
   ) {
     return { status: 400, message: error.message };
   }
 
-  if (error instanceof CategoryNotFoundError) {
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
+  if (
+    error instanceof CategoryNotFoundError ||
+    error instanceof TransactionAccountNotFoundError ||
+    error instanceof TransactionTagsNotFoundError
+  ) {
     return { status: 404, message: error.message };
   }
 
   return { status: 500, message: '取引の作成に失敗しました' };
 };
 
-const toListTransactionsHttpError = (cause: unknown): HttpError<400 | 500> => {
+const toListTransactionsHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 500> => {
   const error = normalizeError(cause);
 
-  if (error instanceof InvalidPaginationError) {
+  if (
+    error instanceof InvalidPaginationError ||
+    error instanceof InvalidCursorError
+  ) {
     return { status: 400, message: error.message };
   }
 
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
   return { status: 500, message: '取引一覧の取得に失敗しました' };
 };
 
+const toSummarizeTransactionsHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 500> => {
+  const error = normalizeError(cause);
+
+  if (error instanceof InvalidSummaryPeriodError) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
+  return { status: 500, message: '取引の集計に失敗しました' };
+};
+
+const toExportTransactionsHttpError = (
+  cause: unknown,
+): HttpError<403 | 500> => {
+  const error = normalizeError(cause);
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
+  return { status: 500, message: '取引のエクスポートに失敗しました' };
+};
+
+// NOTE: 文字列のチャンクをUTF-8のバイト列として逐次送信する（クライアント切断時は読み込みを打ち切る）
+const toByteStream = (chunks: AsyncIterable<string>) => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(value));
+    },
+    cancel: async () => {
+      await iterator.return?.();
+    },
+  });
+};
+
+const toImportTransactionsHttpError = (
+  cause: unknown,
+): HttpError<400 | 403 | 500> => {
+  const error = normalizeError(cause);
+
+  if (
+    error instanceof InvalidImportFileError ||
+    error instanceof InvalidImportMappingError
+  ) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return { status: 403, message: error.message };
+  }
+
+  return { status: 500, message: '取引のインポートに失敗しました' };
+};
+
 const toUpdateTransactionsHttpError = (
   cause: unknown,
 ): HttpError<400 | 403 | 404 | 500> => {
@@ -133,18 +269,26 @@ const toUpdateTransactionsHttpError = (
     error instanceof FutureTransactionDateError ||
     error instanceof TransactionMemoTooLongError ||
     error instanceof CategoryTypeMismatchError ||
-    error instanceof InvalidCategoryIdsError
+    error instanceof InvalidCategoryIdsError ||
+    error instanceof InvalidTransactionSplitsError ||
+    error instanceof UnsupportedCurrencyError ||
+    error instanceof AccountCurrencyMismatchError ||
+    error instanceof TransferAccountRequiredError ||
+    error instanceof SameTransferAccountError ||
+    error instanceof TransferAccountNotAllowedError
   ) {
     return { status: 400, message: error.message };
   }
 
-  if (error instanceof NotOwnerError) {
+  if (error instanceof LedgerPermissionDeniedError) {
     return { status: 403, message: error.message };
   }
 
   if (
     error instanceof TransactionNotFoundError ||
-    error instanceof CategoriesNotFoundError
+    error instanceof CategoriesNotFoundError ||
+    error instanceof TransactionAccountNotFoundError ||
+    error instanceof TransactionTagsNotFoundError
   ) {
     return { status: 404, message: error.message };
   }
@@ -161,7 +305,7 @@ const toDeleteTransactionsHttpError = (
     return { status: 404, message: error.message };
   }
 
-  if (error instanceof NotOwnerError) {
+  if (error instanceof LedgerPermissionDeniedError) {
     return { status: 403, message: error.message };
   }
 
@@ -188,7 +332,8 @@ const createTransactionRoute = createRoute({
   },
   responses: {
     200: {
-      description: '取引作成',
+      description:
+        '取引作成（TRANSFER の場合は振替元口座から振替先口座への振替）',
       content: {
         'application/json': {
           schema: transactionsCreateOutputSchema,
@@ -196,7 +341,15 @@ const createTransactionRoute = createRoute({
       },
     },
     400: {
-      description: '不正なリクエスト',
+      description: '不正なリクエスト（振替の口座指定の不備等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '帳簿に対する権限がありません',
       content: {
         'application/json': {
           schema: errorResponseSchema,
@@ -204,7 +357,7 @@ const createTransactionRoute = createRoute({
       },
     },
     404: {
-      description: '参照先が見つからない（カテゴリなど）',
+      description: '参照先が見つからない（カテゴリ/口座など）',
       content: {
         'application/json': {
           schema: errorResponseSchema,
@@ -239,7 +392,179 @@ const listTransactionsRoute = createRoute({
       },
     },
     400: {
-      description: '不正なリクエスト（ページネーション等）',
+      description: '不正なリクエスト（ページネーション・カーソル等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '帳簿に対する権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const summaryTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/transactions/summary',
+  tags: ['transactions'],
+  request: {
+    query: transactionsSummaryInputSchema,
+  },
+  responses: {
+    200: {
+      description: '月/期間ごとの収支集計（振替は除外）',
+      content: {
+        'application/json': {
+          schema: transactionsSummaryOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（期間指定等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '帳簿に対する権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const exportTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/transactions/export',
+  tags: ['transactions'],
+  request: {
+    query: transactionsExportInputSchema,
+  },
+  responses: {
+    200: {
+      description:
+        '取引のエクスポート（一覧と同じ絞り込み条件で全件をストリーム出力）',
+      content: {
+        'text/csv': {
+          schema: z.string(),
+        },
+        'application/json': {
+          schema: transactionsExportOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（日付形式等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '帳簿に対する権限がありません',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// NOTE: CSVはファイルのまま受け取り、取り込み設定（列マッピング等）は options にJSON文字列で指定する
+const importTransactionsFormSchema = z.object({
+  // NOTE: CSVをデコードする前にファイルサイズの上限を検証する
+  file: z
+    .instanceof(File)
+    .refine(
+      (file) => transactionsImportFileSizeSchema.safeParse(file.size).success,
+      'ファイルサイズが大きすぎます',
+    )
+    .openapi({ type: 'string', format: 'binary' }),
+  options: z
+    .string()
+    .min(1)
+    .openapi({
+      description:
+        '取り込み設定のJSON（mapping / encoding / hasHeader / defaultType / defaultCategoryId / dryRun）',
+      example: JSON.stringify({
+        mapping: { date: '日付', title: '摘要', amount: '金額' },
+        defaultCategoryId: 1,
+        dryRun: true,
+      }),
+    }),
+});
+
+const importTransactionsRoute = createRoute({
+  method: 'post',
+  path: '/transactions/import',
+  tags: ['transactions'],
+  request: {
+    body: {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: importTransactionsFormSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'CSVインポート（ドライラン時は検証結果のみ）',
+      content: {
+        'application/json': {
+          schema: transactionsImportOutputSchema,
+        },
+      },
+    },
+    400: {
+      description: '不正なリクエスト（ファイル/列マッピング等）',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: '帳簿に対する権限がありません',
       content: {
         'application/json': {
           schema: errorResponseSchema,
@@ -300,7 +625,7 @@ const updateTransactionRoute = createRoute({
       },
     },
     404: {
-      description: '参照先が見つからない（取引/カテゴリなど）',
+      description: '参照先が見つからない（取引/カテゴリ/口座など）',
       content: {
         'application/json': {
           schema: errorResponseSchema,
@@ -377,11 +702,16 @@ export const registerTransactionsOpenApi = (
           try: () =>
             createTransactionUseCase.execute({
               userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              ledgerId: input.ledgerId,
               type: input.type,
               title: input.title,
               amount: input.amount,
+              currency: input.currency,
               date: input.date,
               categoryId: input.categoryId,
+              accountId: input.accountId,
+              transferAccountId: input.transferAccountId,
+              tagIds: input.tagIds,
               memo: input.memo,
             }),
           catch: (cause) => toCreateTransactionHttpError(cause),
@@ -394,12 +724,15 @@ export const registerTransactionsOpenApi = (
                 transaction: {
                   id: record.id,
                   userId: record.userId,
+                  ledgerId: record.ledgerId,
                   type: record.type,
                   title: record.title,
                   amount: record.amount,
                   currency: record.currency,
                   date: record.date,
                   categoryId: record.categoryId,
+                  accountId: record.accountId,
+                  transferAccountId: record.transferAccountId,
                   memo: record.memo,
                 },
               },
@@ -420,11 +753,18 @@ export const registerTransactionsOpenApi = (
           try: () =>
             listTransactionsUseCase.execute({
               userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              ledgerId: input.ledgerId,
               startDate: input.startDate,
               endDate: input.endDate,
               type: input.type,
               categoryIds: input.categoryIds,
+              tagIds: input.tagIds,
+              q: input.q,
+              minAmount: input.minAmount,
+              maxAmount: input.maxAmount,
+              sortBy: input.sortBy,
               order: input.order,
+              cursor: input.cursor,
               page: input.page,
               limit: input.limit,
             }),
@@ -438,6 +778,103 @@ export const registerTransactionsOpenApi = (
     );
   });
 
+  app.openapi(summaryTransactionsRoute, async (c) => {
+    const input = c.req.valid('query');
+    const summarizeTransactionsUseCase =
+      resolveSummarizeTransactionsUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            summarizeTransactionsUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              ledgerId: input.ledgerId,
+              month: input.month,
+              startDate: input.startDate,
+              endDate: input.endDate,
+            }),
+          catch: (cause) => toSummarizeTransactionsHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) => c.json(output, 200),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(exportTransactionsRoute, async (c) => {
+    const input = c.req.valid('query');
+    const exportTransactionsUseCase = resolveExportTransactionsUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            exportTransactionsUseCase.execute({
+              userId: 1, // TODO: 認証実装後にctx.userIdから取得
+              ledgerId: input.ledgerId,
+              format: input.format,
+              startDate: input.startDate,
+              endDate: input.endDate,
+              type: input.type,
+              categoryIds: input.categoryIds,
+              order: input.order,
+            }),
+          catch: (cause) => toExportTransactionsHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) =>
+            c.body(toByteStream(output.chunks), 200, {
+              'Content-Type': output.contentType,
+              'Content-Disposition': `attachment; filename="${output.fileName}"`,
+            }),
+        }),
+      ),
+    );
+  });
+
+  app.openapi(importTransactionsRoute, async (c) => {
+    const form = c.req.valid('form');
+    const importTransactionsUseCase = resolveImportTransactionsUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.try({
+          try: () =>
+            transactionsImportOptionsSchema.parse(JSON.parse(form.options)),
+          catch: (): HttpError<400> => ({
+            status: 400,
+            message: 'options が不正です',
+          }),
+        }),
+        Effect.flatMap((options) =>
+          Effect.tryPromise({
+            try: async () =>
+              importTransactionsUseCase.execute({
+                userId: 1, // TODO: 認証実装後にctx.userIdから取得
+                ledgerId: options.ledgerId,
+                content: new Uint8Array(await form.file.arrayBuffer()),
+                encoding: options.encoding,
+                hasHeader: options.hasHeader,
+                mapping: options.mapping,
+                defaultType: options.defaultType,
+                defaultCategoryId: options.defaultCategoryId,
+                dryRun: options.dryRun,
+              }),
+            catch: (cause) => toImportTransactionsHttpError(cause),
+          }),
+        ),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (output) => c.json(output, 200),
+        }),
+      ),
+    );
+  });
+
   app.openapi(updateTransactionRoute, async (c) => {
     const { id } = c.req.valid('param');
     const body = c.req.valid('json');
@@ -453,8 +890,13 @@ export const registerTransactionsOpenApi = (
               type: body.type,
               title: body.title,
               amount: body.amount,
+              currency: body.currency,
               date: body.date,
               categoryIds: body.categoryIds,
+              splits: body.splits,
+              accountId: body.accountId,
+              transferAccountId: body.transferAccountId,
+              tagIds: body.tagIds,
               memo: body.memo,
             }),
           catch: (cause) => toUpdateTransactionsHttpError(cause),
@@ -1,4 +1,7 @@
-import { transactionsListInputSchema } from '@account-book-app/shared';
+import {
+  transactionsExportInputSchema,
+  transactionsListInputSchema,
+} from '@account-book-app/shared';
 import { describe, expect, it } from 'vitest';
 
 const OVER_MAX_LIMIT = 101;
@@ -31,6 +34,35 @@ describe('transactionsListInputSchema（OpenAPIのquery文字列変換）', () =
       expect(parsed.order).toBe('asc');
     });
 
+    it('minAmount/maxAmount（文字列）を number に変換し、sortBy の既定値は date になる', () => {
+      const parsed = transactionsListInputSchema.parse({
+        minAmount: '1000',
+        maxAmount: '5000',
+      } satisfies Record<string, string>);
+
+      expect(parsed.minAmount).toBe(1000);
+      expect(parsed.maxAmount).toBe(5000);
+      expect(parsed.sortBy).toBe('date');
+    });
+
+    it('sortBy とカーソルを指定できる', () => {
+      const parsed = transactionsListInputSchema.parse({
+        sortBy: 'createdAt',
+        cursor: 'eyJzIjoiY3JlYXRlZEF0In0',
+      } satisfies Record<string, string>);
+
+      expect(parsed.sortBy).toBe('createdAt');
+      expect(parsed.cursor).toBe('eyJzIjoiY3JlYXRlZEF0In0');
+    });
+
+    it('検索語（q）を指定できる', () => {
+      const parsed = transactionsListInputSchema.parse({
+        q: 'Amazon 3月',
+      } satisfies Record<string, string>);
+
+      expect(parsed.q).toBe('Amazon 3月');
+    });
+
     it('startDate/endDate の指定が妥当な場合はパースできる', () => {
       const query = {
         startDate: '2025-01-01',
@@ -75,6 +107,31 @@ describe('transactionsListInputSchema（OpenAPIのquery文字列変換）', () =
       ).toThrow();
     });
 
+    it('検索語（q）が最大文字数を超える場合は例外になる', () => {
+      expect(() =>
+        transactionsListInputSchema.parse({
+          q: 'a'.repeat(101),
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+
+    it('minAmount が maxAmount より大きい場合は例外になる', () => {
+      expect(() =>
+        transactionsListInputSchema.parse({
+          minAmount: '5000',
+          maxAmount: '1000',
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+
+    it('sortBy が不正な場合は例外になる', () => {
+      expect(() =>
+        transactionsListInputSchema.parse({
+          sortBy: 'category',
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+
     it('order が不正な場合は例外になる', () => {
       expect(() =>
         transactionsListInputSchema.parse({
@@ -84,3 +141,60 @@ describe('transactionsListInputSchema（OpenAPIのquery文字列変換）', () =
     });
   });
 });
+
+describe('transactionsExportInputSchema（OpenAPIのquery文字列変換）', () => {
+  describe('正常系', () => {
+    it('クエリ未指定の場合、format=csv / order=desc が適用される', () => {
+      const parsed = transactionsExportInputSchema.parse({});
+
+      expect(parsed.format).toBe('csv');
+      expect(parsed.order).toBe('desc');
+      expect(parsed.categoryIds).toBeUndefined();
+    });
+
+    it('categoryIds の単一指定（文字列）を number の配列に変換できる', () => {
+      const parsed = transactionsExportInputSchema.parse({
+        categoryIds: '10',
+      } satisfies Record<string, string>);
+
+      expect(parsed.categoryIds).toEqual([10]);
+    });
+
+    it('categoryIds の複数指定（文字列の配列）を number の配列に変換できる', () => {
+      const parsed = transactionsExportInputSchema.parse({
+        categoryIds: ['10', '11'],
+        format: 'json',
+      } satisfies Record<string, string | string[]>);
+
+      expect(parsed.categoryIds).toEqual([10, 11]);
+      expect(parsed.format).toBe('json');
+    });
+  });
+
+  describe('異常系', () => {
+    it('format が不正な場合は例外になる', () => {
+      expect(() =>
+        transactionsExportInputSchema.parse({
+          format: 'xlsx',
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+
+    it('categoryIds が数値でない場合は例外になる', () => {
+      expect(() =>
+        transactionsExportInputSchema.parse({
+          categoryIds: 'abc',
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+
+    it('startDate が endDate より後の場合は例外になる', () => {
+      expect(() =>
+        transactionsExportInputSchema.parse({
+          startDate: '2025-02-01',
+          endDate: '2025-01-01',
+        } satisfies Record<string, string>),
+      ).toThrow();
+    });
+  });
+});
@@ -3,8 +3,12 @@ import { OpenAPIHono } from '@hono/zod-openapi';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { TOKENS } from '../../../services/di/tokens';
-import { InvalidCredentialsError } from '../../../services/users/login-user.errors';
+import {
+  InvalidCredentialsError,
+  TooManyLoginAttemptsError,
+} from '../../../services/users/login-user.errors';
 import { UnexpectedLogoutUserError } from '../../../services/users/logout-user.errors';
+import { InvalidRefreshTokenError } from '../../../services/users/refresh-user-token.errors';
 import {
   EmailAlreadyExistsError,
   InvalidPasswordError,
@@ -45,6 +49,7 @@ describe('registerUsersOpenApi（ユーザーOpenAPI）', () => {
     it('ユーザー登録に成功すると201を返す', async () => {
       executeMock.mockResolvedValueOnce({
         token: 'jwt-token',
+        refreshToken: 'refresh-token',
         user: {
           id: 1,
           email: 'new@example.com',
@@ -71,11 +76,14 @@ describe('registerUsersOpenApi（ユーザーOpenAPI）', () => {
       expect(response.status).toBe(201);
       expect(createRequestContainerMock).toHaveBeenCalledWith(db);
       expect(getMock).toHaveBeenCalledWith(TOKENS.RegisterUserUseCase);
-      expect(executeMock).toHaveBeenCalledWith({
-        email: 'new@example.com',
-        name: '新規ユーザー',
-        password: 'VeryStrong#123',
-      });
+      expect(executeMock).toHaveBeenCalledWith(
+        {
+          email: 'new@example.com',
+          name: '新規ユーザー',
+          password: 'VeryStrong#123',
+        },
+        { userAgent: undefined, ipAddress: undefined },
+      );
       expect(json).toMatchObject({
         token: 'jwt-token',
         user: {
@@ -174,6 +182,7 @@ describe('registerUsersOpenApi - login（ログイン）', () => {
     it('正しい認証情報でログインすると200を返す', async () => {
       executeMock.mockResolvedValueOnce({
         token: 'jwt-token',
+        refreshToken: 'refresh-token',
         user: {
           id: 1,
           email: 'user@example.com',
@@ -202,6 +211,44 @@ describe('registerUsersOpenApi - login（ログイン）', () => {
         user: { id: 1, email: 'user@example.com' },
       });
     });
+
+    it('User-Agentとソケットの接続元IPをセッションの端末情報として渡す', async () => {
+      executeMock.mockResolvedValueOnce({
+        token: 'jwt-token',
+        refreshToken: 'refresh-token',
+        user: {
+          id: 1,
+          email: 'user@example.com',
+          name: 'テストユーザー',
+          createdAt: new Date('2025-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        },
+      });
+
+      const app = createApp();
+      await app.request(
+        '/users/login',
+        {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'user-agent': 'Mozilla/5.0',
+            'x-forwarded-for': '198.51.100.7',
+          },
+          body: JSON.stringify({
+            email: 'user@example.com',
+            name: 'テストユーザー',
+            password: 'VeryStrong#123',
+          }),
+        },
+        { incoming: { socket: { remoteAddress: '203.0.113.1' } } },
+      );
+
+      expect(executeMock).toHaveBeenCalledWith(expect.any(Object), {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.1',
+      });
+    });
   });
 
   describe('異常系', () => {
@@ -226,6 +273,24 @@ describe('registerUsersOpenApi - login（ログイン）', () => {
       });
     });
 
+    it('ログインが一時的に制限されている場合は Retry-After 付きで429を返す', async () => {
+      executeMock.mockRejectedValueOnce(new TooManyLoginAttemptsError(120));
+
+      const app = createApp();
+      const response = await app.request('/users/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          email: 'user@example.com',
+          name: 'テストユーザー',
+          password: 'VeryStrong#123',
+        }),
+      });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('120');
+    });
+
     it('想定外の例外は500を返す', async () => {
       executeMock.mockRejectedValueOnce(new Error('boom'));
 
@@ -247,6 +312,88 @@ describe('registerUsersOpenApi - login（ログイン）', () => {
   });
 });
 
+describe('registerUsersOpenApi - refresh（トークン再発行）', () => {
+  const db = {} as NodePgDatabase;
+
+  const createApp = () => {
+    const app = new OpenAPIHono();
+    registerUsersOpenApi(app, db);
+    return app;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('リフレッシュトークンで新しいトークンを取得すると200を返す', async () => {
+      executeMock.mockResolvedValueOnce({
+        token: 'new-jwt-token',
+        refreshToken: 'new-refresh-token',
+        user: {
+          id: 1,
+          email: 'user@example.com',
+          name: 'テストユーザー',
+          createdAt: new Date('2025-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        },
+      });
+
+      const app = createApp();
+      const response = await app.request('/users/refresh', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ refreshToken: 'refresh-token' }),
+      });
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RefreshUserTokenUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        refreshToken: 'refresh-token',
+      });
+      expect(json).toMatchObject({
+        token: 'new-jwt-token',
+        refreshToken: 'new-refresh-token',
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('リフレッシュトークンが無効な場合は401を返す', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidRefreshTokenError());
+
+      const app = createApp();
+      const response = await app.request('/users/refresh', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ refreshToken: 'expired-token' }),
+      });
+      const json = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(json).toEqual({
+        message: 'リフレッシュトークンが無効または期限切れです',
+      });
+    });
+
+    it('想定外の例外は500を返す', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const app = createApp();
+      const response = await app.request('/users/refresh', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ refreshToken: 'refresh-token' }),
+      });
+      const json = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(json).toEqual({ message: 'トークンの再発行に失敗しました' });
+    });
+  });
+});
+
 describe('registerUsersOpenApi - logout（ログアウト）', () => {
   const db = {} as NodePgDatabase;
 
@@ -277,6 +424,26 @@ describe('registerUsersOpenApi - logout（ログアウト）', () => {
       expect(executeMock).toHaveBeenCalledWith({ token: 'valid.jwt.token' });
       expect(json).toEqual({ success: true });
     });
+
+    it('リフレッシュトークンを指定するとユースケースに渡す', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const app = createApp();
+      const response = await app.request('/users/logout', {
+        method: 'POST',
+        headers: {
+          authorization: 'Bearer valid.jwt.token',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken: 'refresh-token' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(executeMock).toHaveBeenCalledWith({
+        token: 'valid.jwt.token',
+        refreshToken: 'refresh-token',
+      });
+    });
   });
 
   describe('異常系', () => {
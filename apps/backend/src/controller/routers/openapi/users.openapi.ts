@@ -2,7 +2,10 @@ import type { NodePgDatabase } from '@account-book-app/db';
 import {
   usersLoginInputSchema,
   usersLoginOutputSchema,
+  usersLogoutInputSchema,
   usersLogoutOutputSchema,
+  usersRefreshInputSchema,
+  usersRefreshOutputSchema,
   usersRegisterInputSchema,
   usersRegisterOutputSchema,
 } from '@account-book-app/shared';
@@ -12,13 +15,21 @@ import type { Context, Env } from 'hono';
 
 import { createRequestContainer } from '../../../infrastructre/di/container';
 import { TOKENS } from '../../../services/di/tokens';
-import { InvalidCredentialsError } from '../../../services/users/login-user.errors';
+import {
+  InvalidCredentialsError,
+  TooManyLoginAttemptsError,
+} from '../../../services/users/login-user.errors';
 import type { LoginUserUseCase } from '../../../services/users/login-user.service';
 import {
   LogoutUserAuthError,
   UnexpectedLogoutUserError,
 } from '../../../services/users/logout-user.errors';
 import type { LogoutUserUseCase } from '../../../services/users/logout-user.service';
+import {
+  InvalidRefreshTokenError,
+  RefreshTokenReusedError,
+} from '../../../services/users/refresh-user-token.errors';
+import type { RefreshUserTokenUseCase } from '../../../services/users/refresh-user-token.service';
 import {
   EmailAlreadyExistsError,
   InvalidPasswordError,
@@ -27,6 +38,7 @@ import {
 } from '../../../services/users/register-user.errors';
 import type { RegisterUserUseCase } from '../../../services/users/register-user.service';
 import { Effect, pipe } from '../../../shared/result';
+import { getClientIpAddress } from '../../client-ip';
 
 const resolveRegisterUserUseCase = (db: NodePgDatabase) => {
   const container = createRequestContainer(db);
@@ -43,24 +55,40 @@ const resolveLogoutUserUseCase = (db: NodePgDatabase) => {
   return container.get<LogoutUserUseCase>(TOKENS.LogoutUserUseCase);
 };
 
+const resolveRefreshUserTokenUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RefreshUserTokenUseCase>(TOKENS.RefreshUserTokenUseCase);
+};
+
 const errorResponseSchema = z.object({
   message: z.string(),
 });
 
 type RegisterErrorStatus = 400 | 409 | 500;
-type LoginErrorStatus = 401 | 500;
+type LoginErrorStatus = 401 | 429 | 500;
+type RefreshErrorStatus = 401 | 500;
 type LogoutErrorStatus = 401 | 500;
-type ErrorStatus = RegisterErrorStatus | LoginErrorStatus | LogoutErrorStatus;
+type ErrorStatus =
+  | RegisterErrorStatus
+  | LoginErrorStatus
+  | RefreshErrorStatus
+  | LogoutErrorStatus;
 
 type HttpError<S extends ErrorStatus = ErrorStatus> = {
   status: S;
   message: string;
+  retryAfterSeconds?: number; // 429 の場合に Retry-After ヘッダーで返す
 };
 
 const respondError = <S extends ErrorStatus, E extends Env, P extends string>(
   c: Context<E, P>,
   error: HttpError<S>,
-) => c.json({ message: error.message }, error.status);
+) => {
+  if (error.retryAfterSeconds !== undefined) {
+    c.header('Retry-After', String(error.retryAfterSeconds));
+  }
+  return c.json({ message: error.message }, error.status);
+};
 
 const normalizeError = <T>(cause: T) =>
   cause instanceof Error ? cause : new Error(String(cause));
@@ -92,9 +120,32 @@ const toLoginUserHttpError = <T>(cause: T): HttpError<LoginErrorStatus> => {
     return { status: 401, message: error.message };
   }
 
+  if (error instanceof TooManyLoginAttemptsError) {
+    return {
+      status: 429,
+      message: error.message,
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  }
+
   return { status: 500, message: 'ログインに失敗しました' };
 };
 
+const toRefreshUserTokenHttpError = <T>(
+  cause: T,
+): HttpError<RefreshErrorStatus> => {
+  const error = normalizeError(cause);
+
+  if (
+    error instanceof InvalidRefreshTokenError ||
+    error instanceof RefreshTokenReusedError
+  ) {
+    return { status: 401, message: error.message };
+  }
+
+  return { status: 500, message: 'トークンの再発行に失敗しました' };
+};
+
 const toLogoutUserHttpError = <T>(cause: T): HttpError<LogoutErrorStatus> => {
   const error = normalizeError(cause);
 
@@ -117,6 +168,13 @@ const getBearerToken = (
   return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
 };
 
+const toSessionClient = <E extends Env, P extends string>(
+  c: Context<E, P>,
+) => ({
+  userAgent: c.req.header('user-agent'),
+  ipAddress: getClientIpAddress(c),
+});
+
 const registerUserRoute = createRoute({
   method: 'post',
   path: '/users/register',
@@ -172,6 +230,16 @@ const logoutUserRoute = createRoute({
   path: '/users/logout',
   tags: ['users'],
   security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      required: false,
+      content: {
+        'application/json': {
+          schema: usersLogoutInputSchema,
+        },
+      },
+    },
+  },
   responses: {
     200: {
       description: 'ログアウト成功',
@@ -231,6 +299,59 @@ const loginUserRoute = createRoute({
         },
       },
     },
+    429: {
+      description: 'ログインの失敗が続いたため一時的に制限中',
+      headers: z.object({
+        'Retry-After': z.string(),
+      }),
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: 'サーバーエラー',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const refreshUserTokenRoute = createRoute({
+  method: 'post',
+  path: '/users/refresh',
+  tags: ['users'],
+  request: {
+    body: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: usersRefreshInputSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'トークン再発行成功',
+      content: {
+        'application/json': {
+          schema: usersRefreshOutputSchema,
+        },
+      },
+    },
+    401: {
+      description: 'リフレッシュトークンが無効',
+      content: {
+        'application/json': {
+          schema: errorResponseSchema,
+        },
+      },
+    },
     500: {
       description: 'サーバーエラー',
       content: {
@@ -251,11 +372,14 @@ export const registerUsersOpenApi = (app: OpenAPIHono, db: NodePgDatabase) => {
       pipe(
         Effect.tryPromise({
           try: () =>
-            registerUserUseCase.execute({
-              email: input.email,
-              name: input.name,
-              password: input.password,
-            }),
+            registerUserUseCase.execute(
+              {
+                email: input.email,
+                name: input.name,
+                password: input.password,
+              },
+              toSessionClient(c),
+            ),
           catch: (cause) => toRegisterUserHttpError(cause),
         }),
         Effect.match({
@@ -274,11 +398,14 @@ export const registerUsersOpenApi = (app: OpenAPIHono, db: NodePgDatabase) => {
       pipe(
         Effect.tryPromise({
           try: () =>
-            loginUserUseCase.execute({
-              email: input.email,
-              name: input.name,
-              password: input.password,
-            }),
+            loginUserUseCase.execute(
+              {
+                email: input.email,
+                name: input.name,
+                password: input.password,
+              },
+              toSessionClient(c),
+            ),
           catch: (cause) => toLoginUserHttpError(cause),
         }),
         Effect.match({
@@ -289,7 +416,29 @@ export const registerUsersOpenApi = (app: OpenAPIHono, db: NodePgDatabase) => {
     );
   });
 
+  app.openapi(refreshUserTokenRoute, async (c) => {
+    const input = c.req.valid('json');
+    const refreshUserTokenUseCase = resolveRefreshUserTokenUseCase(db);
+
+    return Effect.runPromise(
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            refreshUserTokenUseCase.execute({
+              refreshToken: input.refreshToken,
+            }),
+          catch: (cause) => toRefreshUserTokenHttpError(cause),
+        }),
+        Effect.match({
+          onFailure: (error) => respondError(c, error),
+          onSuccess: (result) => c.json(result, 200),
+        }),
+      ),
+    );
+  });
+
   app.openapi(logoutUserRoute, async (c) => {
+    const input = c.req.valid('json');
     const token = getBearerToken(c.req.header('authorization'));
 
     if (!token) {
@@ -301,7 +450,11 @@ export const registerUsersOpenApi = (app: OpenAPIHono, db: NodePgDatabase) => {
     return Effect.runPromise(
       pipe(
         Effect.tryPromise({
-          try: () => logoutUserUseCase.execute({ token }),
+          try: () =>
+            logoutUserUseCase.execute({
+              token,
+              refreshToken: input.refreshToken,
+            }),
           catch: (cause) => toLogoutUserHttpError(cause),
         }),
         Effect.match({
@@ -0,0 +1,251 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../services/di/tokens';
+import {
+  CategoryNotFoundError,
+  InvalidRecurringScheduleError,
+} from '../../services/recurring-transactions/create-recurring-transaction.errors';
+import {
+  NotRecurringTransactionOwnerError,
+  RecurringTransactionNotFoundError,
+} from '../../services/recurring-transactions/delete-recurring-transaction.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { recurringTransactionRouter } from './recurring-transaction.router';
+
+const template = {
+  type: 'EXPENSE' as const,
+  title: '家賃',
+  amount: 80000,
+  categoryId: 10,
+  memo: '',
+};
+
+const recurringTransactionOutput = {
+  id: 1,
+  frequency: 'MONTHLY' as const,
+  interval: 1,
+  startDate: '2025-01-31',
+  endDate: null,
+  template,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('recurringTransactionRouter（繰り返し取引ルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('認証済みの場合、繰り返し取引を登録できる（interval/endDate は既定値を補う）', async () => {
+      executeMock.mockResolvedValueOnce({
+        recurringTransaction: recurringTransactionOutput,
+      });
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+      const result = await caller.create({
+        frequency: 'MONTHLY',
+        startDate: '2025-01-31',
+        template,
+      });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.CreateRecurringTransactionUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        frequency: 'MONTHLY',
+        interval: 1,
+        startDate: '2025-01-31',
+        endDate: null,
+        template,
+      });
+      expect(result).toEqual({
+        recurringTransaction: recurringTransactionOutput,
+      });
+    });
+
+    it('終了日が開始日より前の場合は BAD_REQUEST になる（ユースケースは呼ばれない）', async () => {
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(
+        caller.create({
+          frequency: 'MONTHLY',
+          startDate: '2025-01-31',
+          endDate: '2025-01-01',
+          template,
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('繰り返し条件が不正な場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidRecurringScheduleError(
+          '終了日は開始日以降である必要があります',
+        ),
+      );
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(
+        caller.create({
+          frequency: 'MONTHLY',
+          startDate: '2025-01-31',
+          template,
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('カテゴリが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new CategoryNotFoundError(10));
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(
+        caller.create({
+          frequency: 'MONTHLY',
+          startDate: '2025-01-31',
+          template,
+        }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('list', () => {
+    it('認証済みの場合、繰り返し取引一覧を取得できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        recurringTransactions: [recurringTransactionOutput],
+      });
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+      const result = await caller.list();
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.ListRecurringTransactionsUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result.recurringTransactions).toHaveLength(1);
+    });
+  });
+
+  describe('delete', () => {
+    it('認証済みの場合、繰り返し取引を削除できる', async () => {
+      executeMock.mockResolvedValueOnce({ deleted: true });
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+      const result = await caller.delete({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.DeleteRecurringTransactionUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('ルールが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new RecurringTransactionNotFoundError(999),
+      );
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(caller.delete({ id: 999 })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('所有者でない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new NotRecurringTransactionOwnerError(),
+      );
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(caller.delete({ id: 1 })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      });
+    });
+  });
+
+  describe('generate', () => {
+    it('ログインユーザーのルールのみを対象に生成する', async () => {
+      const output = {
+        generated: [
+          { recurringTransactionId: 1, date: '2025-01-31', transactionId: 501 },
+        ],
+        failed: [],
+      };
+      executeMock.mockResolvedValueOnce(output);
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+      const result = await caller.generate();
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.GenerateRecurringTransactionsUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual(output);
+    });
+
+    it('予期しないエラーは INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = recurringTransactionRouter.createCaller({
+        db,
+        userId: 1,
+      });
+
+      await expect(caller.generate()).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    });
+  });
+});
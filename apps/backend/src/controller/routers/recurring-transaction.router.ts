@@ -0,0 +1,235 @@
+// Presentation Layer: Recurring Transaction Router
+// 繰り返し取引関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  recurringTransactionsCreateInputSchema,
+  recurringTransactionsCreateOutputSchema,
+  recurringTransactionsDeleteInputSchema,
+  recurringTransactionsDeleteOutputSchema,
+  recurringTransactionsGenerateOutputSchema,
+  recurringTransactionsListOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import { TOKENS } from '../../services/di/tokens';
+import {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidRecurringScheduleError,
+  InvalidTransactionTypeError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+} from '../../services/recurring-transactions/create-recurring-transaction.errors';
+import type { CreateRecurringTransactionUseCase } from '../../services/recurring-transactions/create-recurring-transaction.service';
+import {
+  NotRecurringTransactionOwnerError,
+  RecurringTransactionNotFoundError,
+} from '../../services/recurring-transactions/delete-recurring-transaction.errors';
+import type { DeleteRecurringTransactionUseCase } from '../../services/recurring-transactions/delete-recurring-transaction.service';
+import { InvalidGenerationDateError } from '../../services/recurring-transactions/generate-recurring-transactions.errors';
+import type { GenerateRecurringTransactionsUseCase } from '../../services/recurring-transactions/generate-recurring-transactions.service';
+import type { ListRecurringTransactionsUseCase } from '../../services/recurring-transactions/list-recurring-transactions.service';
+import { Effect } from '../../shared/result';
+import { protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveCreateRecurringTransactionUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<CreateRecurringTransactionUseCase>(
+    TOKENS.CreateRecurringTransactionUseCase,
+  );
+};
+
+const resolveListRecurringTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListRecurringTransactionsUseCase>(
+    TOKENS.ListRecurringTransactionsUseCase,
+  );
+};
+
+const resolveDeleteRecurringTransactionUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteRecurringTransactionUseCase>(
+    TOKENS.DeleteRecurringTransactionUseCase,
+  );
+};
+
+const resolveGenerateRecurringTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<GenerateRecurringTransactionsUseCase>(
+    TOKENS.GenerateRecurringTransactionsUseCase,
+  );
+};
+
+const toCreateRecurringTransactionTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[recurringTransactions.create] error:', error);
+  }
+
+  if (
+    error instanceof InvalidTransactionTypeError ||
+    error instanceof InvalidAmountError ||
+    error instanceof InvalidDateFormatError ||
+    error instanceof TransactionTitleRequiredError ||
+    error instanceof TransactionTitleTooLongError ||
+    error instanceof TransactionMemoTooLongError ||
+    error instanceof CategoryTypeMismatchError ||
+    error instanceof InvalidRecurringScheduleError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof CategoryNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '繰り返し取引の作成に失敗しました',
+  });
+};
+
+const toListRecurringTransactionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[recurringTransactions.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '繰り返し取引一覧の取得に失敗しました',
+  });
+};
+
+const toDeleteRecurringTransactionTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[recurringTransactions.delete] error:', error);
+  }
+
+  if (error instanceof RecurringTransactionNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotRecurringTransactionOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '繰り返し取引の削除に失敗しました',
+  });
+};
+
+const toGenerateRecurringTransactionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[recurringTransactions.generate] error:', error);
+  }
+
+  if (error instanceof InvalidGenerationDateError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '繰り返し取引の生成に失敗しました',
+  });
+};
+
+export const recurringTransactionRouter = router({
+  create: protectedProcedure
+    .input(recurringTransactionsCreateInputSchema)
+    .output(recurringTransactionsCreateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveCreateRecurringTransactionUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              frequency: input.frequency,
+              interval: input.interval,
+              startDate: input.startDate,
+              endDate: input.endDate,
+              template: {
+                type: input.template.type,
+                title: input.template.title,
+                amount: input.template.amount,
+                categoryId: input.template.categoryId,
+                memo: input.template.memo,
+              },
+            }),
+          catch: (cause) => toCreateRecurringTransactionTrpcError(cause),
+        }),
+      ),
+    ),
+
+  list: protectedProcedure
+    .output(recurringTransactionsListOutputSchema)
+    .query(({ ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveListRecurringTransactionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+            }),
+          catch: (cause) => toListRecurringTransactionsTrpcError(cause),
+        }),
+      ),
+    ),
+
+  delete: protectedProcedure
+    .input(recurringTransactionsDeleteInputSchema)
+    .output(recurringTransactionsDeleteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteRecurringTransactionUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toDeleteRecurringTransactionTrpcError(cause),
+        }),
+      ),
+    ),
+
+  // NOTE: 日次ジョブを待たずに、ログインユーザーのルールを今日までの分だけ生成する
+  generate: protectedProcedure
+    .output(recurringTransactionsGenerateOutputSchema)
+    .mutation(({ ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveGenerateRecurringTransactionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+            }),
+          catch: (cause) => toGenerateRecurringTransactionsTrpcError(cause),
+        }),
+      ),
+    ),
+});
@@ -0,0 +1,160 @@
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TRPCError } from '@trpc/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../../services/di/tokens';
+import { TagAlreadyExistsError } from '../../services/tags/create-tag.errors';
+import {
+  NotTagOwnerError,
+  TagNotFoundError,
+} from '../../services/tags/update-tag.errors';
+
+const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
+  const execute = vi.fn();
+  const get = vi.fn(() => ({ execute }));
+  const createRequestContainer = vi.fn(() => ({ get }));
+
+  return {
+    createRequestContainerMock: createRequestContainer,
+    executeMock: execute,
+    getMock: get,
+  };
+});
+
+vi.mock('../../infrastructre/di/container', () => ({
+  createRequestContainer: createRequestContainerMock,
+}));
+
+import { tagRouter } from './tag.router';
+
+const tagOutput = {
+  id: 1,
+  name: '沖縄旅行2026',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('tagRouter（タグルーター）', () => {
+  const db = {} as unknown as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('認証済みの場合、タグを作成できる', async () => {
+      executeMock.mockResolvedValueOnce({ tag: tagOutput });
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+      const result = await caller.create({ name: ' 沖縄旅行2026 ' });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.CreateTagUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        name: '沖縄旅行2026',
+      });
+      expect(result).toEqual({ tag: tagOutput });
+    });
+
+    it('タグ名が重複する場合は CONFLICT に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new TagAlreadyExistsError('沖縄旅行2026'),
+      );
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ name: '沖縄旅行2026' }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('30文字を超えるタグ名は BAD_REQUEST になる（ユースケースは呼ばれない）', async () => {
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({ name: 'あ'.repeat(31) }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('認証済みの場合、タグ一覧を取得できる', async () => {
+      executeMock.mockResolvedValueOnce({ tags: [tagOutput] });
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+      const result = await caller.list();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListTagsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual({ tags: [tagOutput] });
+    });
+  });
+
+  describe('update', () => {
+    it('認証済みの場合、タグ名を変更できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        tag: { ...tagOutput, name: '立替精算' },
+      });
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+      const result = await caller.update({ id: 1, name: '立替精算' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.UpdateTagUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        id: 1,
+        name: '立替精算',
+      });
+      expect(result.tag.name).toBe('立替精算');
+    });
+
+    it('タグが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new TagNotFoundError(999));
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 999, name: '立替精算' }),
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new NotTagOwnerError());
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({ id: 1, name: '立替精算' }),
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('delete', () => {
+    it('認証済みの場合、タグを削除できる', async () => {
+      executeMock.mockResolvedValueOnce({ deleted: true });
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+      const result = await caller.delete({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.DeleteTagUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = tagRouter.createCaller({ db, userId: 1 });
+
+      const error = await caller.delete({ id: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TRPCError);
+      expect(error).toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'タグの削除に失敗しました',
+      });
+    });
+  });
+});
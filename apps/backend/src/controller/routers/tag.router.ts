@@ -0,0 +1,222 @@
+// Presentation Layer: Tag Router
+// タグ関連のtRPCエンドポイント
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import {
+  tagsCreateInputSchema,
+  tagsCreateOutputSchema,
+  tagsDeleteInputSchema,
+  tagsDeleteOutputSchema,
+  tagsListOutputSchema,
+  tagsUpdateInputSchema,
+  tagsUpdateOutputSchema,
+} from '@account-book-app/shared';
+import { TRPCError } from '@trpc/server';
+import { createRequestContainer } from '../../infrastructre/di/container';
+import { TOKENS } from '../../services/di/tokens';
+import {
+  InvalidTagNameError,
+  TagAlreadyExistsError,
+} from '../../services/tags/create-tag.errors';
+import type { CreateTagUseCase } from '../../services/tags/create-tag.service';
+import type { DeleteTagUseCase } from '../../services/tags/delete-tag.service';
+import type { ListTagsUseCase } from '../../services/tags/list-tags.service';
+import {
+  NotTagOwnerError,
+  TagNotFoundError,
+} from '../../services/tags/update-tag.errors';
+import type { UpdateTagUseCase } from '../../services/tags/update-tag.service';
+import { Effect } from '../../shared/result';
+import { protectedProcedure, router } from '../trpc/trpc';
+import { runTrpcEffect } from './errors/trpc-effect';
+
+const resolveCreateTagUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<CreateTagUseCase>(TOKENS.CreateTagUseCase);
+};
+
+const resolveListTagsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListTagsUseCase>(TOKENS.ListTagsUseCase);
+};
+
+const resolveUpdateTagUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UpdateTagUseCase>(TOKENS.UpdateTagUseCase);
+};
+
+const resolveDeleteTagUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteTagUseCase>(TOKENS.DeleteTagUseCase);
+};
+
+const toCreateTagTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[tags.create] error:', error);
+  }
+
+  if (error instanceof InvalidTagNameError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof TagAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'タグの作成に失敗しました',
+  });
+};
+
+const toListTagsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[tags.list] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'タグ一覧の取得に失敗しました',
+  });
+};
+
+const toUpdateTagTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[tags.update] error:', error);
+  }
+
+  if (error instanceof InvalidTagNameError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof TagNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotTagOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof TagAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'タグの更新に失敗しました',
+  });
+};
+
+const toDeleteTagTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[tags.delete] error:', error);
+  }
+
+  if (error instanceof TagNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof NotTagOwnerError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'タグの削除に失敗しました',
+  });
+};
+
+export const tagRouter = router({
+  create: protectedProcedure
+    .input(tagsCreateInputSchema)
+    .output(tagsCreateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveCreateTagUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              name: input.name,
+            }),
+          catch: (cause) => toCreateTagTrpcError(cause),
+        }),
+      ),
+    ),
+
+  list: protectedProcedure.output(tagsListOutputSchema).query(({ ctx }) =>
+    runTrpcEffect(
+      Effect.tryPromise({
+        try: () =>
+          resolveListTagsUseCase(ctx.db).execute({
+            userId: ctx.userId,
+          }),
+        catch: (cause) => toListTagsTrpcError(cause),
+      }),
+    ),
+  ),
+
+  update: protectedProcedure
+    .input(tagsUpdateInputSchema)
+    .output(tagsUpdateOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateTagUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+              name: input.name,
+            }),
+          catch: (cause) => toUpdateTagTrpcError(cause),
+        }),
+      ),
+    ),
+
+  delete: protectedProcedure
+    .input(tagsDeleteInputSchema)
+    .output(tagsDeleteOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteTagUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toDeleteTagTrpcError(cause),
+        }),
+      ),
+    ),
+});
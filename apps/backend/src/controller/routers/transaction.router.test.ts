@@ -10,14 +10,29 @@ import {
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
+  UnsupportedCurrencyError,
 } from '../../services/transactions/create-transaction.errors';
 import { UnexpectedDeleteTransactionError } from '../../services/transactions/delete-transaction.errors';
-import { InvalidPaginationError } from '../../services/transactions/list-transactions.errors';
+import {
+  InvalidImportMappingError,
+  UnexpectedImportTransactionsError,
+} from '../../services/transactions/import-transactions.errors';
+import {
+  InvalidCursorError,
+  InvalidPaginationError,
+} from '../../services/transactions/list-transactions.errors';
+import { TrashedTransactionNotFoundError } from '../../services/transactions/restore-transaction.errors';
+import {
+  InvalidSummaryPeriodError,
+  UnexpectedSummarizeTransactionsError,
+} from '../../services/transactions/summarize-transactions.errors';
 import {
   CategoriesNotFoundError,
   InvalidCategoryIdsError,
-  NotOwnerError,
+  InvalidTransactionSplitsError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
 } from '../../services/transactions/update-transaction.errors';
 
@@ -46,12 +61,15 @@ const makeTransactionRecord = (
 ): TransactionRecord => ({
   id: 1,
   userId: 1,
+  ledgerId: 1,
   type: 'EXPENSE',
   title: 'ランチ',
   amount: 1000,
   currency: 'JPY',
   date: '2025-01-01',
   categoryId: 10,
+  accountId: null,
+  transferAccountId: null,
   memo: '',
   createdAt: fixedNow,
   updatedAt: fixedNow,
@@ -97,6 +115,7 @@ describe('transactionRouter（取引ルーター）', () => {
       type: 'EXPENSE',
       title: 'カフェ',
       amount: 450,
+      currency: 'JPY',
       date: '2025-01-01',
       categoryId: 10,
       memo: 'テイクアウト',
@@ -107,12 +126,15 @@ describe('transactionRouter（取引ルーター）', () => {
       transaction: {
         id: 99,
         userId: 1,
+        ledgerId: 1,
         type: 'EXPENSE',
         title: 'カフェ',
         amount: 450,
         currency: 'JPY',
         date: '2025-01-01',
         categoryId: 10,
+        accountId: null,
+        transferAccountId: null,
         memo: 'テイクアウト',
       },
     });
@@ -120,18 +142,25 @@ describe('transactionRouter（取引ルーター）', () => {
 
   it('認証済みの場合、取引一覧を取得できる', async () => {
     executeMock.mockResolvedValueOnce({
+      baseCurrencyCode: 'JPY',
       transactions: [
         {
           id: 1,
           userId: 1,
+          ledgerId: 1,
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
           currencyCode: 'JPY',
+          convertedAmount: 1000,
           date: '2025-01-01',
           categories: [
             { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
           ],
+          splits: [{ categoryId: 10, amount: 1000 }],
+          tagIds: [],
+          accountId: null,
+          transferAccountId: null,
           memo: null,
           createdAt: '2025-01-01T00:00:00.000Z',
           updatedAt: '2025-01-01T00:00:00.000Z',
@@ -145,6 +174,7 @@ describe('transactionRouter（取引ルーター）', () => {
         hasNext: false,
         hasPrev: false,
       },
+      nextCursor: null,
     });
 
     const caller = transactionRouter.createCaller({ db, userId: 1 });
@@ -161,24 +191,32 @@ describe('transactionRouter（取引ルーター）', () => {
       endDate: undefined,
       type: undefined,
       categoryIds: undefined,
+      sortBy: 'date',
       order: 'desc',
       page: 1,
       limit: 20,
     });
 
     expect(result).toEqual({
+      baseCurrencyCode: 'JPY',
       transactions: [
         {
           id: 1,
           userId: 1,
+          ledgerId: 1,
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
           currencyCode: 'JPY',
+          convertedAmount: 1000,
           date: '2025-01-01',
           categories: [
             { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
           ],
+          splits: [{ categoryId: 10, amount: 1000 }],
+          tagIds: [],
+          accountId: null,
+          transferAccountId: null,
           memo: null,
           createdAt: '2025-01-01T00:00:00.000Z',
           updatedAt: '2025-01-01T00:00:00.000Z',
@@ -192,7 +230,79 @@ describe('transactionRouter（取引ルーター）', () => {
         hasNext: false,
         hasPrev: false,
       },
+      nextCursor: null,
+    });
+  });
+
+  it('検索語（q）を指定して取引一覧を取得できる', async () => {
+    executeMock.mockResolvedValueOnce({
+      baseCurrencyCode: 'JPY',
+      transactions: [],
+      pagination: {
+        total: 0,
+        page: 1,
+        limit: 20,
+        totalPages: 0,
+        hasNext: false,
+        hasPrev: false,
+      },
+      nextCursor: null,
     });
+
+    const caller = transactionRouter.createCaller({ db, userId: 1 });
+    await caller.list({ q: 'Amazon 3月', page: 1, limit: 20 });
+
+    expect(executeMock).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, q: 'Amazon 3月' }),
+    );
+  });
+
+  it('金額の範囲・並び替えの項目・カーソルを指定して取引一覧を取得できる', async () => {
+    executeMock.mockResolvedValueOnce({
+      baseCurrencyCode: 'JPY',
+      transactions: [],
+      pagination: {
+        total: 0,
+        page: 1,
+        limit: 20,
+        totalPages: 0,
+        hasNext: false,
+        hasPrev: true,
+      },
+      nextCursor: null,
+    });
+
+    const caller = transactionRouter.createCaller({ db, userId: 1 });
+    const result = await caller.list({
+      minAmount: 1000,
+      maxAmount: 5000,
+      sortBy: 'amount',
+      order: 'asc',
+      cursor: 'eyJzIjoiYW1vdW50In0',
+    });
+
+    expect(executeMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        minAmount: 1000,
+        maxAmount: 5000,
+        sortBy: 'amount',
+        order: 'asc',
+        cursor: 'eyJzIjoiYW1vdW50In0',
+      }),
+    );
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('カーソルの不正は BAD_REQUEST に変換される', async () => {
+    executeMock.mockRejectedValueOnce(
+      new InvalidCursorError('カーソルが不正です'),
+    );
+
+    const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+    await expect(
+      caller.list({ cursor: 'invalid', page: 1, limit: 20 }),
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
   });
 
   describe('異常系', () => {
@@ -351,6 +461,41 @@ describe('transactionRouter（取引ルーター）', () => {
       });
     });
 
+    it('利用できない通貨は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new UnsupportedCurrencyError('EUR'));
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({
+          type: 'EXPENSE',
+          title: 'カフェ',
+          amount: 450,
+          currency: 'EUR',
+          date: '2025-01-01',
+          categoryId: 10,
+        }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    });
+
+    it('通貨コードがISO 4217形式でない場合は usecase が呼ばれない', async () => {
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.create({
+          type: 'EXPENSE',
+          title: 'カフェ',
+          amount: 450,
+          currency: 'usd',
+          date: '2025-01-01',
+          categoryId: 10,
+        }),
+      ).rejects.toBeInstanceOf(TRPCError);
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
     it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
       executeMock.mockRejectedValueOnce(new Error('boom'));
 
@@ -431,6 +576,7 @@ describe('transactionRouter（取引ルーター）', () => {
       transaction: {
         id: 1,
         userId: 1,
+        ledgerId: 1,
         type: 'EXPENSE',
         title: '更新タイトル',
         amount: 1200,
@@ -439,6 +585,10 @@ describe('transactionRouter（取引ルーター）', () => {
         categories: [
           { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
         ],
+        splits: [{ categoryId: 10, amount: 1200 }],
+        tagIds: [],
+        accountId: null,
+        transferAccountId: null,
         memo: null,
         createdAt: '2025-01-01T00:00:00.000Z',
         updatedAt: '2025-01-01T00:00:00.000Z',
@@ -469,6 +619,7 @@ describe('transactionRouter（取引ルーター）', () => {
       transaction: {
         id: 1,
         userId: 1,
+        ledgerId: 1,
         type: 'EXPENSE',
         title: '更新タイトル',
         amount: 1200,
@@ -477,6 +628,10 @@ describe('transactionRouter（取引ルーター）', () => {
         categories: [
           { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
         ],
+        splits: [{ categoryId: 10, amount: 1200 }],
+        tagIds: [],
+        accountId: null,
+        transferAccountId: null,
         memo: null,
         createdAt: '2025-01-01T00:00:00.000Z',
         updatedAt: '2025-01-01T00:00:00.000Z',
@@ -500,8 +655,26 @@ describe('transactionRouter（取引ルーター）', () => {
       });
     });
 
+    it('タグが見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new TransactionTagsNotFoundError([5]));
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({
+          id: 1,
+          tagIds: [5],
+        }),
+      ).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+      expect(executeMock).toHaveBeenCalledWith(
+        expect.objectContaining({ tagIds: [5] }),
+      );
+    });
+
     it('権限がない場合は FORBIDDEN に変換される', async () => {
-      executeMock.mockRejectedValueOnce(new NotOwnerError());
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
 
       const caller = transactionRouter.createCaller({ db, userId: 1 });
 
@@ -558,6 +731,36 @@ describe('transactionRouter（取引ルーター）', () => {
         code: 'BAD_REQUEST',
       });
     });
+
+    it('明細の金額の不整合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidTransactionSplitsError(
+          '明細の金額の合計（1100）が取引の金額（1000）と一致しません',
+        ),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.update({
+          id: 1,
+          splits: [
+            { categoryId: 10, amount: 800 },
+            { categoryId: 11, amount: 300 },
+          ],
+        }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+      expect(executeMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          splits: [
+            { categoryId: 10, amount: 800 },
+            { categoryId: 11, amount: 300 },
+          ],
+        }),
+      );
+    });
   });
 
   describe('delete', () => {
@@ -588,7 +791,7 @@ describe('transactionRouter（取引ルーター）', () => {
     });
 
     it('権限がない場合は FORBIDDEN に変換される', async () => {
-      executeMock.mockRejectedValueOnce(new NotOwnerError());
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
 
       const caller = transactionRouter.createCaller({ db, userId: 1 });
 
@@ -623,4 +826,334 @@ describe('transactionRouter（取引ルーター）', () => {
       });
     });
   });
+  describe('summary', () => {
+    it('認証済みの場合、月次の収支集計を取得できる', async () => {
+      const summary = {
+        period: { startDate: '2025-01-01', endDate: '2025-01-31' },
+        currencyCode: 'JPY',
+        totalIncome: 300000,
+        totalExpense: 120000,
+        netBalance: 180000,
+        categories: [
+          {
+            categoryId: 10,
+            name: '食費',
+            type: 'EXPENSE',
+            amount: 120000,
+            count: 3,
+          },
+        ],
+        tags: [
+          {
+            tagId: 7,
+            name: 'trip-okinawa-2026',
+            type: 'EXPENSE',
+            amount: 60000,
+            count: 2,
+          },
+        ],
+        unconvertedCount: 0,
+      };
+      executeMock.mockResolvedValueOnce(summary);
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.summary({ month: '2025-01' });
+
+      expect(createRequestContainerMock).toHaveBeenCalledWith(db);
+      expect(getMock).toHaveBeenCalledWith(TOKENS.SummarizeTransactionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        month: '2025-01',
+      });
+      expect(result).toEqual(summary);
+    });
+
+    it('month と startDate/endDate を同時に指定した場合は BAD_REQUEST になる', async () => {
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.summary({
+          month: '2025-01',
+          startDate: '2025-01-01',
+          endDate: '2025-01-31',
+        }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('不正な集計期間は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidSummaryPeriodError('不正な月の指定です: 2025-13'),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.summary({ month: '2025-13' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UnexpectedSummarizeTransactionsError({
+          message: '取引の集計に失敗しました',
+        }),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.summary({ month: '2025-01' })).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: '取引の集計に失敗しました',
+      });
+    });
+  });
+
+  describe('import', () => {
+    const mapping = { date: '日付', title: '摘要', amount: '金額' };
+
+    it('認証済みの場合、CSVをデコードしてユースケースに渡す', async () => {
+      const output = {
+        dryRun: true,
+        committed: false,
+        summary: { total: 0, valid: 0, invalid: 0, duplicate: 0, imported: 0 },
+        rows: [],
+      };
+      executeMock.mockResolvedValueOnce(output);
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.import({
+        content: Buffer.from('日付,摘要,金額').toString('base64'),
+        mapping,
+        defaultCategoryId: 10,
+        dryRun: true,
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ImportTransactionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          encoding: 'auto',
+          hasHeader: true,
+          mapping,
+          defaultCategoryId: 10,
+          dryRun: true,
+        }),
+      );
+      const [{ content }] = executeMock.mock.calls[0];
+      expect(Buffer.from(content).toString('utf-8')).toBe('日付,摘要,金額');
+      expect(result).toEqual(output);
+    });
+
+    it('ファイルサイズの上限を超える場合はユースケースを呼ばずに BAD_REQUEST になる', async () => {
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const tooLarge = Buffer.alloc(2 * 1024 * 1024 + 1).toString('base64');
+
+      await expect(
+        caller.import({
+          content: tooLarge,
+          mapping,
+          defaultCategoryId: 10,
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('列マッピングの不正は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidImportMappingError('列が見つかりません: 金額'),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.import({
+          content: Buffer.from('a').toString('base64'),
+          mapping,
+          defaultCategoryId: 10,
+        }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: '列が見つかりません: 金額',
+      });
+    });
+
+    it('想定外の例外は INTERNAL_SERVER_ERROR に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UnexpectedImportTransactionsError({
+          message: '取引のインポートに失敗しました',
+        }),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.import({
+          content: Buffer.from('a').toString('base64'),
+          mapping,
+          defaultCategoryId: 10,
+        }),
+      ).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: '取引のインポートに失敗しました',
+      });
+    });
+  });
+
+  describe('history', () => {
+    it('認証済みの場合、取引の変更履歴を取得できる', async () => {
+      const revisions = [
+        {
+          id: 1,
+          action: 'UPDATE' as const,
+          changedBy: { userId: 2, name: 'パートナー' },
+          changedAt: '2026-01-02T00:00:00.000Z',
+          changes: [
+            { field: 'amount' as const, before: 1000, after: 3000 },
+            { field: 'categoryIds' as const, before: [10], after: [11] },
+          ],
+        },
+      ];
+      executeMock.mockResolvedValueOnce({ revisions });
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.history({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.GetTransactionHistoryUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ revisions });
+    });
+
+    it('取引が見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new TransactionNotFoundError(999));
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.history({ id: 999 })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.history({ id: 1 })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      });
+    });
+  });
+
+  describe('trash', () => {
+    it('認証済みの場合、ゴミ箱の取引一覧を取得できる', async () => {
+      const pagination = {
+        total: 1,
+        page: 1,
+        limit: 20,
+        totalPages: 1,
+        hasNext: false,
+        hasPrev: false,
+      };
+      const transaction = {
+        id: 1,
+        ledgerId: 1,
+        userId: 1,
+        type: 'EXPENSE' as const,
+        title: 'ランチ',
+        amount: 1000,
+        currencyCode: 'JPY',
+        date: '2025-01-01',
+        categories: [],
+        splits: [],
+        tagIds: [],
+        accountId: null,
+        transferAccountId: null,
+        memo: null,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-02T00:00:00.000Z',
+        deletedAt: '2025-01-02T00:00:00.000Z',
+      };
+      executeMock.mockResolvedValueOnce({
+        transactions: [transaction],
+        pagination,
+      });
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.trash.list({ page: 1, limit: 20 });
+
+      expect(getMock).toHaveBeenCalledWith(
+        TOKENS.ListTrashedTransactionsUseCase,
+      );
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        ledgerId: undefined,
+        page: 1,
+        limit: 20,
+      });
+      expect(result).toEqual({ transactions: [transaction], pagination });
+    });
+
+    it('ページ指定が不正な場合は BAD_REQUEST に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new InvalidPaginationError('page は1以上'),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.trash.list({ page: 1, limit: 20 }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('restore', () => {
+    it('認証済みの場合、ゴミ箱の取引を復元できる', async () => {
+      executeMock.mockResolvedValueOnce({ restored: true });
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.restore({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RestoreTransactionUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ restored: true });
+    });
+
+    it('ゴミ箱に取引が見つからない場合は NOT_FOUND に変換される', async () => {
+      executeMock.mockRejectedValueOnce(
+        new TrashedTransactionNotFoundError(999),
+      );
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.restore({ id: 999 })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  describe('purge', () => {
+    it('認証済みの場合、ゴミ箱の取引を完全削除できる', async () => {
+      executeMock.mockResolvedValueOnce({ purged: true });
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+      const result = await caller.purge({ id: 1 });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.PurgeTransactionUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1, id: 1 });
+      expect(result).toEqual({ purged: true });
+    });
+
+    it('権限がない場合は FORBIDDEN に変換される', async () => {
+      executeMock.mockRejectedValueOnce(new LedgerPermissionDeniedError());
+
+      const caller = transactionRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.purge({ id: 1 })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      });
+    });
+  });
 });
@@ -7,8 +7,20 @@ import {
   transactionsCreateOutputSchema,
   transactionsDeleteInputSchema,
   transactionsDeleteOutputSchema,
+  transactionsHistoryInputSchema,
+  transactionsHistoryOutputSchema,
+  transactionsImportInputSchema,
+  transactionsImportOutputSchema,
   transactionsListInputSchema,
   transactionsListOutputSchema,
+  transactionsPurgeInputSchema,
+  transactionsPurgeOutputSchema,
+  transactionsRestoreInputSchema,
+  transactionsRestoreOutputSchema,
+  transactionsSummaryInputSchema,
+  transactionsSummaryOutputSchema,
+  transactionsTrashListInputSchema,
+  transactionsTrashListOutputSchema,
   transactionsUpdateInputSchema,
   transactionsUpdateOutputSchema,
 } from '@account-book-app/shared';
@@ -16,25 +28,48 @@ import { TRPCError } from '@trpc/server';
 import { createRequestContainer } from '../../infrastructre/di/container';
 import { TOKENS } from '../../services/di/tokens';
 import {
+  AccountCurrencyMismatchError,
   CategoryNotFoundError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
   TransactionTitleTooLongError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from '../../services/transactions/create-transaction.errors';
 import type { CreateTransactionUseCase } from '../../services/transactions/create-transaction.service';
 import { UnexpectedDeleteTransactionError } from '../../services/transactions/delete-transaction.errors';
 import type { DeleteTransactionUseCase } from '../../services/transactions/delete-transaction.service';
-import { InvalidPaginationError } from '../../services/transactions/list-transactions.errors';
+import type { GetTransactionHistoryUseCase } from '../../services/transactions/get-transaction-history.service';
+import {
+  InvalidImportFileError,
+  InvalidImportMappingError,
+} from '../../services/transactions/import-transactions.errors';
+import type { ImportTransactionsUseCase } from '../../services/transactions/import-transactions.service';
+import {
+  InvalidCursorError,
+  InvalidPaginationError,
+} from '../../services/transactions/list-transactions.errors';
 import type { ListTransactionsUseCase } from '../../services/transactions/list-transactions.service';
+import type { ListTrashedTransactionsUseCase } from '../../services/transactions/list-trashed-transactions.service';
+import type { PurgeTransactionUseCase } from '../../services/transactions/purge-transaction.service';
+import { TrashedTransactionNotFoundError } from '../../services/transactions/restore-transaction.errors';
+import type { RestoreTransactionUseCase } from '../../services/transactions/restore-transaction.service';
+import { InvalidSummaryPeriodError } from '../../services/transactions/summarize-transactions.errors';
+import type { SummarizeTransactionsUseCase } from '../../services/transactions/summarize-transactions.service';
 import {
   CategoriesNotFoundError,
   InvalidCategoryIdsError,
-  NotOwnerError,
+  InvalidTransactionSplitsError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
 } from '../../services/transactions/update-transaction.errors';
 import type { UpdateTransactionUseCase } from '../../services/transactions/update-transaction.service';
@@ -68,6 +103,46 @@ const resolveDeleteTransactionUseCase = (db: NodePgDatabase) => {
   );
 };
 
+const resolveSummarizeTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<SummarizeTransactionsUseCase>(
+    TOKENS.SummarizeTransactionsUseCase,
+  );
+};
+
+const resolveImportTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ImportTransactionsUseCase>(
+    TOKENS.ImportTransactionsUseCase,
+  );
+};
+
+const resolveGetTransactionHistoryUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<GetTransactionHistoryUseCase>(
+    TOKENS.GetTransactionHistoryUseCase,
+  );
+};
+
+const resolveListTrashedTransactionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListTrashedTransactionsUseCase>(
+    TOKENS.ListTrashedTransactionsUseCase,
+  );
+};
+
+const resolveRestoreTransactionUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RestoreTransactionUseCase>(
+    TOKENS.RestoreTransactionUseCase,
+  );
+};
+
+const resolvePurgeTransactionUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<PurgeTransactionUseCase>(TOKENS.PurgeTransactionUseCase);
+};
+
 const toCreateTransactionTrpcError = <T>(cause: T) => {
   const error = cause instanceof Error ? cause : new Error(String(cause));
 
@@ -83,7 +158,12 @@ const toCreateTransactionTrpcError = <T>(cause: T) => {
     error instanceof InvalidDateFormatError ||
     error instanceof FutureTransactionDateError ||
     error instanceof TransactionMemoTooLongError ||
-    error instanceof CategoryTypeMismatchError
+    error instanceof CategoryTypeMismatchError ||
+    error instanceof UnsupportedCurrencyError ||
+    error instanceof AccountCurrencyMismatchError ||
+    error instanceof TransferAccountRequiredError ||
+    error instanceof SameTransferAccountError ||
+    error instanceof TransferAccountNotAllowedError
   ) {
     return new TRPCError({
       code: 'BAD_REQUEST',
@@ -91,13 +171,24 @@ const toCreateTransactionTrpcError = <T>(cause: T) => {
     });
   }
 
-  if (error instanceof CategoryNotFoundError) {
+  if (
+    error instanceof CategoryNotFoundError ||
+    error instanceof TransactionAccountNotFoundError ||
+    error instanceof TransactionTagsNotFoundError
+  ) {
     return new TRPCError({
       code: 'NOT_FOUND',
       message: error.message,
     });
   }
 
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
   return new TRPCError({
     code: 'INTERNAL_SERVER_ERROR',
     message: '取引の作成に失敗しました',
@@ -111,19 +202,86 @@ const toListTransactionsTrpcError = <T>(cause: T) => {
     console.error('[transactions.list] error:', error);
   }
 
-  if (error instanceof InvalidPaginationError) {
+  if (
+    error instanceof InvalidPaginationError ||
+    error instanceof InvalidCursorError
+  ) {
     return new TRPCError({
       code: 'BAD_REQUEST',
       message: error.message,
     });
   }
 
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
   return new TRPCError({
     code: 'INTERNAL_SERVER_ERROR',
     message: '取引一覧の取得に失敗しました',
   });
 };
 
+const toSummarizeTransactionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.summary] error:', error);
+  }
+
+  if (error instanceof InvalidSummaryPeriodError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '取引の集計に失敗しました',
+  });
+};
+
+const toImportTransactionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.import] error:', error);
+  }
+
+  if (
+    error instanceof InvalidImportFileError ||
+    error instanceof InvalidImportMappingError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '取引のインポートに失敗しました',
+  });
+};
+
 const toUpdateTransactionTrpcError = <T>(cause: T) => {
   const error = cause instanceof Error ? cause : new Error(String(cause));
 
@@ -140,7 +298,13 @@ const toUpdateTransactionTrpcError = <T>(cause: T) => {
     error instanceof FutureTransactionDateError ||
     error instanceof TransactionMemoTooLongError ||
     error instanceof CategoryTypeMismatchError ||
-    error instanceof InvalidCategoryIdsError
+    error instanceof InvalidCategoryIdsError ||
+    error instanceof InvalidTransactionSplitsError ||
+    error instanceof UnsupportedCurrencyError ||
+    error instanceof AccountCurrencyMismatchError ||
+    error instanceof TransferAccountRequiredError ||
+    error instanceof SameTransferAccountError ||
+    error instanceof TransferAccountNotAllowedError
   ) {
     return new TRPCError({
       code: 'BAD_REQUEST',
@@ -155,14 +319,18 @@ const toUpdateTransactionTrpcError = <T>(cause: T) => {
     });
   }
 
-  if (error instanceof CategoriesNotFoundError) {
+  if (
+    error instanceof CategoriesNotFoundError ||
+    error instanceof TransactionAccountNotFoundError ||
+    error instanceof TransactionTagsNotFoundError
+  ) {
     return new TRPCError({
       code: 'NOT_FOUND',
       message: error.message,
     });
   }
 
-  if (error instanceof NotOwnerError) {
+  if (error instanceof LedgerPermissionDeniedError) {
     return new TRPCError({
       code: 'FORBIDDEN',
       message: error.message,
@@ -189,7 +357,7 @@ const toDeleteTransactionTrpcError = <T>(cause: T) => {
     });
   }
 
-  if (error instanceof NotOwnerError) {
+  if (error instanceof LedgerPermissionDeniedError) {
     return new TRPCError({
       code: 'FORBIDDEN',
       message: error.message,
@@ -209,6 +377,135 @@ const toDeleteTransactionTrpcError = <T>(cause: T) => {
   });
 };
 
+const toGetTransactionHistoryTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.history] error:', error);
+  }
+
+  if (error instanceof TransactionNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '変更履歴の取得に失敗しました',
+  });
+};
+
+const toListTrashedTransactionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.trash.list] error:', error);
+  }
+
+  if (error instanceof InvalidPaginationError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'ゴミ箱の取引一覧の取得に失敗しました',
+  });
+};
+
+const toRestoreTransactionTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.restore] error:', error);
+  }
+
+  if (error instanceof TrashedTransactionNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '取引の復元に失敗しました',
+  });
+};
+
+const toPurgeTransactionTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[transactions.purge] error:', error);
+  }
+
+  if (error instanceof TrashedTransactionNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof LedgerPermissionDeniedError) {
+    return new TRPCError({
+      code: 'FORBIDDEN',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '取引の完全削除に失敗しました',
+  });
+};
+
+// NOTE: 削除した取引は保持期間が過ぎるまでゴミ箱に残る（restore/purge は取引ID単位で行う）
+const trashRouter = router({
+  list: protectedProcedure
+    .input(transactionsTrashListInputSchema)
+    .output(transactionsTrashListOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveListTrashedTransactionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              ledgerId: input.ledgerId,
+              page: input.page,
+              limit: input.limit,
+            }),
+          catch: (cause) => toListTrashedTransactionsTrpcError(cause),
+        }),
+      ),
+    ),
+});
+
 export const transactionRouter = router({
   create: protectedProcedure
     .input(transactionsCreateInputSchema)
@@ -220,11 +517,16 @@ export const transactionRouter = router({
             try: () =>
               resolveCreateTransactionUseCase(ctx.db).execute({
                 userId: ctx.userId,
+                ledgerId: input.ledgerId,
                 type: input.type,
                 title: input.title,
                 amount: input.amount,
+                currency: input.currency,
                 date: input.date,
                 categoryId: input.categoryId,
+                accountId: input.accountId,
+                transferAccountId: input.transferAccountId,
+                tagIds: input.tagIds,
                 memo: input.memo,
               }),
             catch: (cause) => toCreateTransactionTrpcError(cause),
@@ -243,11 +545,18 @@ export const transactionRouter = router({
           try: () =>
             resolveListTransactionsUseCase(ctx.db).execute({
               userId: ctx.userId,
+              ledgerId: input.ledgerId,
               startDate: input.startDate,
               endDate: input.endDate,
               type: input.type,
               categoryIds: input.categoryIds,
+              tagIds: input.tagIds,
+              q: input.q,
+              minAmount: input.minAmount,
+              maxAmount: input.maxAmount,
+              sortBy: input.sortBy,
               order: input.order,
+              cursor: input.cursor,
               page: input.page,
               limit: input.limit,
             }),
@@ -256,6 +565,48 @@ export const transactionRouter = router({
       ),
     ),
 
+  summary: protectedProcedure
+    .input(transactionsSummaryInputSchema)
+    .output(transactionsSummaryOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveSummarizeTransactionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              ledgerId: input.ledgerId,
+              month: input.month,
+              startDate: input.startDate,
+              endDate: input.endDate,
+            }),
+          catch: (cause) => toSummarizeTransactionsTrpcError(cause),
+        }),
+      ),
+    ),
+
+  import: protectedProcedure
+    .input(transactionsImportInputSchema)
+    .output(transactionsImportOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveImportTransactionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              ledgerId: input.ledgerId,
+              content: Buffer.from(input.content, 'base64'),
+              encoding: input.encoding,
+              hasHeader: input.hasHeader,
+              mapping: input.mapping,
+              defaultType: input.defaultType,
+              defaultCategoryId: input.defaultCategoryId,
+              dryRun: input.dryRun,
+            }),
+          catch: (cause) => toImportTransactionsTrpcError(cause),
+        }),
+      ),
+    ),
+
   update: protectedProcedure
     .input(transactionsUpdateInputSchema)
     .output(transactionsUpdateOutputSchema)
@@ -269,8 +620,13 @@ export const transactionRouter = router({
               type: input.type,
               title: input.title,
               amount: input.amount,
+              currency: input.currency,
               date: input.date,
               categoryIds: input.categoryIds,
+              splits: input.splits,
+              accountId: input.accountId,
+              transferAccountId: input.transferAccountId,
+              tagIds: input.tagIds,
               memo: input.memo,
             }),
           catch: (cause) => toUpdateTransactionTrpcError(cause),
@@ -293,4 +649,54 @@ export const transactionRouter = router({
         }),
       ),
     ),
+
+  history: protectedProcedure
+    .input(transactionsHistoryInputSchema)
+    .output(transactionsHistoryOutputSchema)
+    .query(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveGetTransactionHistoryUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toGetTransactionHistoryTrpcError(cause),
+        }),
+      ),
+    ),
+
+  restore: protectedProcedure
+    .input(transactionsRestoreInputSchema)
+    .output(transactionsRestoreOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRestoreTransactionUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toRestoreTransactionTrpcError(cause),
+        }),
+      ),
+    ),
+
+  purge: protectedProcedure
+    .input(transactionsPurgeInputSchema)
+    .output(transactionsPurgeOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolvePurgeTransactionUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              id: input.id,
+            }),
+          catch: (cause) => toPurgeTransactionTrpcError(cause),
+        }),
+      ),
+    ),
+
+  trash: trashRouter,
 });
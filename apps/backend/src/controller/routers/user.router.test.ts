@@ -2,23 +2,44 @@ import type { NodePgDatabase } from '@account-book-app/db';
 import { TRPCError } from '@trpc/server';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { TOKENS } from '../../services/di/tokens';
-import { InvalidCredentialsError } from '../../services/users/login-user.errors';
+import { UserSessionNotFoundError } from '../../services/user-sessions/revoke-user-session.errors';
+import {
+  InvalidCurrentPasswordError,
+  UserNotFoundError,
+} from '../../services/users/change-password.errors';
+import { InvalidEmailChangeTokenError } from '../../services/users/confirm-email-change.errors';
+import {
+  InvalidCredentialsError,
+  TooManyLoginAttemptsError,
+} from '../../services/users/login-user.errors';
 import { UnexpectedLogoutUserError } from '../../services/users/logout-user.errors';
+import { RefreshTokenReusedError } from '../../services/users/refresh-user-token.errors';
 import {
   EmailAlreadyExistsError,
   InvalidPasswordError,
 } from '../../services/users/register-user.errors';
-
-const { createRequestContainerMock, executeMock, getMock } = vi.hoisted(() => {
-  const execute = vi.fn();
-  const get = vi.fn(() => ({ execute }));
-  const createRequestContainer = vi.fn(() => ({ get }));
-  return {
-    createRequestContainerMock: createRequestContainer,
-    executeMock: execute,
-    getMock: get,
-  };
-});
+import { InvalidPasswordResetTokenError } from '../../services/users/reset-password.errors';
+
+const { createRequestContainerMock, executeMock, getMock, consumeMock } =
+  vi.hoisted(() => {
+    const execute = vi.fn();
+    // レート制限は既定で許可する
+    const consume = vi.fn(async () => ({
+      allowed: true,
+      limit: 10,
+      remaining: 9,
+      resetAt: new Date(),
+      retryAfterSeconds: 0,
+    }));
+    const get = vi.fn(() => ({ execute, consume }));
+    const createRequestContainer = vi.fn(() => ({ get }));
+    return {
+      createRequestContainerMock: createRequestContainer,
+      executeMock: execute,
+      getMock: get,
+      consumeMock: consume,
+    };
+  });
 
 vi.mock('../../infrastructre/di/container', () => ({
   createRequestContainer: createRequestContainerMock,
@@ -37,6 +58,7 @@ describe('userRouter（ユーザールーター）', () => {
     it('未認証でもユーザー登録できる', async () => {
       executeMock.mockResolvedValueOnce({
         token: 'jwt-token',
+        refreshToken: 'refresh-token',
         user: {
           id: 1,
           email: 'new@example.com',
@@ -56,11 +78,14 @@ describe('userRouter（ユーザールーター）', () => {
 
       expect(createRequestContainerMock).toHaveBeenCalledWith(db);
       expect(getMock).toHaveBeenCalledWith(TOKENS.RegisterUserUseCase);
-      expect(executeMock).toHaveBeenCalledWith({
-        email: 'new@example.com',
-        name: '新規ユーザー',
-        password: 'VeryStrong#123',
-      });
+      expect(executeMock).toHaveBeenCalledWith(
+        {
+          email: 'new@example.com',
+          name: '新規ユーザー',
+          password: 'VeryStrong#123',
+        },
+        { userAgent: undefined, ipAddress: undefined },
+      );
       expect(result.token).toBe('jwt-token');
       expect(result.user.email).toBe('new@example.com');
     });
@@ -135,6 +160,7 @@ describe('userRouter - login（ログイン）', () => {
     it('正しい認証情報でログインするとトークンとユーザーを返す', async () => {
       executeMock.mockResolvedValueOnce({
         token: 'jwt-token',
+        refreshToken: 'refresh-token',
         user: {
           id: 1,
           email: 'user@example.com',
@@ -154,11 +180,14 @@ describe('userRouter - login（ログイン）', () => {
 
       expect(createRequestContainerMock).toHaveBeenCalledWith(db);
       expect(getMock).toHaveBeenCalledWith(TOKENS.LoginUserUseCase);
-      expect(executeMock).toHaveBeenCalledWith({
-        email: 'user@example.com',
-        name: 'テストユーザー',
-        password: 'VeryStrong#123',
-      });
+      expect(executeMock).toHaveBeenCalledWith(
+        {
+          email: 'user@example.com',
+          name: 'テストユーザー',
+          password: 'VeryStrong#123',
+        },
+        { userAgent: undefined, ipAddress: undefined },
+      );
       expect(result.token).toBe('jwt-token');
       expect(result.user.email).toBe('user@example.com');
     });
@@ -202,6 +231,55 @@ describe('userRouter - login（ログイン）', () => {
   });
 });
 
+describe('userRouter - refresh（トークン再発行）', () => {
+  const db = {} as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('未認証でもリフレッシュトークンで新しいトークンを取得できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        token: 'new-jwt-token',
+        refreshToken: 'new-refresh-token',
+        user: {
+          id: 1,
+          email: 'user@example.com',
+          name: 'テストユーザー',
+          createdAt: new Date('2025-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        },
+      });
+
+      const caller = userRouter.createCaller({ db });
+
+      const result = await caller.refresh({ refreshToken: 'refresh-token' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RefreshUserTokenUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        refreshToken: 'refresh-token',
+      });
+      expect(result.token).toBe('new-jwt-token');
+      expect(result.refreshToken).toBe('new-refresh-token');
+    });
+  });
+
+  describe('異常系', () => {
+    it('リフレッシュトークンが再利用された場合は UNAUTHORIZED になる', async () => {
+      executeMock.mockRejectedValueOnce(new RefreshTokenReusedError());
+
+      const caller = userRouter.createCaller({ db });
+
+      await expect(
+        caller.refresh({ refreshToken: 'refresh-token' }),
+      ).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+    });
+  });
+});
+
 describe('userRouter - logout（ログアウト）', () => {
   const db = {} as NodePgDatabase;
 
@@ -226,6 +304,23 @@ describe('userRouter - logout（ログアウト）', () => {
       expect(executeMock).toHaveBeenCalledWith({ token: 'valid-jwt-token' });
       expect(result).toEqual({ success: true });
     });
+
+    it('リフレッシュトークンを指定するとユースケースに渡す', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({
+        db,
+        userId: 1,
+        token: 'valid-jwt-token',
+      });
+
+      await caller.logout({ refreshToken: 'refresh-token' });
+
+      expect(executeMock).toHaveBeenCalledWith({
+        token: 'valid-jwt-token',
+        refreshToken: 'refresh-token',
+      });
+    });
   });
 
   describe('異常系', () => {
@@ -258,3 +353,422 @@ describe('userRouter - logout（ログアウト）', () => {
     });
   });
 });
+
+describe('userRouter - sessions（セッション管理）', () => {
+  const db = {} as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('list: 現在のセッションIDを渡してセッション一覧を返す', async () => {
+      const session = {
+        id: 'session-1',
+        device: 'Chrome (Windows)',
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.1',
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        lastSeenAt: new Date('2025-01-02T00:00:00.000Z'),
+        current: true,
+      };
+      executeMock.mockResolvedValueOnce({ sessions: [session] });
+
+      const caller = userRouter.createCaller({
+        db,
+        userId: 1,
+        sessionId: 'session-1',
+      });
+
+      const result = await caller.sessions.list();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ListUserSessionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        currentSessionId: 'session-1',
+      });
+      expect(result).toEqual({ sessions: [session] });
+    });
+
+    it('revoke: 指定したセッションを失効させる', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      const result = await caller.sessions.revoke({ id: 'session-2' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RevokeUserSessionUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        sessionId: 'session-2',
+      });
+      expect(result).toEqual({ success: true });
+    });
+
+    it('revokeAll: 現在のセッション以外を失効させる', async () => {
+      executeMock.mockResolvedValueOnce({ revokedCount: 2 });
+
+      const caller = userRouter.createCaller({
+        db,
+        userId: 1,
+        sessionId: 'session-1',
+      });
+
+      const result = await caller.sessions.revokeAll();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RevokeAllUserSessionsUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        currentSessionId: 'session-1',
+      });
+      expect(result).toEqual({ revokedCount: 2 });
+    });
+  });
+
+  describe('異常系', () => {
+    it('未認証の場合は UNAUTHORIZED になる', async () => {
+      const caller = userRouter.createCaller({ db });
+
+      await expect(caller.sessions.list()).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+    });
+
+    it('revoke: セッションが見つからない場合は NOT_FOUND になる', async () => {
+      executeMock.mockRejectedValueOnce(
+        new UserSessionNotFoundError('session-2'),
+      );
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.sessions.revoke({ id: 'session-2' }),
+      ).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+});
+
+describe('userRouter - パスワード変更・再設定', () => {
+  const db = {} as NodePgDatabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('changePassword: 現在のセッションIDを渡してパスワードを変更する', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({
+        db,
+        userId: 1,
+        sessionId: 'session-1',
+      });
+
+      const result = await caller.changePassword({
+        currentPassword: 'OldPassword#123',
+        newPassword: 'NewPassword#456',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ChangePasswordUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        currentSessionId: 'session-1',
+        currentPassword: 'OldPassword#123',
+        newPassword: 'NewPassword#456',
+      });
+      expect(result).toEqual({ success: true });
+    });
+
+    it('requestPasswordReset: 未認証でも再設定を申請できる', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({ db });
+
+      const result = await caller.requestPasswordReset({
+        email: 'test@example.com',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RequestPasswordResetUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ email: 'test@example.com' });
+      expect(result).toEqual({ success: true });
+    });
+
+    it('resetPassword: 未認証でもトークンでパスワードを再設定できる', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({ db });
+
+      const result = await caller.resetPassword({
+        token: 'plain-reset-token',
+        newPassword: 'NewPassword#456',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ResetPasswordUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        token: 'plain-reset-token',
+        newPassword: 'NewPassword#456',
+      });
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('changePassword: 未認証の場合は UNAUTHORIZED になる', async () => {
+      const caller = userRouter.createCaller({ db });
+
+      await expect(
+        caller.changePassword({
+          currentPassword: 'OldPassword#123',
+          newPassword: 'NewPassword#456',
+        }),
+      ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('changePassword: 現在のパスワードが誤っている場合は BAD_REQUEST になる', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidCurrentPasswordError());
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.changePassword({
+          currentPassword: 'WrongPassword#123',
+          newPassword: 'NewPassword#456',
+        }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: '現在のパスワードが正しくありません',
+      });
+    });
+
+    it('resetPassword: トークンが無効な場合は BAD_REQUEST になる', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidPasswordResetTokenError());
+
+      const caller = userRouter.createCaller({ db });
+
+      await expect(
+        caller.resetPassword({
+          token: 'used-token',
+          newPassword: 'NewPassword#456',
+        }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('requestPasswordReset: 想定外の例外は INTERNAL_SERVER_ERROR になる', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = userRouter.createCaller({ db });
+
+      await expect(
+        caller.requestPasswordReset({ email: 'test@example.com' }),
+      ).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'パスワード再設定の受付に失敗しました',
+      });
+    });
+  });
+});
+
+describe('userRouter - プロフィール・退会', () => {
+  const db = {} as NodePgDatabase;
+  const user = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'テストユーザー',
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('me: ログイン中のユーザー情報を返す', async () => {
+      executeMock.mockResolvedValueOnce({ user });
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      const result = await caller.me();
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.GetCurrentUserUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual({ user });
+    });
+
+    it('updateProfile: 名前とメールアドレスを渡し、確認待ちのメールアドレスを返す', async () => {
+      executeMock.mockResolvedValueOnce({
+        user,
+        pendingEmail: 'new@example.com',
+      });
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      const result = await caller.updateProfile({
+        name: 'テストユーザー',
+        email: 'new@example.com',
+      });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.UpdateProfileUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        name: 'テストユーザー',
+        email: 'new@example.com',
+      });
+      expect(result).toEqual({ user, pendingEmail: 'new@example.com' });
+    });
+
+    it('confirmEmailChange: 未認証でもトークンでメールアドレスの変更を確定できる', async () => {
+      executeMock.mockResolvedValueOnce({
+        user: { ...user, email: 'new@example.com' },
+      });
+
+      const caller = userRouter.createCaller({ db });
+
+      const result = await caller.confirmEmailChange({ token: 'change-token' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.ConfirmEmailChangeUseCase);
+      expect(executeMock).toHaveBeenCalledWith({ token: 'change-token' });
+      expect(result.user.email).toBe('new@example.com');
+    });
+
+    it('deleteAccount: パスワードを渡して退会する', async () => {
+      executeMock.mockResolvedValueOnce({ success: true });
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      const result = await caller.deleteAccount({ password: 'Password#123' });
+
+      expect(getMock).toHaveBeenCalledWith(TOKENS.DeleteUserAccountUseCase);
+      expect(executeMock).toHaveBeenCalledWith({
+        userId: 1,
+        password: 'Password#123',
+      });
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('me: 未認証の場合は UNAUTHORIZED になる', async () => {
+      const caller = userRouter.createCaller({ db });
+
+      await expect(caller.me()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('me: ユーザーが存在しない場合は NOT_FOUND になる', async () => {
+      executeMock.mockRejectedValueOnce(new UserNotFoundError());
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.me()).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('updateProfile: 変更する項目が指定されていない場合は BAD_REQUEST になる', async () => {
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(caller.updateProfile({})).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('updateProfile: メールアドレスが既に使われている場合は CONFLICT になる', async () => {
+      executeMock.mockRejectedValueOnce(
+        new EmailAlreadyExistsError('taken@example.com'),
+      );
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.updateProfile({ email: 'taken@example.com' }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('confirmEmailChange: トークンが無効な場合は BAD_REQUEST になる', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidEmailChangeTokenError());
+
+      const caller = userRouter.createCaller({ db });
+
+      await expect(
+        caller.confirmEmailChange({ token: 'used-token' }),
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: 'メールアドレス変更の確認用トークンが無効または期限切れです',
+      });
+    });
+
+    it('deleteAccount: パスワードが誤っている場合は BAD_REQUEST になる', async () => {
+      executeMock.mockRejectedValueOnce(new InvalidCurrentPasswordError());
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.deleteAccount({ password: 'WrongPassword#123' }),
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('deleteAccount: 想定外の例外は INTERNAL_SERVER_ERROR になる', async () => {
+      executeMock.mockRejectedValueOnce(new Error('boom'));
+
+      const caller = userRouter.createCaller({ db, userId: 1 });
+
+      await expect(
+        caller.deleteAccount({ password: 'Password#123' }),
+      ).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: '退会処理に失敗しました',
+      });
+    });
+  });
+});
+
+describe('userRouter - レート制限', () => {
+  const db = {} as NodePgDatabase;
+  const loginInput = {
+    email: 'test@example.com',
+    name: 'テストユーザー',
+    password: 'VeryStrong#123',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('異常系', () => {
+    it('login: 接続元IPごとの上限を超えた場合は TOO_MANY_REQUESTS になり、ユースケースを呼ばない', async () => {
+      consumeMock.mockResolvedValueOnce({
+        allowed: false,
+        limit: 10,
+        remaining: 0,
+        resetAt: new Date(),
+        retryAfterSeconds: 30,
+      });
+
+      const caller = userRouter.createCaller({ db, ipAddress: '203.0.113.1' });
+
+      await expect(caller.login(loginInput)).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        cause: { retryAfterSeconds: 30 },
+      });
+      expect(getMock).toHaveBeenCalledWith(TOKENS.RateLimiter);
+      expect(consumeMock).toHaveBeenCalledWith({
+        policy: expect.objectContaining({ name: 'users.login' }),
+        key: 'ip:203.0.113.1',
+      });
+      expect(executeMock).not.toHaveBeenCalled();
+    });
+
+    it('login: ログインの失敗が続いてロック中の場合は TOO_MANY_REQUESTS になる', async () => {
+      executeMock.mockRejectedValueOnce(new TooManyLoginAttemptsError(120));
+
+      const caller = userRouter.createCaller({ db });
+
+      await expect(caller.login(loginInput)).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        cause: { retryAfterSeconds: 120 },
+      });
+    });
+  });
+});
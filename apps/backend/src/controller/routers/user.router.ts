@@ -1,19 +1,61 @@
 import type { NodePgDatabase } from '@account-book-app/db';
 import {
+  usersChangePasswordInputSchema,
+  usersChangePasswordOutputSchema,
+  usersConfirmEmailChangeInputSchema,
+  usersConfirmEmailChangeOutputSchema,
+  usersDeleteAccountInputSchema,
+  usersDeleteAccountOutputSchema,
   usersLoginInputSchema,
   usersLoginOutputSchema,
+  usersLogoutInputSchema,
   usersLogoutOutputSchema,
+  usersMeOutputSchema,
+  usersRefreshInputSchema,
+  usersRefreshOutputSchema,
   usersRegisterInputSchema,
   usersRegisterOutputSchema,
+  usersRequestPasswordResetInputSchema,
+  usersRequestPasswordResetOutputSchema,
+  usersResetPasswordInputSchema,
+  usersResetPasswordOutputSchema,
+  usersSessionsListOutputSchema,
+  usersSessionsRevokeAllOutputSchema,
+  usersSessionsRevokeInputSchema,
+  usersSessionsRevokeOutputSchema,
+  usersUpdateProfileInputSchema,
+  usersUpdateProfileOutputSchema,
 } from '@account-book-app/shared';
 import { TRPCError } from '@trpc/server';
 
 import { createRequestContainer } from '../../infrastructre/di/container';
 import { TOKENS } from '../../services/di/tokens';
-import { InvalidCredentialsError } from '../../services/users/login-user.errors';
+import type { RateLimitPolicy } from '../../services/rate-limit/rate-limiter.service';
+import type { ListUserSessionsUseCase } from '../../services/user-sessions/list-user-sessions.service';
+import type { RevokeAllUserSessionsUseCase } from '../../services/user-sessions/revoke-all-user-sessions.service';
+import { UserSessionNotFoundError } from '../../services/user-sessions/revoke-user-session.errors';
+import type { RevokeUserSessionUseCase } from '../../services/user-sessions/revoke-user-session.service';
+import {
+  InvalidCurrentPasswordError,
+  UserNotFoundError,
+} from '../../services/users/change-password.errors';
+import type { ChangePasswordUseCase } from '../../services/users/change-password.service';
+import { InvalidEmailChangeTokenError } from '../../services/users/confirm-email-change.errors';
+import type { ConfirmEmailChangeUseCase } from '../../services/users/confirm-email-change.service';
+import type { DeleteUserAccountUseCase } from '../../services/users/delete-user-account.service';
+import type { GetCurrentUserUseCase } from '../../services/users/get-current-user.service';
+import {
+  InvalidCredentialsError,
+  TooManyLoginAttemptsError,
+} from '../../services/users/login-user.errors';
 import type { LoginUserUseCase } from '../../services/users/login-user.service';
 import { UnexpectedLogoutUserError } from '../../services/users/logout-user.errors';
 import type { LogoutUserUseCase } from '../../services/users/logout-user.service';
+import {
+  InvalidRefreshTokenError,
+  RefreshTokenReusedError,
+} from '../../services/users/refresh-user-token.errors';
+import type { RefreshUserTokenUseCase } from '../../services/users/refresh-user-token.service';
 import {
   EmailAlreadyExistsError,
   InvalidPasswordError,
@@ -21,10 +63,40 @@ import {
   InvalidUserNameError,
 } from '../../services/users/register-user.errors';
 import type { RegisterUserUseCase } from '../../services/users/register-user.service';
+import type { RequestPasswordResetUseCase } from '../../services/users/request-password-reset.service';
+import { InvalidPasswordResetTokenError } from '../../services/users/reset-password.errors';
+import type { ResetPasswordUseCase } from '../../services/users/reset-password.service';
+import type { UpdateProfileUseCase } from '../../services/users/update-profile.service';
 import { Effect } from '../../shared/result';
+import type { Context } from '../trpc/context';
+import { rateLimit } from '../trpc/rate-limit';
 import { protectedProcedure, publicProcedure, router } from '../trpc/trpc';
 import { runTrpcEffect } from './errors/trpc-effect';
 
+const MINUTE_MS = 60_000;
+
+// 認証なしで呼べるため、総当たりや大量送信の対象になりやすい操作の接続元IPごとの上限
+const RATE_LIMIT_POLICIES = {
+  register: { name: 'users.register', limit: 10, windowMs: 60 * MINUTE_MS },
+  login: { name: 'users.login', limit: 10, windowMs: MINUTE_MS },
+  refresh: { name: 'users.refresh', limit: 30, windowMs: MINUTE_MS },
+  requestPasswordReset: {
+    name: 'users.requestPasswordReset',
+    limit: 5,
+    windowMs: 15 * MINUTE_MS,
+  },
+  resetPassword: {
+    name: 'users.resetPassword',
+    limit: 10,
+    windowMs: 15 * MINUTE_MS,
+  },
+  confirmEmailChange: {
+    name: 'users.confirmEmailChange',
+    limit: 10,
+    windowMs: 15 * MINUTE_MS,
+  },
+} as const satisfies Record<string, RateLimitPolicy>;
+
 const resolveRegisterUserUseCase = (db: NodePgDatabase) => {
   const container = createRequestContainer(db);
   return container.get<RegisterUserUseCase>(TOKENS.RegisterUserUseCase);
@@ -40,6 +112,76 @@ const resolveLogoutUserUseCase = (db: NodePgDatabase) => {
   return container.get<LogoutUserUseCase>(TOKENS.LogoutUserUseCase);
 };
 
+const resolveRefreshUserTokenUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RefreshUserTokenUseCase>(TOKENS.RefreshUserTokenUseCase);
+};
+
+const resolveListUserSessionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ListUserSessionsUseCase>(TOKENS.ListUserSessionsUseCase);
+};
+
+const resolveRevokeUserSessionUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RevokeUserSessionUseCase>(
+    TOKENS.RevokeUserSessionUseCase,
+  );
+};
+
+const resolveRevokeAllUserSessionsUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RevokeAllUserSessionsUseCase>(
+    TOKENS.RevokeAllUserSessionsUseCase,
+  );
+};
+
+const resolveChangePasswordUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ChangePasswordUseCase>(TOKENS.ChangePasswordUseCase);
+};
+
+const resolveRequestPasswordResetUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<RequestPasswordResetUseCase>(
+    TOKENS.RequestPasswordResetUseCase,
+  );
+};
+
+const resolveResetPasswordUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ResetPasswordUseCase>(TOKENS.ResetPasswordUseCase);
+};
+
+const resolveGetCurrentUserUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<GetCurrentUserUseCase>(TOKENS.GetCurrentUserUseCase);
+};
+
+const resolveUpdateProfileUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<UpdateProfileUseCase>(TOKENS.UpdateProfileUseCase);
+};
+
+const resolveConfirmEmailChangeUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<ConfirmEmailChangeUseCase>(
+    TOKENS.ConfirmEmailChangeUseCase,
+  );
+};
+
+const resolveDeleteUserAccountUseCase = (db: NodePgDatabase) => {
+  const container = createRequestContainer(db);
+  return container.get<DeleteUserAccountUseCase>(
+    TOKENS.DeleteUserAccountUseCase,
+  );
+};
+
+const toSessionClient = (ctx: Context) => ({
+  userAgent: ctx.userAgent,
+  ipAddress: ctx.ipAddress,
+});
+
 const toRegisterUserTrpcError = <T>(cause: T) => {
   const error = cause instanceof Error ? cause : new Error(String(cause));
 
@@ -85,12 +227,44 @@ const toLoginUserTrpcError = <T>(cause: T) => {
     });
   }
 
+  // cause は Retry-After ヘッダーの算出に使う
+  if (error instanceof TooManyLoginAttemptsError) {
+    return new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: error.message,
+      cause: error,
+    });
+  }
+
   return new TRPCError({
     code: 'INTERNAL_SERVER_ERROR',
     message: 'ログインに失敗しました',
   });
 };
 
+const toRefreshUserTokenTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.refresh] error:', error);
+  }
+
+  if (
+    error instanceof InvalidRefreshTokenError ||
+    error instanceof RefreshTokenReusedError
+  ) {
+    return new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'トークンの再発行に失敗しました',
+  });
+};
+
 const toLogoutUserTrpcError = <T>(cause: T) => {
   const error = cause instanceof Error ? cause : new Error(String(cause));
 
@@ -111,52 +285,437 @@ const toLogoutUserTrpcError = <T>(cause: T) => {
   });
 };
 
+const toUserSessionsTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.sessions] error:', error);
+  }
+
+  if (error instanceof UserSessionNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'セッションの操作に失敗しました',
+  });
+};
+
+const toChangePasswordTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.changePassword] error:', error);
+  }
+
+  if (
+    error instanceof InvalidCurrentPasswordError ||
+    error instanceof InvalidPasswordError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'パスワードの変更に失敗しました',
+  });
+};
+
+const toRequestPasswordResetTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.requestPasswordReset] error:', error);
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'パスワード再設定の受付に失敗しました',
+  });
+};
+
+const toResetPasswordTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.resetPassword] error:', error);
+  }
+
+  if (
+    error instanceof InvalidPasswordResetTokenError ||
+    error instanceof InvalidPasswordError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'パスワードの再設定に失敗しました',
+  });
+};
+
+const toGetCurrentUserTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.me] error:', error);
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'ユーザー情報の取得に失敗しました',
+  });
+};
+
+const toUpdateProfileTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.updateProfile] error:', error);
+  }
+
+  if (
+    error instanceof InvalidUserEmailError ||
+    error instanceof InvalidUserNameError
+  ) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof EmailAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'プロフィールの更新に失敗しました',
+  });
+};
+
+const toConfirmEmailChangeTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.confirmEmailChange] error:', error);
+  }
+
+  if (error instanceof InvalidEmailChangeTokenError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof EmailAlreadyExistsError) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'メールアドレスの変更に失敗しました',
+  });
+};
+
+const toDeleteUserAccountTrpcError = <T>(cause: T) => {
+  const error = cause instanceof Error ? cause : new Error(String(cause));
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.error('[users.deleteAccount] error:', error);
+  }
+
+  if (error instanceof InvalidCurrentPasswordError) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: '退会処理に失敗しました',
+  });
+};
+
+const sessionsRouter = router({
+  list: protectedProcedure
+    .output(usersSessionsListOutputSchema)
+    .query(({ ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveListUserSessionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              currentSessionId: ctx.sessionId,
+            }),
+          catch: (cause) => toUserSessionsTrpcError(cause),
+        }),
+      ),
+    ),
+
+  revoke: protectedProcedure
+    .input(usersSessionsRevokeInputSchema)
+    .output(usersSessionsRevokeOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRevokeUserSessionUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              sessionId: input.id,
+            }),
+          catch: (cause) => toUserSessionsTrpcError(cause),
+        }),
+      ),
+    ),
+
+  revokeAll: protectedProcedure
+    .output(usersSessionsRevokeAllOutputSchema)
+    .mutation(({ ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRevokeAllUserSessionsUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              currentSessionId: ctx.sessionId,
+            }),
+          catch: (cause) => toUserSessionsTrpcError(cause),
+        }),
+      ),
+    ),
+});
+
 export const userRouter = router({
   register: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.register))
     .input(usersRegisterInputSchema)
     .output(usersRegisterOutputSchema)
     .mutation(({ input, ctx }) =>
       runTrpcEffect(
         Effect.tryPromise({
           try: () =>
-            resolveRegisterUserUseCase(ctx.db).execute({
-              email: input.email,
-              name: input.name,
-              password: input.password,
-            }),
+            resolveRegisterUserUseCase(ctx.db).execute(
+              {
+                email: input.email,
+                name: input.name,
+                password: input.password,
+              },
+              toSessionClient(ctx),
+            ),
           catch: (cause) => toRegisterUserTrpcError(cause),
         }),
       ),
     ),
   login: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.login))
     .input(usersLoginInputSchema)
     .output(usersLoginOutputSchema)
     .mutation(({ input, ctx }) =>
       runTrpcEffect(
         Effect.tryPromise({
           try: () =>
-            resolveLoginUserUseCase(ctx.db).execute({
-              email: input.email,
-              name: input.name,
-              password: input.password,
-            }),
+            resolveLoginUserUseCase(ctx.db).execute(
+              {
+                email: input.email,
+                name: input.name,
+                password: input.password,
+              },
+              toSessionClient(ctx),
+            ),
           catch: (cause) => toLoginUserTrpcError(cause),
         }),
       ),
     ),
 
+  refresh: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.refresh))
+    .input(usersRefreshInputSchema)
+    .output(usersRefreshOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRefreshUserTokenUseCase(ctx.db).execute({
+              refreshToken: input.refreshToken,
+            }),
+          catch: (cause) => toRefreshUserTokenTrpcError(cause),
+        }),
+      ),
+    ),
+
   logout: protectedProcedure
+    .input(usersLogoutInputSchema.optional())
     .output(usersLogoutOutputSchema)
-    .mutation(({ ctx }) =>
+    .mutation(({ input, ctx }) =>
       runTrpcEffect(
         Effect.tryPromise({
           try: () =>
             resolveLogoutUserUseCase(ctx.db).execute({
               // protectedProcedure を通過した時点で token は必ず存在する
               token: ctx.token ?? '',
+              refreshToken: input?.refreshToken,
             }),
           catch: (cause) => toLogoutUserTrpcError(cause),
         }),
       ),
     ),
+
+  changePassword: protectedProcedure
+    .input(usersChangePasswordInputSchema)
+    .output(usersChangePasswordOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveChangePasswordUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              currentSessionId: ctx.sessionId,
+              currentPassword: input.currentPassword,
+              newPassword: input.newPassword,
+            }),
+          catch: (cause) => toChangePasswordTrpcError(cause),
+        }),
+      ),
+    ),
+
+  requestPasswordReset: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.requestPasswordReset))
+    .input(usersRequestPasswordResetInputSchema)
+    .output(usersRequestPasswordResetOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveRequestPasswordResetUseCase(ctx.db).execute({
+              email: input.email,
+            }),
+          catch: (cause) => toRequestPasswordResetTrpcError(cause),
+        }),
+      ),
+    ),
+
+  resetPassword: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.resetPassword))
+    .input(usersResetPasswordInputSchema)
+    .output(usersResetPasswordOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveResetPasswordUseCase(ctx.db).execute({
+              token: input.token,
+              newPassword: input.newPassword,
+            }),
+          catch: (cause) => toResetPasswordTrpcError(cause),
+        }),
+      ),
+    ),
+
+  me: protectedProcedure.output(usersMeOutputSchema).query(({ ctx }) =>
+    runTrpcEffect(
+      Effect.tryPromise({
+        try: () =>
+          resolveGetCurrentUserUseCase(ctx.db).execute({
+            userId: ctx.userId,
+          }),
+        catch: (cause) => toGetCurrentUserTrpcError(cause),
+      }),
+    ),
+  ),
+
+  updateProfile: protectedProcedure
+    .input(usersUpdateProfileInputSchema)
+    .output(usersUpdateProfileOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveUpdateProfileUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              name: input.name,
+              email: input.email,
+            }),
+          catch: (cause) => toUpdateProfileTrpcError(cause),
+        }),
+      ),
+    ),
+
+  confirmEmailChange: publicProcedure
+    .use(rateLimit(RATE_LIMIT_POLICIES.confirmEmailChange))
+    .input(usersConfirmEmailChangeInputSchema)
+    .output(usersConfirmEmailChangeOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveConfirmEmailChangeUseCase(ctx.db).execute({
+              token: input.token,
+            }),
+          catch: (cause) => toConfirmEmailChangeTrpcError(cause),
+        }),
+      ),
+    ),
+
+  deleteAccount: protectedProcedure
+    .input(usersDeleteAccountInputSchema)
+    .output(usersDeleteAccountOutputSchema)
+    .mutation(({ input, ctx }) =>
+      runTrpcEffect(
+        Effect.tryPromise({
+          try: () =>
+            resolveDeleteUserAccountUseCase(ctx.db).execute({
+              userId: ctx.userId,
+              password: input.password,
+            }),
+          catch: (cause) => toDeleteUserAccountTrpcError(cause),
+        }),
+      ),
+    ),
+
+  sessions: sessionsRouter,
 });
@@ -1,5 +1,6 @@
 import type { NodePgDatabase } from '@account-book-app/db';
 import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
+import type { Context as HonoContext } from 'hono';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { Effect } from '../../shared/result';
 
@@ -13,13 +14,21 @@ vi.mock('../../infrastructre/auth/jwt', () => ({
 
 import { createContext } from './context';
 
-// Drizzle の select チェーン（トークンブラックリスト検索）をモックする
-const makeMockDb = (): NodePgDatabase => {
+// Drizzle の select チェーン（トークンブラックリスト検索）と
+// update チェーン（セッションの最終利用日時の更新）をモックする
+const makeMockDb = (touchedSessions: { id: string }[] = []): NodePgDatabase => {
   const limitMock = vi.fn().mockResolvedValue([]);
   const whereMock = vi.fn().mockReturnValue({ limit: limitMock });
   const fromMock = vi.fn().mockReturnValue({ where: whereMock });
   const selectMock = vi.fn().mockReturnValue({ from: fromMock });
-  return { select: selectMock } as unknown as NodePgDatabase;
+  const returningMock = vi.fn().mockResolvedValue(touchedSessions);
+  const updateWhereMock = vi.fn().mockReturnValue({ returning: returningMock });
+  const setMock = vi.fn().mockReturnValue({ where: updateWhereMock });
+  const updateMock = vi.fn().mockReturnValue({ set: setMock });
+  return {
+    select: selectMock,
+    update: updateMock,
+  } as unknown as NodePgDatabase;
 };
 
 describe('createContext（tRPCコンテキスト）', () => {
@@ -27,8 +36,9 @@ describe('createContext（tRPCコンテキスト）', () => {
 
   const createOptions = (
     authorization?: string,
+    extraHeaders: Record<string, string> = {},
   ): FetchCreateContextFnOptions => {
-    const headers = new Headers();
+    const headers = new Headers(extraHeaders);
 
     if (authorization) {
       headers.set('authorization', authorization);
@@ -40,8 +50,15 @@ describe('createContext（tRPCコンテキスト）', () => {
     } as FetchCreateContextFnOptions;
   };
 
+  // getConnInfo が参照する Node.js サーバーのバインディング（ソケットの接続元）を模したコンテキスト
+  const createHonoContext = (remoteAddress?: string): HonoContext =>
+    ({
+      env: { incoming: { socket: { remoteAddress } } },
+    }) as unknown as HonoContext;
+
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.unstubAllEnvs();
     db = makeMockDb();
   });
 
@@ -57,7 +74,10 @@ describe('createContext（tRPCコンテキスト）', () => {
       );
 
       const contextFactory = createContext(db);
-      await contextFactory(createOptions('Bearer extracted.token.value'));
+      await contextFactory(
+        createOptions('Bearer extracted.token.value'),
+        createHonoContext(),
+      );
 
       expect(verifyAccessTokenEffectMock).toHaveBeenCalledWith(
         'extracted.token.value',
@@ -75,7 +95,10 @@ describe('createContext（tRPCコンテキスト）', () => {
       );
 
       const contextFactory = createContext(db);
-      const result = await contextFactory(createOptions('Bearer valid.token'));
+      const result = await contextFactory(
+        createOptions('Bearer valid.token'),
+        createHonoContext(),
+      );
 
       expect(verifyAccessTokenEffectMock).toHaveBeenCalledWith('valid.token');
       expect(result).toEqual({
@@ -84,12 +107,72 @@ describe('createContext（tRPCコンテキスト）', () => {
         token: 'valid.token',
       });
     });
+
+    it('sidを持つトークンは有効なセッションであればuserIdとsessionIdを設定する', async () => {
+      verifyAccessTokenEffectMock.mockReturnValueOnce(
+        Effect.succeed({
+          sub: '123',
+          email: 'user@example.com',
+          iat: 1,
+          exp: 2,
+          sid: 'session-1',
+        }),
+      );
+      const sessionDb = makeMockDb([{ id: 'session-1' }]);
+
+      const contextFactory = createContext(sessionDb);
+      const result = await contextFactory(
+        createOptions('Bearer valid.token'),
+        createHonoContext(),
+      );
+
+      expect(sessionDb.update).toHaveBeenCalled();
+      expect(sessionDb.select).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        userId: 123,
+        sessionId: 'session-1',
+        token: 'valid.token',
+      });
+    });
+
+    it('User-Agentとソケットの接続元IPを端末情報として設定する', async () => {
+      const contextFactory = createContext(db);
+      const result = await contextFactory(
+        createOptions(undefined, { 'user-agent': 'Mozilla/5.0' }),
+        createHonoContext('203.0.113.1'),
+      );
+
+      expect(result.userAgent).toBe('Mozilla/5.0');
+      expect(result.ipAddress).toBe('203.0.113.1');
+    });
+
+    it('信頼済みプロキシ経由の場合はX-Forwarded-Forのクライアントを接続元IPとする', async () => {
+      vi.stubEnv('TRUSTED_PROXIES', '10.0.0.1');
+
+      const contextFactory = createContext(db);
+      const result = await contextFactory(
+        createOptions(undefined, { 'x-forwarded-for': '203.0.113.1' }),
+        createHonoContext('10.0.0.1'),
+      );
+
+      expect(result.ipAddress).toBe('203.0.113.1');
+    });
   });
 
   describe('異常系', () => {
+    it('信頼済みプロキシを経由しない場合はX-Forwarded-Forを無視する', async () => {
+      const contextFactory = createContext(db);
+      const result = await contextFactory(
+        createOptions(undefined, { 'x-forwarded-for': '198.51.100.7' }),
+        createHonoContext('203.0.113.1'),
+      );
+
+      expect(result.ipAddress).toBe('203.0.113.1');
+    });
+
     it('Authorizationヘッダーがない場合はuserIdを設定しない', async () => {
       const contextFactory = createContext(db);
-      const result = await contextFactory(createOptions());
+      const result = await contextFactory(createOptions(), createHonoContext());
 
       expect(verifyAccessTokenEffectMock).not.toHaveBeenCalled();
       expect(result).toEqual({
@@ -101,7 +184,10 @@ describe('createContext（tRPCコンテキスト）', () => {
 
     it('Bearer形式でない場合はuserIdを設定しない', async () => {
       const contextFactory = createContext(db);
-      const result = await contextFactory(createOptions('Basic abc.def'));
+      const result = await contextFactory(
+        createOptions('Basic abc.def'),
+        createHonoContext(),
+      );
 
       expect(verifyAccessTokenEffectMock).not.toHaveBeenCalled();
       expect(result).toEqual({
@@ -123,6 +209,7 @@ describe('createContext（tRPCコンテキスト）', () => {
       const contextFactory = createContext(db);
       const result = await contextFactory(
         createOptions('Bearer invalid.token'),
+        createHonoContext(),
       );
 
       expect(verifyAccessTokenEffectMock).toHaveBeenCalledWith('invalid.token');
@@ -133,6 +220,31 @@ describe('createContext（tRPCコンテキスト）', () => {
       });
     });
 
+    it('sidのセッションが失効済みの場合はuserIdを設定しない', async () => {
+      verifyAccessTokenEffectMock.mockReturnValueOnce(
+        Effect.succeed({
+          sub: '123',
+          email: 'user@example.com',
+          iat: 1,
+          exp: 2,
+          sid: 'revoked-session',
+        }),
+      );
+
+      const contextFactory = createContext(db);
+      const result = await contextFactory(
+        createOptions('Bearer valid.token'),
+        createHonoContext(),
+      );
+
+      expect(db.update).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        userId: undefined,
+        sessionId: undefined,
+        token: 'valid.token',
+      });
+    });
+
     it('subが正の整数でない場合はuserIdを設定しない', async () => {
       verifyAccessTokenEffectMock.mockReturnValueOnce(
         Effect.succeed({
@@ -144,7 +256,10 @@ describe('createContext（tRPCコンテキスト）', () => {
       );
 
       const contextFactory = createContext(db);
-      const result = await contextFactory(createOptions('Bearer valid.token'));
+      const result = await contextFactory(
+        createOptions('Bearer valid.token'),
+        createHonoContext(),
+      );
 
       expect(verifyAccessTokenEffectMock).toHaveBeenCalledWith('valid.token');
       expect(result).toEqual({
@@ -169,6 +284,7 @@ describe('createContext（tRPCコンテキスト）', () => {
         const contextFactory = createContext(db);
         const result = await contextFactory(
           createOptions('Bearer valid.token'),
+          createHonoContext(),
         );
 
         expect(verifyAccessTokenEffectMock).toHaveBeenCalledWith('valid.token');
@@ -1,32 +1,55 @@
 // Presentation Layer: tRPC Context
 // リクエストごとのコンテキスト設定
 
-import { eq, type NodePgDatabase, tokenBlacklists } from '@account-book-app/db';
+import {
+  and,
+  eq,
+  isNull,
+  type NodePgDatabase,
+  tokenBlacklists,
+  userSessions,
+} from '@account-book-app/db';
 import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
+import type { Context as HonoContext } from 'hono';
 import {
   type JwtVerifyError,
   verifyAccessTokenEffect,
 } from '../../infrastructre/auth/jwt';
 import { Effect, pipe } from '../../shared/result';
+import { getRemoteAddress, resolveClientIpAddress } from '../client-ip';
 
 export interface Context extends Record<string, unknown> {
   db: NodePgDatabase;
   userId?: number;
   token?: string; // logout 時に使用するオリジナルトークン文字列
+  sessionId?: string; // 現在のログインセッション（アクセストークンの sid クレーム）
+  userAgent?: string;
+  ipAddress?: string;
 }
 
+type ResolvedAuth = {
+  userId: number;
+  sessionId?: string;
+};
+
 export const createContext = (
   db: NodePgDatabase,
-): ((opts: FetchCreateContextFnOptions) => Promise<Context>) => {
-  return async (opts: FetchCreateContextFnOptions) => {
+): ((
+  opts: FetchCreateContextFnOptions,
+  c: HonoContext,
+) => Promise<Context>) => {
+  return async (opts: FetchCreateContextFnOptions, c: HonoContext) => {
     const authorization = opts.req.headers.get('authorization');
     const token = getBearerToken(authorization);
-    const userId = token ? await resolveUserId(token, db) : undefined;
+    const auth = token ? await resolveAuth(token, db) : undefined;
 
     return {
       db,
-      userId,
+      userId: auth?.userId,
+      sessionId: auth?.sessionId,
       token,
+      userAgent: opts.req.headers.get('user-agent') ?? undefined,
+      ipAddress: resolveClientIpAddress(getRemoteAddress(c), opts.req.headers),
     };
   };
 };
@@ -40,10 +63,10 @@ const getBearerToken = (authorization: string | null): string | undefined => {
   return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
 };
 
-const resolveUserId = async (
+const resolveAuth = async (
   token: string,
   db: NodePgDatabase,
-): Promise<number | undefined> => {
+): Promise<ResolvedAuth | undefined> => {
   const payload = await Effect.runPromise(
     pipe(
       verifyAccessTokenEffect(token),
@@ -64,22 +87,56 @@ const resolveUserId = async (
     return undefined;
   }
 
-  // ブラックリストチェック: ログアウト済みトークンは無効
+  // 失効チェック: sid を持つトークンはセッションの状態で、
+  // セッション管理の導入前に発行されたトークンはブラックリストで判定する
   const tokenIdentifier = `${payload.sub}:${payload.iat}`;
-  const [blacklisted] = await db
-    .select({ id: tokenBlacklists.id })
-    .from(tokenBlacklists)
-    .where(eq(tokenBlacklists.tokenIdentifier, tokenIdentifier))
-    .limit(1);
+  const revoked = payload.sid
+    ? !(await touchActiveSession(payload.sid, userId, db))
+    : await isBlacklisted(tokenIdentifier, db);
 
-  if (blacklisted) {
+  if (revoked) {
     console.warn('[auth] ログアウト済みのトークンが使用されました', {
       tokenIdentifier,
     });
     return undefined;
   }
 
-  return userId;
+  return { userId, sessionId: payload.sid };
+};
+
+// 有効なセッションであれば最終利用日時を更新する
+// 失効済み・他ユーザーのセッションは更新されないため、更新件数で有効かどうかを判定できる
+const touchActiveSession = async (
+  sessionId: string,
+  userId: number,
+  db: NodePgDatabase,
+): Promise<boolean> => {
+  const touched = await db
+    .update(userSessions)
+    .set({ lastSeenAt: new Date() })
+    .where(
+      and(
+        eq(userSessions.id, sessionId),
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+      ),
+    )
+    .returning({ id: userSessions.id });
+
+  return touched.length > 0;
+};
+
+const isBlacklisted = async (
+  tokenIdentifier: string,
+  db: NodePgDatabase,
+): Promise<boolean> => {
+  const [blacklisted] = await db
+    .select({ id: tokenBlacklists.id })
+    .from(tokenBlacklists)
+    .where(eq(tokenBlacklists.tokenIdentifier, tokenIdentifier))
+    .limit(1);
+
+  return blacklisted !== undefined;
 };
 
 const logJwtVerifyError = (error: JwtVerifyError): void => {
@@ -0,0 +1,33 @@
+import { TRPCError } from '@trpc/server';
+import { describe, expect, it } from 'vitest';
+
+import { RateLimitExceededError } from '../../services/rate-limit/rate-limit.errors';
+import { TooManyLoginAttemptsError } from '../../services/users/login-user.errors';
+import { rateLimitResponseMeta } from './rate-limit';
+
+describe('rateLimitResponseMeta（Retry-After ヘッダー）', () => {
+  it('待ち時間を持つエラーのうち最も長い秒数を Retry-After に設定する', () => {
+    const meta = rateLimitResponseMeta({
+      errors: [
+        new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          cause: new RateLimitExceededError(30),
+        }),
+        new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          cause: new TooManyLoginAttemptsError(120),
+        }),
+      ],
+    });
+
+    expect(meta).toEqual({ headers: { 'Retry-After': '120' } });
+  });
+
+  it('レート制限以外のエラーではヘッダーを付けない', () => {
+    const meta = rateLimitResponseMeta({
+      errors: [new TRPCError({ code: 'UNAUTHORIZED' })],
+    });
+
+    expect(meta).toEqual({});
+  });
+});
@@ -0,0 +1,46 @@
+// Presentation Layer: tRPC Rate Limit
+// プロシージャごとに接続元IPのリクエスト数を制限し、制限時は Retry-After ヘッダーを返す
+
+import { TRPCError } from '@trpc/server';
+import type { ResponseMeta } from '@trpc/server/http';
+
+import { RateLimitExceededError } from '../../services/rate-limit/rate-limit.errors';
+import type { RateLimitPolicy } from '../../services/rate-limit/rate-limiter.service';
+import {
+  consumeRateLimit,
+  getRetryAfterSeconds,
+} from '../middlewares/rate-limit.middleware';
+import { middleware } from './trpc';
+
+export const rateLimit = (policy: RateLimitPolicy) =>
+  middleware(async ({ ctx, next }) => {
+    const decision = await consumeRateLimit(ctx.db, policy, ctx.ipAddress);
+
+    if (decision && !decision.allowed) {
+      const error = new RateLimitExceededError(decision.retryAfterSeconds);
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: error.message,
+        cause: error,
+      });
+    }
+
+    return next();
+  });
+
+/**
+ * TOO_MANY_REQUESTS のエラーに、再試行できるまでの秒数を Retry-After ヘッダーとして付ける
+ * NOTE: バッチリクエストで複数のエラーがある場合は最も長い待ち時間を返す
+ */
+export const rateLimitResponseMeta = (opts: {
+  errors: TRPCError[];
+}): ResponseMeta => {
+  const retryAfterSeconds = Math.max(
+    0,
+    ...opts.errors.map((error) => getRetryAfterSeconds(error.cause) ?? 0),
+  );
+
+  return retryAfterSeconds > 0
+    ? { headers: { 'Retry-After': String(retryAfterSeconds) } }
+    : {};
+};
@@ -7,6 +7,7 @@ import type { Context } from './context';
 const t = initTRPC.context<Context>().create();
 
 export const router = t.router;
+export const middleware = t.middleware;
 export const publicProcedure = t.procedure;
 export const protectedProcedure = t.procedure.use(async (opts) => {
   const { ctx } = opts;
@@ -22,3 +23,23 @@ export const protectedProcedure = t.procedure.use(async (opts) => {
     },
   });
 });
+
+/**
+ * 管理者のユーザーID一覧（環境変数 ADMIN_USER_IDS にカンマ区切りで指定する）
+ */
+export const getAdminUserIds = (): ReadonlySet<number> =>
+  new Set(
+    (process.env.ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map((value) => Number(value.trim()))
+      .filter((userId) => Number.isInteger(userId) && userId > 0),
+  );
+
+// NOTE: 通貨や為替レートなど全ユーザー共通のマスタを変更する操作は管理者に限定する
+export const adminProcedure = protectedProcedure.use(async (opts) => {
+  if (!getAdminUserIds().has(opts.ctx.userId)) {
+    throw new TRPCError({ code: 'FORBIDDEN' });
+  }
+
+  return opts.next();
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import { Money } from '../values/money';
+import { Account, AccountDomainError } from './account.entity';
+
+describe('Account（口座）', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+  const updatedAt = new Date('2025-01-01T00:00:00Z');
+
+  const makeAccount = (openingBalance = 100000, currency = 'JPY'): Account =>
+    Account.reconstruct(
+      1,
+      100,
+      'メインバンク',
+      'BANK',
+      openingBalance,
+      currency,
+      createdAt,
+      updatedAt,
+    );
+
+  describe('正常系', () => {
+    it('reconstruct: 既存口座を再構築できる', () => {
+      const account = makeAccount();
+
+      expect(account.id).toBe(1);
+      expect(account.userId).toBe(100);
+      expect(account.name).toBe('メインバンク');
+      expect(account.type).toBe('BANK');
+      expect(account.openingBalance).toBe(100000);
+      expect(account.currency).toBe('JPY');
+      expect(account.createdAt).toBe(createdAt);
+      expect(account.updatedAt).toBe(updatedAt);
+    });
+
+    it('rename: 前後の空白を除いた口座名に変更できる', () => {
+      const account = makeAccount();
+
+      account.rename('  サブバンク  ');
+
+      expect(account.name).toBe('サブバンク');
+      expect(account.updatedAt.getTime()).toBeGreaterThan(updatedAt.getTime());
+    });
+
+    it('changeType/updateOpeningBalance: 種別と開始残高を変更できる（負の値も許容）', () => {
+      const account = makeAccount();
+
+      account.changeType('CREDIT_CARD');
+      account.updateOpeningBalance(-30000);
+
+      expect(account.type).toBe('CREDIT_CARD');
+      expect(account.openingBalance).toBe(-30000);
+    });
+
+    it('isOwnedBy: 所有者かどうかを判定できる', () => {
+      const account = makeAccount();
+
+      expect(account.isOwnedBy(100)).toBe(true);
+      expect(account.isOwnedBy(999)).toBe(false);
+    });
+
+    it('balanceAfter: 開始残高 + 収入 - 支出 で残高を算出できる', () => {
+      const account = makeAccount(100000);
+
+      expect(account.balanceAfter(Money.of(300000), Money.of(120000))).toBe(
+        280000,
+      );
+    });
+
+    it('balanceAfter: 支出が上回る場合は負の残高になる', () => {
+      const account = makeAccount(0);
+
+      expect(account.balanceAfter(Money.of(0), Money.of(5000))).toBe(-5000);
+    });
+  });
+
+  describe('異常系', () => {
+    it('rename: 空の口座名は例外になる', () => {
+      const account = makeAccount();
+
+      expect(() => account.rename('   ')).toThrow(AccountDomainError);
+    });
+
+    it('rename: 50文字を超える口座名は例外になる', () => {
+      const account = makeAccount();
+
+      expect(() => account.rename('あ'.repeat(51))).toThrow(AccountDomainError);
+    });
+
+    it('updateOpeningBalance: 整数以外は例外になる', () => {
+      const account = makeAccount();
+
+      expect(() => account.updateOpeningBalance(1.5)).toThrow(
+        AccountDomainError,
+      );
+    });
+
+    it('balanceAfter: 口座と異なる通貨の金額は例外になる', () => {
+      const account = makeAccount(0, 'USD');
+
+      expect(() =>
+        account.balanceAfter(
+          Money.ofWithCurrency(100, 'USD'),
+          Money.ofWithCurrency(100, 'JPY'),
+        ),
+      ).toThrow(AccountDomainError);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+// Domain Layer: Account Entity (集約ルート)
+// 口座（現金/銀行口座/クレジットカード）の属性管理と残高の算出を担当
+
+import { DomainError } from '../values/domain-error';
+import type { AccountId, UserId } from '../values/indentity';
+import { createId } from '../values/indentity';
+import type { Money } from '../values/money';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class AccountDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'AccountDomainError');
+  }
+}
+
+// =====================================
+// Account Entity (集約ルート)
+// =====================================
+
+export type AccountType = 'CASH' | 'BANK' | 'CREDIT_CARD';
+
+export class Account {
+  private static readonly NAME_MAX_LENGTH = 50 as const;
+
+  private constructor(
+    private readonly _id: AccountId,
+    private readonly _userId: UserId,
+    private _name: string,
+    private _type: AccountType,
+    private _openingBalance: number,
+    private readonly _currency: string,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 既存口座を再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    userIdValue: number,
+    name: string,
+    type: AccountType,
+    openingBalance: number,
+    currency: string,
+    createdAt: Date,
+    updatedAt: Date,
+  ): Account {
+    const id = createId<AccountId>(idValue, 'AccountId');
+    const userId = createId<UserId>(userIdValue, 'UserId');
+
+    return new Account(
+      id,
+      userId,
+      name,
+      type,
+      openingBalance,
+      currency,
+      createdAt,
+      updatedAt,
+    );
+  }
+
+  /**
+   * 口座名を検証し、前後の空白を除いた値を返す
+   * ビジネスルール: 口座名は必須で50文字以内
+   */
+  static normalizeName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.length === 0 || trimmed.length > Account.NAME_MAX_LENGTH) {
+      throw new AccountDomainError(
+        `口座名は1〜${Account.NAME_MAX_LENGTH}文字である必要があります`,
+      );
+    }
+    return trimmed;
+  }
+
+  /**
+   * 開始残高を検証する
+   * ビジネスルール: 開始残高は整数（クレジットカードの未払残高などは負の値）
+   */
+  static validateOpeningBalance(openingBalance: number): number {
+    if (!Number.isSafeInteger(openingBalance)) {
+      throw new AccountDomainError('開始残高は整数である必要があります');
+    }
+    return openingBalance;
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): AccountId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get type(): AccountType {
+    return this._type;
+  }
+
+  get openingBalance(): number {
+    return this._openingBalance;
+  }
+
+  get currency(): string {
+    return this._currency;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * 口座名を変更する
+   */
+  rename(newName: string): void {
+    this._name = Account.normalizeName(newName);
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 口座種別を変更する
+   */
+  changeType(newType: AccountType): void {
+    this._type = newType;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 開始残高を変更する
+   */
+  updateOpeningBalance(newOpeningBalance: number): void {
+    this._openingBalance = Account.validateOpeningBalance(newOpeningBalance);
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 特定のユーザーが所有する口座かチェック
+   */
+  isOwnedBy(userId: number): boolean {
+    return this._userId === userId;
+  }
+
+  /**
+   * 口座の通貨で記録された金額かチェック
+   */
+  acceptsCurrency(currency: string): boolean {
+    return this._currency === currency;
+  }
+
+  /**
+   * 開始残高 + 入金（収入/振替入金） - 出金（支出/振替出金） で残高を算出する（負の値になりうる）
+   * ビジネスルール: 入金/出金は口座の通貨で記録されている
+   */
+  balanceAfter(inflow: Money, outflow: Money): number {
+    if (
+      !this.acceptsCurrency(inflow.currency) ||
+      !this.acceptsCurrency(outflow.currency)
+    ) {
+      throw new AccountDomainError(
+        `口座の通貨（${this._currency}）と異なる通貨の金額は残高に含められません`,
+      );
+    }
+    return this._openingBalance + inflow.amount - outflow.amount;
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type AccountRecord = {
+  id: number;
+  userId: number;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateAccountData = {
+  userId: number;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  currency: string; // ISO 4217 通貨コード
+};
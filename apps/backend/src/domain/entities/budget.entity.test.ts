@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { Money } from '../values/money';
+import { Budget, BudgetDomainError } from './budget.entity';
+
+describe('Budget（予算）', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+  const updatedAt = new Date('2025-01-01T00:00:00Z');
+
+  const makeBudget = (amount = 50000): Budget =>
+    Budget.reconstruct(1, 100, 10, Money.of(amount), createdAt, updatedAt);
+
+  describe('正常系', () => {
+    it('reconstruct: 既存予算を再構築できる', () => {
+      const budget = makeBudget();
+
+      expect(budget.id).toBe(1);
+      expect(budget.userId).toBe(100);
+      expect(budget.categoryId).toBe(10);
+      expect(budget.amount.amount).toBe(50000);
+      expect(budget.createdAt).toBe(createdAt);
+      expect(budget.updatedAt).toBe(updatedAt);
+    });
+
+    it('updateAmount: 予算額を更新できる', () => {
+      const budget = makeBudget();
+
+      budget.updateAmount(Money.of(60000));
+
+      expect(budget.amount.amount).toBe(60000);
+      expect(budget.updatedAt.getTime()).toBeGreaterThan(updatedAt.getTime());
+    });
+
+    it('isOwnedBy: 所有者かどうかを判定できる', () => {
+      const budget = makeBudget();
+
+      expect(budget.isOwnedBy(100)).toBe(true);
+      expect(budget.isOwnedBy(999)).toBe(false);
+    });
+
+    it('予算内の場合は残額と消化率を算出できる', () => {
+      const budget = makeBudget(50000);
+      const spent = Money.of(12345);
+
+      expect(budget.remainingAfter(spent)).toBe(37655);
+      expect(budget.percentUsedBy(spent)).toBe(24);
+      expect(budget.isExceededBy(spent)).toBe(false);
+    });
+
+    it('予算ちょうどの場合は残額0・超過なしとなる', () => {
+      const budget = makeBudget(50000);
+      const spent = Money.of(50000);
+
+      expect(budget.remainingAfter(spent)).toBe(0);
+      expect(budget.percentUsedBy(spent)).toBe(100);
+      expect(budget.isExceededBy(spent)).toBe(false);
+    });
+
+    it('予算超過の場合は残額が負の値になり超過と判定される', () => {
+      const budget = makeBudget(50000);
+      const spent = Money.of(65000);
+
+      expect(budget.remainingAfter(spent)).toBe(-15000);
+      expect(budget.percentUsedBy(spent)).toBe(130);
+      expect(budget.isExceededBy(spent)).toBe(true);
+    });
+  });
+
+  describe('異常系', () => {
+    it('updateAmount: 0円への更新は例外になる', () => {
+      const budget = makeBudget();
+
+      expect(() => budget.updateAmount(Money.of(0))).toThrow(BudgetDomainError);
+    });
+  });
+});
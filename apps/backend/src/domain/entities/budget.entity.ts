@@ -0,0 +1,154 @@
+// Domain Layer: Budget Entity (集約ルート)
+// カテゴリごとの月次予算と消化状況の判定を担当
+
+import { DomainError } from '../values/domain-error';
+import type { BudgetId, CategoryId, UserId } from '../values/indentity';
+import { createId } from '../values/indentity';
+import type { Money } from '../values/money';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class BudgetDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'BudgetDomainError');
+  }
+}
+
+// =====================================
+// Budget Entity (集約ルート)
+// =====================================
+
+export class Budget {
+  private static readonly PERCENT_BASE = 100 as const;
+
+  private constructor(
+    private readonly _id: BudgetId,
+    private readonly _userId: UserId,
+    private readonly _categoryId: CategoryId,
+    private _amount: Money,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 既存予算を再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    userIdValue: number,
+    categoryIdValue: number,
+    amount: Money,
+    createdAt: Date,
+    updatedAt: Date,
+  ): Budget {
+    const id = createId<BudgetId>(idValue, 'BudgetId');
+    const userId = createId<UserId>(userIdValue, 'UserId');
+    const categoryId = createId<CategoryId>(categoryIdValue, 'CategoryId');
+
+    return new Budget(id, userId, categoryId, amount, createdAt, updatedAt);
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): BudgetId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get categoryId(): CategoryId {
+    return this._categoryId;
+  }
+
+  get amount(): Money {
+    return this._amount;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * 予算額を更新する
+   * ビジネスルール: 予算額は0より大きい
+   */
+  updateAmount(newAmount: Money): void {
+    if (newAmount.isZero()) {
+      throw new BudgetDomainError('予算額は0より大きい必要があります');
+    }
+
+    this._amount = newAmount;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 特定のユーザーが所有する予算かチェック
+   */
+  isOwnedBy(userId: number): boolean {
+    return this._userId === userId;
+  }
+
+  /**
+   * 支出額に対する残額を算出する（超過時は負の値）
+   */
+  remainingAfter(spent: Money): number {
+    return this.isExceededBy(spent)
+      ? -spent.subtract(this._amount).amount
+      : this._amount.subtract(spent).amount;
+  }
+
+  /**
+   * 支出額に対する消化率（%）を算出する（小数点以下切り捨て）
+   */
+  percentUsedBy(spent: Money): number {
+    return Math.floor(
+      (spent.amount * Budget.PERCENT_BASE) / this._amount.amount,
+    );
+  }
+
+  /**
+   * 支出額が予算を超過しているか判定
+   */
+  isExceededBy(spent: Money): boolean {
+    return spent.greaterThan(this._amount);
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type BudgetRecord = {
+  id: number;
+  userId: number;
+  categoryId: number;
+  categoryName: string;
+  amount: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateBudgetData = {
+  userId: number;
+  categoryId: number;
+  amount: number;
+};
@@ -0,0 +1,131 @@
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+
+import { CategoryName } from '../values/category-name';
+import { Category, CategoryDomainError } from './category.entity';
+import { TransactionType } from './transaction-type.entity';
+
+describe('Category（カテゴリ）', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+  const updatedAt = new Date('2025-01-01T00:00:00Z');
+
+  const expenseType = TransactionType.reconstruct(
+    2,
+    'EXPENSE',
+    '支出',
+    createdAt,
+    updatedAt,
+  );
+  const incomeType = TransactionType.reconstruct(
+    1,
+    'INCOME',
+    '収入',
+    createdAt,
+    updatedAt,
+  );
+
+  const toName = (value: string): CategoryName =>
+    Either.getOrThrow(CategoryName.create(value));
+
+  const makeCategory = (params: {
+    id: number;
+    name: string;
+    type?: TransactionType;
+    parentId?: number | null;
+  }): Category =>
+    Category.reconstruct(
+      params.id,
+      toName(params.name),
+      params.type ?? expenseType,
+      false,
+      100,
+      params.parentId ?? null,
+      createdAt,
+      updatedAt,
+    );
+
+  describe('正常系', () => {
+    it('reconstruct: 親カテゴリ付きで再構築できる', () => {
+      const category = makeCategory({ id: 11, name: '外食', parentId: 10 });
+
+      expect(category.id).toBe(11);
+      expect(category.parentId).toBe(10);
+      expect(category.isRootCategory()).toBe(false);
+    });
+
+    it('changeParent: 同じ取引種別の最上位カテゴリを親にできる', () => {
+      const parent = makeCategory({ id: 10, name: '食費' });
+      const category = makeCategory({ id: 11, name: '外食' });
+
+      category.changeParent(parent, false);
+
+      expect(category.parentId).toBe(10);
+      expect(category.updatedAt.getTime()).toBeGreaterThan(updatedAt.getTime());
+    });
+
+    it('changeParent: null を指定すると最上位に戻る', () => {
+      const category = makeCategory({ id: 11, name: '外食', parentId: 10 });
+
+      category.changeParent(null, false);
+
+      expect(category.parentId).toBeNull();
+      expect(category.isRootCategory()).toBe(true);
+    });
+  });
+
+  describe('異常系', () => {
+    it('changeParent: 自分自身は親にできない', () => {
+      const category = makeCategory({ id: 10, name: '食費' });
+
+      expect(() => category.changeParent(category, false)).toThrow(
+        CategoryDomainError,
+      );
+    });
+
+    it('changeParent: 自分のサブカテゴリは親にできない（循環の禁止）', () => {
+      const category = makeCategory({ id: 10, name: '食費' });
+      const child = makeCategory({ id: 11, name: '外食', parentId: 10 });
+
+      expect(() => category.changeParent(child, true)).toThrow(
+        '自分自身やサブカテゴリを親カテゴリにはできません',
+      );
+    });
+
+    it('changeParent: サブカテゴリを親にできない（階層は2段まで）', () => {
+      const parent = makeCategory({ id: 11, name: '外食', parentId: 10 });
+      const category = makeCategory({ id: 12, name: 'ランチ' });
+
+      expect(() => category.changeParent(parent, false)).toThrow(
+        'カテゴリの階層は2段までです',
+      );
+    });
+
+    it('changeParent: サブカテゴリを持つカテゴリは子にできない（階層は2段まで）', () => {
+      const parent = makeCategory({ id: 10, name: '食費' });
+      const category = makeCategory({ id: 20, name: '日用品' });
+
+      expect(() => category.changeParent(parent, true)).toThrow(
+        'カテゴリの階層は2段までです',
+      );
+    });
+
+    it('changeParent: 収入と支出のカテゴリを親子にできない', () => {
+      const parent = makeCategory({ id: 10, name: '給与', type: incomeType });
+      const category = makeCategory({ id: 11, name: '外食' });
+
+      expect(() => category.changeParent(parent, false)).toThrow(
+        '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+      );
+    });
+
+    it('changeParent: 親カテゴリと同じ名前のカテゴリは子にできない', () => {
+      const parent = makeCategory({ id: 10, name: '食費' });
+      const category = makeCategory({ id: 11, name: '食費' });
+
+      expect(() => category.changeParent(parent, false)).toThrow(
+        'サブカテゴリ名は親カテゴリと同じ名前にできません',
+      );
+      expect(category.parentId).toBeNull();
+    });
+  });
+});
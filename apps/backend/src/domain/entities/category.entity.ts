@@ -1,6 +1,7 @@
 // Domain Layer: Category Entity (集約ルート)
 // ビジネスルールとライフサイクル管理を担当
 
+import { Either } from 'effect';
 import type { CategoryName } from '../values/category-name';
 import { DomainError } from '../values/domain-error';
 import type { CategoryId, UserId } from '../values/indentity';
@@ -28,6 +29,7 @@ export class Category {
     private readonly _type: TransactionType,
     private readonly _isDefault: boolean,
     private readonly _userId: UserId | null,
+    private _parentId: CategoryId | null,
     private readonly _createdAt: Date,
     private _updatedAt: Date,
   ) {}
@@ -50,7 +52,7 @@ export class Category {
     const uid =
       userIdValue !== null ? createId<UserId>(userIdValue, 'UserId') : null;
     const now = new Date();
-    return new Category(id, name, type, isDefault, uid, now, now);
+    return new Category(id, name, type, isDefault, uid, null, now, now);
   }
 
   /**
@@ -62,13 +64,27 @@ export class Category {
     type: TransactionType,
     isDefault: boolean,
     userIdValue: number | null,
+    parentIdValue: number | null,
     createdAt: Date,
     updatedAt: Date,
   ): Category {
     const id = createId<CategoryId>(idValue, 'CategoryId');
     const uid =
       userIdValue !== null ? createId<UserId>(userIdValue, 'UserId') : null;
-    return new Category(id, name, type, isDefault, uid, createdAt, updatedAt);
+    const parentId =
+      parentIdValue !== null
+        ? createId<CategoryId>(parentIdValue, 'CategoryId')
+        : null;
+    return new Category(
+      id,
+      name,
+      type,
+      isDefault,
+      uid,
+      parentId,
+      createdAt,
+      updatedAt,
+    );
   }
 
   // =====================================
@@ -95,6 +111,10 @@ export class Category {
     return this._userId;
   }
 
+  get parentId(): CategoryId | null {
+    return this._parentId;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -119,6 +139,45 @@ export class Category {
     this._updatedAt = new Date();
   }
 
+  /**
+   * 親カテゴリを変更する（null の場合は最上位に戻す）
+   * ビジネスルール:
+   * - 自分自身や自分の子カテゴリは親にできない（循環の禁止）
+   * - 階層は2段まで（親にできるのは最上位のカテゴリのみ、子を持つカテゴリは子になれない）
+   * - 親子で取引種別（収入/支出）を混在させない
+   * - サブカテゴリは親カテゴリと同じ名前にできない
+   */
+  changeParent(parent: Category | null, hasChildren: boolean): void {
+    if (parent !== null) {
+      if (parent.id === this._id || parent.parentId === this._id) {
+        throw new CategoryDomainError(
+          '自分自身やサブカテゴリを親カテゴリにはできません',
+        );
+      }
+      if (parent.parentId !== null || hasChildren) {
+        throw new CategoryDomainError('カテゴリの階層は2段までです');
+      }
+      if (!parent.type.hasSameCode(this._type.code)) {
+        throw new CategoryDomainError(
+          '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+        );
+      }
+      const nameValidation = this._name.validateAsChildOf(parent.name);
+      if (Either.isLeft(nameValidation)) {
+        throw new CategoryDomainError(nameValidation.left.message);
+      }
+    }
+    this._parentId = parent?.id ?? null;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 最上位のカテゴリか判定
+   */
+  isRootCategory(): boolean {
+    return this._parentId === null;
+  }
+
   /**
    * カテゴリが削除可能かチェック
    * ビジネスルール: デフォルトカテゴリは削除不可
@@ -177,19 +236,26 @@ export class Category {
 export type CategoryRecord = {
   id: number;
   name: string;
-  type: 'INCOME' | 'EXPENSE';
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   isDefault: boolean;
+  parentId: number | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
 export type UserCategoryRecord = CategoryRecord & {
+  ownerId: number | null; // カテゴリを作成したユーザー（共通カテゴリは null）
   isVisible: boolean;
   customName: string | null;
   displayOrder: number;
 };
 
+export type UserCategoryTreeRecord = UserCategoryRecord & {
+  children?: UserCategoryRecord[];
+};
+
 export type CreateCategoryData = {
   name: string;
   typeId: number;
+  parentId?: number;
 };
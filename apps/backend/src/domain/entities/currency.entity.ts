@@ -0,0 +1,152 @@
+// Domain Layer: Currency Entity
+// 通貨マスタの有効/無効の切り替えと利用可否の判定を担当
+
+import { DomainError } from '../values/domain-error';
+import type { CurrencyId } from '../values/indentity';
+import { createId } from '../values/indentity';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class CurrencyDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'CurrencyDomainError');
+  }
+}
+
+// =====================================
+// Currency Entity
+// =====================================
+
+export class Currency {
+  // NOTE: 既存の取引/予算はこの通貨を前提としているため無効化させない
+  static readonly DEFAULT_CODE = 'JPY' as const;
+
+  private constructor(
+    private readonly _id: CurrencyId,
+    private readonly _code: string,
+    private readonly _name: string,
+    private readonly _symbol: string,
+    private readonly _exponent: number,
+    private _isActive: boolean,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 既存通貨を再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    code: string,
+    name: string,
+    symbol: string,
+    exponent: number,
+    isActive: boolean,
+    createdAt: Date,
+    updatedAt: Date,
+  ): Currency {
+    const id = createId<CurrencyId>(idValue, 'CurrencyId');
+
+    return new Currency(
+      id,
+      code,
+      name,
+      symbol,
+      exponent,
+      isActive,
+      createdAt,
+      updatedAt,
+    );
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): CurrencyId {
+    return this._id;
+  }
+
+  get code(): string {
+    return this._code;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get symbol(): string {
+    return this._symbol;
+  }
+
+  get exponent(): number {
+    return this._exponent;
+  }
+
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * 通貨を有効化する
+   */
+  activate(): void {
+    this._isActive = true;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 通貨を無効化する
+   * ビジネスルール: 既定の通貨（JPY）は無効化できない
+   */
+  deactivate(): void {
+    if (this.isDefault()) {
+      throw new CurrencyDomainError(
+        `既定の通貨（${Currency.DEFAULT_CODE}）は無効化できません`,
+      );
+    }
+
+    this._isActive = false;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 既定の通貨かチェック
+   */
+  isDefault(): boolean {
+    return this._code === Currency.DEFAULT_CODE;
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type CurrencyRecord = {
+  id: number;
+  code: string;
+  name: string;
+  symbol: string;
+  exponent: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import { Money } from '../values/money';
+import { TransactionDate } from '../values/transaction-date';
+import {
+  type RecurringFrequency,
+  RecurringTransaction,
+  RecurringTransactionDomainError,
+} from './recurring-transaction.entity';
+
+describe('RecurringTransaction（繰り返し取引）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeRule = (params: {
+    frequency: RecurringFrequency;
+    interval?: number;
+    startDate: string;
+    endDate?: string;
+  }): RecurringTransaction =>
+    RecurringTransaction.reconstruct(
+      1,
+      100,
+      params.frequency,
+      params.interval ?? 1,
+      TransactionDate.fromString(params.startDate),
+      params.endDate === undefined
+        ? null
+        : TransactionDate.fromString(params.endDate),
+      {
+        type: 'EXPENSE',
+        title: '家賃',
+        amount: Money.of(80000),
+        categoryId: 10,
+        memo: '',
+      },
+      fixedNow,
+      fixedNow,
+    );
+
+  const formatAll = (dates: TransactionDate[]): string[] =>
+    dates.map((date) => date.format());
+
+  describe('正常系', () => {
+    it('occurrencesUntil: 毎月25日の発生日を列挙できる', () => {
+      const rule = makeRule({ frequency: 'MONTHLY', startDate: '2025-01-25' });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2025, 4, 24))),
+      ).toEqual(['2025-01-25', '2025-02-25', '2025-03-25']);
+    });
+
+    it('occurrencesUntil: 31日起算の月次は月末に丸め、翌月以降は31日に戻る', () => {
+      const rule = makeRule({ frequency: 'MONTHLY', startDate: '2025-01-31' });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2025, 5, 31))),
+      ).toEqual([
+        '2025-01-31',
+        '2025-02-28',
+        '2025-03-31',
+        '2025-04-30',
+        '2025-05-31',
+      ]);
+    });
+
+    it('occurrencesUntil: 2週間ごとの発生日を列挙できる', () => {
+      const rule = makeRule({
+        frequency: 'WEEKLY',
+        interval: 2,
+        startDate: '2025-01-06',
+      });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2025, 2, 10))),
+      ).toEqual(['2025-01-06', '2025-01-20', '2025-02-03']);
+    });
+
+    it('occurrencesUntil: 毎日の発生日を列挙できる', () => {
+      const rule = makeRule({ frequency: 'DAILY', startDate: '2025-02-27' });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2025, 3, 2))),
+      ).toEqual(['2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02']);
+    });
+
+    it('occurrencesUntil: うるう日起算の年次は平年では2/28になる', () => {
+      const rule = makeRule({ frequency: 'YEARLY', startDate: '2024-02-29' });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2028, 3, 1))),
+      ).toEqual([
+        '2024-02-29',
+        '2025-02-28',
+        '2026-02-28',
+        '2027-02-28',
+        '2028-02-29',
+      ]);
+    });
+
+    it('occurrencesUntil: 終了日以降の発生日は含まない', () => {
+      const rule = makeRule({
+        frequency: 'MONTHLY',
+        startDate: '2025-01-10',
+        endDate: '2025-03-09',
+      });
+
+      expect(
+        formatAll(rule.occurrencesUntil(TransactionDate.of(2025, 12, 31))),
+      ).toEqual(['2025-01-10', '2025-02-10']);
+    });
+
+    it('occurrencesUntil: 開始前の場合は空になる', () => {
+      const rule = makeRule({ frequency: 'MONTHLY', startDate: '2025-06-01' });
+
+      expect(rule.occurrencesUntil(TransactionDate.of(2025, 5, 31))).toEqual(
+        [],
+      );
+    });
+
+    it('isOwnedBy: 所有者かどうかを判定できる', () => {
+      const rule = makeRule({ frequency: 'MONTHLY', startDate: '2025-01-25' });
+
+      expect(rule.isOwnedBy(100)).toBe(true);
+      expect(rule.isOwnedBy(999)).toBe(false);
+    });
+  });
+
+  describe('異常系', () => {
+    it('validateSchedule: interval が1未満の場合は例外になる', () => {
+      expect(() =>
+        RecurringTransaction.validateSchedule(
+          0,
+          TransactionDate.of(2025, 1, 1),
+          null,
+        ),
+      ).toThrow(RecurringTransactionDomainError);
+    });
+
+    it('validateSchedule: 終了日が開始日より前の場合は例外になる', () => {
+      expect(() =>
+        RecurringTransaction.validateSchedule(
+          1,
+          TransactionDate.of(2025, 2, 1),
+          TransactionDate.of(2025, 1, 31),
+        ),
+      ).toThrow(RecurringTransactionDomainError);
+    });
+  });
+});
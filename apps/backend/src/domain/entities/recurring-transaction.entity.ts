@@ -0,0 +1,258 @@
+// Domain Layer: RecurringTransaction Entity (集約ルート)
+// 繰り返し取引のルール（テンプレート + 繰り返し条件）と発生日の算出を担当
+
+import { DomainError } from '../values/domain-error';
+import type { RecurringTransactionId, UserId } from '../values/indentity';
+import { createId } from '../values/indentity';
+import type { Money } from '../values/money';
+import type { TransactionDate } from '../values/transaction-date';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class RecurringTransactionDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'RecurringTransactionDomainError');
+  }
+}
+
+// =====================================
+// 型定義
+// =====================================
+
+export type RecurringFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurringTransactionTemplate = {
+  type: 'INCOME' | 'EXPENSE';
+  title: string;
+  amount: Money;
+  categoryId: number;
+  memo: string;
+};
+
+const INTERVAL_MIN = 1 as const;
+const FIRST_OCCURRENCE_INDEX = 1 as const;
+const DAYS_PER_WEEK = 7 as const;
+const MONTHS_PER_YEAR = 12 as const;
+
+// 開始日から指定ステップ数（= 回数 × interval）進めた発生日を求める
+const ADVANCERS: Record<
+  RecurringFrequency,
+  (start: TransactionDate, steps: number) => TransactionDate
+> = {
+  DAILY: (start, steps) => start.addDays(steps),
+  WEEKLY: (start, steps) => start.addDays(steps * DAYS_PER_WEEK),
+  MONTHLY: (start, steps) => start.addMonths(steps),
+  YEARLY: (start, steps) => start.addYears(steps),
+};
+
+// 開始日から上限日までに発生しうる回数（開始日を除く）の上限を求める
+const STEP_COUNTERS: Record<
+  RecurringFrequency,
+  (start: TransactionDate, limit: TransactionDate, interval: number) => number
+> = {
+  DAILY: (start, limit, interval) =>
+    Math.floor(start.daysUntil(limit) / interval),
+  WEEKLY: (start, limit, interval) =>
+    Math.floor(start.daysUntil(limit) / (interval * DAYS_PER_WEEK)),
+  MONTHLY: (start, limit, interval) =>
+    Math.floor(start.monthsUntil(limit) / interval),
+  YEARLY: (start, limit, interval) =>
+    Math.floor(start.monthsUntil(limit) / (interval * MONTHS_PER_YEAR)),
+};
+
+// =====================================
+// RecurringTransaction Entity (集約ルート)
+// =====================================
+
+export class RecurringTransaction {
+  private constructor(
+    private readonly _id: RecurringTransactionId,
+    private readonly _userId: UserId,
+    private readonly _frequency: RecurringFrequency,
+    private readonly _interval: number,
+    private readonly _startDate: TransactionDate,
+    private readonly _endDate: TransactionDate | null,
+    private readonly _template: RecurringTransactionTemplate,
+    private readonly _createdAt: Date,
+    private readonly _updatedAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 繰り返し条件を検証する（新規登録時に使用）
+   * ビジネスルール:
+   * - interval は1以上の整数
+   * - 終了日は開始日以降
+   */
+  static validateSchedule(
+    interval: number,
+    startDate: TransactionDate,
+    endDate: TransactionDate | null,
+  ): void {
+    if (!Number.isInteger(interval) || interval < INTERVAL_MIN) {
+      throw new RecurringTransactionDomainError(
+        `interval は${INTERVAL_MIN}以上の整数である必要があります`,
+      );
+    }
+    RecurringTransaction.validatePeriod(startDate, endDate);
+  }
+
+  private static validatePeriod(
+    startDate: TransactionDate,
+    endDate: TransactionDate | null,
+  ): void {
+    if (endDate?.isBefore(startDate)) {
+      throw new RecurringTransactionDomainError(
+        '終了日は開始日以降である必要があります',
+      );
+    }
+  }
+
+  /**
+   * 既存ルールを再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    userIdValue: number,
+    frequency: RecurringFrequency,
+    interval: number,
+    startDate: TransactionDate,
+    endDate: TransactionDate | null,
+    template: RecurringTransactionTemplate,
+    createdAt: Date,
+    updatedAt: Date,
+  ): RecurringTransaction {
+    const id = createId<RecurringTransactionId>(
+      idValue,
+      'RecurringTransactionId',
+    );
+    const userId = createId<UserId>(userIdValue, 'UserId');
+
+    return new RecurringTransaction(
+      id,
+      userId,
+      frequency,
+      interval,
+      startDate,
+      endDate,
+      template,
+      createdAt,
+      updatedAt,
+    );
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): RecurringTransactionId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get frequency(): RecurringFrequency {
+    return this._frequency;
+  }
+
+  get interval(): number {
+    return this._interval;
+  }
+
+  get startDate(): TransactionDate {
+    return this._startDate;
+  }
+
+  get endDate(): TransactionDate | null {
+    return this._endDate;
+  }
+
+  get template(): RecurringTransactionTemplate {
+    return this._template;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * 指定日までの発生日を開始日から順に列挙する
+   * ビジネスルール:
+   * - 終了日がある場合は終了日までに限定する
+   * - 月次/年次で該当日が存在しない月は月末に丸める（例: 31日 → 2月は28日/29日）
+   */
+  occurrencesUntil(until: TransactionDate): TransactionDate[] {
+    const limit =
+      this._endDate === null || !this._endDate.isBefore(until)
+        ? until
+        : this._endDate;
+
+    if (limit.isBefore(this._startDate)) {
+      return [];
+    }
+
+    const count =
+      STEP_COUNTERS[this._frequency](this._startDate, limit, this._interval) +
+      FIRST_OCCURRENCE_INDEX;
+
+    return Array.from({ length: count }, (_, index) =>
+      ADVANCERS[this._frequency](this._startDate, index * this._interval),
+    ).filter((date) => !date.isAfter(limit));
+  }
+
+  /**
+   * 特定のユーザーが所有するルールかチェック
+   */
+  isOwnedBy(userId: number): boolean {
+    return this._userId === userId;
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type RecurringTransactionRecord = {
+  id: number;
+  userId: number;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD
+  type: 'INCOME' | 'EXPENSE';
+  title: string;
+  amount: number;
+  currency: string;
+  categoryId: number;
+  memo: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateRecurringTransactionData = {
+  userId: number;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD
+  type: 'INCOME' | 'EXPENSE';
+  title: string;
+  amount: number;
+  categoryId: number;
+  memo: string;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { Tag, TagDomainError } from './tag.entity';
+
+describe('Tag（タグ）', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+  const updatedAt = new Date('2025-01-01T00:00:00Z');
+
+  const makeTag = (): Tag =>
+    Tag.reconstruct(1, 100, '沖縄旅行2026', createdAt, updatedAt);
+
+  describe('正常系', () => {
+    it('reconstruct: 既存タグを再構築できる', () => {
+      const tag = makeTag();
+
+      expect(tag.id).toBe(1);
+      expect(tag.userId).toBe(100);
+      expect(tag.name).toBe('沖縄旅行2026');
+      expect(tag.createdAt).toBe(createdAt);
+      expect(tag.updatedAt).toBe(updatedAt);
+    });
+
+    it('rename: 前後の空白を除いたタグ名に変更できる', () => {
+      const tag = makeTag();
+
+      tag.rename('  立替精算  ');
+
+      expect(tag.name).toBe('立替精算');
+      expect(tag.updatedAt.getTime()).toBeGreaterThan(updatedAt.getTime());
+    });
+
+    it('isOwnedBy: 所有者かどうかを判定できる', () => {
+      const tag = makeTag();
+
+      expect(tag.isOwnedBy(100)).toBe(true);
+      expect(tag.isOwnedBy(999)).toBe(false);
+    });
+  });
+
+  describe('異常系', () => {
+    it('rename: 空のタグ名は例外になる', () => {
+      const tag = makeTag();
+
+      expect(() => tag.rename('   ')).toThrow(TagDomainError);
+    });
+
+    it('rename: 30文字を超えるタグ名は例外になる', () => {
+      const tag = makeTag();
+
+      expect(() => tag.rename('あ'.repeat(31))).toThrow(TagDomainError);
+    });
+  });
+});
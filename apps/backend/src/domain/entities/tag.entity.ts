@@ -0,0 +1,126 @@
+// Domain Layer: Tag Entity (集約ルート)
+// 取引に付ける自由なラベル（カテゴリとは独立して、旅行や立替精算などの横断的な分類に使う）
+
+import { DomainError } from '../values/domain-error';
+import type { TagId, UserId } from '../values/indentity';
+import { createId } from '../values/indentity';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class TagDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'TagDomainError');
+  }
+}
+
+// =====================================
+// Tag Entity (集約ルート)
+// =====================================
+
+export class Tag {
+  private static readonly NAME_MAX_LENGTH = 30 as const;
+
+  private constructor(
+    private readonly _id: TagId,
+    private readonly _userId: UserId,
+    private _name: string,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 既存タグを再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    userIdValue: number,
+    name: string,
+    createdAt: Date,
+    updatedAt: Date,
+  ): Tag {
+    const id = createId<TagId>(idValue, 'TagId');
+    const userId = createId<UserId>(userIdValue, 'UserId');
+
+    return new Tag(id, userId, name, createdAt, updatedAt);
+  }
+
+  /**
+   * タグ名を検証し、前後の空白を除いた値を返す
+   * ビジネスルール: タグ名は必須で30文字以内
+   */
+  static normalizeName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.length === 0 || trimmed.length > Tag.NAME_MAX_LENGTH) {
+      throw new TagDomainError(
+        `タグ名は1〜${Tag.NAME_MAX_LENGTH}文字である必要があります`,
+      );
+    }
+    return trimmed;
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): TagId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * タグ名を変更する
+   */
+  rename(newName: string): void {
+    this._name = Tag.normalizeName(newName);
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * 特定のユーザーが所有するタグかチェック
+   */
+  isOwnedBy(userId: number): boolean {
+    return this._userId === userId;
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type TagRecord = {
+  id: number;
+  userId: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CreateTagData = {
+  userId: number;
+  name: string;
+};
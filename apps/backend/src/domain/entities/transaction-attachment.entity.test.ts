@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  TransactionAttachment,
+  TransactionAttachmentDomainError,
+} from './transaction-attachment.entity';
+
+describe('TransactionAttachment（取引の添付ファイル）', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+
+  const makeAttachment = (): TransactionAttachment =>
+    TransactionAttachment.reconstruct(
+      1,
+      10,
+      100,
+      'receipt.jpg',
+      'image/jpeg',
+      2048,
+      'transactions/10/abc',
+      createdAt,
+    );
+
+  describe('正常系', () => {
+    it('reconstruct: 既存の添付ファイルを再構築できる', () => {
+      const attachment = makeAttachment();
+
+      expect(attachment.id).toBe(1);
+      expect(attachment.transactionId).toBe(10);
+      expect(attachment.userId).toBe(100);
+      expect(attachment.fileName).toBe('receipt.jpg');
+      expect(attachment.contentType).toBe('image/jpeg');
+      expect(attachment.size).toBe(2048);
+      expect(attachment.storageKey).toBe('transactions/10/abc');
+      expect(attachment.createdAt).toBe(createdAt);
+    });
+
+    it('normalizeFileName: ディレクトリ部分と前後の空白を除いたファイル名を返す', () => {
+      expect(TransactionAttachment.normalizeFileName('  レシート.png ')).toBe(
+        'レシート.png',
+      );
+      expect(
+        TransactionAttachment.normalizeFileName('C:\\Users\\me\\receipt.jpg'),
+      ).toBe('receipt.jpg');
+      expect(TransactionAttachment.normalizeFileName('../../receipt.jpg')).toBe(
+        'receipt.jpg',
+      );
+    });
+
+    it('validateContentType/validateSize: 画像かつ上限以内のファイルを受け付ける', () => {
+      expect(TransactionAttachment.validateContentType('image/heic')).toBe(
+        'image/heic',
+      );
+      expect(
+        TransactionAttachment.validateSize(
+          TransactionAttachment.MAX_SIZE_BYTES,
+        ),
+      ).toBe(TransactionAttachment.MAX_SIZE_BYTES);
+    });
+
+    it('storageKeyFor: 取引IDごとの保存先キーを組み立てる', () => {
+      expect(TransactionAttachment.storageKeyFor(10, 'abc')).toBe(
+        'transactions/10/abc',
+      );
+    });
+
+    it('belongsTo: 指定した取引の添付ファイルかどうかを判定できる', () => {
+      const attachment = makeAttachment();
+
+      expect(attachment.belongsTo(10)).toBe(true);
+      expect(attachment.belongsTo(11)).toBe(false);
+    });
+  });
+
+  describe('異常系', () => {
+    it('normalizeFileName: 空のファイル名は例外になる', () => {
+      expect(() => TransactionAttachment.normalizeFileName('dir/  ')).toThrow(
+        TransactionAttachmentDomainError,
+      );
+    });
+
+    it('validateContentType: 画像以外のファイル形式は例外になる', () => {
+      expect(() =>
+        TransactionAttachment.validateContentType('application/pdf'),
+      ).toThrow(TransactionAttachmentDomainError);
+    });
+
+    it('validateSize: 空のファイルや上限を超えるファイルは例外になる', () => {
+      expect(() => TransactionAttachment.validateSize(0)).toThrow(
+        TransactionAttachmentDomainError,
+      );
+      expect(() =>
+        TransactionAttachment.validateSize(
+          TransactionAttachment.MAX_SIZE_BYTES + 1,
+        ),
+      ).toThrow(TransactionAttachmentDomainError);
+    });
+  });
+});
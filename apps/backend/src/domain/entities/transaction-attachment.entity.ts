@@ -0,0 +1,224 @@
+// Domain Layer: Transaction Attachment Entity
+// 取引の添付ファイル（レシート画像など）のメタデータ管理とファイルの検証を担当
+
+import { DomainError } from '../values/domain-error';
+import type {
+  TransactionAttachmentId,
+  TransactionId,
+  UserId,
+} from '../values/indentity';
+import { createId } from '../values/indentity';
+
+// =====================================
+// エンティティエラー
+// =====================================
+
+export class TransactionAttachmentDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'TransactionAttachmentDomainError');
+  }
+}
+
+// =====================================
+// Transaction Attachment Entity
+// =====================================
+
+// NOTE: レシートの画像を想定する（HEICはiPhoneのカメラの既定形式）
+export type TransactionAttachmentContentType =
+  | 'image/jpeg'
+  | 'image/png'
+  | 'image/webp'
+  | 'image/heic';
+
+export class TransactionAttachment {
+  static readonly CONTENT_TYPES: readonly TransactionAttachmentContentType[] = [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic',
+  ];
+  static readonly MAX_SIZE_BYTES = 10 * 1024 * 1024;
+  private static readonly FILE_NAME_MAX_LENGTH = 255 as const;
+  private static readonly STORAGE_KEY_PREFIX = 'transactions' as const;
+
+  private constructor(
+    private readonly _id: TransactionAttachmentId,
+    private readonly _transactionId: TransactionId,
+    private readonly _userId: UserId,
+    private readonly _fileName: string,
+    private readonly _contentType: TransactionAttachmentContentType,
+    private readonly _size: number,
+    private readonly _storageKey: string,
+    private readonly _createdAt: Date,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 既存の添付ファイルを再構築(永続化層から復元する際に使用)
+   */
+  static reconstruct(
+    idValue: number,
+    transactionIdValue: number,
+    userIdValue: number,
+    fileName: string,
+    contentType: TransactionAttachmentContentType,
+    size: number,
+    storageKey: string,
+    createdAt: Date,
+  ): TransactionAttachment {
+    const id = createId<TransactionAttachmentId>(
+      idValue,
+      'TransactionAttachmentId',
+    );
+    const transactionId = createId<TransactionId>(
+      transactionIdValue,
+      'TransactionId',
+    );
+    const userId = createId<UserId>(userIdValue, 'UserId');
+
+    return new TransactionAttachment(
+      id,
+      transactionId,
+      userId,
+      fileName,
+      contentType,
+      size,
+      storageKey,
+      createdAt,
+    );
+  }
+
+  /**
+   * ファイル名を検証し、ディレクトリ部分と前後の空白を除いた値を返す
+   * ビジネスルール: ファイル名は必須で255文字以内
+   */
+  static normalizeFileName(fileName: string): string {
+    const baseName = fileName.split(/[\\/]/).pop()?.trim() ?? '';
+    if (
+      baseName.length === 0 ||
+      baseName.length > TransactionAttachment.FILE_NAME_MAX_LENGTH
+    ) {
+      throw new TransactionAttachmentDomainError(
+        `ファイル名は1〜${TransactionAttachment.FILE_NAME_MAX_LENGTH}文字である必要があります`,
+      );
+    }
+    return baseName;
+  }
+
+  /**
+   * ファイル形式を検証する
+   * ビジネスルール: 添付できるのは画像（JPEG/PNG/WebP/HEIC）のみ
+   */
+  static validateContentType(
+    contentType: string,
+  ): TransactionAttachmentContentType {
+    const matched = TransactionAttachment.CONTENT_TYPES.find(
+      (allowed) => allowed === contentType,
+    );
+    if (matched === undefined) {
+      throw new TransactionAttachmentDomainError(
+        `添付できないファイル形式です: ${contentType}`,
+      );
+    }
+    return matched;
+  }
+
+  /**
+   * ファイルサイズを検証する
+   * ビジネスルール: 空のファイルは添付できず、10MBを超えるファイルも添付できない
+   */
+  static validateSize(size: number): number {
+    if (
+      !Number.isInteger(size) ||
+      size <= 0 ||
+      size > TransactionAttachment.MAX_SIZE_BYTES
+    ) {
+      throw new TransactionAttachmentDomainError(
+        `ファイルサイズは1〜${TransactionAttachment.MAX_SIZE_BYTES}バイトである必要があります`,
+      );
+    }
+    return size;
+  }
+
+  /**
+   * オブジェクトストレージ上の保存先キーを組み立てる
+   * NOTE: 元のファイル名はキーに含めない（同名ファイルの上書きや不正な文字を避けるため）
+   */
+  static storageKeyFor(transactionId: number, objectId: string): string {
+    return `${TransactionAttachment.STORAGE_KEY_PREFIX}/${transactionId}/${objectId}`;
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get id(): TransactionAttachmentId {
+    return this._id;
+  }
+
+  get transactionId(): TransactionId {
+    return this._transactionId;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get fileName(): string {
+    return this._fileName;
+  }
+
+  get contentType(): TransactionAttachmentContentType {
+    return this._contentType;
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get storageKey(): string {
+    return this._storageKey;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  // =====================================
+  // ビジネスロジック
+  // =====================================
+
+  /**
+   * 指定した取引の添付ファイルかチェック
+   */
+  belongsTo(transactionId: number): boolean {
+    return this._transactionId === transactionId;
+  }
+}
+
+// =====================================
+// 永続化/ユースケース向けのDTO型
+// =====================================
+
+export type TransactionAttachmentRecord = {
+  id: number;
+  transactionId: number;
+  userId: number;
+  fileName: string;
+  contentType: TransactionAttachmentContentType;
+  size: number;
+  storageKey: string;
+  createdAt: Date;
+};
+
+export type CreateTransactionAttachmentData = {
+  transactionId: number;
+  userId: number;
+  fileName: string;
+  contentType: TransactionAttachmentContentType;
+  size: number;
+  storageKey: string;
+};
@@ -1,5 +1,5 @@
 // Domain Layer: TransactionType Entity
-// 取引タイプ(収入/支出)のマスターデータを表現
+// 取引タイプ(収入/支出/振替)のマスターデータを表現
 
 import { DomainError } from '../values/domain-error';
 import type { TransactionTypeId } from '../values/indentity';
@@ -22,6 +22,7 @@ export class TransactionTypeDomainError extends DomainError {
 export class TransactionType {
   private static readonly INCOME_CODE = 'INCOME' as const;
   private static readonly EXPENSE_CODE = 'EXPENSE' as const;
+  private static readonly TRANSFER_CODE = 'TRANSFER' as const;
 
   private constructor(
     private readonly _id: TransactionTypeId,
@@ -91,6 +92,13 @@ export class TransactionType {
     return this._code === TransactionType.EXPENSE_CODE;
   }
 
+  /**
+   * 振替タイプかどうかを判定
+   */
+  isTransfer(): boolean {
+    return this._code === TransactionType.TRANSFER_CODE;
+  }
+
   /**
    * 同一性チェック
    */
@@ -2,7 +2,11 @@ import { describe, expect, it } from 'vitest';
 
 import { Money } from '../values/money';
 import { TransactionDate } from '../values/transaction-date';
-import { Transaction, TransactionDomainError } from './transaction.entity';
+import {
+  Transaction,
+  TransactionDomainError,
+  TransactionSplitDomainError,
+} from './transaction.entity';
 
 describe('Transaction（取引）', () => {
   describe('正常系', () => {
@@ -53,6 +57,24 @@ describe('Transaction（取引）', () => {
       expect(transaction.isExpense()).toBe(false);
     });
 
+    it('create: 振替取引を生成できる（収入/支出のいずれにも該当しない）', () => {
+      const transaction = Transaction.create(
+        1,
+        100,
+        'TRANSFER',
+        '口座から引き出し',
+        Money.of(20000),
+        TransactionDate.of(2025, 1, 20),
+        30,
+        '',
+      );
+
+      expect(transaction.type).toBe('TRANSFER');
+      expect(transaction.isTransfer()).toBe(true);
+      expect(transaction.isIncome()).toBe(false);
+      expect(transaction.isExpense()).toBe(false);
+    });
+
     it('reconstruct: 既存取引を再構築できる', () => {
       const amount = Money.of(1000);
       const date = TransactionDate.of(2025, 1, 15);
@@ -164,6 +186,81 @@ describe('Transaction（取引）', () => {
       expect(transaction.categoryId).toBe(20);
     });
 
+    it('updateSplits: カテゴリごとの金額に分割できる', () => {
+      const transaction = Transaction.create(
+        1,
+        100,
+        'EXPENSE',
+        'スーパー',
+        Money.of(3000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+      );
+
+      transaction.updateSplits([
+        { categoryId: 10, amount: 2000 },
+        { categoryId: 11, amount: 1000 },
+      ]);
+
+      expect(transaction.categoryId).toBe(10);
+      expect(
+        transaction.splits.map((split) => ({
+          categoryId: split.categoryId,
+          amount: split.amount.amount,
+        })),
+      ).toEqual([
+        { categoryId: 10, amount: 2000 },
+        { categoryId: 11, amount: 1000 },
+      ]);
+    });
+
+    it('updateAmount: 明細が1件の場合は新しい金額を全額割り当てる', () => {
+      const transaction = Transaction.create(
+        1,
+        100,
+        'EXPENSE',
+        'ランチ',
+        Money.of(1000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+      );
+
+      transaction.updateAmount(Money.of(1500));
+
+      expect(transaction.splits[0].amount.amount).toBe(1500);
+    });
+
+    it('updateAmount: 明細を指定して金額と明細を同時に更新できる', () => {
+      const transaction = Transaction.reconstruct(
+        1,
+        100,
+        'EXPENSE',
+        'スーパー',
+        Money.of(3000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+        new Date(),
+        new Date(),
+        [
+          { categoryId: 10, amount: 2000 },
+          { categoryId: 11, amount: 1000 },
+        ],
+      );
+
+      transaction.updateAmount(Money.of(4000), [
+        { categoryId: 10, amount: 2500 },
+        { categoryId: 11, amount: 1500 },
+      ]);
+
+      expect(transaction.amount.amount).toBe(4000);
+      expect(transaction.splits.map((split) => split.amount.amount)).toEqual([
+        2500, 1500,
+      ]);
+    });
+
     it('updateMemo: メモを更新できる', () => {
       const amount = Money.of(1000);
       const date = TransactionDate.of(2025, 1, 15);
@@ -363,5 +460,79 @@ describe('Transaction（取引）', () => {
         '金額は0より大きい必要があります',
       );
     });
+
+    it('updateSplits: 明細の合計が取引の金額と一致しない場合は例外になる', () => {
+      const transaction = Transaction.create(
+        1,
+        100,
+        'EXPENSE',
+        'スーパー',
+        Money.of(3000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+      );
+
+      expect(() =>
+        transaction.updateSplits([
+          { categoryId: 10, amount: 2000 },
+          { categoryId: 11, amount: 2000 },
+        ]),
+      ).toThrow(TransactionSplitDomainError);
+      expect(transaction.splits).toHaveLength(1);
+    });
+
+    it('updateSplits: 明細が空・カテゴリの重複・0円の明細は例外になる', () => {
+      const transaction = Transaction.create(
+        1,
+        100,
+        'EXPENSE',
+        'スーパー',
+        Money.of(3000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+      );
+
+      expect(() => transaction.updateSplits([])).toThrow(
+        '明細は1件以上必要です',
+      );
+      expect(() =>
+        transaction.updateSplits([
+          { categoryId: 10, amount: 1500 },
+          { categoryId: 10, amount: 1500 },
+        ]),
+      ).toThrow('明細のカテゴリが重複しています');
+      expect(() =>
+        transaction.updateSplits([
+          { categoryId: 10, amount: 3000 },
+          { categoryId: 11, amount: 0 },
+        ]),
+      ).toThrow('明細の金額は0より大きい必要があります');
+    });
+
+    it('updateAmount: 明細が複数の場合に明細を指定せず金額を変更すると例外になる', () => {
+      const transaction = Transaction.reconstruct(
+        1,
+        100,
+        'EXPENSE',
+        'スーパー',
+        Money.of(3000),
+        TransactionDate.of(2025, 1, 15),
+        10,
+        '',
+        new Date(),
+        new Date(),
+        [
+          { categoryId: 10, amount: 2000 },
+          { categoryId: 11, amount: 1000 },
+        ],
+      );
+
+      expect(() => transaction.updateAmount(Money.of(4000))).toThrow(
+        TransactionSplitDomainError,
+      );
+      expect(transaction.amount.amount).toBe(3000);
+    });
   });
 });
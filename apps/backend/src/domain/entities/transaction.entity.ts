@@ -4,7 +4,7 @@
 import { DomainError } from '../values/domain-error';
 import type { CategoryId, TransactionId, UserId } from '../values/indentity';
 import { createId } from '../values/indentity';
-import type { Money } from '../values/money';
+import { Money } from '../values/money';
 import type { TransactionDate } from '../values/transaction-date';
 
 // =====================================
@@ -17,6 +17,80 @@ export class TransactionDomainError extends DomainError {
   }
 }
 
+export class TransactionSplitDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'TransactionSplitDomainError');
+  }
+}
+
+// =====================================
+// 明細（カテゴリごとの金額の内訳）
+// =====================================
+
+export type TransactionSplit = {
+  categoryId: CategoryId;
+  amount: Money;
+};
+
+export type TransactionSplitValue = {
+  categoryId: number;
+  amount: number;
+};
+
+/**
+ * 明細を生成する（1件以上・カテゴリの重複なし・各金額が0より大きく、合計が取引の金額と一致すること）
+ */
+const toSplits = (
+  amount: Money,
+  values: readonly TransactionSplitValue[],
+): TransactionSplit[] => {
+  if (values.length === 0) {
+    throw new TransactionSplitDomainError('明細は1件以上必要です');
+  }
+
+  const categoryIds = new Set(values.map((value) => value.categoryId));
+  if (categoryIds.size !== values.length) {
+    throw new TransactionSplitDomainError('明細のカテゴリが重複しています');
+  }
+
+  if (values.some((value) => !Number.isInteger(value.amount))) {
+    throw new TransactionSplitDomainError(
+      '明細の金額は整数である必要があります',
+    );
+  }
+
+  const splits = values.map((value) => ({
+    categoryId: createId<CategoryId>(value.categoryId, 'CategoryId'),
+    amount: Money.ofWithCurrency(value.amount, amount.currency),
+  }));
+
+  if (splits.some((split) => split.amount.isZero())) {
+    throw new TransactionSplitDomainError(
+      '明細の金額は0より大きい必要があります',
+    );
+  }
+
+  const total = splits.reduce(
+    (sum, split) => sum.add(split.amount),
+    Money.ofWithCurrency(0, amount.currency),
+  );
+  if (!total.equals(amount)) {
+    throw new TransactionSplitDomainError(
+      `明細の金額の合計（${total.amount}）が取引の金額（${amount.amount}）と一致しません`,
+    );
+  }
+
+  return splits;
+};
+
+const toSplitValues = (
+  splits: readonly TransactionSplit[],
+): TransactionSplitValue[] =>
+  splits.map((split) => ({
+    categoryId: split.categoryId,
+    amount: split.amount.amount,
+  }));
+
 // =====================================
 // Transaction Entity (集約ルート)
 // =====================================
@@ -25,11 +99,11 @@ export class Transaction {
   private constructor(
     private readonly _id: TransactionId,
     private readonly _userId: UserId,
-    private readonly _type: 'INCOME' | 'EXPENSE',
+    private readonly _type: 'INCOME' | 'EXPENSE' | 'TRANSFER',
     private _title: string,
     private _amount: Money,
     private _date: TransactionDate,
-    private _categoryId: CategoryId,
+    private _splits: TransactionSplit[],
     private _memo: string,
     private readonly _createdAt: Date,
     private _updatedAt: Date,
@@ -40,17 +114,20 @@ export class Transaction {
   // =====================================
 
   /**
-   * 新規取引を生成
+   * 新規取引を生成（明細を省略した場合はカテゴリに全額を割り当てる）
    */
   static create(
     idValue: number,
     userIdValue: number,
-    type: 'INCOME' | 'EXPENSE',
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER',
     title: string,
     amount: Money,
     date: TransactionDate,
     categoryIdValue: number,
     memo: string,
+    splitValues: readonly TransactionSplitValue[] = [
+      { categoryId: categoryIdValue, amount: amount.amount },
+    ],
   ): Transaction {
     // タイトルのバリデーション
     if (!title || title.trim().length === 0) {
@@ -79,7 +156,7 @@ export class Transaction {
 
     const id = createId<TransactionId>(idValue, 'TransactionId');
     const userId = createId<UserId>(userIdValue, 'UserId');
-    const categoryId = createId<CategoryId>(categoryIdValue, 'CategoryId');
+    const splits = toSplits(amount, splitValues);
     const now = new Date();
 
     return new Transaction(
@@ -89,7 +166,7 @@ export class Transaction {
       title.trim(),
       amount,
       date,
-      categoryId,
+      splits,
       memo.trim(),
       now,
       now,
@@ -102,7 +179,7 @@ export class Transaction {
   static reconstruct(
     idValue: number,
     userIdValue: number,
-    type: 'INCOME' | 'EXPENSE',
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER',
     title: string,
     amount: Money,
     date: TransactionDate,
@@ -110,10 +187,16 @@ export class Transaction {
     memo: string,
     createdAt: Date,
     updatedAt: Date,
+    splitValues: readonly TransactionSplitValue[] = [
+      { categoryId: categoryIdValue, amount: amount.amount },
+    ],
   ): Transaction {
     const id = createId<TransactionId>(idValue, 'TransactionId');
     const userId = createId<UserId>(userIdValue, 'UserId');
-    const categoryId = createId<CategoryId>(categoryIdValue, 'CategoryId');
+    const splits = splitValues.map((value) => ({
+      categoryId: createId<CategoryId>(value.categoryId, 'CategoryId'),
+      amount: Money.ofWithCurrency(value.amount, amount.currency),
+    }));
 
     return new Transaction(
       id,
@@ -122,7 +205,7 @@ export class Transaction {
       title,
       amount,
       date,
-      categoryId,
+      splits,
       memo,
       createdAt,
       updatedAt,
@@ -141,7 +224,7 @@ export class Transaction {
     return this._userId;
   }
 
-  get type(): 'INCOME' | 'EXPENSE' {
+  get type(): 'INCOME' | 'EXPENSE' | 'TRANSFER' {
     return this._type;
   }
 
@@ -157,8 +240,15 @@ export class Transaction {
     return this._date;
   }
 
+  /**
+   * 代表カテゴリ（先頭の明細のカテゴリ）
+   */
   get categoryId(): CategoryId {
-    return this._categoryId;
+    return this._splits[0].categoryId;
+  }
+
+  get splits(): readonly TransactionSplit[] {
+    return this._splits;
   }
 
   get memo(): string {
@@ -196,12 +286,23 @@ export class Transaction {
 
   /**
    * 金額を更新する
+   * 明細を省略した場合、明細が1件であれば全額を割り当て、複数であれば現在の明細の合計と一致する必要がある
    */
-  updateAmount(newAmount: Money): void {
+  updateAmount(
+    newAmount: Money,
+    splitValues?: readonly TransactionSplitValue[],
+  ): void {
     if (newAmount.isZero()) {
       throw new TransactionDomainError('金額は0より大きい必要があります');
     }
 
+    const nextSplitValues =
+      splitValues ??
+      (this._splits.length === 1
+        ? [{ categoryId: this.categoryId, amount: newAmount.amount }]
+        : toSplitValues(this._splits));
+
+    this._splits = toSplits(newAmount, nextSplitValues);
     this._amount = newAmount;
     this._updatedAt = new Date();
   }
@@ -219,15 +320,19 @@ export class Transaction {
   }
 
   /**
-   * カテゴリを更新する
+   * カテゴリを更新する（全額を指定したカテゴリに割り当てる）
    */
   updateCategory(newCategoryIdValue: number): void {
-    const newCategoryId = createId<CategoryId>(
-      newCategoryIdValue,
-      'CategoryId',
-    );
+    this.updateSplits([
+      { categoryId: newCategoryIdValue, amount: this._amount.amount },
+    ]);
+  }
 
-    this._categoryId = newCategoryId;
+  /**
+   * 明細（カテゴリごとの金額の内訳）を更新する（合計は取引の金額と一致する必要がある）
+   */
+  updateSplits(splitValues: readonly TransactionSplitValue[]): void {
+    this._splits = toSplits(this._amount, splitValues);
     this._updatedAt = new Date();
   }
 
@@ -250,6 +355,13 @@ export class Transaction {
     this._updatedAt = new Date();
   }
 
+  /**
+   * 論理削除した取引を元に戻す
+   */
+  restore(): void {
+    this._updatedAt = new Date();
+  }
+
   /**
    * 収入取引かどうかを判定
    */
@@ -264,6 +376,13 @@ export class Transaction {
     return this._type === 'EXPENSE';
   }
 
+  /**
+   * 振替取引かどうかを判定（収入/支出の集計には含めない）
+   */
+  isTransfer(): boolean {
+    return this._type === 'TRANSFER';
+  }
+
   /**
    * 指定された月の取引かどうかを判定
    */
@@ -285,45 +404,63 @@ export class Transaction {
 
 export type TransactionRecord = {
   id: number;
-  userId: number;
-  type: 'INCOME' | 'EXPENSE';
+  ledgerId: number;
+  userId: number; // 取引を登録したユーザー
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   title: string;
   amount: number;
   currency: string;
   date: string; // ISO8601形式
   categoryId: number;
+  accountId: number | null;
+  transferAccountId: number | null;
   memo: string;
   createdAt: Date;
   updatedAt: Date;
 };
 
+export type TransactionSplitRecord = {
+  categoryId: number;
+  amount: number; // 取引の通貨での金額
+};
+
 export type TransactionCategoryRecord = {
   id: number;
   name: string;
-  type: 'INCOME' | 'EXPENSE';
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   isDefault: boolean;
 };
 
 export type TransactionListItemRecord = {
   id: number;
-  userId: number;
-  type: 'INCOME' | 'EXPENSE';
+  ledgerId: number;
+  userId: number; // 取引を登録したユーザー
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   title: string;
   amount: number;
   currencyCode: string;
   date: string; // YYYY-MM-DD
   categoryIds: number[];
+  splits: TransactionSplitRecord[]; // カテゴリごとの金額の内訳（categoryIds と同じ順）
+  tagIds: number[]; // タグを付けた順
+  accountId: number | null;
+  transferAccountId: number | null;
   memo: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
 export type CreateTransactionData = {
-  userId: number;
-  type: 'INCOME' | 'EXPENSE';
+  ledgerId: number;
+  userId: number; // 取引を登録したユーザー
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   title: string;
   amount: number;
+  currency: string; // ISO 4217 通貨コード
   date: string; // ISO8601形式
   categoryId: number;
+  accountId?: number; // 省略時は口座に紐づけない（振替の場合は振替元口座）
+  transferAccountId?: number; // 振替先口座（振替の場合のみ）
   memo: string;
+  tagIds?: number[]; // 省略時はタグを付けない
 };
@@ -63,9 +63,59 @@ describe('User（ユーザー）', () => {
 
       expect(a.isSameIdentityAs(b)).toBe(true);
     });
+
+    it('changeName/changeEmail: 正規化した名前とメールアドレスに更新できる', () => {
+      const user = User.reconstruct(
+        10,
+        'user@example.com',
+        PasswordHash.reconstruct('salt:hash'),
+        'ユーザー',
+        new Date('2025-01-01T00:00:00.000Z'),
+        new Date('2025-01-02T00:00:00.000Z'),
+      );
+
+      user.changeName(' 新しい名前 ');
+      user.changeEmail(' New@Example.com ');
+
+      expect(user.name).toBe('新しい名前');
+      expect(user.email).toBe('new@example.com');
+    });
+
+    it('changePassword: パスワードハッシュと更新日時を更新できる', () => {
+      const updatedAt = new Date('2025-01-02T00:00:00.000Z');
+      const user = User.reconstruct(
+        10,
+        'user@example.com',
+        PasswordHash.reconstruct('salt:old-hash'),
+        'ユーザー',
+        new Date('2025-01-01T00:00:00.000Z'),
+        updatedAt,
+      );
+
+      user.changePassword(PasswordHash.reconstruct('salt:new-hash'));
+
+      expect(user.passwordHash.value).toBe('salt:new-hash');
+      expect(user.updatedAt.getTime()).toBeGreaterThan(updatedAt.getTime());
+    });
   });
 
   describe('異常系', () => {
+    it('changeName/changeEmail: 不正な値の場合は例外になり、値は変わらない', () => {
+      const user = User.reconstruct(
+        10,
+        'user@example.com',
+        PasswordHash.reconstruct('salt:hash'),
+        'ユーザー',
+        new Date('2025-01-01T00:00:00.000Z'),
+        new Date('2025-01-02T00:00:00.000Z'),
+      );
+
+      expect(() => user.changeName('  ')).toThrow(UserDomainError);
+      expect(() => user.changeEmail('invalid-email')).toThrow(UserDomainError);
+      expect(user.name).toBe('ユーザー');
+      expect(user.email).toBe('user@example.com');
+    });
+
     it('create: メールアドレス形式が不正な場合は例外になる', () => {
       const passwordHash = PasswordHash.reconstruct('salt:hash');
 
@@ -22,7 +22,7 @@ export class User {
   ) {}
 
   static create(email: string, passwordHash: PasswordHash, name: string): User {
-    const normalizedEmail = email.trim().toLowerCase();
+    const normalizedEmail = User.normalizeEmail(email);
     const normalizedName = name.trim();
 
     User.validateEmail(normalizedEmail);
@@ -88,6 +88,31 @@ export class User {
     return this._passwordHash.matches(plainText);
   }
 
+  changeName(name: string): void {
+    const normalizedName = name.trim();
+    User.validateName(normalizedName);
+
+    this._name = normalizedName;
+    this._updatedAt = new Date();
+  }
+
+  changeEmail(email: string): void {
+    const normalizedEmail = User.normalizeEmail(email);
+    User.validateEmail(normalizedEmail);
+
+    this._email = normalizedEmail;
+    this._updatedAt = new Date();
+  }
+
+  changePassword(passwordHash: PasswordHash): void {
+    this._passwordHash = passwordHash;
+    this._updatedAt = new Date();
+  }
+
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
   private static validateEmail(email: string): void {
     if (!EMAIL_REGEX.test(email)) {
       throw new UserDomainError('メールアドレスの形式が不正です');
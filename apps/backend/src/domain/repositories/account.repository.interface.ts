@@ -0,0 +1,58 @@
+// Repository Interface: IAccountRepository
+// 口座の永続化に関する抽象インターフェース
+
+import type {
+  Account,
+  AccountRecord,
+  CreateAccountData,
+} from '../entities/account.entity';
+
+// NOTE: 振替は振替元口座では TRANSFER_OUT、振替先口座では TRANSFER_IN として集計する
+export type AccountTransactionTotalRecord = {
+  accountId: number;
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER_IN' | 'TRANSFER_OUT';
+  amount: number;
+};
+
+export interface IAccountRepository {
+  /**
+   * 口座を作成する
+   */
+  create(data: CreateAccountData): Promise<AccountRecord>;
+
+  /**
+   * IDで口座を検索する
+   */
+  findById(id: number): Promise<AccountRecord | null>;
+
+  /**
+   * ユーザーIDと口座名で口座を検索する（重複チェック用）
+   */
+  findByUserIdAndName(
+    userId: number,
+    name: string,
+  ): Promise<AccountRecord | null>;
+
+  /**
+   * ユーザーIDで口座一覧を取得する
+   */
+  findByUserId(userId: number): Promise<AccountRecord[]>;
+
+  /**
+   * 口座を更新する
+   */
+  update(account: Account): Promise<AccountRecord>;
+
+  /**
+   * 口座を削除する（紐づく取引は口座なしとして残る）
+   */
+  delete(account: Account): Promise<void>;
+
+  /**
+   * 指定日までの取引を口座/種別ごとに合計する（論理削除済みの取引は除外）
+   */
+  sumTransactionsByUserId(
+    userId: number,
+    asOf: string,
+  ): Promise<AccountTransactionTotalRecord[]>;
+}
@@ -0,0 +1,43 @@
+// Repository Interface: IBudgetRepository
+// 予算の永続化に関する抽象インターフェース
+
+import type {
+  Budget,
+  BudgetRecord,
+  CreateBudgetData,
+} from '../entities/budget.entity';
+
+export interface IBudgetRepository {
+  /**
+   * 予算を作成する
+   */
+  create(data: CreateBudgetData): Promise<BudgetRecord>;
+
+  /**
+   * IDで予算を検索する
+   */
+  findById(id: number): Promise<BudgetRecord | null>;
+
+  /**
+   * ユーザーIDとカテゴリIDで予算を検索する（重複チェック用）
+   */
+  findByUserIdAndCategoryId(
+    userId: number,
+    categoryId: number,
+  ): Promise<BudgetRecord | null>;
+
+  /**
+   * ユーザーIDで予算一覧を取得する
+   */
+  findByUserId(userId: number): Promise<BudgetRecord[]>;
+
+  /**
+   * 予算を更新する
+   */
+  update(budget: Budget): Promise<BudgetRecord>;
+
+  /**
+   * 予算を削除する
+   */
+  delete(budget: Budget): Promise<void>;
+}
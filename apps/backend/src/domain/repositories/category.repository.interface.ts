@@ -13,10 +13,16 @@ export type FindAllOptions = {
   perPage: number;
   sortBy?: 'name' | 'createdAt' | 'displayOrder';
   sortOrder?: 'asc' | 'desc';
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   includeHidden?: boolean;
+  rootsOnly?: boolean; // true の場合は最上位のカテゴリのみ（ツリー表示用）
 };
 
+export type FindChildrenOptions = Pick<
+  FindAllOptions,
+  'userId' | 'sortBy' | 'sortOrder' | 'type' | 'includeHidden'
+>;
+
 export type PaginatedResult<T> = {
   items: T[];
   total: number;
@@ -29,6 +35,14 @@ export type UpdateCategoryData = {
   isVisible?: boolean;
   customName?: string | null;
   displayOrder?: number;
+  parentId?: number | null; // categories テーブル側を更新する
+};
+
+export type CategoryDisplayNameRecord = {
+  id: number;
+  name: string; // カスタム名（user_categories.custom_name）があればそちらを優先
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  isDefault: boolean;
 };
 
 export interface ICategoryRepository {
@@ -44,8 +58,14 @@ export interface ICategoryRepository {
 
   /**
    * 名前でカテゴリを検索する（重複チェック用）
+   * 共通カテゴリと、指定ユーザーが作成したカテゴリのみを対象にする
+   */
+  findByName(userId: number, name: string): Promise<CategoryRecord | null>;
+
+  /**
+   * 取引種別IDから取引種別コードを取得する（存在しない場合は null）
    */
-  findByName(name: string): Promise<CategoryRecord | null>;
+  findTypeCodeByTypeId(typeId: number): Promise<CategoryRecord['type'] | null>;
 
   /**
    * ユーザーのカテゴリ一覧を取得する
@@ -57,6 +77,14 @@ export interface ICategoryRepository {
    */
   findByIds(userId: number, ids: number[]): Promise<CategoryRecord[]>;
 
+  /**
+   * ID一覧でカテゴリの表示名を取得する（取引に紐づく過去のカテゴリも含める）
+   */
+  findDisplayNamesByIds(
+    userId: number,
+    ids: number[],
+  ): Promise<CategoryDisplayNameRecord[]>;
+
   /**
    * ページネーション付きでカテゴリ一覧を取得する
    */
@@ -64,6 +92,19 @@ export interface ICategoryRepository {
     options: FindAllOptions,
   ): Promise<PaginatedResult<UserCategoryRecord>>;
 
+  /**
+   * 親カテゴリID一覧でサブカテゴリを取得する（ユーザーカテゴリ情報付き）
+   */
+  findChildren(
+    parentIds: number[],
+    options: FindChildrenOptions,
+  ): Promise<UserCategoryRecord[]>;
+
+  /**
+   * サブカテゴリを持つかチェックする
+   */
+  hasChildren(categoryId: number): Promise<boolean>;
+
   /**
    * IDでカテゴリを取得する（ユーザーカテゴリ情報付き）
    */
@@ -73,11 +114,38 @@ export interface ICategoryRepository {
   ): Promise<UserCategoryRecord | null>;
 
   /**
-   * カテゴリを更新する（user_categories情報のみ更新）
+   * カテゴリを更新する（親カテゴリ以外は user_categories 情報のみ更新）
    */
   update(
     categoryId: number,
     userId: number,
     data: UpdateCategoryData,
   ): Promise<UserCategoryRecord>;
+
+  /**
+   * カテゴリを削除する（取引から参照されている場合は外部キー制約により失敗する）
+   */
+  delete(categoryId: number): Promise<void>;
+
+  /**
+   * 統合元カテゴリの取引・定期取引・予算を統合先に付け替え、統合元カテゴリを削除する
+   * 一連の処理は単一のDBトランザクションで実行する
+   */
+  merge(sourceCategoryId: number, targetCategoryId: number): Promise<void>;
+
+  /**
+   * 指定した順にユーザーのカテゴリの表示順を振り直す（先頭から 0, 1, 2...）
+   * user_categories に紐づきが無いデフォルトカテゴリは紐づきを作成する（全件をまとめて原子的に更新する）
+   */
+  reorder(userId: number, categoryIds: number[]): Promise<void>;
+
+  /**
+   * ユーザーのカテゴリの表示/非表示をまとめて更新する
+   * user_categories に紐づきが無いデフォルトカテゴリは紐づきを作成する
+   */
+  updateVisibility(
+    userId: number,
+    categoryIds: number[],
+    isVisible: boolean,
+  ): Promise<void>;
 }
@@ -0,0 +1,26 @@
+// Repository Interface: ICurrencyRepository
+// 通貨マスタの永続化に関する抽象インターフェース
+
+import type { Currency, CurrencyRecord } from '../entities/currency.entity';
+
+export interface ICurrencyRepository {
+  /**
+   * 通貨一覧を取得する（論理削除済みは除外、includeInactive=false の場合は有効な通貨のみ）
+   */
+  findAll(options: { includeInactive: boolean }): Promise<CurrencyRecord[]>;
+
+  /**
+   * 通貨コードで通貨を検索する（論理削除済みは除外）
+   */
+  findByCode(code: string): Promise<CurrencyRecord | null>;
+
+  /**
+   * ユーザーの基準通貨を取得する（未設定の場合は null）
+   */
+  findBaseByUserId(userId: number): Promise<CurrencyRecord | null>;
+
+  /**
+   * 通貨の有効/無効を更新する
+   */
+  update(currency: Currency): Promise<CurrencyRecord>;
+}
@@ -0,0 +1,40 @@
+// Repository Interface: IEmailChangeTokenRepository
+// メールアドレス変更の確認トークン（ハッシュ値）の永続化に関する抽象インターフェース
+
+export type EmailChangeTokenRecord = {
+  id: number;
+  userId: number;
+  newEmail: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+export interface IEmailChangeTokenRepository {
+  /**
+   * 確認トークンを登録する
+   */
+  create(params: {
+    userId: number;
+    newEmail: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<EmailChangeTokenRecord>;
+
+  /**
+   * トークンのハッシュ値で検索する（使用済みも含む）
+   */
+  findByTokenHash(tokenHash: string): Promise<EmailChangeTokenRecord | null>;
+
+  /**
+   * 未使用のトークンを使用済みにする
+   * すでに使用済みだった場合は false を返す（同時に使われた場合の検知に使う）
+   */
+  markUsed(id: number): Promise<boolean>;
+
+  /**
+   * ユーザーの未使用トークンをすべて使用済みにする
+   */
+  invalidateAllByUserId(userId: number): Promise<void>;
+}
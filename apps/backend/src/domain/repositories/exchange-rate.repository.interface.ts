@@ -0,0 +1,37 @@
+// Repository Interface: IExchangeRateRepository
+// 為替レートの永続化に関する抽象インターフェース
+
+export type ExchangeRateRecord = {
+  fromCurrency: string; // ISO 4217 通貨コード（換算元）
+  toCurrency: string; // ISO 4217 通貨コード（換算先）
+  date: string; // YYYY-MM-DD
+  rate: string; // 10進数表記（換算元 1 単位あたりの換算先の金額）
+};
+
+// NOTE: 金額は各通貨の最小単位で保存されるため、換算に使う通貨の補助単位の桁数も合わせて返す
+export type ApplicableExchangeRateRecord = ExchangeRateRecord & {
+  fromExponent: number;
+  toExponent: number;
+};
+
+export type FindApplicableExchangeRatesQuery = {
+  fromCurrencies: string[];
+  toCurrency: string;
+  startDate: string;
+  endDate: string;
+};
+
+export interface IExchangeRateRepository {
+  /**
+   * 為替レートをまとめて登録する（同じ通貨ペア/日付のレートは上書きし、1つのDBトランザクションで実行する）
+   */
+  upsertMany(rows: ExchangeRateRecord[]): Promise<number>;
+
+  /**
+   * 期間内の取引の換算に使用するレートを取得する
+   * （期間内のレートに加え、通貨ペアごとに開始日より前の直近のレートも含む）
+   */
+  findApplicable(
+    query: FindApplicableExchangeRatesQuery,
+  ): Promise<ApplicableExchangeRateRecord[]>;
+}
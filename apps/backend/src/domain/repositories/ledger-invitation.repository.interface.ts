@@ -0,0 +1,47 @@
+// Repository Interface: ILedgerInvitationRepository
+// 帳簿への招待トークン（ハッシュ値）の永続化に関する抽象インターフェース
+
+export type LedgerInvitationRecord = {
+  id: number;
+  ledgerId: number;
+  email: string;
+  role: 'EDITOR' | 'VIEWER';
+  invitedBy: number;
+  tokenHash: string;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date;
+};
+
+export interface ILedgerInvitationRepository {
+  /**
+   * 招待を登録する
+   */
+  create(params: {
+    ledgerId: number;
+    email: string;
+    role: 'EDITOR' | 'VIEWER';
+    invitedBy: number;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<LedgerInvitationRecord>;
+
+  /**
+   * トークンのハッシュ値で検索する（承諾済みも含む）
+   */
+  findByTokenHash(tokenHash: string): Promise<LedgerInvitationRecord | null>;
+
+  /**
+   * 未承諾の招待を承諾済みにする
+   * すでに承諾済みだった場合は false を返す（同時に使われた場合の検知に使う）
+   */
+  markAccepted(id: number): Promise<boolean>;
+
+  /**
+   * 同じ帳簿・メールアドレスへの未承諾の招待をすべて削除する
+   */
+  deletePendingByLedgerIdAndEmail(
+    ledgerId: number,
+    email: string,
+  ): Promise<void>;
+}
@@ -0,0 +1,64 @@
+// Repository Interface: ILedgerRepository
+// 帳簿とそのメンバーの永続化に関する抽象インターフェース
+
+import type { LedgerRoleCode } from '../values/ledger-role';
+
+export type LedgerRecord = {
+  id: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// NOTE: role は取得したユーザー自身のロール
+export type LedgerWithRoleRecord = LedgerRecord & {
+  role: LedgerRoleCode;
+};
+
+export type LedgerMemberRecord = {
+  ledgerId: number;
+  userId: number;
+  name: string;
+  email: string;
+  role: LedgerRoleCode;
+  joinedAt: Date;
+};
+
+export interface ILedgerRepository {
+  /**
+   * ユーザーが所属する帳簿一覧を取得する（作成順）
+   */
+  findByUserId(userId: number): Promise<LedgerWithRoleRecord[]>;
+
+  /**
+   * ユーザーの既定の帳簿IDを取得する（オーナーの帳簿のうち最も古いもの = ユーザー登録時に作成した個人用の帳簿）
+   */
+  findDefaultIdByUserId(userId: number): Promise<number | null>;
+
+  /**
+   * 帳簿のメンバーを取得する（メンバーでない場合は null）
+   */
+  findMember(
+    ledgerId: number,
+    userId: number,
+  ): Promise<LedgerMemberRecord | null>;
+
+  /**
+   * 帳簿ごとのメンバー一覧を取得する（参加順）
+   */
+  findMembersByLedgerIds(ledgerIds: number[]): Promise<LedgerMemberRecord[]>;
+
+  /**
+   * 帳簿にメンバーを追加する
+   */
+  addMember(params: {
+    ledgerId: number;
+    userId: number;
+    role: LedgerRoleCode;
+  }): Promise<void>;
+
+  /**
+   * 帳簿からメンバーを削除する（削除した場合は true）
+   */
+  removeMember(ledgerId: number, userId: number): Promise<boolean>;
+}
@@ -0,0 +1,80 @@
+// Repository Interface: IRecurringTransactionRepository
+// 繰り返し取引ルールと生成済み発生日の永続化に関する抽象インターフェース
+
+import type {
+  CreateRecurringTransactionData,
+  RecurringTransaction,
+  RecurringTransactionRecord,
+} from '../entities/recurring-transaction.entity';
+
+export type FindStartedRecurringTransactionsQuery = {
+  date: string; // YYYY-MM-DD（この日までに開始しているルールを対象とする）
+  userId?: number;
+};
+
+export interface IRecurringTransactionRepository {
+  /**
+   * ルールを作成する
+   */
+  create(
+    data: CreateRecurringTransactionData,
+  ): Promise<RecurringTransactionRecord>;
+
+  /**
+   * IDでルールを検索する
+   */
+  findById(id: number): Promise<RecurringTransactionRecord | null>;
+
+  /**
+   * ユーザーIDでルール一覧を取得する
+   */
+  findByUserId(userId: number): Promise<RecurringTransactionRecord[]>;
+
+  /**
+   * 指定日までに開始しているルール一覧を取得する（生成ジョブ用）
+   */
+  findStarted(
+    query: FindStartedRecurringTransactionsQuery,
+  ): Promise<RecurringTransactionRecord[]>;
+
+  /**
+   * カテゴリIDがルールで使用されているかチェックする
+   */
+  existsByCategoryId(categoryId: number): Promise<boolean>;
+
+  /**
+   * ルールを削除する（生成済みの取引は残す）
+   */
+  delete(recurringTransaction: RecurringTransaction): Promise<void>;
+
+  /**
+   * 生成済み（生成中を含む）の発生日一覧を取得する
+   */
+  findOccurrenceDates(recurringTransactionId: number): Promise<string[]>;
+
+  /**
+   * 発生日を確保する（既に確保済みの場合は false）
+   * NOTE: ルール + 日付の一意制約により、ジョブの多重実行でも二重生成されない
+   */
+  claimOccurrence(
+    recurringTransactionId: number,
+    date: string,
+  ): Promise<boolean>;
+
+  /**
+   * 確保した発生日に生成した取引を紐づける
+   */
+  completeOccurrence(
+    recurringTransactionId: number,
+    date: string,
+    transactionId: number,
+  ): Promise<void>;
+
+  /**
+   * 取引の生成に失敗した発生日の確保を解除する（次回の実行で再試行される）
+   */
+  releaseOccurrence(
+    recurringTransactionId: number,
+    date: string,
+  ): Promise<void>;
+}
@@ -0,0 +1,45 @@
+// Repository Interface: IRefreshTokenRepository
+// リフレッシュトークン（ハッシュ値）の永続化に関する抽象インターフェース
+
+export type RefreshTokenRecord = {
+  id: number;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+export interface IRefreshTokenRepository {
+  /**
+   * リフレッシュトークンを登録する
+   */
+  create(params: {
+    userId: number;
+    familyId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<RefreshTokenRecord>;
+
+  /**
+   * トークンのハッシュ値で検索する（失効済みも含む）
+   */
+  findByTokenHash(tokenHash: string): Promise<RefreshTokenRecord | null>;
+
+  /**
+   * 未失効のトークンを失効させる
+   * すでに失効済みだった場合は false を返す（同時に使われた場合の検知に使う）
+   */
+  revoke(id: number): Promise<boolean>;
+
+  /**
+   * 同じファミリーの未失効トークンをすべて失効させる
+   */
+  revokeFamily(params: { userId: number; familyId: string }): Promise<void>;
+
+  /**
+   * ユーザーの未失効トークンをすべて失効させる
+   */
+  revokeAllByUserId(userId: number): Promise<void>;
+}
@@ -0,0 +1,41 @@
+// Repository Interface: ITagRepository
+// タグの永続化に関する抽象インターフェース
+
+import type { CreateTagData, Tag, TagRecord } from '../entities/tag.entity';
+
+export interface ITagRepository {
+  /**
+   * タグを作成する
+   */
+  create(data: CreateTagData): Promise<TagRecord>;
+
+  /**
+   * IDでタグを検索する
+   */
+  findById(id: number): Promise<TagRecord | null>;
+
+  /**
+   * IDの一覧でタグを検索する（存在しないIDは結果に含まれない）
+   */
+  findByIds(ids: number[]): Promise<TagRecord[]>;
+
+  /**
+   * ユーザーIDとタグ名でタグを検索する（重複チェック用）
+   */
+  findByUserIdAndName(userId: number, name: string): Promise<TagRecord | null>;
+
+  /**
+   * ユーザーIDでタグ一覧を取得する（タグ名順）
+   */
+  findByUserId(userId: number): Promise<TagRecord[]>;
+
+  /**
+   * タグを更新する
+   */
+  update(tag: Tag): Promise<TagRecord>;
+
+  /**
+   * タグを削除する（取引との紐づけも削除され、取引は残る）
+   */
+  delete(tag: Tag): Promise<void>;
+}
@@ -0,0 +1,39 @@
+// Repository Interface: ITransactionAttachmentRepository
+// 取引の添付ファイル（メタデータ）の永続化に関する抽象インターフェース
+
+import type {
+  CreateTransactionAttachmentData,
+  TransactionAttachment,
+  TransactionAttachmentRecord,
+} from '../entities/transaction-attachment.entity';
+
+export interface ITransactionAttachmentRepository {
+  /**
+   * 添付ファイルを登録する
+   */
+  create(
+    data: CreateTransactionAttachmentData,
+  ): Promise<TransactionAttachmentRecord>;
+
+  /**
+   * IDで添付ファイルを検索する
+   */
+  findById(id: number): Promise<TransactionAttachmentRecord | null>;
+
+  /**
+   * 取引IDで添付ファイル一覧を取得する（登録順）
+   */
+  findByTransactionId(
+    transactionId: number,
+  ): Promise<TransactionAttachmentRecord[]>;
+
+  /**
+   * ユーザーが登録した添付ファイル本体の保存先キーを取得する（退会時の削除に使う）
+   */
+  findStorageKeysByUserId(userId: number): Promise<string[]>;
+
+  /**
+   * 添付ファイルを削除する
+   */
+  delete(attachment: TransactionAttachment): Promise<void>;
+}
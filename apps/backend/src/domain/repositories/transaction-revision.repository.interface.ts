@@ -0,0 +1,42 @@
+// Repository Interface: ITransactionRevisionRepository
+// 取引の変更履歴の参照に関する抽象インターフェース
+// NOTE: 履歴の記録は取引の更新/削除と同じDBトランザクションで行うため、TransactionRepository が担当する
+
+import type { TransactionSplitRecord } from '../entities/transaction.entity';
+
+export type TransactionRevisionAction = 'UPDATE' | 'DELETE' | 'RESTORE';
+
+export type TransactionSnapshot = {
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  title: string;
+  amount: number;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  categoryIds: number[];
+  splits: TransactionSplitRecord[]; // カテゴリごとの金額の内訳（登録順）
+  accountId: number | null;
+  transferAccountId: number | null;
+  memo: string | null;
+};
+
+export type TransactionRevisionRecord = {
+  id: number;
+  transactionId: number;
+  action: TransactionRevisionAction;
+  changedBy: {
+    userId: number;
+    name: string;
+  } | null; // 変更したユーザーが退会済みの場合は null
+  before: TransactionSnapshot;
+  after: TransactionSnapshot | null; // 削除の場合は null（復元の場合は before と同じ内容）
+  createdAt: Date;
+};
+
+export interface ITransactionRevisionRepository {
+  /**
+   * 取引IDで変更履歴を取得する（新しい順）
+   */
+  findByTransactionId(
+    transactionId: number,
+  ): Promise<TransactionRevisionRecord[]>;
+}
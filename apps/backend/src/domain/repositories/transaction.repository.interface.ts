@@ -6,24 +6,110 @@ import type {
   Transaction,
   TransactionListItemRecord,
   TransactionRecord,
+  TransactionSplitRecord,
 } from '../entities/transaction.entity';
 
 export type ListTransactionsQuery = {
-  userId: number;
+  ledgerId: number;
   startDate?: string;
   endDate?: string;
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   categoryIds?: number[];
+  tagIds?: number[]; // いずれかのタグが付いた取引に絞り込む
+  q?: string; // 正規化済みの検索語（空白区切り）。タイトルとメモを部分一致で検索し、関連度順に並べる
+  minAmount?: number; // 取引の通貨での金額（換算はしない）
+  maxAmount?: number;
+  sortBy: 'date' | 'amount' | 'createdAt' | 'title';
   order: 'asc' | 'desc';
+  // NOTE: 指定した場合は、並び順でこのキーより後ろの取引を取得する（キーセットページネーション）
+  after?: {
+    value: string | number | Date;
+    id: number;
+  };
   limit: number;
   offset: number;
 };
 
 export type ListTransactionsResult = {
   items: TransactionListItemRecord[];
+  total: number | null; // カーソル（after）指定時は数えないため null
+};
+
+export type ListTrashedTransactionsQuery = {
+  ledgerId: number;
+  limit: number;
+  offset: number;
+};
+
+export type TrashedTransactionListItemRecord = TransactionListItemRecord & {
+  deletedAt: Date;
+};
+
+export type ListTrashedTransactionsResult = {
+  items: TrashedTransactionListItemRecord[];
   total: number;
 };
 
+export type SummarizeTransactionsQuery = {
+  ledgerId: number;
+  startDate: string;
+  endDate: string;
+};
+
+export type TransactionTypeTotalRecord = {
+  type: 'INCOME' | 'EXPENSE';
+  amount: number;
+  count: number;
+};
+
+export type TransactionCategoryTotalRecord = {
+  categoryId: number;
+  categoryName: string;
+  type: 'INCOME' | 'EXPENSE';
+  amount: number;
+  count: number;
+};
+
+// NOTE: 複数のタグが付いた取引は各タグに取引の金額を全額計上する（タグは金額を分けないため）
+export type TransactionTagTotalRecord = {
+  tagId: number;
+  tagName: string;
+  type: 'INCOME' | 'EXPENSE';
+  amount: number;
+  count: number;
+};
+
+// NOTE: サブカテゴリを親カテゴリに合算せず、呼び出し側で階層に沿って集計できるよう親カテゴリIDを持たせる
+export type TransactionCategoryTotalWithParentRecord =
+  TransactionCategoryTotalRecord & {
+    parentCategoryId: number | null;
+  };
+
+type CurrencyDailyKey = {
+  currencyCode: string;
+  date: string; // YYYY-MM-DD
+};
+
+export type SummarizeTransactionsResult = {
+  totals: (TransactionTypeTotalRecord & CurrencyDailyKey)[];
+  categories: (TransactionCategoryTotalWithParentRecord & CurrencyDailyKey)[];
+};
+
+export type SummarizeTransactionsByCurrencyResult = {
+  totals: (TransactionTypeTotalRecord & CurrencyDailyKey)[];
+  categories: (TransactionCategoryTotalRecord & CurrencyDailyKey)[];
+  tags: (TransactionTagTotalRecord & CurrencyDailyKey)[];
+};
+
+export type ImportTransactionData = CreateTransactionData & {
+  rowHash: string;
+};
+
+export type ImportedTransactionRecord = {
+  rowHash: string;
+  transactionId: number;
+};
+
 export interface ITransactionRepository {
   /**
    * 取引を作成する
@@ -36,12 +122,29 @@ export interface ITransactionRepository {
   findById(id: number): Promise<TransactionRecord | null>;
 
   /**
-   * 取引に紐づくカテゴリID一覧を取得する
+   * IDで取引を検索する（削除済みの取引も含む）
+   */
+  findByIdIncludingDeleted(id: number): Promise<TransactionRecord | null>;
+
+  /**
+   * IDでゴミ箱の取引（削除済みの取引）を検索する
    */
-  findCategoryIdsByTransactionId(transactionId: number): Promise<number[]>;
+  findTrashedById(id: number): Promise<TransactionRecord | null>;
 
   /**
-   * ユーザーIDで取引一覧を取得する
+   * 取引の明細（カテゴリごとの金額）を取得する（登録順）
+   */
+  findSplitsByTransactionId(
+    transactionId: number,
+  ): Promise<TransactionSplitRecord[]>;
+
+  /**
+   * 取引に付けたタグのIDを取得する（付けた順）
+   */
+  findTagIdsByTransactionId(transactionId: number): Promise<number[]>;
+
+  /**
+   * ユーザーIDで取引一覧を取得する（ユーザーが登録した取引）
    */
   findByUserId(userId: number): Promise<TransactionRecord[]>;
 
@@ -55,25 +158,92 @@ export interface ITransactionRepository {
   ): Promise<TransactionRecord[]>;
 
   /**
-   * ユーザーIDで取引一覧を取得する（ページネーション/フィルタ付き）
+   * 帳簿IDで取引一覧を取得する（ページネーション/フィルタ付き）
+   */
+  listByLedgerId(query: ListTransactionsQuery): Promise<ListTransactionsResult>;
+
+  /**
+   * 帳簿IDでゴミ箱の取引一覧を取得する（削除日時の新しい順）
+   */
+  listTrashedByLedgerId(
+    query: ListTrashedTransactionsQuery,
+  ): Promise<ListTrashedTransactionsResult>;
+
+  /**
+   * 帳簿IDと期間で取引を通貨/取引日ごとに集計する（種別ごと/カテゴリごとの合計、振替は除外する）
+   * カテゴリごとの合計は明細の金額でカテゴリ単位に集計する（サブカテゴリの金額は親カテゴリに合算しない）
+   */
+  summarizeByLedgerId(
+    query: SummarizeTransactionsQuery,
+  ): Promise<SummarizeTransactionsResult>;
+
+  /**
+   * 帳簿IDと期間で取引を通貨/取引日ごとに集計する（基準通貨への換算用、振替は除外する）
+   * カテゴリごとの合計は明細の金額（サブカテゴリは親カテゴリに合算）、タグごとの合計は取引の金額で集計する
+   */
+  summarizeByLedgerIdPerCurrency(
+    query: SummarizeTransactionsQuery,
+  ): Promise<SummarizeTransactionsByCurrencyResult>;
+
+  /**
+   * 帳簿にインポート済みの行ハッシュを取得する（指定したハッシュのうち登録済みのもの、インポートしたメンバーは問わない）
    */
-  listByUserId(query: ListTransactionsQuery): Promise<ListTransactionsResult>;
+  findImportedRowHashes(
+    ledgerId: number,
+    rowHashes: string[],
+  ): Promise<string[]>;
 
   /**
-   * 取引を更新する
+   * CSVインポートの行をまとめて登録する（1つのDBトランザクションで実行し、同じ帳簿にインポート済みの行はスキップする）
+   */
+  importMany(
+    userId: number,
+    rows: ImportTransactionData[],
+  ): Promise<ImportedTransactionRecord[]>;
+
+  /**
+   * 取引を更新する（accountId/transferAccountId に null を指定すると口座との紐づけを解除する）
+   * 明細は取引の明細の内容で置き換え、変更前後の内容を変更履歴に記録する
+   * tagIds を指定した場合はタグを置き換える（省略時はそのまま）
    */
   update(
     transaction: Transaction,
-    options?: { categoryIds?: number[] },
+    options: {
+      changedBy: number;
+      accountId?: number | null;
+      transferAccountId?: number | null;
+      tagIds?: number[];
+    },
   ): Promise<TransactionRecord>;
 
   /**
-   * 取引を削除する
+   * 取引を削除する（削除前の内容を変更履歴に記録する）
+   */
+  delete(
+    transaction: Transaction,
+    options: { changedBy: number },
+  ): Promise<void>;
+
+  /**
+   * ゴミ箱の取引を元に戻す（復元したことを変更履歴に記録する）
+   */
+  restore(
+    transaction: Transaction,
+    options: { changedBy: number },
+  ): Promise<void>;
+
+  /**
+   * ゴミ箱の取引を物理削除する（カテゴリ・変更履歴・添付ファイルのメタデータも削除される）
+   */
+  purge(id: number): Promise<void>;
+
+  /**
+   * 指定日時より前に削除された（ゴミ箱の保持期間を過ぎた）取引のIDを取得する
    */
-  delete(transaction: Transaction): Promise<void>;
+  findIdsDeletedBefore(cutoff: Date): Promise<number[]>;
 
   /**
-   * カテゴリIDが使用されているかチェックする
+   * カテゴリIDが取引で使用されているかチェックする（ゴミ箱の取引も含む）
    */
   existsByCategoryId(categoryId: number): Promise<boolean>;
 }
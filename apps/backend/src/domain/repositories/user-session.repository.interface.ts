@@ -0,0 +1,41 @@
+// Repository Interface: IUserSessionRepository
+// ログインセッション（端末ごとのログイン状態）の永続化に関する抽象インターフェース
+
+export type UserSessionRecord = {
+  id: string;
+  userId: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  revokedAt: Date | null;
+};
+
+export interface IUserSessionRepository {
+  /**
+   * セッションを登録する
+   */
+  create(params: {
+    id: string;
+    userId: number;
+    device: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+  }): Promise<UserSessionRecord>;
+
+  /**
+   * IDでセッションを検索する（失効済みも含む）
+   */
+  findById(id: string): Promise<UserSessionRecord | null>;
+
+  /**
+   * ユーザーの有効なセッション一覧を取得する（最終利用日時の新しい順）
+   */
+  findActiveByUserId(userId: number): Promise<UserSessionRecord[]>;
+
+  /**
+   * セッションを失効させる
+   */
+  revoke(id: string): Promise<void>;
+}
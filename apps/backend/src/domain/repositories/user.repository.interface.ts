@@ -3,7 +3,33 @@ import type { User } from '../entities/user.entity';
 export interface IUserRepository {
   findByEmail(email: string): Promise<User | null>;
 
+  findById(id: number): Promise<User | null>;
+
   existsByEmail(email: string): Promise<boolean>;
 
+  /**
+   * ユーザーを登録する（同時に、ユーザーがオーナーの個人用の帳簿を作成する）
+   */
   create(user: User): Promise<User>;
+
+  updatePassword(user: User): Promise<void>;
+
+  updateProfile(user: User): Promise<void>;
+
+  /**
+   * 退会済みにする（deletedAt を記録し、以降の検索対象から外す）
+   */
+  softDelete(id: number): Promise<void>;
+
+  /**
+   * 指定日時より前に退会したユーザーのIDを取得する
+   */
+  findIdsDeletedBefore(cutoff: Date): Promise<number[]>;
+
+  /**
+   * 退会済みのユーザーを物理削除する（関連データは外部キーの cascade で削除される）
+   * NOTE: オーナーの帳簿は、他のメンバーが登録した取引も含めて削除する
+   * 他のユーザーがオーナーの帳簿に登録した取引は削除せず、帳簿のオーナーに引き継ぐ
+   */
+  purge(id: number): Promise<void>;
 }
@@ -78,5 +78,21 @@ describe('CategoryName（カテゴリ名）', () => {
         ),
       ).toBe(true);
     });
+
+    it('validateAsChildOf: 親カテゴリと同じ名前のサブカテゴリは作れない', () => {
+      const parent = CategoryName.create('食費');
+      const same = CategoryName.create(' 食費 ');
+      const other = CategoryName.create('外食');
+
+      const canValidate =
+        Either.isRight(parent) && Either.isRight(same) && Either.isRight(other);
+      expect(canValidate).toBe(true);
+
+      expect(
+        canValidate &&
+          Either.isLeft(same.right.validateAsChildOf(parent.right)) &&
+          Either.isRight(other.right.validateAsChildOf(parent.right)),
+      ).toBe(true);
+    });
   });
 });
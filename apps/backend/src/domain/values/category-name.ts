@@ -34,6 +34,25 @@ export class CategoryName {
     );
   }
 
+  /**
+   * 親カテゴリの下に置ける名前か検証する
+   * ビジネスルール: サブカテゴリは親カテゴリと同じ名前にできない
+   */
+  validateAsChildOf(
+    parent: CategoryName,
+  ): Either.Either<CategoryName, CategoryNameValidationError> {
+    return pipe(
+      Either.right(this as CategoryName),
+      Either.filterOrLeft(
+        (name) => !name.equals(parent),
+        () =>
+          new CategoryNameValidationError(
+            'サブカテゴリ名は親カテゴリと同じ名前にできません',
+          ),
+      ),
+    );
+  }
+
   get value(): string {
     return this._value;
   }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { ExchangeRate, ExchangeRateValidationError } from './exchange-rate';
+
+describe('ExchangeRate（為替レート）', () => {
+  describe('正常系', () => {
+    it('of: 通貨ペアと10進数表記のレートで作成できる', () => {
+      const rate = ExchangeRate.of('USD', 'JPY', '150.25');
+
+      expect(rate.from).toBe('USD');
+      expect(rate.to).toBe('JPY');
+      expect(rate.numerator).toBe(15025n);
+      expect(rate.denominator).toBe(100n);
+    });
+
+    it('of: 小数点以下8桁まで受け付ける', () => {
+      const rate = ExchangeRate.of('JPY', 'USD', '0.00666667');
+
+      expect(rate.numerator).toBe(666667n);
+      expect(rate.denominator).toBe(100000000n);
+    });
+
+    it('identity: 同一通貨のレート1を作成できる', () => {
+      const rate = ExchangeRate.identity('JPY');
+
+      expect(rate.from).toBe('JPY');
+      expect(rate.to).toBe('JPY');
+      expect(rate.format()).toBe('1');
+    });
+
+    it('format: 末尾の0を除いた10進数表記で取得できる', () => {
+      expect(ExchangeRate.of('USD', 'JPY', '150.2500').format()).toBe('150.25');
+      expect(ExchangeRate.of('USD', 'JPY', '150.00').format()).toBe('150');
+      expect(ExchangeRate.of('JPY', 'USD', '0.0067').format()).toBe('0.0067');
+    });
+  });
+
+  describe('異常系', () => {
+    it('of: 換算元と換算先が同じ通貨の場合は例外になる', () => {
+      expect(() => ExchangeRate.of('JPY', 'JPY', '1')).toThrow(
+        ExchangeRateValidationError,
+      );
+    });
+
+    it('of: 不正な通貨コードは例外になる', () => {
+      expect(() => ExchangeRate.of('usd', 'JPY', '150')).toThrow(
+        ExchangeRateValidationError,
+      );
+      expect(() => ExchangeRate.of('USD', 'JP', '150')).toThrow(
+        ExchangeRateValidationError,
+      );
+    });
+
+    it('of: 0以下のレートは例外になる', () => {
+      expect(() => ExchangeRate.of('USD', 'JPY', '0')).toThrow(
+        'レートは0より大きい必要があります',
+      );
+      expect(() => ExchangeRate.of('USD', 'JPY', '-150')).toThrow(
+        ExchangeRateValidationError,
+      );
+    });
+
+    it('of: 数値でない、または小数点以下9桁以上のレートは例外になる', () => {
+      expect(() => ExchangeRate.of('USD', 'JPY', 'abc')).toThrow(
+        ExchangeRateValidationError,
+      );
+      expect(() => ExchangeRate.of('USD', 'JPY', '1.123456789')).toThrow(
+        ExchangeRateValidationError,
+      );
+      expect(() => ExchangeRate.of('USD', 'JPY', '1e3')).toThrow(
+        ExchangeRateValidationError,
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// Value Object: ExchangeRate
+// 通貨ペアの為替レート（換算元 1 単位あたりの換算先の金額）を表現する不変の値オブジェクト
+
+export class ExchangeRateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateValidationError';
+  }
+}
+
+export class ExchangeRate {
+  private static readonly MAX_FRACTION_DIGITS = 8 as const;
+  private static readonly RATE_REGEX = /^(\d+)(?:\.(\d{1,8}))?$/;
+  private static readonly CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+  private static readonly DECIMAL_BASE = 10n;
+  private static readonly IDENTITY_RATE = '1' as const;
+
+  // NOTE: 浮動小数点の誤差を避けるため、レートは「numerator / denominator」の整数比で保持する
+  private constructor(
+    private readonly _from: string,
+    private readonly _to: string,
+    private readonly _numerator: bigint,
+    private readonly _denominator: bigint,
+  ) {}
+
+  // =====================================
+  // ファクトリメソッド
+  // =====================================
+
+  /**
+   * 通貨ペアと10進数表記のレートから生成（例: of('USD', 'JPY', '150.25')）
+   * ビジネスルール:
+   * - 通貨コードはISO 4217形式（英大文字3文字）で、換算元と換算先は異なる
+   * - レートは0より大きく、小数点以下は8桁まで
+   */
+  static of(from: string, to: string, rate: string): ExchangeRate {
+    ExchangeRate.validateCurrencyCode(from);
+    ExchangeRate.validateCurrencyCode(to);
+    if (from === to) {
+      throw new ExchangeRateValidationError(
+        `換算元と換算先の通貨が同じです: ${from}`,
+      );
+    }
+    return ExchangeRate.parse(from, to, rate);
+  }
+
+  /**
+   * 同一通貨への換算（レート1）を生成
+   */
+  static identity(currency: string): ExchangeRate {
+    ExchangeRate.validateCurrencyCode(currency);
+    return ExchangeRate.parse(currency, currency, ExchangeRate.IDENTITY_RATE);
+  }
+
+  private static parse(from: string, to: string, rate: string): ExchangeRate {
+    const match = ExchangeRate.RATE_REGEX.exec(rate.trim());
+    if (match === null) {
+      throw new ExchangeRateValidationError(
+        `レートは小数点以下${ExchangeRate.MAX_FRACTION_DIGITS}桁までの数値である必要があります: ${rate}`,
+      );
+    }
+
+    const fraction = match[2] ?? '';
+    const numerator = BigInt(`${match[1]}${fraction}`);
+    if (numerator === 0n) {
+      throw new ExchangeRateValidationError(
+        'レートは0より大きい必要があります',
+      );
+    }
+
+    return new ExchangeRate(
+      from,
+      to,
+      numerator,
+      ExchangeRate.DECIMAL_BASE ** BigInt(fraction.length),
+    );
+  }
+
+  private static validateCurrencyCode(currency: string): void {
+    if (!ExchangeRate.CURRENCY_CODE_REGEX.test(currency)) {
+      throw new ExchangeRateValidationError(
+        `通貨コードはISO 4217形式である必要があります: ${currency}`,
+      );
+    }
+  }
+
+  // =====================================
+  // ゲッター
+  // =====================================
+
+  get from(): string {
+    return this._from;
+  }
+
+  get to(): string {
+    return this._to;
+  }
+
+  get numerator(): bigint {
+    return this._numerator;
+  }
+
+  get denominator(): bigint {
+    return this._denominator;
+  }
+
+  // =====================================
+  // 変換メソッド
+  // =====================================
+
+  /**
+   * 10進数表記の文字列に変換（末尾の0は除去する）
+   */
+  format(): string {
+    const scale = this._denominator.toString().length - 1;
+    const digits = this._numerator.toString().padStart(scale + 1, '0');
+    const integer = digits.slice(0, digits.length - scale);
+    const fraction = digits.slice(digits.length - scale).replace(/0+$/, '');
+
+    return fraction.length === 0 ? integer : `${integer}.${fraction}`;
+  }
+}
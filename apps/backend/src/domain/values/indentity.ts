@@ -18,6 +18,11 @@ export type CategoryId = Brand<number, 'CategoryId'>;
 export type TransactionId = Brand<number, 'TransactionId'>;
 export type CurrencyId = Brand<number, 'CurrencyId'>;
 export type TransactionTypeId = Brand<number, 'TransactionTypeId'>;
+export type BudgetId = Brand<number, 'BudgetId'>;
+export type RecurringTransactionId = Brand<number, 'RecurringTransactionId'>;
+export type AccountId = Brand<number, 'AccountId'>;
+export type TransactionAttachmentId = Brand<number, 'TransactionAttachmentId'>;
+export type TagId = Brand<number, 'TagId'>;
 
 // =====================================
 // Identity Class
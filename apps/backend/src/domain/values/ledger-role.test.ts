@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { LedgerRole, LedgerRoleValidationError } from './ledger-role';
+
+describe('LedgerRole（帳簿のロール）', () => {
+  describe('正常系', () => {
+    it('fromString: OWNER/EDITOR/VIEWER のみ受け付ける', () => {
+      expect(LedgerRole.fromString('OWNER').value).toBe('OWNER');
+      expect(LedgerRole.fromString('EDITOR').value).toBe('EDITOR');
+      expect(LedgerRole.fromString('VIEWER').value).toBe('VIEWER');
+    });
+
+    it('can: オーナーはすべての操作ができる', () => {
+      const owner = LedgerRole.owner();
+
+      expect(owner.isOwner()).toBe(true);
+      expect(owner.can('read')).toBe(true);
+      expect(owner.can('write')).toBe(true);
+      expect(owner.can('manageMembers')).toBe(true);
+    });
+
+    it('can: 編集者は閲覧と編集ができるが、メンバー管理はできない', () => {
+      const editor = LedgerRole.editor();
+
+      expect(editor.isOwner()).toBe(false);
+      expect(editor.can('read')).toBe(true);
+      expect(editor.can('write')).toBe(true);
+      expect(editor.can('manageMembers')).toBe(false);
+    });
+
+    it('can: 閲覧者は閲覧のみできる', () => {
+      const viewer = LedgerRole.viewer();
+
+      expect(viewer.can('read')).toBe(true);
+      expect(viewer.can('write')).toBe(false);
+      expect(viewer.can('manageMembers')).toBe(false);
+    });
+
+    it('equals/toString: 値として比較できる', () => {
+      expect(LedgerRole.editor().equals(LedgerRole.fromString('EDITOR'))).toBe(
+        true,
+      );
+      expect(LedgerRole.editor().equals(LedgerRole.viewer())).toBe(false);
+      expect(LedgerRole.owner().toString()).toBe('OWNER');
+    });
+  });
+
+  describe('異常系', () => {
+    it('fromString: 不正な値は LedgerRoleValidationError を投げる', () => {
+      expect(() => LedgerRole.fromString('ADMIN')).toThrow(
+        LedgerRoleValidationError,
+      );
+    });
+  });
+});
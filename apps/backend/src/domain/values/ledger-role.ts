@@ -0,0 +1,69 @@
+// Value Object: LedgerRole
+// 帳簿メンバーのロール(オーナー/編集者/閲覧者)と、ロールごとに許可される操作を表現
+
+export class LedgerRoleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerRoleValidationError';
+  }
+}
+
+export type LedgerRoleCode = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+/**
+ * 帳簿に対する操作
+ * read: 取引・添付ファイルの閲覧 / write: 取引・添付ファイルの登録・更新・削除 / manageMembers: メンバーの招待・削除
+ */
+export type LedgerPermission = 'read' | 'write' | 'manageMembers';
+
+const PERMISSIONS_BY_ROLE: Record<LedgerRoleCode, readonly LedgerPermission[]> =
+  {
+    OWNER: ['read', 'write', 'manageMembers'],
+    EDITOR: ['read', 'write'],
+    VIEWER: ['read'],
+  };
+
+export class LedgerRole {
+  private constructor(private readonly _value: LedgerRoleCode) {}
+
+  get value(): LedgerRoleCode {
+    return this._value;
+  }
+
+  static owner(): LedgerRole {
+    return new LedgerRole('OWNER');
+  }
+
+  static editor(): LedgerRole {
+    return new LedgerRole('EDITOR');
+  }
+
+  static viewer(): LedgerRole {
+    return new LedgerRole('VIEWER');
+  }
+
+  static fromString(role: string): LedgerRole {
+    if (role !== 'OWNER' && role !== 'EDITOR' && role !== 'VIEWER') {
+      throw new LedgerRoleValidationError(
+        '帳簿のロールはOWNER、EDITOR、VIEWERのいずれかである必要があります',
+      );
+    }
+    return new LedgerRole(role);
+  }
+
+  isOwner(): boolean {
+    return this._value === 'OWNER';
+  }
+
+  can(permission: LedgerPermission): boolean {
+    return PERMISSIONS_BY_ROLE[this._value].includes(permission);
+  }
+
+  equals(other: LedgerRole): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+}
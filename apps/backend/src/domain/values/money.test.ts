@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
+import { ExchangeRate } from './exchange-rate';
 import { Money, MoneyValidationError } from './money';
 
 describe('Money（金額）', () => {
@@ -41,14 +42,85 @@ describe('Money（金額）', () => {
       expect(result.amount).toBe(300);
     });
 
-    it('divide: 整数で除算できる（整数除算）', () => {
+    it('divide: FLOOR を指定すると端数は切り捨てになる', () => {
       const money = Money.of(1000);
-      const result = money.divide(3);
+      const result = money.divide(3, 'FLOOR');
 
-      // 整数除算なので小数点以下は切り捨て
       expect(result.amount).toBe(333);
     });
 
+    it('divide: CEIL を指定すると端数は切り上げになる', () => {
+      expect(Money.of(1000).divide(3, 'CEIL').amount).toBe(334);
+      expect(Money.of(999).divide(3, 'CEIL').amount).toBe(333);
+    });
+
+    it('divide: HALF_UP を指定すると四捨五入になる', () => {
+      expect(Money.of(1000).divide(3, 'HALF_UP').amount).toBe(333);
+      expect(Money.of(5).divide(2, 'HALF_UP').amount).toBe(3);
+      expect(Money.of(2000).divide(3, 'HALF_UP').amount).toBe(667);
+    });
+
+    it('divide: HALF_EVEN を指定するとちょうど半分の場合は偶数側に丸める', () => {
+      expect(Money.of(5).divide(2, 'HALF_EVEN').amount).toBe(2);
+      expect(Money.of(7).divide(2, 'HALF_EVEN').amount).toBe(4);
+      expect(Money.of(2000).divide(3, 'HALF_EVEN').amount).toBe(667);
+    });
+
+    it('convert: 為替レートで換算先の通貨に換算できる', () => {
+      // 10.00 ドル（1000 セント）
+      const usd = Money.ofWithCurrency(1000, 'USD');
+      const rate = ExchangeRate.of('USD', 'EUR', '0.9255');
+      const exponents = { from: 2, to: 2 };
+
+      const result = usd.convert(rate, 'HALF_UP', exponents);
+
+      // 1000 * 0.9255 = 925.5 セント
+      expect(result.amount).toBe(926);
+      expect(result.currency).toBe('EUR');
+      expect(usd.convert(rate, 'FLOOR', exponents).amount).toBe(925);
+    });
+
+    it('convert: USD（補助単位2桁）から JPY（0桁）へは最小単位の桁の差を考慮して換算する', () => {
+      // 12.99 ドル（1299 セント）
+      const usd = Money.ofWithCurrency(1299, 'USD');
+      const rate = ExchangeRate.of('USD', 'JPY', '150');
+
+      // 12.99 * 150 = 1948.5 円
+      expect(usd.convert(rate, 'HALF_UP', { from: 2, to: 0 })).toEqual(
+        Money.of(1949),
+      );
+      expect(usd.convert(rate, 'FLOOR', { from: 2, to: 0 }).amount).toBe(1948);
+    });
+
+    it('convert: JPY（補助単位0桁）から USD（2桁）へは最小単位の桁の差を考慮して換算する', () => {
+      const jpy = Money.of(1000);
+      const rate = ExchangeRate.of('JPY', 'USD', '0.0066667');
+
+      const result = jpy.convert(rate, 'HALF_UP', { from: 0, to: 2 });
+
+      // 1000 * 0.0066667 = 6.6667 ドル = 666.67 セント
+      expect(result.amount).toBe(667);
+      expect(result.currency).toBe('USD');
+    });
+
+    it('convert: 同一通貨のレートでは金額が変わらない', () => {
+      const jpy = Money.of(1000);
+      const usd = Money.ofWithCurrency(1234, 'USD');
+
+      expect(
+        jpy.convert(ExchangeRate.identity('JPY'), 'HALF_UP', {
+          from: 0,
+          to: 0,
+        }),
+      ).toEqual(jpy);
+      expect(
+        usd.convert(ExchangeRate.identity('USD'), 'HALF_UP', {
+          from: 2,
+          to: 2,
+        }),
+      ).toEqual(usd);
+    });
+
     it('equals: 同じ金額と通貨の場合はtrueを返す', () => {
       const a = Money.of(1000);
       const b = Money.of(1000);
@@ -79,6 +151,17 @@ describe('Money（金額）', () => {
       const money = Money.of(123456);
       expect(money.format()).toBe('¥123,456');
     });
+
+    it('toDecimalString: 補助単位の桁数に合わせた10進数表記に変換できる', () => {
+      expect(Money.of(1000).toDecimalString(0)).toBe('1000');
+      expect(Money.ofWithCurrency(1234, 'USD').toDecimalString(2)).toBe(
+        '12.34',
+      );
+      expect(Money.ofWithCurrency(5, 'USD').toDecimalString(2)).toBe('0.05');
+      expect(Money.ofWithCurrency(1000, 'KWD').toDecimalString(3)).toBe(
+        '1.000',
+      );
+    });
   });
 
   describe('異常系', () => {
@@ -124,8 +207,34 @@ describe('Money（金額）', () => {
     it('divide: 0以下の除数は例外になる', () => {
       const money = Money.of(1000);
 
-      expect(() => money.divide(0)).toThrow(MoneyValidationError);
-      expect(() => money.divide(-2)).toThrow(MoneyValidationError);
+      expect(() => money.divide(0, 'FLOOR')).toThrow(MoneyValidationError);
+      expect(() => money.divide(-2, 'FLOOR')).toThrow(MoneyValidationError);
+    });
+
+    it('convert: レートの換算元と通貨が異なる場合は例外になる', () => {
+      const jpy = Money.of(1000);
+      const rate = ExchangeRate.of('USD', 'JPY', '150');
+
+      const exponents = { from: 0, to: 0 };
+
+      expect(() => jpy.convert(rate, 'HALF_UP', exponents)).toThrow(
+        MoneyValidationError,
+      );
+      expect(() => jpy.convert(rate, 'HALF_UP', exponents)).toThrow(
+        '換算元の通貨が異なります',
+      );
+    });
+
+    it('convert: 補助単位の桁数が0以上の整数でない場合は例外になる', () => {
+      const usd = Money.ofWithCurrency(1234, 'USD');
+      const rate = ExchangeRate.of('USD', 'JPY', '150');
+
+      expect(() => usd.convert(rate, 'HALF_UP', { from: -1, to: 0 })).toThrow(
+        MoneyValidationError,
+      );
+      expect(() => usd.convert(rate, 'HALF_UP', { from: 2, to: 0.5 })).toThrow(
+        '補助単位の桁数は0以上の整数である必要があります',
+      );
     });
   });
 });
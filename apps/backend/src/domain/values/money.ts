@@ -1,6 +1,8 @@
 // Value Object: Money
 // 金額と通貨を表現する不変の値オブジェクト
 
+import type { ExchangeRate } from './exchange-rate';
+
 export class MoneyValidationError extends Error {
   constructor(message: string) {
     super(message);
@@ -8,6 +10,50 @@ export class MoneyValidationError extends Error {
   }
 }
 
+/**
+ * 端数処理の方式
+ * - FLOOR: 切り捨て
+ * - CEIL: 切り上げ
+ * - HALF_UP: 四捨五入
+ * - HALF_EVEN: 銀行型丸め（偶数丸め）
+ */
+export type RoundingMode = 'FLOOR' | 'CEIL' | 'HALF_UP' | 'HALF_EVEN';
+
+// NOTE: 金額は0以上のため、商(quotient)・余り(remainder)・除数(divisor)はすべて0以上を前提とする
+const ROUNDERS: Record<
+  RoundingMode,
+  (quotient: bigint, remainder: bigint, divisor: bigint) => bigint
+> = {
+  FLOOR: (quotient) => quotient,
+  CEIL: (quotient, remainder) => (remainder > 0n ? quotient + 1n : quotient),
+  HALF_UP: (quotient, remainder, divisor) =>
+    remainder * 2n >= divisor ? quotient + 1n : quotient,
+  HALF_EVEN: (quotient, remainder, divisor) => {
+    const doubled = remainder * 2n;
+    const isOdd = quotient % 2n === 1n;
+    return doubled > divisor || (doubled === divisor && isOdd)
+      ? quotient + 1n
+      : quotient;
+  },
+};
+
+/**
+ * 換算元/換算先の通貨の補助単位の桁数（JPY は 0、USD は 2）
+ */
+export type CurrencyExponents = {
+  from: number;
+  to: number;
+};
+
+const DECIMAL_BASE = 10n;
+
+const divideWithRounding = (
+  dividend: bigint,
+  divisor: bigint,
+  rounding: RoundingMode,
+): number =>
+  Number(ROUNDERS[rounding](dividend / divisor, dividend % divisor, divisor));
+
 export class Money {
   private static readonly DEFAULT_CURRENCY = 'JPY' as const;
   private static readonly CURRENCY_CODE_LENGTH = 3 as const;
@@ -54,6 +100,14 @@ export class Money {
     }
   }
 
+  private static validateExponent(exponent: number): void {
+    if (!Number.isInteger(exponent) || exponent < Money.ZERO) {
+      throw new MoneyValidationError(
+        '補助単位の桁数は0以上の整数である必要があります',
+      );
+    }
+  }
+
   private static validateCurrencyCode(currency: string): void {
     if (
       currency.length !== Money.CURRENCY_CODE_LENGTH ||
@@ -115,17 +169,49 @@ export class Money {
   }
 
   /**
-   * 金額の除算（整数除算）
+   * 金額の除算（端数は指定した方式で丸める）
    */
-  divide(divisor: number): Money {
+  divide(divisor: number, rounding: RoundingMode): Money {
     if (!Number.isInteger(divisor)) {
       throw new MoneyValidationError('除数は整数である必要があります');
     }
     if (divisor < Money.MIN_POSITIVE_INTEGER) {
       throw new MoneyValidationError('除数は0より大きい必要があります');
     }
-    // 整数除算
-    return new Money(Math.floor(this._amount / divisor), this._currency);
+    return new Money(
+      divideWithRounding(BigInt(this._amount), BigInt(divisor), rounding),
+      this._currency,
+    );
+  }
+
+  /**
+   * 為替レートで別通貨に換算（端数は指定した方式で丸める）
+   * 金額は各通貨の最小単位の整数のため、補助単位の桁数の差だけ桁をずらす（例: 1234 USD セント → 12.34 ドル → 1851 円）
+   * ビジネスルール: 換算元の通貨はレートの換算元と一致している必要がある
+   */
+  convert(
+    rate: ExchangeRate,
+    rounding: RoundingMode,
+    exponents: CurrencyExponents,
+  ): Money {
+    if (this._currency !== rate.from) {
+      throw new MoneyValidationError(
+        `換算元の通貨が異なります: ${this._currency} vs ${rate.from}`,
+      );
+    }
+    Money.validateExponent(exponents.from);
+    Money.validateExponent(exponents.to);
+
+    const shift = exponents.to - exponents.from;
+    const scale = DECIMAL_BASE ** BigInt(Math.abs(shift));
+    return new Money(
+      divideWithRounding(
+        BigInt(this._amount) * rate.numerator * (shift > 0 ? scale : 1n),
+        rate.denominator * (shift < 0 ? scale : 1n),
+        rounding,
+      ),
+      rate.to,
+    );
   }
 
   // =====================================
@@ -173,6 +259,18 @@ export class Money {
     return `¥${this._amount.toLocaleString('ja-JP')}`;
   }
 
+  /**
+   * 補助単位の桁数に合わせた10進数表記の文字列で取得（例: 1234 USD セント → "12.34"、1000 円 → "1000"）
+   */
+  toDecimalString(exponent: number): string {
+    Money.validateExponent(exponent);
+
+    const digits = String(this._amount).padStart(exponent + 1, '0');
+    return exponent === Money.ZERO
+      ? digits
+      : `${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+  }
+
   /**
    * 通貨が同じかをチェック
    */
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { SearchText } from './search-text';
+
+describe('SearchText（検索用の正規化済み文字列）', () => {
+  describe('正常系', () => {
+    it('全角英数を半角に、英字を小文字に揃える', () => {
+      expect(SearchText.from('ＡｍａｚｏｎでＵＳＢケーブル１本').value).toBe(
+        'amazonでusbけーぶる1本',
+      );
+    });
+
+    it('カタカナと半角カナをひらがなに揃える', () => {
+      expect(SearchText.from('コンビニ').value).toBe('こんびに');
+      expect(SearchText.from('ｺﾝﾋﾞﾆ').value).toBe('こんびに');
+      expect(SearchText.from('ヴァイオリン教室').value).toBe(
+        'ゔぁいおりん教室',
+      );
+    });
+
+    it('複数の項目を空白区切りで連結し、null/undefined は無視する', () => {
+      expect(SearchText.from('ランチ', null).value).toBe('らんち');
+      expect(SearchText.from('ランチ', undefined, '会社の同僚と').value).toBe(
+        'らんち 会社の同僚と',
+      );
+    });
+
+    it('連続する空白（全角空白を含む）を1つにまとめ、前後の空白を取り除く', () => {
+      expect(SearchText.from('  Amazon　　 3月  ').value).toBe('amazon 3月');
+    });
+
+    it('空白区切りの検索語の一覧を返す', () => {
+      expect(SearchText.from('Amazon　３月').terms()).toEqual([
+        'amazon',
+        '3月',
+      ]);
+    });
+
+    it('空白のみの場合は空として扱う', () => {
+      const text = SearchText.from('  　 ');
+
+      expect(text.isEmpty()).toBe(true);
+      expect(text.terms()).toEqual([]);
+    });
+  });
+});
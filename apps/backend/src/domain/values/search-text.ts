@@ -0,0 +1,53 @@
+// Domain Layer: SearchText Value Object
+// 取引の検索に使う文字列を、表記ゆれを吸収した形に正規化して表現する
+
+// NOTE: カタカナ（ァ〜ヶ）とひらがな（ぁ〜ゖ）はコードポイントが 0x60 ずれて並んでいる
+const KATAKANA_PATTERN = /[ァ-ヶ]/g;
+const KATAKANA_TO_HIRAGANA_OFFSET = 0x60;
+
+const toHiragana = (value: string): string =>
+  value.replace(KATAKANA_PATTERN, (char) =>
+    String.fromCharCode(
+      (char.codePointAt(0) ?? 0) - KATAKANA_TO_HIRAGANA_OFFSET,
+    ),
+  );
+
+/**
+ * - NFKC で全角英数/半角カナなどの文字幅の違いを揃える
+ * - 英字は小文字、カタカナはひらがなに揃える
+ * - 連続する空白は1つにまとめ、前後の空白は取り除く
+ */
+const normalize = (value: string): string =>
+  toHiragana(value.normalize('NFKC').toLowerCase()).replace(/\s+/g, ' ').trim();
+
+export class SearchText {
+  private constructor(private readonly _value: string) {}
+
+  /**
+   * 複数の項目（タイトルとメモなど）をまとめて正規化する
+   */
+  static from(...parts: (string | null | undefined)[]): SearchText {
+    return new SearchText(
+      normalize(
+        parts
+          .filter((part): part is string => part !== null && part !== undefined)
+          .join(' '),
+      ),
+    );
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  /**
+   * 空白区切りの検索語の一覧（すべての語を含むものを検索対象にする）
+   */
+  terms(): string[] {
+    return this.isEmpty() ? [] : this._value.split(' ');
+  }
+
+  isEmpty(): boolean {
+    return this._value.length === 0;
+  }
+}
@@ -114,6 +114,64 @@ describe('TransactionDate（取引日付）', () => {
       const past = TransactionDate.of(2020, 1, 1);
       expect(past.isPast()).toBe(true);
     });
+
+    it('startOfMonth/endOfMonth: 月初と月末を取得できる', () => {
+      const date = TransactionDate.of(2025, 3, 15);
+
+      expect(date.startOfMonth().format()).toBe('2025-03-01');
+      expect(date.endOfMonth().format()).toBe('2025-03-31');
+    });
+
+    it('endOfMonth: うるう年の2月末を取得できる', () => {
+      expect(TransactionDate.of(2024, 2, 10).endOfMonth().format()).toBe(
+        '2024-02-29',
+      );
+      expect(TransactionDate.of(2025, 2, 10).endOfMonth().format()).toBe(
+        '2025-02-28',
+      );
+    });
+
+    it('addDays: 月・年をまたいで日数を加算できる', () => {
+      expect(TransactionDate.of(2025, 1, 31).addDays(1).format()).toBe(
+        '2025-02-01',
+      );
+      expect(TransactionDate.of(2025, 12, 25).addDays(7).format()).toBe(
+        '2026-01-01',
+      );
+    });
+
+    it('addMonths: 月末日は移動先の月末に丸められる', () => {
+      const date = TransactionDate.of(2025, 1, 31);
+
+      expect(date.addMonths(1).format()).toBe('2025-02-28');
+      expect(date.addMonths(2).format()).toBe('2025-03-31');
+      expect(date.addMonths(3).format()).toBe('2025-04-30');
+      expect(TransactionDate.of(2024, 1, 31).addMonths(1).format()).toBe(
+        '2024-02-29',
+      );
+    });
+
+    it('addMonths: 年をまたいで加算できる', () => {
+      expect(TransactionDate.of(2025, 11, 25).addMonths(3).format()).toBe(
+        '2026-02-25',
+      );
+    });
+
+    it('addYears: うるう日は平年では2/28に丸められる', () => {
+      const date = TransactionDate.of(2024, 2, 29);
+
+      expect(date.addYears(1).format()).toBe('2025-02-28');
+      expect(date.addYears(4).format()).toBe('2028-02-29');
+    });
+
+    it('daysUntil/monthsUntil: 日数と月数の差を取得できる', () => {
+      const from = TransactionDate.of(2025, 1, 31);
+      const to = TransactionDate.of(2025, 3, 1);
+
+      expect(from.daysUntil(to)).toBe(29);
+      expect(to.daysUntil(from)).toBe(-29);
+      expect(from.monthsUntil(to)).toBe(2);
+    });
   });
 
   describe('異常系', () => {
@@ -28,6 +28,8 @@ export class TransactionDate {
   private static readonly PAD_CHAR = '0' as const;
 
   private static readonly JS_MONTH_OFFSET = 1 as const;
+  private static readonly MONTHS_PER_YEAR = 12 as const;
+  private static readonly MS_PER_DAY = 86_400_000 as const;
 
   private constructor(
     private readonly _year: number,
@@ -195,6 +197,84 @@ export class TransactionDate {
     return `${year}${TransactionDate.DATE_SEPARATOR}${month}${TransactionDate.DATE_SEPARATOR}${day}`;
   }
 
+  /**
+   * 同じ月の初日を取得
+   */
+  startOfMonth(): TransactionDate {
+    return TransactionDate.of(this._year, this._month, TransactionDate.DAY_MIN);
+  }
+
+  /**
+   * 同じ月の末日を取得
+   */
+  endOfMonth(): TransactionDate {
+    // 翌月の0日目 = 当月末日
+    const lastDay = new Date(this._year, this._month, 0).getDate();
+    return TransactionDate.of(this._year, this._month, lastDay);
+  }
+
+  // =====================================
+  // 演算メソッド
+  // =====================================
+
+  /**
+   * 指定日数後の日付を取得
+   */
+  addDays(days: number): TransactionDate {
+    return TransactionDate.fromDate(
+      new Date(
+        this._year,
+        this._month - TransactionDate.JS_MONTH_OFFSET,
+        this._day + days,
+      ),
+    );
+  }
+
+  /**
+   * 指定月数後の日付を取得
+   * NOTE: 移動先の月に同じ日が存在しない場合は月末に丸める（例: 1/31 + 1ヶ月 = 2/28）
+   */
+  addMonths(months: number): TransactionDate {
+    const monthIndex = this._month - TransactionDate.JS_MONTH_OFFSET + months;
+    const year =
+      this._year + Math.floor(monthIndex / TransactionDate.MONTHS_PER_YEAR);
+    const month =
+      (((monthIndex % TransactionDate.MONTHS_PER_YEAR) +
+        TransactionDate.MONTHS_PER_YEAR) %
+        TransactionDate.MONTHS_PER_YEAR) +
+      TransactionDate.JS_MONTH_OFFSET;
+    const lastDay = new Date(year, month, 0).getDate();
+
+    return TransactionDate.of(year, month, Math.min(this._day, lastDay));
+  }
+
+  /**
+   * 指定年数後の日付を取得（うるう日は平年では2/28に丸める）
+   */
+  addYears(years: number): TransactionDate {
+    return this.addMonths(years * TransactionDate.MONTHS_PER_YEAR);
+  }
+
+  /**
+   * 指定日までの日数を取得（指定日が過去の場合は負の値）
+   */
+  daysUntil(other: TransactionDate): number {
+    return Math.round(
+      (other.toDate().getTime() - this.toDate().getTime()) /
+        TransactionDate.MS_PER_DAY,
+    );
+  }
+
+  /**
+   * 指定日までの月数（暦月の差）を取得
+   */
+  monthsUntil(other: TransactionDate): number {
+    return (
+      (other._year - this._year) * TransactionDate.MONTHS_PER_YEAR +
+      (other._month - this._month)
+    );
+  }
+
   /**
    * 日本語形式の文字列に変換 (YYYY年M月D日)
    */
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  TransactionListCursor,
+  TransactionListCursorDomainError,
+} from './transaction-list-cursor';
+import { TransactionListOrder } from './transaction-list-order';
+
+describe('TransactionListCursor（取引一覧のカーソル）', () => {
+  const item = {
+    id: 42,
+    date: '2025-03-15',
+    amount: 1980,
+    title: 'Amazon',
+    createdAt: new Date('2025-03-15T10:20:30.456Z'),
+  };
+
+  describe('正常系', () => {
+    it('エンコードしたカーソルを同じ並び順でデコードできる（date）', () => {
+      const order = TransactionListOrder.from('desc');
+      const encoded = TransactionListCursor.fromItem(order, item).encode();
+
+      const decoded = TransactionListCursor.decode(encoded, order);
+
+      expect(decoded.id).toBe(42);
+      expect(decoded.sortValue).toBe('2025-03-15');
+    });
+
+    it('並び替えの項目に応じた値を保持する（amount/title）', () => {
+      const byAmount = TransactionListOrder.from('asc', 'amount');
+      const byTitle = TransactionListOrder.from('asc', 'title');
+
+      expect(
+        TransactionListCursor.decode(
+          TransactionListCursor.fromItem(byAmount, item).encode(),
+          byAmount,
+        ).sortValue,
+      ).toBe(1980);
+      expect(
+        TransactionListCursor.decode(
+          TransactionListCursor.fromItem(byTitle, item).encode(),
+          byTitle,
+        ).sortValue,
+      ).toBe('Amazon');
+    });
+
+    it('createdAt はミリ秒まで保持し、Date として取り出せる', () => {
+      const order = TransactionListOrder.from('desc', 'createdAt');
+      const encoded = TransactionListCursor.fromItem(order, item).encode();
+
+      expect(TransactionListCursor.decode(encoded, order).sortValue).toEqual(
+        new Date('2025-03-15T10:20:30.456Z'),
+      );
+    });
+  });
+
+  describe('異常系', () => {
+    it('並び替えの項目が異なるカーソルは例外になる', () => {
+      const encoded = TransactionListCursor.fromItem(
+        TransactionListOrder.from('desc'),
+        item,
+      ).encode();
+
+      expect(() =>
+        TransactionListCursor.decode(
+          encoded,
+          TransactionListOrder.from('desc', 'amount'),
+        ),
+      ).toThrow(TransactionListCursorDomainError);
+    });
+
+    it('並び順の方向が異なるカーソルは例外になる', () => {
+      const encoded = TransactionListCursor.fromItem(
+        TransactionListOrder.from('desc'),
+        item,
+      ).encode();
+
+      expect(() =>
+        TransactionListCursor.decode(encoded, TransactionListOrder.from('asc')),
+      ).toThrow(TransactionListCursorDomainError);
+    });
+
+    it('デコードできない文字列は例外になる', () => {
+      expect(() =>
+        TransactionListCursor.decode(
+          'not-a-cursor',
+          TransactionListOrder.from('desc'),
+        ),
+      ).toThrow(TransactionListCursorDomainError);
+    });
+
+    it('値の形式が並び替えの項目と合わない場合は例外になる', () => {
+      const encoded = Buffer.from(
+        JSON.stringify({ s: 'date', o: 'desc', v: 123, id: 1 }),
+        'utf8',
+      ).toString('base64url');
+
+      expect(() =>
+        TransactionListCursor.decode(
+          encoded,
+          TransactionListOrder.from('desc'),
+        ),
+      ).toThrow(TransactionListCursorDomainError);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+// Domain Layer: TransactionListCursor Value Object
+// 取引一覧のカーソル（直前のページの最後の取引の並び替えキーとID）を表現する
+
+import { DomainError } from './domain-error';
+import type {
+  TransactionListOrder,
+  TransactionListOrderValue,
+  TransactionListSortKey,
+} from './transaction-list-order';
+
+export class TransactionListCursorDomainError extends DomainError {
+  constructor(message: string) {
+    super(message, 'TransactionListCursorDomainError');
+  }
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+type CursorItem = {
+  id: number;
+  date: string;
+  amount: number;
+  title: string;
+  createdAt: Date;
+};
+
+// NOTE: createdAt はミリ秒（エポック）で保持する
+type CursorPayload = {
+  s: TransactionListSortKey;
+  o: TransactionListOrderValue;
+  v: string | number;
+  id: number;
+};
+
+const toSortValue = (
+  sortBy: TransactionListSortKey,
+  item: CursorItem,
+): string | number => {
+  switch (sortBy) {
+    case 'date':
+      return item.date;
+    case 'amount':
+      return item.amount;
+    case 'createdAt':
+      return item.createdAt.getTime();
+    case 'title':
+      return item.title;
+  }
+};
+
+const isValidSortValue = (
+  sortBy: TransactionListSortKey,
+  value: unknown,
+): value is string | number => {
+  switch (sortBy) {
+    case 'date':
+      return typeof value === 'string' && DATE_REGEX.test(value);
+    case 'amount':
+    case 'createdAt':
+      return Number.isInteger(value);
+    case 'title':
+      return typeof value === 'string';
+  }
+};
+
+const parsePayload = (encoded: string): Partial<CursorPayload> | null => {
+  try {
+    const parsed: unknown = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    );
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * - 並び替えの項目と方向が一致するカーソルのみ受け付ける（並び順を変えた場合は先頭から取得し直す）
+ * - クライアントには中身を意識させないため、base64url でエンコードした文字列として扱う
+ */
+export class TransactionListCursor {
+  private constructor(
+    private readonly order: TransactionListOrder,
+    private readonly value: string | number,
+    public readonly id: number,
+  ) {}
+
+  static fromItem(
+    order: TransactionListOrder,
+    item: CursorItem,
+  ): TransactionListCursor {
+    return new TransactionListCursor(
+      order,
+      toSortValue(order.sortBy, item),
+      item.id,
+    );
+  }
+
+  static decode(
+    encoded: string,
+    order: TransactionListOrder,
+  ): TransactionListCursor {
+    const payload = parsePayload(encoded);
+
+    if (
+      payload === null ||
+      payload.s !== order.sortBy ||
+      payload.o !== order.direction ||
+      !isValidSortValue(order.sortBy, payload.v) ||
+      !Number.isInteger(payload.id) ||
+      (payload.id ?? 0) <= 0
+    ) {
+      throw new TransactionListCursorDomainError(
+        'カーソルが不正です（並び順を変更した場合は先頭から取得し直してください）',
+      );
+    }
+
+    return new TransactionListCursor(order, payload.v, payload.id as number);
+  }
+
+  /**
+   * 並び替えキーの値（createdAt の場合は Date に戻す）
+   */
+  get sortValue(): string | number | Date {
+    return this.order.sortBy === 'createdAt'
+      ? new Date(this.value)
+      : this.value;
+  }
+
+  encode(): string {
+    const payload: CursorPayload = {
+      s: this.order.sortBy,
+      o: this.order.direction,
+      v: this.value,
+      id: this.id,
+    };
+    return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  }
+}
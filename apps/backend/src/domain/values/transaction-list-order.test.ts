@@ -19,5 +19,14 @@ describe('TransactionListOrder（取引一覧の並び順）', () => {
         { field: 'id', direction: 'desc' },
       ]);
     });
+
+    it('並び替えの項目を指定した場合は、その項目→id の順序を返す', () => {
+      const order = TransactionListOrder.from('asc', 'amount');
+      expect(order.sortBy).toBe('amount');
+      expect(order.toCompositeOrder()).toEqual([
+        { field: 'amount', direction: 'asc' },
+        { field: 'id', direction: 'asc' },
+      ]);
+    });
   });
 });
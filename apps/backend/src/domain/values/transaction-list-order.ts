@@ -1,26 +1,34 @@
 export type TransactionListOrderValue = 'asc' | 'desc';
 
+export type TransactionListSortKey = 'date' | 'amount' | 'createdAt' | 'title';
+
 type CompositeOrder = ReadonlyArray<{
-  field: 'date' | 'id';
+  field: TransactionListSortKey | 'id';
   direction: TransactionListOrderValue;
 }>;
 
 /**
  * 取引一覧の並び順を表す値オブジェクト。
  *
- * - ビジネス上の安定ソートとして、`date` を主キー、`id` を副キーにする
+ * - ビジネス上の安定ソートとして、並び替えの項目（既定は `date`）を主キー、`id` を副キーにする
  * - direction（asc/desc）は両方のキーに同一方向で適用する
  */
 export class TransactionListOrder {
-  private constructor(public readonly direction: TransactionListOrderValue) {}
+  private constructor(
+    public readonly direction: TransactionListOrderValue,
+    public readonly sortBy: TransactionListSortKey,
+  ) {}
 
-  static from(direction: TransactionListOrderValue): TransactionListOrder {
-    return new TransactionListOrder(direction);
+  static from(
+    direction: TransactionListOrderValue,
+    sortBy: TransactionListSortKey = 'date',
+  ): TransactionListOrder {
+    return new TransactionListOrder(direction, sortBy);
   }
 
   toCompositeOrder(): CompositeOrder {
     return [
-      { field: 'date', direction: this.direction },
+      { field: this.sortBy, direction: this.direction },
       { field: 'id', direction: this.direction },
     ] as const;
   }
@@ -20,9 +20,19 @@ describe('TransactionType（取引タイプ）', () => {
       expect(expense.isExpense()).toBe(true);
     });
 
-    it('fromString: INCOME/EXPENSE のみ受け付ける', () => {
+    it('transfer: 振替のインスタンスを作成できる', () => {
+      const transfer = TransactionType.transfer();
+
+      expect(transfer.value).toBe('TRANSFER');
+      expect(transfer.isTransfer()).toBe(true);
+      expect(transfer.isIncome()).toBe(false);
+      expect(transfer.isExpense()).toBe(false);
+    });
+
+    it('fromString: INCOME/EXPENSE/TRANSFER のみ受け付ける', () => {
       expect(TransactionType.fromString('INCOME').value).toBe('INCOME');
       expect(TransactionType.fromString('EXPENSE').value).toBe('EXPENSE');
+      expect(TransactionType.fromString('TRANSFER').value).toBe('TRANSFER');
     });
 
     it('equals/toString: 値として比較できる', () => {
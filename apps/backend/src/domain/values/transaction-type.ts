@@ -1,5 +1,5 @@
 // Value Object: TransactionType
-// 取引タイプ(収入/支出)を表現
+// 取引タイプ(収入/支出/振替)を表現
 
 export class TransactionTypeValidationError extends Error {
   constructor(message: string) {
@@ -11,10 +11,13 @@ export class TransactionTypeValidationError extends Error {
 export class TransactionType {
   private static readonly INCOME = 'INCOME' as const;
   private static readonly EXPENSE = 'EXPENSE' as const;
+  private static readonly TRANSFER = 'TRANSFER' as const;
 
-  private constructor(private readonly _value: 'INCOME' | 'EXPENSE') {}
+  private constructor(
+    private readonly _value: 'INCOME' | 'EXPENSE' | 'TRANSFER',
+  ) {}
 
-  get value(): 'INCOME' | 'EXPENSE' {
+  get value(): 'INCOME' | 'EXPENSE' | 'TRANSFER' {
     return this._value;
   }
 
@@ -26,10 +29,14 @@ export class TransactionType {
     return new TransactionType(TransactionType.EXPENSE);
   }
 
+  static transfer(): TransactionType {
+    return new TransactionType(TransactionType.TRANSFER);
+  }
+
   static fromString(type: string): TransactionType {
-    if (type !== 'INCOME' && type !== 'EXPENSE') {
+    if (type !== 'INCOME' && type !== 'EXPENSE' && type !== 'TRANSFER') {
       throw new TransactionTypeValidationError(
-        '取引タイプはINCOMEまたはEXPENSEである必要があります',
+        '取引タイプはINCOME、EXPENSE、TRANSFERのいずれかである必要があります',
       );
     }
     return new TransactionType(type);
@@ -43,6 +50,10 @@ export class TransactionType {
     return this._value === TransactionType.EXPENSE;
   }
 
+  isTransfer(): boolean {
+    return this._value === TransactionType.TRANSFER;
+  }
+
   equals(other: TransactionType): boolean {
     return this._value === other._value;
   }
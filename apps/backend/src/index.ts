@@ -5,12 +5,31 @@ import { db } from '@account-book-app/db';
 import { serve } from '@hono/node-server';
 import { trpcServer } from '@hono/trpc-server';
 import { OpenAPIHono } from '@hono/zod-openapi';
+import { createRateLimitMiddleware } from './controller/middlewares/rate-limit.middleware';
 import { appRouter } from './controller/routers';
 import { registerOpenApi } from './controller/routers/openapi';
 import { createContext } from './controller/trpc/context';
+import { rateLimitResponseMeta } from './controller/trpc/rate-limit';
+import { startPurgeDeletedUsersJob } from './infrastructre/jobs/purge-deleted-users.job';
+import { startPurgeTrashedTransactionsJob } from './infrastructre/jobs/purge-trashed-transactions.job';
+import { startRecurringTransactionsJob } from './infrastructre/jobs/recurring-transactions.job';
+import { resolveAttachmentStorageDriver } from './infrastructre/storage/attachment-storage-driver';
+
+// 添付ファイルの保存先の設定漏れはリクエストを受け付ける前に検知して起動を止める
+resolveAttachmentStorageDriver();
 
 const app = new OpenAPIHono();
 
+// 接続元IPごとのリクエスト数の上限（認証系など個別の上限は各プロシージャで設定する）
+app.use(
+  '*',
+  createRateLimitMiddleware(db, {
+    name: 'api',
+    limit: 300,
+    windowMs: 60_000,
+  }),
+);
+
 // Health check endpoint
 app.get('/', (c) => {
   return c.json({ status: 'ok', message: 'Account Book API' });
@@ -24,6 +43,7 @@ app.use(
   trpcServer({
     router: appRouter,
     createContext: createContext(db),
+    responseMeta: rateLimitResponseMeta,
   }),
 );
 
@@ -39,3 +59,7 @@ serve(
     console.log(`📡 tRPC endpoint: http://localhost:${info.port}/trpc`);
   },
 );
+
+startRecurringTransactionsJob(db);
+startPurgeDeletedUsersJob(db);
+startPurgeTrashedTransactionsJob(db);
@@ -31,12 +31,14 @@ describe('jwt（JWTユーティリティ）', () => {
       const token = await createAccessToken({
         userId: 123,
         email: 'user@example.com',
+        sessionId: 'session-1',
       });
 
       const payload = await verifyAccessToken(token);
 
       expect(payload.sub).toBe('123');
       expect(payload.email).toBe('user@example.com');
+      expect(payload.sid).toBe('session-1');
       expect(payload.exp - payload.iat).toBe(60 * 60 * 24 * 7);
     });
   });
@@ -49,6 +51,7 @@ describe('jwt（JWTユーティリティ）', () => {
         createAccessToken({
           userId: 1,
           email: 'user@example.com',
+          sessionId: 'session-1',
         }),
       ).rejects.toThrow('JWT_SECRET が設定されていません');
     });
@@ -60,6 +63,7 @@ describe('jwt（JWTユーティリティ）', () => {
         createAccessToken({
           userId: 1,
           email: 'user@example.com',
+          sessionId: 'session-1',
         }),
       ).rejects.toThrow('JWT_EXPIRES_IN_SECONDS が設定されていません');
     });
@@ -71,6 +75,7 @@ describe('jwt（JWTユーティリティ）', () => {
         createAccessToken({
           userId: 1,
           email: 'user@example.com',
+          sessionId: 'session-1',
         }),
       ).rejects.toThrow('JWT_EXPIRES_IN_SECONDS は正の整数で設定してください');
     });
@@ -82,6 +87,7 @@ describe('jwt（JWTユーティリティ）', () => {
         createAccessToken({
           userId: 1,
           email: 'user@example.com',
+          sessionId: 'session-1',
         }),
       ).rejects.toThrow('JWT_EXPIRES_IN_SECONDS は正の整数で設定してください');
     });
@@ -90,6 +96,7 @@ describe('jwt（JWTユーティリティ）', () => {
       const token = await createAccessToken({
         userId: 1,
         email: 'user@example.com',
+        sessionId: 'session-1',
       });
       delete process.env.JWT_SECRET;
 
@@ -113,6 +120,7 @@ describe('jwt（JWTユーティリティ）', () => {
         const token = await provider.create({
           userId: 456,
           email: 'provider@example.com',
+          sessionId: 'session-1',
         });
 
         const payload = await verifyAccessToken(token);
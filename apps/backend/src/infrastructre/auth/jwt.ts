@@ -1,7 +1,10 @@
 import { sign, verify } from 'hono/jwt';
 import { injectable } from 'inversify';
 
-import type { ICreateJwtTokenProvider } from '../../services/auth/create-jwt.service';
+import type {
+  CreateJwtParams,
+  ICreateJwtTokenProvider,
+} from '../../services/auth/create-jwt.service';
 import type {
   IVerifyJwtTokenProvider,
   VerifiedTokenPayload,
@@ -17,6 +20,7 @@ export type AccessTokenPayload = {
   email: string;
   iat: number;
   exp: number;
+  sid?: string;
 };
 
 export class JwtTokenExpiredError extends Data.TaggedError(
@@ -79,15 +83,15 @@ const resolveJwtExpiresInSeconds = (): number => {
   return parsed;
 };
 
-export const createAccessToken = async (params: {
-  userId: number;
-  email: string;
-}): Promise<string> => {
+export const createAccessToken = async (
+  params: CreateJwtParams,
+): Promise<string> => {
   const now = Math.floor(Date.now() / 1000);
   const expiresInSeconds = resolveJwtExpiresInSeconds();
   const payload: AccessTokenPayload = {
     sub: String(params.userId),
     email: params.email,
+    sid: params.sessionId,
     iat: now,
     exp: now + expiresInSeconds,
   };
@@ -105,6 +109,7 @@ export const verifyAccessToken = async (
     email: String(payload.email ?? ''),
     iat: Number(payload.iat ?? 0),
     exp: Number(payload.exp ?? 0),
+    sid: typeof payload.sid === 'string' ? payload.sid : undefined,
   };
 };
 
@@ -157,7 +162,7 @@ export const verifyAccessTokenEffect = (
 
 @injectable()
 export class CreateJwtProvider implements ICreateJwtTokenProvider {
-  create(params: { userId: number; email: string }): Promise<string> {
+  create(params: CreateJwtParams): Promise<string> {
     return createAccessToken(params);
   }
 }
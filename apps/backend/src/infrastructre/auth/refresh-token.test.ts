@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { RefreshTokenProvider } from './refresh-token';
+
+describe('RefreshTokenProvider（リフレッシュトークン生成）', () => {
+  const originalExpiresInSeconds = process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS;
+
+  afterEach(() => {
+    if (originalExpiresInSeconds === undefined) {
+      delete process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS;
+      return;
+    }
+
+    process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS = originalExpiresInSeconds;
+  });
+
+  describe('正常系', () => {
+    it('generate: 呼び出すたびに異なるURLセーフなトークンを生成する', () => {
+      const provider = new RefreshTokenProvider();
+
+      const first = provider.generate();
+      const second = provider.generate();
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(first).not.toBe(second);
+    });
+
+    it('expiresInSeconds: 環境変数の値を返し、未設定の場合は30日を返す', () => {
+      const provider = new RefreshTokenProvider();
+
+      process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS = '3600';
+      expect(provider.expiresInSeconds()).toBe(3600);
+
+      delete process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS;
+      expect(provider.expiresInSeconds()).toBe(60 * 60 * 24 * 30);
+    });
+  });
+
+  describe('異常系', () => {
+    it('expiresInSeconds: 正の整数でない場合は例外になる', () => {
+      process.env.REFRESH_TOKEN_EXPIRES_IN_SECONDS = '0';
+
+      expect(() => new RefreshTokenProvider().expiresInSeconds()).toThrow(
+        'REFRESH_TOKEN_EXPIRES_IN_SECONDS は正の整数で設定してください',
+      );
+    });
+  });
+});
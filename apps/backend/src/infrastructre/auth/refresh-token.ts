@@ -0,0 +1,38 @@
+import { randomBytes } from 'node:crypto';
+import { injectable } from 'inversify';
+
+import type { IRefreshTokenProvider } from '../../services/auth/refresh-token.service';
+
+const REFRESH_TOKEN_EXPIRES_IN_SECONDS_ENV_KEY =
+  'REFRESH_TOKEN_EXPIRES_IN_SECONDS';
+const DEFAULT_REFRESH_TOKEN_EXPIRES_IN_SECONDS = 60 * 60 * 24 * 30;
+const REFRESH_TOKEN_BYTE_LENGTH = 32;
+
+const resolveRefreshTokenExpiresInSeconds = (): number => {
+  const value = process.env[REFRESH_TOKEN_EXPIRES_IN_SECONDS_ENV_KEY];
+
+  if (!value) {
+    return DEFAULT_REFRESH_TOKEN_EXPIRES_IN_SECONDS;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(
+      'REFRESH_TOKEN_EXPIRES_IN_SECONDS は正の整数で設定してください',
+    );
+  }
+
+  return parsed;
+};
+
+@injectable()
+export class RefreshTokenProvider implements IRefreshTokenProvider {
+  generate(): string {
+    return randomBytes(REFRESH_TOKEN_BYTE_LENGTH).toString('base64url');
+  }
+
+  expiresInSeconds(): number {
+    return resolveRefreshTokenExpiresInSeconds();
+  }
+}
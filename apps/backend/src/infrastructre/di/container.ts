@@ -2,29 +2,159 @@ import 'reflect-metadata';
 
 import type { NodePgDatabase } from '@account-book-app/db';
 import { Container } from 'inversify';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
 import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { IEmailChangeTokenRepository } from '../../domain/repositories/email-change-token.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import type { ILedgerRepository } from '../../domain/repositories/ledger.repository.interface';
+import type { ILedgerInvitationRepository } from '../../domain/repositories/ledger-invitation.repository.interface';
+import type { IPasswordResetTokenRepository } from '../../domain/repositories/password-reset-token.repository.interface';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
 import type { ITokenBlacklistRepository } from '../../domain/repositories/token-blacklist.repository.interface';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import type { ITransactionRevisionRepository } from '../../domain/repositories/transaction-revision.repository.interface';
 import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import type { IUserSessionRepository } from '../../domain/repositories/user-session.repository.interface';
+import { CreateAccountUseCase } from '../../services/accounts/create-account.service';
+import { DeleteAccountUseCase } from '../../services/accounts/delete-account.service';
+import { GetAccountBalancesUseCase } from '../../services/accounts/get-account-balances.service';
+import { ListAccountsUseCase } from '../../services/accounts/list-accounts.service';
+import { UpdateAccountUseCase } from '../../services/accounts/update-account.service';
 import { CreateJwtService } from '../../services/auth/create-jwt.service';
+import { EmailChangeTokenService } from '../../services/auth/email-change-token.service';
+import { LoginThrottleService } from '../../services/auth/login-throttle.service';
+import { PasswordResetTokenService } from '../../services/auth/password-reset-token.service';
+import {
+  type IRefreshTokenProvider,
+  RefreshTokenService,
+} from '../../services/auth/refresh-token.service';
+import { SessionService } from '../../services/auth/session.service';
 import type { IVerifyJwtTokenProvider } from '../../services/auth/verify-jwt.service';
+import { CreateBudgetUseCase } from '../../services/budgets/create-budget.service';
+import { DeleteBudgetUseCase } from '../../services/budgets/delete-budget.service';
+import { GetBudgetStatusUseCase } from '../../services/budgets/get-budget-status.service';
+import { ListBudgetsUseCase } from '../../services/budgets/list-budgets.service';
+import { UpdateBudgetUseCase } from '../../services/budgets/update-budget.service';
+import { BulkUpdateCategoryVisibilityUseCase } from '../../services/categories/bulk-update-category-visibility.service';
 import { CreateCategoryUseCase } from '../../services/categories/create.category.service';
+import { DeleteCategoryUseCase } from '../../services/categories/delete-category.service';
 import { GetCategoryUseCase } from '../../services/categories/get-category.service';
 import { ListCategoriesUseCase } from '../../services/categories/list-categories.service';
+import { MergeCategoryUseCase } from '../../services/categories/merge-category.service';
+import { ReorderCategoriesUseCase } from '../../services/categories/reorder-categories.service';
 import { UpdateCategoryUseCase } from '../../services/categories/update-category.service';
+import { ListCurrenciesUseCase } from '../../services/currencies/list-currencies.service';
+import { UpdateCurrencyStatusUseCase } from '../../services/currencies/update-currency-status.service';
 import { TOKENS } from '../../services/di/tokens';
+import { ImportExchangeRatesUseCase } from '../../services/exchange-rates/import-exchange-rates.service';
+import { AcceptLedgerInvitationUseCase } from '../../services/ledgers/accept-ledger-invitation.service';
+import { InviteLedgerMemberUseCase } from '../../services/ledgers/invite-ledger-member.service';
+import {
+  type ILedgerAccessService,
+  LedgerAccessService,
+} from '../../services/ledgers/ledger-access.service';
+import { LedgerInvitationTokenService } from '../../services/ledgers/ledger-invitation-token.service';
+import { ListLedgersUseCase } from '../../services/ledgers/list-ledgers.service';
+import { RemoveLedgerMemberUseCase } from '../../services/ledgers/remove-ledger-member.service';
+import type { IMailSender } from '../../services/mail/mail-sender';
+import type { IRateLimitStore } from '../../services/rate-limit/rate-limit-store';
+import {
+  type IRateLimiter,
+  RateLimiter,
+} from '../../services/rate-limit/rate-limiter.service';
+import { CreateRecurringTransactionUseCase } from '../../services/recurring-transactions/create-recurring-transaction.service';
+import { DeleteRecurringTransactionUseCase } from '../../services/recurring-transactions/delete-recurring-transaction.service';
+import { GenerateRecurringTransactionsUseCase } from '../../services/recurring-transactions/generate-recurring-transactions.service';
+import { ListRecurringTransactionsUseCase } from '../../services/recurring-transactions/list-recurring-transactions.service';
+import { CreateTagUseCase } from '../../services/tags/create-tag.service';
+import { DeleteTagUseCase } from '../../services/tags/delete-tag.service';
+import { ListTagsUseCase } from '../../services/tags/list-tags.service';
+import { UpdateTagUseCase } from '../../services/tags/update-tag.service';
+import type { IAttachmentStorage } from '../../services/transaction-attachments/attachment-storage';
+import { DeleteTransactionAttachmentUseCase } from '../../services/transaction-attachments/delete-transaction-attachment.service';
+import { DownloadTransactionAttachmentUseCase } from '../../services/transaction-attachments/download-transaction-attachment.service';
+import { ListTransactionAttachmentsUseCase } from '../../services/transaction-attachments/list-transaction-attachments.service';
+import { UploadTransactionAttachmentUseCase } from '../../services/transaction-attachments/upload-transaction-attachment.service';
 import { CreateTransactionUseCase } from '../../services/transactions/create-transaction.service';
 import { DeleteTransactionUseCase } from '../../services/transactions/delete-transaction.service';
+import { ExportTransactionsUseCase } from '../../services/transactions/export-transactions.service';
+import { GetTransactionHistoryUseCase } from '../../services/transactions/get-transaction-history.service';
+import { ImportTransactionsUseCase } from '../../services/transactions/import-transactions.service';
 import { ListTransactionsUseCase } from '../../services/transactions/list-transactions.service';
+import { ListTrashedTransactionsUseCase } from '../../services/transactions/list-trashed-transactions.service';
+import { PurgeTransactionUseCase } from '../../services/transactions/purge-transaction.service';
+import { PurgeTrashedTransactionsUseCase } from '../../services/transactions/purge-trashed-transactions.service';
+import { RestoreTransactionUseCase } from '../../services/transactions/restore-transaction.service';
+import { SummarizeTransactionsUseCase } from '../../services/transactions/summarize-transactions.service';
 import { UpdateTransactionUseCase } from '../../services/transactions/update-transaction.service';
+import { ListUserSessionsUseCase } from '../../services/user-sessions/list-user-sessions.service';
+import { RevokeAllUserSessionsUseCase } from '../../services/user-sessions/revoke-all-user-sessions.service';
+import { RevokeUserSessionUseCase } from '../../services/user-sessions/revoke-user-session.service';
+import { ChangePasswordUseCase } from '../../services/users/change-password.service';
+import { ConfirmEmailChangeUseCase } from '../../services/users/confirm-email-change.service';
+import { DeleteUserAccountUseCase } from '../../services/users/delete-user-account.service';
+import { GetCurrentUserUseCase } from '../../services/users/get-current-user.service';
 import { LoginUserUseCase } from '../../services/users/login-user.service';
 import { LogoutUserUseCase } from '../../services/users/logout-user.service';
+import { PurgeDeletedUsersUseCase } from '../../services/users/purge-deleted-users.service';
+import { RefreshUserTokenUseCase } from '../../services/users/refresh-user-token.service';
 import { RegisterUserUseCase } from '../../services/users/register-user.service';
+import { RequestPasswordResetUseCase } from '../../services/users/request-password-reset.service';
+import { ResetPasswordUseCase } from '../../services/users/reset-password.service';
+import { UpdateProfileUseCase } from '../../services/users/update-profile.service';
 import { CreateJwtProvider, VerifyJwtProvider } from '../auth/jwt';
+import { RefreshTokenProvider } from '../auth/refresh-token';
+import { ConsoleMailSender } from '../mail/console-mail.sender';
+import { FileOutboxMailSender } from '../mail/file-outbox-mail.sender';
+import { InMemoryRateLimitStore } from '../rate-limit/in-memory-rate-limit.store';
+import { AccountRepository } from '../repositories/account.repository';
+import { BudgetRepository } from '../repositories/budget.repository';
 import { CategoryRepository } from '../repositories/category.repository';
+import { CurrencyRepository } from '../repositories/currency.repository';
+import { EmailChangeTokenRepository } from '../repositories/email-change-token.repository';
+import { ExchangeRateRepository } from '../repositories/exchange-rate.repository';
+import { LedgerRepository } from '../repositories/ledger.repository';
+import { LedgerInvitationRepository } from '../repositories/ledger-invitation.repository';
+import { PasswordResetTokenRepository } from '../repositories/password-reset-token.repository';
+import { RecurringTransactionRepository } from '../repositories/recurring-transaction.repository';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
+import { TagRepository } from '../repositories/tag.repository';
 import { TokenBlacklistRepository } from '../repositories/token-blacklist.repository';
 import { TransactionRepository } from '../repositories/transaction.repository';
+import { TransactionAttachmentRepository } from '../repositories/transaction-attachment.repository';
+import { TransactionRevisionRepository } from '../repositories/transaction-revision.repository';
 import { UserRepository } from '../repositories/user.repository';
+import { UserSessionRepository } from '../repositories/user-session.repository';
+import { resolveAttachmentStorageDriver } from '../storage/attachment-storage-driver';
+import { InMemoryAttachmentStorage } from '../storage/in-memory-attachment.storage';
+import { S3AttachmentStorage } from '../storage/s3-attachment.storage';
+
+// NOTE: コンテナはリクエストごとに作り直すため、メモリ上の保存先はプロセス内で1つを共有する
+const inMemoryAttachmentStorage = new InMemoryAttachmentStorage();
+
+// NOTE: ATTACHMENT_STORAGE_DRIVER=s3 の場合はS3互換ストレージ、memory の場合はメモリ上に保存する
+const resolveAttachmentStorage = (): IAttachmentStorage =>
+  resolveAttachmentStorageDriver() === 's3'
+    ? new S3AttachmentStorage()
+    : inMemoryAttachmentStorage;
+
+const MAIL_DRIVER_ENV_KEY = 'MAIL_DRIVER';
+const FILE_MAIL_DRIVER = 'file' as const;
+
+// NOTE: MAIL_DRIVER=file の場合は送信箱ディレクトリへ書き出す（未設定時は標準出力に表示するだけで送信しない）
+const resolveMailSender = (): IMailSender =>
+  process.env[MAIL_DRIVER_ENV_KEY] === FILE_MAIL_DRIVER
+    ? new FileOutboxMailSender()
+    : new ConsoleMailSender();
+
+// NOTE: カウンタはリクエストをまたいで数える必要があるため、プロセス内で1つを共有する
+// 複数インスタンスで共有する場合は IRateLimitStore を実装した外部ストア（Redis 等）に差し替える
+const rateLimitStore: IRateLimitStore = new InMemoryRateLimitStore();
 
 export const createRequestContainer = (db: NodePgDatabase) => {
   const container = new Container({ defaultScope: 'Transient' });
@@ -41,6 +171,60 @@ export const createRequestContainer = (db: NodePgDatabase) => {
 
   container.bind<IUserRepository>(TOKENS.UserRepository).to(UserRepository);
 
+  container
+    .bind<IBudgetRepository>(TOKENS.BudgetRepository)
+    .to(BudgetRepository);
+
+  container
+    .bind<IAccountRepository>(TOKENS.AccountRepository)
+    .to(AccountRepository);
+
+  container.bind<ITagRepository>(TOKENS.TagRepository).to(TagRepository);
+
+  container
+    .bind<ITransactionAttachmentRepository>(
+      TOKENS.TransactionAttachmentRepository,
+    )
+    .to(TransactionAttachmentRepository);
+
+  container
+    .bind<ITransactionRevisionRepository>(TOKENS.TransactionRevisionRepository)
+    .to(TransactionRevisionRepository);
+
+  container
+    .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+    .toConstantValue(resolveAttachmentStorage());
+
+  container
+    .bind<IRecurringTransactionRepository>(
+      TOKENS.RecurringTransactionRepository,
+    )
+    .to(RecurringTransactionRepository);
+
+  container
+    .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+    .to(CurrencyRepository);
+
+  container
+    .bind<IExchangeRateRepository>(TOKENS.ExchangeRateRepository)
+    .to(ExchangeRateRepository);
+
+  container
+    .bind<ILedgerRepository>(TOKENS.LedgerRepository)
+    .to(LedgerRepository);
+
+  container
+    .bind<ILedgerInvitationRepository>(TOKENS.LedgerInvitationRepository)
+    .to(LedgerInvitationRepository);
+
+  container
+    .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+    .to(LedgerAccessService);
+
+  container
+    .bind<LedgerInvitationTokenService>(TOKENS.LedgerInvitationTokenService)
+    .to(LedgerInvitationTokenService);
+
   container
     .bind<CreateCategoryUseCase>(TOKENS.CreateCategoryUseCase)
     .to(CreateCategoryUseCase);
@@ -57,6 +241,24 @@ export const createRequestContainer = (db: NodePgDatabase) => {
     .bind<UpdateCategoryUseCase>(TOKENS.UpdateCategoryUseCase)
     .to(UpdateCategoryUseCase);
 
+  container
+    .bind<DeleteCategoryUseCase>(TOKENS.DeleteCategoryUseCase)
+    .to(DeleteCategoryUseCase);
+
+  container
+    .bind<MergeCategoryUseCase>(TOKENS.MergeCategoryUseCase)
+    .to(MergeCategoryUseCase);
+
+  container
+    .bind<ReorderCategoriesUseCase>(TOKENS.ReorderCategoriesUseCase)
+    .to(ReorderCategoriesUseCase);
+
+  container
+    .bind<BulkUpdateCategoryVisibilityUseCase>(
+      TOKENS.BulkUpdateCategoryVisibilityUseCase,
+    )
+    .to(BulkUpdateCategoryVisibilityUseCase);
+
   container
     .bind<CreateTransactionUseCase>(TOKENS.CreateTransactionUseCase)
     .to(CreateTransactionUseCase);
@@ -73,6 +275,170 @@ export const createRequestContainer = (db: NodePgDatabase) => {
     .bind<DeleteTransactionUseCase>(TOKENS.DeleteTransactionUseCase)
     .to(DeleteTransactionUseCase);
 
+  container
+    .bind<SummarizeTransactionsUseCase>(TOKENS.SummarizeTransactionsUseCase)
+    .to(SummarizeTransactionsUseCase);
+
+  container
+    .bind<ExportTransactionsUseCase>(TOKENS.ExportTransactionsUseCase)
+    .to(ExportTransactionsUseCase);
+
+  container
+    .bind<ImportTransactionsUseCase>(TOKENS.ImportTransactionsUseCase)
+    .to(ImportTransactionsUseCase);
+
+  container
+    .bind<GetTransactionHistoryUseCase>(TOKENS.GetTransactionHistoryUseCase)
+    .to(GetTransactionHistoryUseCase);
+
+  container
+    .bind<ListTrashedTransactionsUseCase>(TOKENS.ListTrashedTransactionsUseCase)
+    .to(ListTrashedTransactionsUseCase);
+
+  container
+    .bind<RestoreTransactionUseCase>(TOKENS.RestoreTransactionUseCase)
+    .to(RestoreTransactionUseCase);
+
+  container
+    .bind<PurgeTransactionUseCase>(TOKENS.PurgeTransactionUseCase)
+    .to(PurgeTransactionUseCase);
+
+  container
+    .bind<PurgeTrashedTransactionsUseCase>(
+      TOKENS.PurgeTrashedTransactionsUseCase,
+    )
+    .to(PurgeTrashedTransactionsUseCase);
+
+  container
+    .bind<UploadTransactionAttachmentUseCase>(
+      TOKENS.UploadTransactionAttachmentUseCase,
+    )
+    .to(UploadTransactionAttachmentUseCase);
+
+  container
+    .bind<ListTransactionAttachmentsUseCase>(
+      TOKENS.ListTransactionAttachmentsUseCase,
+    )
+    .to(ListTransactionAttachmentsUseCase);
+
+  container
+    .bind<DownloadTransactionAttachmentUseCase>(
+      TOKENS.DownloadTransactionAttachmentUseCase,
+    )
+    .to(DownloadTransactionAttachmentUseCase);
+
+  container
+    .bind<DeleteTransactionAttachmentUseCase>(
+      TOKENS.DeleteTransactionAttachmentUseCase,
+    )
+    .to(DeleteTransactionAttachmentUseCase);
+
+  container
+    .bind<CreateBudgetUseCase>(TOKENS.CreateBudgetUseCase)
+    .to(CreateBudgetUseCase);
+
+  container
+    .bind<ListBudgetsUseCase>(TOKENS.ListBudgetsUseCase)
+    .to(ListBudgetsUseCase);
+
+  container
+    .bind<UpdateBudgetUseCase>(TOKENS.UpdateBudgetUseCase)
+    .to(UpdateBudgetUseCase);
+
+  container
+    .bind<DeleteBudgetUseCase>(TOKENS.DeleteBudgetUseCase)
+    .to(DeleteBudgetUseCase);
+
+  container
+    .bind<GetBudgetStatusUseCase>(TOKENS.GetBudgetStatusUseCase)
+    .to(GetBudgetStatusUseCase);
+
+  container
+    .bind<CreateAccountUseCase>(TOKENS.CreateAccountUseCase)
+    .to(CreateAccountUseCase);
+
+  container
+    .bind<ListAccountsUseCase>(TOKENS.ListAccountsUseCase)
+    .to(ListAccountsUseCase);
+
+  container
+    .bind<UpdateAccountUseCase>(TOKENS.UpdateAccountUseCase)
+    .to(UpdateAccountUseCase);
+
+  container
+    .bind<DeleteAccountUseCase>(TOKENS.DeleteAccountUseCase)
+    .to(DeleteAccountUseCase);
+
+  container
+    .bind<GetAccountBalancesUseCase>(TOKENS.GetAccountBalancesUseCase)
+    .to(GetAccountBalancesUseCase);
+
+  container
+    .bind<CreateTagUseCase>(TOKENS.CreateTagUseCase)
+    .to(CreateTagUseCase);
+
+  container.bind<ListTagsUseCase>(TOKENS.ListTagsUseCase).to(ListTagsUseCase);
+
+  container
+    .bind<UpdateTagUseCase>(TOKENS.UpdateTagUseCase)
+    .to(UpdateTagUseCase);
+
+  container
+    .bind<DeleteTagUseCase>(TOKENS.DeleteTagUseCase)
+    .to(DeleteTagUseCase);
+
+  container
+    .bind<CreateRecurringTransactionUseCase>(
+      TOKENS.CreateRecurringTransactionUseCase,
+    )
+    .to(CreateRecurringTransactionUseCase);
+
+  container
+    .bind<ListRecurringTransactionsUseCase>(
+      TOKENS.ListRecurringTransactionsUseCase,
+    )
+    .to(ListRecurringTransactionsUseCase);
+
+  container
+    .bind<DeleteRecurringTransactionUseCase>(
+      TOKENS.DeleteRecurringTransactionUseCase,
+    )
+    .to(DeleteRecurringTransactionUseCase);
+
+  container
+    .bind<GenerateRecurringTransactionsUseCase>(
+      TOKENS.GenerateRecurringTransactionsUseCase,
+    )
+    .to(GenerateRecurringTransactionsUseCase);
+
+  container
+    .bind<ListCurrenciesUseCase>(TOKENS.ListCurrenciesUseCase)
+    .to(ListCurrenciesUseCase);
+
+  container
+    .bind<UpdateCurrencyStatusUseCase>(TOKENS.UpdateCurrencyStatusUseCase)
+    .to(UpdateCurrencyStatusUseCase);
+
+  container
+    .bind<ImportExchangeRatesUseCase>(TOKENS.ImportExchangeRatesUseCase)
+    .to(ImportExchangeRatesUseCase);
+
+  container
+    .bind<ListLedgersUseCase>(TOKENS.ListLedgersUseCase)
+    .to(ListLedgersUseCase);
+
+  container
+    .bind<InviteLedgerMemberUseCase>(TOKENS.InviteLedgerMemberUseCase)
+    .to(InviteLedgerMemberUseCase);
+
+  container
+    .bind<AcceptLedgerInvitationUseCase>(TOKENS.AcceptLedgerInvitationUseCase)
+    .to(AcceptLedgerInvitationUseCase);
+
+  container
+    .bind<RemoveLedgerMemberUseCase>(TOKENS.RemoveLedgerMemberUseCase)
+    .to(RemoveLedgerMemberUseCase);
+
   container
     .bind<RegisterUserUseCase>(TOKENS.RegisterUserUseCase)
     .to(RegisterUserUseCase);
@@ -85,10 +451,74 @@ export const createRequestContainer = (db: NodePgDatabase) => {
     .bind<LogoutUserUseCase>(TOKENS.LogoutUserUseCase)
     .to(LogoutUserUseCase);
 
+  container
+    .bind<RefreshUserTokenUseCase>(TOKENS.RefreshUserTokenUseCase)
+    .to(RefreshUserTokenUseCase);
+
+  container
+    .bind<ListUserSessionsUseCase>(TOKENS.ListUserSessionsUseCase)
+    .to(ListUserSessionsUseCase);
+
+  container
+    .bind<RevokeUserSessionUseCase>(TOKENS.RevokeUserSessionUseCase)
+    .to(RevokeUserSessionUseCase);
+
+  container
+    .bind<RevokeAllUserSessionsUseCase>(TOKENS.RevokeAllUserSessionsUseCase)
+    .to(RevokeAllUserSessionsUseCase);
+
+  container
+    .bind<ChangePasswordUseCase>(TOKENS.ChangePasswordUseCase)
+    .to(ChangePasswordUseCase);
+
+  container
+    .bind<RequestPasswordResetUseCase>(TOKENS.RequestPasswordResetUseCase)
+    .to(RequestPasswordResetUseCase);
+
+  container
+    .bind<ResetPasswordUseCase>(TOKENS.ResetPasswordUseCase)
+    .to(ResetPasswordUseCase);
+
+  container
+    .bind<GetCurrentUserUseCase>(TOKENS.GetCurrentUserUseCase)
+    .to(GetCurrentUserUseCase);
+
+  container
+    .bind<UpdateProfileUseCase>(TOKENS.UpdateProfileUseCase)
+    .to(UpdateProfileUseCase);
+
+  container
+    .bind<ConfirmEmailChangeUseCase>(TOKENS.ConfirmEmailChangeUseCase)
+    .to(ConfirmEmailChangeUseCase);
+
+  container
+    .bind<DeleteUserAccountUseCase>(TOKENS.DeleteUserAccountUseCase)
+    .to(DeleteUserAccountUseCase);
+
+  container
+    .bind<PurgeDeletedUsersUseCase>(TOKENS.PurgeDeletedUsersUseCase)
+    .to(PurgeDeletedUsersUseCase);
+
   container
     .bind<ITokenBlacklistRepository>(TOKENS.TokenBlacklistRepository)
     .to(TokenBlacklistRepository);
 
+  container
+    .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+    .to(RefreshTokenRepository);
+
+  container
+    .bind<IUserSessionRepository>(TOKENS.UserSessionRepository)
+    .to(UserSessionRepository);
+
+  container
+    .bind<IPasswordResetTokenRepository>(TOKENS.PasswordResetTokenRepository)
+    .to(PasswordResetTokenRepository);
+
+  container
+    .bind<IEmailChangeTokenRepository>(TOKENS.EmailChangeTokenRepository)
+    .to(EmailChangeTokenRepository);
+
   container
     .bind<CreateJwtProvider>(TOKENS.CreateJwtTokenProvider)
     .to(CreateJwtProvider);
@@ -101,5 +531,37 @@ export const createRequestContainer = (db: NodePgDatabase) => {
     .bind<CreateJwtService>(TOKENS.CreateJwtService)
     .to(CreateJwtService);
 
+  container
+    .bind<IRefreshTokenProvider>(TOKENS.RefreshTokenProvider)
+    .to(RefreshTokenProvider);
+
+  container
+    .bind<RefreshTokenService>(TOKENS.RefreshTokenService)
+    .to(RefreshTokenService);
+
+  container.bind<SessionService>(TOKENS.SessionService).to(SessionService);
+
+  container
+    .bind<PasswordResetTokenService>(TOKENS.PasswordResetTokenService)
+    .to(PasswordResetTokenService);
+
+  container
+    .bind<EmailChangeTokenService>(TOKENS.EmailChangeTokenService)
+    .to(EmailChangeTokenService);
+
+  container
+    .bind<IMailSender>(TOKENS.MailSender)
+    .toConstantValue(resolveMailSender());
+
+  container
+    .bind<IRateLimitStore>(TOKENS.RateLimitStore)
+    .toConstantValue(rateLimitStore);
+
+  container.bind<IRateLimiter>(TOKENS.RateLimiter).to(RateLimiter);
+
+  container
+    .bind<LoginThrottleService>(TOKENS.LoginThrottleService)
+    .to(LoginThrottleService);
+
   return container;
 };
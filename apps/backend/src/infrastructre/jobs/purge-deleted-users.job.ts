@@ -0,0 +1,40 @@
+// Infrastructure Layer: Purge Deleted Users Job
+// 退会から猶予期間が過ぎたユーザーと関連データを定期的に物理削除する
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TOKENS } from '../../services/di/tokens';
+import type { PurgeDeletedUsersUseCase } from '../../services/users/purge-deleted-users.service';
+import { createRequestContainer } from '../di/container';
+
+const ONE_DAY_MS = 86_400_000 as const;
+
+const runPurgeDeletedUsers = async (db: NodePgDatabase): Promise<void> => {
+  try {
+    const useCase = createRequestContainer(db).get<PurgeDeletedUsersUseCase>(
+      TOKENS.PurgeDeletedUsersUseCase,
+    );
+    const result = await useCase.execute({});
+
+    console.log(
+      `[purgeDeletedUsers.job] purged: ${result.purgedUserIds.length}, failed: ${result.failed.length}`,
+    );
+    result.failed.map((failure) =>
+      console.error('[purgeDeletedUsers.job] failed:', failure),
+    );
+  } catch (error) {
+    console.error('[purgeDeletedUsers.job] error:', error);
+  }
+};
+
+/**
+ * 起動時に1回実行し、以降は1日ごとに実行する
+ * NOTE: 失敗したユーザーは退会済みのまま残るため、次回の実行で再試行される
+ */
+export const startPurgeDeletedUsersJob = (
+  db: NodePgDatabase,
+): NodeJS.Timeout => {
+  void runPurgeDeletedUsers(db);
+  return setInterval(() => {
+    void runPurgeDeletedUsers(db);
+  }, ONE_DAY_MS);
+};
@@ -0,0 +1,67 @@
+// Infrastructure Layer: Purge Trashed Transactions Job
+// ゴミ箱の保持期間を過ぎた取引を定期的に物理削除する
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TOKENS } from '../../services/di/tokens';
+import type { PurgeTrashedTransactionsUseCase } from '../../services/transactions/purge-trashed-transactions.service';
+import { createRequestContainer } from '../di/container';
+
+const ONE_DAY_MS = 86_400_000 as const;
+const TRANSACTION_TRASH_RETENTION_DAYS_ENV_KEY =
+  'TRANSACTION_TRASH_RETENTION_DAYS';
+const DEFAULT_TRANSACTION_TRASH_RETENTION_DAYS = 30;
+
+const resolveTransactionTrashRetentionDays = (): number => {
+  const value = process.env[TRANSACTION_TRASH_RETENTION_DAYS_ENV_KEY];
+
+  if (!value) {
+    return DEFAULT_TRANSACTION_TRASH_RETENTION_DAYS;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(
+      'TRANSACTION_TRASH_RETENTION_DAYS は正の整数で設定してください',
+    );
+  }
+
+  return parsed;
+};
+
+const runPurgeTrashedTransactions = async (
+  db: NodePgDatabase,
+  retentionDays: number,
+): Promise<void> => {
+  try {
+    const useCase = createRequestContainer(
+      db,
+    ).get<PurgeTrashedTransactionsUseCase>(
+      TOKENS.PurgeTrashedTransactionsUseCase,
+    );
+    const result = await useCase.execute({ retentionDays });
+
+    console.log(
+      `[purgeTrashedTransactions.job] purged: ${result.purgedTransactionIds.length}, failed: ${result.failed.length}`,
+    );
+    result.failed.map((failure) =>
+      console.error('[purgeTrashedTransactions.job] failed:', failure),
+    );
+  } catch (error) {
+    console.error('[purgeTrashedTransactions.job] error:', error);
+  }
+};
+
+/**
+ * 起動時に1回実行し、以降は1日ごとに実行する
+ * NOTE: 保持日数の設定が不正な場合は起動時にエラーにする
+ */
+export const startPurgeTrashedTransactionsJob = (
+  db: NodePgDatabase,
+): NodeJS.Timeout => {
+  const retentionDays = resolveTransactionTrashRetentionDays();
+  void runPurgeTrashedTransactions(db, retentionDays);
+  return setInterval(() => {
+    void runPurgeTrashedTransactions(db, retentionDays);
+  }, ONE_DAY_MS);
+};
@@ -0,0 +1,44 @@
+// Infrastructure Layer: Recurring Transactions Job
+// 繰り返し取引ルールから、当日までに発生した取引を定期的に生成する
+
+import type { NodePgDatabase } from '@account-book-app/db';
+import { TOKENS } from '../../services/di/tokens';
+import type { GenerateRecurringTransactionsUseCase } from '../../services/recurring-transactions/generate-recurring-transactions.service';
+import { createRequestContainer } from '../di/container';
+
+const ONE_DAY_MS = 86_400_000 as const;
+
+const runGenerateRecurringTransactions = async (
+  db: NodePgDatabase,
+): Promise<void> => {
+  try {
+    const useCase = createRequestContainer(
+      db,
+    ).get<GenerateRecurringTransactionsUseCase>(
+      TOKENS.GenerateRecurringTransactionsUseCase,
+    );
+    const result = await useCase.execute({});
+
+    console.log(
+      `[recurringTransactions.job] generated: ${result.generated.length}, failed: ${result.failed.length}`,
+    );
+    result.failed.map((failure) =>
+      console.error('[recurringTransactions.job] failed:', failure),
+    );
+  } catch (error) {
+    console.error('[recurringTransactions.job] error:', error);
+  }
+};
+
+/**
+ * 起動時に1回実行し、以降は1日ごとに実行する
+ * NOTE: 発生日はルール + 日付で一意に確保されるため、複数インスタンスで動いても二重生成されない
+ */
+export const startRecurringTransactionsJob = (
+  db: NodePgDatabase,
+): NodeJS.Timeout => {
+  void runGenerateRecurringTransactions(db);
+  return setInterval(() => {
+    void runGenerateRecurringTransactions(db);
+  }, ONE_DAY_MS);
+};
@@ -0,0 +1,21 @@
+// Infrastructure Layer: Console Mail Sender
+// ローカル開発向けに、送信するメールを標準出力へ書き出す（実際には送信しない）
+
+import { injectable } from 'inversify';
+
+import type { IMailSender, MailMessage } from '../../services/mail/mail-sender';
+
+@injectable()
+export class ConsoleMailSender implements IMailSender {
+  async send(message: MailMessage): Promise<void> {
+    console.info(
+      [
+        '[mail]',
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+      ].join('\n'),
+    );
+  }
+}
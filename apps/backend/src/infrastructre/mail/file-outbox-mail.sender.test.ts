@@ -0,0 +1,64 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { FileOutboxMailSender } from './file-outbox-mail.sender';
+
+describe('FileOutboxMailSender（送信箱ディレクトリへのメール書き出し）', () => {
+  const originalEnv = { ...process.env };
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = join(
+      await mkdtemp(join(tmpdir(), 'mail-outbox-test-')),
+      'outbox',
+    );
+    process.env.MAIL_OUTBOX_DIR = outboxDir;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await rm(join(outboxDir, '..'), { recursive: true, force: true });
+  });
+
+  describe('正常系', () => {
+    it('send: 送信箱ディレクトリを作成し、1通ごとにJSONファイルを書き出す', async () => {
+      const sender = new FileOutboxMailSender();
+
+      await sender.send({
+        to: 'user@example.com',
+        subject: '件名1',
+        text: '本文1',
+      });
+      await sender.send({
+        to: 'user@example.com',
+        subject: '件名2',
+        text: '本文2',
+      });
+
+      const files = await readdir(outboxDir);
+      const mails = await Promise.all(
+        files.map(async (file) =>
+          JSON.parse(await readFile(join(outboxDir, file), 'utf8')),
+        ),
+      );
+
+      expect(files.every((file) => file.endsWith('.json'))).toBe(true);
+      expect(mails.sort((a, b) => a.subject.localeCompare(b.subject))).toEqual([
+        {
+          to: 'user@example.com',
+          subject: '件名1',
+          text: '本文1',
+          sentAt: expect.any(String),
+        },
+        {
+          to: 'user@example.com',
+          subject: '件名2',
+          text: '本文2',
+          sentAt: expect.any(String),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+// Infrastructure Layer: File Outbox Mail Sender
+// 送信するメールを送信箱ディレクトリに1通1ファイル（JSON）で書き出す（実際には送信しない）
+// NOTE: ネットワークに接続できない環境でも、書き出されたファイルから再設定用トークン等を確認できる
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { injectable } from 'inversify';
+
+import type { IMailSender, MailMessage } from '../../services/mail/mail-sender';
+
+const MAIL_OUTBOX_DIR_ENV_KEY = 'MAIL_OUTBOX_DIR';
+const DEFAULT_MAIL_OUTBOX_DIR = '.mail-outbox' as const;
+const JSON_INDENT = 2 as const;
+
+const resolveOutboxDir = (): string =>
+  process.env[MAIL_OUTBOX_DIR_ENV_KEY] || DEFAULT_MAIL_OUTBOX_DIR;
+
+@injectable()
+export class FileOutboxMailSender implements IMailSender {
+  async send(message: MailMessage): Promise<void> {
+    const outboxDir = resolveOutboxDir();
+    const sentAt = new Date();
+    // NOTE: ファイル名の先頭を送信日時にして、ファイル名順に並べると送信順になるようにする
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+
+    await mkdir(outboxDir, { recursive: true });
+    await writeFile(
+      join(outboxDir, fileName),
+      JSON.stringify(
+        { ...message, sentAt: sentAt.toISOString() },
+        null,
+        JSON_INDENT,
+      ),
+      'utf8',
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+
+describe('InMemoryRateLimitStore（メモリ上のレート制限カウンタ）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedNow);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('同じウィンドウ内では期限を変えずにカウンタを増やす', async () => {
+      const store = new InMemoryRateLimitStore();
+
+      await store.increment('login:a', 60_000);
+      vi.advanceTimersByTime(10_000);
+      const counter = await store.increment('login:a', 60_000);
+
+      expect(counter).toEqual({
+        count: 2,
+        resetAt: new Date('2025-01-01T00:01:00.000Z'),
+      });
+    });
+
+    it('期限を過ぎたカウンタは破棄し、新しいウィンドウで 1 から数える', async () => {
+      const store = new InMemoryRateLimitStore();
+
+      await store.increment('login:a', 60_000);
+      vi.advanceTimersByTime(60_000);
+
+      expect(await store.get('login:a')).toBeNull();
+      expect(await store.increment('login:a', 60_000)).toEqual({
+        count: 1,
+        resetAt: new Date('2025-01-01T00:02:00.000Z'),
+      });
+    });
+
+    it('上書きしたカウンタを取得し、削除できる', async () => {
+      const store = new InMemoryRateLimitStore();
+      const resetAt = new Date('2025-01-01T00:05:00.000Z');
+
+      await store.set('lock:a', { count: 5, resetAt });
+      expect(await store.get('lock:a')).toEqual({ count: 5, resetAt });
+
+      await store.delete('lock:a');
+      expect(await store.get('lock:a')).toBeNull();
+    });
+  });
+});
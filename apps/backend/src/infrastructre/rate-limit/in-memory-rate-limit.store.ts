@@ -0,0 +1,72 @@
+// Infrastructure Layer: In-Memory Rate Limit Store
+// レート制限のカウンタをプロセスのメモリ上に保持する
+// NOTE: プロセスごとに独立して数えるため、複数インスタンス構成では制限が緩くなる
+
+import { injectable } from 'inversify';
+
+import type {
+  IRateLimitStore,
+  RateLimitCounter,
+} from '../../services/rate-limit/rate-limit-store';
+
+/** この件数を超えたら、期限切れのカウンタをまとめて破棄する */
+const SWEEP_THRESHOLD = 10_000;
+
+@injectable()
+export class InMemoryRateLimitStore implements IRateLimitStore {
+  private readonly counters = new Map<string, RateLimitCounter>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.findActive(key, now);
+    const next: RateLimitCounter = current
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: new Date(now + windowMs) };
+
+    this.counters.set(key, next);
+    this.sweepIfNeeded(now);
+
+    return { ...next };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const current = this.findActive(key, Date.now());
+    return current ? { ...current } : null;
+  }
+
+  async set(key: string, counter: RateLimitCounter): Promise<void> {
+    this.counters.set(key, { ...counter });
+    this.sweepIfNeeded(Date.now());
+  }
+
+  async delete(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private findActive(key: string, now: number): RateLimitCounter | null {
+    const counter = this.counters.get(key);
+    if (!counter) {
+      return null;
+    }
+
+    if (counter.resetAt.getTime() <= now) {
+      this.counters.delete(key);
+      return null;
+    }
+
+    return counter;
+  }
+
+  // NOTE: 一度しかアクセスのないキー（使い捨てのIP等）が溜まり続けないようにする
+  private sweepIfNeeded(now: number): void {
+    if (this.counters.size <= SWEEP_THRESHOLD) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt.getTime() <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
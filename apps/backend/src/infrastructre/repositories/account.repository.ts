@@ -0,0 +1,233 @@
+// Infrastructure Layer: Account Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  accounts,
+  and,
+  asc,
+  currencies,
+  eq,
+  type NodePgDatabase,
+  sql,
+  transactions,
+  transactionTypes,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  Account,
+  AccountRecord,
+  AccountType,
+  CreateAccountData,
+} from '../../domain/entities/account.entity';
+import type {
+  AccountTransactionTotalRecord,
+  IAccountRepository,
+} from '../../domain/repositories/account.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+type JoinedAccountRow = {
+  account: typeof accounts.$inferSelect;
+  currency: typeof currencies.$inferSelect;
+};
+
+const toAccountType = (type: string): AccountType => {
+  if (type === 'CASH' || type === 'BANK' || type === 'CREDIT_CARD') {
+    return type;
+  }
+  throw new Error(`Unsupported account type: ${type}`);
+};
+
+const TRANSFER_TYPE_CODE = 'TRANSFER' as const;
+
+// NOTE: 取引の accountId 側から見た振替は振替元（出金）となる
+const toTotalType = (code: string): AccountTransactionTotalRecord['type'] => {
+  if (code === 'INCOME' || code === 'EXPENSE') {
+    return code;
+  }
+  if (code === TRANSFER_TYPE_CODE) {
+    return 'TRANSFER_OUT';
+  }
+  throw new Error(`Unsupported transaction type code: ${code}`);
+};
+
+@injectable()
+export class AccountRepository implements IAccountRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(data: CreateAccountData): Promise<AccountRecord> {
+    return await this.db.transaction(async (tx) => {
+      const [currency] = await tx
+        .select()
+        .from(currencies)
+        .where(eq(currencies.code, data.currency))
+        .limit(1);
+
+      if (!currency) {
+        throw new Error(`Currency ${data.currency} not found`);
+      }
+
+      const [created] = await tx
+        .insert(accounts)
+        .values({
+          userId: data.userId,
+          name: data.name,
+          type: data.type,
+          openingBalance: data.openingBalance,
+          currencyId: currency.id,
+        })
+        .returning();
+
+      const [result] = await this.selectJoinedAccounts(
+        eq(accounts.id, created.id),
+        tx,
+      );
+
+      if (!result) {
+        throw new Error(`Account not found after create: ${created.id}`);
+      }
+
+      return result;
+    });
+  }
+
+  async findById(id: number): Promise<AccountRecord | null> {
+    const results = await this.selectJoinedAccounts(eq(accounts.id, id));
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findByUserIdAndName(
+    userId: number,
+    name: string,
+  ): Promise<AccountRecord | null> {
+    const results = await this.selectJoinedAccounts(
+      sql`${accounts.userId} = ${userId} and ${accounts.name} = ${name}`,
+    );
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findByUserId(userId: number): Promise<AccountRecord[]> {
+    return await this.selectJoinedAccounts(eq(accounts.userId, userId));
+  }
+
+  async update(account: Account): Promise<AccountRecord> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(accounts)
+        .set({
+          name: account.name,
+          type: account.type,
+          openingBalance: account.openingBalance,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(accounts.id, account.id));
+
+      const [result] = await this.selectJoinedAccounts(
+        eq(accounts.id, account.id),
+        tx,
+      );
+
+      if (!result) {
+        throw new Error(`Account not found after update: ${account.id}`);
+      }
+
+      return result;
+    });
+  }
+
+  async delete(account: Account): Promise<void> {
+    await this.db.delete(accounts).where(eq(accounts.id, account.id));
+  }
+
+  async sumTransactionsByUserId(
+    userId: number,
+    asOf: string,
+  ): Promise<AccountTransactionTotalRecord[]> {
+    const amountSum =
+      sql<number>`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number);
+
+    // NOTE: 口座の通貨と異なる通貨の取引は残高に含めない
+    const rows = await this.db
+      .select({
+        accountId: accounts.id,
+        typeCode: transactionTypes.code,
+        amount: amountSum,
+      })
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .where(
+        and(
+          eq(accounts.userId, userId),
+          sql`${transactions.currencyId} = ${accounts.currencyId}`,
+          sql`${transactions.deletedAt} is null`,
+          sql`${transactions.date} <= ${asOf}`,
+        ),
+      )
+      .groupBy(accounts.id, transactionTypes.code);
+
+    // NOTE: 振替先口座への入金は transferAccountId 側から集計する
+    const transferInRows = await this.db
+      .select({
+        accountId: accounts.id,
+        amount: amountSum,
+      })
+      .from(transactions)
+      .innerJoin(accounts, eq(transactions.transferAccountId, accounts.id))
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .where(
+        and(
+          eq(accounts.userId, userId),
+          eq(transactionTypes.code, TRANSFER_TYPE_CODE),
+          sql`${transactions.currencyId} = ${accounts.currencyId}`,
+          sql`${transactions.deletedAt} is null`,
+          sql`${transactions.date} <= ${asOf}`,
+        ),
+      )
+      .groupBy(accounts.id);
+
+    return [
+      ...rows.map((row) => ({
+        accountId: row.accountId,
+        type: toTotalType(row.typeCode),
+        amount: row.amount,
+      })),
+      ...transferInRows.map((row) => ({
+        accountId: row.accountId,
+        type: 'TRANSFER_IN' as const,
+        amount: row.amount,
+      })),
+    ];
+  }
+
+  private async selectJoinedAccounts(
+    whereClause: ReturnType<typeof sql>,
+    tx?: NodePgDatabase,
+  ): Promise<AccountRecord[]> {
+    const db = tx ?? this.db;
+
+    const rows: JoinedAccountRow[] = await db
+      .select({
+        account: accounts,
+        currency: currencies,
+      })
+      .from(accounts)
+      .innerJoin(currencies, eq(accounts.currencyId, currencies.id))
+      .where(whereClause)
+      .orderBy(asc(accounts.id));
+
+    return rows.map(({ account, currency }) => ({
+      id: account.id,
+      userId: account.userId,
+      name: account.name,
+      type: toAccountType(account.type),
+      openingBalance: account.openingBalance,
+      currency: currency.code,
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt,
+    }));
+  }
+}
@@ -0,0 +1,159 @@
+// Infrastructure Layer: Budget Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  asc,
+  budgets,
+  categories,
+  currencies,
+  eq,
+  type NodePgDatabase,
+  sql,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  Budget,
+  BudgetRecord,
+  CreateBudgetData,
+} from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+const DEFAULT_CURRENCY_CODE = 'JPY' as const;
+
+type JoinedBudgetRow = {
+  budget: typeof budgets.$inferSelect;
+  category: typeof categories.$inferSelect;
+  currency: typeof currencies.$inferSelect;
+};
+
+@injectable()
+export class BudgetRepository implements IBudgetRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(data: CreateBudgetData): Promise<BudgetRecord> {
+    return await this.db.transaction(async (tx) => {
+      const [currency] = await tx
+        .select()
+        .from(currencies)
+        .where(eq(currencies.code, DEFAULT_CURRENCY_CODE))
+        .limit(1);
+
+      if (!currency) {
+        throw new Error(`Currency ${DEFAULT_CURRENCY_CODE} not found`);
+      }
+
+      const [created] = await tx
+        .insert(budgets)
+        .values({
+          userId: data.userId,
+          categoryId: data.categoryId,
+          amount: data.amount,
+          currencyId: currency.id,
+        })
+        .returning();
+
+      const [result] = await this.selectJoinedBudgets(
+        eq(budgets.id, created.id),
+        tx,
+      );
+
+      if (!result) {
+        throw new Error(`Budget not found after create: ${created.id}`);
+      }
+
+      return result;
+    });
+  }
+
+  async findById(id: number): Promise<BudgetRecord | null> {
+    const results = await this.selectJoinedBudgets(eq(budgets.id, id));
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findByUserIdAndCategoryId(
+    userId: number,
+    categoryId: number,
+  ): Promise<BudgetRecord | null> {
+    const results = await this.selectJoinedBudgets(
+      sql`${budgets.userId} = ${userId} and ${budgets.categoryId} = ${categoryId}`,
+    );
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findByUserId(userId: number): Promise<BudgetRecord[]> {
+    return await this.selectJoinedBudgets(eq(budgets.userId, userId));
+  }
+
+  async update(budget: Budget): Promise<BudgetRecord> {
+    return await this.db.transaction(async (tx) => {
+      const [currency] = await tx
+        .select()
+        .from(currencies)
+        .where(eq(currencies.code, budget.amount.currency))
+        .limit(1);
+
+      if (!currency) {
+        throw new Error(`Currency ${budget.amount.currency} not found`);
+      }
+
+      await tx
+        .update(budgets)
+        .set({
+          amount: budget.amount.amount,
+          currencyId: currency.id,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(budgets.id, budget.id));
+
+      const [result] = await this.selectJoinedBudgets(
+        eq(budgets.id, budget.id),
+        tx,
+      );
+
+      if (!result) {
+        throw new Error(`Budget not found after update: ${budget.id}`);
+      }
+
+      return result;
+    });
+  }
+
+  async delete(budget: Budget): Promise<void> {
+    await this.db.delete(budgets).where(eq(budgets.id, budget.id));
+  }
+
+  private async selectJoinedBudgets(
+    whereClause: ReturnType<typeof sql>,
+    tx?: NodePgDatabase,
+  ): Promise<BudgetRecord[]> {
+    const db = tx ?? this.db;
+
+    const rows: JoinedBudgetRow[] = await db
+      .select({
+        budget: budgets,
+        category: categories,
+        currency: currencies,
+      })
+      .from(budgets)
+      .innerJoin(categories, eq(budgets.categoryId, categories.id))
+      .innerJoin(currencies, eq(budgets.currencyId, currencies.id))
+      .where(whereClause)
+      .orderBy(asc(budgets.id));
+
+    return rows.map(({ budget, category, currency }) => ({
+      id: budget.id,
+      userId: budget.userId,
+      categoryId: budget.categoryId,
+      categoryName: category.name,
+      amount: budget.amount,
+      currency: currency.code,
+      createdAt: budget.createdAt,
+      updatedAt: budget.updatedAt,
+    }));
+  }
+}
@@ -4,12 +4,16 @@
 import {
   and,
   asc,
+  budgets,
   categories,
   count,
   desc,
   eq,
+  isNull,
   type NodePgDatabase,
+  recurringTransactions,
   sql,
+  transactionCategories,
   transactionTypes,
   userCategories,
 } from '@account-book-app/db';
@@ -20,7 +24,9 @@ import type {
   UserCategoryRecord,
 } from '../../domain/entities/category.entity';
 import type {
+  CategoryDisplayNameRecord,
   FindAllOptions,
+  FindChildrenOptions,
   ICategoryRepository,
   PaginatedResult,
   UpdateCategoryData,
@@ -31,7 +37,7 @@ import { TOKENS } from '../../services/di/tokens';
 const DEFAULT_DISPLAY_ORDER = 0;
 
 const buildInNumberList = (
-  column: typeof categories.id,
+  column: typeof categories.id | typeof categories.parentId,
   values: number[],
 ): ReturnType<typeof sql> =>
   sql`${column} in (${sql.join(
@@ -61,13 +67,15 @@ export class CategoryRepository implements ICategoryRepository {
         throw new Error(`Transaction type ${data.typeId} not found`);
       }
 
-      // 2. カテゴリを作成
+      // 2. カテゴリを作成（作成したユーザーの専用カテゴリになる）
       const [category] = await tx
         .insert(categories)
         .values({
           name: data.name,
           typeId: data.typeId,
           isDefault: false,
+          userId,
+          parentId: data.parentId ?? null,
         })
         .returning();
 
@@ -104,7 +112,11 @@ export class CategoryRepository implements ICategoryRepository {
     return this.toDomainEntity(category, transactionType.code);
   }
 
-  async findByName(name: string): Promise<CategoryRecord | null> {
+  async findByName(
+    userId: number,
+    name: string,
+  ): Promise<CategoryRecord | null> {
+    // NOTE: 他のユーザーが作成したカテゴリとは名前が重複してもよい
     const result = await this.db
       .select({
         category: categories,
@@ -112,7 +124,12 @@ export class CategoryRepository implements ICategoryRepository {
       })
       .from(categories)
       .innerJoin(transactionTypes, eq(categories.typeId, transactionTypes.id))
-      .where(eq(categories.name, name))
+      .where(
+        and(
+          eq(categories.name, name),
+          sql`(${categories.userId} is null or ${categories.userId} = ${userId})`,
+        ),
+      )
       .limit(1);
 
     if (result.length === 0) {
@@ -123,6 +140,20 @@ export class CategoryRepository implements ICategoryRepository {
     return this.toDomainEntity(category, transactionType.code);
   }
 
+  async findTypeCodeByTypeId(
+    typeId: number,
+  ): Promise<CategoryRecord['type'] | null> {
+    const [transactionType] = await this.db
+      .select({ code: transactionTypes.code })
+      .from(transactionTypes)
+      .where(eq(transactionTypes.id, typeId))
+      .limit(1);
+
+    return transactionType
+      ? (transactionType.code as CategoryRecord['type'])
+      : null;
+  }
+
   async findByUserId(userId: number): Promise<CategoryRecord[]> {
     const result = await this.db
       .select({
@@ -174,6 +205,41 @@ export class CategoryRepository implements ICategoryRepository {
     );
   }
 
+  async findDisplayNamesByIds(
+    userId: number,
+    ids: number[],
+  ): Promise<CategoryDisplayNameRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    // NOTE: 取引の出力用途のため、利用可否（user_categories の紐づき）では絞り込まない
+    // （共有帳簿では他のメンバーの独自カテゴリも表示する）
+    const rows = await this.db
+      .select({
+        id: categories.id,
+        name: sql<string>`coalesce(${userCategories.customName}, ${categories.name})`,
+        typeCode: transactionTypes.code,
+        isDefault: categories.isDefault,
+      })
+      .from(categories)
+      .innerJoin(transactionTypes, eq(categories.typeId, transactionTypes.id))
+      .leftJoin(
+        userCategories,
+        and(
+          eq(userCategories.categoryId, categories.id),
+          eq(userCategories.userId, userId),
+          sql`${userCategories.deletedAt} is null`,
+        ),
+      )
+      .where(buildInNumberList(categories.id, ids));
+
+    return rows.map(({ typeCode, ...row }) => ({
+      ...row,
+      type: typeCode as 'INCOME' | 'EXPENSE' | 'TRANSFER',
+    }));
+  }
+
   async findAllWithPagination(
     options: FindAllOptions,
   ): Promise<PaginatedResult<UserCategoryRecord>> {
@@ -185,30 +251,22 @@ export class CategoryRepository implements ICategoryRepository {
       sortOrder = 'asc',
       type,
       includeHidden = false,
+      rootsOnly = false,
     } = options;
 
     // フィルタ条件の構築
-    const conditions = [eq(userCategories.userId, userId)];
-
-    if (type) {
-      conditions.push(eq(transactionTypes.code, type));
-    }
+    const conditions = this.buildUserCategoryConditions({
+      userId,
+      type,
+      includeHidden,
+    });
 
-    if (!includeHidden) {
-      conditions.push(eq(userCategories.isVisible, true));
+    if (rootsOnly) {
+      conditions.push(isNull(categories.parentId));
     }
 
     const whereClause = and(...conditions);
-
-    // ソート順の決定
-    const sortColumn = {
-      name: categories.name,
-      createdAt: categories.createdAt,
-      displayOrder: userCategories.displayOrder,
-    }[sortBy];
-
-    const orderClause =
-      sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
+    const orderClause = this.buildOrderClause(sortBy, sortOrder);
 
     // 総数取得
     const [totalResult] = await this.db
@@ -250,6 +308,55 @@ export class CategoryRepository implements ICategoryRepository {
     };
   }
 
+  async findChildren(
+    parentIds: number[],
+    options: FindChildrenOptions,
+  ): Promise<UserCategoryRecord[]> {
+    if (parentIds.length === 0) {
+      return [];
+    }
+
+    const {
+      userId,
+      sortBy = 'displayOrder',
+      sortOrder = 'asc',
+      type,
+      includeHidden = false,
+    } = options;
+
+    const conditions = this.buildUserCategoryConditions({
+      userId,
+      type,
+      includeHidden,
+    });
+    conditions.push(buildInNumberList(categories.parentId, parentIds));
+
+    const results = await this.db
+      .select({
+        category: categories,
+        transactionType: transactionTypes,
+        userCategory: userCategories,
+      })
+      .from(userCategories)
+      .innerJoin(categories, eq(userCategories.categoryId, categories.id))
+      .innerJoin(transactionTypes, eq(categories.typeId, transactionTypes.id))
+      .where(and(...conditions))
+      .orderBy(this.buildOrderClause(sortBy, sortOrder));
+
+    return results.map(({ category, transactionType, userCategory }) =>
+      this.toUserCategoryEntity(category, transactionType.code, userCategory),
+    );
+  }
+
+  async hasChildren(categoryId: number): Promise<boolean> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(categories)
+      .where(eq(categories.parentId, categoryId));
+
+    return (result?.count ?? 0) > 0;
+  }
+
   async findByIdWithUser(
     id: number,
     userId: number,
@@ -299,23 +406,33 @@ export class CategoryRepository implements ICategoryRepository {
     // updatedAtは常に更新
     updateFields.updatedAt = sql`now()`;
 
-    // user_categoriesテーブルを更新
-    const [updatedUserCategory] = await this.db
-      .update(userCategories)
-      .set(updateFields)
-      .where(
-        and(
-          eq(userCategories.categoryId, categoryId),
-          eq(userCategories.userId, userId),
-        ),
-      )
-      .returning();
+    await this.db.transaction(async (tx) => {
+      // user_categoriesテーブルを更新
+      const [updatedUserCategory] = await tx
+        .update(userCategories)
+        .set(updateFields)
+        .where(
+          and(
+            eq(userCategories.categoryId, categoryId),
+            eq(userCategories.userId, userId),
+          ),
+        )
+        .returning();
 
-    if (!updatedUserCategory) {
-      throw new Error(
-        `UserCategory not found for categoryId: ${categoryId}, userId: ${userId}`,
-      );
-    }
+      if (!updatedUserCategory) {
+        throw new Error(
+          `UserCategory not found for categoryId: ${categoryId}, userId: ${userId}`,
+        );
+      }
+
+      // 親カテゴリはカテゴリ自体の属性のため categories テーブルを更新
+      if (data.parentId !== undefined) {
+        await tx
+          .update(categories)
+          .set({ parentId: data.parentId, updatedAt: sql`now()` })
+          .where(eq(categories.id, categoryId));
+      }
+    });
 
     // 更新後のカテゴリ情報を取得
     const result = await this.findByIdWithUser(categoryId, userId);
@@ -329,6 +446,144 @@ export class CategoryRepository implements ICategoryRepository {
     return result;
   }
 
+  async delete(categoryId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(userCategories)
+        .where(eq(userCategories.categoryId, categoryId));
+
+      // NOTE: 予算はカテゴリと一緒に削除される（外部キーの onDelete: cascade）
+      await tx.delete(categories).where(eq(categories.id, categoryId));
+    });
+  }
+
+  async merge(
+    sourceCategoryId: number,
+    targetCategoryId: number,
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      // 1. 統合先のカテゴリも付いている取引は、統合元の金額を統合先に合算する
+      await tx
+        .update(transactionCategories)
+        .set({
+          amount: sql`${transactionCategories.amount} + (select source.amount from transaction_categories as source where source.transaction_id = ${transactionCategories.transactionId} and source.category_id = ${sourceCategoryId})`,
+        })
+        .where(
+          sql`${transactionCategories.categoryId} = ${targetCategoryId} and exists (select 1 from transaction_categories as source where source.transaction_id = ${transactionCategories.transactionId} and source.category_id = ${sourceCategoryId})`,
+        );
+
+      await tx
+        .delete(transactionCategories)
+        .where(
+          sql`${transactionCategories.categoryId} = ${sourceCategoryId} and exists (select 1 from transaction_categories as target where target.transaction_id = ${transactionCategories.transactionId} and target.category_id = ${targetCategoryId})`,
+        );
+
+      // 2. 残りの取引（ゴミ箱の取引を含む）と定期取引を統合先に付け替える
+      await tx
+        .update(transactionCategories)
+        .set({ categoryId: targetCategoryId })
+        .where(eq(transactionCategories.categoryId, sourceCategoryId));
+
+      await tx
+        .update(recurringTransactions)
+        .set({ categoryId: targetCategoryId, updatedAt: sql`now()` })
+        .where(eq(recurringTransactions.categoryId, sourceCategoryId));
+
+      // 3. 予算は統合先に予算が無いユーザーの分だけ付け替える（残りはカテゴリと一緒に削除される）
+      await tx
+        .update(budgets)
+        .set({ categoryId: targetCategoryId, updatedAt: sql`now()` })
+        .where(
+          sql`${budgets.categoryId} = ${sourceCategoryId} and not exists (select 1 from budgets as target where target.user_id = ${budgets.userId} and target.category_id = ${targetCategoryId})`,
+        );
+
+      // 4. 統合元のカテゴリを削除する
+      await tx
+        .delete(userCategories)
+        .where(eq(userCategories.categoryId, sourceCategoryId));
+      await tx.delete(categories).where(eq(categories.id, sourceCategoryId));
+    });
+  }
+
+  async reorder(userId: number, categoryIds: number[]): Promise<void> {
+    if (categoryIds.length === 0) {
+      return;
+    }
+
+    // NOTE: 1つの INSERT ... ON CONFLICT 文で全件を書き換えるため、途中で失敗しても一部だけ並び替わることはない
+    await this.db
+      .insert(userCategories)
+      .values(
+        categoryIds.map((categoryId, index) => ({
+          userId,
+          categoryId,
+          displayOrder: index,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [userCategories.userId, userCategories.categoryId],
+        set: {
+          displayOrder: sql`excluded.display_order`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  async updateVisibility(
+    userId: number,
+    categoryIds: number[],
+    isVisible: boolean,
+  ): Promise<void> {
+    if (categoryIds.length === 0) {
+      return;
+    }
+
+    await this.db
+      .insert(userCategories)
+      .values(
+        categoryIds.map((categoryId) => ({ userId, categoryId, isVisible })),
+      )
+      .onConflictDoUpdate({
+        target: [userCategories.userId, userCategories.categoryId],
+        set: {
+          isVisible: sql`excluded.is_visible`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  private buildUserCategoryConditions(params: {
+    userId: number;
+    type?: FindAllOptions['type'];
+    includeHidden: boolean;
+  }) {
+    const conditions = [eq(userCategories.userId, params.userId)];
+
+    if (params.type) {
+      conditions.push(eq(transactionTypes.code, params.type));
+    }
+
+    if (!params.includeHidden) {
+      conditions.push(eq(userCategories.isVisible, true));
+    }
+
+    return conditions;
+  }
+
+  private buildOrderClause(
+    sortBy: NonNullable<FindAllOptions['sortBy']>,
+    sortOrder: NonNullable<FindAllOptions['sortOrder']>,
+  ) {
+    // ソート順の決定
+    const sortColumn = {
+      name: categories.name,
+      createdAt: categories.createdAt,
+      displayOrder: userCategories.displayOrder,
+    }[sortBy];
+
+    return sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
+  }
+
   private toDomainEntity(
     dbCategory: typeof categories.$inferSelect,
     typeCode: string,
@@ -336,8 +591,9 @@ export class CategoryRepository implements ICategoryRepository {
     return {
       id: dbCategory.id,
       name: dbCategory.name,
-      type: typeCode as 'INCOME' | 'EXPENSE',
+      type: typeCode as 'INCOME' | 'EXPENSE' | 'TRANSFER',
       isDefault: dbCategory.isDefault,
+      parentId: dbCategory.parentId,
       createdAt: dbCategory.createdAt,
       updatedAt: dbCategory.updatedAt,
     };
@@ -351,10 +607,12 @@ export class CategoryRepository implements ICategoryRepository {
     return {
       id: dbCategory.id,
       name: dbCategory.name,
-      type: typeCode as 'INCOME' | 'EXPENSE',
+      type: typeCode as 'INCOME' | 'EXPENSE' | 'TRANSFER',
       isDefault: dbCategory.isDefault,
+      parentId: dbCategory.parentId,
       createdAt: dbCategory.createdAt,
       updatedAt: dbCategory.updatedAt,
+      ownerId: dbCategory.userId,
       isVisible: dbUserCategory.isVisible,
       customName: dbUserCategory.customName,
       displayOrder: dbUserCategory.displayOrder ?? DEFAULT_DISPLAY_ORDER,
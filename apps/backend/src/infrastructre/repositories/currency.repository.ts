@@ -0,0 +1,95 @@
+// Infrastructure Layer: Currency Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  asc,
+  currencies,
+  eq,
+  isNull,
+  type NodePgDatabase,
+  sql,
+  users,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  Currency,
+  CurrencyRecord,
+} from '../../domain/entities/currency.entity';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+@injectable()
+export class CurrencyRepository implements ICurrencyRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async findAll(options: {
+    includeInactive: boolean;
+  }): Promise<CurrencyRecord[]> {
+    const results = await this.db
+      .select()
+      .from(currencies)
+      .where(
+        and(
+          isNull(currencies.deletedAt),
+          options.includeInactive ? undefined : eq(currencies.isActive, true),
+        ),
+      )
+      .orderBy(asc(currencies.code));
+
+    return results.map((row) => this.toRecord(row));
+  }
+
+  async findByCode(code: string): Promise<CurrencyRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(currencies)
+      .where(and(eq(currencies.code, code), isNull(currencies.deletedAt)))
+      .limit(1);
+
+    return result ? this.toRecord(result) : null;
+  }
+
+  async findBaseByUserId(userId: number): Promise<CurrencyRecord | null> {
+    const [result] = await this.db
+      .select({ currency: currencies })
+      .from(users)
+      .innerJoin(currencies, eq(users.baseCurrencyId, currencies.id))
+      .where(and(eq(users.id, userId), isNull(currencies.deletedAt)))
+      .limit(1);
+
+    return result ? this.toRecord(result.currency) : null;
+  }
+
+  async update(currency: Currency): Promise<CurrencyRecord> {
+    const [result] = await this.db
+      .update(currencies)
+      .set({
+        isActive: currency.isActive,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(currencies.id, currency.id))
+      .returning();
+
+    if (!result) {
+      throw new Error(`Currency not found after update: ${currency.code}`);
+    }
+
+    return this.toRecord(result);
+  }
+
+  private toRecord(row: typeof currencies.$inferSelect): CurrencyRecord {
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      symbol: row.symbol,
+      exponent: row.exponent,
+      isActive: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+// Infrastructure Layer: Email Change Token Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  emailChangeTokens,
+  eq,
+  isNull,
+  type NodePgDatabase,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  EmailChangeTokenRecord,
+  IEmailChangeTokenRepository,
+} from '../../domain/repositories/email-change-token.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+@injectable()
+export class EmailChangeTokenRepository implements IEmailChangeTokenRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(params: {
+    userId: number;
+    newEmail: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<EmailChangeTokenRecord> {
+    const [created] = await this.db
+      .insert(emailChangeTokens)
+      .values({
+        userId: params.userId,
+        newEmail: params.newEmail,
+        tokenHash: params.tokenHash,
+        expiresAt: params.expiresAt,
+      })
+      .returning();
+
+    return created;
+  }
+
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<EmailChangeTokenRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(emailChangeTokens)
+      .where(eq(emailChangeTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    return result ?? null;
+  }
+
+  async markUsed(id: number): Promise<boolean> {
+    const used = await this.db
+      .update(emailChangeTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(eq(emailChangeTokens.id, id), isNull(emailChangeTokens.usedAt)),
+      )
+      .returning({ id: emailChangeTokens.id });
+
+    return used.length > 0;
+  }
+
+  async invalidateAllByUserId(userId: number): Promise<void> {
+    await this.db
+      .update(emailChangeTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(emailChangeTokens.userId, userId),
+          isNull(emailChangeTokens.usedAt),
+        ),
+      );
+  }
+}
@@ -0,0 +1,139 @@
+// Infrastructure Layer: ExchangeRate Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  asc,
+  currencies,
+  eq,
+  exchangeRates,
+  type NodePgDatabase,
+  sql,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ApplicableExchangeRateRecord,
+  ExchangeRateRecord,
+  FindApplicableExchangeRatesQuery,
+  IExchangeRateRepository,
+} from '../../domain/repositories/exchange-rate.repository.interface';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { TOKENS } from '../../services/di/tokens';
+
+const toDateString = (value: string | Date): string =>
+  TransactionDate.fromDateLike(value).format();
+
+const toCurrencyId = (
+  currencyIdByCode: Map<string, number>,
+  code: string,
+): number => {
+  const currencyId = currencyIdByCode.get(code);
+  if (currencyId === undefined) {
+    throw new Error(`Currency ${code} not found`);
+  }
+  return currencyId;
+};
+
+const buildInIntegerList = (
+  column: typeof exchangeRates.fromCurrencyId,
+  values: number[],
+): ReturnType<typeof sql> =>
+  sql`${column} in (${sql.join(
+    values.map((v) => sql`${v}`),
+    sql`, `,
+  )})`;
+
+@injectable()
+export class ExchangeRateRepository implements IExchangeRateRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async upsertMany(rows: ExchangeRateRecord[]): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    return await this.db.transaction(async (tx) => {
+      const currencyRows = await tx.select().from(currencies);
+      const currencyIdByCode = new Map(
+        currencyRows.map((currency) => [currency.code, currency.id]),
+      );
+
+      await tx
+        .insert(exchangeRates)
+        .values(
+          rows.map((row) => ({
+            fromCurrencyId: toCurrencyId(currencyIdByCode, row.fromCurrency),
+            toCurrencyId: toCurrencyId(currencyIdByCode, row.toCurrency),
+            date: row.date,
+            rate: row.rate,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: [
+            exchangeRates.fromCurrencyId,
+            exchangeRates.toCurrencyId,
+            exchangeRates.date,
+          ],
+          set: {
+            rate: sql`excluded.rate`,
+            updatedAt: sql`now()`,
+          },
+        });
+
+      return rows.length;
+    });
+  }
+
+  async findApplicable(
+    query: FindApplicableExchangeRatesQuery,
+  ): Promise<ApplicableExchangeRateRecord[]> {
+    const currencyRows = await this.db.select().from(currencies);
+    const currencyIdByCode = new Map(
+      currencyRows.map((currency) => [currency.code, currency.id]),
+    );
+    const currencyById = new Map(
+      currencyRows.map((currency) => [currency.id, currency]),
+    );
+
+    const targetCurrencyId = currencyIdByCode.get(query.toCurrency);
+    const fromCurrencyIds = query.fromCurrencies
+      .map((code) => currencyIdByCode.get(code))
+      .filter((id): id is number => id !== undefined);
+
+    if (targetCurrencyId === undefined || fromCurrencyIds.length === 0) {
+      return [];
+    }
+
+    // NOTE: 期間の序盤の取引は期間開始前のレートで換算するため、通貨ペアごとに開始日より前の直近のレートも取得する
+    const latestBeforeStart = sql`(
+      select max(previous.date) from ${exchangeRates} as previous
+      where previous.from_currency_id = ${exchangeRates.fromCurrencyId}
+        and previous.to_currency_id = ${exchangeRates.toCurrencyId}
+        and previous.date < ${query.startDate}
+    )`;
+
+    const rows = await this.db
+      .select()
+      .from(exchangeRates)
+      .where(
+        and(
+          eq(exchangeRates.toCurrencyId, targetCurrencyId),
+          buildInIntegerList(exchangeRates.fromCurrencyId, fromCurrencyIds),
+          sql`${exchangeRates.date} <= ${query.endDate}`,
+          sql`(${exchangeRates.date} >= ${query.startDate} or ${exchangeRates.date} = ${latestBeforeStart})`,
+        ),
+      )
+      .orderBy(asc(exchangeRates.date));
+
+    return rows.map((row) => ({
+      fromCurrency: currencyById.get(row.fromCurrencyId)?.code ?? '',
+      toCurrency: query.toCurrency,
+      date: toDateString(row.date),
+      rate: row.rate,
+      fromExponent: currencyById.get(row.fromCurrencyId)?.exponent ?? 0,
+      toExponent: currencyById.get(targetCurrencyId)?.exponent ?? 0,
+    }));
+  }
+}
@@ -0,0 +1,99 @@
+// Infrastructure Layer: Ledger Invitation Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  eq,
+  isNull,
+  ledgerInvitations,
+  type NodePgDatabase,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ILedgerInvitationRepository,
+  LedgerInvitationRecord,
+} from '../../domain/repositories/ledger-invitation.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+const toInvitableRole = (role: string): 'EDITOR' | 'VIEWER' => {
+  if (role === 'EDITOR' || role === 'VIEWER') {
+    return role;
+  }
+  throw new Error(`Unsupported ledger invitation role: ${role}`);
+};
+
+const toRecord = (
+  row: typeof ledgerInvitations.$inferSelect,
+): LedgerInvitationRecord => ({
+  ...row,
+  role: toInvitableRole(row.role),
+});
+
+@injectable()
+export class LedgerInvitationRepository implements ILedgerInvitationRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(params: {
+    ledgerId: number;
+    email: string;
+    role: 'EDITOR' | 'VIEWER';
+    invitedBy: number;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<LedgerInvitationRecord> {
+    const [created] = await this.db
+      .insert(ledgerInvitations)
+      .values({
+        ledgerId: params.ledgerId,
+        email: params.email,
+        role: params.role,
+        invitedBy: params.invitedBy,
+        tokenHash: params.tokenHash,
+        expiresAt: params.expiresAt,
+      })
+      .returning();
+
+    return toRecord(created);
+  }
+
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<LedgerInvitationRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(ledgerInvitations)
+      .where(eq(ledgerInvitations.tokenHash, tokenHash))
+      .limit(1);
+
+    return result ? toRecord(result) : null;
+  }
+
+  async markAccepted(id: number): Promise<boolean> {
+    const accepted = await this.db
+      .update(ledgerInvitations)
+      .set({ acceptedAt: new Date() })
+      .where(
+        and(eq(ledgerInvitations.id, id), isNull(ledgerInvitations.acceptedAt)),
+      )
+      .returning({ id: ledgerInvitations.id });
+
+    return accepted.length > 0;
+  }
+
+  async deletePendingByLedgerIdAndEmail(
+    ledgerId: number,
+    email: string,
+  ): Promise<void> {
+    await this.db
+      .delete(ledgerInvitations)
+      .where(
+        and(
+          eq(ledgerInvitations.ledgerId, ledgerId),
+          eq(ledgerInvitations.email, email),
+          isNull(ledgerInvitations.acceptedAt),
+        ),
+      );
+  }
+}
@@ -0,0 +1,137 @@
+// Infrastructure Layer: Ledger Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  asc,
+  eq,
+  ledgerMembers,
+  ledgers,
+  type NodePgDatabase,
+  sql,
+  users,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+  LedgerWithRoleRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import {
+  LedgerRole,
+  type LedgerRoleCode,
+} from '../../domain/values/ledger-role';
+import { TOKENS } from '../../services/di/tokens';
+
+const toRoleCode = (role: string): LedgerRoleCode =>
+  LedgerRole.fromString(role).value;
+
+@injectable()
+export class LedgerRepository implements ILedgerRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async findByUserId(userId: number): Promise<LedgerWithRoleRecord[]> {
+    const rows = await this.db
+      .select({ ledger: ledgers, role: ledgerMembers.role })
+      .from(ledgerMembers)
+      .innerJoin(ledgers, eq(ledgerMembers.ledgerId, ledgers.id))
+      .where(eq(ledgerMembers.userId, userId))
+      .orderBy(asc(ledgers.id));
+
+    return rows.map((row) => ({
+      ...row.ledger,
+      role: toRoleCode(row.role),
+    }));
+  }
+
+  async findDefaultIdByUserId(userId: number): Promise<number | null> {
+    const [row] = await this.db
+      .select({ ledgerId: ledgerMembers.ledgerId })
+      .from(ledgerMembers)
+      .where(
+        and(eq(ledgerMembers.userId, userId), eq(ledgerMembers.role, 'OWNER')),
+      )
+      .orderBy(asc(ledgerMembers.ledgerId))
+      .limit(1);
+
+    return row?.ledgerId ?? null;
+  }
+
+  async findMember(
+    ledgerId: number,
+    userId: number,
+  ): Promise<LedgerMemberRecord | null> {
+    const [member] = await this.selectMembers(
+      sql`${ledgerMembers.ledgerId} = ${ledgerId} and ${ledgerMembers.userId} = ${userId}`,
+    );
+
+    return member ?? null;
+  }
+
+  async findMembersByLedgerIds(
+    ledgerIds: number[],
+  ): Promise<LedgerMemberRecord[]> {
+    if (ledgerIds.length === 0) {
+      return [];
+    }
+
+    return await this.selectMembers(
+      sql`${ledgerMembers.ledgerId} in (${sql.join(
+        ledgerIds.map((id) => sql`${id}`),
+        sql`, `,
+      )})`,
+    );
+  }
+
+  async addMember(params: {
+    ledgerId: number;
+    userId: number;
+    role: LedgerRoleCode;
+  }): Promise<void> {
+    await this.db.insert(ledgerMembers).values({
+      ledgerId: params.ledgerId,
+      userId: params.userId,
+      role: params.role,
+    });
+  }
+
+  async removeMember(ledgerId: number, userId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(ledgerMembers)
+      .where(
+        and(
+          eq(ledgerMembers.ledgerId, ledgerId),
+          eq(ledgerMembers.userId, userId),
+        ),
+      )
+      .returning({ id: ledgerMembers.id });
+
+    return removed.length > 0;
+  }
+
+  private async selectMembers(
+    whereClause: ReturnType<typeof sql>,
+  ): Promise<LedgerMemberRecord[]> {
+    const rows = await this.db
+      .select({
+        member: ledgerMembers,
+        name: users.name,
+        email: users.email,
+      })
+      .from(ledgerMembers)
+      .innerJoin(users, eq(ledgerMembers.userId, users.id))
+      .where(whereClause)
+      .orderBy(asc(ledgerMembers.ledgerId), asc(ledgerMembers.id));
+
+    return rows.map((row) => ({
+      ledgerId: row.member.ledgerId,
+      userId: row.member.userId,
+      name: row.name,
+      email: row.email,
+      role: toRoleCode(row.member.role),
+      joinedAt: row.member.createdAt,
+    }));
+  }
+}
@@ -0,0 +1,78 @@
+// Infrastructure Layer: Password Reset Token Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  eq,
+  isNull,
+  type NodePgDatabase,
+  passwordResetTokens,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  IPasswordResetTokenRepository,
+  PasswordResetTokenRecord,
+} from '../../domain/repositories/password-reset-token.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+@injectable()
+export class PasswordResetTokenRepository
+  implements IPasswordResetTokenRepository
+{
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(params: {
+    userId: number;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<PasswordResetTokenRecord> {
+    const [created] = await this.db
+      .insert(passwordResetTokens)
+      .values({
+        userId: params.userId,
+        tokenHash: params.tokenHash,
+        expiresAt: params.expiresAt,
+      })
+      .returning();
+
+    return created;
+  }
+
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<PasswordResetTokenRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    return result ?? null;
+  }
+
+  async markUsed(id: number): Promise<boolean> {
+    const used = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)),
+      )
+      .returning({ id: passwordResetTokens.id });
+
+    return used.length > 0;
+  }
+
+  async invalidateAllByUserId(userId: number): Promise<void> {
+    await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.userId, userId),
+          isNull(passwordResetTokens.usedAt),
+        ),
+      );
+  }
+}
@@ -0,0 +1,271 @@
+// Infrastructure Layer: RecurringTransaction Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  asc,
+  count,
+  currencies,
+  eq,
+  type NodePgDatabase,
+  recurringTransactionOccurrences,
+  recurringTransactions,
+  sql,
+  transactionTypes,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  CreateRecurringTransactionData,
+  RecurringFrequency,
+  RecurringTransaction,
+  RecurringTransactionRecord,
+} from '../../domain/entities/recurring-transaction.entity';
+import type {
+  FindStartedRecurringTransactionsQuery,
+  IRecurringTransactionRepository,
+} from '../../domain/repositories/recurring-transaction.repository.interface';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { TOKENS } from '../../services/di/tokens';
+
+const DEFAULT_CURRENCY_CODE = 'JPY' as const;
+
+const toTransactionType = (code: string): 'INCOME' | 'EXPENSE' => {
+  if (code === 'INCOME' || code === 'EXPENSE') {
+    return code;
+  }
+  throw new Error(`Unsupported transaction type code: ${code}`);
+};
+
+const toFrequency = (value: string): RecurringFrequency => {
+  if (
+    value === 'DAILY' ||
+    value === 'WEEKLY' ||
+    value === 'MONTHLY' ||
+    value === 'YEARLY'
+  ) {
+    return value;
+  }
+  throw new Error(`Unsupported recurring frequency: ${value}`);
+};
+
+const toDateString = (value: string | Date): string =>
+  TransactionDate.fromDateLike(value).format();
+
+type JoinedRecurringTransactionRow = {
+  recurringTransaction: typeof recurringTransactions.$inferSelect;
+  transactionType: typeof transactionTypes.$inferSelect;
+  currency: typeof currencies.$inferSelect;
+};
+
+@injectable()
+export class RecurringTransactionRepository
+  implements IRecurringTransactionRepository
+{
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(
+    data: CreateRecurringTransactionData,
+  ): Promise<RecurringTransactionRecord> {
+    return await this.db.transaction(async (tx) => {
+      const [transactionType] = await tx
+        .select()
+        .from(transactionTypes)
+        .where(eq(transactionTypes.code, data.type))
+        .limit(1);
+
+      if (!transactionType) {
+        throw new Error(`Transaction type ${data.type} not found`);
+      }
+
+      const [currency] = await tx
+        .select()
+        .from(currencies)
+        .where(eq(currencies.code, DEFAULT_CURRENCY_CODE))
+        .limit(1);
+
+      if (!currency) {
+        throw new Error(`Currency ${DEFAULT_CURRENCY_CODE} not found`);
+      }
+
+      const [created] = await tx
+        .insert(recurringTransactions)
+        .values({
+          userId: data.userId,
+          typeId: transactionType.id,
+          title: data.title,
+          amount: data.amount,
+          currencyId: currency.id,
+          categoryId: data.categoryId,
+          memo: data.memo.length === 0 ? null : data.memo,
+          frequency: data.frequency,
+          interval: data.interval,
+          startDate: data.startDate,
+          endDate: data.endDate,
+        })
+        .returning();
+
+      return this.toRecord({
+        recurringTransaction: created,
+        transactionType,
+        currency,
+      });
+    });
+  }
+
+  async findById(id: number): Promise<RecurringTransactionRecord | null> {
+    const results = await this.selectJoinedRecurringTransactions(
+      eq(recurringTransactions.id, id),
+    );
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findByUserId(userId: number): Promise<RecurringTransactionRecord[]> {
+    return await this.selectJoinedRecurringTransactions(
+      eq(recurringTransactions.userId, userId),
+    );
+  }
+
+  async findStarted(
+    query: FindStartedRecurringTransactionsQuery,
+  ): Promise<RecurringTransactionRecord[]> {
+    const conditions = [
+      sql`${recurringTransactions.startDate} <= ${query.date}`,
+    ];
+
+    if (query.userId !== undefined) {
+      conditions.push(eq(recurringTransactions.userId, query.userId));
+    }
+
+    return await this.selectJoinedRecurringTransactions(
+      sql.join(conditions, sql` and `),
+    );
+  }
+
+  async existsByCategoryId(categoryId: number): Promise<boolean> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(recurringTransactions)
+      .where(eq(recurringTransactions.categoryId, categoryId));
+
+    return (result?.count ?? 0) > 0;
+  }
+
+  async delete(recurringTransaction: RecurringTransaction): Promise<void> {
+    await this.db
+      .delete(recurringTransactions)
+      .where(eq(recurringTransactions.id, recurringTransaction.id));
+  }
+
+  async findOccurrenceDates(recurringTransactionId: number): Promise<string[]> {
+    const rows = await this.db
+      .select({
+        occurrenceDate: recurringTransactionOccurrences.occurrenceDate,
+      })
+      .from(recurringTransactionOccurrences)
+      .where(
+        eq(
+          recurringTransactionOccurrences.recurringTransactionId,
+          recurringTransactionId,
+        ),
+      )
+      .orderBy(asc(recurringTransactionOccurrences.occurrenceDate));
+
+    return rows.map((row) => toDateString(row.occurrenceDate));
+  }
+
+  async claimOccurrence(
+    recurringTransactionId: number,
+    date: string,
+  ): Promise<boolean> {
+    const claimed = await this.db
+      .insert(recurringTransactionOccurrences)
+      .values({ recurringTransactionId, occurrenceDate: date })
+      .onConflictDoNothing()
+      .returning({ id: recurringTransactionOccurrences.id });
+
+    return claimed.length > 0;
+  }
+
+  async completeOccurrence(
+    recurringTransactionId: number,
+    date: string,
+    transactionId: number,
+  ): Promise<void> {
+    await this.db
+      .update(recurringTransactionOccurrences)
+      .set({ transactionId })
+      .where(this.occurrenceCondition(recurringTransactionId, date));
+  }
+
+  async releaseOccurrence(
+    recurringTransactionId: number,
+    date: string,
+  ): Promise<void> {
+    await this.db
+      .delete(recurringTransactionOccurrences)
+      .where(this.occurrenceCondition(recurringTransactionId, date));
+  }
+
+  private occurrenceCondition(recurringTransactionId: number, date: string) {
+    return and(
+      eq(
+        recurringTransactionOccurrences.recurringTransactionId,
+        recurringTransactionId,
+      ),
+      sql`${recurringTransactionOccurrences.occurrenceDate} = ${date}`,
+    );
+  }
+
+  private async selectJoinedRecurringTransactions(
+    whereClause: ReturnType<typeof sql>,
+  ): Promise<RecurringTransactionRecord[]> {
+    const rows: JoinedRecurringTransactionRow[] = await this.db
+      .select({
+        recurringTransaction: recurringTransactions,
+        transactionType: transactionTypes,
+        currency: currencies,
+      })
+      .from(recurringTransactions)
+      .innerJoin(
+        transactionTypes,
+        eq(recurringTransactions.typeId, transactionTypes.id),
+      )
+      .innerJoin(
+        currencies,
+        eq(recurringTransactions.currencyId, currencies.id),
+      )
+      .where(whereClause)
+      .orderBy(asc(recurringTransactions.id));
+
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  private toRecord(
+    row: JoinedRecurringTransactionRow,
+  ): RecurringTransactionRecord {
+    const { recurringTransaction, transactionType, currency } = row;
+
+    return {
+      id: recurringTransaction.id,
+      userId: recurringTransaction.userId,
+      frequency: toFrequency(recurringTransaction.frequency),
+      interval: recurringTransaction.interval,
+      startDate: toDateString(recurringTransaction.startDate),
+      endDate:
+        recurringTransaction.endDate === null
+          ? null
+          : toDateString(recurringTransaction.endDate),
+      type: toTransactionType(transactionType.code),
+      title: recurringTransaction.title,
+      amount: recurringTransaction.amount,
+      currency: currency.code,
+      categoryId: recurringTransaction.categoryId,
+      memo: recurringTransaction.memo ?? '',
+      createdAt: recurringTransaction.createdAt,
+      updatedAt: recurringTransaction.updatedAt,
+    };
+  }
+}
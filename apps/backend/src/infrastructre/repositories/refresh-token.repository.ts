@@ -0,0 +1,87 @@
+// Infrastructure Layer: Refresh Token Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  eq,
+  isNull,
+  type NodePgDatabase,
+  refreshTokens,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  IRefreshTokenRepository,
+  RefreshTokenRecord,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+@injectable()
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(params: {
+    userId: number;
+    familyId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<RefreshTokenRecord> {
+    const [created] = await this.db
+      .insert(refreshTokens)
+      .values({
+        userId: params.userId,
+        familyId: params.familyId,
+        tokenHash: params.tokenHash,
+        expiresAt: params.expiresAt,
+      })
+      .returning();
+
+    return created;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    return result ?? null;
+  }
+
+  async revoke(id: number): Promise<boolean> {
+    const revoked = await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+
+    return revoked.length > 0;
+  }
+
+  async revokeFamily(params: {
+    userId: number;
+    familyId: string;
+  }): Promise<void> {
+    await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(refreshTokens.userId, params.userId),
+          eq(refreshTokens.familyId, params.familyId),
+          isNull(refreshTokens.revokedAt),
+        ),
+      );
+  }
+
+  async revokeAllByUserId(userId: number): Promise<void> {
+    await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)),
+      );
+  }
+}
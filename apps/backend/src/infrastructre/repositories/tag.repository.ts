@@ -0,0 +1,112 @@
+// Infrastructure Layer: Tag Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import { asc, eq, type NodePgDatabase, sql, tags } from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  CreateTagData,
+  Tag,
+  TagRecord,
+} from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+const toTagRecord = (tag: typeof tags.$inferSelect): TagRecord => ({
+  id: tag.id,
+  userId: tag.userId,
+  name: tag.name,
+  createdAt: tag.createdAt,
+  updatedAt: tag.updatedAt,
+});
+
+@injectable()
+export class TagRepository implements ITagRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(data: CreateTagData): Promise<TagRecord> {
+    const [created] = await this.db
+      .insert(tags)
+      .values({
+        userId: data.userId,
+        name: data.name,
+      })
+      .returning();
+
+    return toTagRecord(created);
+  }
+
+  async findById(id: number): Promise<TagRecord | null> {
+    const [row] = await this.db
+      .select()
+      .from(tags)
+      .where(eq(tags.id, id))
+      .limit(1);
+
+    return row ? toTagRecord(row) : null;
+  }
+
+  async findByIds(ids: number[]): Promise<TagRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select()
+      .from(tags)
+      .where(
+        sql`${tags.id} in (${sql.join(
+          ids.map((id) => sql`${id}`),
+          sql`, `,
+        )})`,
+      )
+      .orderBy(asc(tags.id));
+
+    return rows.map(toTagRecord);
+  }
+
+  async findByUserIdAndName(
+    userId: number,
+    name: string,
+  ): Promise<TagRecord | null> {
+    const [row] = await this.db
+      .select()
+      .from(tags)
+      .where(sql`${tags.userId} = ${userId} and ${tags.name} = ${name}`)
+      .limit(1);
+
+    return row ? toTagRecord(row) : null;
+  }
+
+  async findByUserId(userId: number): Promise<TagRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(tags)
+      .where(eq(tags.userId, userId))
+      .orderBy(asc(tags.name), asc(tags.id));
+
+    return rows.map(toTagRecord);
+  }
+
+  async update(tag: Tag): Promise<TagRecord> {
+    const [updated] = await this.db
+      .update(tags)
+      .set({
+        name: tag.name,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(tags.id, tag.id))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`Tag not found after update: ${tag.id}`);
+    }
+
+    return toTagRecord(updated);
+  }
+
+  async delete(tag: Tag): Promise<void> {
+    await this.db.delete(tags).where(eq(tags.id, tag.id));
+  }
+}
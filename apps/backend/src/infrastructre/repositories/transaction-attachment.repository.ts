@@ -0,0 +1,111 @@
+// Infrastructure Layer: Transaction Attachment Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  asc,
+  eq,
+  type NodePgDatabase,
+  transactionAttachments,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  CreateTransactionAttachmentData,
+  TransactionAttachment,
+  TransactionAttachmentContentType,
+  TransactionAttachmentRecord,
+} from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+const toContentType = (
+  contentType: string,
+): TransactionAttachmentContentType => {
+  if (
+    contentType === 'image/jpeg' ||
+    contentType === 'image/png' ||
+    contentType === 'image/webp' ||
+    contentType === 'image/heic'
+  ) {
+    return contentType;
+  }
+  throw new Error(`Unsupported attachment content type: ${contentType}`);
+};
+
+@injectable()
+export class TransactionAttachmentRepository
+  implements ITransactionAttachmentRepository
+{
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(
+    data: CreateTransactionAttachmentData,
+  ): Promise<TransactionAttachmentRecord> {
+    const [created] = await this.db
+      .insert(transactionAttachments)
+      .values({
+        transactionId: data.transactionId,
+        userId: data.userId,
+        fileName: data.fileName,
+        contentType: data.contentType,
+        size: data.size,
+        storageKey: data.storageKey,
+      })
+      .returning();
+
+    return this.toRecord(created);
+  }
+
+  async findById(id: number): Promise<TransactionAttachmentRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(transactionAttachments)
+      .where(eq(transactionAttachments.id, id))
+      .limit(1);
+
+    return result ? this.toRecord(result) : null;
+  }
+
+  async findByTransactionId(
+    transactionId: number,
+  ): Promise<TransactionAttachmentRecord[]> {
+    const results = await this.db
+      .select()
+      .from(transactionAttachments)
+      .where(eq(transactionAttachments.transactionId, transactionId))
+      .orderBy(asc(transactionAttachments.id));
+
+    return results.map((row) => this.toRecord(row));
+  }
+
+  async findStorageKeysByUserId(userId: number): Promise<string[]> {
+    const results = await this.db
+      .select({ storageKey: transactionAttachments.storageKey })
+      .from(transactionAttachments)
+      .where(eq(transactionAttachments.userId, userId));
+
+    return results.map((row) => row.storageKey);
+  }
+
+  async delete(attachment: TransactionAttachment): Promise<void> {
+    await this.db
+      .delete(transactionAttachments)
+      .where(eq(transactionAttachments.id, attachment.id));
+  }
+
+  private toRecord(
+    row: typeof transactionAttachments.$inferSelect,
+  ): TransactionAttachmentRecord {
+    return {
+      id: row.id,
+      transactionId: row.transactionId,
+      userId: row.userId,
+      fileName: row.fileName,
+      contentType: toContentType(row.contentType),
+      size: row.size,
+      storageKey: row.storageKey,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+// Infrastructure Layer: Transaction Revision Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  desc,
+  eq,
+  type NodePgDatabase,
+  transactionRevisions,
+  users,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ITransactionRevisionRepository,
+  TransactionRevisionAction,
+  TransactionRevisionRecord,
+  TransactionSnapshot,
+} from '../../domain/repositories/transaction-revision.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+const toRevisionAction = (action: string): TransactionRevisionAction => {
+  if (action === 'UPDATE' || action === 'DELETE' || action === 'RESTORE') {
+    return action;
+  }
+  throw new Error(`Unsupported transaction revision action: ${action}`);
+};
+
+// NOTE: スナップショットは TransactionRepository が記録した内容をそのまま保持している
+// 内訳を記録する前の履歴は変更前後とも内訳がないため、空として扱う（差分には現れない）
+const toSnapshot = (
+  snapshot: typeof transactionRevisions.$inferSelect.before,
+): TransactionSnapshot =>
+  ({ ...snapshot, splits: snapshot.splits ?? [] }) as TransactionSnapshot;
+
+@injectable()
+export class TransactionRevisionRepository
+  implements ITransactionRevisionRepository
+{
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async findByTransactionId(
+    transactionId: number,
+  ): Promise<TransactionRevisionRecord[]> {
+    const rows = await this.db
+      .select({
+        revision: transactionRevisions,
+        user: { id: users.id, name: users.name },
+      })
+      .from(transactionRevisions)
+      .leftJoin(users, eq(transactionRevisions.changedBy, users.id))
+      .where(eq(transactionRevisions.transactionId, transactionId))
+      .orderBy(desc(transactionRevisions.id));
+
+    return rows.map(({ revision, user }) => ({
+      id: revision.id,
+      transactionId: revision.transactionId,
+      action: toRevisionAction(revision.action),
+      changedBy: user === null ? null : { userId: user.id, name: user.name },
+      before: toSnapshot(revision.before),
+      after: revision.after === null ? null : toSnapshot(revision.after),
+      createdAt: revision.createdAt,
+    }));
+  }
+}
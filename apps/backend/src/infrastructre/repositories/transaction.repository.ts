@@ -1,14 +1,20 @@
 import {
+  alias,
   and,
   asc,
+  categories,
   count,
   currencies,
   desc,
   eq,
   type NodePgDatabase,
   sql,
+  tags,
   transactionCategories,
+  transactionImports,
+  transactionRevisions,
   transactions,
+  transactionTags,
   transactionTypes,
 } from '@account-book-app/db';
 import { inject, injectable } from 'inversify';
@@ -18,24 +24,62 @@ import type {
   Transaction,
   TransactionListItemRecord,
   TransactionRecord,
+  TransactionSplitRecord,
 } from '../../domain/entities/transaction.entity';
 import type {
+  ImportedTransactionRecord,
+  ImportTransactionData,
   ITransactionRepository,
   ListTransactionsQuery,
   ListTransactionsResult,
+  ListTrashedTransactionsQuery,
+  ListTrashedTransactionsResult,
+  SummarizeTransactionsByCurrencyResult,
+  SummarizeTransactionsQuery,
+  SummarizeTransactionsResult,
 } from '../../domain/repositories/transaction.repository.interface';
+import type {
+  TransactionRevisionAction,
+  TransactionSnapshot,
+} from '../../domain/repositories/transaction-revision.repository.interface';
+import { SearchText } from '../../domain/values/search-text';
 import { TransactionDate } from '../../domain/values/transaction-date';
 import { TOKENS } from '../../services/di/tokens';
 
-const DEFAULT_CURRENCY_CODE = 'JPY' as const;
+const TRANSFER_TYPE_CODE = 'TRANSFER' as const;
 
-const toTransactionType = (code: string): 'INCOME' | 'EXPENSE' => {
-  if (code === 'INCOME' || code === 'EXPENSE') {
+const toTransactionType = (code: string): 'INCOME' | 'EXPENSE' | 'TRANSFER' => {
+  if (code === 'INCOME' || code === 'EXPENSE' || code === TRANSFER_TYPE_CODE) {
     return code;
   }
   throw new Error(`Unsupported transaction type code: ${code}`);
 };
 
+// NOTE: 集計は振替を除外して行うため、収入/支出のみを受け付ける
+const toSummaryType = (code: string): 'INCOME' | 'EXPENSE' => {
+  if (code === 'INCOME' || code === 'EXPENSE') {
+    return code;
+  }
+  throw new Error(`Unsupported transaction type code for summary: ${code}`);
+};
+
+// NOTE: サブカテゴリは親カテゴリ（最上位）にまとめて集計する。
+// 親子の両方に明細がある取引を二重に数えないよう、件数は取引単位で数える
+const buildRollUpCategoryColumns = () => {
+  const parentCategories = alias(categories, 'parent_categories');
+  return {
+    parentCategories,
+    categoryId:
+      sql<number>`coalesce(${parentCategories.id}, ${categories.id})`.mapWith(
+        Number,
+      ),
+    categoryName: sql<string>`coalesce(${parentCategories.name}, ${categories.name})`,
+    transactionCount: sql<number>`count(distinct ${transactions.id})`.mapWith(
+      Number,
+    ),
+  };
+};
+
 type JoinedTransactionRow = {
   transaction: typeof transactions.$inferSelect;
   transactionType: typeof transactionTypes.$inferSelect;
@@ -46,10 +90,99 @@ type JoinedTransactionRow = {
 const toDateString = (value: string | Date): string =>
   TransactionDate.fromDateLike(value).format();
 
+const toDeletedAt = (transaction: typeof transactions.$inferSelect): Date => {
+  if (transaction.deletedAt === null) {
+    throw new Error(`Transaction ${transaction.id} is not deleted`);
+  }
+  return transaction.deletedAt;
+};
+
+// NOTE: LIKE のワイルドカード（% _）と既定のエスケープ文字（\）を文字どおりに扱う
+const escapeLikePattern = (value: string): string =>
+  value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+type SortKeyExpression = {
+  expression: ReturnType<typeof sql>;
+  toParam: (value: string | number | Date) => ReturnType<typeof sql>;
+};
+
+// NOTE: createdAt はカーソルに保持できる精度（ミリ秒）に揃えて並べ替え・比較する
+const toSortKeyExpression = (
+  sortBy: ListTransactionsQuery['sortBy'],
+): SortKeyExpression => {
+  switch (sortBy) {
+    case 'date':
+      return {
+        expression: sql`${transactions.date}`,
+        toParam: (value) => sql`${value}::date`,
+      };
+    case 'amount':
+      return {
+        expression: sql`${transactions.amount}`,
+        toParam: (value) => sql`${value}::integer`,
+      };
+    case 'createdAt':
+      return {
+        expression: sql`date_trunc('milliseconds', ${transactions.createdAt})`,
+        toParam: (value) => sql`${value}::timestamp`,
+      };
+    case 'title':
+      return {
+        expression: sql`${transactions.title}`,
+        toParam: (value) => sql`${value}::varchar`,
+      };
+  }
+};
+
+const toCategoryIdsAndSplits = (
+  splits: TransactionSplitRecord[],
+): Pick<TransactionListItemRecord, 'categoryIds' | 'splits'> => ({
+  categoryIds: splits.map((split) => split.categoryId),
+  splits,
+});
+
+const toTypeId = (
+  typeIdByCode: Map<string, number>,
+  code: 'INCOME' | 'EXPENSE' | 'TRANSFER',
+): number => {
+  const typeId = typeIdByCode.get(code);
+  if (typeId === undefined) {
+    throw new Error(`Transaction type ${code} not found`);
+  }
+  return typeId;
+};
+
+const toCurrencyId = (
+  currencyIdByCode: Map<string, number>,
+  code: string,
+): number => {
+  const currencyId = currencyIdByCode.get(code);
+  if (currencyId === undefined) {
+    throw new Error(`Currency ${code} not found`);
+  }
+  return currencyId;
+};
+
+const buildInStringList = (
+  column: typeof transactionImports.rowHash,
+  values: string[],
+): ReturnType<typeof sql> =>
+  sql`${column} in (${sql.join(
+    values.map((v) => sql`${v}`),
+    sql`, `,
+  )})`;
+
+// NOTE: インポート済みかどうかは帳簿と行ハッシュの組で判定する
+const toImportKey = (row: { ledgerId: number; rowHash: string }): string =>
+  `${row.ledgerId}:${row.rowHash}`;
+
 const buildInNumberList = (
   column:
     | typeof transactionCategories.transactionId
-    | typeof transactionCategories.categoryId,
+    | typeof transactionCategories.categoryId
+    | typeof transactionTags.transactionId
+    | typeof transactionTags.tagId
+    | typeof transactionImports.ledgerId,
   values: number[],
 ): ReturnType<typeof sql> =>
   sql`${column} in (${sql.join(
@@ -79,33 +212,48 @@ export class TransactionRepository implements ITransactionRepository {
       const [currency] = await tx
         .select()
         .from(currencies)
-        .where(eq(currencies.code, DEFAULT_CURRENCY_CODE))
+        .where(eq(currencies.code, data.currency))
         .limit(1);
 
       if (!currency) {
-        throw new Error(`Currency ${DEFAULT_CURRENCY_CODE} not found`);
+        throw new Error(`Currency ${data.currency} not found`);
       }
 
       const [created] = await tx
         .insert(transactions)
         .values({
+          ledgerId: data.ledgerId,
           userId: data.userId,
           typeId: transactionType.id,
           title: data.title,
           amount: data.amount,
           currencyId: currency.id,
+          accountId: data.accountId ?? null,
+          transferAccountId: data.transferAccountId ?? null,
           date: data.date,
           memo: data.memo.length === 0 ? null : data.memo,
+          searchText: SearchText.from(data.title, data.memo).value,
         })
         .returning();
 
       await tx.insert(transactionCategories).values({
         transactionId: created.id,
         categoryId: data.categoryId,
+        amount: data.amount,
       });
 
+      if (data.tagIds !== undefined && data.tagIds.length > 0) {
+        await tx.insert(transactionTags).values(
+          data.tagIds.map((tagId) => ({
+            transactionId: created.id,
+            tagId,
+          })),
+        );
+      }
+
       return {
         id: created.id,
+        ledgerId: created.ledgerId,
         userId: created.userId,
         type: typeCode,
         title: created.title,
@@ -113,6 +261,8 @@ export class TransactionRepository implements ITransactionRepository {
         currency: currency.code,
         date: toDateString(created.date),
         categoryId: data.categoryId,
+        accountId: created.accountId,
+        transferAccountId: created.transferAccountId,
         memo: data.memo,
         createdAt: created.createdAt,
         updatedAt: created.updatedAt,
@@ -128,11 +278,32 @@ export class TransactionRepository implements ITransactionRepository {
     return results.length === 0 ? null : results[0];
   }
 
-  async findCategoryIdsByTransactionId(
+  async findByIdIncludingDeleted(
+    id: number,
+  ): Promise<TransactionRecord | null> {
+    const results = await this.selectJoinedTransactions(
+      sql`${transactions.id} = ${id}`,
+    );
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findTrashedById(id: number): Promise<TransactionRecord | null> {
+    const results = await this.selectJoinedTransactions(
+      sql`${transactions.id} = ${id} and ${transactions.deletedAt} is not null`,
+    );
+
+    return results.length === 0 ? null : results[0];
+  }
+
+  async findSplitsByTransactionId(
     transactionId: number,
-  ): Promise<number[]> {
-    const rows: { categoryId: number }[] = await this.db
-      .select({ categoryId: transactionCategories.categoryId })
+  ): Promise<TransactionSplitRecord[]> {
+    const rows: TransactionSplitRecord[] = await this.db
+      .select({
+        categoryId: transactionCategories.categoryId,
+        amount: transactionCategories.amount,
+      })
       .from(transactionCategories)
       .innerJoin(
         transactions,
@@ -143,7 +314,17 @@ export class TransactionRepository implements ITransactionRepository {
       )
       .orderBy(asc(transactionCategories.id));
 
-    return rows.map((r) => r.categoryId);
+    return rows;
+  }
+
+  async findTagIdsByTransactionId(transactionId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ tagId: transactionTags.tagId })
+      .from(transactionTags)
+      .where(eq(transactionTags.transactionId, transactionId))
+      .orderBy(asc(transactionTags.id));
+
+    return rows.map((row) => row.tagId);
   }
 
   async findByUserId(userId: number): Promise<TransactionRecord[]> {
@@ -162,11 +343,11 @@ export class TransactionRepository implements ITransactionRepository {
     );
   }
 
-  async listByUserId(
+  async listByLedgerId(
     query: ListTransactionsQuery,
   ): Promise<ListTransactionsResult> {
     const baseConditions = [
-      sql`${transactions.userId} = ${query.userId}`,
+      sql`${transactions.ledgerId} = ${query.ledgerId}`,
       sql`${transactions.deletedAt} is null`,
     ];
 
@@ -175,7 +356,20 @@ export class TransactionRepository implements ITransactionRepository {
       query.endDate ? sql`${transactions.date} <= ${query.endDate}` : null,
     ].filter((v): v is ReturnType<typeof sql> => v !== null);
 
-    const whereForTransactions = and(...baseConditions, ...dateConditions);
+    const amountConditions = [
+      query.minAmount !== undefined
+        ? sql`${transactions.amount} >= ${query.minAmount}`
+        : null,
+      query.maxAmount !== undefined
+        ? sql`${transactions.amount} <= ${query.maxAmount}`
+        : null,
+    ].filter((v): v is ReturnType<typeof sql> => v !== null);
+
+    const whereForTransactions = and(
+      ...baseConditions,
+      ...dateConditions,
+      ...amountConditions,
+    );
 
     const typeCondition =
       query.type !== undefined
@@ -192,21 +386,50 @@ export class TransactionRepository implements ITransactionRepository {
 				)`
         : null;
 
+    const tagCondition =
+      query.tagIds !== undefined && query.tagIds.length > 0
+        ? sql`exists (
+					select 1
+					from ${transactionTags}
+					where ${transactionTags.transactionId} = ${transactions.id}
+						and ${buildInNumberList(transactionTags.tagId, query.tagIds)}
+				)`
+        : null;
+
+    // NOTE: 検索語はすべて含むものに絞り込む（部分一致は pg_trgm の GIN インデックスで高速化される）
+    const searchTerms = query.q === undefined ? [] : query.q.split(' ');
+    const searchConditions = searchTerms.map(
+      (term) =>
+        sql`${transactions.searchText} like ${`%${escapeLikePattern(term)}%`}`,
+    );
+
     const whereClause = and(
       whereForTransactions,
       ...(typeCondition ? [typeCondition] : []),
       ...(categoryCondition ? [categoryCondition] : []),
+      ...(tagCondition ? [tagCondition] : []),
+      ...searchConditions,
     );
 
-    const [{ total }] = await this.db
-      .select({
-        total: count(),
-      })
-      .from(transactions)
-      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
-      .where(whereClause);
+    // NOTE: 検索時は検索語との類似度が高い順に並べ、同じ類似度の中では指定された並び順にする
+    const relevanceOrder =
+      query.q === undefined
+        ? []
+        : [sql`word_similarity(${query.q}, ${transactions.searchText}) desc`];
 
-    const totalCount = Number(total ?? 0);
+    const sortKey = toSortKeyExpression(query.sortBy);
+
+    // NOTE: 並び替えキーとIDの組で比較し、カーソルより後ろの取引のみを取得する
+    const keysetCondition =
+      query.after === undefined
+        ? null
+        : sql`(${sortKey.expression}, ${transactions.id}) ${sql.raw(
+            query.order === 'asc' ? '>' : '<',
+          )} (${sortKey.toParam(query.after.value)}, ${query.after.id})`;
+
+    // NOTE: カーソル指定時はページを進めるたびに全件を数え直さないよう、総件数を数えない（総件数は最初のページで取得する）
+    const totalCount =
+      query.after === undefined ? await this.countListed(whereClause) : null;
 
     const rows: {
       transaction: typeof transactions.$inferSelect;
@@ -221,9 +444,14 @@ export class TransactionRepository implements ITransactionRepository {
       .from(transactions)
       .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
       .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
-      .where(whereClause)
+      .where(
+        keysetCondition === null
+          ? whereClause
+          : and(whereClause, keysetCondition),
+      )
       .orderBy(
-        ({ asc, desc } as const)[query.order](transactions.date),
+        ...relevanceOrder,
+        ({ asc, desc } as const)[query.order](sortKey.expression),
         ({ asc, desc } as const)[query.order](transactions.id),
       )
       .limit(query.limit)
@@ -238,38 +466,26 @@ export class TransactionRepository implements ITransactionRepository {
       };
     }
 
-    const categoryRows: {
-      transactionId: number;
-      categoryId: number;
-    }[] = await this.db
-      .select({
-        transactionId: transactionCategories.transactionId,
-        categoryId: transactionCategories.categoryId,
-      })
-      .from(transactionCategories)
-      .where(
-        buildInNumberList(transactionCategories.transactionId, transactionIds),
-      )
-      .orderBy(asc(transactionCategories.id));
-
-    const categoryIdsByTransactionId = new Map(
-      transactionIds.map((transactionId) => [
-        transactionId,
-        categoryRows
-          .filter((row) => row.transactionId === transactionId)
-          .map((row) => row.categoryId),
-      ]),
-    );
+    const splitsByTransactionId =
+      await this.findSplitsByTransactionIds(transactionIds);
+    const tagIdsByTransactionId =
+      await this.findTagIdsByTransactionIds(transactionIds);
 
     const items: TransactionListItemRecord[] = rows.map((row) => ({
       id: row.transaction.id,
+      ledgerId: row.transaction.ledgerId,
       userId: row.transaction.userId,
       type: toTransactionType(row.transactionType.code),
       title: row.transaction.title,
       amount: row.transaction.amount,
       currencyCode: row.currency.code,
       date: toDateString(row.transaction.date),
-      categoryIds: categoryIdsByTransactionId.get(row.transaction.id) ?? [],
+      ...toCategoryIdsAndSplits(
+        splitsByTransactionId.get(row.transaction.id) ?? [],
+      ),
+      tagIds: tagIdsByTransactionId.get(row.transaction.id) ?? [],
+      accountId: row.transaction.accountId,
+      transferAccountId: row.transaction.transferAccountId,
       memo: row.transaction.memo,
       createdAt: row.transaction.createdAt,
       updatedAt: row.transaction.updatedAt,
@@ -281,11 +497,405 @@ export class TransactionRepository implements ITransactionRepository {
     };
   }
 
+  async listTrashedByLedgerId(
+    query: ListTrashedTransactionsQuery,
+  ): Promise<ListTrashedTransactionsResult> {
+    const whereClause = and(
+      sql`${transactions.ledgerId} = ${query.ledgerId}`,
+      sql`${transactions.deletedAt} is not null`,
+    );
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(transactions)
+      .where(whereClause);
+
+    const rows = await this.db
+      .select({
+        transaction: transactions,
+        transactionType: transactionTypes,
+        currency: currencies,
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .where(whereClause)
+      .orderBy(desc(transactions.deletedAt), desc(transactions.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const transactionIds = rows.map((r) => r.transaction.id);
+    const splitsByTransactionId =
+      await this.findSplitsByTransactionIds(transactionIds);
+    const tagIdsByTransactionId =
+      await this.findTagIdsByTransactionIds(transactionIds);
+
+    return {
+      items: rows.map((row) => ({
+        id: row.transaction.id,
+        ledgerId: row.transaction.ledgerId,
+        userId: row.transaction.userId,
+        type: toTransactionType(row.transactionType.code),
+        title: row.transaction.title,
+        amount: row.transaction.amount,
+        currencyCode: row.currency.code,
+        date: toDateString(row.transaction.date),
+        ...toCategoryIdsAndSplits(
+          splitsByTransactionId.get(row.transaction.id) ?? [],
+        ),
+        tagIds: tagIdsByTransactionId.get(row.transaction.id) ?? [],
+        accountId: row.transaction.accountId,
+        transferAccountId: row.transaction.transferAccountId,
+        memo: row.transaction.memo,
+        createdAt: row.transaction.createdAt,
+        updatedAt: row.transaction.updatedAt,
+        deletedAt: toDeletedAt(row.transaction),
+      })),
+      total: Number(total ?? 0),
+    };
+  }
+
+  async summarizeByLedgerId(
+    query: SummarizeTransactionsQuery,
+  ): Promise<SummarizeTransactionsResult> {
+    const whereClause = and(
+      sql`${transactions.ledgerId} = ${query.ledgerId}`,
+      sql`${transactions.deletedAt} is null`,
+      sql`${transactions.date} >= ${query.startDate}`,
+      sql`${transactions.date} <= ${query.endDate}`,
+      sql`${transactionTypes.code} <> ${TRANSFER_TYPE_CODE}`,
+    );
+
+    const amountSum =
+      sql<number>`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number);
+    const splitAmountSum =
+      sql<number>`coalesce(sum(${transactionCategories.amount}), 0)`.mapWith(
+        Number,
+      );
+    // NOTE: 換算レートは取引日ごとに異なるため、通貨と取引日の単位まで分けて集計する
+    // NOTE: 種別ごとの合計は取引単位で集計する（カテゴリを結合すると複数カテゴリの取引が重複計上されるため）
+    const totalRows = await this.db
+      .select({
+        typeCode: transactionTypes.code,
+        currencyCode: currencies.code,
+        date: transactions.date,
+        amount: amountSum,
+        count: count(),
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .where(whereClause)
+      .groupBy(transactionTypes.code, currencies.code, transactions.date);
+
+    // NOTE: カテゴリごとの合計は明細の金額で集計する（複数カテゴリの取引を各カテゴリに全額計上しないため）
+    // NOTE: 予算はサブカテゴリにも設定できるため、親カテゴリに合算せずカテゴリ単位で集計する
+    const categoryRows = await this.db
+      .select({
+        categoryId: categories.id,
+        categoryName: categories.name,
+        parentCategoryId: categories.parentId,
+        typeCode: transactionTypes.code,
+        currencyCode: currencies.code,
+        date: transactions.date,
+        amount: splitAmountSum,
+        count: count(),
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .innerJoin(
+        transactionCategories,
+        eq(transactionCategories.transactionId, transactions.id),
+      )
+      .innerJoin(
+        categories,
+        eq(transactionCategories.categoryId, categories.id),
+      )
+      .where(whereClause)
+      .groupBy(
+        categories.id,
+        categories.name,
+        transactionTypes.code,
+        currencies.code,
+        transactions.date,
+      );
+
+    return {
+      totals: totalRows.map((row) => ({
+        type: toSummaryType(row.typeCode),
+        currencyCode: row.currencyCode,
+        date: toDateString(row.date),
+        amount: row.amount,
+        count: Number(row.count),
+      })),
+      categories: categoryRows.map((row) => ({
+        categoryId: row.categoryId,
+        categoryName: row.categoryName,
+        parentCategoryId: row.parentCategoryId,
+        type: toSummaryType(row.typeCode),
+        currencyCode: row.currencyCode,
+        date: toDateString(row.date),
+        amount: row.amount,
+        count: Number(row.count),
+      })),
+    };
+  }
+
+  async summarizeByLedgerIdPerCurrency(
+    query: SummarizeTransactionsQuery,
+  ): Promise<SummarizeTransactionsByCurrencyResult> {
+    const whereClause = and(
+      sql`${transactions.ledgerId} = ${query.ledgerId}`,
+      sql`${transactions.deletedAt} is null`,
+      sql`${transactions.date} >= ${query.startDate}`,
+      sql`${transactions.date} <= ${query.endDate}`,
+      sql`${transactionTypes.code} <> ${TRANSFER_TYPE_CODE}`,
+    );
+
+    const amountSum =
+      sql<number>`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number);
+    const splitAmountSum =
+      sql<number>`coalesce(sum(${transactionCategories.amount}), 0)`.mapWith(
+        Number,
+      );
+    const { parentCategories, categoryId, categoryName, transactionCount } =
+      buildRollUpCategoryColumns();
+
+    // NOTE: 換算レートは取引日ごとに異なるため、通貨と取引日の単位まで分けて集計する
+    const totalRows = await this.db
+      .select({
+        typeCode: transactionTypes.code,
+        currencyCode: currencies.code,
+        date: transactions.date,
+        amount: amountSum,
+        count: count(),
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .where(whereClause)
+      .groupBy(transactionTypes.code, currencies.code, transactions.date);
+
+    // NOTE: サブカテゴリの金額は親カテゴリに合算する
+    const categoryRows = await this.db
+      .select({
+        categoryId,
+        categoryName,
+        typeCode: transactionTypes.code,
+        currencyCode: currencies.code,
+        date: transactions.date,
+        amount: splitAmountSum,
+        count: transactionCount,
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .innerJoin(
+        transactionCategories,
+        eq(transactionCategories.transactionId, transactions.id),
+      )
+      .innerJoin(
+        categories,
+        eq(transactionCategories.categoryId, categories.id),
+      )
+      .leftJoin(parentCategories, eq(categories.parentId, parentCategories.id))
+      .where(whereClause)
+      .groupBy(
+        categoryId,
+        categoryName,
+        transactionTypes.code,
+        currencies.code,
+        transactions.date,
+      );
+
+    // NOTE: タグは金額を分けないため、取引の金額を付いているタグそれぞれに計上する
+    const tagRows = await this.db
+      .select({
+        tagId: transactionTags.tagId,
+        tagName: tags.name,
+        typeCode: transactionTypes.code,
+        currencyCode: currencies.code,
+        date: transactions.date,
+        amount: amountSum,
+        count: count(),
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .innerJoin(
+        transactionTags,
+        eq(transactionTags.transactionId, transactions.id),
+      )
+      .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+      .where(whereClause)
+      .groupBy(
+        transactionTags.tagId,
+        tags.name,
+        transactionTypes.code,
+        currencies.code,
+        transactions.date,
+      );
+
+    return {
+      totals: totalRows.map((row) => ({
+        type: toSummaryType(row.typeCode),
+        currencyCode: row.currencyCode,
+        date: toDateString(row.date),
+        amount: row.amount,
+        count: Number(row.count),
+      })),
+      categories: categoryRows.map((row) => ({
+        categoryId: row.categoryId,
+        categoryName: row.categoryName,
+        type: toSummaryType(row.typeCode),
+        currencyCode: row.currencyCode,
+        date: toDateString(row.date),
+        amount: row.amount,
+        count: Number(row.count),
+      })),
+      tags: tagRows.map((row) => ({
+        tagId: row.tagId,
+        tagName: row.tagName,
+        type: toSummaryType(row.typeCode),
+        currencyCode: row.currencyCode,
+        date: toDateString(row.date),
+        amount: row.amount,
+        count: Number(row.count),
+      })),
+    };
+  }
+
+  async findImportedRowHashes(
+    ledgerId: number,
+    rowHashes: string[],
+  ): Promise<string[]> {
+    if (rowHashes.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({ rowHash: transactionImports.rowHash })
+      .from(transactionImports)
+      .where(
+        and(
+          eq(transactionImports.ledgerId, ledgerId),
+          buildInStringList(transactionImports.rowHash, rowHashes),
+        ),
+      );
+
+    return rows.map((row) => row.rowHash);
+  }
+
+  async importMany(
+    userId: number,
+    rows: ImportTransactionData[],
+  ): Promise<ImportedTransactionRecord[]> {
+    return await this.db.transaction(async (tx) => {
+      // NOTE: 同一トランザクション内で再確認し、同じ帳簿にインポート済みの行は登録しない
+      const importedRows =
+        rows.length === 0
+          ? []
+          : await tx
+              .select({
+                ledgerId: transactionImports.ledgerId,
+                rowHash: transactionImports.rowHash,
+              })
+              .from(transactionImports)
+              .where(
+                and(
+                  buildInNumberList(
+                    transactionImports.ledgerId,
+                    Array.from(new Set(rows.map((row) => row.ledgerId))),
+                  ),
+                  buildInStringList(
+                    transactionImports.rowHash,
+                    rows.map((row) => row.rowHash),
+                  ),
+                ),
+              );
+      const imported = new Set(importedRows.map(toImportKey));
+      const targets = rows.filter((row) => !imported.has(toImportKey(row)));
+
+      if (targets.length === 0) {
+        return [];
+      }
+
+      const types = await tx.select().from(transactionTypes);
+      const typeIdByCode = new Map(types.map((type) => [type.code, type.id]));
+      const currencyRows = await tx.select().from(currencies);
+      const currencyIdByCode = new Map(
+        currencyRows.map((currency) => [currency.code, currency.id]),
+      );
+
+      const created = await tx
+        .insert(transactions)
+        .values(
+          targets.map((row) => ({
+            ledgerId: row.ledgerId,
+            userId,
+            typeId: toTypeId(typeIdByCode, row.type),
+            title: row.title,
+            amount: row.amount,
+            currencyId: toCurrencyId(currencyIdByCode, row.currency),
+            accountId: row.accountId ?? null,
+            transferAccountId: row.transferAccountId ?? null,
+            date: row.date,
+            memo: row.memo.length === 0 ? null : row.memo,
+            searchText: SearchText.from(row.title, row.memo).value,
+          })),
+        )
+        .returning({ id: transactions.id });
+
+      const records = targets.map((row, index) => ({
+        ledgerId: row.ledgerId,
+        rowHash: row.rowHash,
+        categoryId: row.categoryId,
+        amount: row.amount,
+        transactionId: created[index].id,
+      }));
+
+      await tx.insert(transactionCategories).values(
+        records.map(({ transactionId, categoryId, amount }) => ({
+          transactionId,
+          categoryId,
+          amount,
+        })),
+      );
+
+      // NOTE: 並行して同じ行がインポートされた場合は一意制約違反でロールバックされる
+      await tx.insert(transactionImports).values(
+        records.map(({ ledgerId, rowHash, transactionId }) => ({
+          userId,
+          ledgerId,
+          rowHash,
+          transactionId,
+        })),
+      );
+
+      return records.map(({ rowHash, transactionId }) => ({
+        rowHash,
+        transactionId,
+      }));
+    });
+  }
+
   async update(
     transaction: Transaction,
-    options?: { categoryIds?: number[] },
+    options: {
+      changedBy: number;
+      accountId?: number | null;
+      transferAccountId?: number | null;
+      tagIds?: number[];
+    },
   ): Promise<TransactionRecord> {
     return await this.db.transaction(async (tx) => {
+      const before = await this.selectSnapshotForUpdate(tx, transaction.id);
+
+      if (before === null) {
+        throw new Error(`Transaction ${transaction.id} not found`);
+      }
+
       const [currency] = await tx
         .select()
         .from(currencies)
@@ -313,54 +923,80 @@ export class TransactionRepository implements ITransactionRepository {
           amount: transaction.amount.amount,
           currencyId: currency.id,
           typeId: type.id,
+          accountId: options.accountId,
+          transferAccountId: options.transferAccountId,
           date: transaction.date.format(),
           memo: transaction.memo.length === 0 ? null : transaction.memo,
+          searchText: SearchText.from(transaction.title, transaction.memo)
+            .value,
           updatedAt: sql`now()`,
         })
         .where(eq(transactions.id, transaction.id))
         .returning();
 
-      if (options?.categoryIds !== undefined) {
+      // NOTE: 金額の変更に合わせて明細の金額も変わるため、明細は常に置き換える（登録順がカテゴリの並び順になる）
+      await tx
+        .delete(transactionCategories)
+        .where(eq(transactionCategories.transactionId, updated.id));
+
+      await tx.insert(transactionCategories).values(
+        transaction.splits.map((split) => ({
+          transactionId: updated.id,
+          categoryId: split.categoryId,
+          amount: split.amount.amount,
+        })),
+      );
+
+      if (options.tagIds !== undefined) {
         await tx
-          .delete(transactionCategories)
-          .where(eq(transactionCategories.transactionId, updated.id));
+          .delete(transactionTags)
+          .where(eq(transactionTags.transactionId, updated.id));
 
-        if (options.categoryIds.length > 0) {
-          await tx.insert(transactionCategories).values(
-            options.categoryIds.map((categoryId) => ({
+        if (options.tagIds.length > 0) {
+          await tx.insert(transactionTags).values(
+            options.tagIds.map((tagId) => ({
               transactionId: updated.id,
-              categoryId,
+              tagId,
             })),
           );
         }
       }
 
-      const categoryIds =
-        options?.categoryIds !== undefined
-          ? options.categoryIds
-          : (
-              await tx
-                .select({ categoryId: transactionCategories.categoryId })
-                .from(transactionCategories)
-                .where(eq(transactionCategories.transactionId, updated.id))
-                .orderBy(asc(transactionCategories.id))
-            ).map((r) => r.categoryId);
-
-      const primaryCategoryId = categoryIds[0];
-
-      if (primaryCategoryId === undefined) {
-        throw new Error(`Transaction ${updated.id} has no category`);
-      }
+      const splits = transaction.splits.map((split) => ({
+        categoryId: split.categoryId,
+        amount: split.amount.amount,
+      }));
+
+      await this.insertRevision(tx, {
+        transactionId: updated.id,
+        action: 'UPDATE',
+        changedBy: options.changedBy,
+        before,
+        after: {
+          type: toTransactionType(type.code),
+          title: updated.title,
+          amount: updated.amount,
+          currency: currency.code,
+          date: toDateString(updated.date),
+          ...toCategoryIdsAndSplits(splits),
+          accountId: updated.accountId,
+          transferAccountId: updated.transferAccountId,
+          memo: updated.memo,
+        },
+      });
 
       return {
         id: updated.id,
+        ledgerId: updated.ledgerId,
         userId: updated.userId,
         type: toTransactionType(type.code),
         title: updated.title,
         amount: updated.amount,
         currency: currency.code,
         date: toDateString(updated.date),
-        categoryId: primaryCategoryId,
+        categoryId: transaction.categoryId,
+        accountId: updated.accountId,
+        transferAccountId: updated.transferAccountId,
         memo: updated.memo ?? '',
         createdAt: updated.createdAt,
         updatedAt: updated.updatedAt,
@@ -368,28 +1004,225 @@ export class TransactionRepository implements ITransactionRepository {
     });
   }
 
-  async delete(transaction: Transaction): Promise<void> {
+  async delete(
+    transaction: Transaction,
+    options: { changedBy: number },
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const before = await this.selectSnapshotForUpdate(tx, transaction.id);
+
+      // NOTE: 削除済みの場合は何もしない（履歴も記録しない）
+      if (before === null) {
+        return;
+      }
+
+      await tx
+        .update(transactions)
+        .set({ deletedAt: sql`now()`, updatedAt: sql`now()` })
+        .where(eq(transactions.id, transaction.id));
+
+      await this.insertRevision(tx, {
+        transactionId: transaction.id,
+        action: 'DELETE',
+        changedBy: options.changedBy,
+        before,
+        after: null,
+      });
+    });
+  }
+
+  async restore(
+    transaction: Transaction,
+    options: { changedBy: number },
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const snapshot = await this.selectSnapshotForUpdate(tx, transaction.id, {
+        deleted: true,
+      });
+
+      // NOTE: 復元済みの場合は何もしない（履歴も記録しない）
+      if (snapshot === null) {
+        return;
+      }
+
+      await tx
+        .update(transactions)
+        .set({ deletedAt: null, updatedAt: sql`now()` })
+        .where(eq(transactions.id, transaction.id));
+
+      await this.insertRevision(tx, {
+        transactionId: transaction.id,
+        action: 'RESTORE',
+        changedBy: options.changedBy,
+        before: snapshot,
+        after: snapshot,
+      });
+    });
+  }
+
+  async purge(id: number): Promise<void> {
     await this.db
-      .update(transactions)
-      .set({ deletedAt: sql`now()`, updatedAt: sql`now()` })
+      .delete(transactions)
       .where(
-        sql`${transactions.id} = ${transaction.id} and ${transactions.deletedAt} is null`,
+        sql`${transactions.id} = ${id} and ${transactions.deletedAt} is not null`,
       );
   }
 
+  async findIdsDeletedBefore(cutoff: Date): Promise<number[]> {
+    const rows = await this.db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(
+        sql`${transactions.deletedAt} is not null and ${transactions.deletedAt} < ${cutoff}`,
+      )
+      .orderBy(asc(transactions.id));
+
+    return rows.map((row) => row.id);
+  }
+
   async existsByCategoryId(categoryId: number): Promise<boolean> {
+    // NOTE: ゴミ箱の取引も復元できるよう明細を残しているため、削除日時で絞り込まない
     const [result] = await this.db
       .select({ count: count() })
       .from(transactionCategories)
-      .innerJoin(
-        transactions,
-        eq(transactionCategories.transactionId, transactions.id),
+      .where(eq(transactionCategories.categoryId, categoryId));
+
+    return (result?.count ?? 0) > 0;
+  }
+
+  private async countListed(
+    whereClause: ReturnType<typeof and>,
+  ): Promise<number> {
+    const [{ total }] = await this.db
+      .select({
+        total: count(),
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .where(whereClause);
+
+    return Number(total ?? 0);
+  }
+
+  /**
+   * 変更前の取引の内容を取得する（同時に変更されないよう行ロックを取得する）
+   * deleted: true の場合はゴミ箱の取引を対象にする（対象の取引がない場合は null）
+   */
+  private async selectSnapshotForUpdate(
+    tx: NodePgDatabase,
+    transactionId: number,
+    options: { deleted: boolean } = { deleted: false },
+  ): Promise<TransactionSnapshot | null> {
+    const [row] = await tx
+      .select({
+        transaction: transactions,
+        transactionType: transactionTypes,
+        currency: currencies,
+      })
+      .from(transactions)
+      .innerJoin(transactionTypes, eq(transactions.typeId, transactionTypes.id))
+      .innerJoin(currencies, eq(transactions.currencyId, currencies.id))
+      .where(
+        options.deleted
+          ? sql`${transactions.id} = ${transactionId} and ${transactions.deletedAt} is not null`
+          : sql`${transactions.id} = ${transactionId} and ${transactions.deletedAt} is null`,
       )
+      .for('update', { of: transactions });
+
+    if (!row) {
+      return null;
+    }
+
+    const splits = await tx
+      .select({
+        categoryId: transactionCategories.categoryId,
+        amount: transactionCategories.amount,
+      })
+      .from(transactionCategories)
+      .where(eq(transactionCategories.transactionId, transactionId))
+      .orderBy(asc(transactionCategories.id));
+
+    return {
+      type: toTransactionType(row.transactionType.code),
+      title: row.transaction.title,
+      amount: row.transaction.amount,
+      currency: row.currency.code,
+      date: toDateString(row.transaction.date),
+      ...toCategoryIdsAndSplits(splits),
+      accountId: row.transaction.accountId,
+      transferAccountId: row.transaction.transferAccountId,
+      memo: row.transaction.memo,
+    };
+  }
+
+  private async findSplitsByTransactionIds(
+    transactionIds: number[],
+  ): Promise<Map<number, TransactionSplitRecord[]>> {
+    if (transactionIds.length === 0) {
+      return new Map();
+    }
+
+    const categoryRows: ({
+      transactionId: number;
+    } & TransactionSplitRecord)[] = await this.db
+      .select({
+        transactionId: transactionCategories.transactionId,
+        categoryId: transactionCategories.categoryId,
+        amount: transactionCategories.amount,
+      })
+      .from(transactionCategories)
       .where(
-        sql`${transactionCategories.categoryId} = ${categoryId} and ${transactions.deletedAt} is null`,
-      );
+        buildInNumberList(transactionCategories.transactionId, transactionIds),
+      )
+      .orderBy(asc(transactionCategories.id));
 
-    return (result?.count ?? 0) > 0;
+    return new Map(
+      transactionIds.map((transactionId) => [
+        transactionId,
+        categoryRows
+          .filter((row) => row.transactionId === transactionId)
+          .map((row) => ({ categoryId: row.categoryId, amount: row.amount })),
+      ]),
+    );
+  }
+
+  private async findTagIdsByTransactionIds(
+    transactionIds: number[],
+  ): Promise<Map<number, number[]>> {
+    if (transactionIds.length === 0) {
+      return new Map();
+    }
+
+    const tagRows = await this.db
+      .select({
+        transactionId: transactionTags.transactionId,
+        tagId: transactionTags.tagId,
+      })
+      .from(transactionTags)
+      .where(buildInNumberList(transactionTags.transactionId, transactionIds))
+      .orderBy(asc(transactionTags.id));
+
+    return new Map(
+      transactionIds.map((transactionId) => [
+        transactionId,
+        tagRows
+          .filter((row) => row.transactionId === transactionId)
+          .map((row) => row.tagId),
+      ]),
+    );
+  }
+
+  private async insertRevision(
+    tx: NodePgDatabase,
+    revision: {
+      transactionId: number;
+      action: TransactionRevisionAction;
+      changedBy: number;
+      before: TransactionSnapshot;
+      after: TransactionSnapshot | null;
+    },
+  ): Promise<void> {
+    await tx.insert(transactionRevisions).values(revision);
   }
 
   private async selectJoinedTransactions(
@@ -431,6 +1264,7 @@ export class TransactionRepository implements ITransactionRepository {
 
       return {
         id: row.transaction.id,
+        ledgerId: row.transaction.ledgerId,
         userId: row.transaction.userId,
         type: toTransactionType(row.transactionType.code),
         title: row.transaction.title,
@@ -438,6 +1272,8 @@ export class TransactionRepository implements ITransactionRepository {
         currency: row.currency.code,
         date: toDateString(row.transaction.date),
         categoryId,
+        accountId: row.transaction.accountId,
+        transferAccountId: row.transaction.transferAccountId,
         memo: row.transaction.memo ?? '',
         createdAt: row.transaction.createdAt,
         updatedAt: row.transaction.updatedAt,
@@ -0,0 +1,72 @@
+// Infrastructure Layer: User Session Repository Implementation
+// Drizzle ORMを使用したデータアクセス層
+
+import {
+  and,
+  desc,
+  eq,
+  isNull,
+  type NodePgDatabase,
+  userSessions,
+} from '@account-book-app/db';
+import { inject, injectable } from 'inversify';
+
+import type {
+  IUserSessionRepository,
+  UserSessionRecord,
+} from '../../domain/repositories/user-session.repository.interface';
+import { TOKENS } from '../../services/di/tokens';
+
+@injectable()
+export class UserSessionRepository implements IUserSessionRepository {
+  @inject(TOKENS.Db)
+  private db!: NodePgDatabase;
+
+  async create(params: {
+    id: string;
+    userId: number;
+    device: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+  }): Promise<UserSessionRecord> {
+    const [created] = await this.db
+      .insert(userSessions)
+      .values({
+        id: params.id,
+        userId: params.userId,
+        device: params.device,
+        userAgent: params.userAgent,
+        ipAddress: params.ipAddress,
+      })
+      .returning();
+
+    return created;
+  }
+
+  async findById(id: string): Promise<UserSessionRecord | null> {
+    const [result] = await this.db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.id, id))
+      .limit(1);
+
+    return result ?? null;
+  }
+
+  async findActiveByUserId(userId: number): Promise<UserSessionRecord[]> {
+    return this.db
+      .select()
+      .from(userSessions)
+      .where(
+        and(eq(userSessions.userId, userId), isNull(userSessions.revokedAt)),
+      )
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, id), isNull(userSessions.revokedAt)));
+  }
+}
@@ -1,8 +1,17 @@
 import {
   and,
+  categories,
   eq,
   isNull,
+  ledgerMembers,
+  ledgers,
   type NodePgDatabase,
+  sql,
+  transactionAttachments,
+  transactionCategories,
+  transactionImports,
+  transactions,
+  userCategories,
   users,
 } from '@account-book-app/db';
 import { inject, injectable } from 'inversify';
@@ -12,6 +21,14 @@ import type { IUserRepository } from '../../domain/repositories/user.repository.
 import { PasswordHash } from '../../domain/values/password-hash';
 import { TOKENS } from '../../services/di/tokens';
 
+// NOTE: 既存ユーザーの帳簿を作成したマイグレーション（0013）と同じ名前にする
+const DEFAULT_LEDGER_NAME = 'マイ家計簿';
+
+const selectLedgerOwnerId = (
+  ledgerId: typeof transactions.ledgerId | typeof transactionImports.ledgerId,
+) =>
+  sql<number>`(select ${ledgerMembers.userId} from ${ledgerMembers} where ${ledgerMembers.ledgerId} = ${ledgerId} and ${ledgerMembers.role} = 'OWNER')`;
+
 @injectable()
 export class UserRepository implements IUserRepository {
   @inject(TOKENS.Db)
@@ -27,6 +44,16 @@ export class UserRepository implements IUserRepository {
     return record ? this.toEntity(record) : null;
   }
 
+  async findById(id: number): Promise<User | null> {
+    const [record] = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, id), isNull(users.deletedAt)))
+      .limit(1);
+
+    return record ? this.toEntity(record) : null;
+  }
+
   async existsByEmail(email: string): Promise<boolean> {
     const [record] = await this.db
       .select({ id: users.id })
@@ -38,16 +65,149 @@ export class UserRepository implements IUserRepository {
   }
 
   async create(user: User): Promise<User> {
-    const [record] = await this.db
-      .insert(users)
-      .values({
-        email: user.email,
+    return await this.db.transaction(async (tx) => {
+      const [record] = await tx
+        .insert(users)
+        .values({
+          email: user.email,
+          passwordHash: user.passwordHash.value,
+          name: user.name,
+        })
+        .returning();
+
+      const [ledger] = await tx
+        .insert(ledgers)
+        .values({ name: DEFAULT_LEDGER_NAME })
+        .returning({ id: ledgers.id });
+
+      await tx.insert(ledgerMembers).values({
+        ledgerId: ledger.id,
+        userId: record.id,
+        role: 'OWNER',
+      });
+
+      return this.toEntity(record);
+    });
+  }
+
+  async updatePassword(user: User): Promise<void> {
+    await this.db
+      .update(users)
+      .set({
         passwordHash: user.passwordHash.value,
+        updatedAt: user.updatedAt,
+      })
+      .where(eq(users.id, Number(user.id)));
+  }
+
+  async updateProfile(user: User): Promise<void> {
+    await this.db
+      .update(users)
+      .set({
+        email: user.email,
         name: user.name,
+        updatedAt: user.updatedAt,
+      })
+      .where(eq(users.id, Number(user.id)));
+  }
+
+  async softDelete(id: number): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ deletedAt: sql`now()`, updatedAt: sql`now()` })
+      .where(and(eq(users.id, id), isNull(users.deletedAt)));
+  }
+
+  async findIdsDeletedBefore(cutoff: Date): Promise<number[]> {
+    const records = await this.db
+      .select({ id: users.id })
+      .from(users)
+      .where(sql`${users.deletedAt} < ${cutoff}`);
+
+    return records.map((record) => record.id);
+  }
+
+  async purge(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(sql`${users.id} = ${id} and ${users.deletedAt} is not null`)
+        .limit(1);
+
+      if (!deleted) {
+        return;
+      }
+
+      // NOTE: メンバーは外部キーの cascade で削除されるが、帳簿自体は残るためオーナーの帳簿を先に削除する
+      await tx
+        .delete(ledgers)
+        .where(
+          sql`${ledgers.id} in (select ${ledgerMembers.ledgerId} from ${ledgerMembers} where ${ledgerMembers.userId} = ${id} and ${ledgerMembers.role} = 'OWNER')`,
+        );
+
+      await this.transferSharedLedgerRecords(tx, id);
+
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
+  /**
+   * 他のユーザーがオーナーの帳簿に登録した取引を、帳簿のオーナーに引き継ぐ
+   * NOTE: 取引はユーザーの削除で cascade されない（restrict）ため、ユーザーを削除する前に引き継ぐ
+   */
+  private async transferSharedLedgerRecords(
+    tx: NodePgDatabase,
+    id: number,
+  ): Promise<void> {
+    await tx
+      .update(transactions)
+      .set({ userId: selectLedgerOwnerId(transactions.ledgerId) })
+      .where(eq(transactions.userId, id));
+
+    await tx
+      .update(transactionAttachments)
+      .set({
+        userId: sql<number>`(select ${transactions.userId} from ${transactions} where ${transactions.id} = ${transactionAttachments.transactionId})`,
+      })
+      .where(eq(transactionAttachments.userId, id));
+
+    await tx
+      .update(transactionImports)
+      .set({ userId: selectLedgerOwnerId(transactionImports.ledgerId) })
+      .where(eq(transactionImports.userId, id));
+
+    // NOTE: 引き継いだ取引が使っている独自カテゴリも、取引を引き継いだオーナーが引き続き使えるようにする
+    const transferredCategories = await tx
+      .update(categories)
+      .set({
+        userId: sql<number>`(select ${transactions.userId} from ${transactionCategories} inner join ${transactions} on ${transactions.id} = ${transactionCategories.transactionId} where ${transactionCategories.categoryId} = ${categories.id} order by ${transactions.id} limit 1)`,
       })
-      .returning();
+      .where(
+        sql`${categories.userId} = ${id} and exists (select 1 from ${transactionCategories} where ${transactionCategories.categoryId} = ${categories.id})`,
+      )
+      .returning({ id: categories.id, userId: categories.userId });
 
-    return this.toEntity(record);
+    if (transferredCategories.length > 0) {
+      await tx
+        .insert(userCategories)
+        .values(
+          transferredCategories.flatMap((category) =>
+            category.userId === null
+              ? []
+              : [
+                  {
+                    userId: category.userId,
+                    categoryId: category.id,
+                    isVisible: true,
+                    customName: null,
+                    displayOrder: 0,
+                  },
+                ],
+          ),
+        )
+        .onConflictDoNothing();
+    }
   }
 
   private toEntity(record: UserRecord): User {
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { resolveAttachmentStorageDriver } from './attachment-storage-driver';
+
+describe('resolveAttachmentStorageDriver（添付ファイルの保存先の決定）', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('正常系', () => {
+    it('指定された保存先を返す', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', 's3');
+
+      expect(resolveAttachmentStorageDriver()).toBe('s3');
+    });
+
+    it('本番でも明示的に指定した場合はメモリ保存を使える', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', 'memory');
+
+      expect(resolveAttachmentStorageDriver()).toBe('memory');
+    });
+
+    it.each(['test', 'development'])(
+      'NODE_ENV=%s で未設定の場合はメモリ保存を使う',
+      (nodeEnv) => {
+        vi.stubEnv('NODE_ENV', nodeEnv);
+        vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', '');
+
+        expect(resolveAttachmentStorageDriver()).toBe('memory');
+      },
+    );
+  });
+
+  describe('異常系', () => {
+    it('テスト/ローカル開発以外で未設定の場合は例外を投げる', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', '');
+
+      expect(() => resolveAttachmentStorageDriver()).toThrow(
+        'ATTACHMENT_STORAGE_DRIVER が設定されていません',
+      );
+    });
+
+    it('NODE_ENV が未設定の場合もメモリ保存にはせず例外を投げる', () => {
+      vi.stubEnv('NODE_ENV', '');
+      vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', '');
+
+      expect(() => resolveAttachmentStorageDriver()).toThrow(
+        'ATTACHMENT_STORAGE_DRIVER が設定されていません',
+      );
+    });
+
+    it('未知の保存先が指定された場合は例外を投げる', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      vi.stubEnv('ATTACHMENT_STORAGE_DRIVER', 'local');
+
+      expect(() => resolveAttachmentStorageDriver()).toThrow(
+        'ATTACHMENT_STORAGE_DRIVER は s3 / memory のいずれかを指定してください',
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+// Infrastructure Layer: Attachment Storage Driver
+// 添付ファイルの保存先を環境変数 ATTACHMENT_STORAGE_DRIVER から決定する
+
+const ATTACHMENT_STORAGE_DRIVER_ENV_KEY = 'ATTACHMENT_STORAGE_DRIVER';
+
+const ATTACHMENT_STORAGE_DRIVERS = ['s3', 'memory'] as const;
+
+export type AttachmentStorageDriver =
+  (typeof ATTACHMENT_STORAGE_DRIVERS)[number];
+
+// NOTE: メモリ保存は再起動すると添付ファイルが失われるため、指定を省略できるのはテスト/ローカル開発のみ
+const MEMORY_DRIVER_DEFAULT_NODE_ENVS: readonly string[] = [
+  'test',
+  'development',
+];
+
+const isAttachmentStorageDriver = (
+  value: string,
+): value is AttachmentStorageDriver =>
+  (ATTACHMENT_STORAGE_DRIVERS as readonly string[]).includes(value);
+
+/**
+ * 添付ファイルの保存先を決定する
+ * NOTE: 設定漏れのまま本番で添付ファイルを失わないよう、起動時にも呼び出して例外で起動を止める
+ */
+export const resolveAttachmentStorageDriver = (): AttachmentStorageDriver => {
+  const value = process.env[ATTACHMENT_STORAGE_DRIVER_ENV_KEY];
+
+  if (!value) {
+    if (MEMORY_DRIVER_DEFAULT_NODE_ENVS.includes(process.env.NODE_ENV ?? '')) {
+      return 'memory';
+    }
+
+    throw new Error(
+      `${ATTACHMENT_STORAGE_DRIVER_ENV_KEY} が設定されていません（${ATTACHMENT_STORAGE_DRIVERS.join(' / ')} のいずれかを指定してください）`,
+    );
+  }
+
+  if (!isAttachmentStorageDriver(value)) {
+    throw new Error(
+      `${ATTACHMENT_STORAGE_DRIVER_ENV_KEY} は ${ATTACHMENT_STORAGE_DRIVERS.join(' / ')} のいずれかを指定してください`,
+    );
+  }
+
+  return value;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryAttachmentStorage } from './in-memory-attachment.storage';
+
+describe('InMemoryAttachmentStorage（メモリ上の添付ファイル保存先）', () => {
+  describe('正常系', () => {
+    it('保存したファイル本体を取得し、削除できる', async () => {
+      const storage = new InMemoryAttachmentStorage();
+      const body = new Uint8Array([1, 2, 3]);
+
+      await storage.put({
+        key: 'transactions/1/a',
+        body,
+        contentType: 'image/png',
+      });
+      body[0] = 9;
+
+      expect(await storage.get('transactions/1/a')).toEqual({
+        body: new Uint8Array([1, 2, 3]),
+        contentType: 'image/png',
+      });
+
+      await storage.delete('transactions/1/a');
+
+      expect(await storage.get('transactions/1/a')).toBeNull();
+    });
+
+    it('存在しないキーの削除も成功する', async () => {
+      const storage = new InMemoryAttachmentStorage();
+
+      await expect(
+        storage.delete('transactions/1/none'),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+// Infrastructure Layer: In-Memory Attachment Storage
+// テスト/ローカル開発向けに、添付ファイル本体をプロセスのメモリ上に保持する
+// NOTE: プロセスを再起動すると保存したファイルは失われる
+
+import { injectable } from 'inversify';
+
+import type {
+  IAttachmentStorage,
+  StoredAttachmentObject,
+} from '../../services/transaction-attachments/attachment-storage';
+
+@injectable()
+export class InMemoryAttachmentStorage implements IAttachmentStorage {
+  private readonly objects = new Map<string, StoredAttachmentObject>();
+
+  async put(params: {
+    key: string;
+    body: Uint8Array<ArrayBuffer>;
+    contentType: string;
+  }): Promise<void> {
+    // NOTE: 呼び出し元がバッファを再利用しても影響を受けないよう複製して保持する
+    this.objects.set(params.key, {
+      body: params.body.slice(),
+      contentType: params.contentType,
+    });
+  }
+
+  async get(key: string): Promise<StoredAttachmentObject | null> {
+    return this.objects.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+}
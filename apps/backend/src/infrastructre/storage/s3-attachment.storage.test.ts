@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { S3AttachmentStorage } from './s3-attachment.storage';
+
+describe('S3AttachmentStorage（S3互換の添付ファイル保存先）', () => {
+  const originalEnv = { ...process.env };
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    process.env.S3_ENDPOINT = 'http://localhost:9000';
+    process.env.S3_BUCKET = 'attachments';
+    process.env.S3_ACCESS_KEY_ID = 'minioadmin';
+    process.env.S3_SECRET_ACCESS_KEY = 'minioadmin';
+    delete process.env.S3_REGION;
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-31T12:34:56.789Z'));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  const lastRequest = () => {
+    const [url, init] = fetchMock.mock.calls[0] as [URL, RequestInit];
+    return { url: url.toString(), init };
+  };
+
+  describe('正常系', () => {
+    it('put: パス形式のURLに署名付きでPUTする', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }));
+      const storage = new S3AttachmentStorage();
+      const body = new Uint8Array([1, 2, 3]);
+
+      await storage.put({
+        key: 'transactions/10/abc',
+        body,
+        contentType: 'image/jpeg',
+      });
+
+      const { url, init } = lastRequest();
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe('http://localhost:9000/attachments/transactions/10/abc');
+      expect(init.method).toBe('PUT');
+      expect(init.body).toBe(body);
+      expect(headers['content-type']).toBe('image/jpeg');
+      expect(headers['x-amz-date']).toBe('20250131T123456Z');
+      expect(headers['x-amz-content-sha256']).toBe(
+        '039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81',
+      );
+      expect(headers.authorization).toBe(
+        'AWS4-HMAC-SHA256 Credential=minioadmin/20250131/us-east-1/s3/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=fca22f00b841806454add7d6dd64855f51090524be488c74458821b0046e3e4c',
+      );
+    });
+
+    it('get: ファイル本体と形式を返し、存在しない場合は null を返す', async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(new Uint8Array([7, 8]), {
+            status: 200,
+            headers: { 'content-type': 'image/png' },
+          }),
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 404 }));
+      const storage = new S3AttachmentStorage();
+
+      expect(await storage.get('transactions/10/abc')).toEqual({
+        body: new Uint8Array([7, 8]),
+        contentType: 'image/png',
+      });
+      expect(await storage.get('transactions/10/none')).toBeNull();
+    });
+
+    it('delete: 存在しないキー（404）の削除も成功とする', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+      const storage = new S3AttachmentStorage();
+
+      await expect(
+        storage.delete('transactions/10/none'),
+      ).resolves.toBeUndefined();
+      expect(lastRequest().init.method).toBe('DELETE');
+    });
+  });
+
+  describe('異常系', () => {
+    it('失敗のステータスが返った場合は例外になる', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 403 }));
+      const storage = new S3AttachmentStorage();
+
+      await expect(storage.get('transactions/10/abc')).rejects.toThrow(
+        'status 403',
+      );
+    });
+
+    it('接続情報が未設定の場合は例外になる', async () => {
+      delete process.env.S3_BUCKET;
+      const storage = new S3AttachmentStorage();
+
+      await expect(storage.delete('transactions/10/abc')).rejects.toThrow(
+        'S3_BUCKET が設定されていません',
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// Infrastructure Layer: S3 Attachment Storage
+// S3互換のオブジェクトストレージ（RustFS/MinIO/AWS S3）に添付ファイル本体を保存する
+// NOTE: SDKは使わず、REST API を署名バージョン4（SigV4）で署名して呼び出す（パス形式のURLを使用）
+
+import { createHash, createHmac } from 'node:crypto';
+import { injectable } from 'inversify';
+
+import type {
+  IAttachmentStorage,
+  StoredAttachmentObject,
+} from '../../services/transaction-attachments/attachment-storage';
+
+const S3_ENDPOINT_ENV_KEY = 'S3_ENDPOINT';
+const S3_REGION_ENV_KEY = 'S3_REGION';
+const S3_BUCKET_ENV_KEY = 'S3_BUCKET';
+const S3_ACCESS_KEY_ID_ENV_KEY = 'S3_ACCESS_KEY_ID';
+const S3_SECRET_ACCESS_KEY_ENV_KEY = 'S3_SECRET_ACCESS_KEY';
+
+// NOTE: RustFS/MinIO はリージョンを区別しないため、未設定の場合は既定値で署名する
+const S3_DEFAULT_REGION = 'us-east-1' as const;
+const S3_SERVICE = 's3' as const;
+const SIGNING_ALGORITHM = 'AWS4-HMAC-SHA256' as const;
+const SIGNED_HEADERS = 'host;x-amz-content-sha256;x-amz-date' as const;
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream' as const;
+const HTTP_NOT_FOUND = 404 as const;
+
+type S3Config = {
+  endpoint: URL;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+type S3Method = 'GET' | 'PUT' | 'DELETE';
+
+const resolveRequiredEnv = (key: string): string => {
+  const value = process.env[key];
+
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+
+  return value;
+};
+
+const resolveS3Config = (): S3Config => ({
+  endpoint: new URL(resolveRequiredEnv(S3_ENDPOINT_ENV_KEY)),
+  region: process.env[S3_REGION_ENV_KEY] || S3_DEFAULT_REGION,
+  bucket: resolveRequiredEnv(S3_BUCKET_ENV_KEY),
+  accessKeyId: resolveRequiredEnv(S3_ACCESS_KEY_ID_ENV_KEY),
+  secretAccessKey: resolveRequiredEnv(S3_SECRET_ACCESS_KEY_ENV_KEY),
+});
+
+const sha256Hex = (data: string | Uint8Array): string =>
+  createHash('sha256').update(data).digest('hex');
+
+const hmacSha256 = (key: string | Buffer, data: string): Buffer =>
+  createHmac('sha256', key).update(data).digest();
+
+// NOTE: SigV4 の正規URIは RFC 3986 の非予約文字以外をすべてエンコードする
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+// 例: 2025-01-31T12:34:56.789Z -> 20250131T123456Z
+const toAmzDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+const toObjectPath = (config: S3Config, key: string): string => {
+  const basePath = config.endpoint.pathname.replace(/\/$/, '');
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+  return `${basePath}/${encodeRfc3986(config.bucket)}/${encodedKey}`;
+};
+
+/**
+ * リクエストに付与する署名済みヘッダーを組み立てる（SigV4）
+ */
+const signS3Request = (params: {
+  config: S3Config;
+  method: S3Method;
+  path: string;
+  payloadHash: string;
+  now: Date;
+}): Record<string, string> => {
+  const { config, method, path, payloadHash, now } = params;
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/${S3_SERVICE}/aws4_request`;
+
+  const canonicalRequest = [
+    method,
+    path,
+    '',
+    `host:${config.endpoint.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    '',
+    SIGNED_HEADERS,
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    SIGNING_ALGORITHM,
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = [
+    dateStamp,
+    config.region,
+    S3_SERVICE,
+    'aws4_request',
+  ].reduce<Buffer>(
+    (key, data) => hmacSha256(key, data),
+    Buffer.from(`AWS4${config.secretAccessKey}`),
+  );
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+
+  return {
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash,
+    authorization: `${SIGNING_ALGORITHM} Credential=${config.accessKeyId}/${scope}, SignedHeaders=${SIGNED_HEADERS}, Signature=${signature}`,
+  };
+};
+
+// NOTE: 成功以外のステータスは例外とする（allowedStatuses に含まれるものは成功とみなす）
+const ensureSuccess = (
+  response: Response,
+  message: string,
+  allowedStatuses: readonly number[] = [],
+): void => {
+  if (response.ok || allowedStatuses.includes(response.status)) {
+    return;
+  }
+
+  throw new Error(`${message} (status ${response.status})`);
+};
+
+@injectable()
+export class S3AttachmentStorage implements IAttachmentStorage {
+  async put(params: {
+    key: string;
+    body: Uint8Array<ArrayBuffer>;
+    contentType: string;
+  }): Promise<void> {
+    const response = await this.send('PUT', params.key, params.body, {
+      'content-type': params.contentType,
+    });
+
+    ensureSuccess(response, `Failed to put object: ${params.key}`);
+  }
+
+  async get(key: string): Promise<StoredAttachmentObject | null> {
+    const response = await this.send('GET', key);
+
+    if (response.status === HTTP_NOT_FOUND) {
+      return null;
+    }
+
+    ensureSuccess(response, `Failed to get object: ${key}`);
+
+    return {
+      body: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') ?? DEFAULT_CONTENT_TYPE,
+    };
+  }
+
+  // NOTE: S3 は存在しないキーの削除も成功（204）として扱うが、互換実装によっては404を返す
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+
+    ensureSuccess(response, `Failed to delete object: ${key}`, [
+      HTTP_NOT_FOUND,
+    ]);
+  }
+
+  private send(
+    method: S3Method,
+    key: string,
+    body?: Uint8Array<ArrayBuffer>,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const config = resolveS3Config();
+    const path = toObjectPath(config, key);
+    const signedHeaders = signS3Request({
+      config,
+      method,
+      path,
+      payloadHash: sha256Hex(body ?? ''),
+      now: new Date(),
+    });
+
+    return fetch(new URL(path, config.endpoint.origin), {
+      method,
+      headers: { ...headers, ...signedHeaders },
+      body,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// Application Layer: Account Builder
+// 口座ユースケースの出力DTO組み立てを担当する
+
+import type {
+  Account,
+  AccountRecord,
+  AccountType,
+} from '../../domain/entities/account.entity';
+import type { Money } from '../../domain/values/money';
+
+export type AccountOutput = {
+  id: number;
+  name: string;
+  type: AccountType;
+  currencyCode: string;
+  openingBalance: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AccountBalanceItemOutput = {
+  accountId: number;
+  name: string;
+  type: AccountType;
+  currencyCode: string;
+  openingBalance: number;
+  totalIncome: number;
+  totalExpense: number;
+  totalTransferIn: number;
+  totalTransferOut: number;
+  balance: number;
+};
+
+export class AccountBuilder {
+  build(record: AccountRecord): AccountOutput {
+    return {
+      id: record.id,
+      name: record.name,
+      type: record.type,
+      currencyCode: record.currency,
+      openingBalance: record.openingBalance,
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+
+  buildBalance(params: {
+    account: Account;
+    income: Money;
+    expense: Money;
+    transferIn: Money;
+    transferOut: Money;
+  }): AccountBalanceItemOutput {
+    return {
+      accountId: params.account.id,
+      name: params.account.name,
+      type: params.account.type,
+      currencyCode: params.account.currency,
+      openingBalance: params.account.openingBalance,
+      totalIncome: params.income.amount,
+      totalExpense: params.expense.amount,
+      totalTransferIn: params.transferIn.amount,
+      totalTransferOut: params.transferOut.amount,
+      balance: params.account.balanceAfter(
+        params.income.add(params.transferIn),
+        params.expense.add(params.transferOut),
+      ),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidAccountNameError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidAccountNameError');
+  }
+}
+
+export class InvalidOpeningBalanceError extends DomainError {
+  constructor(openingBalance: number) {
+    super(
+      `不正な開始残高です: ${openingBalance}`,
+      'InvalidOpeningBalanceError',
+    );
+  }
+}
+
+export class UnsupportedAccountCurrencyError extends DomainError {
+  constructor(currency: string) {
+    super(
+      `利用できない通貨です: ${currency}`,
+      'UnsupportedAccountCurrencyError',
+    );
+  }
+}
+
+export class AccountAlreadyExistsError extends DomainError {
+  constructor(name: string) {
+    super(
+      `同じ名前の口座が既に登録されています: ${name}`,
+      'AccountAlreadyExistsError',
+    );
+  }
+}
+
+type UnexpectedCreateAccountErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedCreateAccountError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedCreateAccountErrorParams) {
+    super(params.message, 'UnexpectedCreateAccountError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type CreateAccountError =
+  | InvalidAccountNameError
+  | InvalidOpeningBalanceError
+  | UnsupportedAccountCurrencyError
+  | AccountAlreadyExistsError
+  | UnexpectedCreateAccountError;
@@ -0,0 +1,231 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { AccountRecord } from '../../domain/entities/account.entity';
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  AccountAlreadyExistsError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+  UnexpectedCreateAccountError,
+  UnsupportedAccountCurrencyError,
+} from './create-account.errors';
+import { CreateAccountUseCase } from './create-account.service';
+
+describe('CreateAccountUseCase（口座作成）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCurrencyRecord = (
+    override?: Partial<CurrencyRecord>,
+  ): CurrencyRecord => ({
+    id: 1,
+    code: 'JPY',
+    name: '日本円',
+    symbol: '¥',
+    exponent: 0,
+    isActive: true,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 1,
+    userId: 100,
+    name: 'メインバンク',
+    type: 'BANK',
+    openingBalance: 100000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const baseInput = {
+    userId: 100,
+    name: 'メインバンク',
+    type: 'BANK' as const,
+    currency: 'JPY',
+    openingBalance: 100000,
+  };
+
+  const createMockContainer = (
+    mockAccountRepo: Partial<IAccountRepository>,
+    mockCurrencyRepo: Partial<ICurrencyRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container.bind(CreateAccountUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('有効な通貨で重複がない場合は口座を作成できる', async () => {
+      const mockAccountRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue(makeAccountRecord()),
+      };
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+      };
+
+      const useCase = createMockContainer(
+        mockAccountRepo,
+        mockCurrencyRepo,
+      ).get(CreateAccountUseCase);
+
+      const output = await useCase.execute({
+        ...baseInput,
+        name: '  メインバンク  ',
+      });
+
+      expect(mockAccountRepo.findByUserIdAndName).toHaveBeenCalledWith(
+        100,
+        'メインバンク',
+      );
+      expect(mockAccountRepo.create).toHaveBeenCalledWith({
+        userId: 100,
+        name: 'メインバンク',
+        type: 'BANK',
+        openingBalance: 100000,
+        currency: 'JPY',
+      });
+      expect(output.account).toEqual({
+        id: 1,
+        name: 'メインバンク',
+        type: 'BANK',
+        currencyCode: 'JPY',
+        openingBalance: 100000,
+        createdAt: fixedNow.toISOString(),
+        updatedAt: fixedNow.toISOString(),
+      });
+    });
+
+    it('クレジットカードは負の開始残高で作成できる', async () => {
+      const mockAccountRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue(
+          makeAccountRecord({
+            name: 'カード',
+            type: 'CREDIT_CARD',
+            openingBalance: -30000,
+          }),
+        ),
+      };
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+      };
+
+      const useCase = createMockContainer(
+        mockAccountRepo,
+        mockCurrencyRepo,
+      ).get(CreateAccountUseCase);
+
+      const output = await useCase.execute({
+        ...baseInput,
+        name: 'カード',
+        type: 'CREDIT_CARD',
+        openingBalance: -30000,
+      });
+
+      expect(output.account.openingBalance).toBe(-30000);
+    });
+  });
+
+  describe('異常系', () => {
+    it('口座名が空の場合は例外になる', async () => {
+      const mockAccountRepo = { create: vi.fn() };
+
+      const useCase = createMockContainer(mockAccountRepo, {}).get(
+        CreateAccountUseCase,
+      );
+
+      await expect(
+        useCase.execute({ ...baseInput, name: '   ' }),
+      ).rejects.toBeInstanceOf(InvalidAccountNameError);
+      expect(mockAccountRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('開始残高が整数でない場合は例外になる', async () => {
+      const mockAccountRepo = { create: vi.fn() };
+
+      const useCase = createMockContainer(mockAccountRepo, {}).get(
+        CreateAccountUseCase,
+      );
+
+      await expect(
+        useCase.execute({ ...baseInput, openingBalance: 10.5 }),
+      ).rejects.toBeInstanceOf(InvalidOpeningBalanceError);
+    });
+
+    it('無効化された通貨の場合は例外になる', async () => {
+      const mockAccountRepo = { create: vi.fn() };
+      const mockCurrencyRepo = {
+        findByCode: vi
+          .fn()
+          .mockResolvedValue(
+            makeCurrencyRecord({ code: 'USD', isActive: false }),
+          ),
+      };
+
+      const useCase = createMockContainer(
+        mockAccountRepo,
+        mockCurrencyRepo,
+      ).get(CreateAccountUseCase);
+
+      await expect(
+        useCase.execute({ ...baseInput, currency: 'USD' }),
+      ).rejects.toBeInstanceOf(UnsupportedAccountCurrencyError);
+      expect(mockAccountRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('同じ名前の口座が存在する場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(makeAccountRecord()),
+        create: vi.fn(),
+      };
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+      };
+
+      const useCase = createMockContainer(
+        mockAccountRepo,
+        mockCurrencyRepo,
+      ).get(CreateAccountUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        AccountAlreadyExistsError,
+      );
+      expect(mockAccountRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('保存処理が失敗した場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+      };
+
+      const useCase = createMockContainer(
+        mockAccountRepo,
+        mockCurrencyRepo,
+      ).get(CreateAccountUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        UnexpectedCreateAccountError,
+      );
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// Application Layer: Create Account Use Case
+// 口座（現金/銀行口座/クレジットカード）の登録を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  Account,
+  type AccountType,
+} from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { AccountBuilder, type AccountOutput } from './account.builder';
+import {
+  AccountAlreadyExistsError,
+  type CreateAccountError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+  UnexpectedCreateAccountError,
+  UnsupportedAccountCurrencyError,
+} from './create-account.errors';
+
+export type CreateAccountInput = {
+  userId: number;
+  name: string;
+  type: AccountType;
+  currency: string; // ISO 4217 通貨コード
+  openingBalance: number;
+};
+
+export type CreateAccountOutput = {
+  account: AccountOutput;
+};
+
+@injectable()
+export class CreateAccountUseCase {
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  private readonly builder = new AccountBuilder();
+
+  async execute(input: CreateAccountInput): Promise<CreateAccountOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountOutput, CreateAccountError> {
+    return pipe(
+      this.validateName(input),
+      Effect.flatMap((value) => this.validateOpeningBalance(value)),
+      Effect.flatMap((value) => this.validateCurrency(value)),
+      Effect.flatMap((value) => this.ensureNotDuplicated(value)),
+      Effect.flatMap((value) => this.createAccount(value)),
+    );
+  }
+
+  private validateName(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountInput, CreateAccountError> {
+    return pipe(
+      Effect.try({
+        try: () => Account.normalizeName(input.name),
+        catch: (cause) =>
+          new InvalidAccountNameError(
+            cause instanceof Error ? cause.message : '口座名が不正です',
+          ),
+      }),
+      Effect.map((name) => ({ ...input, name })),
+    );
+  }
+
+  private validateOpeningBalance(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountInput, CreateAccountError> {
+    return pipe(
+      Effect.try({
+        try: () => Account.validateOpeningBalance(input.openingBalance),
+        catch: () => new InvalidOpeningBalanceError(input.openingBalance),
+      }),
+      Effect.map(() => input),
+    );
+  }
+
+  private validateCurrency(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountInput, CreateAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findByCode(input.currency),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (currency) => currency?.isActive === true,
+        () => new UnsupportedAccountCurrencyError(input.currency),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  private ensureNotDuplicated(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountInput, CreateAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.accountRepository.findByUserIdAndName(input.userId, input.name),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (existing) => existing === null,
+        () => new AccountAlreadyExistsError(input.name),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  private createAccount(
+    input: CreateAccountInput,
+  ): Effect.Effect<CreateAccountOutput, CreateAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.accountRepository.create({
+            userId: input.userId,
+            name: input.name,
+            type: input.type,
+            openingBalance: input.openingBalance,
+            currency: input.currency,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('口座の保存に失敗しました', cause),
+      }),
+      Effect.map((record) => ({ account: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedCreateAccountError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedCreateAccountError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<CreateAccountOutput, CreateAccountError>,
+  ): CreateAccountOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedCreateAccountError({
+                message: '口座の作成に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
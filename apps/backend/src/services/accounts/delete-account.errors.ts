@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  AccountNotFoundError,
+  NotAccountOwnerError,
+} from './update-account.errors';
+
+export {
+  AccountNotFoundError,
+  NotAccountOwnerError,
+} from './update-account.errors';
+
+type UnexpectedDeleteAccountErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteAccountError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteAccountErrorParams) {
+    super(params.message, 'UnexpectedDeleteAccountError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteAccountError =
+  | AccountNotFoundError
+  | NotAccountOwnerError
+  | UnexpectedDeleteAccountError;
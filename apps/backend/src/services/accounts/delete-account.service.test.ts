@@ -0,0 +1,102 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { AccountRecord } from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  AccountNotFoundError,
+  NotAccountOwnerError,
+  UnexpectedDeleteAccountError,
+} from './delete-account.errors';
+import { DeleteAccountUseCase } from './delete-account.service';
+
+describe('DeleteAccountUseCase（口座削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 1,
+    userId: 100,
+    name: 'メインバンク',
+    type: 'BANK',
+    openingBalance: 100000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockAccountRepo: Partial<IAccountRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container.bind(DeleteAccountUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合は削除できる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(DeleteAccountUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockAccountRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      expect(output).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('口座が見つからない場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(DeleteAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(AccountNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord({ userId: 999 })),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(DeleteAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(NotAccountOwnerError);
+    });
+
+    it('削除処理が失敗した場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        delete: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(DeleteAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedDeleteAccountError);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// Application Layer: Delete Account Use Case
+// 口座の削除を担当する（紐づく取引は口座なしとして残る）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  Account,
+  type AccountRecord,
+} from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  AccountNotFoundError,
+  type DeleteAccountError,
+  NotAccountOwnerError,
+  UnexpectedDeleteAccountError,
+} from './delete-account.errors';
+
+export type DeleteAccountInput = {
+  userId: number;
+  id: number;
+};
+
+export type DeleteAccountOutput = {
+  deleted: true;
+};
+
+type AccountLoadedInput = DeleteAccountInput & { current: AccountRecord };
+
+@injectable()
+export class DeleteAccountUseCase {
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  async execute(input: DeleteAccountInput): Promise<DeleteAccountOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteAccountInput,
+  ): Effect.Effect<DeleteAccountOutput, DeleteAccountError> {
+    return pipe(
+      this.fetchCurrentAccount(input),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.deleteAccount(value)),
+    );
+  }
+
+  private fetchCurrentAccount(
+    input: DeleteAccountInput,
+  ): Effect.Effect<AccountLoadedInput, DeleteAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new AccountNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: AccountLoadedInput,
+  ): Effect.Effect<AccountLoadedInput, DeleteAccountError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotAccountOwnerError(),
+      ),
+    );
+  }
+
+  private deleteAccount(
+    value: AccountLoadedInput,
+  ): Effect.Effect<DeleteAccountOutput, DeleteAccountError> {
+    return pipe(
+      Effect.try({
+        try: () =>
+          Account.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.name,
+            value.current.type,
+            value.current.openingBalance,
+            value.current.currency,
+            value.current.createdAt,
+            value.current.updatedAt,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('口座の削除に失敗しました', cause),
+      }),
+      Effect.flatMap((account) =>
+        Effect.tryPromise({
+          try: () => this.accountRepository.delete(account),
+          catch: (cause) =>
+            this.createUnexpectedError('口座の削除に失敗しました', cause),
+        }),
+      ),
+      Effect.map(() => ({ deleted: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteAccountError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteAccountError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<DeleteAccountOutput, DeleteAccountError>,
+  ): DeleteAccountOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteAccountError({
+                message: '口座の削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidBalanceDateError extends DomainError {
+  constructor(asOf: string) {
+    super(`不正な日付の指定です: ${asOf}`, 'InvalidBalanceDateError');
+  }
+}
+
+type UnexpectedGetAccountBalancesErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedGetAccountBalancesError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedGetAccountBalancesErrorParams) {
+    super(params.message, 'UnexpectedGetAccountBalancesError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type GetAccountBalancesError =
+  | InvalidBalanceDateError
+  | UnexpectedGetAccountBalancesError;
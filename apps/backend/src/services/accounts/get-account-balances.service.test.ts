@@ -0,0 +1,219 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { AccountRecord } from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidBalanceDateError,
+  UnexpectedGetAccountBalancesError,
+} from './get-account-balances.errors';
+import { GetAccountBalancesUseCase } from './get-account-balances.service';
+
+describe('GetAccountBalancesUseCase（口座残高）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 1,
+    userId: 100,
+    name: 'メインバンク',
+    type: 'BANK',
+    openingBalance: 100000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockAccountRepo: Partial<IAccountRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container.bind(GetAccountBalancesUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('開始残高 + 収入 - 支出 で指定日時点の口座ごとの残高を算出できる', async () => {
+      const mockAccountRepo = {
+        findByUserId: vi.fn().mockResolvedValue([
+          makeAccountRecord(),
+          makeAccountRecord({
+            id: 2,
+            name: 'カード',
+            type: 'CREDIT_CARD',
+            openingBalance: 0,
+          }),
+          makeAccountRecord({
+            id: 3,
+            name: '財布',
+            type: 'CASH',
+            openingBalance: 5000,
+          }),
+        ]),
+        sumTransactionsByUserId: vi.fn().mockResolvedValue([
+          { accountId: 1, type: 'INCOME', amount: 300000 },
+          { accountId: 1, type: 'EXPENSE', amount: 120000 },
+          { accountId: 2, type: 'EXPENSE', amount: 45000 },
+        ]),
+      };
+
+      const useCase = createMockContainer(mockAccountRepo).get(
+        GetAccountBalancesUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: 100,
+        asOf: '2025-01-31',
+      });
+
+      expect(mockAccountRepo.sumTransactionsByUserId).toHaveBeenCalledWith(
+        100,
+        '2025-01-31',
+      );
+      expect(output.asOf).toBe('2025-01-31');
+      expect(output.accounts).toEqual([
+        {
+          accountId: 1,
+          name: 'メインバンク',
+          type: 'BANK',
+          currencyCode: 'JPY',
+          openingBalance: 100000,
+          totalIncome: 300000,
+          totalExpense: 120000,
+          totalTransferIn: 0,
+          totalTransferOut: 0,
+          balance: 280000,
+        },
+        {
+          accountId: 2,
+          name: 'カード',
+          type: 'CREDIT_CARD',
+          currencyCode: 'JPY',
+          openingBalance: 0,
+          totalIncome: 0,
+          totalExpense: 45000,
+          totalTransferIn: 0,
+          totalTransferOut: 0,
+          balance: -45000,
+        },
+        {
+          accountId: 3,
+          name: '財布',
+          type: 'CASH',
+          currencyCode: 'JPY',
+          openingBalance: 5000,
+          totalIncome: 0,
+          totalExpense: 0,
+          totalTransferIn: 0,
+          totalTransferOut: 0,
+          balance: 5000,
+        },
+      ]);
+    });
+
+    it('振替は振替元口座の出金/振替先口座の入金として残高に反映し、収入/支出には含めない', async () => {
+      const mockAccountRepo = {
+        findByUserId: vi.fn().mockResolvedValue([
+          makeAccountRecord(),
+          makeAccountRecord({
+            id: 3,
+            name: '財布',
+            type: 'CASH',
+            openingBalance: 5000,
+          }),
+        ]),
+        sumTransactionsByUserId: vi.fn().mockResolvedValue([
+          { accountId: 1, type: 'INCOME', amount: 300000 },
+          { accountId: 1, type: 'TRANSFER_OUT', amount: 20000 },
+          { accountId: 3, type: 'TRANSFER_IN', amount: 20000 },
+          { accountId: 3, type: 'EXPENSE', amount: 8000 },
+        ]),
+      };
+
+      const useCase = createMockContainer(mockAccountRepo).get(
+        GetAccountBalancesUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: 100,
+        asOf: '2025-01-31',
+      });
+
+      expect(output.accounts).toEqual([
+        expect.objectContaining({
+          accountId: 1,
+          totalIncome: 300000,
+          totalExpense: 0,
+          totalTransferIn: 0,
+          totalTransferOut: 20000,
+          balance: 380000,
+        }),
+        expect.objectContaining({
+          accountId: 3,
+          totalIncome: 0,
+          totalExpense: 8000,
+          totalTransferIn: 20000,
+          totalTransferOut: 0,
+          balance: 17000,
+        }),
+      ]);
+    });
+
+    it('asOf を省略した場合は当日時点で集計する', async () => {
+      const mockAccountRepo = {
+        findByUserId: vi.fn().mockResolvedValue([]),
+        sumTransactionsByUserId: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(mockAccountRepo).get(
+        GetAccountBalancesUseCase,
+      );
+
+      const output = await useCase.execute({ userId: 100 });
+
+      const today = TransactionDate.today().format();
+      expect(mockAccountRepo.sumTransactionsByUserId).toHaveBeenCalledWith(
+        100,
+        today,
+      );
+      expect(output).toEqual({ asOf: today, accounts: [] });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しない日付の場合は例外になる', async () => {
+      const mockAccountRepo = { findByUserId: vi.fn() };
+
+      const useCase = createMockContainer(mockAccountRepo).get(
+        GetAccountBalancesUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, asOf: '2025-02-30' }),
+      ).rejects.toBeInstanceOf(InvalidBalanceDateError);
+      expect(mockAccountRepo.findByUserId).not.toHaveBeenCalled();
+    });
+
+    it('取引の集計に失敗した場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findByUserId: vi.fn().mockResolvedValue([makeAccountRecord()]),
+        sumTransactionsByUserId: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockAccountRepo).get(
+        GetAccountBalancesUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, asOf: '2025-01-31' }),
+      ).rejects.toBeInstanceOf(UnexpectedGetAccountBalancesError);
+    });
+  });
+});
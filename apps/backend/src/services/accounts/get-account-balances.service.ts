@@ -0,0 +1,206 @@
+// Application Layer: Get Account Balances Use Case
+// 指定日時点の口座ごとの残高（開始残高 + 収入 - 支出 + 振替入金 - 振替出金）を算出する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  Account,
+  type AccountRecord,
+} from '../../domain/entities/account.entity';
+import type {
+  AccountTransactionTotalRecord,
+  IAccountRepository,
+} from '../../domain/repositories/account.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type AccountBalanceItemOutput,
+  AccountBuilder,
+} from './account.builder';
+import {
+  type GetAccountBalancesError,
+  InvalidBalanceDateError,
+  UnexpectedGetAccountBalancesError,
+} from './get-account-balances.errors';
+
+const NO_TRANSACTIONS = 0 as const;
+
+export type GetAccountBalancesInput = {
+  userId: number;
+  asOf?: string; // YYYY-MM-DD（省略時は当日）
+};
+
+export type GetAccountBalancesOutput = {
+  asOf: string;
+  accounts: AccountBalanceItemOutput[];
+};
+
+type AccountsLoaded = {
+  asOf: TransactionDate;
+  accounts: AccountRecord[];
+};
+
+type TotalsLoaded = AccountsLoaded & {
+  totals: AccountTransactionTotalRecord[];
+};
+
+const sumTotals = (
+  totals: AccountTransactionTotalRecord[],
+  accountId: number,
+  type: AccountTransactionTotalRecord['type'],
+): number =>
+  totals
+    .filter((total) => total.accountId === accountId && total.type === type)
+    .reduce<number>((sum, total) => sum + total.amount, NO_TRANSACTIONS);
+
+@injectable()
+export class GetAccountBalancesUseCase {
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  private readonly builder = new AccountBuilder();
+
+  async execute(
+    input: GetAccountBalancesInput,
+  ): Promise<GetAccountBalancesOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: GetAccountBalancesInput,
+  ): Effect.Effect<GetAccountBalancesOutput, GetAccountBalancesError> {
+    return pipe(
+      this.resolveAsOf(input.asOf),
+      Effect.flatMap((asOf) => this.fetchAccounts(input.userId, asOf)),
+      Effect.flatMap((value) => this.fetchTotals(input.userId, value)),
+      Effect.flatMap((value) => this.evaluateBalances(value)),
+    );
+  }
+
+  private resolveAsOf(
+    asOf: string | undefined,
+  ): Effect.Effect<TransactionDate, GetAccountBalancesError> {
+    return Effect.try({
+      try: () =>
+        asOf === undefined
+          ? TransactionDate.today()
+          : TransactionDate.fromString(asOf),
+      catch: () => new InvalidBalanceDateError(asOf ?? ''),
+    });
+  }
+
+  private fetchAccounts(
+    userId: number,
+    asOf: TransactionDate,
+  ): Effect.Effect<AccountsLoaded, GetAccountBalancesError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findByUserId(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('口座一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((accounts) => ({ asOf, accounts })),
+    );
+  }
+
+  private fetchTotals(
+    userId: number,
+    value: AccountsLoaded,
+  ): Effect.Effect<TotalsLoaded, GetAccountBalancesError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.accountRepository.sumTransactionsByUserId(
+            userId,
+            value.asOf.format(),
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('口座の取引の集計に失敗しました', cause),
+      }),
+      Effect.map((totals) => ({ ...value, totals })),
+    );
+  }
+
+  private evaluateBalances(
+    value: TotalsLoaded,
+  ): Effect.Effect<GetAccountBalancesOutput, GetAccountBalancesError> {
+    return Effect.try({
+      try: () => ({
+        asOf: value.asOf.format(),
+        accounts: value.accounts.map((record) => {
+          const account = Account.reconstruct(
+            record.id,
+            record.userId,
+            record.name,
+            record.type,
+            record.openingBalance,
+            record.currency,
+            record.createdAt,
+            record.updatedAt,
+          );
+          const toMoney = (type: AccountTransactionTotalRecord['type']) =>
+            Money.ofWithCurrency(
+              sumTotals(value.totals, record.id, type),
+              record.currency,
+            );
+          return this.builder.buildBalance({
+            account,
+            income: toMoney('INCOME'),
+            expense: toMoney('EXPENSE'),
+            transferIn: toMoney('TRANSFER_IN'),
+            transferOut: toMoney('TRANSFER_OUT'),
+          });
+        }),
+      }),
+      catch: (cause) =>
+        this.createUnexpectedError('口座残高の算出に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedGetAccountBalancesError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedGetAccountBalancesError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<GetAccountBalancesOutput, GetAccountBalancesError>,
+  ): GetAccountBalancesOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedGetAccountBalancesError({
+                message: '口座残高の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
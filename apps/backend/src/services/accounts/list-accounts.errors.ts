@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListAccountsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListAccountsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListAccountsErrorParams) {
+    super(params.message, 'UnexpectedListAccountsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListAccountsError = UnexpectedListAccountsError;
@@ -0,0 +1,93 @@
+// Application Layer: List Accounts Use Case
+// ユーザーの口座一覧取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { AccountBuilder, type AccountOutput } from './account.builder';
+import {
+  type ListAccountsError,
+  UnexpectedListAccountsError,
+} from './list-accounts.errors';
+
+export type ListAccountsInput = {
+  userId: number;
+};
+
+export type ListAccountsOutput = {
+  accounts: AccountOutput[];
+};
+
+@injectable()
+export class ListAccountsUseCase {
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  private readonly builder = new AccountBuilder();
+
+  async execute(input: ListAccountsInput): Promise<ListAccountsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListAccountsInput,
+  ): Effect.Effect<ListAccountsOutput, ListAccountsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findByUserId(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('口座一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => ({
+        accounts: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListAccountsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListAccountsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ListAccountsOutput, ListAccountsError>,
+  ): ListAccountsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListAccountsError({
+                message: '口座一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  AccountAlreadyExistsError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+} from './create-account.errors';
+
+export {
+  AccountAlreadyExistsError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+} from './create-account.errors';
+
+export class AccountNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(`口座が見つかりません: ${id}`, 'AccountNotFoundError');
+  }
+}
+
+export class NotAccountOwnerError extends DomainError {
+  constructor() {
+    super('口座の所有者ではありません', 'NotAccountOwnerError');
+  }
+}
+
+type UnexpectedUpdateAccountErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUpdateAccountError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUpdateAccountErrorParams) {
+    super(params.message, 'UnexpectedUpdateAccountError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UpdateAccountError =
+  | AccountNotFoundError
+  | NotAccountOwnerError
+  | InvalidAccountNameError
+  | InvalidOpeningBalanceError
+  | AccountAlreadyExistsError
+  | UnexpectedUpdateAccountError;
@@ -0,0 +1,168 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { AccountRecord } from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  AccountAlreadyExistsError,
+  AccountNotFoundError,
+  InvalidAccountNameError,
+  NotAccountOwnerError,
+  UnexpectedUpdateAccountError,
+} from './update-account.errors';
+import { UpdateAccountUseCase } from './update-account.service';
+
+describe('UpdateAccountUseCase（口座更新）', () => {
+  const fixedCreatedAt = new Date('2025-01-01T00:00:00.000Z');
+  const fixedUpdatedAt = new Date('2025-01-02T00:00:00.000Z');
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 1,
+    userId: 100,
+    name: 'メインバンク',
+    type: 'BANK',
+    openingBalance: 100000,
+    currency: 'JPY',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockAccountRepo: Partial<IAccountRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container.bind(UpdateAccountUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('指定した項目のみ更新し、未指定の項目は現在の値を維持する', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        findByUserIdAndName: vi.fn().mockResolvedValue(makeAccountRecord()),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeAccountRecord({ openingBalance: 120000 })),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        openingBalance: 120000,
+      });
+
+      const [account] = mockAccountRepo.update.mock.calls[0];
+      expect(account.name).toBe('メインバンク');
+      expect(account.type).toBe('BANK');
+      expect(account.openingBalance).toBe(120000);
+      expect(output.account).toMatchObject({ id: 1, openingBalance: 120000 });
+    });
+
+    it('口座名を変更できる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeAccountRecord({ name: '給与口座' })),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await useCase.execute({ userId: 100, id: 1, name: ' 給与口座 ' });
+
+      expect(mockAccountRepo.findByUserIdAndName).toHaveBeenCalledWith(
+        100,
+        '給与口座',
+      );
+      const [account] = mockAccountRepo.update.mock.calls[0];
+      expect(account.name).toBe('給与口座');
+    });
+  });
+
+  describe('異常系', () => {
+    it('口座名が空の場合は例外になる', async () => {
+      const mockAccountRepo = { findById: vi.fn() };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, name: '  ' }),
+      ).rejects.toBeInstanceOf(InvalidAccountNameError);
+      expect(mockAccountRepo.findById).not.toHaveBeenCalled();
+    });
+
+    it('口座が見つからない場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999, type: 'CASH' }),
+      ).rejects.toBeInstanceOf(AccountNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord({ userId: 999 })),
+        update: vi.fn(),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, type: 'CASH' }),
+      ).rejects.toBeInstanceOf(NotAccountOwnerError);
+      expect(mockAccountRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('他の口座と同じ名前に変更する場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        findByUserIdAndName: vi
+          .fn()
+          .mockResolvedValue(makeAccountRecord({ id: 2, name: '財布' })),
+        update: vi.fn(),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, name: '財布' }),
+      ).rejects.toBeInstanceOf(AccountAlreadyExistsError);
+      expect(mockAccountRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('更新処理が失敗した場合は例外になる', async () => {
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        update: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase =
+        createMockContainer(mockAccountRepo).get(UpdateAccountUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, type: 'CASH' }),
+      ).rejects.toBeInstanceOf(UnexpectedUpdateAccountError);
+    });
+  });
+});
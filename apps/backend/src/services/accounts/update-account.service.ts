@@ -0,0 +1,230 @@
+// Application Layer: Update Account Use Case
+// 口座名・種別・開始残高の更新を担当する（通貨は変更できない）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  Account,
+  type AccountRecord,
+  type AccountType,
+} from '../../domain/entities/account.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { AccountBuilder, type AccountOutput } from './account.builder';
+import {
+  AccountAlreadyExistsError,
+  AccountNotFoundError,
+  InvalidAccountNameError,
+  InvalidOpeningBalanceError,
+  NotAccountOwnerError,
+  UnexpectedUpdateAccountError,
+  type UpdateAccountError,
+} from './update-account.errors';
+
+export type UpdateAccountInput = {
+  userId: number;
+  id: number;
+  name?: string;
+  type?: AccountType;
+  openingBalance?: number;
+};
+
+export type UpdateAccountOutput = {
+  account: AccountOutput;
+};
+
+type AccountLoadedInput = UpdateAccountInput & { current: AccountRecord };
+
+@injectable()
+export class UpdateAccountUseCase {
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  private readonly builder = new AccountBuilder();
+
+  async execute(input: UpdateAccountInput): Promise<UpdateAccountOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UpdateAccountInput,
+  ): Effect.Effect<UpdateAccountOutput, UpdateAccountError> {
+    return pipe(
+      this.validateName(input),
+      Effect.flatMap((value) => this.validateOpeningBalance(value)),
+      Effect.flatMap((value) => this.fetchCurrentAccount(value)),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.ensureNotDuplicated(value)),
+      Effect.flatMap((value) => this.updateAccount(value)),
+    );
+  }
+
+  private validateName(
+    input: UpdateAccountInput,
+  ): Effect.Effect<UpdateAccountInput, UpdateAccountError> {
+    const { name } = input;
+    if (name === undefined) {
+      return Effect.succeed(input);
+    }
+
+    return pipe(
+      Effect.try({
+        try: () => Account.normalizeName(name),
+        catch: (cause) =>
+          new InvalidAccountNameError(
+            cause instanceof Error ? cause.message : '口座名が不正です',
+          ),
+      }),
+      Effect.map((normalized) => ({ ...input, name: normalized })),
+    );
+  }
+
+  private validateOpeningBalance(
+    input: UpdateAccountInput,
+  ): Effect.Effect<UpdateAccountInput, UpdateAccountError> {
+    const { openingBalance } = input;
+    if (openingBalance === undefined) {
+      return Effect.succeed(input);
+    }
+
+    return pipe(
+      Effect.try({
+        try: () => Account.validateOpeningBalance(openingBalance),
+        catch: () => new InvalidOpeningBalanceError(openingBalance),
+      }),
+      Effect.map(() => input),
+    );
+  }
+
+  private fetchCurrentAccount(
+    input: UpdateAccountInput,
+  ): Effect.Effect<AccountLoadedInput, UpdateAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new AccountNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: AccountLoadedInput,
+  ): Effect.Effect<AccountLoadedInput, UpdateAccountError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotAccountOwnerError(),
+      ),
+    );
+  }
+
+  private ensureNotDuplicated(
+    value: AccountLoadedInput,
+  ): Effect.Effect<AccountLoadedInput, UpdateAccountError> {
+    const name = value.name ?? value.current.name;
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.accountRepository.findByUserIdAndName(value.userId, name),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (existing) => existing === null || existing.id === value.current.id,
+        () => new AccountAlreadyExistsError(name),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private updateAccount(
+    value: AccountLoadedInput,
+  ): Effect.Effect<UpdateAccountOutput, UpdateAccountError> {
+    return pipe(
+      Effect.try({
+        try: () => {
+          const account = Account.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.name,
+            value.current.type,
+            value.current.openingBalance,
+            value.current.currency,
+            value.current.createdAt,
+            value.current.updatedAt,
+          );
+          account.rename(value.name ?? value.current.name);
+          account.changeType(value.type ?? value.current.type);
+          account.updateOpeningBalance(
+            value.openingBalance ?? value.current.openingBalance,
+          );
+          return account;
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('口座の更新に失敗しました', cause),
+      }),
+      Effect.flatMap((account) =>
+        Effect.tryPromise({
+          try: () => this.accountRepository.update(account),
+          catch: (cause) =>
+            this.createUnexpectedError('口座の更新に失敗しました', cause),
+        }),
+      ),
+      Effect.map((record) => ({ account: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUpdateAccountError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUpdateAccountError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UpdateAccountOutput, UpdateAccountError>,
+  ): UpdateAccountOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUpdateAccountError({
+                message: '口座の更新に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -33,11 +33,13 @@ describe('CreateJwtService（JWT作成サービス）', () => {
       const result = await service.create({
         userId: 123,
         email: 'user@example.com',
+        sessionId: 'session-1',
       });
 
       expect(provider.create).toHaveBeenCalledWith({
         userId: 123,
         email: 'user@example.com',
+        sessionId: 'session-1',
       });
       expect(result).toBe('test.jwt.token');
     });
@@ -56,6 +58,7 @@ describe('CreateJwtService（JWT作成サービス）', () => {
         service.create({
           userId: 1,
           email: 'user@example.com',
+          sessionId: 'session-1',
         }),
       ).rejects.toBe(expectedError);
     });
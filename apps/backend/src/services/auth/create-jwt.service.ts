@@ -2,12 +2,19 @@ import { inject, injectable } from 'inversify';
 
 import { TOKENS } from '../di/tokens';
 
+export type CreateJwtParams = {
+  userId: number;
+  email: string;
+  /** アクセストークンを発行するログインセッションのID（sid クレーム） */
+  sessionId: string;
+};
+
 export interface ICreateJwtService {
-  create(params: { userId: number; email: string }): Promise<string>;
+  create(params: CreateJwtParams): Promise<string>;
 }
 
 export interface ICreateJwtTokenProvider {
-  create(params: { userId: number; email: string }): Promise<string>;
+  create(params: CreateJwtParams): Promise<string>;
 }
 
 @injectable()
@@ -15,7 +22,7 @@ export class CreateJwtService implements ICreateJwtService {
   @inject(TOKENS.CreateJwtTokenProvider)
   private createJwtTokenProvider!: ICreateJwtTokenProvider;
 
-  create(params: { userId: number; email: string }): Promise<string> {
+  create(params: CreateJwtParams): Promise<string> {
     return this.createJwtTokenProvider.create(params);
   }
 }
@@ -0,0 +1,66 @@
+import { Container } from 'inversify';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { IEmailChangeTokenRepository } from '../../domain/repositories/email-change-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  EmailChangeTokenService,
+  hashEmailChangeToken,
+} from './email-change-token.service';
+
+describe('EmailChangeTokenService（メールアドレス変更の確認トークン発行サービス）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const setup = () => {
+    const repo: IEmailChangeTokenRepository = {
+      create: vi.fn(async (params) => ({
+        id: 1,
+        ...params,
+        usedAt: null,
+        createdAt: fixedNow,
+      })),
+      findByTokenHash: vi.fn(),
+      markUsed: vi.fn(),
+      invalidateAllByUserId: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<IEmailChangeTokenRepository>(TOKENS.EmailChangeTokenRepository)
+      .toConstantValue(repo);
+    container.bind<EmailChangeTokenService>(EmailChangeTokenService).toSelf();
+
+    const service = container.get(EmailChangeTokenService);
+
+    return { service, repo };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('未使用のトークンを無効化してから、変更後のメールアドレスとハッシュ値、24時間後の有効期限を保存する', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(fixedNow);
+      const { service, repo } = setup();
+
+      const token = await service.issue({
+        userId: 1,
+        newEmail: 'new@example.com',
+      });
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(repo.invalidateAllByUserId).toHaveBeenCalledWith(1);
+      expect(repo.create).toHaveBeenCalledWith({
+        userId: 1,
+        newEmail: 'new@example.com',
+        tokenHash: hashEmailChangeToken(token),
+        expiresAt: new Date('2025-01-02T00:00:00.000Z'),
+      });
+      expect(
+        vi.mocked(repo.invalidateAllByUserId).mock.invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(repo.create).mock.invocationCallOrder[0]);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { inject, injectable } from 'inversify';
+
+import type { IEmailChangeTokenRepository } from '../../domain/repositories/email-change-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+
+export interface IEmailChangeTokenService {
+  /**
+   * 変更後のメールアドレスに送る確認トークンを発行し、ハッシュ値のみを保存する
+   * 発行済みの未使用トークンは使えなくなる（最後に申請した変更だけが有効）
+   */
+  issue(params: { userId: number; newEmail: string }): Promise<string>;
+}
+
+/** メールアドレス変更の確認トークンの有効期間（24時間） */
+export const EMAIL_CHANGE_TOKEN_EXPIRES_IN_HOURS = 24;
+
+const EMAIL_CHANGE_TOKEN_BYTES = 32;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** DB にはトークン本体ではなく SHA-256 のハッシュ値のみを保存する */
+export const hashEmailChangeToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@injectable()
+export class EmailChangeTokenService implements IEmailChangeTokenService {
+  @inject(TOKENS.EmailChangeTokenRepository)
+  private emailChangeTokenRepository!: IEmailChangeTokenRepository;
+
+  async issue(params: { userId: number; newEmail: string }): Promise<string> {
+    const token = randomBytes(EMAIL_CHANGE_TOKEN_BYTES).toString('base64url');
+
+    await this.emailChangeTokenRepository.invalidateAllByUserId(params.userId);
+    await this.emailChangeTokenRepository.create({
+      userId: params.userId,
+      newEmail: params.newEmail,
+      tokenHash: hashEmailChangeToken(token),
+      expiresAt: new Date(
+        Date.now() + EMAIL_CHANGE_TOKEN_EXPIRES_IN_HOURS * MS_PER_HOUR,
+      ),
+    });
+
+    return token;
+  }
+}
@@ -0,0 +1,154 @@
+import { Container } from 'inversify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../di/tokens';
+import type {
+  IRateLimitStore,
+  RateLimitCounter,
+} from '../rate-limit/rate-limit-store';
+import {
+  LOGIN_FAILURE_WINDOW_MS,
+  LoginThrottleService,
+  MAX_LOGIN_FAILURES_PER_EMAIL,
+  MAX_LOGIN_FAILURES_PER_IP,
+} from './login-throttle.service';
+
+describe('LoginThrottleService（ログイン試行回数の制限）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const setup = () => {
+    const counters = new Map<string, RateLimitCounter>();
+    const active = (key: string) => {
+      const counter = counters.get(key);
+      return counter && counter.resetAt.getTime() > Date.now() ? counter : null;
+    };
+    const store: IRateLimitStore = {
+      increment: vi.fn(async (key: string, windowMs: number) => {
+        const current = active(key);
+        const next = current
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: new Date(Date.now() + windowMs) };
+        counters.set(key, next);
+        return next;
+      }),
+      get: vi.fn(async (key: string) => active(key)),
+      set: vi.fn(async (key: string, counter: RateLimitCounter) => {
+        counters.set(key, counter);
+      }),
+      delete: vi.fn(async (key: string) => {
+        counters.delete(key);
+      }),
+    };
+
+    const container = new Container();
+    container
+      .bind<IRateLimitStore>(TOKENS.RateLimitStore)
+      .toConstantValue(store);
+    container.bind<LoginThrottleService>(LoginThrottleService).toSelf();
+
+    const service = container.get(LoginThrottleService);
+
+    return { service, store };
+  };
+
+  const failTimes = async (
+    service: LoginThrottleService,
+    times: number,
+    attempt: { email: string; ipAddress?: string },
+  ) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(attempt);
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedNow);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('失敗回数が上限未満であればロックしない', async () => {
+      const { service } = setup();
+      const attempt = { email: 'test@example.com', ipAddress: '203.0.113.1' };
+
+      await failTimes(service, MAX_LOGIN_FAILURES_PER_EMAIL - 1, attempt);
+
+      expect(await service.getRetryAfterSeconds(attempt)).toBeNull();
+    });
+
+    it('同じメールアドレスで上限まで失敗すると1分ロックし、以降は失敗するたびにロック時間が倍になる', async () => {
+      const { service } = setup();
+      const attempt = { email: 'test@example.com' };
+
+      await failTimes(service, MAX_LOGIN_FAILURES_PER_EMAIL, attempt);
+      expect(await service.getRetryAfterSeconds(attempt)).toBe(60);
+
+      await service.recordFailure(attempt);
+      expect(await service.getRetryAfterSeconds(attempt)).toBe(120);
+
+      vi.advanceTimersByTime(120_000);
+      expect(await service.getRetryAfterSeconds(attempt)).toBeNull();
+    });
+
+    it('ロック時間は最大1時間に制限される', async () => {
+      const { service } = setup();
+      const attempt = { email: 'test@example.com' };
+
+      await failTimes(service, MAX_LOGIN_FAILURES_PER_EMAIL + 10, attempt);
+
+      expect(await service.getRetryAfterSeconds(attempt)).toBe(3600);
+    });
+
+    it('失敗回数は最初の失敗から1時間で数え直す', async () => {
+      const { service } = setup();
+      const attempt = { email: 'test@example.com' };
+
+      await failTimes(service, MAX_LOGIN_FAILURES_PER_EMAIL - 1, attempt);
+      vi.advanceTimersByTime(LOGIN_FAILURE_WINDOW_MS);
+      await service.recordFailure(attempt);
+
+      expect(await service.getRetryAfterSeconds(attempt)).toBeNull();
+    });
+
+    it('同じ接続元IPから複数のメールアドレスで失敗し続けると、別のメールアドレスでもロックする', async () => {
+      const { service } = setup();
+
+      for (let i = 0; i < MAX_LOGIN_FAILURES_PER_IP; i++) {
+        await service.recordFailure({
+          email: `user${i}@example.com`,
+          ipAddress: '203.0.113.1',
+        });
+      }
+
+      expect(
+        await service.getRetryAfterSeconds({
+          email: 'other@example.com',
+          ipAddress: '203.0.113.1',
+        }),
+      ).toBe(60);
+      expect(
+        await service.getRetryAfterSeconds({
+          email: 'other@example.com',
+          ipAddress: '203.0.113.2',
+        }),
+      ).toBeNull();
+    });
+
+    it('ログインに成功するとメールアドレスのロックを解除するが、接続元IPの失敗回数は残す', async () => {
+      const { service, store } = setup();
+      const attempt = { email: 'test@example.com', ipAddress: '203.0.113.1' };
+
+      await failTimes(service, MAX_LOGIN_FAILURES_PER_EMAIL, attempt);
+      await service.recordSuccess(attempt);
+
+      expect(await service.getRetryAfterSeconds(attempt)).toBeNull();
+      expect(await store.get('login-failure:ip:203.0.113.1')).toMatchObject({
+        count: MAX_LOGIN_FAILURES_PER_EMAIL,
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { inject, injectable } from 'inversify';
+
+import { TOKENS } from '../di/tokens';
+import type { IRateLimitStore } from '../rate-limit/rate-limit-store';
+import { toRetryAfterSeconds } from '../rate-limit/rate-limiter.service';
+
+export type LoginAttempt = {
+  email: string; // 正規化済みのメールアドレス
+  ipAddress?: string;
+};
+
+export interface ILoginThrottleService {
+  /**
+   * メールアドレスまたは接続元IPがロック中であれば、解除までの秒数を返す（ロックされていなければ null）
+   */
+  getRetryAfterSeconds(attempt: LoginAttempt): Promise<number | null>;
+
+  /**
+   * ログイン失敗を記録し、失敗回数が上限に達していればロックする
+   */
+  recordFailure(attempt: LoginAttempt): Promise<void>;
+
+  /**
+   * ログイン成功時にメールアドレスの失敗回数とロックを解除する
+   * NOTE: 接続元IPのカウンタは残す（自分のアカウントへのログインで総当たりの記録を消せないようにする）
+   */
+  recordSuccess(attempt: LoginAttempt): Promise<void>;
+}
+
+/** 失敗回数を数える期間（最初の失敗から1時間） */
+export const LOGIN_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+/** 同じメールアドレスに対してロックするまでの失敗回数 */
+export const MAX_LOGIN_FAILURES_PER_EMAIL = 5;
+/** 同じ接続元IPからロックするまでの失敗回数（複数アカウントへの総当たり対策） */
+export const MAX_LOGIN_FAILURES_PER_IP = 20;
+
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+type ThrottleSubject = {
+  key: string;
+  maxFailures: number;
+};
+
+/**
+ * 上限到達時は1分、以降は失敗するたびに倍（最大1時間）ロックする
+ */
+export const toLockoutMs = (failures: number, maxFailures: number): number =>
+  Math.min(LOCKOUT_BASE_MS * 2 ** (failures - maxFailures), LOCKOUT_MAX_MS);
+
+const toSubjects = (attempt: LoginAttempt): ThrottleSubject[] => [
+  { key: `email:${attempt.email}`, maxFailures: MAX_LOGIN_FAILURES_PER_EMAIL },
+  ...(attempt.ipAddress
+    ? [
+        {
+          key: `ip:${attempt.ipAddress}`,
+          maxFailures: MAX_LOGIN_FAILURES_PER_IP,
+        },
+      ]
+    : []),
+];
+
+@injectable()
+export class LoginThrottleService implements ILoginThrottleService {
+  @inject(TOKENS.RateLimitStore)
+  private rateLimitStore!: IRateLimitStore;
+
+  async getRetryAfterSeconds(attempt: LoginAttempt): Promise<number | null> {
+    const locks = await Promise.all(
+      toSubjects(attempt).map(({ key }) =>
+        this.rateLimitStore.get(`login-lock:${key}`),
+      ),
+    );
+    const lockedUntil = Math.max(
+      0,
+      ...locks.map((lock) => lock?.resetAt.getTime() ?? 0),
+    );
+
+    return lockedUntil > Date.now()
+      ? toRetryAfterSeconds(new Date(lockedUntil), Date.now())
+      : null;
+  }
+
+  async recordFailure(attempt: LoginAttempt): Promise<void> {
+    await Promise.all(
+      toSubjects(attempt).map(async ({ key, maxFailures }) => {
+        const failures = await this.rateLimitStore.increment(
+          `login-failure:${key}`,
+          LOGIN_FAILURE_WINDOW_MS,
+        );
+
+        if (failures.count >= maxFailures) {
+          await this.rateLimitStore.set(`login-lock:${key}`, {
+            count: failures.count,
+            resetAt: new Date(
+              Date.now() + toLockoutMs(failures.count, maxFailures),
+            ),
+          });
+        }
+      }),
+    );
+  }
+
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    await Promise.all([
+      this.rateLimitStore.delete(`login-failure:email:${attempt.email}`),
+      this.rateLimitStore.delete(`login-lock:email:${attempt.email}`),
+    ]);
+  }
+}
@@ -0,0 +1,70 @@
+import { Container } from 'inversify';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { IPasswordResetTokenRepository } from '../../domain/repositories/password-reset-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  hashPasswordResetToken,
+  PasswordResetTokenService,
+} from './password-reset-token.service';
+
+describe('PasswordResetTokenService（パスワード再設定トークン発行サービス）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const setup = () => {
+    const repo: IPasswordResetTokenRepository = {
+      create: vi.fn(async (params) => ({
+        id: 1,
+        ...params,
+        usedAt: null,
+        createdAt: fixedNow,
+      })),
+      findByTokenHash: vi.fn(),
+      markUsed: vi.fn(),
+      invalidateAllByUserId: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<IPasswordResetTokenRepository>(TOKENS.PasswordResetTokenRepository)
+      .toConstantValue(repo);
+    container
+      .bind<PasswordResetTokenService>(PasswordResetTokenService)
+      .toSelf();
+
+    const service = container.get(PasswordResetTokenService);
+
+    return { service, repo };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('未使用のトークンを無効化してから、ハッシュ値と30分後の有効期限を保存する', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(fixedNow);
+      const { service, repo } = setup();
+
+      const token = await service.issue(1);
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(repo.invalidateAllByUserId).toHaveBeenCalledWith(1);
+      expect(repo.create).toHaveBeenCalledWith({
+        userId: 1,
+        tokenHash: hashPasswordResetToken(token),
+        expiresAt: new Date('2025-01-01T00:30:00.000Z'),
+      });
+      expect(
+        vi.mocked(repo.invalidateAllByUserId).mock.invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(repo.create).mock.invocationCallOrder[0]);
+    });
+
+    it('呼び出すたびに異なるトークンを発行する', async () => {
+      const { service } = setup();
+
+      expect(await service.issue(1)).not.toBe(await service.issue(1));
+    });
+  });
+});
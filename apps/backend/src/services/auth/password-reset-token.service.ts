@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { inject, injectable } from 'inversify';
+
+import type { IPasswordResetTokenRepository } from '../../domain/repositories/password-reset-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+
+export interface IPasswordResetTokenService {
+  /**
+   * パスワード再設定トークンを発行し、ハッシュ値のみを保存する
+   * 発行済みの未使用トークンは使えなくなる（最後に発行したものだけが有効）
+   */
+  issue(userId: number): Promise<string>;
+}
+
+/** パスワード再設定トークンの有効期間（30分） */
+export const PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES = 30;
+
+const PASSWORD_RESET_TOKEN_BYTES = 32;
+const MS_PER_MINUTE = 60 * 1000;
+
+/** DB にはトークン本体ではなく SHA-256 のハッシュ値のみを保存する */
+export const hashPasswordResetToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@injectable()
+export class PasswordResetTokenService implements IPasswordResetTokenService {
+  @inject(TOKENS.PasswordResetTokenRepository)
+  private passwordResetTokenRepository!: IPasswordResetTokenRepository;
+
+  async issue(userId: number): Promise<string> {
+    const token = randomBytes(PASSWORD_RESET_TOKEN_BYTES).toString('base64url');
+
+    await this.passwordResetTokenRepository.invalidateAllByUserId(userId);
+    await this.passwordResetTokenRepository.create({
+      userId,
+      tokenHash: hashPasswordResetToken(token),
+      expiresAt: new Date(
+        Date.now() + PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES * MS_PER_MINUTE,
+      ),
+    });
+
+    return token;
+  }
+}
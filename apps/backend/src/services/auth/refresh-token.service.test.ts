@@ -0,0 +1,69 @@
+import { Container } from 'inversify';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  hashRefreshToken,
+  type IRefreshTokenProvider,
+  RefreshTokenService,
+} from './refresh-token.service';
+
+describe('RefreshTokenService（リフレッシュトークン発行サービス）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const setup = () => {
+    const repo: IRefreshTokenRepository = {
+      create: vi.fn(async (params) => ({
+        id: 1,
+        ...params,
+        revokedAt: null,
+        createdAt: fixedNow,
+      })),
+      findByTokenHash: vi.fn(),
+      revoke: vi.fn(),
+      revokeFamily: vi.fn(),
+      revokeAllByUserId: vi.fn(),
+    };
+    const provider: IRefreshTokenProvider = {
+      generate: vi.fn(() => 'plain-refresh-token'),
+      expiresInSeconds: vi.fn(() => 60),
+    };
+
+    const container = new Container();
+    container
+      .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+      .toConstantValue(repo);
+    container
+      .bind<IRefreshTokenProvider>(TOKENS.RefreshTokenProvider)
+      .toConstantValue(provider);
+    container.bind<RefreshTokenService>(RefreshTokenService).toSelf();
+
+    const service = container.get(RefreshTokenService);
+
+    return { service, repo };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('トークン本体を返し、ハッシュ値と有効期限を保存する', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(fixedNow);
+      const { service, repo } = setup();
+
+      const token = await service.issue({ userId: 1, familyId: 'family-1' });
+
+      expect(token).toBe('plain-refresh-token');
+      expect(repo.create).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'family-1',
+        tokenHash: hashRefreshToken('plain-refresh-token'),
+        expiresAt: new Date('2025-01-01T00:01:00.000Z'),
+      });
+      expect(hashRefreshToken('plain-refresh-token')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+});
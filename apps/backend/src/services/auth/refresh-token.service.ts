@@ -0,0 +1,47 @@
+import { createHash } from 'node:crypto';
+import { inject, injectable } from 'inversify';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import { TOKENS } from '../di/tokens';
+
+export interface IRefreshTokenProvider {
+  /** 推測困難なリフレッシュトークン文字列を生成する */
+  generate(): string;
+  /** リフレッシュトークンの有効期間（秒） */
+  expiresInSeconds(): number;
+}
+
+export interface IRefreshTokenService {
+  /**
+   * リフレッシュトークンを発行し、ハッシュ値のみを保存する
+   * familyId にはログインセッションのIDを指定し、ローテーション後も同じ値を引き継ぐ
+   */
+  issue(params: { userId: number; familyId: string }): Promise<string>;
+}
+
+/** DB にはトークン本体ではなく SHA-256 のハッシュ値のみを保存する */
+export const hashRefreshToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@injectable()
+export class RefreshTokenService implements IRefreshTokenService {
+  @inject(TOKENS.RefreshTokenRepository)
+  private refreshTokenRepository!: IRefreshTokenRepository;
+
+  @inject(TOKENS.RefreshTokenProvider)
+  private refreshTokenProvider!: IRefreshTokenProvider;
+
+  async issue(params: { userId: number; familyId: string }): Promise<string> {
+    const token = this.refreshTokenProvider.generate();
+    const expiresInMs = this.refreshTokenProvider.expiresInSeconds() * 1000;
+
+    await this.refreshTokenRepository.create({
+      userId: params.userId,
+      familyId: params.familyId,
+      tokenHash: hashRefreshToken(token),
+      expiresAt: new Date(Date.now() + expiresInMs),
+    });
+
+    return token;
+  }
+}
@@ -0,0 +1,147 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type {
+  IUserSessionRepository,
+  UserSessionRecord,
+} from '../../domain/repositories/user-session.repository.interface';
+import { TOKENS } from '../di/tokens';
+import { SessionService, toDeviceName } from './session.service';
+
+describe('SessionService（ログインセッション管理サービス）', () => {
+  const makeSession = (id: string): UserSessionRecord => ({
+    id,
+    userId: 1,
+    device: 'Chrome (Windows)',
+    userAgent: null,
+    ipAddress: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    lastSeenAt: new Date('2025-01-02T00:00:00.000Z'),
+    revokedAt: null,
+  });
+
+  const setup = () => {
+    const repo: IUserSessionRepository = {
+      create: vi.fn(async (params) => ({
+        ...params,
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        lastSeenAt: new Date('2025-01-01T00:00:00.000Z'),
+        revokedAt: null,
+      })),
+      findById: vi.fn(),
+      findActiveByUserId: vi.fn(async () => [
+        makeSession('session-1'),
+        makeSession('session-2'),
+      ]),
+      revoke: vi.fn(async () => undefined),
+    };
+    const refreshTokenRepo: IRefreshTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(),
+      revoke: vi.fn(),
+      revokeFamily: vi.fn(async () => undefined),
+      revokeAllByUserId: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserSessionRepository>(TOKENS.UserSessionRepository)
+      .toConstantValue(repo);
+    container
+      .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+      .toConstantValue(refreshTokenRepo);
+    container.bind<SessionService>(SessionService).toSelf();
+
+    const service = container.get(SessionService);
+
+    return { service, repo, refreshTokenRepo };
+  };
+
+  describe('正常系', () => {
+    it('start: 端末情報を付けてセッションを登録し、セッションIDを返す', async () => {
+      const { service, repo } = setup();
+      const userAgent =
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+      const sessionId = await service.start({
+        userId: 1,
+        client: { userAgent, ipAddress: '203.0.113.1' },
+      });
+
+      expect(repo.create).toHaveBeenCalledWith({
+        id: sessionId,
+        userId: 1,
+        device: 'Chrome (Windows)',
+        userAgent,
+        ipAddress: '203.0.113.1',
+      });
+      expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('start: 端末情報がない場合は不明なデバイスとして登録する', async () => {
+      const { service, repo } = setup();
+
+      await service.start({ userId: 1 });
+
+      expect(repo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          device: '不明なデバイス',
+          userAgent: null,
+          ipAddress: null,
+        }),
+      );
+    });
+
+    it('revokeAll: 有効なセッションを紐づくリフレッシュトークンごと失効させ、件数を返す', async () => {
+      const { service, repo, refreshTokenRepo } = setup();
+
+      const revokedCount = await service.revokeAll({ userId: 1 });
+
+      expect(repo.findActiveByUserId).toHaveBeenCalledWith(1);
+      expect(vi.mocked(repo.revoke).mock.calls).toEqual([
+        ['session-1'],
+        ['session-2'],
+      ]);
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-1',
+      });
+      expect(revokedCount).toBe(2);
+    });
+
+    it('revokeAll: exceptSessionId に指定したセッションは残す', async () => {
+      const { service, repo, refreshTokenRepo } = setup();
+
+      const revokedCount = await service.revokeAll({
+        userId: 1,
+        exceptSessionId: 'session-1',
+      });
+
+      expect(vi.mocked(repo.revoke).mock.calls).toEqual([['session-2']]);
+      expect(refreshTokenRepo.revokeFamily).not.toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-1',
+      });
+      expect(revokedCount).toBe(1);
+    });
+
+    it.each([
+      [
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        'Safari (iPhone)',
+      ],
+      [
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+        'Chrome (Android)',
+      ],
+      [
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:121.0) Gecko/20100101 Firefox/121.0',
+        'Firefox (Mac)',
+      ],
+      ['curl/8.4.0', '不明なデバイス'],
+    ])('toDeviceName: %s は %s になる', (userAgent, expected) => {
+      expect(toDeviceName(userAgent)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { randomUUID } from 'node:crypto';
+import { inject, injectable } from 'inversify';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type { IUserSessionRepository } from '../../domain/repositories/user-session.repository.interface';
+import { TOKENS } from '../di/tokens';
+
+/** ログイン元の端末情報（リクエストヘッダーから取得） */
+export type SessionClient = {
+  userAgent?: string;
+  ipAddress?: string;
+};
+
+export interface ISessionService {
+  /**
+   * ログインセッションを開始し、セッションIDを返す
+   */
+  start(params: { userId: number; client?: SessionClient }): Promise<string>;
+
+  /**
+   * ユーザーの有効なセッションを、紐づくリフレッシュトークンごと失効させる
+   * exceptSessionId を指定した場合はそのセッションを残す。失効させた件数を返す
+   */
+  revokeAll(params: {
+    userId: number;
+    exceptSessionId?: string;
+  }): Promise<number>;
+}
+
+const USER_AGENT_MAX_LENGTH = 512;
+const IP_ADDRESS_MAX_LENGTH = 45;
+const UNKNOWN_DEVICE = '不明なデバイス';
+
+// 上から順に判定するため、より具体的なものを先に並べる
+const OS_PATTERNS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'Mac'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const BROWSER_PATTERNS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const findLabel = (
+  patterns: ReadonlyArray<readonly [RegExp, string]>,
+  userAgent: string,
+): string | undefined =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/** User-Agent から「Chrome (Windows)」のような表示用の端末名を組み立てる */
+export const toDeviceName = (userAgent?: string): string => {
+  const os = userAgent ? findLabel(OS_PATTERNS, userAgent) : undefined;
+  const browser = userAgent
+    ? findLabel(BROWSER_PATTERNS, userAgent)
+    : undefined;
+  const labels = [browser, os && `(${os})`].filter(Boolean);
+
+  return labels.length > 0 ? labels.join(' ') : UNKNOWN_DEVICE;
+};
+
+@injectable()
+export class SessionService implements ISessionService {
+  @inject(TOKENS.UserSessionRepository)
+  private userSessionRepository!: IUserSessionRepository;
+
+  @inject(TOKENS.RefreshTokenRepository)
+  private refreshTokenRepository!: IRefreshTokenRepository;
+
+  async start(params: {
+    userId: number;
+    client?: SessionClient;
+  }): Promise<string> {
+    const session = await this.userSessionRepository.create({
+      id: randomUUID(),
+      userId: params.userId,
+      device: toDeviceName(params.client?.userAgent),
+      userAgent:
+        params.client?.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+      ipAddress:
+        params.client?.ipAddress?.slice(0, IP_ADDRESS_MAX_LENGTH) ?? null,
+    });
+
+    return session.id;
+  }
+
+  async revokeAll(params: {
+    userId: number;
+    exceptSessionId?: string;
+  }): Promise<number> {
+    const sessions = (
+      await this.userSessionRepository.findActiveByUserId(params.userId)
+    ).filter((session) => session.id !== params.exceptSessionId);
+
+    await Promise.all(
+      sessions.flatMap((session) => [
+        this.userSessionRepository.revoke(session.id),
+        this.refreshTokenRepository.revokeFamily({
+          userId: session.userId,
+          familyId: session.id,
+        }),
+      ]),
+    );
+
+    return sessions.length;
+  }
+}
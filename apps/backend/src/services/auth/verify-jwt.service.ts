@@ -3,6 +3,8 @@ export type VerifiedTokenPayload = {
   email: string;
   iat: number;
   exp: number;
+  /** セッション管理の導入前に発行されたトークンには含まれない */
+  sid?: string;
 };
 
 /**
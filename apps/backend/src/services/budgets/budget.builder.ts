@@ -0,0 +1,57 @@
+// Application Layer: Budget Builder
+// 予算ユースケースの出力DTO組み立てを担当する
+
+import type { Budget, BudgetRecord } from '../../domain/entities/budget.entity';
+import type { Money } from '../../domain/values/money';
+
+export type BudgetOutput = {
+  id: number;
+  categoryId: number;
+  categoryName: string;
+  amount: number;
+  currencyCode: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BudgetStatusItemOutput = {
+  id: number;
+  categoryId: number;
+  categoryName: string;
+  amount: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  isOverBudget: boolean;
+};
+
+export class BudgetBuilder {
+  build(record: BudgetRecord): BudgetOutput {
+    return {
+      id: record.id,
+      categoryId: record.categoryId,
+      categoryName: record.categoryName,
+      amount: record.amount,
+      currencyCode: record.currency,
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+
+  buildStatus(params: {
+    record: BudgetRecord;
+    budget: Budget;
+    spent: Money;
+  }): BudgetStatusItemOutput {
+    return {
+      id: params.record.id,
+      categoryId: params.record.categoryId,
+      categoryName: params.record.categoryName,
+      amount: params.budget.amount.amount,
+      spent: params.spent.amount,
+      remaining: params.budget.remainingAfter(params.spent),
+      percentUsed: params.budget.percentUsedBy(params.spent),
+      isOverBudget: params.budget.isExceededBy(params.spent),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidBudgetAmountError extends DomainError {
+  constructor(amount: number) {
+    super(`不正な予算額です: ${amount}`, 'InvalidBudgetAmountError');
+  }
+}
+
+export class BudgetCategoryNotFoundError extends DomainError {
+  constructor(categoryId: number) {
+    super(
+      `カテゴリが見つかりません: ${categoryId}`,
+      'BudgetCategoryNotFoundError',
+    );
+  }
+}
+
+export class BudgetCategoryTypeMismatchError extends DomainError {
+  constructor(categoryType: string) {
+    super(
+      `予算は支出カテゴリにのみ設定できます: ${categoryType}`,
+      'BudgetCategoryTypeMismatchError',
+    );
+  }
+}
+
+export class BudgetAlreadyExistsError extends DomainError {
+  constructor(categoryId: number) {
+    super(
+      `このカテゴリの予算は既に登録されています: ${categoryId}`,
+      'BudgetAlreadyExistsError',
+    );
+  }
+}
+
+type UnexpectedCreateBudgetErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedCreateBudgetError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedCreateBudgetErrorParams) {
+    super(params.message, 'UnexpectedCreateBudgetError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type CreateBudgetError =
+  | InvalidBudgetAmountError
+  | BudgetCategoryNotFoundError
+  | BudgetCategoryTypeMismatchError
+  | BudgetAlreadyExistsError
+  | UnexpectedCreateBudgetError;
@@ -0,0 +1,187 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BudgetRecord } from '../../domain/entities/budget.entity';
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  BudgetAlreadyExistsError,
+  BudgetCategoryNotFoundError,
+  BudgetCategoryTypeMismatchError,
+  InvalidBudgetAmountError,
+  UnexpectedCreateBudgetError,
+} from './create-budget.errors';
+import { CreateBudgetUseCase } from './create-budget.service';
+
+describe('CreateBudgetUseCase（予算作成）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 10,
+    name: '食費',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeBudgetRecord = (
+    override?: Partial<BudgetRecord>,
+  ): BudgetRecord => ({
+    id: 1,
+    userId: 100,
+    categoryId: 10,
+    categoryName: '食費',
+    amount: 50000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockBudgetRepo: Partial<IBudgetRepository>,
+    mockCategoryRepo: Partial<ICategoryRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IBudgetRepository>(TOKENS.BudgetRepository)
+      .toConstantValue(mockBudgetRepo as IBudgetRepository);
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(mockCategoryRepo as ICategoryRepository);
+    container.bind(CreateBudgetUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('支出カテゴリに予算を登録できる', async () => {
+      const mockBudgetRepo = {
+        findByUserIdAndCategoryId: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue(makeBudgetRecord()),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: 100,
+        categoryId: 10,
+        amount: 50000,
+      });
+
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [10]);
+      expect(mockBudgetRepo.create).toHaveBeenCalledWith({
+        userId: 100,
+        categoryId: 10,
+        amount: 50000,
+      });
+      expect(output).toEqual({
+        budget: {
+          id: 1,
+          categoryId: 10,
+          categoryName: '食費',
+          amount: 50000,
+          currencyCode: 'JPY',
+          createdAt: fixedNow.toISOString(),
+          updatedAt: fixedNow.toISOString(),
+        },
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('予算額が0以下の場合は例外になる', async () => {
+      const mockBudgetRepo = { create: vi.fn() };
+      const mockCategoryRepo = { findByIds: vi.fn() };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, categoryId: 10, amount: 0 }),
+      ).rejects.toBeInstanceOf(InvalidBudgetAmountError);
+      expect(mockCategoryRepo.findByIds).not.toHaveBeenCalled();
+    });
+
+    it('利用できないカテゴリの場合は例外になる', async () => {
+      const mockBudgetRepo = { create: vi.fn() };
+      const mockCategoryRepo = { findByIds: vi.fn().mockResolvedValue([]) };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, categoryId: 999, amount: 50000 }),
+      ).rejects.toBeInstanceOf(BudgetCategoryNotFoundError);
+    });
+
+    it('収入カテゴリの場合は例外になる', async () => {
+      const mockBudgetRepo = { create: vi.fn() };
+      const mockCategoryRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([makeCategoryRecord({ type: 'INCOME' })]),
+      };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, categoryId: 10, amount: 50000 }),
+      ).rejects.toBeInstanceOf(BudgetCategoryTypeMismatchError);
+    });
+
+    it('同じカテゴリの予算が既にある場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findByUserIdAndCategoryId: vi
+          .fn()
+          .mockResolvedValue(makeBudgetRecord()),
+        create: vi.fn(),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, categoryId: 10, amount: 50000 }),
+      ).rejects.toBeInstanceOf(BudgetAlreadyExistsError);
+      expect(mockBudgetRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('保存に失敗した場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findByUserIdAndCategoryId: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const useCase = createMockContainer(mockBudgetRepo, mockCategoryRepo).get(
+        CreateBudgetUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, categoryId: 10, amount: 50000 }),
+      ).rejects.toBeInstanceOf(UnexpectedCreateBudgetError);
+    });
+  });
+});
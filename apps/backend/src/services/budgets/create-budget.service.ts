@@ -0,0 +1,189 @@
+// Application Layer: Create Budget Use Case
+// カテゴリごとの月次予算の登録を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { Money } from '../../domain/values/money';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { BudgetBuilder, type BudgetOutput } from './budget.builder';
+import {
+  BudgetAlreadyExistsError,
+  BudgetCategoryNotFoundError,
+  BudgetCategoryTypeMismatchError,
+  type CreateBudgetError,
+  InvalidBudgetAmountError,
+  UnexpectedCreateBudgetError,
+} from './create-budget.errors';
+
+export type CreateBudgetInput = {
+  userId: number;
+  categoryId: number;
+  amount: number;
+};
+
+export type CreateBudgetOutput = {
+  budget: BudgetOutput;
+};
+
+type CategoryLoadedInput = CreateBudgetInput & { category: CategoryRecord };
+
+@injectable()
+export class CreateBudgetUseCase {
+  @inject(TOKENS.BudgetRepository)
+  private budgetRepository!: IBudgetRepository;
+
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  private readonly builder = new BudgetBuilder();
+
+  async execute(input: CreateBudgetInput): Promise<CreateBudgetOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: CreateBudgetInput,
+  ): Effect.Effect<CreateBudgetOutput, CreateBudgetError> {
+    return pipe(
+      this.validateAmount(input),
+      Effect.flatMap((value) => this.fetchCategory(value)),
+      Effect.flatMap((value) => this.ensureExpenseCategory(value)),
+      Effect.flatMap((value) => this.ensureNotDuplicated(value)),
+      Effect.flatMap((value) => this.createBudget(value)),
+    );
+  }
+
+  private validateAmount(
+    input: CreateBudgetInput,
+  ): Effect.Effect<CreateBudgetInput, CreateBudgetError> {
+    return pipe(
+      Effect.try({
+        try: () => Money.of(input.amount),
+        catch: () => new InvalidBudgetAmountError(input.amount),
+      }),
+      Effect.filterOrFail(
+        (money) => !money.isZero(),
+        () => new InvalidBudgetAmountError(input.amount),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  private fetchCategory(
+    input: CreateBudgetInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateBudgetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(input.userId, [input.categoryId]),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリ情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap(([category]) =>
+        category === undefined
+          ? Effect.fail(new BudgetCategoryNotFoundError(input.categoryId))
+          : Effect.succeed({ ...input, category }),
+      ),
+    );
+  }
+
+  private ensureExpenseCategory(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateBudgetError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ category }) => category.type === 'EXPENSE',
+        () => new BudgetCategoryTypeMismatchError(value.category.type),
+      ),
+    );
+  }
+
+  private ensureNotDuplicated(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateBudgetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.budgetRepository.findByUserIdAndCategoryId(
+            value.userId,
+            value.categoryId,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('予算情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (existing) => existing === null,
+        () => new BudgetAlreadyExistsError(value.categoryId),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private createBudget(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CreateBudgetOutput, CreateBudgetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.budgetRepository.create({
+            userId: value.userId,
+            categoryId: value.categoryId,
+            amount: value.amount,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('予算の保存に失敗しました', cause),
+      }),
+      Effect.map((record) => ({ budget: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedCreateBudgetError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedCreateBudgetError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<CreateBudgetOutput, CreateBudgetError>,
+  ): CreateBudgetOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedCreateBudgetError({
+                message: '予算の作成に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
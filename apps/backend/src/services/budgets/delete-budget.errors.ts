@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  BudgetNotFoundError,
+  NotBudgetOwnerError,
+} from './update-budget.errors';
+
+export {
+  BudgetNotFoundError,
+  NotBudgetOwnerError,
+} from './update-budget.errors';
+
+type UnexpectedDeleteBudgetErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteBudgetError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteBudgetErrorParams) {
+    super(params.message, 'UnexpectedDeleteBudgetError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteBudgetError =
+  | BudgetNotFoundError
+  | NotBudgetOwnerError
+  | UnexpectedDeleteBudgetError;
@@ -0,0 +1,100 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  BudgetNotFoundError,
+  NotBudgetOwnerError,
+  UnexpectedDeleteBudgetError,
+} from './delete-budget.errors';
+import { DeleteBudgetUseCase } from './delete-budget.service';
+
+describe('DeleteBudgetUseCase（予算削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeBudgetRecord = (
+    override?: Partial<BudgetRecord>,
+  ): BudgetRecord => ({
+    id: 1,
+    userId: 100,
+    categoryId: 10,
+    categoryName: '食費',
+    amount: 50000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (mockBudgetRepo: Partial<IBudgetRepository>) => {
+    const container = new Container();
+    container
+      .bind<IBudgetRepository>(TOKENS.BudgetRepository)
+      .toConstantValue(mockBudgetRepo as IBudgetRepository);
+    container.bind(DeleteBudgetUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合は削除できる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord()),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(DeleteBudgetUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockBudgetRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      expect(output).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('予算が見つからない場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(DeleteBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(BudgetNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord({ userId: 999 })),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(DeleteBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(NotBudgetOwnerError);
+    });
+
+    it('削除処理が失敗した場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord()),
+        delete: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(DeleteBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedDeleteBudgetError);
+    });
+  });
+});
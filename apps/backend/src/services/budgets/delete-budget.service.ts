@@ -0,0 +1,149 @@
+// Application Layer: Delete Budget Use Case
+// 予算の削除を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Budget, type BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { Money } from '../../domain/values/money';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  BudgetNotFoundError,
+  type DeleteBudgetError,
+  NotBudgetOwnerError,
+  UnexpectedDeleteBudgetError,
+} from './delete-budget.errors';
+
+export type DeleteBudgetInput = {
+  userId: number;
+  id: number;
+};
+
+export type DeleteBudgetOutput = {
+  deleted: true;
+};
+
+type BudgetLoadedInput = DeleteBudgetInput & { current: BudgetRecord };
+
+@injectable()
+export class DeleteBudgetUseCase {
+  @inject(TOKENS.BudgetRepository)
+  private budgetRepository!: IBudgetRepository;
+
+  async execute(input: DeleteBudgetInput): Promise<DeleteBudgetOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteBudgetInput,
+  ): Effect.Effect<DeleteBudgetOutput, DeleteBudgetError> {
+    return pipe(
+      this.fetchCurrentBudget(input),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.deleteBudget(value)),
+    );
+  }
+
+  private fetchCurrentBudget(
+    input: DeleteBudgetInput,
+  ): Effect.Effect<BudgetLoadedInput, DeleteBudgetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.budgetRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('予算情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new BudgetNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: BudgetLoadedInput,
+  ): Effect.Effect<BudgetLoadedInput, DeleteBudgetError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotBudgetOwnerError(),
+      ),
+    );
+  }
+
+  private deleteBudget(
+    value: BudgetLoadedInput,
+  ): Effect.Effect<DeleteBudgetOutput, DeleteBudgetError> {
+    return pipe(
+      Effect.try({
+        try: () =>
+          Budget.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.categoryId,
+            Money.ofWithCurrency(value.current.amount, value.current.currency),
+            value.current.createdAt,
+            value.current.updatedAt,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('予算の削除に失敗しました', cause),
+      }),
+      Effect.flatMap((budget) =>
+        Effect.tryPromise({
+          try: () => this.budgetRepository.delete(budget),
+          catch: (cause) =>
+            this.createUnexpectedError('予算の削除に失敗しました', cause),
+        }),
+      ),
+      Effect.map(() => ({ deleted: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteBudgetError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteBudgetError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<DeleteBudgetOutput, DeleteBudgetError>,
+  ): DeleteBudgetOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteBudgetError({
+                message: '予算の削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
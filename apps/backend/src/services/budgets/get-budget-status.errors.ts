@@ -0,0 +1,27 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidBudgetMonthError extends DomainError {
+  constructor(month: string) {
+    super(`不正な月の指定です: ${month}`, 'InvalidBudgetMonthError');
+  }
+}
+
+type UnexpectedGetBudgetStatusErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedGetBudgetStatusError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedGetBudgetStatusErrorParams) {
+    super(params.message, 'UnexpectedGetBudgetStatusError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type GetBudgetStatusError =
+  | InvalidBudgetMonthError
+  | UnexpectedGetBudgetStatusError;
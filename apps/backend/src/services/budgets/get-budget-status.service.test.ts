@@ -0,0 +1,434 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import {
+  InvalidBudgetMonthError,
+  UnexpectedGetBudgetStatusError,
+} from './get-budget-status.errors';
+import { GetBudgetStatusUseCase } from './get-budget-status.service';
+
+describe('GetBudgetStatusUseCase（予算消化状況）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeBudgetRecord = (
+    override?: Partial<BudgetRecord>,
+  ): BudgetRecord => ({
+    id: 1,
+    userId: 100,
+    categoryId: 10,
+    categoryName: '食費',
+    amount: 50000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const DEFAULT_LEDGER_ID = 500 as const;
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? DEFAULT_LEDGER_ID, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockBudgetRepo: Partial<IBudgetRepository>,
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+    mockExchangeRateRepo: Partial<IExchangeRateRepository> = {
+      findApplicable: vi.fn().mockResolvedValue([]),
+    },
+  ) => {
+    const container = new Container();
+    container
+      .bind<IBudgetRepository>(TOKENS.BudgetRepository)
+      .toConstantValue(mockBudgetRepo as IBudgetRepository);
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<IExchangeRateRepository>(TOKENS.ExchangeRateRepository)
+      .toConstantValue(mockExchangeRateRepo as IExchangeRateRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(GetBudgetStatusUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('指定月の支出実績から残額・消化率・超過判定を算出できる', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([
+          makeBudgetRecord(),
+          makeBudgetRecord({
+            id: 2,
+            categoryId: 11,
+            categoryName: '日用品',
+            amount: 10000,
+          }),
+          makeBudgetRecord({
+            id: 3,
+            categoryId: 12,
+            categoryName: '交際費',
+            amount: 20000,
+          }),
+        ]),
+      };
+      const mockTransactionRepo = {
+        summarizeByLedgerId: vi.fn().mockResolvedValue({
+          totals: [],
+          categories: [
+            {
+              categoryId: 1,
+              categoryName: '給与',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'INCOME',
+              amount: 300000,
+              count: 1,
+            },
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 32000,
+              count: 12,
+            },
+            {
+              categoryId: 11,
+              categoryName: '日用品',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 12500,
+              count: 3,
+            },
+          ],
+        }),
+      };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+      ).get(GetBudgetStatusUseCase);
+
+      const output = await useCase.execute({ userId: 100, month: '2025-02' });
+
+      expect(mockBudgetRepo.findByUserId).toHaveBeenCalledWith(100);
+      expect(mockTransactionRepo.summarizeByLedgerId).toHaveBeenCalledWith({
+        ledgerId: DEFAULT_LEDGER_ID,
+        startDate: '2025-02-01',
+        endDate: '2025-02-28',
+      });
+      expect(output).toEqual({
+        month: '2025-02',
+        currencyCode: 'JPY',
+        budgets: [
+          {
+            id: 1,
+            categoryId: 10,
+            categoryName: '食費',
+            amount: 50000,
+            spent: 32000,
+            remaining: 18000,
+            percentUsed: 64,
+            isOverBudget: false,
+          },
+          {
+            id: 2,
+            categoryId: 11,
+            categoryName: '日用品',
+            amount: 10000,
+            spent: 12500,
+            remaining: -2500,
+            percentUsed: 125,
+            isOverBudget: true,
+          },
+          {
+            id: 3,
+            categoryId: 12,
+            categoryName: '交際費',
+            amount: 20000,
+            spent: 0,
+            remaining: 20000,
+            percentUsed: 0,
+            isOverBudget: false,
+          },
+        ],
+        unconvertedCount: 0,
+      });
+    });
+
+    it('サブカテゴリの予算はそのカテゴリの支出、親カテゴリの予算はサブカテゴリを含む支出で判定する', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([
+          makeBudgetRecord({ amount: 10000 }),
+          makeBudgetRecord({
+            id: 2,
+            categoryId: 20,
+            categoryName: '外食',
+            amount: 4000,
+          }),
+        ]),
+      };
+      const mockTransactionRepo = {
+        summarizeByLedgerId: vi.fn().mockResolvedValue({
+          totals: [],
+          categories: [
+            {
+              categoryId: 20,
+              categoryName: '外食',
+              parentCategoryId: 10,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 5000,
+              count: 2,
+            },
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 3000,
+              count: 1,
+            },
+          ],
+        }),
+      };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+      ).get(GetBudgetStatusUseCase);
+
+      const output = await useCase.execute({ userId: 100, month: '2025-02' });
+
+      expect(output.budgets).toEqual([
+        expect.objectContaining({
+          categoryId: 10,
+          spent: 8000,
+          remaining: 2000,
+          isOverBudget: false,
+        }),
+        expect.objectContaining({
+          categoryId: 20,
+          spent: 5000,
+          remaining: -1000,
+          isOverBudget: true,
+        }),
+      ]);
+    });
+
+    it('既定の帳簿の支出で判定する（共有帳簿のメンバーが記録した取引も含める）', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([makeBudgetRecord()]),
+      };
+      const mockTransactionRepo = {
+        summarizeByLedgerId: vi.fn().mockResolvedValue({
+          totals: [],
+          categories: [
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 7000,
+              count: 2,
+            },
+          ],
+        }),
+      };
+      const mockLedgerAccessService = createLedgerAccessServiceMock();
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+        mockLedgerAccessService,
+      ).get(GetBudgetStatusUseCase);
+
+      const output = await useCase.execute({ userId: 100, month: '2025-02' });
+
+      expect(mockLedgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 100,
+      });
+      expect(mockTransactionRepo.summarizeByLedgerId).toHaveBeenCalledWith(
+        expect.objectContaining({ ledgerId: DEFAULT_LEDGER_ID }),
+      );
+      expect(output.budgets).toEqual([
+        expect.objectContaining({ categoryId: 10, spent: 7000 }),
+      ]);
+    });
+
+    it('JPY以外の支出は取引日時点のレートで換算し、レートがない支出は除外して件数を返す', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([makeBudgetRecord()]),
+      };
+      const mockTransactionRepo = {
+        summarizeByLedgerId: vi.fn().mockResolvedValue({
+          totals: [
+            {
+              type: 'EXPENSE',
+              currencyCode: 'JPY',
+              date: '2025-02-03',
+              amount: 3000,
+              count: 1,
+            },
+            {
+              type: 'EXPENSE',
+              currencyCode: 'USD',
+              date: '2025-02-10',
+              amount: 1234,
+              count: 1,
+            },
+            {
+              type: 'EXPENSE',
+              currencyCode: 'EUR',
+              date: '2025-02-12',
+              amount: 500,
+              count: 2,
+            },
+          ],
+          categories: [
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'JPY',
+              date: '2025-02-03',
+              type: 'EXPENSE',
+              amount: 3000,
+              count: 1,
+            },
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'USD',
+              date: '2025-02-10',
+              type: 'EXPENSE',
+              amount: 1234,
+              count: 1,
+            },
+            {
+              categoryId: 10,
+              categoryName: '食費',
+              parentCategoryId: null,
+              currencyCode: 'EUR',
+              date: '2025-02-12',
+              type: 'EXPENSE',
+              amount: 500,
+              count: 2,
+            },
+          ],
+        }),
+      };
+      const mockExchangeRateRepo = {
+        findApplicable: vi.fn().mockResolvedValue([
+          {
+            fromCurrency: 'USD',
+            toCurrency: 'JPY',
+            rate: '150',
+            date: '2025-02-01',
+            fromExponent: 2,
+            toExponent: 0,
+          },
+        ]),
+      };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+        createLedgerAccessServiceMock(),
+        mockExchangeRateRepo,
+      ).get(GetBudgetStatusUseCase);
+
+      const output = await useCase.execute({ userId: 100, month: '2025-02' });
+
+      expect(mockExchangeRateRepo.findApplicable).toHaveBeenCalledWith({
+        fromCurrencies: ['USD', 'EUR'],
+        toCurrency: 'JPY',
+        startDate: '2025-02-01',
+        endDate: '2025-02-28',
+      });
+      // 3000円 + 12.34ドル × 150 = 3000円 + 1851円（四捨五入）
+      expect(output.budgets).toEqual([
+        expect.objectContaining({ categoryId: 10, spent: 4851 }),
+      ]);
+      expect(output.unconvertedCount).toBe(2);
+    });
+  });
+
+  describe('異常系', () => {
+    it('既定の帳簿が見つからない場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([makeBudgetRecord()]),
+      };
+      const mockTransactionRepo = { summarizeByLedgerId: vi.fn() };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+        createLedgerAccessServiceMock(null),
+      ).get(GetBudgetStatusUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, month: '2025-01' }),
+      ).rejects.toBeInstanceOf(UnexpectedGetBudgetStatusError);
+      expect(mockTransactionRepo.summarizeByLedgerId).not.toHaveBeenCalled();
+    });
+
+    it('存在しない月の場合は例外になる', async () => {
+      const mockBudgetRepo = { findByUserId: vi.fn() };
+      const mockTransactionRepo = { summarizeByLedgerId: vi.fn() };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+      ).get(GetBudgetStatusUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, month: '2025-13' }),
+      ).rejects.toBeInstanceOf(InvalidBudgetMonthError);
+      expect(mockBudgetRepo.findByUserId).not.toHaveBeenCalled();
+    });
+
+    it('支出実績の集計に失敗した場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findByUserId: vi.fn().mockResolvedValue([makeBudgetRecord()]),
+      };
+      const mockTransactionRepo = {
+        summarizeByLedgerId: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(
+        mockBudgetRepo,
+        mockTransactionRepo,
+      ).get(GetBudgetStatusUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, month: '2025-01' }),
+      ).rejects.toBeInstanceOf(UnexpectedGetBudgetStatusError);
+    });
+  });
+});
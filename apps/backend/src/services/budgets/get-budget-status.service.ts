@@ -0,0 +1,335 @@
+// Application Layer: Get Budget Status Use Case
+// 指定月の支出実績と予算を突き合わせ、残額・消化率・超過判定を算出する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Budget, type BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import type {
+  ITransactionRepository,
+  SummarizeTransactionsResult,
+} from '../../domain/repositories/transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { CurrencyConverter } from '../exchange-rates/currency-converter';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import { BudgetBuilder, type BudgetStatusItemOutput } from './budget.builder';
+import {
+  type GetBudgetStatusError,
+  InvalidBudgetMonthError,
+  UnexpectedGetBudgetStatusError,
+} from './get-budget-status.errors';
+
+// NOTE: 予算はJPYで保存されるため、支出実績は取引日時点のレートでJPYに換算して集計する
+const BUDGET_CURRENCY_CODE = 'JPY' as const;
+const FIRST_DAY_OF_MONTH_SUFFIX = '-01' as const;
+const NO_SPENDING = 0 as const;
+
+export type GetBudgetStatusInput = {
+  userId: number;
+  month: string; // YYYY-MM
+};
+
+export type GetBudgetStatusOutput = {
+  month: string;
+  currencyCode: string;
+  budgets: BudgetStatusItemOutput[];
+  unconvertedCount: number;
+};
+
+type MonthPeriod = {
+  startDate: TransactionDate;
+  endDate: TransactionDate;
+};
+
+type BudgetsLoaded = {
+  period: MonthPeriod;
+  budgets: BudgetRecord[];
+};
+
+type SummaryLoaded = BudgetsLoaded & {
+  summary: SummarizeTransactionsResult;
+};
+
+type SpendingLoaded = BudgetsLoaded & {
+  spentByCategoryId: Map<number, number>;
+  unconvertedCount: number;
+};
+
+type CategorySpendingRecord = SummarizeTransactionsResult['categories'][number];
+
+const addSpent = (
+  map: Map<number, number>,
+  categoryId: number,
+  amount: number,
+): Map<number, number> =>
+  map.set(categoryId, (map.get(categoryId) ?? NO_SPENDING) + amount);
+
+// NOTE: 親カテゴリの予算にはサブカテゴリの支出も含める（サブカテゴリの予算はそのカテゴリの支出のみ）
+// NOTE: 換算できなかった（予算の通貨へのレートがない）支出は含めない
+const toSpentByCategoryId = (
+  categories: CategorySpendingRecord[],
+  converter: CurrencyConverter,
+): Map<number, number> =>
+  categories
+    .filter((category) => category.type === 'EXPENSE')
+    .reduce((map, category) => {
+      const converted = converter.convert(
+        Money.ofWithCurrency(category.amount, category.currencyCode),
+        category.date,
+      );
+      if (converted === null) {
+        return map;
+      }
+      addSpent(map, category.categoryId, converted.amount);
+      return category.parentCategoryId === null
+        ? map
+        : addSpent(map, category.parentCategoryId, converted.amount);
+    }, new Map<number, number>());
+
+/**
+ * 換算できなかった支出の取引の件数を数える
+ */
+const countUnconverted = (
+  totals: SummarizeTransactionsResult['totals'],
+  converter: CurrencyConverter,
+): number =>
+  totals
+    .filter((total) => total.type === 'EXPENSE')
+    .filter(
+      (total) =>
+        converter.convert(
+          Money.ofWithCurrency(total.amount, total.currencyCode),
+          total.date,
+        ) === null,
+    )
+    .reduce<number>((sum, total) => sum + total.count, NO_SPENDING);
+
+@injectable()
+export class GetBudgetStatusUseCase {
+  @inject(TOKENS.BudgetRepository)
+  private budgetRepository!: IBudgetRepository;
+
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.ExchangeRateRepository)
+  private exchangeRateRepository!: IExchangeRateRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  private readonly builder = new BudgetBuilder();
+
+  async execute(input: GetBudgetStatusInput): Promise<GetBudgetStatusOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: GetBudgetStatusInput,
+  ): Effect.Effect<GetBudgetStatusOutput, GetBudgetStatusError> {
+    return pipe(
+      this.resolvePeriod(input.month),
+      Effect.flatMap((period) => this.fetchBudgets(input.userId, period)),
+      Effect.flatMap((value) =>
+        pipe(
+          this.resolveLedger(input.userId),
+          Effect.flatMap((ledgerId) => this.fetchSpending(ledgerId, value)),
+        ),
+      ),
+      Effect.flatMap((value) => this.convertSpending(value)),
+      Effect.flatMap((value) => this.evaluateBudgets(input.month, value)),
+    );
+  }
+
+  private resolvePeriod(
+    month: string,
+  ): Effect.Effect<MonthPeriod, GetBudgetStatusError> {
+    return pipe(
+      Effect.try({
+        try: () =>
+          TransactionDate.fromString(`${month}${FIRST_DAY_OF_MONTH_SUFFIX}`),
+        catch: () => new InvalidBudgetMonthError(month),
+      }),
+      Effect.map((date) => ({
+        startDate: date.startOfMonth(),
+        endDate: date.endOfMonth(),
+      })),
+    );
+  }
+
+  private fetchBudgets(
+    userId: number,
+    period: MonthPeriod,
+  ): Effect.Effect<BudgetsLoaded, GetBudgetStatusError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.budgetRepository.findByUserId(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('予算一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((budgets) => ({ period, budgets })),
+    );
+  }
+
+  /**
+   * 支出実績を集計する帳簿（ユーザーの既定の帳簿）のIDを返す
+   * NOTE: 予算はユーザー単位のため、共有帳簿のメンバーが記録した取引も含めて既定の帳簿の支出で判定する
+   */
+  private resolveLedger(
+    userId: number,
+  ): Effect.Effect<number, GetBudgetStatusError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () =>
+          this.createUnexpectedError(
+            '支出実績を集計する帳簿が見つかりませんでした',
+          ),
+      ),
+      Effect.map(({ ledgerId }) => ledgerId),
+    );
+  }
+
+  private fetchSpending(
+    ledgerId: number,
+    value: BudgetsLoaded,
+  ): Effect.Effect<SummaryLoaded, GetBudgetStatusError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRepository.summarizeByLedgerId({
+            ledgerId,
+            startDate: value.period.startDate.format(),
+            endDate: value.period.endDate.format(),
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('支出実績の集計に失敗しました', cause),
+      }),
+      Effect.map((summary) => ({ ...value, summary })),
+    );
+  }
+
+  /**
+   * 通貨/取引日ごとの支出実績を予算の通貨に換算してカテゴリ単位に合算する
+   */
+  private convertSpending(
+    value: SummaryLoaded,
+  ): Effect.Effect<SpendingLoaded, GetBudgetStatusError> {
+    const currencyCodes = Array.from(
+      new Set(value.summary.totals.map((total) => total.currencyCode)),
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.exchangeRateRepository.findApplicable({
+            fromCurrencies: currencyCodes.filter(
+              (code) => code !== BUDGET_CURRENCY_CODE,
+            ),
+            toCurrency: BUDGET_CURRENCY_CODE,
+            startDate: value.period.startDate.format(),
+            endDate: value.period.endDate.format(),
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('為替レートの取得に失敗しました', cause),
+      }),
+      Effect.map((rates) => new CurrencyConverter(BUDGET_CURRENCY_CODE, rates)),
+      Effect.map((converter) => ({
+        period: value.period,
+        budgets: value.budgets,
+        spentByCategoryId: toSpentByCategoryId(
+          value.summary.categories,
+          converter,
+        ),
+        unconvertedCount: countUnconverted(value.summary.totals, converter),
+      })),
+    );
+  }
+
+  private evaluateBudgets(
+    month: string,
+    value: SpendingLoaded,
+  ): Effect.Effect<GetBudgetStatusOutput, GetBudgetStatusError> {
+    return Effect.try({
+      try: () => ({
+        month,
+        currencyCode: BUDGET_CURRENCY_CODE,
+        budgets: value.budgets.map((record) => {
+          const budget = Budget.reconstruct(
+            record.id,
+            record.userId,
+            record.categoryId,
+            Money.ofWithCurrency(record.amount, record.currency),
+            record.createdAt,
+            record.updatedAt,
+          );
+          const spent = Money.ofWithCurrency(
+            value.spentByCategoryId.get(record.categoryId) ?? NO_SPENDING,
+            record.currency,
+          );
+          return this.builder.buildStatus({ record, budget, spent });
+        }),
+        unconvertedCount: value.unconvertedCount,
+      }),
+      catch: (cause) =>
+        this.createUnexpectedError('予算の消化状況の算出に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedGetBudgetStatusError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedGetBudgetStatusError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<GetBudgetStatusOutput, GetBudgetStatusError>,
+  ): GetBudgetStatusOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedGetBudgetStatusError({
+                message: '予算の消化状況の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListBudgetsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListBudgetsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListBudgetsErrorParams) {
+    super(params.message, 'UnexpectedListBudgetsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListBudgetsError = UnexpectedListBudgetsError;
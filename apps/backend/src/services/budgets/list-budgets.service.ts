@@ -0,0 +1,93 @@
+// Application Layer: List Budgets Use Case
+// ユーザーの予算一覧取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { BudgetBuilder, type BudgetOutput } from './budget.builder';
+import {
+  type ListBudgetsError,
+  UnexpectedListBudgetsError,
+} from './list-budgets.errors';
+
+export type ListBudgetsInput = {
+  userId: number;
+};
+
+export type ListBudgetsOutput = {
+  budgets: BudgetOutput[];
+};
+
+@injectable()
+export class ListBudgetsUseCase {
+  @inject(TOKENS.BudgetRepository)
+  private budgetRepository!: IBudgetRepository;
+
+  private readonly builder = new BudgetBuilder();
+
+  async execute(input: ListBudgetsInput): Promise<ListBudgetsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListBudgetsInput,
+  ): Effect.Effect<ListBudgetsOutput, ListBudgetsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.budgetRepository.findByUserId(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('予算一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => ({
+        budgets: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListBudgetsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListBudgetsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ListBudgetsOutput, ListBudgetsError>,
+  ): ListBudgetsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListBudgetsError({
+                message: '予算一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
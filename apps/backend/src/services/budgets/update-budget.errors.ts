@@ -0,0 +1,38 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { InvalidBudgetAmountError } from './create-budget.errors';
+
+export { InvalidBudgetAmountError } from './create-budget.errors';
+
+export class BudgetNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(`予算が見つかりません: ${id}`, 'BudgetNotFoundError');
+  }
+}
+
+export class NotBudgetOwnerError extends DomainError {
+  constructor() {
+    super('予算の所有者ではありません', 'NotBudgetOwnerError');
+  }
+}
+
+type UnexpectedUpdateBudgetErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUpdateBudgetError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUpdateBudgetErrorParams) {
+    super(params.message, 'UnexpectedUpdateBudgetError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UpdateBudgetError =
+  | BudgetNotFoundError
+  | NotBudgetOwnerError
+  | InvalidBudgetAmountError
+  | UnexpectedUpdateBudgetError;
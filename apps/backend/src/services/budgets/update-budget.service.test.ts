@@ -0,0 +1,123 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  BudgetNotFoundError,
+  InvalidBudgetAmountError,
+  NotBudgetOwnerError,
+  UnexpectedUpdateBudgetError,
+} from './update-budget.errors';
+import { UpdateBudgetUseCase } from './update-budget.service';
+
+describe('UpdateBudgetUseCase（予算更新）', () => {
+  const fixedCreatedAt = new Date('2025-01-01T00:00:00.000Z');
+  const fixedUpdatedAt = new Date('2025-01-02T00:00:00.000Z');
+
+  const makeBudgetRecord = (
+    override?: Partial<BudgetRecord>,
+  ): BudgetRecord => ({
+    id: 1,
+    userId: 100,
+    categoryId: 10,
+    categoryName: '食費',
+    amount: 50000,
+    currency: 'JPY',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const createMockContainer = (mockBudgetRepo: Partial<IBudgetRepository>) => {
+    const container = new Container();
+    container
+      .bind<IBudgetRepository>(TOKENS.BudgetRepository)
+      .toConstantValue(mockBudgetRepo as IBudgetRepository);
+    container.bind(UpdateBudgetUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合は予算額を更新できる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord()),
+        update: vi.fn().mockResolvedValue(makeBudgetRecord({ amount: 60000 })),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(UpdateBudgetUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        amount: 60000,
+      });
+
+      expect(mockBudgetRepo.findById).toHaveBeenCalledWith(1);
+      expect(mockBudgetRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      const [budget] = mockBudgetRepo.update.mock.calls[0];
+      expect(budget.amount.amount).toBe(60000);
+      expect(output.budget).toMatchObject({ id: 1, amount: 60000 });
+    });
+  });
+
+  describe('異常系', () => {
+    it('予算額が0の場合は例外になる', async () => {
+      const mockBudgetRepo = { findById: vi.fn() };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(UpdateBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, amount: 0 }),
+      ).rejects.toBeInstanceOf(InvalidBudgetAmountError);
+      expect(mockBudgetRepo.findById).not.toHaveBeenCalled();
+    });
+
+    it('予算が見つからない場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(UpdateBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999, amount: 60000 }),
+      ).rejects.toBeInstanceOf(BudgetNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord({ userId: 999 })),
+        update: vi.fn(),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(UpdateBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, amount: 60000 }),
+      ).rejects.toBeInstanceOf(NotBudgetOwnerError);
+      expect(mockBudgetRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('更新処理が失敗した場合は例外になる', async () => {
+      const mockBudgetRepo = {
+        findById: vi.fn().mockResolvedValue(makeBudgetRecord()),
+        update: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase =
+        createMockContainer(mockBudgetRepo).get(UpdateBudgetUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, amount: 60000 }),
+      ).rejects.toBeInstanceOf(UnexpectedUpdateBudgetError);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// Application Layer: Update Budget Use Case
+// 予算額の更新を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Budget, type BudgetRecord } from '../../domain/entities/budget.entity';
+import type { IBudgetRepository } from '../../domain/repositories/budget.repository.interface';
+import { Money } from '../../domain/values/money';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { BudgetBuilder, type BudgetOutput } from './budget.builder';
+import {
+  BudgetNotFoundError,
+  InvalidBudgetAmountError,
+  NotBudgetOwnerError,
+  UnexpectedUpdateBudgetError,
+  type UpdateBudgetError,
+} from './update-budget.errors';
+
+export type UpdateBudgetInput = {
+  userId: number;
+  id: number;
+  amount: number;
+};
+
+export type UpdateBudgetOutput = {
+  budget: BudgetOutput;
+};
+
+type AmountValidatedInput = UpdateBudgetInput & { money: Money };
+type BudgetLoadedInput = AmountValidatedInput & { current: BudgetRecord };
+
+@injectable()
+export class UpdateBudgetUseCase {
+  @inject(TOKENS.BudgetRepository)
+  private budgetRepository!: IBudgetRepository;
+
+  private readonly builder = new BudgetBuilder();
+
+  async execute(input: UpdateBudgetInput): Promise<UpdateBudgetOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UpdateBudgetInput,
+  ): Effect.Effect<UpdateBudgetOutput, UpdateBudgetError> {
+    return pipe(
+      this.validateAmount(input),
+      Effect.flatMap((value) => this.fetchCurrentBudget(value)),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.updateBudget(value)),
+    );
+  }
+
+  private validateAmount(
+    input: UpdateBudgetInput,
+  ): Effect.Effect<AmountValidatedInput, UpdateBudgetError> {
+    return pipe(
+      Effect.try({
+        try: () => Money.of(input.amount),
+        catch: () => new InvalidBudgetAmountError(input.amount),
+      }),
+      Effect.filterOrFail(
+        (money) => !money.isZero(),
+        () => new InvalidBudgetAmountError(input.amount),
+      ),
+      Effect.map((money) => ({ ...input, money })),
+    );
+  }
+
+  private fetchCurrentBudget(
+    value: AmountValidatedInput,
+  ): Effect.Effect<BudgetLoadedInput, UpdateBudgetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.budgetRepository.findById(value.id),
+        catch: (cause) =>
+          this.createUnexpectedError('予算情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new BudgetNotFoundError(value.id))
+          : Effect.succeed({ ...value, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: BudgetLoadedInput,
+  ): Effect.Effect<BudgetLoadedInput, UpdateBudgetError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotBudgetOwnerError(),
+      ),
+    );
+  }
+
+  private updateBudget(
+    value: BudgetLoadedInput,
+  ): Effect.Effect<UpdateBudgetOutput, UpdateBudgetError> {
+    return pipe(
+      Effect.try({
+        try: () => {
+          const budget = Budget.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.categoryId,
+            Money.ofWithCurrency(value.current.amount, value.current.currency),
+            value.current.createdAt,
+            value.current.updatedAt,
+          );
+          budget.updateAmount(
+            Money.ofWithCurrency(value.money.amount, value.current.currency),
+          );
+          return budget;
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('予算の更新に失敗しました', cause),
+      }),
+      Effect.flatMap((budget) =>
+        Effect.tryPromise({
+          try: () => this.budgetRepository.update(budget),
+          catch: (cause) =>
+            this.createUnexpectedError('予算の更新に失敗しました', cause),
+        }),
+      ),
+      Effect.map((record) => ({ budget: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUpdateBudgetError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUpdateBudgetError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UpdateBudgetOutput, UpdateBudgetError>,
+  ): UpdateBudgetOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUpdateBudgetError({
+                message: '予算の更新に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Data } from '../../shared/result';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+} from './reorder-categories.errors';
+
+export { CategoriesNotFoundError, InvalidCategoryIdsError };
+
+export class UnexpectedBulkUpdateCategoryVisibilityError extends Data.TaggedError(
+  'UnexpectedBulkUpdateCategoryVisibilityError',
+)<{
+  message: string;
+  cause: Error;
+}> {}
+
+export type BulkUpdateCategoryVisibilityError =
+  | CategoriesNotFoundError
+  | InvalidCategoryIdsError
+  | UnexpectedBulkUpdateCategoryVisibilityError;
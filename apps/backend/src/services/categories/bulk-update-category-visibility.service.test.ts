@@ -0,0 +1,106 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+  UnexpectedBulkUpdateCategoryVisibilityError,
+} from './bulk-update-category-visibility.errors';
+import { BulkUpdateCategoryVisibilityUseCase } from './bulk-update-category-visibility.service';
+
+describe('BulkUpdateCategoryVisibilityUseCase（カテゴリ表示設定の一括更新）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 1,
+    name: '食費',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const setup = (overrides?: Partial<ICategoryRepository>) => {
+    const repo: Partial<ICategoryRepository> = {
+      findByIds: vi.fn(async (_userId: number, ids: number[]) =>
+        ids.map((id) => makeCategoryRecord({ id })),
+      ),
+      updateVisibility: vi.fn(async () => undefined),
+      ...overrides,
+    };
+
+    const container = new Container();
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(repo as ICategoryRepository);
+    container
+      .bind<BulkUpdateCategoryVisibilityUseCase>(
+        BulkUpdateCategoryVisibilityUseCase,
+      )
+      .toSelf();
+
+    const useCase = container.get(BulkUpdateCategoryVisibilityUseCase);
+
+    return { useCase, repo };
+  };
+
+  describe('正常系', () => {
+    it('複数カテゴリをまとめて非表示にできる', async () => {
+      const { useCase, repo } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        categoryIds: [1, 2],
+        isVisible: false,
+      });
+
+      expect(repo.findByIds).toHaveBeenCalledWith(1, [1, 2]);
+      expect(repo.updateVisibility).toHaveBeenCalledWith(1, [1, 2], false);
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('カテゴリIDが空の場合は InvalidCategoryIdsError になる', async () => {
+      const { useCase, repo } = setup();
+
+      await expect(
+        useCase.execute({ userId: 1, categoryIds: [], isVisible: true }),
+      ).rejects.toBeInstanceOf(InvalidCategoryIdsError);
+      expect(repo.updateVisibility).not.toHaveBeenCalled();
+    });
+
+    it('利用できないカテゴリが含まれる場合は CategoriesNotFoundError になる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => []),
+      });
+
+      const error = await useCase
+        .execute({ userId: 1, categoryIds: [5], isVisible: false })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CategoriesNotFoundError);
+      expect(error).toMatchObject({ categoryIds: [5] });
+      expect(repo.updateVisibility).not.toHaveBeenCalled();
+    });
+
+    it('更新に失敗した場合は UnexpectedBulkUpdateCategoryVisibilityError になる', async () => {
+      const { useCase } = setup({
+        updateVisibility: vi.fn(async () => {
+          throw new Error('db down');
+        }),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, categoryIds: [1], isVisible: false }),
+      ).rejects.toBeInstanceOf(UnexpectedBulkUpdateCategoryVisibilityError);
+    });
+  });
+});
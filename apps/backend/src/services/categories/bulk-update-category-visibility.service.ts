@@ -0,0 +1,163 @@
+// Application Layer: Bulk Update Category Visibility Use Case
+// 複数カテゴリの表示/非表示の一括変更を担当
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type BulkUpdateCategoryVisibilityError,
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+  UnexpectedBulkUpdateCategoryVisibilityError,
+} from './bulk-update-category-visibility.errors';
+
+export interface BulkUpdateCategoryVisibilityInput {
+  userId: number;
+  categoryIds: number[];
+  isVisible: boolean;
+}
+
+export type BulkUpdateCategoryVisibilityOutput = {
+  success: true;
+};
+
+@injectable()
+export class BulkUpdateCategoryVisibilityUseCase {
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  async execute(
+    input: BulkUpdateCategoryVisibilityInput,
+  ): Promise<BulkUpdateCategoryVisibilityOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: BulkUpdateCategoryVisibilityInput,
+  ): Effect.Effect<
+    BulkUpdateCategoryVisibilityOutput,
+    BulkUpdateCategoryVisibilityError
+  > {
+    return pipe(
+      this.validateCategoryIds(input),
+      Effect.flatMap((value) => this.ensureCategoriesAvailable(value)),
+      Effect.flatMap((value) => this.updateVisibility(value)),
+      Effect.map(() => ({ success: true as const })),
+    );
+  }
+
+  private validateCategoryIds(
+    input: BulkUpdateCategoryVisibilityInput,
+  ): Effect.Effect<
+    BulkUpdateCategoryVisibilityInput,
+    BulkUpdateCategoryVisibilityError
+  > {
+    return pipe(
+      Effect.succeed(input),
+      Effect.filterOrFail(
+        ({ categoryIds }) => categoryIds.length > 0,
+        () =>
+          new InvalidCategoryIdsError({
+            message: 'カテゴリIDは1件以上指定する必要があります',
+          }),
+      ),
+      Effect.filterOrFail(
+        ({ categoryIds }) => new Set(categoryIds).size === categoryIds.length,
+        () =>
+          new InvalidCategoryIdsError({
+            message: 'カテゴリIDが重複しています',
+          }),
+      ),
+    );
+  }
+
+  private ensureCategoriesAvailable(
+    value: BulkUpdateCategoryVisibilityInput,
+  ): Effect.Effect<
+    BulkUpdateCategoryVisibilityInput,
+    BulkUpdateCategoryVisibilityError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(value.userId, value.categoryIds),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap((categories) => {
+        const foundIds = new Set(categories.map((c) => c.id));
+        const missing = value.categoryIds.filter((id) => !foundIds.has(id));
+
+        return missing.length > 0
+          ? Effect.fail(
+              new CategoriesNotFoundError({
+                message: `カテゴリが見つかりません: ${missing.join(',')}`,
+                categoryIds: missing,
+              }),
+            )
+          : Effect.succeed(value);
+      }),
+    );
+  }
+
+  private updateVisibility(
+    value: BulkUpdateCategoryVisibilityInput,
+  ): Effect.Effect<void, BulkUpdateCategoryVisibilityError> {
+    return Effect.tryPromise({
+      try: () =>
+        this.categoryRepository.updateVisibility(
+          value.userId,
+          value.categoryIds,
+          value.isVisible,
+        ),
+      catch: (cause) =>
+        this.createUnexpectedError(
+          'カテゴリの表示設定の更新に失敗しました',
+          cause,
+        ),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause: unknown,
+  ): UnexpectedBulkUpdateCategoryVisibilityError {
+    return new UnexpectedBulkUpdateCategoryVisibilityError({
+      message,
+      cause: this.normalizeError(cause),
+    });
+  }
+
+  private unwrapExit<A>(
+    exit: Exit.Exit<A, BulkUpdateCategoryVisibilityError>,
+  ): A {
+    return Exit.match(exit, {
+      onSuccess: (a) => a,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedBulkUpdateCategoryVisibilityError({
+                message: 'カテゴリの表示設定の更新に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (e) => {
+              throw Cause.originalError(e);
+            },
+          }),
+        ),
+    });
+  }
+
+  private normalizeError<T>(cause: T): Error {
+    return cause instanceof Error ? cause : new Error(String(cause));
+  }
+}
@@ -31,9 +31,17 @@ export class UnexpectedCreateCategoryError extends Data.TaggedError(
   cause: Error;
 }> {}
 
+export class InvalidCategoryParentError extends Data.TaggedError(
+  'InvalidCategoryParentError',
+)<{
+  message: string;
+  parentId: number;
+}> {}
+
 export type CreateCategoryError =
   | InvalidTypeIdError
   | InvalidCategoryNameError
   | DuplicateCategoryError
   | TransactionTypeNotFoundError
+  | InvalidCategoryParentError
   | UnexpectedCreateCategoryError;
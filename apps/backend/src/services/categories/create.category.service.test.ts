@@ -11,6 +11,7 @@ import { CreateCategoryUseCase } from './create.category.service';
 import {
   DuplicateCategoryError,
   InvalidCategoryNameError,
+  InvalidCategoryParentError,
   InvalidTypeIdError,
 } from './create-category.errors';
 
@@ -22,6 +23,7 @@ describe('CreateCategoryUseCase（カテゴリ作成）', () => {
     name: '光熱費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
     ...override,
@@ -33,9 +35,12 @@ describe('CreateCategoryUseCase（カテゴリ作成）', () => {
         makeRecord(),
       ),
       findById: vi.fn(async (_id: number) => null),
-      findByName: vi.fn(async (_name: string) => null),
+      findByName: vi.fn(async (_userId: number, _name: string) => null),
       findByUserId: vi.fn(async (_userId: number) => []),
       findByIds: vi.fn(async (_userId: number, _ids: number[]) => []),
+      findDisplayNamesByIds: vi.fn(
+        async (_userId: number, _ids: number[]) => [],
+      ),
       findAllWithPagination: vi.fn(async () => ({
         items: [],
         total: 0,
@@ -45,6 +50,13 @@ describe('CreateCategoryUseCase（カテゴリ作成）', () => {
       })),
       findByIdWithUser: vi.fn(async (_id: number, _userId: number) => null),
       update: vi.fn(),
+      delete: vi.fn(),
+      merge: vi.fn(),
+      findTypeCodeByTypeId: vi.fn(async (_typeId: number) => null),
+      findChildren: vi.fn(async () => []),
+      hasChildren: vi.fn(async (_categoryId: number) => false),
+      reorder: vi.fn(),
+      updateVisibility: vi.fn(),
       ...overrides,
     };
 
@@ -73,13 +85,38 @@ describe('CreateCategoryUseCase（カテゴリ作成）', () => {
         userId: 1,
       });
 
-      expect(repo.findByName).toHaveBeenCalledWith('サブスク費');
+      expect(repo.findByName).toHaveBeenCalledWith(1, 'サブスク費');
       expect(repo.create).toHaveBeenCalledWith(
         { name: 'サブスク費', typeId: 2 },
         1,
       );
       expect(result.name).toBe('サブスク費');
     });
+
+    it('親カテゴリを指定してサブカテゴリを作成できる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [makeRecord({ id: 5, name: '食費' })]),
+        findTypeCodeByTypeId: vi.fn(async () => 'EXPENSE' as const),
+        create: vi.fn(async (data: CreateCategoryData, _userId: number) =>
+          makeRecord({ name: data.name, parentId: data.parentId ?? null }),
+        ),
+      });
+
+      const result = await useCase.execute({
+        name: '外食',
+        typeId: 2,
+        userId: 1,
+        parentId: 5,
+      });
+
+      expect(repo.findByIds).toHaveBeenCalledWith(1, [5]);
+      expect(repo.findTypeCodeByTypeId).toHaveBeenCalledWith(2);
+      expect(repo.create).toHaveBeenCalledWith(
+        { name: '外食', typeId: 2, parentId: 5 },
+        1,
+      );
+      expect(result.parentId).toBe(5);
+    });
   });
 
   describe('異常系', () => {
@@ -132,5 +169,47 @@ describe('CreateCategoryUseCase（カテゴリ作成）', () => {
         useCase.execute({ name: '   ', typeId: 2, userId: 1 }),
       ).rejects.toThrow('カテゴリ名は必須です');
     });
+
+    it('利用できない親カテゴリの場合は例外になる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => []),
+        findTypeCodeByTypeId: vi.fn(async () => 'EXPENSE' as const),
+      });
+
+      await expect(
+        useCase.execute({ name: '外食', typeId: 2, userId: 1, parentId: 99 }),
+      ).rejects.toBeInstanceOf(InvalidCategoryParentError);
+      expect(repo.create).not.toHaveBeenCalled();
+    });
+
+    it('サブカテゴリは親カテゴリに指定できない（階層は2段まで）', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeRecord({ id: 6, name: '外食', parentId: 5 }),
+        ]),
+        findTypeCodeByTypeId: vi.fn(async () => 'EXPENSE' as const),
+      });
+
+      await expect(
+        useCase.execute({ name: 'ランチ', typeId: 2, userId: 1, parentId: 6 }),
+      ).rejects.toThrow('カテゴリの階層は2段までです');
+      expect(repo.create).not.toHaveBeenCalled();
+    });
+
+    it('親カテゴリと取引種別が異なる場合は例外になる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeRecord({ id: 5, name: '給与', type: 'INCOME' }),
+        ]),
+        findTypeCodeByTypeId: vi.fn(async () => 'EXPENSE' as const),
+      });
+
+      await expect(
+        useCase.execute({ name: '外食', typeId: 2, userId: 1, parentId: 5 }),
+      ).rejects.toThrow(
+        '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+      );
+      expect(repo.create).not.toHaveBeenCalled();
+    });
   });
 });
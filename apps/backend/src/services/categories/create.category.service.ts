@@ -17,6 +17,7 @@ import {
   type CreateCategoryError,
   DuplicateCategoryError,
   InvalidCategoryNameError,
+  InvalidCategoryParentError,
   InvalidTypeIdError,
   TransactionTypeNotFoundError,
   UnexpectedCreateCategoryError,
@@ -26,12 +27,14 @@ export interface CreateCategoryInput {
   name: string;
   typeId: number;
   userId: number;
+  parentId?: number;
 }
 
 type NormalizedInput = {
   name: string;
   typeId: number;
   userId: number;
+  parentId?: number;
 };
 
 @injectable()
@@ -52,6 +55,7 @@ export class CreateCategoryUseCase {
       this.normalizeInput(input),
       Effect.flatMap((value) => this.validateTypeId(value)),
       Effect.flatMap((value) => this.validateDuplicatedName(value)),
+      Effect.flatMap((value) => this.validateParent(value)),
       Effect.flatMap((value) => this.createCategory(value)),
     );
   }
@@ -65,6 +69,7 @@ export class CreateCategoryUseCase {
         name: name.value,
         typeId: input.typeId,
         userId: input.userId,
+        parentId: input.parentId,
       })),
       Either.mapLeft(
         (cause) => new InvalidCategoryNameError({ message: cause.message }),
@@ -95,7 +100,9 @@ export class CreateCategoryUseCase {
     value: NormalizedInput,
   ): Effect.Effect<NormalizedInput, CreateCategoryError> {
     return pipe(
-      Effect.promise(() => this.categoryRepository.findByName(value.name)).pipe(
+      Effect.promise(() =>
+        this.categoryRepository.findByName(value.userId, value.name),
+      ).pipe(
         Effect.mapError(
           (cause) =>
             new UnexpectedCreateCategoryError({
@@ -120,12 +127,104 @@ export class CreateCategoryUseCase {
     );
   }
 
+  private validateParent(
+    value: NormalizedInput,
+  ): Effect.Effect<NormalizedInput, CreateCategoryError> {
+    const { parentId } = value;
+    if (parentId === undefined) {
+      return Effect.succeed(value);
+    }
+
+    return pipe(
+      Effect.promise(() =>
+        Promise.all([
+          this.categoryRepository.findByIds(value.userId, [parentId]),
+          this.categoryRepository.findTypeCodeByTypeId(value.typeId),
+        ]),
+      ).pipe(
+        Effect.mapError(
+          (cause) =>
+            new UnexpectedCreateCategoryError({
+              message: 'カテゴリの作成に失敗しました',
+              cause: this.normalizeError(cause),
+            }),
+        ),
+      ),
+      Effect.flatMap(
+        ([[parent], typeCode]): Effect.Effect<
+          NormalizedInput,
+          CreateCategoryError
+        > => {
+          if (parent === undefined) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message: `親カテゴリ（ID: ${parentId}）が見つかりません`,
+                parentId,
+              }),
+            );
+          }
+
+          if (typeCode === null) {
+            return Effect.fail(
+              new TransactionTypeNotFoundError({
+                message: `取引種別（ID: ${value.typeId}）が見つかりません`,
+                typeId: value.typeId,
+              }),
+            );
+          }
+
+          // 階層は2段まで（ドメインルール）
+          if (parent.parentId !== null) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message: 'カテゴリの階層は2段までです',
+                parentId,
+              }),
+            );
+          }
+
+          // 親子で取引種別を混在させない（ドメインルール）
+          if (parent.type !== typeCode) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message:
+                  '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+                parentId,
+              }),
+            );
+          }
+
+          return pipe(
+            Either.all([
+              CategoryName.create(value.name),
+              CategoryName.create(parent.name),
+            ]),
+            Either.flatMap(([name, parentName]) =>
+              name.validateAsChildOf(parentName),
+            ),
+            Either.match({
+              onLeft: (cause) =>
+                Effect.fail(
+                  new InvalidCategoryParentError({
+                    message: cause.message,
+                    parentId,
+                  }),
+                ),
+              onRight: () => Effect.succeed(value),
+            }),
+          );
+        },
+      ),
+    );
+  }
+
   private createCategory(
     value: NormalizedInput,
   ): Effect.Effect<CategoryRecord, CreateCategoryError> {
     const createData: CreateCategoryData = {
       name: value.name,
       typeId: value.typeId,
+      parentId: value.parentId,
     };
 
     return pipe(
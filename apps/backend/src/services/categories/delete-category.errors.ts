@@ -0,0 +1,41 @@
+import { Data } from '../../shared/result';
+
+export class CategoryNotFoundError extends Data.TaggedError(
+  'CategoryNotFoundError',
+)<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class DefaultCategoryDeleteForbiddenError extends Data.TaggedError(
+  'DefaultCategoryDeleteForbiddenError',
+)<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class CategoryInUseError extends Data.TaggedError('CategoryInUseError')<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class InvalidReassignTargetError extends Data.TaggedError(
+  'InvalidReassignTargetError',
+)<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class UnexpectedDeleteCategoryError extends Data.TaggedError(
+  'UnexpectedDeleteCategoryError',
+)<{
+  message: string;
+  cause: Error;
+}> {}
+
+export type DeleteCategoryError =
+  | CategoryNotFoundError
+  | DefaultCategoryDeleteForbiddenError
+  | CategoryInUseError
+  | InvalidReassignTargetError
+  | UnexpectedDeleteCategoryError;
@@ -0,0 +1,249 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type {
+  CategoryRecord,
+  UserCategoryRecord,
+} from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryInUseError,
+  CategoryNotFoundError,
+  DefaultCategoryDeleteForbiddenError,
+  InvalidReassignTargetError,
+  UnexpectedDeleteCategoryError,
+} from './delete-category.errors';
+import { DeleteCategoryUseCase } from './delete-category.service';
+
+describe('DeleteCategoryUseCase（カテゴリ削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUserCategoryRecord = (
+    override?: Partial<UserCategoryRecord>,
+  ): UserCategoryRecord => ({
+    id: 10,
+    name: 'サブスク費',
+    type: 'EXPENSE',
+    isDefault: false,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ownerId: 1,
+    isVisible: true,
+    customName: null,
+    displayOrder: 0,
+    ...override,
+  });
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 1,
+    name: '娯楽',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const setup = (params?: {
+    categoryRepo?: Partial<ICategoryRepository>;
+    inUse?: boolean;
+    inUseByRecurringTransactions?: boolean;
+  }) => {
+    const categoryRepo: Partial<ICategoryRepository> = {
+      findByIdWithUser: vi.fn(async () => makeUserCategoryRecord()),
+      findByIds: vi.fn(async () => [makeCategoryRecord()]),
+      delete: vi.fn(async () => undefined),
+      merge: vi.fn(async () => undefined),
+      ...params?.categoryRepo,
+    };
+    const transactionRepo: Partial<ITransactionRepository> = {
+      existsByCategoryId: vi.fn(async () => params?.inUse ?? false),
+    };
+    const recurringTransactionRepo: Partial<IRecurringTransactionRepository> = {
+      existsByCategoryId: vi.fn(
+        async () => params?.inUseByRecurringTransactions ?? false,
+      ),
+    };
+
+    const container = new Container();
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(categoryRepo as ICategoryRepository);
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(transactionRepo as ITransactionRepository);
+    container
+      .bind<IRecurringTransactionRepository>(
+        TOKENS.RecurringTransactionRepository,
+      )
+      .toConstantValue(
+        recurringTransactionRepo as IRecurringTransactionRepository,
+      );
+    container.bind<DeleteCategoryUseCase>(DeleteCategoryUseCase).toSelf();
+
+    const useCase = container.get(DeleteCategoryUseCase);
+
+    return { useCase, categoryRepo, transactionRepo, recurringTransactionRepo };
+  };
+
+  describe('正常系', () => {
+    it('取引で使われていないカテゴリを削除できる', async () => {
+      const { useCase, categoryRepo, transactionRepo } = setup();
+
+      const result = await useCase.execute({ categoryId: 10, userId: 1 });
+
+      expect(categoryRepo.findByIdWithUser).toHaveBeenCalledWith(10, 1);
+      expect(transactionRepo.existsByCategoryId).toHaveBeenCalledWith(10);
+      expect(categoryRepo.delete).toHaveBeenCalledWith(10);
+      expect(categoryRepo.merge).not.toHaveBeenCalled();
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('付け替え先を指定した場合は取引を付け替えてから削除する', async () => {
+      const { useCase, categoryRepo, transactionRepo } = setup({
+        inUse: true,
+      });
+
+      const result = await useCase.execute({
+        categoryId: 10,
+        userId: 1,
+        reassignToCategoryId: 1,
+      });
+
+      expect(categoryRepo.findByIds).toHaveBeenCalledWith(1, [1]);
+      expect(categoryRepo.merge).toHaveBeenCalledWith(10, 1);
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+      expect(transactionRepo.existsByCategoryId).not.toHaveBeenCalled();
+      expect(result).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しないカテゴリの場合は CategoryNotFoundError になる', async () => {
+      const { useCase, categoryRepo } = setup({
+        categoryRepo: { findByIdWithUser: vi.fn(async () => null) },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 999, userId: 1 }),
+      ).rejects.toBeInstanceOf(CategoryNotFoundError);
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('他のユーザーが作成したカテゴリは紐づいていても CategoryNotFoundError になる', async () => {
+      const { useCase, categoryRepo } = setup({
+        categoryRepo: {
+          findByIdWithUser: vi.fn(async () =>
+            makeUserCategoryRecord({ ownerId: 2 }),
+          ),
+        },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1 }),
+      ).rejects.toBeInstanceOf(CategoryNotFoundError);
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('デフォルトカテゴリは削除できない', async () => {
+      const { useCase, categoryRepo } = setup({
+        categoryRepo: {
+          findByIdWithUser: vi.fn(async () =>
+            makeUserCategoryRecord({ isDefault: true }),
+          ),
+        },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1 }),
+      ).rejects.toBeInstanceOf(DefaultCategoryDeleteForbiddenError);
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('取引で使われている場合、付け替え先が無ければ CategoryInUseError になる', async () => {
+      const { useCase, categoryRepo } = setup({ inUse: true });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1 }),
+      ).rejects.toBeInstanceOf(CategoryInUseError);
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('繰り返し取引のルールで使われている場合、付け替え先が無ければ CategoryInUseError になる', async () => {
+      const { useCase, categoryRepo, recurringTransactionRepo } = setup({
+        inUseByRecurringTransactions: true,
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1 }),
+      ).rejects.toBeInstanceOf(CategoryInUseError);
+      expect(recurringTransactionRepo.existsByCategoryId).toHaveBeenCalledWith(
+        10,
+      );
+      expect(categoryRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('付け替え先に削除するカテゴリ自身は指定できない', async () => {
+      const { useCase, categoryRepo } = setup();
+
+      await expect(
+        useCase.execute({
+          categoryId: 10,
+          userId: 1,
+          reassignToCategoryId: 10,
+        }),
+      ).rejects.toBeInstanceOf(InvalidReassignTargetError);
+      expect(categoryRepo.merge).not.toHaveBeenCalled();
+    });
+
+    it('利用できない付け替え先の場合は CategoryNotFoundError になる', async () => {
+      const { useCase, categoryRepo } = setup({
+        categoryRepo: { findByIds: vi.fn(async () => []) },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1, reassignToCategoryId: 2 }),
+      ).rejects.toMatchObject({
+        _tag: 'CategoryNotFoundError',
+        categoryId: 2,
+      });
+      expect(categoryRepo.merge).not.toHaveBeenCalled();
+    });
+
+    it('取引種別が異なる付け替え先は指定できない', async () => {
+      const { useCase, categoryRepo } = setup({
+        categoryRepo: {
+          findByIds: vi.fn(async () => [
+            makeCategoryRecord({ type: 'INCOME' }),
+          ]),
+        },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1, reassignToCategoryId: 1 }),
+      ).rejects.toBeInstanceOf(InvalidReassignTargetError);
+      expect(categoryRepo.merge).not.toHaveBeenCalled();
+    });
+
+    it('リポジトリの想定外の例外は UnexpectedDeleteCategoryError になる', async () => {
+      const { useCase } = setup({
+        categoryRepo: {
+          merge: vi.fn(async () => {
+            throw new Error('db down');
+          }),
+        },
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 10, userId: 1, reassignToCategoryId: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedDeleteCategoryError);
+    });
+  });
+});
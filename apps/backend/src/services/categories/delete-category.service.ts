@@ -0,0 +1,264 @@
+// Application Layer: Delete Category Use Case
+// ユーザーが作成したカテゴリの削除（使用中の場合は付け替え先への統合）を担当
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+import type { UserCategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryInUseError,
+  CategoryNotFoundError,
+  DefaultCategoryDeleteForbiddenError,
+  type DeleteCategoryError,
+  InvalidReassignTargetError,
+  UnexpectedDeleteCategoryError,
+} from './delete-category.errors';
+
+export interface DeleteCategoryInput {
+  categoryId: number;
+  userId: number;
+  reassignToCategoryId?: number;
+}
+
+export type DeleteCategoryOutput = {
+  deleted: true;
+};
+
+type ValidatedInput = DeleteCategoryInput & {
+  category: UserCategoryRecord;
+};
+
+@injectable()
+export class DeleteCategoryUseCase {
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.RecurringTransactionRepository)
+  private recurringTransactionRepository!: IRecurringTransactionRepository;
+
+  async execute(input: DeleteCategoryInput): Promise<DeleteCategoryOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteCategoryInput,
+  ): Effect.Effect<DeleteCategoryOutput, DeleteCategoryError> {
+    return pipe(
+      this.validateCategoryExistsAndNotDefault(input),
+      Effect.flatMap((value) =>
+        value.reassignToCategoryId === undefined
+          ? this.deleteCategory(value)
+          : this.reassignAndDeleteCategory(value, value.reassignToCategoryId),
+      ),
+      Effect.map(() => ({ deleted: true as const })),
+    );
+  }
+
+  private validateCategoryExistsAndNotDefault(
+    input: DeleteCategoryInput,
+  ): Effect.Effect<ValidatedInput, DeleteCategoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIdWithUser(
+            input.categoryId,
+            input.userId,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap(
+        (category): Effect.Effect<ValidatedInput, DeleteCategoryError> => {
+          // NOTE: user_categories の紐づきは作成者以外にも存在しうるため、作成者であることも確認する
+          //       （共通カテゴリは作成者を持たないため、下のデフォルトカテゴリの判定で扱う）
+          if (
+            category === null ||
+            (!category.isDefault && category.ownerId !== input.userId)
+          ) {
+            return Effect.fail(
+              new CategoryNotFoundError({
+                message: `カテゴリ（ID: ${input.categoryId}）が見つかりません`,
+                categoryId: input.categoryId,
+              }),
+            );
+          }
+
+          // デフォルトカテゴリは全ユーザー共通のため削除を禁止（ドメインルール）
+          if (category.isDefault) {
+            return Effect.fail(
+              new DefaultCategoryDeleteForbiddenError({
+                message: 'デフォルトカテゴリは削除できません',
+                categoryId: input.categoryId,
+              }),
+            );
+          }
+
+          return Effect.succeed({ ...input, category });
+        },
+      ),
+    );
+  }
+
+  private deleteCategory(
+    value: ValidatedInput,
+  ): Effect.Effect<void, DeleteCategoryError> {
+    return pipe(
+      this.validateNotInUse(value.categoryId),
+      Effect.flatMap(() =>
+        Effect.tryPromise({
+          try: () => this.categoryRepository.delete(value.categoryId),
+          catch: (cause) =>
+            this.createUnexpectedError('カテゴリの削除に失敗しました', cause),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * 取引（ゴミ箱の取引を含む）や繰り返し取引のルールで使われていないことを検証する
+   */
+  private validateNotInUse(
+    categoryId: number,
+  ): Effect.Effect<void, DeleteCategoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            this.transactionRepository.existsByCategoryId(categoryId),
+            this.recurringTransactionRepository.existsByCategoryId(categoryId),
+          ]),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'カテゴリの使用状況の確認に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        ([usedByTransactions, usedByRecurringTransactions]) =>
+          !usedByTransactions && !usedByRecurringTransactions,
+        () => this.createInUseError(categoryId),
+      ),
+      Effect.asVoid,
+    );
+  }
+
+  private reassignAndDeleteCategory(
+    value: ValidatedInput,
+    reassignToCategoryId: number,
+  ): Effect.Effect<void, DeleteCategoryError> {
+    return pipe(
+      this.validateReassignTarget(value, reassignToCategoryId),
+      Effect.flatMap(() =>
+        Effect.tryPromise({
+          try: () =>
+            this.categoryRepository.merge(
+              value.categoryId,
+              reassignToCategoryId,
+            ),
+          catch: (cause) =>
+            this.createUnexpectedError('カテゴリの削除に失敗しました', cause),
+        }),
+      ),
+    );
+  }
+
+  private validateReassignTarget(
+    value: ValidatedInput,
+    reassignToCategoryId: number,
+  ): Effect.Effect<void, DeleteCategoryError> {
+    if (value.categoryId === reassignToCategoryId) {
+      return Effect.fail(
+        new InvalidReassignTargetError({
+          message: '付け替え先に削除するカテゴリ自身は指定できません',
+          categoryId: reassignToCategoryId,
+        }),
+      );
+    }
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(value.userId, [
+            reassignToCategoryId,
+          ]),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap(([target]): Effect.Effect<void, DeleteCategoryError> => {
+        if (target === undefined) {
+          return Effect.fail(
+            new CategoryNotFoundError({
+              message: `カテゴリ（ID: ${reassignToCategoryId}）が見つかりません`,
+              categoryId: reassignToCategoryId,
+            }),
+          );
+        }
+
+        if (target.type !== value.category.type) {
+          return Effect.fail(
+            new InvalidReassignTargetError({
+              message: '付け替え先は同じ取引種別のカテゴリである必要があります',
+              categoryId: reassignToCategoryId,
+            }),
+          );
+        }
+
+        return Effect.void;
+      }),
+    );
+  }
+
+  private createInUseError(categoryId: number): CategoryInUseError {
+    return new CategoryInUseError({
+      message:
+        'カテゴリは取引で使用されているため削除できません。付け替え先のカテゴリを指定してください',
+      categoryId,
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause: unknown,
+  ): UnexpectedDeleteCategoryError {
+    return new UnexpectedDeleteCategoryError({
+      message,
+      cause: this.normalizeError(cause),
+    });
+  }
+
+  private unwrapExit<A>(exit: Exit.Exit<A, DeleteCategoryError>): A {
+    return Exit.match(exit, {
+      onSuccess: (a) => a,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteCategoryError({
+                message: 'カテゴリの削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (e) => {
+              throw Cause.originalError(e);
+            },
+          }),
+        ),
+    });
+  }
+
+  private normalizeError<T>(cause: T): Error {
+    return cause instanceof Error ? cause : new Error(String(cause));
+  }
+}
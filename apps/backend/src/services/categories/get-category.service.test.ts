@@ -20,8 +20,10 @@ describe('GetCategoryUseCase（カテゴリ単体取得）', () => {
     name: '食費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
+    ownerId: 1,
     isVisible: true,
     customName: null,
     displayOrder: 0,
@@ -32,9 +34,12 @@ describe('GetCategoryUseCase（カテゴリ単体取得）', () => {
     const repo: ICategoryRepository = {
       create: vi.fn(),
       findById: vi.fn(async (_id: number) => null),
-      findByName: vi.fn(async (_name: string) => null),
+      findByName: vi.fn(async (_userId: number, _name: string) => null),
       findByUserId: vi.fn(async (_userId: number) => []),
       findByIds: vi.fn(async (_userId: number, _ids: number[]) => []),
+      findDisplayNamesByIds: vi.fn(
+        async (_userId: number, _ids: number[]) => [],
+      ),
       findAllWithPagination: vi.fn(async () => ({
         items: [],
         total: 0,
@@ -44,6 +49,13 @@ describe('GetCategoryUseCase（カテゴリ単体取得）', () => {
       })),
       findByIdWithUser: vi.fn(async (_id: number, _userId: number) => null),
       update: vi.fn(),
+      delete: vi.fn(),
+      merge: vi.fn(),
+      findTypeCodeByTypeId: vi.fn(async (_typeId: number) => null),
+      findChildren: vi.fn(async () => []),
+      hasChildren: vi.fn(async (_categoryId: number) => false),
+      reorder: vi.fn(),
+      updateVisibility: vi.fn(),
       ...overrides,
     };
 
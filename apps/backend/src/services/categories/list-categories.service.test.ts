@@ -24,8 +24,10 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
     name: '食費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
+    ownerId: 1,
     isVisible: true,
     customName: null,
     displayOrder: 0,
@@ -48,14 +50,24 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
     const repo: ICategoryRepository = {
       create: vi.fn(),
       findById: vi.fn(async (_id: number) => null),
-      findByName: vi.fn(async (_name: string) => null),
+      findByName: vi.fn(async (_userId: number, _name: string) => null),
       findByUserId: vi.fn(async (_userId: number) => []),
       findByIds: vi.fn(async (_userId: number, _ids: number[]) => []),
+      findDisplayNamesByIds: vi.fn(
+        async (_userId: number, _ids: number[]) => [],
+      ),
       findAllWithPagination: vi.fn(async (_options: FindAllOptions) =>
         makePaginatedResult(),
       ),
       findByIdWithUser: vi.fn(async (_id: number, _userId: number) => null),
       update: vi.fn(),
+      delete: vi.fn(),
+      merge: vi.fn(),
+      findTypeCodeByTypeId: vi.fn(async (_typeId: number) => null),
+      findChildren: vi.fn(async () => []),
+      hasChildren: vi.fn(async (_categoryId: number) => false),
+      reorder: vi.fn(),
+      updateVisibility: vi.fn(),
       ...overrides,
     };
 
@@ -91,6 +103,7 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
         sortBy: 'displayOrder',
         sortOrder: 'asc',
         includeHidden: false,
+        rootsOnly: false,
       });
 
       expect(result.items).toHaveLength(2);
@@ -125,6 +138,7 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
         sortBy: 'displayOrder',
         sortOrder: 'asc',
         includeHidden: false,
+        rootsOnly: false,
       });
 
       expect(result.pageInfo.page).toBe(2);
@@ -155,6 +169,7 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
         sortBy: 'name',
         sortOrder: 'desc',
         includeHidden: false,
+        rootsOnly: false,
       });
     });
 
@@ -179,6 +194,7 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
         sortOrder: 'asc',
         type: 'INCOME',
         includeHidden: false,
+        rootsOnly: false,
       });
     });
 
@@ -203,7 +219,47 @@ describe('ListCategoriesUseCase（カテゴリ一覧取得）', () => {
         sortBy: 'displayOrder',
         sortOrder: 'asc',
         includeHidden: true,
+        rootsOnly: false,
+      });
+    });
+
+    it('ツリー表示の場合は最上位カテゴリにサブカテゴリを付けて返す', async () => {
+      const roots = [
+        makeUserCategoryRecord({ id: 1, name: '食費' }),
+        makeUserCategoryRecord({ id: 2, name: '交通費' }),
+      ];
+      const children = [
+        makeUserCategoryRecord({ id: 10, name: '外食', parentId: 1 }),
+        makeUserCategoryRecord({ id: 11, name: '自炊', parentId: 1 }),
+      ];
+      const { useCase, repo } = setup({
+        findAllWithPagination: vi.fn(async () => makePaginatedResult(roots)),
+        findChildren: vi.fn(async () => children),
+      });
+
+      const result = await useCase.execute({ userId: 1, tree: true });
+
+      expect(repo.findAllWithPagination).toHaveBeenCalledWith(
+        expect.objectContaining({ rootsOnly: true }),
+      );
+      expect(repo.findChildren).toHaveBeenCalledWith([1, 2], {
+        userId: 1,
+        sortBy: 'displayOrder',
+        sortOrder: 'asc',
+        includeHidden: false,
       });
+      expect(
+        result.items.map((item) => item.children?.map((c) => c.id)),
+      ).toEqual([[10, 11], []]);
+      expect(result.total).toBe(2);
+    });
+
+    it('ツリー表示でない場合はサブカテゴリを取得しない', async () => {
+      const { useCase, repo } = setup();
+
+      await useCase.execute({ userId: 1 });
+
+      expect(repo.findChildren).not.toHaveBeenCalled();
     });
   });
 
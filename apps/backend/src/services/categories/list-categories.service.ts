@@ -5,7 +5,7 @@ import * as Cause from 'effect/Cause';
 import * as Exit from 'effect/Exit';
 import * as Option from 'effect/Option';
 import { inject, injectable } from 'inversify';
-import type { UserCategoryRecord } from '../../domain/entities/category.entity';
+import type { UserCategoryTreeRecord } from '../../domain/entities/category.entity';
 import type {
   FindAllOptions,
   ICategoryRepository,
@@ -25,12 +25,13 @@ export type ListCategoriesInput = {
   perPage?: number;
   sortBy?: 'name' | 'createdAt' | 'displayOrder';
   sortOrder?: 'asc' | 'desc';
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   includeHidden?: boolean;
+  tree?: boolean;
 };
 
 export type ListCategoriesOutput = {
-  items: UserCategoryRecord[];
+  items: UserCategoryTreeRecord[];
   pageInfo: {
     page: number;
     perPage: number;
@@ -45,8 +46,9 @@ type NormalizedInput = {
   perPage: number;
   sortBy: 'name' | 'createdAt' | 'displayOrder';
   sortOrder: 'asc' | 'desc';
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   includeHidden: boolean;
+  tree: boolean;
 };
 
 @injectable()
@@ -77,6 +79,7 @@ export class ListCategoriesUseCase {
     const sortBy = input.sortBy ?? 'displayOrder';
     const sortOrder = input.sortOrder ?? 'asc';
     const includeHidden = input.includeHidden ?? false;
+    const tree = input.tree ?? false;
 
     return pipe(
       Effect.succeed({
@@ -87,6 +90,7 @@ export class ListCategoriesUseCase {
         sortOrder,
         type: input.type,
         includeHidden,
+        tree,
       }),
       Effect.filterOrFail(
         ({ page, perPage }) =>
@@ -126,6 +130,8 @@ export class ListCategoriesUseCase {
       sortOrder: normalized.sortOrder,
       type: normalized.type,
       includeHidden: normalized.includeHidden,
+      // ツリー表示の場合はページネーションを最上位カテゴリ単位で行う
+      rootsOnly: normalized.tree,
     };
 
     return pipe(
@@ -140,6 +146,12 @@ export class ListCategoriesUseCase {
             }),
         ),
       ),
+      Effect.flatMap((result) =>
+        pipe(
+          this.attachChildren(normalized, result.items),
+          Effect.map((items) => ({ ...result, items })),
+        ),
+      ),
       Effect.map((result) => ({
         items: result.items,
         pageInfo: {
@@ -152,6 +164,44 @@ export class ListCategoriesUseCase {
     );
   }
 
+  private attachChildren(
+    normalized: NormalizedInput,
+    roots: UserCategoryTreeRecord[],
+  ): Effect.Effect<UserCategoryTreeRecord[], ListCategoriesError> {
+    if (!normalized.tree) {
+      return Effect.succeed(roots);
+    }
+
+    return pipe(
+      Effect.promise(() =>
+        this.categoryRepository.findChildren(
+          roots.map((root) => root.id),
+          {
+            userId: normalized.userId,
+            sortBy: normalized.sortBy,
+            sortOrder: normalized.sortOrder,
+            type: normalized.type,
+            includeHidden: normalized.includeHidden,
+          },
+        ),
+      ).pipe(
+        Effect.mapError(
+          (cause) =>
+            new UnexpectedListCategoriesError({
+              message: 'カテゴリ一覧の取得に失敗しました',
+              cause: this.normalizeError(cause),
+            }),
+        ),
+      ),
+      Effect.map((children) =>
+        roots.map((root) => ({
+          ...root,
+          children: children.filter((child) => child.parentId === root.id),
+        })),
+      ),
+    );
+  }
+
   private unwrapExit<A>(exit: Exit.Exit<A, ListCategoriesError>): A {
     return Exit.match(exit, {
       onSuccess: (a) => a,
@@ -0,0 +1,31 @@
+import { Data } from '../../shared/result';
+import { CategoryNotFoundError } from './delete-category.errors';
+
+export { CategoryNotFoundError };
+
+export class DefaultCategoryMergeForbiddenError extends Data.TaggedError(
+  'DefaultCategoryMergeForbiddenError',
+)<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class InvalidMergeTargetError extends Data.TaggedError(
+  'InvalidMergeTargetError',
+)<{
+  message: string;
+  categoryId: number;
+}> {}
+
+export class UnexpectedMergeCategoryError extends Data.TaggedError(
+  'UnexpectedMergeCategoryError',
+)<{
+  message: string;
+  cause: Error;
+}> {}
+
+export type MergeCategoryError =
+  | CategoryNotFoundError
+  | DefaultCategoryMergeForbiddenError
+  | InvalidMergeTargetError
+  | UnexpectedMergeCategoryError;
@@ -0,0 +1,202 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type {
+  CategoryRecord,
+  UserCategoryRecord,
+} from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryNotFoundError,
+  DefaultCategoryMergeForbiddenError,
+  InvalidMergeTargetError,
+  UnexpectedMergeCategoryError,
+} from './merge-category.errors';
+import { MergeCategoryUseCase } from './merge-category.service';
+
+describe('MergeCategoryUseCase（カテゴリ統合）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUserCategoryRecord = (
+    override?: Partial<UserCategoryRecord>,
+  ): UserCategoryRecord => ({
+    id: 10,
+    name: 'サブスク費',
+    type: 'EXPENSE',
+    isDefault: false,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ownerId: 1,
+    isVisible: true,
+    customName: null,
+    displayOrder: 0,
+    ...override,
+  });
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 1,
+    name: '娯楽',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const setup = (overrides?: Partial<ICategoryRepository>) => {
+    const repo: Partial<ICategoryRepository> = {
+      findByIdWithUser: vi.fn(async () => makeUserCategoryRecord()),
+      findByIds: vi.fn(async () => [makeCategoryRecord()]),
+      merge: vi.fn(async () => undefined),
+      ...overrides,
+    };
+
+    const container = new Container();
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(repo as ICategoryRepository);
+    container.bind<MergeCategoryUseCase>(MergeCategoryUseCase).toSelf();
+
+    const useCase = container.get(MergeCategoryUseCase);
+
+    return { useCase, repo };
+  };
+
+  describe('正常系', () => {
+    it('統合元の取引を統合先に付け替える', async () => {
+      const { useCase, repo } = setup();
+
+      const result = await useCase.execute({
+        sourceCategoryId: 10,
+        targetCategoryId: 1,
+        userId: 1,
+      });
+
+      expect(repo.findByIdWithUser).toHaveBeenCalledWith(10, 1);
+      expect(repo.findByIds).toHaveBeenCalledWith(1, [1]);
+      expect(repo.merge).toHaveBeenCalledWith(10, 1);
+      expect(result).toEqual({ merged: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('統合元と統合先が同じ場合は InvalidMergeTargetError になる', async () => {
+      const { useCase, repo } = setup();
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 10,
+          targetCategoryId: 10,
+          userId: 1,
+        }),
+      ).rejects.toBeInstanceOf(InvalidMergeTargetError);
+      expect(repo.findByIdWithUser).not.toHaveBeenCalled();
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('統合元が見つからない場合は CategoryNotFoundError になる', async () => {
+      const { useCase, repo } = setup({
+        findByIdWithUser: vi.fn(async () => null),
+      });
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 99,
+          targetCategoryId: 1,
+          userId: 1,
+        }),
+      ).rejects.toMatchObject({
+        _tag: 'CategoryNotFoundError',
+        categoryId: 99,
+      });
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('他のユーザーが作成したカテゴリは統合元に指定できない', async () => {
+      const { useCase, repo } = setup({
+        findByIdWithUser: vi.fn(async () =>
+          makeUserCategoryRecord({ ownerId: 2 }),
+        ),
+      });
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 10,
+          targetCategoryId: 1,
+          userId: 1,
+        }),
+      ).rejects.toMatchObject({
+        _tag: 'CategoryNotFoundError',
+        categoryId: 10,
+      });
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('デフォルトカテゴリは統合元に指定できない', async () => {
+      const { useCase, repo } = setup({
+        findByIdWithUser: vi.fn(async () =>
+          makeUserCategoryRecord({ isDefault: true }),
+        ),
+      });
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 10,
+          targetCategoryId: 1,
+          userId: 1,
+        }),
+      ).rejects.toBeInstanceOf(DefaultCategoryMergeForbiddenError);
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('利用できない統合先の場合は CategoryNotFoundError になる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => []),
+      });
+
+      const error = await useCase
+        .execute({ sourceCategoryId: 10, targetCategoryId: 2, userId: 1 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CategoryNotFoundError);
+      expect(error).toMatchObject({ categoryId: 2 });
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('取引種別が異なる統合先は指定できない', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [makeCategoryRecord({ type: 'INCOME' })]),
+      });
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 10,
+          targetCategoryId: 1,
+          userId: 1,
+        }),
+      ).rejects.toBeInstanceOf(InvalidMergeTargetError);
+      expect(repo.merge).not.toHaveBeenCalled();
+    });
+
+    it('統合に失敗した場合は UnexpectedMergeCategoryError になる', async () => {
+      const { useCase } = setup({
+        merge: vi.fn(async () => {
+          throw new Error('db down');
+        }),
+      });
+
+      await expect(
+        useCase.execute({
+          sourceCategoryId: 10,
+          targetCategoryId: 1,
+          userId: 1,
+        }),
+      ).rejects.toBeInstanceOf(UnexpectedMergeCategoryError);
+    });
+  });
+});
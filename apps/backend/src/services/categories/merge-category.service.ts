@@ -0,0 +1,204 @@
+// Application Layer: Merge Category Use Case
+// カテゴリの統合（統合元の取引を統合先に付け替え、統合元を削除する）を担当
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+import type { UserCategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryNotFoundError,
+  DefaultCategoryMergeForbiddenError,
+  InvalidMergeTargetError,
+  type MergeCategoryError,
+  UnexpectedMergeCategoryError,
+} from './merge-category.errors';
+
+export interface MergeCategoryInput {
+  sourceCategoryId: number;
+  targetCategoryId: number;
+  userId: number;
+}
+
+export type MergeCategoryOutput = {
+  merged: true;
+};
+
+type SourceLoadedInput = MergeCategoryInput & {
+  source: UserCategoryRecord;
+};
+
+@injectable()
+export class MergeCategoryUseCase {
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  async execute(input: MergeCategoryInput): Promise<MergeCategoryOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: MergeCategoryInput,
+  ): Effect.Effect<MergeCategoryOutput, MergeCategoryError> {
+    return pipe(
+      this.validateDistinctCategories(input),
+      Effect.flatMap((value) => this.fetchSourceCategory(value)),
+      Effect.flatMap((value) => this.validateTargetCategory(value)),
+      Effect.flatMap((value) => this.mergeCategory(value)),
+      Effect.map(() => ({ merged: true as const })),
+    );
+  }
+
+  private validateDistinctCategories(
+    input: MergeCategoryInput,
+  ): Effect.Effect<MergeCategoryInput, MergeCategoryError> {
+    return pipe(
+      Effect.succeed(input),
+      Effect.filterOrFail(
+        ({ sourceCategoryId, targetCategoryId }) =>
+          sourceCategoryId !== targetCategoryId,
+        () =>
+          new InvalidMergeTargetError({
+            message: '統合元と統合先に同じカテゴリは指定できません',
+            categoryId: input.targetCategoryId,
+          }),
+      ),
+    );
+  }
+
+  private fetchSourceCategory(
+    input: MergeCategoryInput,
+  ): Effect.Effect<SourceLoadedInput, MergeCategoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIdWithUser(
+            input.sourceCategoryId,
+            input.userId,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap(
+        (source): Effect.Effect<SourceLoadedInput, MergeCategoryError> => {
+          // 統合元は削除されるため、他のユーザーが作成したカテゴリは紐づいていても指定できない
+          if (
+            source === null ||
+            (!source.isDefault && source.ownerId !== input.userId)
+          ) {
+            return Effect.fail(
+              new CategoryNotFoundError({
+                message: `カテゴリ（ID: ${input.sourceCategoryId}）が見つかりません`,
+                categoryId: input.sourceCategoryId,
+              }),
+            );
+          }
+
+          // 統合元は削除されるため、デフォルトカテゴリは指定できない（ドメインルール）
+          if (source.isDefault) {
+            return Effect.fail(
+              new DefaultCategoryMergeForbiddenError({
+                message: 'デフォルトカテゴリは統合元に指定できません',
+                categoryId: input.sourceCategoryId,
+              }),
+            );
+          }
+
+          return Effect.succeed({ ...input, source });
+        },
+      ),
+    );
+  }
+
+  private validateTargetCategory(
+    value: SourceLoadedInput,
+  ): Effect.Effect<SourceLoadedInput, MergeCategoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(value.userId, [
+            value.targetCategoryId,
+          ]),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap(
+        ([target]): Effect.Effect<SourceLoadedInput, MergeCategoryError> => {
+          if (target === undefined) {
+            return Effect.fail(
+              new CategoryNotFoundError({
+                message: `カテゴリ（ID: ${value.targetCategoryId}）が見つかりません`,
+                categoryId: value.targetCategoryId,
+              }),
+            );
+          }
+
+          if (target.type !== value.source.type) {
+            return Effect.fail(
+              new InvalidMergeTargetError({
+                message: '統合先は同じ取引種別のカテゴリである必要があります',
+                categoryId: value.targetCategoryId,
+              }),
+            );
+          }
+
+          return Effect.succeed(value);
+        },
+      ),
+    );
+  }
+
+  private mergeCategory(
+    value: SourceLoadedInput,
+  ): Effect.Effect<void, MergeCategoryError> {
+    return Effect.tryPromise({
+      try: () =>
+        this.categoryRepository.merge(
+          value.sourceCategoryId,
+          value.targetCategoryId,
+        ),
+      catch: (cause) =>
+        this.createUnexpectedError('カテゴリの統合に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause: unknown,
+  ): UnexpectedMergeCategoryError {
+    return new UnexpectedMergeCategoryError({
+      message,
+      cause: this.normalizeError(cause),
+    });
+  }
+
+  private unwrapExit<A>(exit: Exit.Exit<A, MergeCategoryError>): A {
+    return Exit.match(exit, {
+      onSuccess: (a) => a,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedMergeCategoryError({
+                message: 'カテゴリの統合に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (e) => {
+              throw Cause.originalError(e);
+            },
+          }),
+        ),
+    });
+  }
+
+  private normalizeError<T>(cause: T): Error {
+    return cause instanceof Error ? cause : new Error(String(cause));
+  }
+}
@@ -0,0 +1,26 @@
+import { Data } from '../../shared/result';
+
+export class CategoriesNotFoundError extends Data.TaggedError(
+  'CategoriesNotFoundError',
+)<{
+  message: string;
+  categoryIds: number[];
+}> {}
+
+export class InvalidCategoryIdsError extends Data.TaggedError(
+  'InvalidCategoryIdsError',
+)<{
+  message: string;
+}> {}
+
+export class UnexpectedReorderCategoriesError extends Data.TaggedError(
+  'UnexpectedReorderCategoriesError',
+)<{
+  message: string;
+  cause: Error;
+}> {}
+
+export type ReorderCategoriesError =
+  | CategoriesNotFoundError
+  | InvalidCategoryIdsError
+  | UnexpectedReorderCategoriesError;
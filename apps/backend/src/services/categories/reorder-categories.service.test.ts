@@ -0,0 +1,111 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+  UnexpectedReorderCategoriesError,
+} from './reorder-categories.errors';
+import { ReorderCategoriesUseCase } from './reorder-categories.service';
+
+describe('ReorderCategoriesUseCase（カテゴリ並び替え）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 1,
+    name: '食費',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const setup = (overrides?: Partial<ICategoryRepository>) => {
+    const repo: Partial<ICategoryRepository> = {
+      findByIds: vi.fn(async (_userId: number, ids: number[]) =>
+        ids.map((id) => makeCategoryRecord({ id })),
+      ),
+      reorder: vi.fn(async () => undefined),
+      ...overrides,
+    };
+
+    const container = new Container();
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(repo as ICategoryRepository);
+    container.bind<ReorderCategoriesUseCase>(ReorderCategoriesUseCase).toSelf();
+
+    const useCase = container.get(ReorderCategoriesUseCase);
+
+    return { useCase, repo };
+  };
+
+  describe('正常系', () => {
+    it('指定した順にカテゴリを並び替える', async () => {
+      const { useCase, repo } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        categoryIds: [3, 1, 2],
+      });
+
+      expect(repo.findByIds).toHaveBeenCalledWith(1, [3, 1, 2]);
+      expect(repo.reorder).toHaveBeenCalledWith(1, [3, 1, 2]);
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('カテゴリIDが空の場合は InvalidCategoryIdsError になる', async () => {
+      const { useCase, repo } = setup();
+
+      await expect(
+        useCase.execute({ userId: 1, categoryIds: [] }),
+      ).rejects.toBeInstanceOf(InvalidCategoryIdsError);
+      expect(repo.reorder).not.toHaveBeenCalled();
+    });
+
+    it('カテゴリIDが重複している場合は InvalidCategoryIdsError になる', async () => {
+      const { useCase, repo } = setup();
+
+      await expect(
+        useCase.execute({ userId: 1, categoryIds: [1, 2, 1] }),
+      ).rejects.toThrow('カテゴリIDが重複しています');
+      expect(repo.findByIds).not.toHaveBeenCalled();
+      expect(repo.reorder).not.toHaveBeenCalled();
+    });
+
+    it('利用できないカテゴリが含まれる場合は CategoriesNotFoundError になる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [makeCategoryRecord({ id: 1 })]),
+      });
+
+      const error = await useCase
+        .execute({ userId: 1, categoryIds: [1, 98, 99] })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CategoriesNotFoundError);
+      expect(error).toMatchObject({ categoryIds: [98, 99] });
+      expect(repo.reorder).not.toHaveBeenCalled();
+    });
+
+    it('並び替えに失敗した場合は UnexpectedReorderCategoriesError になる', async () => {
+      const { useCase } = setup({
+        reorder: vi.fn(async () => {
+          throw new Error('db down');
+        }),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, categoryIds: [1, 2] }),
+      ).rejects.toBeInstanceOf(UnexpectedReorderCategoriesError);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+// Application Layer: Reorder Categories Use Case
+// カテゴリの表示順の一括変更を担当
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoriesNotFoundError,
+  InvalidCategoryIdsError,
+  type ReorderCategoriesError,
+  UnexpectedReorderCategoriesError,
+} from './reorder-categories.errors';
+
+export interface ReorderCategoriesInput {
+  userId: number;
+  // 並べたい順のカテゴリID
+  categoryIds: number[];
+}
+
+export type ReorderCategoriesOutput = {
+  success: true;
+};
+
+@injectable()
+export class ReorderCategoriesUseCase {
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  async execute(
+    input: ReorderCategoriesInput,
+  ): Promise<ReorderCategoriesOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ReorderCategoriesInput,
+  ): Effect.Effect<ReorderCategoriesOutput, ReorderCategoriesError> {
+    return pipe(
+      this.validateCategoryIds(input),
+      Effect.flatMap((value) => this.ensureCategoriesAvailable(value)),
+      Effect.flatMap((value) => this.reorderCategories(value)),
+      Effect.map(() => ({ success: true as const })),
+    );
+  }
+
+  private validateCategoryIds(
+    input: ReorderCategoriesInput,
+  ): Effect.Effect<ReorderCategoriesInput, ReorderCategoriesError> {
+    return pipe(
+      Effect.succeed(input),
+      Effect.filterOrFail(
+        ({ categoryIds }) => categoryIds.length > 0,
+        () =>
+          new InvalidCategoryIdsError({
+            message: 'カテゴリIDは1件以上指定する必要があります',
+          }),
+      ),
+      Effect.filterOrFail(
+        ({ categoryIds }) => new Set(categoryIds).size === categoryIds.length,
+        () =>
+          new InvalidCategoryIdsError({
+            message: 'カテゴリIDが重複しています',
+          }),
+      ),
+    );
+  }
+
+  private ensureCategoriesAvailable(
+    value: ReorderCategoriesInput,
+  ): Effect.Effect<ReorderCategoriesInput, ReorderCategoriesError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(value.userId, value.categoryIds),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.flatMap((categories) => {
+        const foundIds = new Set(categories.map((c) => c.id));
+        const missing = value.categoryIds.filter((id) => !foundIds.has(id));
+
+        return missing.length > 0
+          ? Effect.fail(
+              new CategoriesNotFoundError({
+                message: `カテゴリが見つかりません: ${missing.join(',')}`,
+                categoryIds: missing,
+              }),
+            )
+          : Effect.succeed(value);
+      }),
+    );
+  }
+
+  private reorderCategories(
+    value: ReorderCategoriesInput,
+  ): Effect.Effect<void, ReorderCategoriesError> {
+    return Effect.tryPromise({
+      try: () =>
+        this.categoryRepository.reorder(value.userId, value.categoryIds),
+      catch: (cause) =>
+        this.createUnexpectedError('カテゴリの並び替えに失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause: unknown,
+  ): UnexpectedReorderCategoriesError {
+    return new UnexpectedReorderCategoriesError({
+      message,
+      cause: this.normalizeError(cause),
+    });
+  }
+
+  private unwrapExit<A>(exit: Exit.Exit<A, ReorderCategoriesError>): A {
+    return Exit.match(exit, {
+      onSuccess: (a) => a,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedReorderCategoriesError({
+                message: 'カテゴリの並び替えに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (e) => {
+              throw Cause.originalError(e);
+            },
+          }),
+        ),
+    });
+  }
+
+  private normalizeError<T>(cause: T): Error {
+    return cause instanceof Error ? cause : new Error(String(cause));
+  }
+}
@@ -27,8 +27,16 @@ export class UnexpectedUpdateCategoryError extends Data.TaggedError(
   cause: Error;
 }> {}
 
+export class InvalidCategoryParentError extends Data.TaggedError(
+  'InvalidCategoryParentError',
+)<{
+  message: string;
+  parentId: number;
+}> {}
+
 export type UpdateCategoryError =
   | CategoryNotFoundError
   | DefaultCategoryUpdateForbiddenError
   | InvalidUpdateDataError
+  | InvalidCategoryParentError
   | UnexpectedUpdateCategoryError;
@@ -10,6 +10,7 @@ import { TOKENS } from '../di/tokens';
 import {
   CategoryNotFoundError,
   DefaultCategoryUpdateForbiddenError,
+  InvalidCategoryParentError,
   InvalidUpdateDataError,
 } from './update-category.errors';
 import { UpdateCategoryUseCase } from './update-category.service';
@@ -24,8 +25,10 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
     name: '光熱費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
+    ownerId: 1,
     isVisible: true,
     customName: null,
     displayOrder: 0,
@@ -37,6 +40,7 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
     name: '光熱費',
     type: 'EXPENSE' as const,
     isDefault: false,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
     ...override,
@@ -46,9 +50,12 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
     const repo: ICategoryRepository = {
       create: vi.fn(),
       findById: vi.fn(async (_id: number) => makeCategoryRecord()),
-      findByName: vi.fn(async (_name: string) => null),
+      findByName: vi.fn(async (_userId: number, _name: string) => null),
       findByUserId: vi.fn(async (_userId: number) => []),
       findByIds: vi.fn(async (_userId: number, _ids: number[]) => []),
+      findDisplayNamesByIds: vi.fn(
+        async (_userId: number, _ids: number[]) => [],
+      ),
       findAllWithPagination: vi.fn(async () => ({
         items: [],
         total: 0,
@@ -66,6 +73,13 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
           data: UpdateCategoryData,
         ) => makeUserCategoryRecord(data),
       ),
+      delete: vi.fn(),
+      merge: vi.fn(),
+      findTypeCodeByTypeId: vi.fn(async (_typeId: number) => null),
+      findChildren: vi.fn(async () => []),
+      hasChildren: vi.fn(async (_categoryId: number) => false),
+      reorder: vi.fn(),
+      updateVisibility: vi.fn(),
       ...overrides,
     };
 
@@ -179,6 +193,29 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
       expect(result.customName).toBe('カスタム名');
       expect(result.displayOrder).toBe(10);
     });
+
+    it('parentId を指定して親カテゴリを変更できる', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeCategoryRecord({ id: 5, name: '住居費' }),
+        ]),
+      });
+
+      await useCase.execute({ categoryId: 1, userId: 1, parentId: 5 });
+
+      expect(repo.findByIds).toHaveBeenCalledWith(1, [5]);
+      expect(repo.hasChildren).toHaveBeenCalledWith(1);
+      expect(repo.update).toHaveBeenCalledWith(1, 1, { parentId: 5 });
+    });
+
+    it('parentId に null を指定すると最上位に戻せる', async () => {
+      const { useCase, repo } = setup();
+
+      await useCase.execute({ categoryId: 1, userId: 1, parentId: null });
+
+      expect(repo.findByIds).not.toHaveBeenCalled();
+      expect(repo.update).toHaveBeenCalledWith(1, 1, { parentId: null });
+    });
   });
 
   describe('異常系', () => {
@@ -204,6 +241,23 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
       ).rejects.toThrow('カテゴリ（ID: 999）が見つかりません');
     });
 
+    it('他のユーザーが作成したカテゴリは紐づいていても更新できない', async () => {
+      const { useCase, repo } = setup({
+        findByIdWithUser: vi.fn(async () =>
+          makeUserCategoryRecord({ ownerId: 2 }),
+        ),
+      });
+
+      await expect(
+        useCase.execute({
+          categoryId: 1,
+          userId: 1,
+          parentId: null,
+        }),
+      ).rejects.toBeInstanceOf(CategoryNotFoundError);
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
     it('デフォルトカテゴリの更新は禁止される', async () => {
       const { useCase } = setup({
         findByIdWithUser: vi.fn(async () =>
@@ -285,5 +339,57 @@ describe('UpdateCategoryUseCase（カテゴリ更新）', () => {
         }),
       ).rejects.toThrow('表示順は0以上の整数である必要があります');
     });
+
+    it('自分自身は親カテゴリに指定できない', async () => {
+      const { useCase, repo } = setup();
+
+      await expect(
+        useCase.execute({ categoryId: 1, userId: 1, parentId: 1 }),
+      ).rejects.toBeInstanceOf(InvalidCategoryParentError);
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
+    it('自分のサブカテゴリは親カテゴリに指定できない（循環の禁止）', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeCategoryRecord({ id: 5, name: '電気代', parentId: 1 }),
+        ]),
+        hasChildren: vi.fn(async () => true),
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 1, userId: 1, parentId: 5 }),
+      ).rejects.toThrow('自分自身やサブカテゴリを親カテゴリにはできません');
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
+    it('サブカテゴリを持つカテゴリは子にできない（階層は2段まで）', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeCategoryRecord({ id: 5, name: '住居費' }),
+        ]),
+        hasChildren: vi.fn(async () => true),
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 1, userId: 1, parentId: 5 }),
+      ).rejects.toThrow('カテゴリの階層は2段までです');
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
+    it('取引種別が異なるカテゴリは親カテゴリに指定できない', async () => {
+      const { useCase, repo } = setup({
+        findByIds: vi.fn(async () => [
+          makeCategoryRecord({ id: 5, name: '給与', type: 'INCOME' }),
+        ]),
+      });
+
+      await expect(
+        useCase.execute({ categoryId: 1, userId: 1, parentId: 5 }),
+      ).rejects.toThrow(
+        '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+      );
+      expect(repo.update).not.toHaveBeenCalled();
+    });
   });
 });
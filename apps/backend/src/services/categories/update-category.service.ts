@@ -16,6 +16,7 @@ import { TOKENS } from '../di/tokens';
 import {
   CategoryNotFoundError,
   DefaultCategoryUpdateForbiddenError,
+  InvalidCategoryParentError,
   InvalidUpdateDataError,
   UnexpectedUpdateCategoryError,
   type UpdateCategoryError,
@@ -27,6 +28,7 @@ export interface UpdateCategoryInput {
   isVisible?: boolean;
   customName?: string;
   displayOrder?: number;
+  parentId?: number | null;
 }
 
 type NormalizedInput = {
@@ -58,6 +60,7 @@ export class UpdateCategoryUseCase {
       Effect.flatMap((value) =>
         this.validateCategoryExistsAndNotDefault(value),
       ),
+      Effect.flatMap((value) => this.validateParent(value)),
       Effect.flatMap((value) => this.updateCategory(value)),
     );
   }
@@ -111,6 +114,10 @@ export class UpdateCategoryUseCase {
       updateData.displayOrder = input.displayOrder;
     }
 
+    if (input.parentId !== undefined) {
+      updateData.parentId = input.parentId;
+    }
+
     // 更新データが空の場合はエラー
     if (Object.keys(updateData).length === 0) {
       return Effect.fail(
@@ -147,7 +154,11 @@ export class UpdateCategoryUseCase {
       ),
       Effect.flatMap(
         (category): Effect.Effect<ValidatedInput, UpdateCategoryError> => {
-          if (category === null) {
+          // 他のユーザーが作成したカテゴリは user_categories に紐づいていても更新できない
+          if (
+            category === null ||
+            (!category.isDefault && category.ownerId !== value.userId)
+          ) {
             return Effect.fail(
               new CategoryNotFoundError({
                 message: `カテゴリ（ID: ${value.categoryId}）が見つかりません`,
@@ -172,6 +183,109 @@ export class UpdateCategoryUseCase {
     );
   }
 
+  private validateParent(
+    value: ValidatedInput,
+  ): Effect.Effect<ValidatedInput, UpdateCategoryError> {
+    const { parentId } = value.updateData;
+    // 未指定、または最上位に戻す場合は検証不要
+    if (parentId === undefined || parentId === null) {
+      return Effect.succeed(value);
+    }
+
+    // 自分自身は親にできない（循環の禁止）
+    if (parentId === value.categoryId) {
+      return Effect.fail(
+        new InvalidCategoryParentError({
+          message: '自分自身やサブカテゴリを親カテゴリにはできません',
+          parentId,
+        }),
+      );
+    }
+
+    return pipe(
+      Effect.promise(() =>
+        Promise.all([
+          this.categoryRepository.findByIds(value.userId, [parentId]),
+          this.categoryRepository.hasChildren(value.categoryId),
+        ]),
+      ).pipe(
+        Effect.mapError(
+          (cause) =>
+            new UnexpectedUpdateCategoryError({
+              message: 'カテゴリの取得に失敗しました',
+              cause: this.normalizeError(cause),
+            }),
+        ),
+      ),
+      Effect.flatMap(
+        ([[parent], hasChildren]): Effect.Effect<
+          ValidatedInput,
+          UpdateCategoryError
+        > => {
+          if (parent === undefined) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message: `親カテゴリ（ID: ${parentId}）が見つかりません`,
+                parentId,
+              }),
+            );
+          }
+
+          // 自分のサブカテゴリは親にできない（循環の禁止）
+          if (parent.parentId === value.categoryId) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message: '自分自身やサブカテゴリを親カテゴリにはできません',
+                parentId,
+              }),
+            );
+          }
+
+          // 階層は2段まで（ドメインルール）
+          if (parent.parentId !== null || hasChildren) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message: 'カテゴリの階層は2段までです',
+                parentId,
+              }),
+            );
+          }
+
+          // 親子で取引種別を混在させない（ドメインルール）
+          if (parent.type !== value.category.type) {
+            return Effect.fail(
+              new InvalidCategoryParentError({
+                message:
+                  '親カテゴリと異なる取引種別のカテゴリはサブカテゴリにできません',
+                parentId,
+              }),
+            );
+          }
+
+          return pipe(
+            Either.all([
+              CategoryName.create(value.category.name),
+              CategoryName.create(parent.name),
+            ]),
+            Either.flatMap(([name, parentName]) =>
+              name.validateAsChildOf(parentName),
+            ),
+            Either.match({
+              onLeft: (cause) =>
+                Effect.fail(
+                  new InvalidCategoryParentError({
+                    message: cause.message,
+                    parentId,
+                  }),
+                ),
+              onRight: () => Effect.succeed(value),
+            }),
+          );
+        },
+      ),
+    );
+  }
+
   private updateCategory(
     value: ValidatedInput,
   ): Effect.Effect<UserCategoryRecord, UpdateCategoryError> {
@@ -0,0 +1,26 @@
+// Application Layer: Currency Builder
+// 通貨ユースケースの出力DTO組み立てを担当する
+
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+
+export type CurrencyOutput = {
+  code: string;
+  name: string;
+  symbol: string;
+  exponent: number;
+  isActive: boolean;
+  updatedAt: string;
+};
+
+export class CurrencyBuilder {
+  build(record: CurrencyRecord): CurrencyOutput {
+    return {
+      code: record.code,
+      name: record.name,
+      symbol: record.symbol,
+      exponent: record.exponent,
+      isActive: record.isActive,
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+}
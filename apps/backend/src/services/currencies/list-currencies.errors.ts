@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListCurrenciesErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListCurrenciesError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListCurrenciesErrorParams) {
+    super(params.message, 'UnexpectedListCurrenciesError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListCurrenciesError = UnexpectedListCurrenciesError;
@@ -0,0 +1,96 @@
+// Application Layer: List Currencies Use Case
+// 通貨一覧の取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { CurrencyBuilder, type CurrencyOutput } from './currency.builder';
+import {
+  type ListCurrenciesError,
+  UnexpectedListCurrenciesError,
+} from './list-currencies.errors';
+
+export type ListCurrenciesInput = {
+  includeInactive: boolean;
+};
+
+export type ListCurrenciesOutput = {
+  currencies: CurrencyOutput[];
+};
+
+@injectable()
+export class ListCurrenciesUseCase {
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  private readonly builder = new CurrencyBuilder();
+
+  async execute(input: ListCurrenciesInput): Promise<ListCurrenciesOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListCurrenciesInput,
+  ): Effect.Effect<ListCurrenciesOutput, ListCurrenciesError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.currencyRepository.findAll({
+            includeInactive: input.includeInactive,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => ({
+        currencies: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListCurrenciesError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListCurrenciesError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ListCurrenciesOutput, ListCurrenciesError>,
+  ): ListCurrenciesOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListCurrenciesError({
+                message: '通貨一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
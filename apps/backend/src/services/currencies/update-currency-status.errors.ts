@@ -0,0 +1,37 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class CurrencyNotFoundError extends DomainError {
+  constructor(code: string) {
+    super(`通貨が見つかりません: ${code}`, 'CurrencyNotFoundError');
+  }
+}
+
+export class DefaultCurrencyDeactivationError extends DomainError {
+  constructor(code: string) {
+    super(
+      `既定の通貨は無効化できません: ${code}`,
+      'DefaultCurrencyDeactivationError',
+    );
+  }
+}
+
+type UnexpectedUpdateCurrencyStatusErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUpdateCurrencyStatusError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUpdateCurrencyStatusErrorParams) {
+    super(params.message, 'UnexpectedUpdateCurrencyStatusError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UpdateCurrencyStatusError =
+  | CurrencyNotFoundError
+  | DefaultCurrencyDeactivationError
+  | UnexpectedUpdateCurrencyStatusError;
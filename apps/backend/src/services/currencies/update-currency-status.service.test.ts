@@ -0,0 +1,149 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CurrencyNotFoundError,
+  DefaultCurrencyDeactivationError,
+  UnexpectedUpdateCurrencyStatusError,
+} from './update-currency-status.errors';
+import { UpdateCurrencyStatusUseCase } from './update-currency-status.service';
+
+describe('UpdateCurrencyStatusUseCase（通貨の有効化/無効化）', () => {
+  const fixedCreatedAt = new Date('2025-01-01T00:00:00.000Z');
+  const fixedUpdatedAt = new Date('2025-01-02T00:00:00.000Z');
+
+  const makeCurrencyRecord = (
+    override?: Partial<CurrencyRecord>,
+  ): CurrencyRecord => ({
+    id: 2,
+    code: 'USD',
+    name: '米ドル',
+    symbol: '$',
+    exponent: 2,
+    isActive: false,
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockCurrencyRepo: Partial<ICurrencyRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container.bind(UpdateCurrencyStatusUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('無効な通貨を有効化できる', async () => {
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeCurrencyRecord({ isActive: true })),
+      };
+
+      const useCase = createMockContainer(mockCurrencyRepo).get(
+        UpdateCurrencyStatusUseCase,
+      );
+
+      const output = await useCase.execute({ code: 'USD', isActive: true });
+
+      expect(mockCurrencyRepo.findByCode).toHaveBeenCalledWith('USD');
+      const [currency] = mockCurrencyRepo.update.mock.calls[0];
+      expect(currency.isActive).toBe(true);
+      expect(output).toEqual({
+        currency: {
+          code: 'USD',
+          name: '米ドル',
+          symbol: '$',
+          exponent: 2,
+          isActive: true,
+          updatedAt: fixedUpdatedAt.toISOString(),
+        },
+      });
+    });
+
+    it('有効な通貨を無効化できる', async () => {
+      const mockCurrencyRepo = {
+        findByCode: vi
+          .fn()
+          .mockResolvedValue(makeCurrencyRecord({ isActive: true })),
+        update: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+      };
+
+      const useCase = createMockContainer(mockCurrencyRepo).get(
+        UpdateCurrencyStatusUseCase,
+      );
+
+      const output = await useCase.execute({ code: 'USD', isActive: false });
+
+      const [currency] = mockCurrencyRepo.update.mock.calls[0];
+      expect(currency.isActive).toBe(false);
+      expect(output.currency.isActive).toBe(false);
+    });
+  });
+
+  describe('異常系', () => {
+    it('通貨が見つからない場合は例外になる', async () => {
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(null),
+        update: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockCurrencyRepo).get(
+        UpdateCurrencyStatusUseCase,
+      );
+
+      await expect(
+        useCase.execute({ code: 'XXX', isActive: true }),
+      ).rejects.toBeInstanceOf(CurrencyNotFoundError);
+      expect(mockCurrencyRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('既定の通貨（JPY）は無効化できない', async () => {
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(
+          makeCurrencyRecord({
+            id: 1,
+            code: 'JPY',
+            name: '日本円',
+            symbol: '¥',
+            exponent: 0,
+            isActive: true,
+          }),
+        ),
+        update: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockCurrencyRepo).get(
+        UpdateCurrencyStatusUseCase,
+      );
+
+      await expect(
+        useCase.execute({ code: 'JPY', isActive: false }),
+      ).rejects.toBeInstanceOf(DefaultCurrencyDeactivationError);
+      expect(mockCurrencyRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('想定外例外は UnexpectedUpdateCurrencyStatusError にラップされる', async () => {
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockCurrencyRepo).get(
+        UpdateCurrencyStatusUseCase,
+      );
+
+      await expect(
+        useCase.execute({ code: 'USD', isActive: true }),
+      ).rejects.toBeInstanceOf(UnexpectedUpdateCurrencyStatusError);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+// Application Layer: Update Currency Status Use Case
+// 通貨の有効化/無効化を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  Currency,
+  CurrencyDomainError,
+  type CurrencyRecord,
+} from '../../domain/entities/currency.entity';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { CurrencyBuilder, type CurrencyOutput } from './currency.builder';
+import {
+  CurrencyNotFoundError,
+  DefaultCurrencyDeactivationError,
+  UnexpectedUpdateCurrencyStatusError,
+  type UpdateCurrencyStatusError,
+} from './update-currency-status.errors';
+
+export type UpdateCurrencyStatusInput = {
+  code: string;
+  isActive: boolean;
+};
+
+export type UpdateCurrencyStatusOutput = {
+  currency: CurrencyOutput;
+};
+
+type CurrencyLoadedInput = UpdateCurrencyStatusInput & {
+  current: CurrencyRecord;
+};
+
+@injectable()
+export class UpdateCurrencyStatusUseCase {
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  private readonly builder = new CurrencyBuilder();
+
+  async execute(
+    input: UpdateCurrencyStatusInput,
+  ): Promise<UpdateCurrencyStatusOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UpdateCurrencyStatusInput,
+  ): Effect.Effect<UpdateCurrencyStatusOutput, UpdateCurrencyStatusError> {
+    return pipe(
+      this.fetchCurrentCurrency(input),
+      Effect.flatMap((value) => this.changeStatus(value)),
+      Effect.flatMap((currency) => this.saveCurrency(currency)),
+    );
+  }
+
+  private fetchCurrentCurrency(
+    input: UpdateCurrencyStatusInput,
+  ): Effect.Effect<CurrencyLoadedInput, UpdateCurrencyStatusError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findByCode(input.code),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new CurrencyNotFoundError(input.code))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private changeStatus(
+    value: CurrencyLoadedInput,
+  ): Effect.Effect<Currency, UpdateCurrencyStatusError> {
+    return Effect.try({
+      try: () => {
+        const currency = Currency.reconstruct(
+          value.current.id,
+          value.current.code,
+          value.current.name,
+          value.current.symbol,
+          value.current.exponent,
+          value.current.isActive,
+          value.current.createdAt,
+          value.current.updatedAt,
+        );
+        if (value.isActive) {
+          currency.activate();
+        } else {
+          currency.deactivate();
+        }
+        return currency;
+      },
+      catch: (cause) =>
+        cause instanceof CurrencyDomainError
+          ? new DefaultCurrencyDeactivationError(value.code)
+          : this.createUnexpectedError('通貨の状態変更に失敗しました', cause),
+    });
+  }
+
+  private saveCurrency(
+    currency: Currency,
+  ): Effect.Effect<UpdateCurrencyStatusOutput, UpdateCurrencyStatusError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.update(currency),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨の状態変更に失敗しました', cause),
+      }),
+      Effect.map((record) => ({ currency: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUpdateCurrencyStatusError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUpdateCurrencyStatusError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UpdateCurrencyStatusOutput, UpdateCurrencyStatusError>,
+  ): UpdateCurrencyStatusOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUpdateCurrencyStatusError({
+                message: '通貨の状態変更に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
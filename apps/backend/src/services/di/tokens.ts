@@ -3,18 +3,119 @@ export const TOKENS = {
   CategoryRepository: Symbol.for('CategoryRepository'),
   TransactionRepository: Symbol.for('TransactionRepository'),
   UserRepository: Symbol.for('UserRepository'),
+  BudgetRepository: Symbol.for('BudgetRepository'),
+  AccountRepository: Symbol.for('AccountRepository'),
+  TagRepository: Symbol.for('TagRepository'),
+  TransactionAttachmentRepository: Symbol.for(
+    'TransactionAttachmentRepository',
+  ),
+  TransactionRevisionRepository: Symbol.for('TransactionRevisionRepository'),
+  AttachmentStorage: Symbol.for('AttachmentStorage'),
+  RecurringTransactionRepository: Symbol.for('RecurringTransactionRepository'),
+  CurrencyRepository: Symbol.for('CurrencyRepository'),
+  ExchangeRateRepository: Symbol.for('ExchangeRateRepository'),
+  LedgerRepository: Symbol.for('LedgerRepository'),
+  LedgerInvitationRepository: Symbol.for('LedgerInvitationRepository'),
+  LedgerAccessService: Symbol.for('LedgerAccessService'),
+  LedgerInvitationTokenService: Symbol.for('LedgerInvitationTokenService'),
   CreateCategoryUseCase: Symbol.for('CreateCategoryUseCase'),
   ListCategoriesUseCase: Symbol.for('ListCategoriesUseCase'),
   GetCategoryUseCase: Symbol.for('GetCategoryUseCase'),
   UpdateCategoryUseCase: Symbol.for('UpdateCategoryUseCase'),
+  DeleteCategoryUseCase: Symbol.for('DeleteCategoryUseCase'),
+  MergeCategoryUseCase: Symbol.for('MergeCategoryUseCase'),
+  ReorderCategoriesUseCase: Symbol.for('ReorderCategoriesUseCase'),
+  BulkUpdateCategoryVisibilityUseCase: Symbol.for(
+    'BulkUpdateCategoryVisibilityUseCase',
+  ),
   CreateTransactionUseCase: Symbol.for('CreateTransactionUseCase'),
   ListTransactionsUseCase: Symbol.for('ListTransactionsUseCase'),
   UpdateTransactionUseCase: Symbol.for('UpdateTransactionUseCase'),
   DeleteTransactionUseCase: Symbol.for('DeleteTransactionUseCase'),
+  SummarizeTransactionsUseCase: Symbol.for('SummarizeTransactionsUseCase'),
+  ExportTransactionsUseCase: Symbol.for('ExportTransactionsUseCase'),
+  ImportTransactionsUseCase: Symbol.for('ImportTransactionsUseCase'),
+  GetTransactionHistoryUseCase: Symbol.for('GetTransactionHistoryUseCase'),
+  ListTrashedTransactionsUseCase: Symbol.for('ListTrashedTransactionsUseCase'),
+  RestoreTransactionUseCase: Symbol.for('RestoreTransactionUseCase'),
+  PurgeTransactionUseCase: Symbol.for('PurgeTransactionUseCase'),
+  PurgeTrashedTransactionsUseCase: Symbol.for(
+    'PurgeTrashedTransactionsUseCase',
+  ),
+  UploadTransactionAttachmentUseCase: Symbol.for(
+    'UploadTransactionAttachmentUseCase',
+  ),
+  ListTransactionAttachmentsUseCase: Symbol.for(
+    'ListTransactionAttachmentsUseCase',
+  ),
+  DownloadTransactionAttachmentUseCase: Symbol.for(
+    'DownloadTransactionAttachmentUseCase',
+  ),
+  DeleteTransactionAttachmentUseCase: Symbol.for(
+    'DeleteTransactionAttachmentUseCase',
+  ),
+  CreateBudgetUseCase: Symbol.for('CreateBudgetUseCase'),
+  ListBudgetsUseCase: Symbol.for('ListBudgetsUseCase'),
+  UpdateBudgetUseCase: Symbol.for('UpdateBudgetUseCase'),
+  DeleteBudgetUseCase: Symbol.for('DeleteBudgetUseCase'),
+  GetBudgetStatusUseCase: Symbol.for('GetBudgetStatusUseCase'),
+  CreateAccountUseCase: Symbol.for('CreateAccountUseCase'),
+  ListAccountsUseCase: Symbol.for('ListAccountsUseCase'),
+  UpdateAccountUseCase: Symbol.for('UpdateAccountUseCase'),
+  DeleteAccountUseCase: Symbol.for('DeleteAccountUseCase'),
+  GetAccountBalancesUseCase: Symbol.for('GetAccountBalancesUseCase'),
+  CreateTagUseCase: Symbol.for('CreateTagUseCase'),
+  ListTagsUseCase: Symbol.for('ListTagsUseCase'),
+  UpdateTagUseCase: Symbol.for('UpdateTagUseCase'),
+  DeleteTagUseCase: Symbol.for('DeleteTagUseCase'),
+  CreateRecurringTransactionUseCase: Symbol.for(
+    'CreateRecurringTransactionUseCase',
+  ),
+  ListRecurringTransactionsUseCase: Symbol.for(
+    'ListRecurringTransactionsUseCase',
+  ),
+  DeleteRecurringTransactionUseCase: Symbol.for(
+    'DeleteRecurringTransactionUseCase',
+  ),
+  GenerateRecurringTransactionsUseCase: Symbol.for(
+    'GenerateRecurringTransactionsUseCase',
+  ),
+  ListCurrenciesUseCase: Symbol.for('ListCurrenciesUseCase'),
+  UpdateCurrencyStatusUseCase: Symbol.for('UpdateCurrencyStatusUseCase'),
+  ImportExchangeRatesUseCase: Symbol.for('ImportExchangeRatesUseCase'),
+  ListLedgersUseCase: Symbol.for('ListLedgersUseCase'),
+  InviteLedgerMemberUseCase: Symbol.for('InviteLedgerMemberUseCase'),
+  AcceptLedgerInvitationUseCase: Symbol.for('AcceptLedgerInvitationUseCase'),
+  RemoveLedgerMemberUseCase: Symbol.for('RemoveLedgerMemberUseCase'),
   RegisterUserUseCase: Symbol.for('RegisterUserUseCase'),
   LoginUserUseCase: Symbol.for('LoginUserUseCase'),
   LogoutUserUseCase: Symbol.for('LogoutUserUseCase'),
+  RefreshUserTokenUseCase: Symbol.for('RefreshUserTokenUseCase'),
+  ListUserSessionsUseCase: Symbol.for('ListUserSessionsUseCase'),
+  RevokeUserSessionUseCase: Symbol.for('RevokeUserSessionUseCase'),
+  RevokeAllUserSessionsUseCase: Symbol.for('RevokeAllUserSessionsUseCase'),
+  ChangePasswordUseCase: Symbol.for('ChangePasswordUseCase'),
+  RequestPasswordResetUseCase: Symbol.for('RequestPasswordResetUseCase'),
+  ResetPasswordUseCase: Symbol.for('ResetPasswordUseCase'),
+  GetCurrentUserUseCase: Symbol.for('GetCurrentUserUseCase'),
+  UpdateProfileUseCase: Symbol.for('UpdateProfileUseCase'),
+  ConfirmEmailChangeUseCase: Symbol.for('ConfirmEmailChangeUseCase'),
+  DeleteUserAccountUseCase: Symbol.for('DeleteUserAccountUseCase'),
+  PurgeDeletedUsersUseCase: Symbol.for('PurgeDeletedUsersUseCase'),
   TokenBlacklistRepository: Symbol.for('TokenBlacklistRepository'),
+  RefreshTokenRepository: Symbol.for('RefreshTokenRepository'),
+  RefreshTokenService: Symbol.for('RefreshTokenService'),
+  RefreshTokenProvider: Symbol.for('RefreshTokenProvider'),
+  UserSessionRepository: Symbol.for('UserSessionRepository'),
+  SessionService: Symbol.for('SessionService'),
+  PasswordResetTokenRepository: Symbol.for('PasswordResetTokenRepository'),
+  PasswordResetTokenService: Symbol.for('PasswordResetTokenService'),
+  EmailChangeTokenRepository: Symbol.for('EmailChangeTokenRepository'),
+  EmailChangeTokenService: Symbol.for('EmailChangeTokenService'),
+  MailSender: Symbol.for('MailSender'),
+  RateLimitStore: Symbol.for('RateLimitStore'),
+  RateLimiter: Symbol.for('RateLimiter'),
+  LoginThrottleService: Symbol.for('LoginThrottleService'),
   CreateJwtService: Symbol.for('CreateJwtService'),
   CreateJwtTokenProvider: Symbol.for('CreateJwtTokenProvider'),
   VerifyJwtTokenProvider: Symbol.for('VerifyJwtTokenProvider'),
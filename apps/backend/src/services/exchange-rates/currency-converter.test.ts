@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { Money } from '../../domain/values/money';
+import { CurrencyConverter } from './currency-converter';
+
+describe('CurrencyConverter（基準通貨への換算）', () => {
+  const converter = new CurrencyConverter('JPY', [
+    {
+      fromCurrency: 'USD',
+      toCurrency: 'JPY',
+      date: '2025-01-01',
+      rate: '150',
+      fromExponent: 2,
+      toExponent: 0,
+    },
+    {
+      fromCurrency: 'USD',
+      toCurrency: 'JPY',
+      date: '2025-01-10',
+      rate: '155.5',
+      fromExponent: 2,
+      toExponent: 0,
+    },
+    {
+      fromCurrency: 'EUR',
+      toCurrency: 'USD',
+      date: '2025-01-01',
+      rate: '1.1',
+      fromExponent: 2,
+      toExponent: 2,
+    },
+  ]);
+
+  describe('正常系', () => {
+    it('取引日以前で直近のレートで換算し、端数は四捨五入する', () => {
+      // 3.00ドル（補助単位のセントで保持）
+      const usd = Money.ofWithCurrency(300, 'USD');
+
+      expect(converter.convert(usd, '2025-01-09')?.amount).toBe(450);
+      // 3.00 * 155.5 = 466.5
+      expect(converter.convert(usd, '2025-01-10')?.amount).toBe(467);
+      expect(converter.convert(usd, '2025-02-01')?.currency).toBe('JPY');
+    });
+
+    it('基準通貨の金額はそのまま返す', () => {
+      const jpy = Money.of(1000);
+
+      expect(converter.convert(jpy, '2025-01-01')).toEqual(jpy);
+      expect(converter.baseCurrency).toBe('JPY');
+    });
+  });
+
+  describe('異常系', () => {
+    it('取引日以前のレートがない場合は null を返す', () => {
+      expect(
+        converter.convert(Money.ofWithCurrency(100, 'USD'), '2024-12-31'),
+      ).toBeNull();
+    });
+
+    it('基準通貨へのレートがない通貨は null を返す', () => {
+      expect(
+        converter.convert(Money.ofWithCurrency(100, 'EUR'), '2025-01-05'),
+      ).toBeNull();
+    });
+  });
+});
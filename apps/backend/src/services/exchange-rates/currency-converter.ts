@@ -0,0 +1,80 @@
+// Application Layer: Currency Converter
+// 取引日時点の為替レートで金額をユーザーの基準通貨に換算する
+
+import type { ApplicableExchangeRateRecord } from '../../domain/repositories/exchange-rate.repository.interface';
+import { ExchangeRate } from '../../domain/values/exchange-rate';
+import type {
+  CurrencyExponents,
+  Money,
+  RoundingMode,
+} from '../../domain/values/money';
+
+// NOTE: 換算後の端数は四捨五入する（取引ごとに丸めてから合計する）
+const CONVERSION_ROUNDING: RoundingMode = 'HALF_UP';
+
+type DatedExchangeRate = {
+  date: string; // YYYY-MM-DD
+  rate: ExchangeRate;
+  exponents: CurrencyExponents;
+};
+
+// NOTE: 同一通貨の換算は桁をずらさないため、補助単位の桁数はそろっていればよい
+const SAME_CURRENCY_EXPONENTS: CurrencyExponents = { from: 0, to: 0 };
+
+export class CurrencyConverter {
+  // NOTE: 換算元の通貨ごとに、日付の新しい順で保持する
+  private readonly ratesByCurrency: Map<string, DatedExchangeRate[]>;
+
+  constructor(
+    private readonly _baseCurrency: string,
+    rates: ApplicableExchangeRateRecord[],
+  ) {
+    this.ratesByCurrency = rates
+      .filter((record) => record.toCurrency === _baseCurrency)
+      .map((record) => ({
+        date: record.date,
+        rate: ExchangeRate.of(
+          record.fromCurrency,
+          record.toCurrency,
+          record.rate,
+        ),
+        exponents: { from: record.fromExponent, to: record.toExponent },
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .reduce((map, entry) => {
+        map.set(entry.rate.from, [...(map.get(entry.rate.from) ?? []), entry]);
+        return map;
+      }, new Map<string, DatedExchangeRate[]>());
+  }
+
+  get baseCurrency(): string {
+    return this._baseCurrency;
+  }
+
+  /**
+   * 取引日以前で直近のレートを使って基準通貨に換算する（該当するレートがない場合は null）
+   */
+  convert(money: Money, date: string): Money | null {
+    if (money.currency === this._baseCurrency) {
+      return money.convert(
+        ExchangeRate.identity(this._baseCurrency),
+        CONVERSION_ROUNDING,
+        SAME_CURRENCY_EXPONENTS,
+      );
+    }
+
+    const entry = this.findRate(money.currency, date);
+    return entry === undefined
+      ? null
+      : money.convert(entry.rate, CONVERSION_ROUNDING, entry.exponents);
+  }
+
+  private findRate(
+    currency: string,
+    date: string,
+  ): DatedExchangeRate | undefined {
+    return (this.ratesByCurrency.get(currency) ?? []).find(
+      (entry) => entry.date <= date,
+    );
+  }
+}
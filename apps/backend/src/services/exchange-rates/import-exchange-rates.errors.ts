@@ -0,0 +1,37 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidExchangeRateFileError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidExchangeRateFileError');
+  }
+}
+
+export class InvalidExchangeRateRowError extends DomainError {
+  constructor(
+    public readonly rowNumber: number,
+    reason: string,
+  ) {
+    super(`${rowNumber}行目: ${reason}`, 'InvalidExchangeRateRowError');
+  }
+}
+
+type UnexpectedImportExchangeRatesErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedImportExchangeRatesError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedImportExchangeRatesErrorParams) {
+    super(params.message, 'UnexpectedImportExchangeRatesError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ImportExchangeRatesError =
+  | InvalidExchangeRateFileError
+  | InvalidExchangeRateRowError
+  | UnexpectedImportExchangeRatesError;
@@ -0,0 +1,195 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidExchangeRateFileError,
+  InvalidExchangeRateRowError,
+  UnexpectedImportExchangeRatesError,
+} from './import-exchange-rates.errors';
+import { ImportExchangeRatesUseCase } from './import-exchange-rates.service';
+
+describe('ImportExchangeRatesUseCase（為替レートCSVインポート）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCurrency = (code: string): CurrencyRecord => ({
+    id: code.charCodeAt(0),
+    code,
+    name: code,
+    symbol: code,
+    exponent: code === 'JPY' ? 0 : 2,
+    isActive: true,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+  });
+
+  const toContent = (lines: string[]): Uint8Array =>
+    new TextEncoder().encode(lines.join('\n'));
+
+  const currencyRepo = () => ({
+    findAll: vi
+      .fn()
+      .mockResolvedValue([
+        makeCurrency('EUR'),
+        makeCurrency('JPY'),
+        makeCurrency('USD'),
+      ]),
+  });
+
+  const createMockContainer = (
+    mockExchangeRateRepo: Partial<IExchangeRateRepository>,
+    mockCurrencyRepo: Partial<ICurrencyRepository> = currencyRepo(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<IExchangeRateRepository>(TOKENS.ExchangeRateRepository)
+      .toConstantValue(mockExchangeRateRepo as IExchangeRateRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container.bind(ImportExchangeRatesUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('CSVの各行を正規化して登録し、登録件数を返す', async () => {
+      const mockExchangeRateRepo = {
+        upsertMany: vi.fn().mockResolvedValue(2),
+      };
+      const mockCurrencyRepo = currencyRepo();
+
+      const useCase = createMockContainer(
+        mockExchangeRateRepo,
+        mockCurrencyRepo,
+      ).get(ImportExchangeRatesUseCase);
+
+      const output = await useCase.execute({
+        content: toContent([
+          'date,from,to,rate',
+          '2025-01-01,usd,jpy,150.2500',
+          '2025-01-01,EUR,JPY,160',
+        ]),
+      });
+
+      expect(mockCurrencyRepo.findAll).toHaveBeenCalledWith({
+        includeInactive: true,
+      });
+      expect(mockExchangeRateRepo.upsertMany).toHaveBeenCalledWith([
+        {
+          fromCurrency: 'USD',
+          toCurrency: 'JPY',
+          date: '2025-01-01',
+          rate: '150.25',
+        },
+        {
+          fromCurrency: 'EUR',
+          toCurrency: 'JPY',
+          date: '2025-01-01',
+          rate: '160',
+        },
+      ]);
+      expect(output).toEqual({ imported: 2 });
+    });
+
+    it('同じ通貨ペア/日付の行が複数ある場合は後の行を登録する', async () => {
+      const mockExchangeRateRepo = {
+        upsertMany: vi.fn().mockResolvedValue(1),
+      };
+
+      const useCase = createMockContainer(mockExchangeRateRepo).get(
+        ImportExchangeRatesUseCase,
+      );
+
+      await useCase.execute({
+        content: toContent([
+          'from,to,date,rate',
+          'USD,JPY,2025-01-01,150',
+          'USD,JPY,2025-01-01,151',
+        ]),
+      });
+
+      expect(mockExchangeRateRepo.upsertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ rate: '151' }),
+      ]);
+    });
+  });
+
+  describe('異常系', () => {
+    it('必要な列がヘッダーにない場合は InvalidExchangeRateFileError になる', async () => {
+      const mockExchangeRateRepo = { upsertMany: vi.fn() };
+
+      const useCase = createMockContainer(mockExchangeRateRepo).get(
+        ImportExchangeRatesUseCase,
+      );
+
+      await expect(
+        useCase.execute({
+          content: toContent(['from,to,rate', 'USD,JPY,150']),
+        }),
+      ).rejects.toBeInstanceOf(InvalidExchangeRateFileError);
+      expect(mockExchangeRateRepo.upsertMany).not.toHaveBeenCalled();
+    });
+
+    it('ヘッダーのみの場合は InvalidExchangeRateFileError になる', async () => {
+      const useCase = createMockContainer({ upsertMany: vi.fn() }).get(
+        ImportExchangeRatesUseCase,
+      );
+
+      await expect(
+        useCase.execute({ content: toContent(['from,to,date,rate']) }),
+      ).rejects.toBeInstanceOf(InvalidExchangeRateFileError);
+    });
+
+    it('登録されていない通貨の行は行番号付きの InvalidExchangeRateRowError になり、1件も登録しない', async () => {
+      const mockExchangeRateRepo = { upsertMany: vi.fn() };
+
+      const useCase = createMockContainer(mockExchangeRateRepo).get(
+        ImportExchangeRatesUseCase,
+      );
+
+      const promise = useCase.execute({
+        content: toContent([
+          'from,to,date,rate',
+          'USD,JPY,2025-01-01,150',
+          'GBP,JPY,2025-01-01,190',
+        ]),
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(InvalidExchangeRateRowError);
+      await expect(promise).rejects.toMatchObject({ rowNumber: 3 });
+      expect(mockExchangeRateRepo.upsertMany).not.toHaveBeenCalled();
+    });
+
+    it('レート/日付が不正な行は InvalidExchangeRateRowError になる', async () => {
+      const useCase = createMockContainer({ upsertMany: vi.fn() }).get(
+        ImportExchangeRatesUseCase,
+      );
+
+      await expect(
+        useCase.execute({
+          content: toContent(['from,to,date,rate', 'USD,JPY,2025-01-01,0']),
+        }),
+      ).rejects.toThrow('2行目: レートは0より大きい必要があります');
+      await expect(
+        useCase.execute({
+          content: toContent(['from,to,date,rate', 'USD,JPY,2025/13/01,150']),
+        }),
+      ).rejects.toBeInstanceOf(InvalidExchangeRateRowError);
+    });
+
+    it('登録に失敗した場合は UnexpectedImportExchangeRatesError になる', async () => {
+      const useCase = createMockContainer({
+        upsertMany: vi.fn().mockRejectedValue(new Error('db error')),
+      }).get(ImportExchangeRatesUseCase);
+
+      await expect(
+        useCase.execute({
+          content: toContent(['from,to,date,rate', 'USD,JPY,2025-01-01,150']),
+        }),
+      ).rejects.toBeInstanceOf(UnexpectedImportExchangeRatesError);
+    });
+  });
+});
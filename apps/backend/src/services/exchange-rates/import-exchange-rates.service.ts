@@ -0,0 +1,263 @@
+// Application Layer: Import Exchange Rates Use Case
+// ローカルのCSVファイルからの為替レートの取り込みを担当する（外部APIには接続しない）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type {
+  ExchangeRateRecord,
+  IExchangeRateRepository,
+} from '../../domain/repositories/exchange-rate.repository.interface';
+import { ExchangeRate } from '../../domain/values/exchange-rate';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type CsvRecord,
+  decodeCsv,
+  parseCsv,
+} from '../transactions/import-transactions.parser';
+import {
+  type ImportExchangeRatesError,
+  InvalidExchangeRateFileError,
+  InvalidExchangeRateRowError,
+  UnexpectedImportExchangeRatesError,
+} from './import-exchange-rates.errors';
+
+const MAX_IMPORT_ROWS = 5000 as const;
+const CSV_ENCODING = 'utf-8' as const;
+const REQUIRED_COLUMNS = ['from', 'to', 'date', 'rate'] as const;
+
+type ExchangeRateColumn = (typeof REQUIRED_COLUMNS)[number];
+
+type ResolvedColumns = Record<ExchangeRateColumn, number>;
+
+type ParsedCsv = {
+  columns: ResolvedColumns;
+  records: CsvRecord[];
+};
+
+export type ImportExchangeRatesInput = {
+  content: Uint8Array;
+};
+
+export type ImportExchangeRatesOutput = {
+  imported: number;
+};
+
+const normalizeCell = (value: string | undefined): string =>
+  (value ?? '').normalize('NFKC').trim();
+
+const toPairKey = (record: ExchangeRateRecord): string =>
+  `${record.fromCurrency}:${record.toCurrency}:${record.date}`;
+
+/**
+ * 同じ通貨ペア/日付の行が複数ある場合は後の行を優先する
+ */
+const dedupeRows = (rows: ExchangeRateRecord[]): ExchangeRateRecord[] =>
+  Array.from(new Map(rows.map((row) => [toPairKey(row), row])).values());
+
+@injectable()
+export class ImportExchangeRatesUseCase {
+  @inject(TOKENS.ExchangeRateRepository)
+  private exchangeRateRepository!: IExchangeRateRepository;
+
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  async execute(
+    input: ImportExchangeRatesInput,
+  ): Promise<ImportExchangeRatesOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ImportExchangeRatesInput,
+  ): Effect.Effect<ImportExchangeRatesOutput, ImportExchangeRatesError> {
+    return pipe(
+      this.decodeContent(input.content),
+      Effect.flatMap((text) => this.parseRecords(text)),
+      Effect.flatMap((parsed) =>
+        pipe(
+          this.fetchCurrencyCodes(),
+          Effect.flatMap((currencyCodes) =>
+            Effect.forEach(parsed.records, (record) =>
+              this.validateRow(record, parsed.columns, currencyCodes),
+            ),
+          ),
+        ),
+      ),
+      Effect.flatMap((rows) => this.save(dedupeRows(rows))),
+      Effect.map((imported) => ({ imported })),
+    );
+  }
+
+  private decodeContent(
+    content: Uint8Array,
+  ): Effect.Effect<string, ImportExchangeRatesError> {
+    return Effect.try({
+      try: () => decodeCsv(content, CSV_ENCODING),
+      catch: () =>
+        new InvalidExchangeRateFileError(
+          `ファイルを${CSV_ENCODING}としてデコードできませんでした`,
+        ),
+    });
+  }
+
+  private parseRecords(
+    text: string,
+  ): Effect.Effect<ParsedCsv, ImportExchangeRatesError> {
+    return pipe(
+      Effect.sync(() => parseCsv(text)),
+      Effect.flatMap((records) =>
+        pipe(
+          this.resolveColumns(records[0]?.cells ?? []),
+          Effect.map((columns) => ({ columns, records: records.slice(1) })),
+        ),
+      ),
+      Effect.filterOrFail(
+        ({ records }) => records.length > 0,
+        () => new InvalidExchangeRateFileError('取り込む行がありません'),
+      ),
+      Effect.filterOrFail(
+        ({ records }) => records.length <= MAX_IMPORT_ROWS,
+        () =>
+          new InvalidExchangeRateFileError(
+            `一度に取り込めるのは${MAX_IMPORT_ROWS}行までです`,
+          ),
+      ),
+    );
+  }
+
+  private resolveColumns(
+    header: string[],
+  ): Effect.Effect<ResolvedColumns, ImportExchangeRatesError> {
+    const names = header.map((name) => normalizeCell(name).toLowerCase());
+
+    return pipe(
+      Effect.succeed(
+        Object.fromEntries(
+          REQUIRED_COLUMNS.map((column) => [column, names.indexOf(column)]),
+        ) as ResolvedColumns,
+      ),
+      Effect.filterOrFail(
+        (columns) => Object.values(columns).every((index) => index >= 0),
+        () =>
+          new InvalidExchangeRateFileError(
+            `ヘッダー行に ${REQUIRED_COLUMNS.join(',')} の列が必要です`,
+          ),
+      ),
+    );
+  }
+
+  private fetchCurrencyCodes(): Effect.Effect<
+    Set<string>,
+    ImportExchangeRatesError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findAll({ includeInactive: true }),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => new Set(records.map((record) => record.code))),
+    );
+  }
+
+  private validateRow(
+    record: CsvRecord,
+    columns: ResolvedColumns,
+    currencyCodes: Set<string>,
+  ): Effect.Effect<ExchangeRateRecord, ImportExchangeRatesError> {
+    const from = normalizeCell(record.cells[columns.from]).toUpperCase();
+    const to = normalizeCell(record.cells[columns.to]).toUpperCase();
+
+    return pipe(
+      Effect.succeed({ from, to }),
+      Effect.filterOrFail(
+        () => currencyCodes.has(from) && currencyCodes.has(to),
+        () =>
+          new InvalidExchangeRateRowError(
+            record.rowNumber,
+            `登録されていない通貨です: ${from}→${to}`,
+          ),
+      ),
+      Effect.flatMap(() =>
+        Effect.try({
+          try: () => ({
+            fromCurrency: from,
+            toCurrency: to,
+            date: TransactionDate.fromString(
+              normalizeCell(record.cells[columns.date]),
+            ).format(),
+            rate: ExchangeRate.of(
+              from,
+              to,
+              normalizeCell(record.cells[columns.rate]),
+            ).format(),
+          }),
+          catch: (cause) =>
+            new InvalidExchangeRateRowError(
+              record.rowNumber,
+              cause instanceof Error ? cause.message : String(cause),
+            ),
+        }),
+      ),
+    );
+  }
+
+  private save(
+    rows: ExchangeRateRecord[],
+  ): Effect.Effect<number, ImportExchangeRatesError> {
+    return Effect.tryPromise({
+      try: () => this.exchangeRateRepository.upsertMany(rows),
+      catch: (cause) =>
+        this.createUnexpectedError('為替レートの登録に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedImportExchangeRatesError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedImportExchangeRatesError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ImportExchangeRatesOutput, ImportExchangeRatesError>,
+  ): ImportExchangeRatesOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedImportExchangeRatesError({
+                message: '為替レートの取り込みに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { UserNotFoundError } from '../users/change-password.errors';
+import type { AlreadyLedgerMemberError } from './invite-ledger-member.errors';
+
+export { UserNotFoundError } from '../users/change-password.errors';
+export { AlreadyLedgerMemberError } from './invite-ledger-member.errors';
+
+export class InvalidLedgerInvitationError extends DomainError {
+  constructor() {
+    super(
+      '招待トークンが無効または期限切れです',
+      'InvalidLedgerInvitationError',
+    );
+  }
+}
+
+export class LedgerInvitationEmailMismatchError extends DomainError {
+  constructor() {
+    super(
+      '招待されたメールアドレスのアカウントでログインしてください',
+      'LedgerInvitationEmailMismatchError',
+    );
+  }
+}
+
+type UnexpectedAcceptLedgerInvitationErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedAcceptLedgerInvitationError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedAcceptLedgerInvitationErrorParams) {
+    super(params.message, 'UnexpectedAcceptLedgerInvitationError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type AcceptLedgerInvitationError =
+  | InvalidLedgerInvitationError
+  | LedgerInvitationEmailMismatchError
+  | AlreadyLedgerMemberError
+  | UserNotFoundError
+  | UnexpectedAcceptLedgerInvitationError;
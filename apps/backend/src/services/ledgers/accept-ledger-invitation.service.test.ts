@@ -0,0 +1,238 @@
+import { Container } from 'inversify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import type {
+  ILedgerInvitationRepository,
+  LedgerInvitationRecord,
+} from '../../domain/repositories/ledger-invitation.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { TOKENS } from '../di/tokens';
+import {
+  AlreadyLedgerMemberError,
+  InvalidLedgerInvitationError,
+  LedgerInvitationEmailMismatchError,
+  UserNotFoundError,
+} from './accept-ledger-invitation.errors';
+import { AcceptLedgerInvitationUseCase } from './accept-ledger-invitation.service';
+import { hashLedgerInvitationToken } from './ledger-invitation-token.service';
+
+describe('AcceptLedgerInvitationUseCase（帳簿への招待の承諾）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeInvitation = (
+    overrides: Partial<LedgerInvitationRecord> = {},
+  ): LedgerInvitationRecord => ({
+    id: 5,
+    ledgerId: 10,
+    email: 'partner@example.com',
+    role: 'EDITOR',
+    invitedBy: 1,
+    tokenHash: hashLedgerInvitationToken('plain-invitation-token'),
+    expiresAt: new Date('2025-01-08T00:00:00.000Z'),
+    acceptedAt: null,
+    createdAt: fixedNow,
+    ...overrides,
+  });
+
+  const makeUser = (email = 'partner@example.com') =>
+    User.reconstruct(
+      2,
+      email,
+      PasswordHash.reconstruct('salt:hash'),
+      'パートナー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const owner: LedgerMemberRecord = {
+    ledgerId: 10,
+    userId: 1,
+    name: 'オーナー',
+    email: 'owner@example.com',
+    role: 'OWNER',
+    joinedAt: fixedNow,
+  };
+
+  const setup = (params?: {
+    invitation?: LedgerInvitationRecord | null;
+    user?: User | null;
+    member?: LedgerMemberRecord | null;
+    accepted?: boolean;
+  }) => {
+    const invitationRepo: ILedgerInvitationRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(async () =>
+        params?.invitation === undefined ? makeInvitation() : params.invitation,
+      ),
+      markAccepted: vi.fn(async () => params?.accepted ?? true),
+      deletePendingByLedgerIdAndEmail: vi.fn(),
+    };
+    const ledgerRepo: ILedgerRepository = {
+      findByUserId: vi.fn(async () => [
+        {
+          id: 10,
+          name: '共有の家計簿',
+          role: 'EDITOR' as const,
+          createdAt: fixedNow,
+          updatedAt: fixedNow,
+        },
+      ]),
+      findDefaultIdByUserId: vi.fn(),
+      findMember: vi.fn(async () => params?.member ?? null),
+      findMembersByLedgerIds: vi.fn(async () => [
+        owner,
+        {
+          ...owner,
+          userId: 2,
+          name: 'パートナー',
+          email: 'partner@example.com',
+          role: 'EDITOR' as const,
+        },
+      ]),
+      addMember: vi.fn(async () => undefined),
+      removeMember: vi.fn(),
+    };
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () =>
+        params?.user === undefined ? makeUser() : params.user,
+      ),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<ILedgerInvitationRepository>(TOKENS.LedgerInvitationRepository)
+      .toConstantValue(invitationRepo);
+    container
+      .bind<ILedgerRepository>(TOKENS.LedgerRepository)
+      .toConstantValue(ledgerRepo);
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<AcceptLedgerInvitationUseCase>(AcceptLedgerInvitationUseCase)
+      .toSelf();
+
+    const useCase = container.get(AcceptLedgerInvitationUseCase);
+
+    return { useCase, invitationRepo, ledgerRepo };
+  };
+
+  const input = { userId: 2, token: 'plain-invitation-token' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedNow);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('招待を承諾済みにし、招待時のロールでメンバーに追加する', async () => {
+      const { useCase, invitationRepo, ledgerRepo } = setup();
+
+      const output = await useCase.execute(input);
+
+      expect(invitationRepo.findByTokenHash).toHaveBeenCalledWith(
+        hashLedgerInvitationToken('plain-invitation-token'),
+      );
+      expect(invitationRepo.markAccepted).toHaveBeenCalledWith(5);
+      expect(ledgerRepo.addMember).toHaveBeenCalledWith({
+        ledgerId: 10,
+        userId: 2,
+        role: 'EDITOR',
+      });
+      expect(output.ledger).toMatchObject({
+        id: 10,
+        name: '共有の家計簿',
+        role: 'EDITOR',
+      });
+      expect(output.ledger.members.map(({ userId }) => userId)).toEqual([1, 2]);
+    });
+  });
+
+  describe('異常系', () => {
+    it('招待が見つからない場合は例外になる', async () => {
+      const { useCase } = setup({ invitation: null });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidLedgerInvitationError,
+      );
+    });
+
+    it('承諾済みの招待は使えない', async () => {
+      const { useCase, ledgerRepo } = setup({
+        invitation: makeInvitation({ acceptedAt: fixedNow }),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidLedgerInvitationError,
+      );
+      expect(ledgerRepo.addMember).not.toHaveBeenCalled();
+    });
+
+    it('有効期限切れの招待は使えない', async () => {
+      const { useCase } = setup({
+        invitation: makeInvitation({ expiresAt: fixedNow }),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidLedgerInvitationError,
+      );
+    });
+
+    it('ユーザーが見つからない場合は例外になる', async () => {
+      const { useCase } = setup({ user: null });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UserNotFoundError,
+      );
+    });
+
+    it('招待先と異なるメールアドレスのユーザーは承諾できない', async () => {
+      const { useCase, invitationRepo } = setup({
+        user: makeUser('other@example.com'),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        LedgerInvitationEmailMismatchError,
+      );
+      expect(invitationRepo.markAccepted).not.toHaveBeenCalled();
+    });
+
+    it('既にメンバーの場合は例外になる', async () => {
+      const { useCase, invitationRepo } = setup({
+        member: { ...owner, userId: 2, role: 'VIEWER' },
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        AlreadyLedgerMemberError,
+      );
+      expect(invitationRepo.markAccepted).not.toHaveBeenCalled();
+    });
+
+    it('同時に承諾され、承諾済みにできなかった場合は例外になる', async () => {
+      const { useCase, ledgerRepo } = setup({ accepted: false });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidLedgerInvitationError,
+      );
+      expect(ledgerRepo.addMember).not.toHaveBeenCalled();
+    });
+  });
+});
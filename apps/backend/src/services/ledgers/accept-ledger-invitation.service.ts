@@ -0,0 +1,251 @@
+// Application Layer: Accept Ledger Invitation Use Case
+// 招待メールで受け取った招待トークンを1回だけ使って、ログイン中のユーザーを帳簿のメンバーに追加する
+// NOTE: 招待先と異なるメールアドレスのユーザーは承諾できない（トークンが転送された場合の対策）
+
+import type {
+  LedgersAcceptInput,
+  LedgersAcceptOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ILedgerRepository } from '../../domain/repositories/ledger.repository.interface';
+import type {
+  ILedgerInvitationRepository,
+  LedgerInvitationRecord,
+} from '../../domain/repositories/ledger-invitation.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type AcceptLedgerInvitationError,
+  AlreadyLedgerMemberError,
+  InvalidLedgerInvitationError,
+  LedgerInvitationEmailMismatchError,
+  UnexpectedAcceptLedgerInvitationError,
+  UserNotFoundError,
+} from './accept-ledger-invitation.errors';
+import { LedgerBuilder } from './ledger.builder';
+import { hashLedgerInvitationToken } from './ledger-invitation-token.service';
+
+export type AcceptLedgerInvitationInput = LedgersAcceptInput & {
+  userId: number;
+};
+
+@injectable()
+export class AcceptLedgerInvitationUseCase {
+  @inject(TOKENS.LedgerInvitationRepository)
+  private ledgerInvitationRepository!: ILedgerInvitationRepository;
+
+  @inject(TOKENS.LedgerRepository)
+  private ledgerRepository!: ILedgerRepository;
+
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  private readonly builder = new LedgerBuilder();
+
+  async execute(
+    input: AcceptLedgerInvitationInput,
+  ): Promise<LedgersAcceptOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: AcceptLedgerInvitationInput,
+  ): Effect.Effect<LedgersAcceptOutput, AcceptLedgerInvitationError> {
+    return pipe(
+      this.findInvitation(input.token),
+      Effect.flatMap((invitation) => this.ensureUsable(invitation)),
+      Effect.flatMap((invitation) =>
+        this.ensureInvitedUser(invitation, input.userId),
+      ),
+      Effect.flatMap((invitation) =>
+        this.ensureNotMember(invitation, input.userId),
+      ),
+      Effect.flatMap((invitation) => this.consumeInvitation(invitation)),
+      Effect.flatMap((invitation) => this.join(invitation, input.userId)),
+      Effect.map((ledger) => ({ ledger })),
+    );
+  }
+
+  private findInvitation(
+    token: string,
+  ): Effect.Effect<LedgerInvitationRecord, AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerInvitationRepository.findByTokenHash(
+            hashLedgerInvitationToken(token),
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('招待の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((invitation) =>
+        invitation === null
+          ? Effect.fail(new InvalidLedgerInvitationError())
+          : Effect.succeed(invitation),
+      ),
+    );
+  }
+
+  private ensureUsable(
+    invitation: LedgerInvitationRecord,
+  ): Effect.Effect<LedgerInvitationRecord, AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.succeed(invitation),
+      Effect.filterOrFail(
+        ({ acceptedAt }) => acceptedAt === null,
+        () => new InvalidLedgerInvitationError(),
+      ),
+      Effect.filterOrFail(
+        ({ expiresAt }) => expiresAt.getTime() > Date.now(),
+        () => new InvalidLedgerInvitationError(),
+      ),
+    );
+  }
+
+  private ensureInvitedUser(
+    invitation: LedgerInvitationRecord,
+    userId: number,
+  ): Effect.Effect<LedgerInvitationRecord, AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new UserNotFoundError())
+          : Effect.succeed(user),
+      ),
+      Effect.filterOrFail(
+        (user) => user.email === invitation.email,
+        () => new LedgerInvitationEmailMismatchError(),
+      ),
+      Effect.map(() => invitation),
+    );
+  }
+
+  private ensureNotMember(
+    invitation: LedgerInvitationRecord,
+    userId: number,
+  ): Effect.Effect<LedgerInvitationRecord, AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerRepository.findMember(invitation.ledgerId, userId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '帳簿のメンバーの取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (member) => member === null,
+        () => new AlreadyLedgerMemberError(invitation.email),
+      ),
+      Effect.map(() => invitation),
+    );
+  }
+
+  // 同時に使われて先に承諾済みになっていた場合も無効な招待として扱う
+  private consumeInvitation(
+    invitation: LedgerInvitationRecord,
+  ): Effect.Effect<LedgerInvitationRecord, AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerInvitationRepository.markAccepted(invitation.id),
+        catch: (cause) =>
+          this.createUnexpectedError('招待の更新に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (accepted) => accepted,
+        () => new InvalidLedgerInvitationError(),
+      ),
+      Effect.map(() => invitation),
+    );
+  }
+
+  private join(
+    invitation: LedgerInvitationRecord,
+    userId: number,
+  ): Effect.Effect<LedgersAcceptOutput['ledger'], AcceptLedgerInvitationError> {
+    return pipe(
+      Effect.tryPromise({
+        try: async () => {
+          await this.ledgerRepository.addMember({
+            ledgerId: invitation.ledgerId,
+            userId,
+            role: invitation.role,
+          });
+          const ledgers = await this.ledgerRepository.findByUserId(userId);
+          const members = await this.ledgerRepository.findMembersByLedgerIds([
+            invitation.ledgerId,
+          ]);
+          return {
+            ledger: ledgers.find(({ id }) => id === invitation.ledgerId),
+            members,
+          };
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿への参加に失敗しました', cause),
+      }),
+      Effect.flatMap(({ ledger, members }) =>
+        ledger === undefined
+          ? Effect.fail(
+              this.createUnexpectedError(
+                '参加した帳簿が見つかりません',
+                `ledgerId: ${invitation.ledgerId}`,
+              ),
+            )
+          : Effect.succeed(this.builder.build(ledger, members)),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedAcceptLedgerInvitationError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedAcceptLedgerInvitationError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<LedgersAcceptOutput, AcceptLedgerInvitationError>,
+  ): LedgersAcceptOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedAcceptLedgerInvitationError({
+                message: '帳簿への招待の承諾に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from './ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from './ledger-access.errors';
+
+export class AlreadyLedgerMemberError extends DomainError {
+  constructor(email: string) {
+    super(`既に帳簿のメンバーです: ${email}`, 'AlreadyLedgerMemberError');
+  }
+}
+
+type UnexpectedInviteLedgerMemberErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedInviteLedgerMemberError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedInviteLedgerMemberErrorParams) {
+    super(params.message, 'UnexpectedInviteLedgerMemberError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type InviteLedgerMemberError =
+  | LedgerPermissionDeniedError
+  | AlreadyLedgerMemberError
+  | UnexpectedInviteLedgerMemberError;
@@ -0,0 +1,222 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import type { LedgerInvitationRecord } from '../../domain/repositories/ledger-invitation.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender } from '../mail/mail-sender';
+import {
+  AlreadyLedgerMemberError,
+  LedgerPermissionDeniedError,
+  UnexpectedInviteLedgerMemberError,
+} from './invite-ledger-member.errors';
+import { InviteLedgerMemberUseCase } from './invite-ledger-member.service';
+import type { ILedgerAccessService } from './ledger-access.service';
+import type { ILedgerInvitationTokenService } from './ledger-invitation-token.service';
+
+describe('InviteLedgerMemberUseCase（帳簿へのメンバー招待）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const invitation: LedgerInvitationRecord = {
+    id: 5,
+    ledgerId: 10,
+    email: 'partner@example.com',
+    role: 'EDITOR',
+    invitedBy: 1,
+    tokenHash: 'hashed',
+    expiresAt: new Date('2025-01-08T00:00:00.000Z'),
+    acceptedAt: null,
+    createdAt: fixedNow,
+  };
+
+  const makeUser = () =>
+    User.reconstruct(
+      2,
+      'partner@example.com',
+      PasswordHash.reconstruct('salt:hash'),
+      'パートナー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const setup = (params?: {
+    role?: LedgerRole | null;
+    registeredUser?: User | null;
+    member?: LedgerMemberRecord | null;
+    mailSender?: Partial<IMailSender>;
+  }) => {
+    const role = params?.role === undefined ? LedgerRole.owner() : params.role;
+    const ledgerAccessService: ILedgerAccessService = {
+      findAccess: vi.fn(async () =>
+        role === null ? null : { ledgerId: 10, role },
+      ),
+    };
+    const ledgerRepo: ILedgerRepository = {
+      findByUserId: vi.fn(),
+      findDefaultIdByUserId: vi.fn(),
+      findMember: vi.fn(async () => params?.member ?? null),
+      findMembersByLedgerIds: vi.fn(),
+      addMember: vi.fn(),
+      removeMember: vi.fn(),
+    };
+    const userRepo: IUserRepository = {
+      findById: vi.fn(),
+      findByEmail: vi.fn(async () => params?.registeredUser ?? null),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+    const ledgerInvitationTokenService: ILedgerInvitationTokenService = {
+      issue: vi.fn(async () => ({
+        token: 'plain-invitation-token',
+        invitation,
+      })),
+    };
+    const mailSender: IMailSender = {
+      send: vi.fn(async () => undefined),
+      ...params?.mailSender,
+    };
+
+    const container = new Container();
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(ledgerAccessService);
+    container
+      .bind<ILedgerRepository>(TOKENS.LedgerRepository)
+      .toConstantValue(ledgerRepo);
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ILedgerInvitationTokenService>(TOKENS.LedgerInvitationTokenService)
+      .toConstantValue(ledgerInvitationTokenService);
+    container.bind<IMailSender>(TOKENS.MailSender).toConstantValue(mailSender);
+    container
+      .bind<InviteLedgerMemberUseCase>(InviteLedgerMemberUseCase)
+      .toSelf();
+
+    const useCase = container.get(InviteLedgerMemberUseCase);
+
+    return {
+      useCase,
+      ledgerAccessService,
+      ledgerRepo,
+      ledgerInvitationTokenService,
+      mailSender,
+    };
+  };
+
+  const input = {
+    userId: 1,
+    ledgerId: 10,
+    email: 'Partner@Example.com',
+    role: 'EDITOR',
+  } as const;
+
+  describe('正常系', () => {
+    it('正規化したメールアドレスで招待を発行し、招待トークンをメールで送る', async () => {
+      const {
+        useCase,
+        ledgerAccessService,
+        ledgerInvitationTokenService,
+        mailSender,
+      } = setup();
+
+      const output = await useCase.execute(input);
+
+      expect(output).toEqual({
+        invitation: {
+          id: 5,
+          ledgerId: 10,
+          email: 'partner@example.com',
+          role: 'EDITOR',
+          expiresAt: '2025-01-08T00:00:00.000Z',
+        },
+      });
+      expect(ledgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 1,
+        ledgerId: 10,
+      });
+      expect(ledgerInvitationTokenService.issue).toHaveBeenCalledWith({
+        ledgerId: 10,
+        email: 'partner@example.com',
+        role: 'EDITOR',
+        invitedBy: 1,
+      });
+      expect(mailSender.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'partner@example.com',
+          text: expect.stringContaining('plain-invitation-token'),
+        }),
+      );
+    });
+
+    it('登録済みでもメンバーでないユーザーは招待できる', async () => {
+      const { useCase, ledgerRepo } = setup({ registeredUser: makeUser() });
+
+      await expect(useCase.execute(input)).resolves.toBeDefined();
+      expect(ledgerRepo.findMember).toHaveBeenCalledWith(10, 2);
+    });
+  });
+
+  describe('異常系', () => {
+    it('編集者は招待できない', async () => {
+      const { useCase, ledgerInvitationTokenService } = setup({
+        role: LedgerRole.editor(),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        LedgerPermissionDeniedError,
+      );
+      expect(ledgerInvitationTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('帳簿のメンバーでない場合は招待できない', async () => {
+      const { useCase } = setup({ role: null });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        LedgerPermissionDeniedError,
+      );
+    });
+
+    it('既にメンバーの場合は例外になる', async () => {
+      const { useCase, ledgerInvitationTokenService } = setup({
+        registeredUser: makeUser(),
+        member: {
+          ledgerId: 10,
+          userId: 2,
+          name: 'パートナー',
+          email: 'partner@example.com',
+          role: 'VIEWER',
+          joinedAt: fixedNow,
+        },
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        AlreadyLedgerMemberError,
+      );
+      expect(ledgerInvitationTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('メールの送信に失敗した場合は例外になる', async () => {
+      const { useCase } = setup({
+        mailSender: { send: vi.fn().mockRejectedValue(new Error('smtp')) },
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UnexpectedInviteLedgerMemberError,
+      );
+    });
+  });
+});
@@ -0,0 +1,226 @@
+// Application Layer: Invite Ledger Member Use Case
+// 帳簿のオーナーが、メールアドレス宛てに招待トークンを送ってメンバーを招待する
+// NOTE: 招待されたユーザーが承諾するまでメンバーには追加しない（承諾は AcceptLedgerInvitationUseCase）
+
+import type {
+  LedgersInviteInput,
+  LedgersInviteOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { User } from '../../domain/entities/user.entity';
+import type { ILedgerRepository } from '../../domain/repositories/ledger.repository.interface';
+import type { LedgerInvitationRecord } from '../../domain/repositories/ledger-invitation.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender, MailMessage } from '../mail/mail-sender';
+import {
+  AlreadyLedgerMemberError,
+  type InviteLedgerMemberError,
+  LedgerPermissionDeniedError,
+  UnexpectedInviteLedgerMemberError,
+} from './invite-ledger-member.errors';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from './ledger-access.service';
+import {
+  type ILedgerInvitationTokenService,
+  LEDGER_INVITATION_EXPIRES_IN_DAYS,
+} from './ledger-invitation-token.service';
+
+const LEDGER_INVITATION_MAIL_SUBJECT = '【家計簿アプリ】共有帳簿への招待';
+
+const ROLE_LABELS = {
+  EDITOR: '編集者（取引の登録・編集ができます）',
+  VIEWER: '閲覧者（取引の閲覧のみできます）',
+} as const;
+
+export type InviteLedgerMemberInput = LedgersInviteInput & {
+  userId: number;
+};
+
+const toInvitationMail = (
+  invitation: LedgerInvitationRecord,
+  token: string,
+): MailMessage => ({
+  to: invitation.email,
+  subject: LEDGER_INVITATION_MAIL_SUBJECT,
+  text: [
+    '家計簿アプリの共有帳簿に招待されました。',
+    `ロール: ${ROLE_LABELS[invitation.role]}`,
+    '',
+    `このメールアドレスのアカウントでログインし、以下の招待トークンを使用して${LEDGER_INVITATION_EXPIRES_IN_DAYS}日以内に招待を承諾してください。`,
+    '',
+    token,
+    '',
+    'アカウントをお持ちでない場合は、このメールアドレスで登録してから承諾してください。',
+    'このメールに心当たりがない場合は、破棄してください。',
+  ].join('\n'),
+});
+
+@injectable()
+export class InviteLedgerMemberUseCase {
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.LedgerRepository)
+  private ledgerRepository!: ILedgerRepository;
+
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.LedgerInvitationTokenService)
+  private ledgerInvitationTokenService!: ILedgerInvitationTokenService;
+
+  @inject(TOKENS.MailSender)
+  private mailSender!: IMailSender;
+
+  async execute(input: InviteLedgerMemberInput): Promise<LedgersInviteOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: InviteLedgerMemberInput,
+  ): Effect.Effect<LedgersInviteOutput, InviteLedgerMemberError> {
+    const email = User.normalizeEmail(input.email);
+
+    return pipe(
+      this.authorize(input.userId, input.ledgerId),
+      Effect.flatMap(() => this.ensureNotMember(input.ledgerId, email)),
+      Effect.flatMap(() =>
+        this.sendInvitation({
+          ledgerId: input.ledgerId,
+          email,
+          role: input.role,
+          invitedBy: input.userId,
+        }),
+      ),
+      Effect.map((invitation) => ({
+        invitation: {
+          id: invitation.id,
+          ledgerId: invitation.ledgerId,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt.toISOString(),
+        },
+      })),
+    );
+  }
+
+  private authorize(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, InviteLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess =>
+          access?.role.can('manageMembers') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  // 未登録のメールアドレスも招待できる（登録後に承諾してもらう）
+  private ensureNotMember(
+    ledgerId: number,
+    email: string,
+  ): Effect.Effect<void, InviteLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: async () => {
+          const user = await this.userRepository.findByEmail(email);
+          return user === null
+            ? null
+            : await this.ledgerRepository.findMember(ledgerId, Number(user.id));
+        },
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '帳簿のメンバーの取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (member) => member === null,
+        () => new AlreadyLedgerMemberError(email),
+      ),
+      Effect.asVoid,
+    );
+  }
+
+  private sendInvitation(params: {
+    ledgerId: number;
+    email: string;
+    role: 'EDITOR' | 'VIEWER';
+    invitedBy: number;
+  }): Effect.Effect<LedgerInvitationRecord, InviteLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerInvitationTokenService.issue(params),
+        catch: (cause) =>
+          this.createUnexpectedError('招待トークンの発行に失敗しました', cause),
+      }),
+      Effect.flatMap(({ token, invitation }) =>
+        Effect.tryPromise({
+          try: async () => {
+            await this.mailSender.send(toInvitationMail(invitation, token));
+            return invitation;
+          },
+          catch: (cause) =>
+            this.createUnexpectedError('招待メールの送信に失敗しました', cause),
+        }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedInviteLedgerMemberError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedInviteLedgerMemberError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<LedgersInviteOutput, InviteLedgerMemberError>,
+  ): LedgersInviteOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedInviteLedgerMemberError({
+                message: '帳簿への招待に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+/**
+ * 帳簿のメンバーでない、またはロールで許可されていない操作をした場合のエラー
+ */
+export class LedgerPermissionDeniedError extends DomainError {
+  constructor() {
+    super('帳簿に対する権限がありません', 'LedgerPermissionDeniedError');
+  }
+}
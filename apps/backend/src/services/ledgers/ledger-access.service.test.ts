@@ -0,0 +1,89 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import { TOKENS } from '../di/tokens';
+import { LedgerAccessService } from './ledger-access.service';
+
+describe('LedgerAccessService（帳簿へのアクセス権の取得サービス）', () => {
+  const member = (
+    overrides: Partial<LedgerMemberRecord> = {},
+  ): LedgerMemberRecord => ({
+    ledgerId: 10,
+    userId: 1,
+    name: 'テストユーザー',
+    email: 'test@example.com',
+    role: 'EDITOR',
+    joinedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const setup = (params: {
+    defaultLedgerId?: number | null;
+    member?: LedgerMemberRecord | null;
+  }) => {
+    const repo: ILedgerRepository = {
+      findByUserId: vi.fn(),
+      findDefaultIdByUserId: vi.fn(async () => params.defaultLedgerId ?? null),
+      findMember: vi.fn(async () => params.member ?? null),
+      findMembersByLedgerIds: vi.fn(),
+      addMember: vi.fn(),
+      removeMember: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<ILedgerRepository>(TOKENS.LedgerRepository)
+      .toConstantValue(repo);
+    container.bind<LedgerAccessService>(LedgerAccessService).toSelf();
+
+    return { service: container.get(LedgerAccessService), repo };
+  };
+
+  describe('正常系', () => {
+    it('指定した帳簿でのロールを返す', async () => {
+      const { service, repo } = setup({ member: member({ role: 'VIEWER' }) });
+
+      const access = await service.findAccess({ userId: 1, ledgerId: 10 });
+
+      expect(access?.ledgerId).toBe(10);
+      expect(access?.role.value).toBe('VIEWER');
+      expect(repo.findMember).toHaveBeenCalledWith(10, 1);
+      expect(repo.findDefaultIdByUserId).not.toHaveBeenCalled();
+    });
+
+    it('ledgerId を省略した場合は既定の帳簿を対象にする', async () => {
+      const { service, repo } = setup({
+        defaultLedgerId: 3,
+        member: member({ ledgerId: 3, role: 'OWNER' }),
+      });
+
+      const access = await service.findAccess({ userId: 1 });
+
+      expect(access?.ledgerId).toBe(3);
+      expect(access?.role.isOwner()).toBe(true);
+      expect(repo.findDefaultIdByUserId).toHaveBeenCalledWith(1);
+      expect(repo.findMember).toHaveBeenCalledWith(3, 1);
+    });
+  });
+
+  describe('異常系', () => {
+    it('帳簿のメンバーでない場合は null を返す', async () => {
+      const { service } = setup({ member: null });
+
+      await expect(
+        service.findAccess({ userId: 1, ledgerId: 10 }),
+      ).resolves.toBeNull();
+    });
+
+    it('既定の帳簿がない場合は null を返す', async () => {
+      const { service, repo } = setup({ defaultLedgerId: null });
+
+      await expect(service.findAccess({ userId: 1 })).resolves.toBeNull();
+      expect(repo.findMember).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { inject, injectable } from 'inversify';
+
+import type { ILedgerRepository } from '../../domain/repositories/ledger.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+
+export type LedgerAccess = {
+  ledgerId: number;
+  role: LedgerRole;
+};
+
+export interface ILedgerAccessService {
+  /**
+   * ユーザーの帳簿へのアクセス権（ロール）を取得する
+   * ledgerId を省略した場合は既定の帳簿（ユーザー登録時に作成した個人用の帳簿）を対象にする
+   * 帳簿のメンバーでない場合は null を返す
+   */
+  findAccess(params: {
+    userId: number;
+    ledgerId?: number;
+  }): Promise<LedgerAccess | null>;
+}
+
+@injectable()
+export class LedgerAccessService implements ILedgerAccessService {
+  @inject(TOKENS.LedgerRepository)
+  private ledgerRepository!: ILedgerRepository;
+
+  async findAccess(params: {
+    userId: number;
+    ledgerId?: number;
+  }): Promise<LedgerAccess | null> {
+    const ledgerId =
+      params.ledgerId ??
+      (await this.ledgerRepository.findDefaultIdByUserId(params.userId));
+
+    if (ledgerId === null) {
+      return null;
+    }
+
+    const member = await this.ledgerRepository.findMember(
+      ledgerId,
+      params.userId,
+    );
+
+    return member === null
+      ? null
+      : { ledgerId, role: LedgerRole.fromString(member.role) };
+  }
+}
@@ -0,0 +1,77 @@
+import { Container } from 'inversify';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { ILedgerInvitationRepository } from '../../domain/repositories/ledger-invitation.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  hashLedgerInvitationToken,
+  LedgerInvitationTokenService,
+} from './ledger-invitation-token.service';
+
+describe('LedgerInvitationTokenService（帳簿への招待トークン発行サービス）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const setup = () => {
+    const repo: ILedgerInvitationRepository = {
+      create: vi.fn(async (params) => ({
+        id: 1,
+        ...params,
+        acceptedAt: null,
+        createdAt: fixedNow,
+      })),
+      findByTokenHash: vi.fn(),
+      markAccepted: vi.fn(),
+      deletePendingByLedgerIdAndEmail: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<ILedgerInvitationRepository>(TOKENS.LedgerInvitationRepository)
+      .toConstantValue(repo);
+    container
+      .bind<LedgerInvitationTokenService>(LedgerInvitationTokenService)
+      .toSelf();
+
+    const service = container.get(LedgerInvitationTokenService);
+
+    return { service, repo };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('正常系', () => {
+    it('未承諾の招待を削除してから、招待先とハッシュ値、7日後の有効期限を保存する', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(fixedNow);
+      const { service, repo } = setup();
+
+      const { token, invitation } = await service.issue({
+        ledgerId: 10,
+        email: 'partner@example.com',
+        role: 'EDITOR',
+        invitedBy: 1,
+      });
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(repo.deletePendingByLedgerIdAndEmail).toHaveBeenCalledWith(
+        10,
+        'partner@example.com',
+      );
+      expect(repo.create).toHaveBeenCalledWith({
+        ledgerId: 10,
+        email: 'partner@example.com',
+        role: 'EDITOR',
+        invitedBy: 1,
+        tokenHash: hashLedgerInvitationToken(token),
+        expiresAt: new Date('2025-01-08T00:00:00.000Z'),
+      });
+      expect(invitation.id).toBe(1);
+      expect(
+        vi.mocked(repo.deletePendingByLedgerIdAndEmail).mock
+          .invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(repo.create).mock.invocationCallOrder[0]);
+    });
+  });
+});
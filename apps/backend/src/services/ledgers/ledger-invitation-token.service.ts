@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ILedgerInvitationRepository,
+  LedgerInvitationRecord,
+} from '../../domain/repositories/ledger-invitation.repository.interface';
+import { TOKENS } from '../di/tokens';
+
+export type IssuedLedgerInvitation = {
+  token: string;
+  invitation: LedgerInvitationRecord;
+};
+
+export interface ILedgerInvitationTokenService {
+  /**
+   * 招待先のメールアドレスに送る招待トークンを発行し、ハッシュ値のみを保存する
+   * 同じ帳簿・メールアドレスへの未承諾の招待は削除する（最後に送った招待だけが有効）
+   */
+  issue(params: {
+    ledgerId: number;
+    email: string;
+    role: 'EDITOR' | 'VIEWER';
+    invitedBy: number;
+  }): Promise<IssuedLedgerInvitation>;
+}
+
+/** 帳簿への招待トークンの有効期間（7日間） */
+export const LEDGER_INVITATION_EXPIRES_IN_DAYS = 7;
+
+const LEDGER_INVITATION_TOKEN_BYTES = 32;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** DB にはトークン本体ではなく SHA-256 のハッシュ値のみを保存する */
+export const hashLedgerInvitationToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@injectable()
+export class LedgerInvitationTokenService
+  implements ILedgerInvitationTokenService
+{
+  @inject(TOKENS.LedgerInvitationRepository)
+  private ledgerInvitationRepository!: ILedgerInvitationRepository;
+
+  async issue(params: {
+    ledgerId: number;
+    email: string;
+    role: 'EDITOR' | 'VIEWER';
+    invitedBy: number;
+  }): Promise<IssuedLedgerInvitation> {
+    const token = randomBytes(LEDGER_INVITATION_TOKEN_BYTES).toString(
+      'base64url',
+    );
+
+    await this.ledgerInvitationRepository.deletePendingByLedgerIdAndEmail(
+      params.ledgerId,
+      params.email,
+    );
+    const invitation = await this.ledgerInvitationRepository.create({
+      ledgerId: params.ledgerId,
+      email: params.email,
+      role: params.role,
+      invitedBy: params.invitedBy,
+      tokenHash: hashLedgerInvitationToken(token),
+      expiresAt: new Date(
+        Date.now() + LEDGER_INVITATION_EXPIRES_IN_DAYS * MS_PER_DAY,
+      ),
+    });
+
+    return { token, invitation };
+  }
+}
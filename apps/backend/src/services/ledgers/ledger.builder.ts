@@ -0,0 +1,29 @@
+// Application Layer: Ledger Builder
+// 帳簿ユースケースの出力DTO組み立てを担当する
+
+import type { Ledger } from '@account-book-app/shared';
+
+import type {
+  LedgerMemberRecord,
+  LedgerWithRoleRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+
+export class LedgerBuilder {
+  build(ledger: LedgerWithRoleRecord, members: LedgerMemberRecord[]): Ledger {
+    return {
+      id: ledger.id,
+      name: ledger.name,
+      role: ledger.role,
+      members: members
+        .filter((member) => member.ledgerId === ledger.id)
+        .map((member) => ({
+          userId: member.userId,
+          name: member.name,
+          email: member.email,
+          role: member.role,
+          joinedAt: member.joinedAt.toISOString(),
+        })),
+      createdAt: ledger.createdAt.toISOString(),
+    };
+  }
+}
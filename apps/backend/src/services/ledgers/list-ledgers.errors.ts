@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListLedgersErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListLedgersError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListLedgersErrorParams) {
+    super(params.message, 'UnexpectedListLedgersError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListLedgersError = UnexpectedListLedgersError;
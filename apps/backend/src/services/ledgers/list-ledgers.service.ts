@@ -0,0 +1,98 @@
+// Application Layer: List Ledgers Use Case
+// ユーザーが所属する帳簿の一覧（自分のロールとメンバー付き）の取得を担当する
+
+import type { LedgersListOutput } from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ILedgerRepository } from '../../domain/repositories/ledger.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { LedgerBuilder } from './ledger.builder';
+import {
+  type ListLedgersError,
+  UnexpectedListLedgersError,
+} from './list-ledgers.errors';
+
+export type ListLedgersInput = {
+  userId: number;
+};
+
+@injectable()
+export class ListLedgersUseCase {
+  @inject(TOKENS.LedgerRepository)
+  private ledgerRepository!: ILedgerRepository;
+
+  private readonly builder = new LedgerBuilder();
+
+  async execute(input: ListLedgersInput): Promise<LedgersListOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListLedgersInput,
+  ): Effect.Effect<LedgersListOutput, ListLedgersError> {
+    return pipe(
+      Effect.tryPromise({
+        try: async () => {
+          const ledgers = await this.ledgerRepository.findByUserId(
+            input.userId,
+          );
+          const members = await this.ledgerRepository.findMembersByLedgerIds(
+            ledgers.map((ledger) => ledger.id),
+          );
+          return { ledgers, members };
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿一覧の取得に失敗しました', cause),
+      }),
+      Effect.map(({ ledgers, members }) => ({
+        ledgers: ledgers.map((ledger) => this.builder.build(ledger, members)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListLedgersError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListLedgersError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<LedgersListOutput, ListLedgersError>,
+  ): LedgersListOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListLedgersError({
+                message: '帳簿一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
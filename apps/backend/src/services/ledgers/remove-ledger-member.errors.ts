@@ -0,0 +1,41 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from './ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from './ledger-access.errors';
+
+export class LedgerMemberNotFoundError extends DomainError {
+  constructor(userId: number) {
+    super(
+      `帳簿のメンバーが見つかりません: ${userId}`,
+      'LedgerMemberNotFoundError',
+    );
+  }
+}
+
+export class LedgerOwnerCannotBeRemovedError extends DomainError {
+  constructor() {
+    super('帳簿のオーナーは削除できません', 'LedgerOwnerCannotBeRemovedError');
+  }
+}
+
+type UnexpectedRemoveLedgerMemberErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRemoveLedgerMemberError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRemoveLedgerMemberErrorParams) {
+    super(params.message, 'UnexpectedRemoveLedgerMemberError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RemoveLedgerMemberError =
+  | LedgerPermissionDeniedError
+  | LedgerMemberNotFoundError
+  | LedgerOwnerCannotBeRemovedError
+  | UnexpectedRemoveLedgerMemberError;
@@ -0,0 +1,139 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from './ledger-access.service';
+import {
+  LedgerMemberNotFoundError,
+  LedgerOwnerCannotBeRemovedError,
+  LedgerPermissionDeniedError,
+} from './remove-ledger-member.errors';
+import { RemoveLedgerMemberUseCase } from './remove-ledger-member.service';
+
+describe('RemoveLedgerMemberUseCase（帳簿メンバーの削除）', () => {
+  const member = (
+    overrides: Partial<LedgerMemberRecord> = {},
+  ): LedgerMemberRecord => ({
+    ledgerId: 10,
+    userId: 2,
+    name: 'パートナー',
+    email: 'partner@example.com',
+    role: 'EDITOR',
+    joinedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const setup = (params: {
+    actorRole: LedgerRole | null;
+    target?: LedgerMemberRecord | null;
+    removed?: boolean;
+  }) => {
+    const ledgerAccessService: ILedgerAccessService = {
+      findAccess: vi.fn(async () =>
+        params.actorRole === null
+          ? null
+          : { ledgerId: 10, role: params.actorRole },
+      ),
+    };
+    const ledgerRepo: ILedgerRepository = {
+      findByUserId: vi.fn(),
+      findDefaultIdByUserId: vi.fn(),
+      findMember: vi.fn(async () =>
+        params.target === undefined ? member() : params.target,
+      ),
+      findMembersByLedgerIds: vi.fn(),
+      addMember: vi.fn(),
+      removeMember: vi.fn(async () => params.removed ?? true),
+    };
+
+    const container = new Container();
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(ledgerAccessService);
+    container
+      .bind<ILedgerRepository>(TOKENS.LedgerRepository)
+      .toConstantValue(ledgerRepo);
+    container
+      .bind<RemoveLedgerMemberUseCase>(RemoveLedgerMemberUseCase)
+      .toSelf();
+
+    return { useCase: container.get(RemoveLedgerMemberUseCase), ledgerRepo };
+  };
+
+  describe('正常系', () => {
+    it('オーナーはメンバーを削除できる', async () => {
+      const { useCase, ledgerRepo } = setup({ actorRole: LedgerRole.owner() });
+
+      const output = await useCase.execute({
+        actorUserId: 1,
+        ledgerId: 10,
+        userId: 2,
+      });
+
+      expect(output).toEqual({ removed: true });
+      expect(ledgerRepo.findMember).toHaveBeenCalledWith(10, 2);
+      expect(ledgerRepo.removeMember).toHaveBeenCalledWith(10, 2);
+    });
+
+    it('メンバーは自分自身を削除して帳簿から抜けられる', async () => {
+      const { useCase, ledgerRepo } = setup({
+        actorRole: LedgerRole.viewer(),
+        target: member({ role: 'VIEWER' }),
+      });
+
+      await expect(
+        useCase.execute({ actorUserId: 2, ledgerId: 10, userId: 2 }),
+      ).resolves.toEqual({ removed: true });
+      expect(ledgerRepo.removeMember).toHaveBeenCalledWith(10, 2);
+    });
+  });
+
+  describe('異常系', () => {
+    it('編集者は他のメンバーを削除できない', async () => {
+      const { useCase, ledgerRepo } = setup({
+        actorRole: LedgerRole.editor(),
+      });
+
+      await expect(
+        useCase.execute({ actorUserId: 3, ledgerId: 10, userId: 2 }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(ledgerRepo.removeMember).not.toHaveBeenCalled();
+    });
+
+    it('帳簿のメンバーでない場合は削除できない', async () => {
+      const { useCase } = setup({ actorRole: null });
+
+      await expect(
+        useCase.execute({ actorUserId: 3, ledgerId: 10, userId: 3 }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+    });
+
+    it('オーナーは削除できない', async () => {
+      const { useCase, ledgerRepo } = setup({
+        actorRole: LedgerRole.owner(),
+        target: member({ userId: 1, role: 'OWNER' }),
+      });
+
+      await expect(
+        useCase.execute({ actorUserId: 1, ledgerId: 10, userId: 1 }),
+      ).rejects.toBeInstanceOf(LedgerOwnerCannotBeRemovedError);
+      expect(ledgerRepo.removeMember).not.toHaveBeenCalled();
+    });
+
+    it('削除対象がメンバーでない場合は例外になる', async () => {
+      const { useCase } = setup({
+        actorRole: LedgerRole.owner(),
+        target: null,
+      });
+
+      await expect(
+        useCase.execute({ actorUserId: 1, ledgerId: 10, userId: 9 }),
+      ).rejects.toBeInstanceOf(LedgerMemberNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+// Application Layer: Remove Ledger Member Use Case
+// 帳簿のオーナーがメンバーを削除する（メンバー自身は自分を削除して帳簿から抜けられる）
+// NOTE: オーナーは削除できない（帳簿ごとにオーナーが1人いる前提を崩さないため）
+
+import type {
+  LedgersRemoveMemberInput,
+  LedgersRemoveMemberOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type {
+  ILedgerRepository,
+  LedgerMemberRecord,
+} from '../../domain/repositories/ledger.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from './ledger-access.service';
+import {
+  LedgerMemberNotFoundError,
+  LedgerOwnerCannotBeRemovedError,
+  LedgerPermissionDeniedError,
+  type RemoveLedgerMemberError,
+  UnexpectedRemoveLedgerMemberError,
+} from './remove-ledger-member.errors';
+
+export type RemoveLedgerMemberInput = LedgersRemoveMemberInput & {
+  actorUserId: number;
+};
+
+@injectable()
+export class RemoveLedgerMemberUseCase {
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.LedgerRepository)
+  private ledgerRepository!: ILedgerRepository;
+
+  async execute(
+    input: RemoveLedgerMemberInput,
+  ): Promise<LedgersRemoveMemberOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: RemoveLedgerMemberInput,
+  ): Effect.Effect<LedgersRemoveMemberOutput, RemoveLedgerMemberError> {
+    return pipe(
+      this.authorize(input),
+      Effect.flatMap(() => this.findMember(input.ledgerId, input.userId)),
+      Effect.filterOrFail(
+        (member) => member.role !== 'OWNER',
+        () => new LedgerOwnerCannotBeRemovedError(),
+      ),
+      Effect.flatMap((member) => this.removeMember(member)),
+      Effect.map(() => ({ removed: true })),
+    );
+  }
+
+  // 自分自身を削除する（帳簿から抜ける）場合はメンバー管理の権限を求めない
+  private authorize(
+    input: RemoveLedgerMemberInput,
+  ): Effect.Effect<LedgerAccess, RemoveLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.actorUserId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess =>
+          access !== null &&
+          (input.userId === input.actorUserId ||
+            access.role.can('manageMembers')),
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  private findMember(
+    ledgerId: number,
+    userId: number,
+  ): Effect.Effect<LedgerMemberRecord, RemoveLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerRepository.findMember(ledgerId, userId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '帳簿のメンバーの取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((member) =>
+        member === null
+          ? Effect.fail(new LedgerMemberNotFoundError(userId))
+          : Effect.succeed(member),
+      ),
+    );
+  }
+
+  private removeMember(
+    member: LedgerMemberRecord,
+  ): Effect.Effect<void, RemoveLedgerMemberError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerRepository.removeMember(member.ledgerId, member.userId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '帳簿のメンバーの削除に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (removed) => removed,
+        () => new LedgerMemberNotFoundError(member.userId),
+      ),
+      Effect.asVoid,
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedRemoveLedgerMemberError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedRemoveLedgerMemberError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<LedgersRemoveMemberOutput, RemoveLedgerMemberError>,
+  ): LedgersRemoveMemberOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRemoveLedgerMemberError({
+                message: '帳簿のメンバーの削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,15 @@
+// Application Layer: Mail Sender Port
+// メールの送信手段（SMTP・外部サービス・ローカルの送信箱など）を抽象化する
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface IMailSender {
+  /**
+   * メールを送信する
+   */
+  send(message: MailMessage): Promise<void>;
+}
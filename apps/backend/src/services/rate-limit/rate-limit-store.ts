@@ -0,0 +1,31 @@
+// Application Layer: Rate Limit Store Port
+// レート制限・ログイン試行回数のカウンタの保存先を抽象化する
+// NOTE: 既定はプロセス内のメモリ。複数インスタンスで共有する場合は Redis 等の実装に差し替える
+
+export type RateLimitCounter = {
+  count: number;
+  resetAt: Date; // この日時を過ぎるとカウンタは破棄される
+};
+
+export interface IRateLimitStore {
+  /**
+   * カウンタを1つ増やして増やした後の値を返す
+   * 未作成または期限切れの場合は、windowMs 後に破棄される新しいカウンタを 1 から数える
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /**
+   * カウンタを取得する（未作成または期限切れの場合は null）
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /**
+   * カウンタを上書きする（resetAt を過ぎると破棄される）
+   */
+  set(key: string, counter: RateLimitCounter): Promise<void>;
+
+  /**
+   * カウンタを削除する（存在しない場合も成功とする）
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,13 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class RateLimitExceededError extends DomainError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      'リクエスト回数の上限を超えました。しばらくしてから再度お試しください',
+      'RateLimitExceededError',
+    );
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
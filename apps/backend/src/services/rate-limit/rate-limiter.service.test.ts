@@ -0,0 +1,66 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TOKENS } from '../di/tokens';
+import type { IRateLimitStore } from './rate-limit-store';
+import { RateLimiter } from './rate-limiter.service';
+
+describe('RateLimiter（レート制限）', () => {
+  const policy = { name: 'users.login', limit: 3, windowMs: 60_000 };
+
+  const setup = (count: number, resetAt: Date) => {
+    const store: IRateLimitStore = {
+      increment: vi.fn(async () => ({ count, resetAt })),
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<IRateLimitStore>(TOKENS.RateLimitStore)
+      .toConstantValue(store);
+    container.bind<RateLimiter>(RateLimiter).toSelf();
+
+    const rateLimiter = container.get(RateLimiter);
+
+    return { rateLimiter, store };
+  };
+
+  describe('正常系', () => {
+    it('ポリシー名と対象のキーごとに数え、上限以内であれば許可する', async () => {
+      const resetAt = new Date(Date.now() + 60_000);
+      const { rateLimiter, store } = setup(3, resetAt);
+
+      const decision = await rateLimiter.consume({
+        policy,
+        key: 'ip:203.0.113.1',
+      });
+
+      expect(store.increment).toHaveBeenCalledWith(
+        'users.login:ip:203.0.113.1',
+        60_000,
+      );
+      expect(decision).toEqual({
+        allowed: true,
+        limit: 3,
+        remaining: 0,
+        resetAt,
+        retryAfterSeconds: 0,
+      });
+    });
+
+    it('上限を超えた場合は拒否し、ウィンドウが終わるまでの秒数を返す', async () => {
+      const { rateLimiter } = setup(4, new Date(Date.now() + 30_500));
+
+      const decision = await rateLimiter.consume({
+        policy,
+        key: 'ip:203.0.113.1',
+      });
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.remaining).toBe(0);
+      expect(decision.retryAfterSeconds).toBe(31);
+    });
+  });
+});
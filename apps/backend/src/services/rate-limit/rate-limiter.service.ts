@@ -0,0 +1,60 @@
+import { inject, injectable } from 'inversify';
+
+import { TOKENS } from '../di/tokens';
+import type { IRateLimitStore } from './rate-limit-store';
+
+export type RateLimitPolicy = {
+  name: string; // カウンタのキーの接頭辞（制限の対象ごとに別のカウンタを使う）
+  limit: number; // ウィンドウ内に許可するリクエスト数
+  windowMs: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterSeconds: number; // 許可された場合は 0
+};
+
+export interface IRateLimiter {
+  /**
+   * リクエストを1回分数え、ポリシーの上限内かどうかを返す（固定ウィンドウ方式）
+   */
+  consume(params: {
+    policy: RateLimitPolicy;
+    key: string;
+  }): Promise<RateLimitDecision>;
+}
+
+/** Retry-After は秒単位のため、切り上げたうえで最低 1 秒とする */
+export const toRetryAfterSeconds = (resetAt: Date, now: number): number =>
+  Math.max(1, Math.ceil((resetAt.getTime() - now) / 1000));
+
+@injectable()
+export class RateLimiter implements IRateLimiter {
+  @inject(TOKENS.RateLimitStore)
+  private rateLimitStore!: IRateLimitStore;
+
+  async consume(params: {
+    policy: RateLimitPolicy;
+    key: string;
+  }): Promise<RateLimitDecision> {
+    const { policy, key } = params;
+    const counter = await this.rateLimitStore.increment(
+      `${policy.name}:${key}`,
+      policy.windowMs,
+    );
+    const allowed = counter.count <= policy.limit;
+
+    return {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - counter.count),
+      resetAt: counter.resetAt,
+      retryAfterSeconds: allowed
+        ? 0
+        : toRetryAfterSeconds(counter.resetAt, Date.now()),
+    };
+  }
+}
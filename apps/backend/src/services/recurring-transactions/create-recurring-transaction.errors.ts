@@ -0,0 +1,56 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidTransactionTypeError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+} from '../transactions/create-transaction.errors';
+
+export {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidTransactionTypeError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+} from '../transactions/create-transaction.errors';
+
+export class InvalidRecurringScheduleError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidRecurringScheduleError');
+  }
+}
+
+type UnexpectedCreateRecurringTransactionErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedCreateRecurringTransactionError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedCreateRecurringTransactionErrorParams) {
+    super(params.message, 'UnexpectedCreateRecurringTransactionError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type CreateRecurringTransactionError =
+  | InvalidTransactionTypeError
+  | InvalidAmountError
+  | InvalidDateFormatError
+  | TransactionTitleRequiredError
+  | TransactionTitleTooLongError
+  | TransactionMemoTooLongError
+  | CategoryNotFoundError
+  | CategoryTypeMismatchError
+  | InvalidRecurringScheduleError
+  | UnexpectedCreateRecurringTransactionError;
@@ -0,0 +1,262 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { RecurringTransactionRecord } from '../../domain/entities/recurring-transaction.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  InvalidDateFormatError,
+  InvalidRecurringScheduleError,
+  TransactionTitleRequiredError,
+  UnexpectedCreateRecurringTransactionError,
+} from './create-recurring-transaction.errors';
+import {
+  type CreateRecurringTransactionInput,
+  CreateRecurringTransactionUseCase,
+} from './create-recurring-transaction.service';
+
+describe('CreateRecurringTransactionUseCase（繰り返し取引登録）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCategoryRecord = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 10,
+    name: '家賃',
+    type: 'EXPENSE',
+    isDefault: false,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeRecurringTransactionRecord = (
+    override?: Partial<RecurringTransactionRecord>,
+  ): RecurringTransactionRecord => ({
+    id: 1,
+    userId: 100,
+    frequency: 'MONTHLY',
+    interval: 1,
+    startDate: '2025-01-31',
+    endDate: null,
+    type: 'EXPENSE',
+    title: '家賃',
+    amount: 80000,
+    currency: 'JPY',
+    categoryId: 10,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeInput = (
+    override?: Partial<CreateRecurringTransactionInput>,
+  ): CreateRecurringTransactionInput => ({
+    userId: 100,
+    frequency: 'MONTHLY',
+    interval: 1,
+    startDate: '2025-01-31',
+    endDate: null,
+    template: {
+      type: 'EXPENSE',
+      title: '家賃',
+      amount: 80000,
+      categoryId: 10,
+      memo: '',
+    },
+    ...override,
+  });
+
+  const createMockContainer = (deps: {
+    recurringTransactionRepository: Partial<IRecurringTransactionRepository>;
+    categoryRepository: Partial<ICategoryRepository>;
+  }) => {
+    const container = new Container();
+    container
+      .bind<IRecurringTransactionRepository>(
+        TOKENS.RecurringTransactionRepository,
+      )
+      .toConstantValue(
+        deps.recurringTransactionRepository as IRecurringTransactionRepository,
+      );
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(deps.categoryRepository as ICategoryRepository);
+    container.bind(CreateRecurringTransactionUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('テンプレートと繰り返し条件を検証して登録できる', async () => {
+      const recurringTransactionRepository = {
+        create: vi.fn().mockResolvedValue(makeRecurringTransactionRecord()),
+      };
+      const categoryRepository = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        categoryRepository,
+      }).get(CreateRecurringTransactionUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          template: {
+            type: 'EXPENSE',
+            title: '  家賃  ',
+            amount: 80000,
+            categoryId: 10,
+            memo: '',
+          },
+        }),
+      );
+
+      expect(categoryRepository.findByIds).toHaveBeenCalledWith(100, [10]);
+      expect(recurringTransactionRepository.create).toHaveBeenCalledWith({
+        userId: 100,
+        frequency: 'MONTHLY',
+        interval: 1,
+        startDate: '2025-01-31',
+        endDate: null,
+        type: 'EXPENSE',
+        title: '家賃',
+        amount: 80000,
+        categoryId: 10,
+        memo: '',
+      });
+      expect(output.recurringTransaction).toEqual({
+        id: 1,
+        frequency: 'MONTHLY',
+        interval: 1,
+        startDate: '2025-01-31',
+        endDate: null,
+        template: {
+          type: 'EXPENSE',
+          title: '家賃',
+          amount: 80000,
+          categoryId: 10,
+          memo: '',
+        },
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('開始日は未来日でも登録できる', async () => {
+      const recurringTransactionRepository = {
+        create: vi
+          .fn()
+          .mockResolvedValue(
+            makeRecurringTransactionRecord({ startDate: '2099-01-01' }),
+          ),
+      };
+      const categoryRepository = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        categoryRepository,
+      }).get(CreateRecurringTransactionUseCase);
+
+      const output = await useCase.execute(
+        makeInput({ startDate: '2099-01-01' }),
+      );
+
+      expect(output.recurringTransaction.startDate).toBe('2099-01-01');
+    });
+  });
+
+  describe('異常系', () => {
+    it('タイトルが空白のみの場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {},
+        categoryRepository: {},
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(
+        useCase.execute(
+          makeInput({
+            template: {
+              type: 'EXPENSE',
+              title: '   ',
+              amount: 80000,
+              categoryId: 10,
+              memo: '',
+            },
+          }),
+        ),
+      ).rejects.toBeInstanceOf(TransactionTitleRequiredError);
+    });
+
+    it('存在しない日付の場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {},
+        categoryRepository: {},
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(
+        useCase.execute(makeInput({ startDate: '2025-02-30' })),
+      ).rejects.toBeInstanceOf(InvalidDateFormatError);
+    });
+
+    it('終了日が開始日より前の場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {},
+        categoryRepository: {},
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(
+        useCase.execute(makeInput({ endDate: '2025-01-01' })),
+      ).rejects.toBeInstanceOf(InvalidRecurringScheduleError);
+    });
+
+    it('カテゴリが見つからない場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {},
+        categoryRepository: { findByIds: vi.fn().mockResolvedValue([]) },
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        CategoryNotFoundError,
+      );
+    });
+
+    it('カテゴリタイプが一致しない場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {},
+        categoryRepository: {
+          findByIds: vi
+            .fn()
+            .mockResolvedValue([makeCategoryRecord({ type: 'INCOME' })]),
+        },
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        CategoryTypeMismatchError,
+      );
+    });
+
+    it('保存に失敗した場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: {
+          create: vi.fn().mockRejectedValue(new Error('boom')),
+        },
+        categoryRepository: {
+          findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+        },
+      }).get(CreateRecurringTransactionUseCase);
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        UnexpectedCreateRecurringTransactionError,
+      );
+    });
+  });
+});
@@ -0,0 +1,311 @@
+// Application Layer: Create Recurring Transaction Use Case
+// 繰り返し取引ルール（テンプレート + 繰り返し条件）の登録を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import {
+  type RecurringFrequency,
+  RecurringTransaction,
+} from '../../domain/entities/recurring-transaction.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  type CreateRecurringTransactionError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidRecurringScheduleError,
+  InvalidTransactionTypeError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+  UnexpectedCreateRecurringTransactionError,
+} from './create-recurring-transaction.errors';
+import {
+  RecurringTransactionBuilder,
+  type RecurringTransactionOutput,
+} from './recurring-transaction.builder';
+
+const TITLE_MAX_LENGTH = 100 as const;
+const MEMO_MAX_LENGTH = 500 as const;
+
+export type CreateRecurringTransactionInput = {
+  userId: number;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  template: {
+    type: 'INCOME' | 'EXPENSE';
+    title: string;
+    amount: number;
+    categoryId: number;
+    memo: string;
+  };
+};
+
+export type CreateRecurringTransactionOutput = {
+  recurringTransaction: RecurringTransactionOutput;
+};
+
+type CategoryLoadedInput = CreateRecurringTransactionInput & {
+  category: CategoryRecord;
+};
+
+@injectable()
+export class CreateRecurringTransactionUseCase {
+  @inject(TOKENS.RecurringTransactionRepository)
+  private recurringTransactionRepository!: IRecurringTransactionRepository;
+
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  private readonly builder = new RecurringTransactionBuilder();
+
+  async execute(
+    input: CreateRecurringTransactionInput,
+  ): Promise<CreateRecurringTransactionOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: CreateRecurringTransactionInput,
+  ): Effect.Effect<
+    CreateRecurringTransactionOutput,
+    CreateRecurringTransactionError
+  > {
+    return pipe(
+      this.normalizeInput(input),
+      Effect.flatMap((value) => this.validateTemplate(value)),
+      Effect.flatMap((value) => this.validateSchedule(value)),
+      Effect.flatMap((value) => this.fetchCategory(value)),
+      Effect.flatMap((value) => this.ensureCategoryMatches(value)),
+      Effect.flatMap((value) => this.createRecurringTransaction(value)),
+    );
+  }
+
+  private normalizeInput(
+    input: CreateRecurringTransactionInput,
+  ): Effect.Effect<
+    CreateRecurringTransactionInput,
+    CreateRecurringTransactionError
+  > {
+    return Effect.succeed({
+      ...input,
+      template: {
+        ...input.template,
+        title: input.template.title.trim(),
+        memo: input.template.memo.trim(),
+      },
+    });
+  }
+
+  private validateTemplate(
+    value: CreateRecurringTransactionInput,
+  ): Effect.Effect<
+    CreateRecurringTransactionInput,
+    CreateRecurringTransactionError
+  > {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ template }) =>
+          template.type === 'INCOME' || template.type === 'EXPENSE',
+        () => new InvalidTransactionTypeError(value.template.type),
+      ),
+      Effect.filterOrFail(
+        ({ template }) => template.title.length > 0,
+        () => new TransactionTitleRequiredError(),
+      ),
+      Effect.filterOrFail(
+        ({ template }) => template.title.length <= TITLE_MAX_LENGTH,
+        () => new TransactionTitleTooLongError(),
+      ),
+      Effect.filterOrFail(
+        ({ template }) => template.memo.length <= MEMO_MAX_LENGTH,
+        () => new TransactionMemoTooLongError(),
+      ),
+      Effect.filterOrFail(
+        ({ template }) =>
+          Number.isInteger(template.amount) && template.amount > 0,
+        () => new InvalidAmountError(value.template.amount),
+      ),
+      Effect.flatMap(() =>
+        Effect.try({
+          try: () => Money.of(value.template.amount),
+          catch: () => new InvalidAmountError(value.template.amount),
+        }),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private validateSchedule(
+    value: CreateRecurringTransactionInput,
+  ): Effect.Effect<
+    CreateRecurringTransactionInput,
+    CreateRecurringTransactionError
+  > {
+    return pipe(
+      Effect.all({
+        startDate: this.parseDate(value.startDate),
+        endDate: this.parseEndDate(value.endDate),
+      }),
+      Effect.flatMap((schedule) =>
+        Effect.try({
+          try: (): CreateRecurringTransactionInput => {
+            RecurringTransaction.validateSchedule(
+              value.interval,
+              schedule.startDate,
+              schedule.endDate,
+            );
+            return {
+              ...value,
+              startDate: schedule.startDate.format(),
+              endDate: schedule.endDate?.format() ?? null,
+            };
+          },
+          catch: (cause) =>
+            new InvalidRecurringScheduleError(
+              cause instanceof Error ? cause.message : '不正な繰り返し条件です',
+            ),
+        }),
+      ),
+    );
+  }
+
+  private parseDate(
+    date: string,
+  ): Effect.Effect<TransactionDate, CreateRecurringTransactionError> {
+    return Effect.try({
+      try: () => TransactionDate.fromString(date),
+      catch: () => new InvalidDateFormatError(date),
+    });
+  }
+
+  private parseEndDate(
+    endDate: string | null,
+  ): Effect.Effect<TransactionDate | null, CreateRecurringTransactionError> {
+    return endDate === null ? Effect.succeed(null) : this.parseDate(endDate);
+  }
+
+  private fetchCategory(
+    value: CreateRecurringTransactionInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateRecurringTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findByIds(value.userId, [
+            value.template.categoryId,
+          ]),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリ情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap(([category]) =>
+        category === undefined
+          ? Effect.fail(new CategoryNotFoundError(value.template.categoryId))
+          : Effect.succeed({ ...value, category }),
+      ),
+    );
+  }
+
+  private ensureCategoryMatches(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateRecurringTransactionError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ category, template }) => category.type === template.type,
+        () =>
+          new CategoryTypeMismatchError(
+            value.template.type,
+            value.category.type,
+          ),
+      ),
+    );
+  }
+
+  private createRecurringTransaction(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<
+    CreateRecurringTransactionOutput,
+    CreateRecurringTransactionError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.create({
+            userId: value.userId,
+            frequency: value.frequency,
+            interval: value.interval,
+            startDate: value.startDate,
+            endDate: value.endDate,
+            type: value.template.type,
+            title: value.template.title,
+            amount: value.template.amount,
+            categoryId: value.template.categoryId,
+            memo: value.template.memo,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('繰り返し取引の保存に失敗しました', cause),
+      }),
+      Effect.map((record) => ({
+        recurringTransaction: this.builder.build(record),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedCreateRecurringTransactionError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedCreateRecurringTransactionError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      CreateRecurringTransactionOutput,
+      CreateRecurringTransactionError
+    >,
+  ): CreateRecurringTransactionOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedCreateRecurringTransactionError({
+                message: '繰り返し取引の作成に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class RecurringTransactionNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(
+      `繰り返し取引が見つかりません: ${id}`,
+      'RecurringTransactionNotFoundError',
+    );
+  }
+}
+
+export class NotRecurringTransactionOwnerError extends DomainError {
+  constructor() {
+    super(
+      '繰り返し取引の所有者ではありません',
+      'NotRecurringTransactionOwnerError',
+    );
+  }
+}
+
+type UnexpectedDeleteRecurringTransactionErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteRecurringTransactionError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteRecurringTransactionErrorParams) {
+    super(params.message, 'UnexpectedDeleteRecurringTransactionError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteRecurringTransactionError =
+  | RecurringTransactionNotFoundError
+  | NotRecurringTransactionOwnerError
+  | UnexpectedDeleteRecurringTransactionError;
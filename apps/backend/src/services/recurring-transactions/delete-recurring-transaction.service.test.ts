@@ -0,0 +1,118 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { RecurringTransactionRecord } from '../../domain/entities/recurring-transaction.entity';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  NotRecurringTransactionOwnerError,
+  RecurringTransactionNotFoundError,
+  UnexpectedDeleteRecurringTransactionError,
+} from './delete-recurring-transaction.errors';
+import { DeleteRecurringTransactionUseCase } from './delete-recurring-transaction.service';
+
+describe('DeleteRecurringTransactionUseCase（繰り返し取引削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeRecurringTransactionRecord = (
+    override?: Partial<RecurringTransactionRecord>,
+  ): RecurringTransactionRecord => ({
+    id: 1,
+    userId: 100,
+    frequency: 'MONTHLY',
+    interval: 1,
+    startDate: '2025-01-31',
+    endDate: null,
+    type: 'EXPENSE',
+    title: '家賃',
+    amount: 80000,
+    currency: 'JPY',
+    categoryId: 10,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (
+    mockRepo: Partial<IRecurringTransactionRepository>,
+  ) => {
+    const container = new Container();
+    container
+      .bind<IRecurringTransactionRepository>(
+        TOKENS.RecurringTransactionRepository,
+      )
+      .toConstantValue(mockRepo as IRecurringTransactionRepository);
+    container.bind(DeleteRecurringTransactionUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合は削除できる', async () => {
+      const mockRepo = {
+        findById: vi.fn().mockResolvedValue(makeRecurringTransactionRecord()),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase = createMockContainer(mockRepo).get(
+        DeleteRecurringTransactionUseCase,
+      );
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      expect(output).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('ルールが見つからない場合は例外になる', async () => {
+      const mockRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(mockRepo).get(
+        DeleteRecurringTransactionUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(RecurringTransactionNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeRecurringTransactionRecord({ userId: 999 })),
+        delete: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockRepo).get(
+        DeleteRecurringTransactionUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(NotRecurringTransactionOwnerError);
+      expect(mockRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('削除処理が失敗した場合は例外になる', async () => {
+      const mockRepo = {
+        findById: vi.fn().mockResolvedValue(makeRecurringTransactionRecord()),
+        delete: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockRepo).get(
+        DeleteRecurringTransactionUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedDeleteRecurringTransactionError);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+// Application Layer: Delete Recurring Transaction Use Case
+// 繰り返し取引ルールの削除を担当する（生成済みの取引は削除しない）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { RecurringTransaction } from '../../domain/entities/recurring-transaction.entity';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type DeleteRecurringTransactionError,
+  NotRecurringTransactionOwnerError,
+  RecurringTransactionNotFoundError,
+  UnexpectedDeleteRecurringTransactionError,
+} from './delete-recurring-transaction.errors';
+import { RecurringTransactionBuilder } from './recurring-transaction.builder';
+
+export type DeleteRecurringTransactionInput = {
+  userId: number;
+  id: number;
+};
+
+export type DeleteRecurringTransactionOutput = {
+  deleted: true;
+};
+
+@injectable()
+export class DeleteRecurringTransactionUseCase {
+  @inject(TOKENS.RecurringTransactionRepository)
+  private recurringTransactionRepository!: IRecurringTransactionRepository;
+
+  private readonly builder = new RecurringTransactionBuilder();
+
+  async execute(
+    input: DeleteRecurringTransactionInput,
+  ): Promise<DeleteRecurringTransactionOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteRecurringTransactionInput,
+  ): Effect.Effect<
+    DeleteRecurringTransactionOutput,
+    DeleteRecurringTransactionError
+  > {
+    return pipe(
+      this.fetchRecurringTransaction(input),
+      Effect.flatMap((recurringTransaction) =>
+        this.ensureOwner(recurringTransaction, input.userId),
+      ),
+      Effect.flatMap((recurringTransaction) =>
+        this.deleteRecurringTransaction(recurringTransaction),
+      ),
+    );
+  }
+
+  private fetchRecurringTransaction(
+    input: DeleteRecurringTransactionInput,
+  ): Effect.Effect<RecurringTransaction, DeleteRecurringTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.recurringTransactionRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('繰り返し取引の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new RecurringTransactionNotFoundError(input.id))
+          : Effect.try({
+              try: () => this.builder.toEntity(record),
+              catch: (cause) =>
+                this.createUnexpectedError(
+                  '繰り返し取引の復元に失敗しました',
+                  cause,
+                ),
+            }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    recurringTransaction: RecurringTransaction,
+    userId: number,
+  ): Effect.Effect<RecurringTransaction, DeleteRecurringTransactionError> {
+    return pipe(
+      Effect.succeed(recurringTransaction),
+      Effect.filterOrFail(
+        (value) => value.isOwnedBy(userId),
+        () => new NotRecurringTransactionOwnerError(),
+      ),
+    );
+  }
+
+  private deleteRecurringTransaction(
+    recurringTransaction: RecurringTransaction,
+  ): Effect.Effect<
+    DeleteRecurringTransactionOutput,
+    DeleteRecurringTransactionError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.delete(recurringTransaction),
+        catch: (cause) =>
+          this.createUnexpectedError('繰り返し取引の削除に失敗しました', cause),
+      }),
+      Effect.map(() => ({ deleted: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteRecurringTransactionError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteRecurringTransactionError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      DeleteRecurringTransactionOutput,
+      DeleteRecurringTransactionError
+    >,
+  ): DeleteRecurringTransactionOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteRecurringTransactionError({
+                message: '繰り返し取引の削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidGenerationDateError extends DomainError {
+  constructor(date: string) {
+    super(`不正な生成基準日です: ${date}`, 'InvalidGenerationDateError');
+  }
+}
+
+type UnexpectedGenerateRecurringTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedGenerateRecurringTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedGenerateRecurringTransactionsErrorParams) {
+    super(params.message, 'UnexpectedGenerateRecurringTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type GenerateRecurringTransactionsError =
+  | InvalidGenerationDateError
+  | UnexpectedGenerateRecurringTransactionsError;
@@ -0,0 +1,217 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { RecurringTransactionRecord } from '../../domain/entities/recurring-transaction.entity';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { TOKENS } from '../di/tokens';
+import { CategoryNotFoundError } from '../transactions/create-transaction.errors';
+import type { CreateTransactionUseCase } from '../transactions/create-transaction.service';
+import {
+  InvalidGenerationDateError,
+  UnexpectedGenerateRecurringTransactionsError,
+} from './generate-recurring-transactions.errors';
+import { GenerateRecurringTransactionsUseCase } from './generate-recurring-transactions.service';
+
+describe('GenerateRecurringTransactionsUseCase（繰り返し取引の生成）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeRecurringTransactionRecord = (
+    override?: Partial<RecurringTransactionRecord>,
+  ): RecurringTransactionRecord => ({
+    id: 1,
+    userId: 100,
+    frequency: 'MONTHLY',
+    interval: 1,
+    startDate: '2025-01-31',
+    endDate: null,
+    type: 'EXPENSE',
+    title: '家賃',
+    amount: 80000,
+    currency: 'JPY',
+    categoryId: 10,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockRepo = (
+    override?: Partial<IRecurringTransactionRepository>,
+  ) => ({
+    findStarted: vi.fn().mockResolvedValue([makeRecurringTransactionRecord()]),
+    findOccurrenceDates: vi.fn().mockResolvedValue([]),
+    claimOccurrence: vi.fn().mockResolvedValue(true),
+    completeOccurrence: vi.fn().mockResolvedValue(undefined),
+    releaseOccurrence: vi.fn().mockResolvedValue(undefined),
+    ...override,
+  });
+
+  const createMockContainer = (deps: {
+    recurringTransactionRepository: Partial<IRecurringTransactionRepository>;
+    createTransactionUseCase: Pick<CreateTransactionUseCase, 'execute'>;
+  }) => {
+    const container = new Container();
+    container
+      .bind<IRecurringTransactionRepository>(
+        TOKENS.RecurringTransactionRepository,
+      )
+      .toConstantValue(
+        deps.recurringTransactionRepository as IRecurringTransactionRepository,
+      );
+    container
+      .bind(TOKENS.CreateTransactionUseCase)
+      .toConstantValue(deps.createTransactionUseCase);
+    container.bind(GenerateRecurringTransactionsUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('未生成の発生日だけを月末に丸めて生成する', async () => {
+      const recurringTransactionRepository = createMockRepo({
+        findOccurrenceDates: vi.fn().mockResolvedValue(['2025-01-31']),
+      });
+      const createTransactionUseCase = {
+        execute: vi
+          .fn()
+          .mockResolvedValueOnce({ id: 501 })
+          .mockResolvedValueOnce({ id: 502 }),
+      };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        createTransactionUseCase,
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      const output = await useCase.execute({ today: '2025-03-31' });
+
+      expect(recurringTransactionRepository.findStarted).toHaveBeenCalledWith({
+        date: '2025-03-31',
+        userId: undefined,
+      });
+      expect(createTransactionUseCase.execute).toHaveBeenNthCalledWith(1, {
+        userId: 100,
+        type: 'EXPENSE',
+        title: '家賃',
+        amount: 80000,
+        currency: 'JPY',
+        date: '2025-02-28',
+        categoryId: 10,
+        memo: '',
+      });
+      expect(
+        recurringTransactionRepository.completeOccurrence,
+      ).toHaveBeenCalledWith(1, '2025-03-31', 502);
+      expect(output).toEqual({
+        generated: [
+          { recurringTransactionId: 1, date: '2025-02-28', transactionId: 501 },
+          { recurringTransactionId: 1, date: '2025-03-31', transactionId: 502 },
+        ],
+        failed: [],
+      });
+    });
+
+    it('他の実行が確保済みの発生日はスキップする', async () => {
+      const recurringTransactionRepository = createMockRepo({
+        claimOccurrence: vi.fn().mockResolvedValue(false),
+      });
+      const createTransactionUseCase = { execute: vi.fn() };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        createTransactionUseCase,
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      const output = await useCase.execute({ today: '2025-01-31' });
+
+      expect(createTransactionUseCase.execute).not.toHaveBeenCalled();
+      expect(output).toEqual({ generated: [], failed: [] });
+    });
+
+    it('取引の生成に失敗した発生日は確保を解除して failed に含める', async () => {
+      const recurringTransactionRepository = createMockRepo();
+      const createTransactionUseCase = {
+        execute: vi.fn().mockRejectedValue(new CategoryNotFoundError(10)),
+      };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        createTransactionUseCase,
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      const output = await useCase.execute({ today: '2025-01-31' });
+
+      expect(
+        recurringTransactionRepository.releaseOccurrence,
+      ).toHaveBeenCalledWith(1, '2025-01-31');
+      expect(output).toEqual({
+        generated: [],
+        failed: [
+          {
+            recurringTransactionId: 1,
+            date: '2025-01-31',
+            message: 'カテゴリが見つかりません: 10',
+          },
+        ],
+      });
+    });
+
+    it('取引の作成後に紐づけに失敗した発生日は確保を解除せずに failed に含める', async () => {
+      const recurringTransactionRepository = createMockRepo({
+        completeOccurrence: vi
+          .fn()
+          .mockRejectedValue(new Error('connection lost')),
+      });
+      const createTransactionUseCase = {
+        execute: vi.fn().mockResolvedValue({ id: 500 }),
+      };
+
+      const useCase = createMockContainer({
+        recurringTransactionRepository,
+        createTransactionUseCase,
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      const output = await useCase.execute({ today: '2025-01-31' });
+
+      expect(createTransactionUseCase.execute).toHaveBeenCalledTimes(1);
+      expect(
+        recurringTransactionRepository.releaseOccurrence,
+      ).not.toHaveBeenCalled();
+      expect(output).toEqual({
+        generated: [],
+        failed: [
+          {
+            recurringTransactionId: 1,
+            date: '2025-01-31',
+            message: 'connection lost',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('基準日が不正な場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: createMockRepo(),
+        createTransactionUseCase: { execute: vi.fn() },
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      await expect(
+        useCase.execute({ today: '2025-13-01' }),
+      ).rejects.toBeInstanceOf(InvalidGenerationDateError);
+    });
+
+    it('ルールの取得に失敗した場合は例外になる', async () => {
+      const useCase = createMockContainer({
+        recurringTransactionRepository: createMockRepo({
+          findStarted: vi.fn().mockRejectedValue(new Error('boom')),
+        }),
+        createTransactionUseCase: { execute: vi.fn() },
+      }).get(GenerateRecurringTransactionsUseCase);
+
+      await expect(
+        useCase.execute({ today: '2025-01-31' }),
+      ).rejects.toBeInstanceOf(UnexpectedGenerateRecurringTransactionsError);
+    });
+  });
+});
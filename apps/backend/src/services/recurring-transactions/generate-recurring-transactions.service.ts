@@ -0,0 +1,347 @@
+// Application Layer: Generate Recurring Transactions Use Case
+// 繰り返し取引ルールから、基準日までに発生した取引を生成する（ジョブ/手動実行の両方から利用）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { RecurringTransaction } from '../../domain/entities/recurring-transaction.entity';
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type { CreateTransactionUseCase } from '../transactions/create-transaction.service';
+import {
+  type GenerateRecurringTransactionsError,
+  InvalidGenerationDateError,
+  UnexpectedGenerateRecurringTransactionsError,
+} from './generate-recurring-transactions.errors';
+import { RecurringTransactionBuilder } from './recurring-transaction.builder';
+
+export type GenerateRecurringTransactionsInput = {
+  userId?: number; // 指定時はそのユーザーのルールのみを対象とする
+  today?: string; // YYYY-MM-DD（未指定時は実行日）
+};
+
+export type GeneratedOccurrenceOutput = {
+  recurringTransactionId: number;
+  date: string;
+  transactionId: number;
+};
+
+export type FailedOccurrenceOutput = {
+  recurringTransactionId: number;
+  date: string;
+  message: string;
+};
+
+export type GenerateRecurringTransactionsOutput = {
+  generated: GeneratedOccurrenceOutput[];
+  failed: FailedOccurrenceOutput[];
+};
+
+type PendingOccurrence = {
+  recurringTransaction: RecurringTransaction;
+  date: string;
+};
+
+type OccurrenceResult =
+  | ({ status: 'generated' } & GeneratedOccurrenceOutput)
+  | ({ status: 'failed' } & FailedOccurrenceOutput)
+  | { status: 'skipped' };
+
+const SKIPPED: OccurrenceResult = { status: 'skipped' };
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+@injectable()
+export class GenerateRecurringTransactionsUseCase {
+  @inject(TOKENS.RecurringTransactionRepository)
+  private recurringTransactionRepository!: IRecurringTransactionRepository;
+
+  @inject(TOKENS.CreateTransactionUseCase)
+  private createTransactionUseCase!: CreateTransactionUseCase;
+
+  private readonly builder = new RecurringTransactionBuilder();
+
+  async execute(
+    input: GenerateRecurringTransactionsInput,
+  ): Promise<GenerateRecurringTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: GenerateRecurringTransactionsInput,
+  ): Effect.Effect<
+    GenerateRecurringTransactionsOutput,
+    GenerateRecurringTransactionsError
+  > {
+    return pipe(
+      this.resolveToday(input.today),
+      Effect.flatMap((today) => this.fetchPendingOccurrences(input, today)),
+      // NOTE: 同一ルールの発生日を日付順に生成するため、直列で実行する
+      Effect.flatMap((pending) =>
+        Effect.forEach(pending, (occurrence) => this.materialize(occurrence)),
+      ),
+      Effect.map((results) => this.summarize(results)),
+    );
+  }
+
+  private resolveToday(
+    today: string | undefined,
+  ): Effect.Effect<TransactionDate, GenerateRecurringTransactionsError> {
+    return today === undefined
+      ? Effect.succeed(TransactionDate.today())
+      : Effect.try({
+          try: () => TransactionDate.fromString(today),
+          catch: () => new InvalidGenerationDateError(today),
+        });
+  }
+
+  private fetchPendingOccurrences(
+    input: GenerateRecurringTransactionsInput,
+    today: TransactionDate,
+  ): Effect.Effect<PendingOccurrence[], GenerateRecurringTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.findStarted({
+            date: today.format(),
+            userId: input.userId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('繰り返し取引の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((records) =>
+        Effect.forEach(records, (record) =>
+          pipe(
+            Effect.try({
+              try: () => this.builder.toEntity(record),
+              catch: (cause) =>
+                this.createUnexpectedError(
+                  '繰り返し取引の復元に失敗しました',
+                  cause,
+                ),
+            }),
+            Effect.flatMap((recurringTransaction) =>
+              this.findPendingDates(recurringTransaction, today),
+            ),
+          ),
+        ),
+      ),
+      Effect.map((pendingPerRule) => pendingPerRule.flat()),
+    );
+  }
+
+  private findPendingDates(
+    recurringTransaction: RecurringTransaction,
+    today: TransactionDate,
+  ): Effect.Effect<PendingOccurrence[], GenerateRecurringTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.findOccurrenceDates(
+            recurringTransaction.id,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('生成済み日付の取得に失敗しました', cause),
+      }),
+      Effect.map((occurredDates) => {
+        const occurred = new Set(occurredDates);
+        return recurringTransaction
+          .occurrencesUntil(today)
+          .map((date) => date.format())
+          .filter((date) => !occurred.has(date))
+          .map((date) => ({ recurringTransaction, date }));
+      }),
+    );
+  }
+
+  /**
+   * 発生日を確保してから取引を生成する
+   * NOTE: 確保済み（他の実行が処理中/処理済み）の場合はスキップし、取引の作成に失敗した場合は確保を解除して次回に再試行させる
+   */
+  private materialize(
+    occurrence: PendingOccurrence,
+  ): Effect.Effect<OccurrenceResult> {
+    const { recurringTransaction, date } = occurrence;
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.claimOccurrence(
+            recurringTransaction.id,
+            date,
+          ),
+        catch: (cause) => cause,
+      }),
+      Effect.flatMap((claimed) =>
+        claimed ? this.createOccurrence(occurrence) : Effect.succeed(SKIPPED),
+      ),
+      Effect.catchAll((error) =>
+        Effect.succeed(this.toFailed(occurrence, error)),
+      ),
+    );
+  }
+
+  private createOccurrence(
+    occurrence: PendingOccurrence,
+  ): Effect.Effect<OccurrenceResult> {
+    const { recurringTransaction, date } = occurrence;
+    const { template } = recurringTransaction;
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.createTransactionUseCase.execute({
+            userId: recurringTransaction.userId,
+            type: template.type,
+            title: template.title,
+            amount: template.amount.amount,
+            currency: template.amount.currency,
+            date,
+            categoryId: template.categoryId,
+            memo: template.memo,
+          }),
+        catch: (cause) => cause,
+      }),
+      Effect.matchEffect({
+        onFailure: (error) =>
+          pipe(
+            Effect.tryPromise(() =>
+              this.recurringTransactionRepository.releaseOccurrence(
+                recurringTransaction.id,
+                date,
+              ),
+            ),
+            Effect.ignore,
+            Effect.map(() => this.toFailed(occurrence, error)),
+          ),
+        onSuccess: (transaction) =>
+          this.completeOccurrence(occurrence, transaction.id),
+      }),
+    );
+  }
+
+  /**
+   * 作成した取引を確保した発生日に紐づける
+   * NOTE: 取引は作成済みのため、紐づけに失敗しても確保は解除しない（解除すると次回の実行で同じ発生日の取引が二重に作成される）
+   */
+  private completeOccurrence(
+    occurrence: PendingOccurrence,
+    transactionId: number,
+  ): Effect.Effect<OccurrenceResult> {
+    const { recurringTransaction, date } = occurrence;
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.completeOccurrence(
+            recurringTransaction.id,
+            date,
+            transactionId,
+          ),
+        catch: (cause) => cause,
+      }),
+      Effect.map(
+        (): OccurrenceResult => ({
+          status: 'generated',
+          recurringTransactionId: recurringTransaction.id,
+          date,
+          transactionId,
+        }),
+      ),
+      Effect.catchAll((error) =>
+        Effect.succeed(this.toFailed(occurrence, error)),
+      ),
+    );
+  }
+
+  private toFailed(
+    occurrence: PendingOccurrence,
+    error: unknown,
+  ): OccurrenceResult {
+    return {
+      status: 'failed',
+      recurringTransactionId: occurrence.recurringTransaction.id,
+      date: occurrence.date,
+      message: toErrorMessage(error),
+    };
+  }
+
+  private summarize(
+    results: OccurrenceResult[],
+  ): GenerateRecurringTransactionsOutput {
+    return {
+      generated: results.flatMap((result) =>
+        result.status === 'generated'
+          ? [
+              {
+                recurringTransactionId: result.recurringTransactionId,
+                date: result.date,
+                transactionId: result.transactionId,
+              },
+            ]
+          : [],
+      ),
+      failed: results.flatMap((result) =>
+        result.status === 'failed'
+          ? [
+              {
+                recurringTransactionId: result.recurringTransactionId,
+                date: result.date,
+                message: result.message,
+              },
+            ]
+          : [],
+      ),
+    };
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedGenerateRecurringTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedGenerateRecurringTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      GenerateRecurringTransactionsOutput,
+      GenerateRecurringTransactionsError
+    >,
+  ): GenerateRecurringTransactionsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedGenerateRecurringTransactionsError({
+                message: '繰り返し取引の生成に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListRecurringTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListRecurringTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListRecurringTransactionsErrorParams) {
+    super(params.message, 'UnexpectedListRecurringTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListRecurringTransactionsError =
+  UnexpectedListRecurringTransactionsError;
@@ -0,0 +1,110 @@
+// Application Layer: List Recurring Transactions Use Case
+// ユーザーの繰り返し取引ルール一覧取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IRecurringTransactionRepository } from '../../domain/repositories/recurring-transaction.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type ListRecurringTransactionsError,
+  UnexpectedListRecurringTransactionsError,
+} from './list-recurring-transactions.errors';
+import {
+  RecurringTransactionBuilder,
+  type RecurringTransactionOutput,
+} from './recurring-transaction.builder';
+
+export type ListRecurringTransactionsInput = {
+  userId: number;
+};
+
+export type ListRecurringTransactionsOutput = {
+  recurringTransactions: RecurringTransactionOutput[];
+};
+
+@injectable()
+export class ListRecurringTransactionsUseCase {
+  @inject(TOKENS.RecurringTransactionRepository)
+  private recurringTransactionRepository!: IRecurringTransactionRepository;
+
+  private readonly builder = new RecurringTransactionBuilder();
+
+  async execute(
+    input: ListRecurringTransactionsInput,
+  ): Promise<ListRecurringTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListRecurringTransactionsInput,
+  ): Effect.Effect<
+    ListRecurringTransactionsOutput,
+    ListRecurringTransactionsError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.recurringTransactionRepository.findByUserId(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '繰り返し取引一覧の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.map((records) => ({
+        recurringTransactions: records.map((record) =>
+          this.builder.build(record),
+        ),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListRecurringTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListRecurringTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      ListRecurringTransactionsOutput,
+      ListRecurringTransactionsError
+    >,
+  ): ListRecurringTransactionsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListRecurringTransactionsError({
+                message: '繰り返し取引一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// Application Layer: RecurringTransaction Builder
+// 繰り返し取引ユースケースの出力DTO組み立てと、レコードからのエンティティ復元を担当する
+
+import {
+  type RecurringFrequency,
+  RecurringTransaction,
+  type RecurringTransactionRecord,
+} from '../../domain/entities/recurring-transaction.entity';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+
+export type RecurringTransactionOutput = {
+  id: number;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  template: {
+    type: 'INCOME' | 'EXPENSE';
+    title: string;
+    amount: number;
+    categoryId: number;
+    memo: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+};
+
+export class RecurringTransactionBuilder {
+  build(record: RecurringTransactionRecord): RecurringTransactionOutput {
+    return {
+      id: record.id,
+      frequency: record.frequency,
+      interval: record.interval,
+      startDate: record.startDate,
+      endDate: record.endDate,
+      template: {
+        type: record.type,
+        title: record.title,
+        amount: record.amount,
+        categoryId: record.categoryId,
+        memo: record.memo,
+      },
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+
+  toEntity(record: RecurringTransactionRecord): RecurringTransaction {
+    return RecurringTransaction.reconstruct(
+      record.id,
+      record.userId,
+      record.frequency,
+      record.interval,
+      TransactionDate.fromString(record.startDate),
+      record.endDate === null
+        ? null
+        : TransactionDate.fromString(record.endDate),
+      {
+        type: record.type,
+        title: record.title,
+        amount: Money.ofWithCurrency(record.amount, record.currency),
+        categoryId: record.categoryId,
+        memo: record.memo,
+      },
+      record.createdAt,
+      record.updatedAt,
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidTagNameError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidTagNameError');
+  }
+}
+
+export class TagAlreadyExistsError extends DomainError {
+  constructor(name: string) {
+    super(
+      `同じ名前のタグが既に登録されています: ${name}`,
+      'TagAlreadyExistsError',
+    );
+  }
+}
+
+type UnexpectedCreateTagErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedCreateTagError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedCreateTagErrorParams) {
+    super(params.message, 'UnexpectedCreateTagError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type CreateTagError =
+  | InvalidTagNameError
+  | TagAlreadyExistsError
+  | UnexpectedCreateTagError;
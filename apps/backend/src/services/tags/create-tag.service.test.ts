@@ -0,0 +1,105 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TagRecord } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidTagNameError,
+  TagAlreadyExistsError,
+  UnexpectedCreateTagError,
+} from './create-tag.errors';
+import { CreateTagUseCase } from './create-tag.service';
+
+describe('CreateTagUseCase（タグ作成）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeTagRecord = (override?: Partial<TagRecord>): TagRecord => ({
+    id: 1,
+    userId: 100,
+    name: '沖縄旅行2026',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (mockTagRepo: Partial<ITagRepository>) => {
+    const container = new Container();
+    container
+      .bind<ITagRepository>(TOKENS.TagRepository)
+      .toConstantValue(mockTagRepo as ITagRepository);
+    container.bind(CreateTagUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('重複がない場合は前後の空白を除いた名前でタグを作成できる', async () => {
+      const mockTagRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue(makeTagRecord()),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(CreateTagUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        name: '  沖縄旅行2026  ',
+      });
+
+      expect(mockTagRepo.findByUserIdAndName).toHaveBeenCalledWith(
+        100,
+        '沖縄旅行2026',
+      );
+      expect(mockTagRepo.create).toHaveBeenCalledWith({
+        userId: 100,
+        name: '沖縄旅行2026',
+      });
+      expect(output.tag).toEqual({
+        id: 1,
+        name: '沖縄旅行2026',
+        createdAt: fixedNow.toISOString(),
+        updatedAt: fixedNow.toISOString(),
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('タグ名が空の場合は例外になる', async () => {
+      const mockTagRepo = { create: vi.fn() };
+
+      const useCase = createMockContainer(mockTagRepo).get(CreateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, name: '   ' }),
+      ).rejects.toBeInstanceOf(InvalidTagNameError);
+      expect(mockTagRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('同じ名前のタグが存在する場合は例外になる', async () => {
+      const mockTagRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(makeTagRecord()),
+        create: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(CreateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, name: '沖縄旅行2026' }),
+      ).rejects.toBeInstanceOf(TagAlreadyExistsError);
+      expect(mockTagRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('保存処理が失敗した場合は例外になる', async () => {
+      const mockTagRepo = {
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(CreateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, name: '沖縄旅行2026' }),
+      ).rejects.toBeInstanceOf(UnexpectedCreateTagError);
+    });
+  });
+});
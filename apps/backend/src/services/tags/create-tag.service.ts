@@ -0,0 +1,142 @@
+// Application Layer: Create Tag Use Case
+// タグ（取引に付ける自由なラベル）の登録を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Tag } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type CreateTagError,
+  InvalidTagNameError,
+  TagAlreadyExistsError,
+  UnexpectedCreateTagError,
+} from './create-tag.errors';
+import { TagBuilder, type TagOutput } from './tag.builder';
+
+export type CreateTagInput = {
+  userId: number;
+  name: string;
+};
+
+export type CreateTagOutput = {
+  tag: TagOutput;
+};
+
+@injectable()
+export class CreateTagUseCase {
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  private readonly builder = new TagBuilder();
+
+  async execute(input: CreateTagInput): Promise<CreateTagOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: CreateTagInput,
+  ): Effect.Effect<CreateTagOutput, CreateTagError> {
+    return pipe(
+      this.validateName(input),
+      Effect.flatMap((value) => this.ensureNotDuplicated(value)),
+      Effect.flatMap((value) => this.createTag(value)),
+    );
+  }
+
+  private validateName(
+    input: CreateTagInput,
+  ): Effect.Effect<CreateTagInput, CreateTagError> {
+    return pipe(
+      Effect.try({
+        try: () => Tag.normalizeName(input.name),
+        catch: (cause) =>
+          new InvalidTagNameError(
+            cause instanceof Error ? cause.message : 'タグ名が不正です',
+          ),
+      }),
+      Effect.map((name) => ({ ...input, name })),
+    );
+  }
+
+  private ensureNotDuplicated(
+    input: CreateTagInput,
+  ): Effect.Effect<CreateTagInput, CreateTagError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.tagRepository.findByUserIdAndName(input.userId, input.name),
+        catch: (cause) =>
+          this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (existing) => existing === null,
+        () => new TagAlreadyExistsError(input.name),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  private createTag(
+    input: CreateTagInput,
+  ): Effect.Effect<CreateTagOutput, CreateTagError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.tagRepository.create({
+            userId: input.userId,
+            name: input.name,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('タグの保存に失敗しました', cause),
+      }),
+      Effect.map((record) => ({ tag: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedCreateTagError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedCreateTagError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<CreateTagOutput, CreateTagError>,
+  ): CreateTagOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedCreateTagError({
+                message: 'タグの作成に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { NotTagOwnerError, TagNotFoundError } from './update-tag.errors';
+
+export { NotTagOwnerError, TagNotFoundError } from './update-tag.errors';
+
+type UnexpectedDeleteTagErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteTagError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteTagErrorParams) {
+    super(params.message, 'UnexpectedDeleteTagError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteTagError =
+  | TagNotFoundError
+  | NotTagOwnerError
+  | UnexpectedDeleteTagError;
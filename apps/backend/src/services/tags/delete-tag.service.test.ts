@@ -0,0 +1,76 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TagRecord } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { TOKENS } from '../di/tokens';
+import { NotTagOwnerError, TagNotFoundError } from './delete-tag.errors';
+import { DeleteTagUseCase } from './delete-tag.service';
+
+describe('DeleteTagUseCase（タグ削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeTagRecord = (override?: Partial<TagRecord>): TagRecord => ({
+    id: 1,
+    userId: 100,
+    name: '沖縄旅行2026',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (mockTagRepo: Partial<ITagRepository>) => {
+    const container = new Container();
+    container
+      .bind<ITagRepository>(TOKENS.TagRepository)
+      .toConstantValue(mockTagRepo as ITagRepository);
+    container.bind(DeleteTagUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合は削除できる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord()),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(DeleteTagUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockTagRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      expect(output).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('タグが見つからない場合は例外になる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(DeleteTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(TagNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord({ userId: 999 })),
+        delete: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(DeleteTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(NotTagOwnerError);
+      expect(mockTagRepo.delete).not.toHaveBeenCalled();
+    });
+  });
+});
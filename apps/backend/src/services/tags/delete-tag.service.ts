@@ -0,0 +1,147 @@
+// Application Layer: Delete Tag Use Case
+// タグの削除を担当する（取引との紐づけのみ解除され、取引は残る）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Tag, type TagRecord } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type DeleteTagError,
+  NotTagOwnerError,
+  TagNotFoundError,
+  UnexpectedDeleteTagError,
+} from './delete-tag.errors';
+
+export type DeleteTagInput = {
+  userId: number;
+  id: number;
+};
+
+export type DeleteTagOutput = {
+  deleted: true;
+};
+
+type TagLoadedInput = DeleteTagInput & { current: TagRecord };
+
+@injectable()
+export class DeleteTagUseCase {
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  async execute(input: DeleteTagInput): Promise<DeleteTagOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteTagInput,
+  ): Effect.Effect<DeleteTagOutput, DeleteTagError> {
+    return pipe(
+      this.fetchCurrentTag(input),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.deleteTag(value)),
+    );
+  }
+
+  private fetchCurrentTag(
+    input: DeleteTagInput,
+  ): Effect.Effect<TagLoadedInput, DeleteTagError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.tagRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TagNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: TagLoadedInput,
+  ): Effect.Effect<TagLoadedInput, DeleteTagError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotTagOwnerError(),
+      ),
+    );
+  }
+
+  private deleteTag(
+    value: TagLoadedInput,
+  ): Effect.Effect<DeleteTagOutput, DeleteTagError> {
+    return pipe(
+      Effect.try({
+        try: () =>
+          Tag.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.name,
+            value.current.createdAt,
+            value.current.updatedAt,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError('タグの削除に失敗しました', cause),
+      }),
+      Effect.flatMap((tag) =>
+        Effect.tryPromise({
+          try: () => this.tagRepository.delete(tag),
+          catch: (cause) =>
+            this.createUnexpectedError('タグの削除に失敗しました', cause),
+        }),
+      ),
+      Effect.map(() => ({ deleted: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteTagError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteTagError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<DeleteTagOutput, DeleteTagError>,
+  ): DeleteTagOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteTagError({
+                message: 'タグの削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListTagsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListTagsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListTagsErrorParams) {
+    super(params.message, 'UnexpectedListTagsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListTagsError = UnexpectedListTagsError;
@@ -0,0 +1,93 @@
+// Application Layer: List Tags Use Case
+// ユーザーのタグ一覧取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type ListTagsError,
+  UnexpectedListTagsError,
+} from './list-tags.errors';
+import { TagBuilder, type TagOutput } from './tag.builder';
+
+export type ListTagsInput = {
+  userId: number;
+};
+
+export type ListTagsOutput = {
+  tags: TagOutput[];
+};
+
+@injectable()
+export class ListTagsUseCase {
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  private readonly builder = new TagBuilder();
+
+  async execute(input: ListTagsInput): Promise<ListTagsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListTagsInput,
+  ): Effect.Effect<ListTagsOutput, ListTagsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.tagRepository.findByUserId(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('タグ一覧の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => ({
+        tags: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListTagsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListTagsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ListTagsOutput, ListTagsError>,
+  ): ListTagsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListTagsError({
+                message: 'タグ一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,22 @@
+// Application Layer: Tag Builder
+// タグユースケースの出力DTO組み立てを担当する
+
+import type { TagRecord } from '../../domain/entities/tag.entity';
+
+export type TagOutput = {
+  id: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export class TagBuilder {
+  build(record: TagRecord): TagOutput {
+    return {
+      id: record.id,
+      name: record.name,
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  InvalidTagNameError,
+  TagAlreadyExistsError,
+} from './create-tag.errors';
+
+export {
+  InvalidTagNameError,
+  TagAlreadyExistsError,
+} from './create-tag.errors';
+
+export class TagNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(`タグが見つかりません: ${id}`, 'TagNotFoundError');
+  }
+}
+
+export class NotTagOwnerError extends DomainError {
+  constructor() {
+    super('タグの所有者ではありません', 'NotTagOwnerError');
+  }
+}
+
+type UnexpectedUpdateTagErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUpdateTagError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUpdateTagErrorParams) {
+    super(params.message, 'UnexpectedUpdateTagError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UpdateTagError =
+  | TagNotFoundError
+  | NotTagOwnerError
+  | InvalidTagNameError
+  | TagAlreadyExistsError
+  | UnexpectedUpdateTagError;
@@ -0,0 +1,118 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TagRecord } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  NotTagOwnerError,
+  TagAlreadyExistsError,
+  TagNotFoundError,
+} from './update-tag.errors';
+import { UpdateTagUseCase } from './update-tag.service';
+
+describe('UpdateTagUseCase（タグ更新）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeTagRecord = (override?: Partial<TagRecord>): TagRecord => ({
+    id: 1,
+    userId: 100,
+    name: '沖縄旅行2026',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createMockContainer = (mockTagRepo: Partial<ITagRepository>) => {
+    const container = new Container();
+    container
+      .bind<ITagRepository>(TOKENS.TagRepository)
+      .toConstantValue(mockTagRepo as ITagRepository);
+    container.bind(UpdateTagUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('所有者が一致する場合はタグ名を変更できる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord()),
+        findByUserIdAndName: vi.fn().mockResolvedValue(null),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeTagRecord({ name: '北海道旅行2026' })),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(UpdateTagUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        name: '北海道旅行2026',
+      });
+
+      expect(mockTagRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, name: '北海道旅行2026' }),
+      );
+      expect(output.tag.name).toBe('北海道旅行2026');
+    });
+
+    it('同じタグの名前のまま更新できる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord()),
+        findByUserIdAndName: vi.fn().mockResolvedValue(makeTagRecord()),
+        update: vi.fn().mockResolvedValue(makeTagRecord()),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(UpdateTagUseCase);
+
+      await useCase.execute({ userId: 100, id: 1, name: '沖縄旅行2026' });
+
+      expect(mockTagRepo.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('異常系', () => {
+    it('タグが見つからない場合は例外になる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(UpdateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999, name: '立替精算' }),
+      ).rejects.toBeInstanceOf(TagNotFoundError);
+    });
+
+    it('所有者が一致しない場合は例外になる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord({ userId: 999 })),
+        update: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(UpdateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, name: '立替精算' }),
+      ).rejects.toBeInstanceOf(NotTagOwnerError);
+      expect(mockTagRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('別のタグと名前が重複する場合は例外になる', async () => {
+      const mockTagRepo = {
+        findById: vi.fn().mockResolvedValue(makeTagRecord()),
+        findByUserIdAndName: vi
+          .fn()
+          .mockResolvedValue(makeTagRecord({ id: 2, name: '立替精算' })),
+        update: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTagRepo).get(UpdateTagUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, name: '立替精算' }),
+      ).rejects.toBeInstanceOf(TagAlreadyExistsError);
+      expect(mockTagRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// Application Layer: Update Tag Use Case
+// タグ名の変更を担当する（取引との紐づけはそのまま）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Tag, type TagRecord } from '../../domain/entities/tag.entity';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { TagBuilder, type TagOutput } from './tag.builder';
+import {
+  InvalidTagNameError,
+  NotTagOwnerError,
+  TagAlreadyExistsError,
+  TagNotFoundError,
+  UnexpectedUpdateTagError,
+  type UpdateTagError,
+} from './update-tag.errors';
+
+export type UpdateTagInput = {
+  userId: number;
+  id: number;
+  name: string;
+};
+
+export type UpdateTagOutput = {
+  tag: TagOutput;
+};
+
+type TagLoadedInput = UpdateTagInput & { current: TagRecord };
+
+@injectable()
+export class UpdateTagUseCase {
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  private readonly builder = new TagBuilder();
+
+  async execute(input: UpdateTagInput): Promise<UpdateTagOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UpdateTagInput,
+  ): Effect.Effect<UpdateTagOutput, UpdateTagError> {
+    return pipe(
+      this.validateName(input),
+      Effect.flatMap((value) => this.fetchCurrentTag(value)),
+      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.ensureNotDuplicated(value)),
+      Effect.flatMap((value) => this.updateTag(value)),
+    );
+  }
+
+  private validateName(
+    input: UpdateTagInput,
+  ): Effect.Effect<UpdateTagInput, UpdateTagError> {
+    return pipe(
+      Effect.try({
+        try: () => Tag.normalizeName(input.name),
+        catch: (cause) =>
+          new InvalidTagNameError(
+            cause instanceof Error ? cause.message : 'タグ名が不正です',
+          ),
+      }),
+      Effect.map((name) => ({ ...input, name })),
+    );
+  }
+
+  private fetchCurrentTag(
+    input: UpdateTagInput,
+  ): Effect.Effect<TagLoadedInput, UpdateTagError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.tagRepository.findById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TagNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  private ensureOwner(
+    value: TagLoadedInput,
+  ): Effect.Effect<TagLoadedInput, UpdateTagError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ current, userId }) => current.userId === userId,
+        () => new NotTagOwnerError(),
+      ),
+    );
+  }
+
+  private ensureNotDuplicated(
+    value: TagLoadedInput,
+  ): Effect.Effect<TagLoadedInput, UpdateTagError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.tagRepository.findByUserIdAndName(value.userId, value.name),
+        catch: (cause) =>
+          this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (existing) => existing === null || existing.id === value.current.id,
+        () => new TagAlreadyExistsError(value.name),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private updateTag(
+    value: TagLoadedInput,
+  ): Effect.Effect<UpdateTagOutput, UpdateTagError> {
+    return pipe(
+      Effect.try({
+        try: () => {
+          const tag = Tag.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.name,
+            value.current.createdAt,
+            value.current.updatedAt,
+          );
+          tag.rename(value.name);
+          return tag;
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('タグの更新に失敗しました', cause),
+      }),
+      Effect.flatMap((tag) =>
+        Effect.tryPromise({
+          try: () => this.tagRepository.update(tag),
+          catch: (cause) =>
+            this.createUnexpectedError('タグの更新に失敗しました', cause),
+        }),
+      ),
+      Effect.map((record) => ({ tag: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUpdateTagError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUpdateTagError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UpdateTagOutput, UpdateTagError>,
+  ): UpdateTagOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUpdateTagError({
+                message: 'タグの更新に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,28 @@
+// Application Layer: Attachment Storage Port
+// 添付ファイル本体の保存先（オブジェクトストレージ等）を抽象化する
+
+export type StoredAttachmentObject = {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+};
+
+export interface IAttachmentStorage {
+  /**
+   * ファイル本体を保存する（同じキーが既にあれば上書きする）
+   */
+  put(params: {
+    key: string;
+    body: Uint8Array<ArrayBuffer>;
+    contentType: string;
+  }): Promise<void>;
+
+  /**
+   * ファイル本体を取得する（存在しない場合は null）
+   */
+  get(key: string): Promise<StoredAttachmentObject | null>;
+
+  /**
+   * ファイル本体を削除する（存在しない場合も成功とする）
+   */
+  delete(key: string): Promise<void>;
+}
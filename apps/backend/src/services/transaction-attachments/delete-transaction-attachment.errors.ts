@@ -0,0 +1,34 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  TransactionNotFoundError,
+} from './download-transaction-attachment.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  TransactionNotFoundError,
+} from './download-transaction-attachment.errors';
+
+type UnexpectedDeleteTransactionAttachmentErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteTransactionAttachmentError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteTransactionAttachmentErrorParams) {
+    super(params.message, 'UnexpectedDeleteTransactionAttachmentError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteTransactionAttachmentError =
+  | TransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | TransactionAttachmentNotFoundError
+  | UnexpectedDeleteTransactionAttachmentError;
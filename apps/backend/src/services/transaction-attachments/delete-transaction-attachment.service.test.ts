@@ -0,0 +1,191 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  UnexpectedDeleteTransactionAttachmentError,
+} from './delete-transaction-attachment.errors';
+import { DeleteTransactionAttachmentUseCase } from './delete-transaction-attachment.service';
+
+describe('DeleteTransactionAttachmentUseCase（添付ファイルの削除）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 10,
+    userId: 100,
+    ledgerId: 100,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2025-01-01',
+    categoryId: 1,
+    accountId: null,
+    transferAccountId: null,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeAttachmentRecord = (
+    override?: Partial<TransactionAttachmentRecord>,
+  ): TransactionAttachmentRecord => ({
+    id: 1,
+    transactionId: 10,
+    userId: 100,
+    fileName: 'receipt.jpg',
+    contentType: 'image/jpeg',
+    size: 2048,
+    storageKey: 'transactions/10/abc',
+    createdAt: fixedNow,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockAttachmentRepo: Partial<ITransactionAttachmentRepository>,
+    mockStorage: Partial<IAttachmentStorage>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(mockAttachmentRepo as ITransactionAttachmentRepository);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(mockStorage as IAttachmentStorage);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(DeleteTransactionAttachmentUseCase).toSelf();
+    return container;
+  };
+
+  const baseInput = { userId: 100, transactionId: 10, attachmentId: 1 };
+
+  describe('正常系', () => {
+    it('ファイル本体を削除してからメタデータを削除する', async () => {
+      const calls: string[] = [];
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn().mockResolvedValue(makeAttachmentRecord()),
+        delete: vi.fn(async () => {
+          calls.push('record');
+        }),
+      };
+      const mockStorage = {
+        delete: vi.fn(async () => {
+          calls.push('object');
+        }),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(DeleteTransactionAttachmentUseCase);
+
+      const output = await useCase.execute(baseInput);
+
+      expect(mockStorage.delete).toHaveBeenCalledWith('transactions/10/abc');
+      expect(mockAttachmentRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+      );
+      expect(calls).toEqual(['object', 'record']);
+      expect(output).toEqual({ deleted: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('帳簿の閲覧者の場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        {},
+        {},
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      ).get(DeleteTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        LedgerPermissionDeniedError,
+      );
+    });
+
+    it('別の取引の添付ファイルを指定した場合は見つからない例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeAttachmentRecord({ transactionId: 11 })),
+        delete: vi.fn(),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        {},
+      ).get(DeleteTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        TransactionAttachmentNotFoundError,
+      );
+      expect(mockAttachmentRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('ファイル本体の削除に失敗した場合はメタデータを残して例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn().mockResolvedValue(makeAttachmentRecord()),
+        delete: vi.fn(),
+      };
+      const mockStorage = {
+        delete: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(DeleteTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        UnexpectedDeleteTransactionAttachmentError,
+      );
+      expect(mockAttachmentRepo.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+// Application Layer: Delete Transaction Attachment Use Case
+// 取引の添付ファイル（本体とメタデータ）の削除を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  TransactionAttachment,
+  type TransactionAttachmentRecord,
+} from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  type DeleteTransactionAttachmentError,
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  TransactionNotFoundError,
+  UnexpectedDeleteTransactionAttachmentError,
+} from './delete-transaction-attachment.errors';
+
+export type DeleteTransactionAttachmentInput = {
+  userId: number;
+  transactionId: number;
+  attachmentId: number;
+};
+
+export type DeleteTransactionAttachmentOutput = {
+  deleted: true;
+};
+
+@injectable()
+export class DeleteTransactionAttachmentUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  async execute(
+    input: DeleteTransactionAttachmentInput,
+  ): Promise<DeleteTransactionAttachmentOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteTransactionAttachmentInput,
+  ): Effect.Effect<
+    DeleteTransactionAttachmentOutput,
+    DeleteTransactionAttachmentError
+  > {
+    return pipe(
+      this.ensureTransactionAccess(input),
+      Effect.flatMap((value) => this.fetchAttachment(value)),
+      Effect.flatMap((attachment) => this.deleteAttachment(attachment)),
+    );
+  }
+
+  private ensureTransactionAccess(
+    input: DeleteTransactionAttachmentInput,
+  ): Effect.Effect<
+    DeleteTransactionAttachmentInput,
+    DeleteTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findById(input.transactionId),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TransactionNotFoundError(input.transactionId))
+          : Effect.succeed(record),
+      ),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  /**
+   * 取引が属する帳簿の編集権限があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, DeleteTransactionAttachmentError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  // NOTE: 別の取引の添付ファイルIDを指定された場合も見つからないものとして扱う
+  private fetchAttachment(
+    input: DeleteTransactionAttachmentInput,
+  ): Effect.Effect<
+    TransactionAttachmentRecord,
+    DeleteTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionAttachmentRepository.findById(input.attachmentId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '添付ファイル情報の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (record): record is TransactionAttachmentRecord =>
+          record?.transactionId === input.transactionId,
+        () => new TransactionAttachmentNotFoundError(input.attachmentId),
+      ),
+    );
+  }
+
+  // NOTE: 本体を先に削除する（メタデータの削除に失敗しても、再実行すれば削除を完了できる）
+  private deleteAttachment(
+    record: TransactionAttachmentRecord,
+  ): Effect.Effect<
+    DeleteTransactionAttachmentOutput,
+    DeleteTransactionAttachmentError
+  > {
+    const attachment = TransactionAttachment.reconstruct(
+      record.id,
+      record.transactionId,
+      record.userId,
+      record.fileName,
+      record.contentType,
+      record.size,
+      record.storageKey,
+      record.createdAt,
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.attachmentStorage.delete(attachment.storageKey),
+        catch: (cause) =>
+          this.createUnexpectedError('ファイルの削除に失敗しました', cause),
+      }),
+      Effect.flatMap(() =>
+        Effect.tryPromise({
+          try: () => this.transactionAttachmentRepository.delete(attachment),
+          catch: (cause) =>
+            this.createUnexpectedError(
+              '添付ファイルの削除に失敗しました',
+              cause,
+            ),
+        }),
+      ),
+      Effect.map(() => ({ deleted: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteTransactionAttachmentError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteTransactionAttachmentError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      DeleteTransactionAttachmentOutput,
+      DeleteTransactionAttachmentError
+    >,
+  ): DeleteTransactionAttachmentOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteTransactionAttachmentError({
+                message: '添付ファイルの削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+export class TransactionAttachmentNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(
+      `添付ファイルが見つかりません: ${id}`,
+      'TransactionAttachmentNotFoundError',
+    );
+  }
+}
+
+type UnexpectedDownloadTransactionAttachmentErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDownloadTransactionAttachmentError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDownloadTransactionAttachmentErrorParams) {
+    super(params.message, 'UnexpectedDownloadTransactionAttachmentError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DownloadTransactionAttachmentError =
+  | TransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | TransactionAttachmentNotFoundError
+  | UnexpectedDownloadTransactionAttachmentError;
@@ -0,0 +1,223 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  TransactionNotFoundError,
+  UnexpectedDownloadTransactionAttachmentError,
+} from './download-transaction-attachment.errors';
+import { DownloadTransactionAttachmentUseCase } from './download-transaction-attachment.service';
+
+describe('DownloadTransactionAttachmentUseCase（添付ファイルのダウンロード）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+  const content = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 10,
+    userId: 100,
+    ledgerId: 100,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2025-01-01',
+    categoryId: 1,
+    accountId: null,
+    transferAccountId: null,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeAttachmentRecord = (
+    override?: Partial<TransactionAttachmentRecord>,
+  ): TransactionAttachmentRecord => ({
+    id: 1,
+    transactionId: 10,
+    userId: 100,
+    fileName: 'レシート.png',
+    contentType: 'image/png',
+    size: content.byteLength,
+    storageKey: 'transactions/10/abc',
+    createdAt: fixedNow,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockAttachmentRepo: Partial<ITransactionAttachmentRepository>,
+    mockStorage: Partial<IAttachmentStorage>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(mockAttachmentRepo as ITransactionAttachmentRepository);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(mockStorage as IAttachmentStorage);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(DownloadTransactionAttachmentUseCase).toSelf();
+    return container;
+  };
+
+  const baseInput = { userId: 100, transactionId: 10, attachmentId: 1 };
+
+  describe('正常系', () => {
+    it('登録時のファイル名/形式でファイル本体を返す', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn().mockResolvedValue(makeAttachmentRecord()),
+      };
+      const mockStorage = {
+        get: vi.fn().mockResolvedValue({
+          body: content,
+          contentType: 'application/octet-stream',
+        }),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(DownloadTransactionAttachmentUseCase);
+
+      const output = await useCase.execute(baseInput);
+
+      expect(mockStorage.get).toHaveBeenCalledWith('transactions/10/abc');
+      expect(output).toEqual({
+        fileName: 'レシート.png',
+        contentType: 'image/png',
+        body: content,
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('取引が見つからない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo, {}, {}).get(
+        DownloadTransactionAttachmentUseCase,
+      );
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        TransactionNotFoundError,
+      );
+    });
+
+    it('取引が属する帳簿のメンバーでない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn(),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        {},
+        createLedgerAccessServiceMock(null),
+      ).get(DownloadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        LedgerPermissionDeniedError,
+      );
+      expect(mockAttachmentRepo.findById).not.toHaveBeenCalled();
+    });
+
+    it('添付ファイルが見つからない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        {},
+      ).get(DownloadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        TransactionAttachmentNotFoundError,
+      );
+    });
+
+    it('別の取引の添付ファイルを指定した場合は見つからない例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeAttachmentRecord({ transactionId: 11 })),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        {},
+      ).get(DownloadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        TransactionAttachmentNotFoundError,
+      );
+    });
+
+    it('ファイル本体が保存先に存在しない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        findById: vi.fn().mockResolvedValue(makeAttachmentRecord()),
+      };
+      const mockStorage = {
+        get: vi.fn().mockResolvedValue(null),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(DownloadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        UnexpectedDownloadTransactionAttachmentError,
+      );
+    });
+  });
+});
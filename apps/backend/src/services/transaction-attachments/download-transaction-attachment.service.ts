@@ -0,0 +1,213 @@
+// Application Layer: Download Transaction Attachment Use Case
+// 取引の添付ファイル本体の取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  type DownloadTransactionAttachmentError,
+  LedgerPermissionDeniedError,
+  TransactionAttachmentNotFoundError,
+  TransactionNotFoundError,
+  UnexpectedDownloadTransactionAttachmentError,
+} from './download-transaction-attachment.errors';
+
+export type DownloadTransactionAttachmentInput = {
+  userId: number;
+  transactionId: number;
+  attachmentId: number;
+};
+
+export type DownloadTransactionAttachmentOutput = {
+  fileName: string;
+  contentType: string;
+  body: Uint8Array<ArrayBuffer>;
+};
+
+@injectable()
+export class DownloadTransactionAttachmentUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  async execute(
+    input: DownloadTransactionAttachmentInput,
+  ): Promise<DownloadTransactionAttachmentOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DownloadTransactionAttachmentInput,
+  ): Effect.Effect<
+    DownloadTransactionAttachmentOutput,
+    DownloadTransactionAttachmentError
+  > {
+    return pipe(
+      this.ensureTransactionAccess(input),
+      Effect.flatMap((value) => this.fetchAttachment(value)),
+      Effect.flatMap((attachment) => this.fetchObject(attachment)),
+    );
+  }
+
+  private ensureTransactionAccess(
+    input: DownloadTransactionAttachmentInput,
+  ): Effect.Effect<
+    DownloadTransactionAttachmentInput,
+    DownloadTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findById(input.transactionId),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TransactionNotFoundError(input.transactionId))
+          : Effect.succeed(record),
+      ),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  /**
+   * 取引が属する帳簿の閲覧権限があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, DownloadTransactionAttachmentError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  // NOTE: 別の取引の添付ファイルIDを指定された場合も見つからないものとして扱う
+  private fetchAttachment(
+    input: DownloadTransactionAttachmentInput,
+  ): Effect.Effect<
+    TransactionAttachmentRecord,
+    DownloadTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionAttachmentRepository.findById(input.attachmentId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '添付ファイル情報の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (record): record is TransactionAttachmentRecord =>
+          record?.transactionId === input.transactionId,
+        () => new TransactionAttachmentNotFoundError(input.attachmentId),
+      ),
+    );
+  }
+
+  private fetchObject(
+    attachment: TransactionAttachmentRecord,
+  ): Effect.Effect<
+    DownloadTransactionAttachmentOutput,
+    DownloadTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.attachmentStorage.get(attachment.storageKey),
+        catch: (cause) =>
+          this.createUnexpectedError('ファイルの取得に失敗しました', cause),
+      }),
+      Effect.flatMap((object) =>
+        object === null
+          ? Effect.fail(
+              this.createUnexpectedError(
+                `ファイルが保存先に存在しません: ${attachment.storageKey}`,
+              ),
+            )
+          : Effect.succeed({
+              fileName: attachment.fileName,
+              contentType: attachment.contentType,
+              body: object.body,
+            }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDownloadTransactionAttachmentError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDownloadTransactionAttachmentError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      DownloadTransactionAttachmentOutput,
+      DownloadTransactionAttachmentError
+    >,
+  ): DownloadTransactionAttachmentOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDownloadTransactionAttachmentError({
+                message: '添付ファイルのダウンロードに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
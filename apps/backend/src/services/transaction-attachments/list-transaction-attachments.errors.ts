@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+type UnexpectedListTransactionAttachmentsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListTransactionAttachmentsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListTransactionAttachmentsErrorParams) {
+    super(params.message, 'UnexpectedListTransactionAttachmentsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListTransactionAttachmentsError =
+  | TransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | UnexpectedListTransactionAttachmentsError;
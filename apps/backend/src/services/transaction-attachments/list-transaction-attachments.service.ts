@@ -0,0 +1,180 @@
+// Application Layer: List Transaction Attachments Use Case
+// 取引の添付ファイル一覧の取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  LedgerPermissionDeniedError,
+  type ListTransactionAttachmentsError,
+  TransactionNotFoundError,
+  UnexpectedListTransactionAttachmentsError,
+} from './list-transaction-attachments.errors';
+import {
+  TransactionAttachmentBuilder,
+  type TransactionAttachmentOutput,
+} from './transaction-attachment.builder';
+
+export type ListTransactionAttachmentsInput = {
+  userId: number;
+  transactionId: number;
+};
+
+export type ListTransactionAttachmentsOutput = {
+  attachments: TransactionAttachmentOutput[];
+};
+
+@injectable()
+export class ListTransactionAttachmentsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  private readonly builder = new TransactionAttachmentBuilder();
+
+  async execute(
+    input: ListTransactionAttachmentsInput,
+  ): Promise<ListTransactionAttachmentsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListTransactionAttachmentsInput,
+  ): Effect.Effect<
+    ListTransactionAttachmentsOutput,
+    ListTransactionAttachmentsError
+  > {
+    return pipe(
+      this.ensureTransactionAccess(input),
+      Effect.flatMap((value) => this.fetchAttachments(value)),
+    );
+  }
+
+  private ensureTransactionAccess(
+    input: ListTransactionAttachmentsInput,
+  ): Effect.Effect<
+    ListTransactionAttachmentsInput,
+    ListTransactionAttachmentsError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findById(input.transactionId),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TransactionNotFoundError(input.transactionId))
+          : Effect.succeed(record),
+      ),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  /**
+   * 取引が属する帳簿の閲覧権限があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, ListTransactionAttachmentsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  private fetchAttachments(
+    input: ListTransactionAttachmentsInput,
+  ): Effect.Effect<
+    ListTransactionAttachmentsOutput,
+    ListTransactionAttachmentsError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionAttachmentRepository.findByTransactionId(
+            input.transactionId,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '添付ファイル一覧の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.map((records) => ({
+        attachments: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListTransactionAttachmentsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListTransactionAttachmentsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      ListTransactionAttachmentsOutput,
+      ListTransactionAttachmentsError
+    >,
+  ): ListTransactionAttachmentsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListTransactionAttachmentsError({
+                message: '添付ファイル一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,29 @@
+// Application Layer: Transaction Attachment Builder
+// 添付ファイルユースケースの出力DTO組み立てを担当する
+
+import type {
+  TransactionAttachmentContentType,
+  TransactionAttachmentRecord,
+} from '../../domain/entities/transaction-attachment.entity';
+
+export type TransactionAttachmentOutput = {
+  id: number;
+  transactionId: number;
+  fileName: string;
+  contentType: TransactionAttachmentContentType;
+  size: number;
+  createdAt: string;
+};
+
+export class TransactionAttachmentBuilder {
+  build(record: TransactionAttachmentRecord): TransactionAttachmentOutput {
+    return {
+      id: record.id,
+      transactionId: record.transactionId,
+      fileName: record.fileName,
+      contentType: record.contentType,
+      size: record.size,
+      createdAt: record.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from '../transactions/update-transaction.errors';
+
+export class InvalidAttachmentFileNameError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidAttachmentFileNameError');
+  }
+}
+
+export class UnsupportedAttachmentContentTypeError extends DomainError {
+  constructor(contentType: string) {
+    super(
+      `添付できないファイル形式です（JPEG/PNG/WebP/HEICのみ）: ${contentType}`,
+      'UnsupportedAttachmentContentTypeError',
+    );
+  }
+}
+
+export class InvalidAttachmentSizeError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidAttachmentSizeError');
+  }
+}
+
+type UnexpectedUploadTransactionAttachmentErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUploadTransactionAttachmentError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUploadTransactionAttachmentErrorParams) {
+    super(params.message, 'UnexpectedUploadTransactionAttachmentError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UploadTransactionAttachmentError =
+  | InvalidAttachmentFileNameError
+  | UnsupportedAttachmentContentTypeError
+  | InvalidAttachmentSizeError
+  | TransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | UnexpectedUploadTransactionAttachmentError;
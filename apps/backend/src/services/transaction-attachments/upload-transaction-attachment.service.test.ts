@@ -0,0 +1,250 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  InvalidAttachmentFileNameError,
+  InvalidAttachmentSizeError,
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+  UnexpectedUploadTransactionAttachmentError,
+  UnsupportedAttachmentContentTypeError,
+} from './upload-transaction-attachment.errors';
+import { UploadTransactionAttachmentUseCase } from './upload-transaction-attachment.service';
+
+describe('UploadTransactionAttachmentUseCase（添付ファイルのアップロード）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+  const content = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 10,
+    userId: 100,
+    ledgerId: 100,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2025-01-01',
+    categoryId: 1,
+    accountId: null,
+    transferAccountId: null,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeAttachmentRecord = (
+    override?: Partial<TransactionAttachmentRecord>,
+  ): TransactionAttachmentRecord => ({
+    id: 1,
+    transactionId: 10,
+    userId: 100,
+    fileName: 'receipt.jpg',
+    contentType: 'image/jpeg',
+    size: content.byteLength,
+    storageKey: 'transactions/10/abc',
+    createdAt: fixedNow,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockAttachmentRepo: Partial<ITransactionAttachmentRepository>,
+    mockStorage: Partial<IAttachmentStorage>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(mockAttachmentRepo as ITransactionAttachmentRepository);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(mockStorage as IAttachmentStorage);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(UploadTransactionAttachmentUseCase).toSelf();
+    return container;
+  };
+
+  const baseInput = {
+    userId: 100,
+    transactionId: 10,
+    fileName: 'receipt.jpg',
+    contentType: 'image/jpeg',
+    content,
+  };
+
+  describe('正常系', () => {
+    it('ファイル本体を保存し、メタデータを登録する', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        create: vi.fn().mockResolvedValue(makeAttachmentRecord()),
+      };
+      const mockStorage = {
+        put: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(UploadTransactionAttachmentUseCase);
+
+      const output = await useCase.execute({
+        ...baseInput,
+        fileName: ' photos/receipt.jpg ',
+      });
+
+      const storageKey = mockStorage.put.mock.calls[0][0].key;
+      expect(storageKey).toMatch(/^transactions\/10\/.+$/);
+      expect(mockStorage.put).toHaveBeenCalledWith({
+        key: storageKey,
+        body: content,
+        contentType: 'image/jpeg',
+      });
+      expect(mockAttachmentRepo.create).toHaveBeenCalledWith({
+        transactionId: 10,
+        userId: 100,
+        fileName: 'receipt.jpg',
+        contentType: 'image/jpeg',
+        size: content.byteLength,
+        storageKey,
+      });
+      expect(output).toEqual({
+        attachment: {
+          id: 1,
+          transactionId: 10,
+          fileName: 'receipt.jpg',
+          contentType: 'image/jpeg',
+          size: content.byteLength,
+          createdAt: '2025-01-01T00:00:00.000Z',
+        },
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('ファイル名が空の場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}, {}).get(
+        UploadTransactionAttachmentUseCase,
+      );
+
+      await expect(
+        useCase.execute({ ...baseInput, fileName: '  ' }),
+      ).rejects.toBeInstanceOf(InvalidAttachmentFileNameError);
+    });
+
+    it('画像以外のファイル形式の場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}, {}).get(
+        UploadTransactionAttachmentUseCase,
+      );
+
+      await expect(
+        useCase.execute({ ...baseInput, contentType: 'application/pdf' }),
+      ).rejects.toBeInstanceOf(UnsupportedAttachmentContentTypeError);
+    });
+
+    it('空のファイルの場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}, {}).get(
+        UploadTransactionAttachmentUseCase,
+      );
+
+      await expect(
+        useCase.execute({ ...baseInput, content: new Uint8Array() }),
+      ).rejects.toBeInstanceOf(InvalidAttachmentSizeError);
+    });
+
+    it('取引が見つからない場合は例外になる（ファイルは保存しない）', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(null),
+      };
+      const mockStorage = {
+        put: vi.fn(),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        {},
+        mockStorage,
+      ).get(UploadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        TransactionNotFoundError,
+      );
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('帳簿の閲覧者の場合は例外になる（ファイルは保存しない）', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockStorage = {
+        put: vi.fn(),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        {},
+        mockStorage,
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      ).get(UploadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        LedgerPermissionDeniedError,
+      );
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('メタデータの登録に失敗した場合は保存済みのファイル本体を削除して例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockAttachmentRepo = {
+        create: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+      const mockStorage = {
+        put: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockAttachmentRepo,
+        mockStorage,
+      ).get(UploadTransactionAttachmentUseCase);
+
+      await expect(useCase.execute(baseInput)).rejects.toBeInstanceOf(
+        UnexpectedUploadTransactionAttachmentError,
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        mockStorage.put.mock.calls[0][0].key,
+      );
+    });
+  });
+});
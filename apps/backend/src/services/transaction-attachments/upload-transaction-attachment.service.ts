@@ -0,0 +1,279 @@
+// Application Layer: Upload Transaction Attachment Use Case
+// 取引への添付ファイル（レシート画像など）のアップロードを担当する
+
+import { randomUUID } from 'node:crypto';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import {
+  TransactionAttachment,
+  type TransactionAttachmentContentType,
+} from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from './attachment-storage';
+import {
+  TransactionAttachmentBuilder,
+  type TransactionAttachmentOutput,
+} from './transaction-attachment.builder';
+import {
+  InvalidAttachmentFileNameError,
+  InvalidAttachmentSizeError,
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+  UnexpectedUploadTransactionAttachmentError,
+  UnsupportedAttachmentContentTypeError,
+  type UploadTransactionAttachmentError,
+} from './upload-transaction-attachment.errors';
+
+export type UploadTransactionAttachmentInput = {
+  userId: number;
+  transactionId: number;
+  fileName: string;
+  contentType: string;
+  content: Uint8Array<ArrayBuffer>;
+};
+
+export type UploadTransactionAttachmentOutput = {
+  attachment: TransactionAttachmentOutput;
+};
+
+type ValidatedInput = Omit<UploadTransactionAttachmentInput, 'contentType'> & {
+  contentType: TransactionAttachmentContentType;
+};
+
+type StoredInput = ValidatedInput & { storageKey: string };
+
+@injectable()
+export class UploadTransactionAttachmentUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  private readonly builder = new TransactionAttachmentBuilder();
+
+  async execute(
+    input: UploadTransactionAttachmentInput,
+  ): Promise<UploadTransactionAttachmentOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UploadTransactionAttachmentInput,
+  ): Effect.Effect<
+    UploadTransactionAttachmentOutput,
+    UploadTransactionAttachmentError
+  > {
+    return pipe(
+      this.validateFileName(input),
+      Effect.flatMap((value) => this.validateContentType(value)),
+      Effect.flatMap((value) => this.validateSize(value)),
+      Effect.flatMap((value) => this.ensureTransactionAccess(value)),
+      Effect.flatMap((value) => this.storeObject(value)),
+      Effect.flatMap((value) => this.createAttachment(value)),
+    );
+  }
+
+  private validateFileName(
+    input: UploadTransactionAttachmentInput,
+  ): Effect.Effect<
+    UploadTransactionAttachmentInput,
+    UploadTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.try({
+        try: () => TransactionAttachment.normalizeFileName(input.fileName),
+        catch: (cause) =>
+          new InvalidAttachmentFileNameError(
+            cause instanceof Error ? cause.message : 'ファイル名が不正です',
+          ),
+      }),
+      Effect.map((fileName) => ({ ...input, fileName })),
+    );
+  }
+
+  private validateContentType(
+    input: UploadTransactionAttachmentInput,
+  ): Effect.Effect<ValidatedInput, UploadTransactionAttachmentError> {
+    return pipe(
+      Effect.try({
+        try: () => TransactionAttachment.validateContentType(input.contentType),
+        catch: () =>
+          new UnsupportedAttachmentContentTypeError(input.contentType),
+      }),
+      Effect.map((contentType) => ({ ...input, contentType })),
+    );
+  }
+
+  private validateSize(
+    input: ValidatedInput,
+  ): Effect.Effect<ValidatedInput, UploadTransactionAttachmentError> {
+    return pipe(
+      Effect.try({
+        try: () => TransactionAttachment.validateSize(input.content.byteLength),
+        catch: (cause) =>
+          new InvalidAttachmentSizeError(
+            cause instanceof Error ? cause.message : 'ファイルサイズが不正です',
+          ),
+      }),
+      Effect.map(() => input),
+    );
+  }
+
+  private ensureTransactionAccess(
+    input: ValidatedInput,
+  ): Effect.Effect<ValidatedInput, UploadTransactionAttachmentError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findById(input.transactionId),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TransactionNotFoundError(input.transactionId))
+          : Effect.succeed(record),
+      ),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  /**
+   * 取引が属する帳簿の編集権限があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, UploadTransactionAttachmentError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  private storeObject(
+    input: ValidatedInput,
+  ): Effect.Effect<StoredInput, UploadTransactionAttachmentError> {
+    const storageKey = TransactionAttachment.storageKeyFor(
+      input.transactionId,
+      randomUUID(),
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.attachmentStorage.put({
+            key: storageKey,
+            body: input.content,
+            contentType: input.contentType,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('ファイルの保存に失敗しました', cause),
+      }),
+      Effect.map(() => ({ ...input, storageKey })),
+    );
+  }
+
+  // NOTE: メタデータの登録に失敗した場合は、保存済みのファイル本体を削除してから失敗させる（削除の失敗は無視する）
+  private createAttachment(
+    input: StoredInput,
+  ): Effect.Effect<
+    UploadTransactionAttachmentOutput,
+    UploadTransactionAttachmentError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionAttachmentRepository.create({
+            transactionId: input.transactionId,
+            userId: input.userId,
+            fileName: input.fileName,
+            contentType: input.contentType,
+            size: input.content.byteLength,
+            storageKey: input.storageKey,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('添付ファイルの登録に失敗しました', cause),
+      }),
+      Effect.tapError(() =>
+        Effect.promise(() =>
+          this.attachmentStorage
+            .delete(input.storageKey)
+            .catch(() => undefined),
+        ),
+      ),
+      Effect.map((record) => ({ attachment: this.builder.build(record) })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUploadTransactionAttachmentError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUploadTransactionAttachmentError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      UploadTransactionAttachmentOutput,
+      UploadTransactionAttachmentError
+    >,
+  ): UploadTransactionAttachmentOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUploadTransactionAttachmentError({
+                message: '添付ファイルのアップロードに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
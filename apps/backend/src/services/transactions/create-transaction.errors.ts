@@ -1,4 +1,7 @@
 import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
 
 export class InvalidTransactionTypeError extends DomainError {
   constructor(type: string) {
@@ -66,6 +69,66 @@ export class CategoryTypeMismatchError extends DomainError {
   }
 }
 
+export class UnsupportedCurrencyError extends DomainError {
+  constructor(currency: string) {
+    super(`利用できない通貨です: ${currency}`, 'UnsupportedCurrencyError');
+  }
+}
+
+export class TransactionAccountNotFoundError extends DomainError {
+  constructor(accountId: number) {
+    super(
+      `口座が見つかりません: ${accountId}`,
+      'TransactionAccountNotFoundError',
+    );
+  }
+}
+
+export class AccountCurrencyMismatchError extends DomainError {
+  constructor(accountCurrency: string, currency: string) {
+    super(
+      `口座の通貨(${accountCurrency})と取引の通貨(${currency})が一致しません`,
+      'AccountCurrencyMismatchError',
+    );
+  }
+}
+
+export class TransactionTagsNotFoundError extends DomainError {
+  constructor(tagIds: number[]) {
+    super(
+      `タグが見つかりません: ${tagIds.join(', ')}`,
+      'TransactionTagsNotFoundError',
+    );
+  }
+}
+
+export class TransferAccountRequiredError extends DomainError {
+  constructor() {
+    super(
+      '振替には振替元口座と振替先口座の両方が必要です',
+      'TransferAccountRequiredError',
+    );
+  }
+}
+
+export class SameTransferAccountError extends DomainError {
+  constructor(accountId: number) {
+    super(
+      `振替元口座と振替先口座に同じ口座は指定できません: ${accountId}`,
+      'SameTransferAccountError',
+    );
+  }
+}
+
+export class TransferAccountNotAllowedError extends DomainError {
+  constructor(type: string) {
+    super(
+      `振替以外の取引には振替先口座を指定できません: ${type}`,
+      'TransferAccountNotAllowedError',
+    );
+  }
+}
+
 type UnexpectedCreateTransactionErrorParams = {
   message: string;
   cause?: Error;
@@ -92,4 +155,12 @@ export type CreateTransactionError =
   | TransactionMemoTooLongError
   | CategoryNotFoundError
   | CategoryTypeMismatchError
+  | UnsupportedCurrencyError
+  | TransactionAccountNotFoundError
+  | AccountCurrencyMismatchError
+  | TransactionTagsNotFoundError
+  | TransferAccountRequiredError
+  | SameTransferAccountError
+  | TransferAccountNotAllowedError
+  | LedgerPermissionDeniedError
   | UnexpectedCreateTransactionError;
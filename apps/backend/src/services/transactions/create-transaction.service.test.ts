@@ -1,20 +1,36 @@
 import { Container } from 'inversify';
 import { describe, expect, it, vi } from 'vitest';
 
+import type { AccountRecord } from '../../domain/entities/account.entity';
 import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { TagRecord } from '../../domain/entities/tag.entity';
 import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
 import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
 import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
 import {
+  AccountCurrencyMismatchError,
   CategoryNotFoundError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  LedgerPermissionDeniedError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from './create-transaction.errors';
 import { CreateTransactionUseCase } from './create-transaction.service';
 
@@ -28,6 +44,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
     name: '食費',
     type: 'EXPENSE',
     isDefault: true,
+    parentId: null,
     createdAt: fixedNow,
     updatedAt: fixedNow,
     ...override,
@@ -38,21 +55,100 @@ describe('CreateTransactionUseCase（取引作成）', () => {
   ): TransactionRecord => ({
     id: 1,
     userId: 100,
+    ledgerId: 100,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currency: 'JPY',
     date: '2025-01-15',
     categoryId: 1,
+    accountId: null,
+    transferAccountId: null,
     memo: 'カフェでランチ',
     createdAt: fixedNow,
     updatedAt: fixedNow,
     ...override,
   });
 
+  const makeCurrencyRecord = (
+    override?: Partial<CurrencyRecord>,
+  ): CurrencyRecord => ({
+    id: 1,
+    code: 'JPY',
+    name: '日本円',
+    symbol: '¥',
+    exponent: 0,
+    isActive: true,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 5,
+    userId: 100,
+    name: '財布',
+    type: 'CASH',
+    openingBalance: 10000,
+    currency: 'JPY',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeTagRecord = (override?: Partial<TagRecord>): TagRecord => ({
+    id: 3,
+    userId: 100,
+    name: 'trip-okinawa-2026',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const accountInput = {
+    userId: 100,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2024-01-15',
+    categoryId: 1,
+    accountId: 5,
+    memo: '',
+  } as const;
+
+  const transferInput = {
+    userId: 100,
+    type: 'TRANSFER',
+    title: '口座から引き出し',
+    amount: 20000,
+    currency: 'JPY',
+    date: '2024-01-15',
+    categoryId: 9,
+    accountId: 1,
+    transferAccountId: 5,
+    memo: '',
+  } as const;
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
   const createMockContainer = (
     mockTransactionRepo: Partial<ITransactionRepository>,
     mockCategoryRepo: Partial<ICategoryRepository>,
+    mockCurrencyRepo: Partial<ICurrencyRepository> = {
+      findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+    },
+    mockAccountRepo: Partial<IAccountRepository> = {},
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+    mockTagRepo: Partial<ITagRepository> = {},
   ) => {
     const container = new Container();
     container
@@ -61,6 +157,18 @@ describe('CreateTransactionUseCase（取引作成）', () => {
     container
       .bind<ICategoryRepository>(TOKENS.CategoryRepository)
       .toConstantValue(mockCategoryRepo as ICategoryRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container
+      .bind<ITagRepository>(TOKENS.TagRepository)
+      .toConstantValue(mockTagRepo as ITagRepository);
     container.bind(CreateTransactionUseCase).toSelf();
     return container;
   };
@@ -75,7 +183,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
       });
 
       const mockCategoryRepo = {
-        findById: vi.fn().mockResolvedValue(category),
+        findByIds: vi.fn().mockResolvedValue([category]),
       };
 
       const mockTransactionRepo = {
@@ -93,13 +201,14 @@ describe('CreateTransactionUseCase（取引作成）', () => {
         type: 'EXPENSE',
         title: 'ランチ',
         amount: 1000,
+        currency: 'JPY',
         date: '2024-01-15',
         categoryId: 1,
         memo: 'カフェでランチ',
       } as const;
 
       await expect(useCase.execute(input)).resolves.toEqual(transaction);
-      expect(mockCategoryRepo.findById).toHaveBeenCalledWith(1);
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [1]);
       expect(mockTransactionRepo.create).toHaveBeenCalledWith(
         expect.objectContaining({
           ...input,
@@ -109,6 +218,49 @@ describe('CreateTransactionUseCase（取引作成）', () => {
       );
     });
 
+    it('帳簿を指定した場合はその帳簿に取引を登録する', async () => {
+      const mockCategoryRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([makeCategoryRecord({ id: 1, type: 'EXPENSE' })]),
+      };
+      const mockTransactionRepo = {
+        create: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockLedgerAccessService = createLedgerAccessServiceMock(
+        LedgerRole.editor(),
+      );
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+        undefined,
+        undefined,
+        mockLedgerAccessService,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await useCase.execute({
+        userId: 100,
+        ledgerId: 7,
+        type: 'EXPENSE',
+        title: 'ランチ',
+        amount: 1000,
+        currency: 'JPY',
+        date: '2024-01-15',
+        categoryId: 1,
+        memo: '',
+      });
+
+      expect(mockLedgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 100,
+        ledgerId: 7,
+      });
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 100, ledgerId: 7 }),
+      );
+    });
+
     it('収入取引を作成できる', async () => {
       const category = makeCategoryRecord({ id: 2, type: 'INCOME' });
       const transaction = makeTransactionRecord({
@@ -120,7 +272,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
       });
 
       const mockCategoryRepo = {
-        findById: vi.fn().mockResolvedValue(category),
+        findByIds: vi.fn().mockResolvedValue([category]),
       };
 
       const mockTransactionRepo = {
@@ -139,15 +291,200 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'INCOME',
           title: '給与',
           amount: 300000,
+          currency: 'JPY',
           date: '2024-01-25',
           categoryId: 2,
           memo: '1月分給与',
         }),
       ).resolves.toEqual(transaction);
     });
+
+    it('有効な外貨（USD）で取引を作成できる', async () => {
+      const category = makeCategoryRecord({ id: 1, type: 'EXPENSE' });
+      const transaction = makeTransactionRecord({ currency: 'USD' });
+
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([category]),
+      };
+
+      const mockTransactionRepo = {
+        create: vi.fn().mockResolvedValue(transaction),
+      };
+
+      const mockCurrencyRepo = {
+        findByCode: vi.fn().mockResolvedValue(
+          makeCurrencyRecord({
+            id: 2,
+            code: 'USD',
+            symbol: '$',
+            exponent: 2,
+          }),
+        ),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+        mockCurrencyRepo,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          type: 'EXPENSE',
+          title: 'ホテル',
+          amount: 120,
+          currency: 'USD',
+          date: '2024-01-15',
+          categoryId: 1,
+          memo: '',
+        }),
+      ).resolves.toEqual(transaction);
+      expect(mockCurrencyRepo.findByCode).toHaveBeenCalledWith('USD');
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'USD' }),
+      );
+    });
+
+    it('自分の口座を指定して取引を作成できる', async () => {
+      const transaction = makeTransactionRecord({ accountId: 5 });
+      const mockTransactionRepo = {
+        create: vi.fn().mockResolvedValue(transaction),
+      };
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        mockAccountRepo,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(useCase.execute(accountInput)).resolves.toEqual(transaction);
+      expect(mockAccountRepo.findById).toHaveBeenCalledWith(5);
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 5 }),
+      );
+    });
+
+    it('振替元口座から振替先口座への振替を作成できる', async () => {
+      const transaction = makeTransactionRecord({
+        type: 'TRANSFER',
+        categoryId: 9,
+        accountId: 1,
+        transferAccountId: 5,
+      });
+      const mockTransactionRepo = {
+        create: vi.fn().mockResolvedValue(transaction),
+      };
+      const mockAccountRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValueOnce(makeAccountRecord({ id: 1, type: 'BANK' }))
+          .mockResolvedValueOnce(makeAccountRecord()),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {
+          findByIds: vi
+            .fn()
+            .mockResolvedValue([
+              makeCategoryRecord({ id: 9, name: '振替', type: 'TRANSFER' }),
+            ]),
+        },
+        undefined,
+        mockAccountRepo,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(useCase.execute(transferInput)).resolves.toEqual(
+        transaction,
+      );
+      expect(mockAccountRepo.findById).toHaveBeenNthCalledWith(1, 1);
+      expect(mockAccountRepo.findById).toHaveBeenNthCalledWith(2, 5);
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'TRANSFER',
+          accountId: 1,
+          transferAccountId: 5,
+        }),
+      );
+    });
+
+    it('自分のタグを指定して取引を作成できる', async () => {
+      const transaction = makeTransactionRecord();
+      const mockTransactionRepo = {
+        create: vi.fn().mockResolvedValue(transaction),
+      };
+      const mockTagRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeTagRecord({ id: 3 }),
+            makeTagRecord({ id: 4, name: 'reimbursable' }),
+          ]),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        undefined,
+        undefined,
+        mockTagRepo,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          ...accountInput,
+          accountId: undefined,
+          tagIds: [4, 3],
+        }),
+      ).resolves.toEqual(transaction);
+      expect(mockTagRepo.findByIds).toHaveBeenCalledWith([4, 3]);
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ tagIds: [4, 3] }),
+      );
+    });
   });
 
   describe('異常系', () => {
+    it('帳簿の閲覧者の場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        create: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        undefined,
+        undefined,
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          ledgerId: 7,
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1000,
+          currency: 'JPY',
+          date: '2024-01-15',
+          categoryId: 1,
+          memo: '',
+        }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
     it('不正な取引タイプの場合は例外になる', async () => {
       const container = createMockContainer({}, {});
       const useCase = container.get(CreateTransactionUseCase);
@@ -158,6 +495,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'INVALID' as 'INCOME',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: '',
@@ -175,6 +513,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: -1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: '',
@@ -187,6 +526,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 0,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: '',
@@ -204,6 +544,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2025/01/15',
           categoryId: 1,
           memo: '',
@@ -213,7 +554,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
 
     it('カテゴリが存在しない場合は例外になる', async () => {
       const mockCategoryRepo = {
-        findById: vi.fn().mockResolvedValue(null),
+        findByIds: vi.fn().mockResolvedValue([]),
       };
 
       const container = createMockContainer({}, mockCategoryRepo);
@@ -225,6 +566,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 999,
           memo: '',
@@ -232,10 +574,39 @@ describe('CreateTransactionUseCase（取引作成）', () => {
       ).rejects.toBeInstanceOf(CategoryNotFoundError);
     });
 
+    it('他のユーザーのカテゴリを指定した場合は例外になる', async () => {
+      // 利用可能なカテゴリに含まれないため、リポジトリからは返らない
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([]),
+      };
+      const mockTransactionRepo = { create: vi.fn() };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1000,
+          currency: 'JPY',
+          date: '2024-01-15',
+          categoryId: 50,
+          memo: '',
+        }),
+      ).rejects.toBeInstanceOf(CategoryNotFoundError);
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [50]);
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
     it('カテゴリタイプが一致しない場合は例外になる', async () => {
       const category = makeCategoryRecord({ id: 1, type: 'INCOME' });
       const mockCategoryRepo = {
-        findById: vi.fn().mockResolvedValue(category),
+        findByIds: vi.fn().mockResolvedValue([category]),
       };
 
       const container = createMockContainer({}, mockCategoryRepo);
@@ -247,6 +618,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: '',
@@ -264,6 +636,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: '   ',
           amount: 1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: '',
@@ -282,6 +655,7 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2024-01-15',
           categoryId: 1,
           memo: longMemo,
@@ -299,11 +673,184 @@ describe('CreateTransactionUseCase（取引作成）', () => {
           type: 'EXPENSE',
           title: 'ランチ',
           amount: 1000,
+          currency: 'JPY',
           date: '2099-01-01',
           categoryId: 1,
           memo: '',
         }),
       ).rejects.toBeInstanceOf(FutureTransactionDateError);
     });
+
+    it('無効化されている通貨の場合は例外になる', async () => {
+      const mockTransactionRepo = { create: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        {
+          findByCode: vi
+            .fn()
+            .mockResolvedValue(
+              makeCurrencyRecord({ id: 3, code: 'EUR', isActive: false }),
+            ),
+        },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1000,
+          currency: 'EUR',
+          date: '2024-01-15',
+          categoryId: 1,
+          memo: '',
+        }),
+      ).rejects.toBeInstanceOf(UnsupportedCurrencyError);
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('存在しない通貨の場合は例外になる', async () => {
+      const container = createMockContainer(
+        {},
+        {},
+        { findByCode: vi.fn().mockResolvedValue(null) },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1000,
+          currency: 'XXX',
+          date: '2024-01-15',
+          categoryId: 1,
+          memo: '',
+        }),
+      ).rejects.toBeInstanceOf(UnsupportedCurrencyError);
+    });
+
+    it('他のユーザーの口座を指定した場合は例外になる', async () => {
+      const mockTransactionRepo = { create: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        {
+          findById: vi
+            .fn()
+            .mockResolvedValue(makeAccountRecord({ userId: 999 })),
+        },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(useCase.execute(accountInput)).rejects.toBeInstanceOf(
+        TransactionAccountNotFoundError,
+      );
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('口座と取引の通貨が異なる場合は例外になる', async () => {
+      const mockTransactionRepo = { create: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        {
+          findById: vi
+            .fn()
+            .mockResolvedValue(makeAccountRecord({ currency: 'USD' })),
+        },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(useCase.execute(accountInput)).rejects.toBeInstanceOf(
+        AccountCurrencyMismatchError,
+      );
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('振替で振替先口座を指定しない場合は例外になる', async () => {
+      const container = createMockContainer({}, {});
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ ...transferInput, transferAccountId: undefined }),
+      ).rejects.toBeInstanceOf(TransferAccountRequiredError);
+    });
+
+    it('振替元口座と振替先口座が同じ場合は例外になる', async () => {
+      const container = createMockContainer({}, {});
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ ...transferInput, transferAccountId: 1 }),
+      ).rejects.toBeInstanceOf(SameTransferAccountError);
+    });
+
+    it('振替以外の取引に振替先口座を指定した場合は例外になる', async () => {
+      const container = createMockContainer({}, {});
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ ...accountInput, transferAccountId: 6 }),
+      ).rejects.toBeInstanceOf(TransferAccountNotAllowedError);
+    });
+
+    it('振替先口座が他のユーザーの口座の場合は例外になる', async () => {
+      const mockTransactionRepo = { create: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {
+          findByIds: vi
+            .fn()
+            .mockResolvedValue([
+              makeCategoryRecord({ id: 9, type: 'TRANSFER' }),
+            ]),
+        },
+        undefined,
+        {
+          findById: vi
+            .fn()
+            .mockResolvedValueOnce(makeAccountRecord({ id: 1 }))
+            .mockResolvedValueOnce(makeAccountRecord({ userId: 999 })),
+        },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(useCase.execute(transferInput)).rejects.toBeInstanceOf(
+        TransactionAccountNotFoundError,
+      );
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('他のユーザーのタグや存在しないタグを指定した場合は例外になる', async () => {
+      const mockTransactionRepo = { create: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        undefined,
+        undefined,
+        {
+          findByIds: vi
+            .fn()
+            .mockResolvedValue([makeTagRecord({ id: 4, userId: 999 })]),
+        },
+      );
+      const useCase = container.get(CreateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          ...accountInput,
+          accountId: undefined,
+          tagIds: [4, 5],
+        }),
+      ).rejects.toBeInstanceOf(TransactionTagsNotFoundError);
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+    });
   });
 });
@@ -5,18 +5,27 @@ import * as Cause from 'effect/Cause';
 import * as Exit from 'effect/Exit';
 import * as Option from 'effect/Option';
 import { inject, injectable } from 'inversify';
+import type { AccountRecord } from '../../domain/entities/account.entity';
 import type { CategoryRecord } from '../../domain/entities/category.entity';
 import type {
   CreateTransactionData,
   TransactionRecord,
 } from '../../domain/entities/transaction.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
 import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
 import { Money } from '../../domain/values/money';
 import { TransactionDate } from '../../domain/values/transaction-date';
 import { Effect, pipe } from '../../shared/result';
 import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
 import {
+  AccountCurrencyMismatchError,
   CategoryNotFoundError,
   CategoryTypeMismatchError,
   type CreateTransactionError,
@@ -24,15 +33,26 @@ import {
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  LedgerPermissionDeniedError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
   TransactionTitleTooLongError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
   UnexpectedCreateTransactionError,
+  UnsupportedCurrencyError,
 } from './create-transaction.errors';
 
-export interface CreateTransactionInput extends CreateTransactionData {}
+export interface CreateTransactionInput
+  extends Omit<CreateTransactionData, 'ledgerId'> {
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
+}
 
-type NormalizedInput = CreateTransactionInput & { title: string; memo: string };
+type LedgerAuthorizedInput = CreateTransactionInput & { ledgerId: number };
+type NormalizedInput = LedgerAuthorizedInput & { title: string; memo: string };
 type DatedInput = NormalizedInput & { transactionDate: TransactionDate };
 type CategoryLoadedInput = DatedInput & { category: CategoryRecord };
 
@@ -44,6 +64,18 @@ export class CreateTransactionUseCase {
   @inject(TOKENS.CategoryRepository)
   private categoryRepository!: ICategoryRepository;
 
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
   async execute(input: CreateTransactionInput): Promise<TransactionRecord> {
     const program = this.buildProgram(input);
     const exit = await Effect.runPromiseExit(program);
@@ -54,20 +86,49 @@ export class CreateTransactionUseCase {
     input: CreateTransactionInput,
   ): Effect.Effect<TransactionRecord, CreateTransactionError> {
     return pipe(
-      this.normalizeInput(input),
+      this.authorizeLedger(input),
+      Effect.flatMap((value) => this.normalizeInput(value)),
       Effect.flatMap((value) => this.validateTransactionType(value)),
+      Effect.flatMap((value) => this.validateTransferAccounts(value)),
       Effect.flatMap((value) => this.validateTitle(value)),
       Effect.flatMap((value) => this.validateMemo(value)),
       Effect.flatMap((value) => this.validateAmount(value)),
+      Effect.flatMap((value) => this.validateCurrency(value)),
       Effect.flatMap((value) => this.validateDate(value)),
       Effect.flatMap((value) => this.fetchCategory(value)),
       Effect.flatMap((value) => this.ensureCategoryMatches(value)),
+      Effect.flatMap((value) => this.validateAccount(value)),
+      Effect.flatMap((value) => this.validateTags(value)),
       Effect.flatMap((value) => this.createTransaction(value)),
     );
   }
 
-  private normalizeInput(
+  /**
+   * 取引を登録する帳簿の編集権限（オーナー/編集者）があることを検証する
+   */
+  private authorizeLedger(
     input: CreateTransactionInput,
+  ): Effect.Effect<LedgerAuthorizedInput, CreateTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ({ ...input, ledgerId })),
+    );
+  }
+
+  private normalizeInput(
+    input: LedgerAuthorizedInput,
   ): Effect.Effect<NormalizedInput, CreateTransactionError> {
     return Effect.succeed({
       ...input,
@@ -82,12 +143,40 @@ export class CreateTransactionUseCase {
     return pipe(
       Effect.succeed(value),
       Effect.filterOrFail(
-        ({ type }) => type === 'INCOME' || type === 'EXPENSE',
+        ({ type }) =>
+          type === 'INCOME' || type === 'EXPENSE' || type === 'TRANSFER',
         () => new InvalidTransactionTypeError(value.type),
       ),
     );
   }
 
+  /**
+   * 振替の場合は振替元/振替先の口座が揃っていて異なること、振替以外の場合は振替先口座がないことを検証する
+   */
+  private validateTransferAccounts(
+    value: NormalizedInput,
+  ): Effect.Effect<NormalizedInput, CreateTransactionError> {
+    return pipe(
+      Effect.succeed(value),
+      Effect.filterOrFail(
+        ({ type, transferAccountId }) =>
+          type === 'TRANSFER' || transferAccountId === undefined,
+        () => new TransferAccountNotAllowedError(value.type),
+      ),
+      Effect.filterOrFail(
+        ({ type, accountId, transferAccountId }) =>
+          type !== 'TRANSFER' ||
+          (accountId !== undefined && transferAccountId !== undefined),
+        () => new TransferAccountRequiredError(),
+      ),
+      Effect.filterOrFail(
+        ({ accountId, transferAccountId }) =>
+          transferAccountId === undefined || accountId !== transferAccountId,
+        () => new SameTransferAccountError(value.transferAccountId ?? 0),
+      ),
+    );
+  }
+
   private validateTitle(
     value: NormalizedInput,
   ): Effect.Effect<NormalizedInput, CreateTransactionError> {
@@ -127,7 +216,7 @@ export class CreateTransactionUseCase {
       ),
       Effect.flatMap(() =>
         Effect.try({
-          try: () => Money.of(value.amount),
+          try: () => Money.ofWithCurrency(value.amount, value.currency),
           catch: () => new InvalidAmountError(value.amount),
         }),
       ),
@@ -135,6 +224,23 @@ export class CreateTransactionUseCase {
     );
   }
 
+  private validateCurrency(
+    value: NormalizedInput,
+  ): Effect.Effect<NormalizedInput, CreateTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findByCode(value.currency),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (currency) => currency?.isActive === true,
+        () => new UnsupportedCurrencyError(value.currency),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
   private validateDate(
     value: NormalizedInput,
   ): Effect.Effect<DatedInput, CreateTransactionError> {
@@ -161,14 +267,15 @@ export class CreateTransactionUseCase {
     return pipe(
       pipe(
         Effect.promise(() =>
-          this.categoryRepository.findById(value.categoryId),
+          // NOTE: 他のユーザーのカテゴリを指定できないよう、利用可能なカテゴリに限定して取得する
+          this.categoryRepository.findByIds(value.userId, [value.categoryId]),
         ),
         Effect.mapError((cause) =>
           this.createUnexpectedError('カテゴリ情報の取得に失敗しました', cause),
         ),
       ),
-      Effect.flatMap((category) =>
-        category === null
+      Effect.flatMap(([category]) =>
+        category === undefined
           ? Effect.fail(new CategoryNotFoundError(value.categoryId))
           : Effect.succeed({
               ...value,
@@ -190,17 +297,94 @@ export class CreateTransactionUseCase {
     );
   }
 
+  /**
+   * 口座（振替の場合は振替元/振替先の両方）を指定した場合は、自分の口座であり取引と同じ通貨であることを検証する
+   */
+  private validateAccount(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateTransactionError> {
+    const accountIds = [value.accountId, value.transferAccountId].filter(
+      (accountId): accountId is number => accountId !== undefined,
+    );
+
+    return pipe(
+      Effect.forEach(accountIds, (accountId) =>
+        this.ensureAccountUsable(value, accountId),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private ensureAccountUsable(
+    value: CategoryLoadedInput,
+    accountId: number,
+  ): Effect.Effect<AccountRecord, CreateTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findById(accountId),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((account) =>
+        account === null || account.userId !== value.userId
+          ? Effect.fail(new TransactionAccountNotFoundError(accountId))
+          : Effect.succeed(account),
+      ),
+      Effect.filterOrFail(
+        (account) => account.currency === value.currency,
+        (account) =>
+          new AccountCurrencyMismatchError(account.currency, value.currency),
+      ),
+    );
+  }
+
+  /**
+   * タグを指定した場合は、すべて自分のタグであることを検証する
+   */
+  private validateTags(
+    value: CategoryLoadedInput,
+  ): Effect.Effect<CategoryLoadedInput, CreateTransactionError> {
+    const tagIds = value.tagIds ?? [];
+
+    return tagIds.length === 0
+      ? Effect.succeed(value)
+      : pipe(
+          Effect.tryPromise({
+            try: () => this.tagRepository.findByIds(tagIds),
+            catch: (cause) =>
+              this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+          }),
+          Effect.flatMap((tags) => {
+            const ownedIds = new Set(
+              tags
+                .filter((tag) => tag.userId === value.userId)
+                .map((tag) => tag.id),
+            );
+            const missing = tagIds.filter((id) => !ownedIds.has(id));
+
+            return missing.length > 0
+              ? Effect.fail(new TransactionTagsNotFoundError(missing))
+              : Effect.succeed(value);
+          }),
+        );
+  }
+
   private createTransaction(
     value: CategoryLoadedInput,
   ): Effect.Effect<TransactionRecord, CreateTransactionError> {
     const payload: CreateTransactionData = {
+      ledgerId: value.ledgerId,
       userId: value.userId,
       type: value.type,
       title: value.title,
       amount: value.amount,
+      currency: value.currency,
       date: value.date,
       categoryId: value.categoryId,
+      accountId: value.accountId,
+      transferAccountId: value.transferAccountId,
       memo: value.memo,
+      tagIds: value.tagIds,
     };
 
     return pipe(
@@ -1,11 +1,11 @@
 import { DomainError } from '../../domain/values/domain-error';
 import type {
-  NotOwnerError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
 } from './update-transaction.errors';
 
 export {
-  NotOwnerError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
 } from './update-transaction.errors';
 
@@ -27,5 +27,5 @@ export class UnexpectedDeleteTransactionError extends DomainError {
 
 export type DeleteTransactionError =
   | TransactionNotFoundError
-  | NotOwnerError
+  | LedgerPermissionDeniedError
   | UnexpectedDeleteTransactionError;
@@ -3,9 +3,11 @@ import { describe, expect, it, vi } from 'vitest';
 
 import type { TransactionRecord } from '../../domain/entities/transaction.entity';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
 import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
 import {
-  NotOwnerError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
   UnexpectedDeleteTransactionError,
 } from './delete-transaction.errors';
@@ -20,31 +22,46 @@ describe('DeleteTransactionUseCase（取引削除）', () => {
   ): TransactionRecord => ({
     id: 1,
     userId: 100,
+    ledgerId: 100,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currency: 'JPY',
     date: '2026-01-01',
     categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
     memo: 'メモ',
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
     ...override,
   });
 
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
   const createMockContainer = (
     mockTransactionRepo: Partial<ITransactionRepository>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
   ) => {
     const container = new Container();
     container
       .bind<ITransactionRepository>(TOKENS.TransactionRepository)
       .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
     container.bind(DeleteTransactionUseCase).toSelf();
     return container;
   };
 
   describe('正常系', () => {
-    it('所有者が一致する場合は論理削除できる', async () => {
+    it('帳簿の編集権限がある場合は論理削除できる', async () => {
       const mockTransactionRepo = {
         findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
         delete: vi.fn().mockResolvedValue(undefined),
@@ -58,6 +75,38 @@ describe('DeleteTransactionUseCase（取引削除）', () => {
       expect(mockTransactionRepo.findById).toHaveBeenCalledWith(1);
       expect(mockTransactionRepo.delete).toHaveBeenCalledWith(
         expect.objectContaining({ id: 1 }),
+        { changedBy: 100 },
+      );
+      expect(output).toEqual({ deleted: true });
+    });
+
+    it('編集者は他のメンバーが登録した取引も削除できる', async () => {
+      const mockTransactionRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord({ userId: 200 })),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+      const mockLedgerAccessService = createLedgerAccessServiceMock(
+        LedgerRole.editor(),
+      );
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockLedgerAccessService,
+      );
+      const useCase = container.get(DeleteTransactionUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockLedgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 100,
+        ledgerId: 100,
+      });
+      // NOTE: 変更履歴には取引を登録したユーザーではなく、削除したユーザーを記録する
+      expect(mockTransactionRepo.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        { changedBy: 100 },
       );
       expect(output).toEqual({ deleted: true });
     });
@@ -77,19 +126,22 @@ describe('DeleteTransactionUseCase（取引削除）', () => {
       ).rejects.toBeInstanceOf(TransactionNotFoundError);
     });
 
-    it('所有者が一致しない場合は例外になる', async () => {
+    it('帳簿の閲覧者の場合は例外になる', async () => {
       const mockTransactionRepo = {
-        findById: vi
-          .fn()
-          .mockResolvedValue(makeTransactionRecord({ userId: 999 })),
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        delete: vi.fn(),
       };
 
-      const container = createMockContainer(mockTransactionRepo);
+      const container = createMockContainer(
+        mockTransactionRepo,
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      );
       const useCase = container.get(DeleteTransactionUseCase);
 
       await expect(
         useCase.execute({ userId: 100, id: 1 }),
-      ).rejects.toBeInstanceOf(NotOwnerError);
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(mockTransactionRepo.delete).not.toHaveBeenCalled();
     });
 
     it('削除処理が失敗した場合は例外になる', async () => {
@@ -10,9 +10,13 @@ import { Money } from '../../domain/values/money';
 import { TransactionDate } from '../../domain/values/transaction-date';
 import { Effect, pipe } from '../../shared/result';
 import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
 import {
   type DeleteTransactionError,
-  NotOwnerError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
   UnexpectedDeleteTransactionError,
 } from './delete-transaction.errors';
@@ -31,6 +35,9 @@ export class DeleteTransactionUseCase {
   @inject(TOKENS.TransactionRepository)
   private transactionRepository!: ITransactionRepository;
 
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
   async execute(
     input: DeleteTransactionInput,
   ): Promise<DeleteTransactionOutput> {
@@ -44,7 +51,7 @@ export class DeleteTransactionUseCase {
   ): Effect.Effect<DeleteTransactionOutput, DeleteTransactionError> {
     return pipe(
       this.fetchCurrentTransaction(input),
-      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.authorizeLedger(value)),
       Effect.flatMap((value) => this.deleteTransaction(value)),
     );
   }
@@ -69,18 +76,30 @@ export class DeleteTransactionUseCase {
     );
   }
 
-  private ensureOwner(
+  /**
+   * 取引が登録されている帳簿の編集権限（オーナー/編集者）があることを検証する
+   */
+  private authorizeLedger(
     value: DeleteTransactionInput & { current: TransactionRecord },
   ): Effect.Effect<
     DeleteTransactionInput & { current: TransactionRecord },
     DeleteTransactionError
   > {
     return pipe(
-      Effect.succeed(value),
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: value.userId,
+            ledgerId: value.current.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
       Effect.filterOrFail(
-        ({ current, userId }) => current.userId === userId,
-        () => new NotOwnerError(),
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
       ),
+      Effect.map(() => value),
     );
   }
 
@@ -115,7 +134,10 @@ export class DeleteTransactionUseCase {
       }),
       Effect.flatMap((transaction) =>
         Effect.tryPromise({
-          try: () => this.transactionRepository.delete(transaction),
+          try: () =>
+            this.transactionRepository.delete(transaction, {
+              changedBy: value.userId,
+            }),
           catch: (cause) =>
             this.createUnexpectedError('取引の削除に失敗しました', cause),
         }),
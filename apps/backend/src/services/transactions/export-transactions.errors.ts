@@ -0,0 +1,24 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+type UnexpectedExportTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedExportTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedExportTransactionsErrorParams) {
+    super(params.message, 'UnexpectedExportTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ExportTransactionsError =
+  | LedgerPermissionDeniedError
+  | UnexpectedExportTransactionsError;
@@ -0,0 +1,105 @@
+// Application Layer: Export Transactions Formatter
+// エクスポートする取引を CSV / JSON の文字列（チャンク）に変換する
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportCategory = {
+  id: number;
+  name: string;
+};
+
+export type ExportRow = {
+  id: number;
+  date: string; // YYYY-MM-DD
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  title: string;
+  amount: string; // NOTE: 通貨の補助単位の桁数に合わせた10進数表記（例: 12.34 USD → "12.34"）
+  currencyCode: string;
+  categories: ExportCategory[];
+  memo: string;
+};
+
+export type ExportFormatter = {
+  contentType: string;
+  extension: string;
+  begin: string;
+  formatRows: (rows: ExportRow[], isFirstChunk: boolean) => string;
+  end: string;
+};
+
+// NOTE: Excelで開いたときに文字化けしないようBOM付きUTF-8で出力する
+const UTF8_BOM = '\uFEFF' as const;
+const CSV_LINE_BREAK = '\r\n' as const;
+const CSV_DELIMITER = ',' as const;
+const CSV_MULTI_VALUE_SEPARATOR = ';' as const;
+const CSV_QUOTE = '"' as const;
+const CSV_NEEDS_QUOTE = /[",\r\n]/;
+// NOTE: 表計算ソフトで数式として解釈される先頭文字（CSVインジェクション対策）
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const CSV_FORMULA_ESCAPE = "'" as const;
+const JSON_SEPARATOR = ',' as const;
+
+const CSV_HEADER = [
+  'id',
+  'date',
+  'type',
+  'title',
+  'amount',
+  'currencyCode',
+  'categoryIds',
+  'categoryNames',
+  'memo',
+] as const;
+
+const escapeCsvCell = (value: string): string => {
+  const safe = CSV_FORMULA_PREFIX.test(value)
+    ? `${CSV_FORMULA_ESCAPE}${value}`
+    : value;
+
+  return CSV_NEEDS_QUOTE.test(safe)
+    ? `${CSV_QUOTE}${safe.replaceAll(CSV_QUOTE, `${CSV_QUOTE}${CSV_QUOTE}`)}${CSV_QUOTE}`
+    : safe;
+};
+
+const toCsvLine = (cells: readonly string[]): string =>
+  `${cells.map(escapeCsvCell).join(CSV_DELIMITER)}${CSV_LINE_BREAK}`;
+
+const toCsvCells = (row: ExportRow): string[] => [
+  String(row.id),
+  row.date,
+  row.type,
+  row.title,
+  row.amount,
+  row.currencyCode,
+  row.categories.map((category) => category.id).join(CSV_MULTI_VALUE_SEPARATOR),
+  row.categories
+    .map((category) => category.name)
+    .join(CSV_MULTI_VALUE_SEPARATOR),
+  row.memo,
+];
+
+export const EXPORT_FORMATTERS: Record<ExportFormat, ExportFormatter> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    begin: `${UTF8_BOM}${toCsvLine(CSV_HEADER)}`,
+    formatRows: (rows) =>
+      rows.map((row) => toCsvLine(toCsvCells(row))).join(''),
+    end: '',
+  },
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    begin: '[',
+    // NOTE: 2チャンク目以降は直前の要素との区切りを先頭に付ける
+    formatRows: (rows, isFirstChunk) =>
+      rows
+        .map((row, index) =>
+          isFirstChunk && index === 0
+            ? JSON.stringify(row)
+            : `${JSON_SEPARATOR}${JSON.stringify(row)}`,
+        )
+        .join(''),
+    end: ']',
+  },
+};
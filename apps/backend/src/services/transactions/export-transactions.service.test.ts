@@ -0,0 +1,344 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { TransactionListItemRecord } from '../../domain/entities/transaction.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import { UnexpectedExportTransactionsError } from './export-transactions.errors';
+import {
+  type ExportTransactionsInput,
+  ExportTransactionsUseCase,
+} from './export-transactions.service';
+
+const EXPORT_BATCH_SIZE = 500;
+
+describe('ExportTransactionsUseCase（取引エクスポート）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeItem = (
+    override?: Partial<TransactionListItemRecord>,
+  ): TransactionListItemRecord => ({
+    id: 1,
+    userId: 1,
+    ledgerId: 1,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1200,
+    currencyCode: 'JPY',
+    date: '2025-01-10',
+    categoryIds: [10],
+    splits: [{ categoryId: 10, amount: 1200 }],
+    tagIds: [],
+    accountId: null,
+    transferAccountId: null,
+    memo: '',
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const makeInput = (
+    override?: Partial<ExportTransactionsInput>,
+  ): ExportTransactionsInput => ({
+    userId: 1,
+    format: 'csv',
+    order: 'desc',
+    ...override,
+  });
+
+  const makeCurrency = (
+    override?: Partial<CurrencyRecord>,
+  ): CurrencyRecord => ({
+    id: 1,
+    code: 'JPY',
+    name: '日本円',
+    symbol: '¥',
+    exponent: 0,
+    isActive: true,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const createCurrencyRepoMock = (): Partial<ICurrencyRepository> => ({
+    findAll: vi.fn().mockResolvedValue([
+      makeCurrency(),
+      makeCurrency({
+        id: 2,
+        code: 'USD',
+        name: '米ドル',
+        symbol: '$',
+        exponent: 2,
+      }),
+    ]),
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockCategoryRepo: Partial<ICategoryRepository>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+    mockCurrencyRepo: Partial<ICurrencyRepository> = createCurrencyRepoMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(mockCategoryRepo as ICategoryRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(ExportTransactionsUseCase).toSelf();
+    return container;
+  };
+
+  const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+    const collected: string[] = [];
+    for await (const chunk of chunks) {
+      collected.push(chunk);
+    }
+    return collected.join('');
+  };
+
+  describe('正常系', () => {
+    it('一覧と同じ絞り込み条件で取得し、カテゴリの表示名付きでCSVを出力する', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi.fn().mockResolvedValue({
+          items: [
+            makeItem({ categoryIds: [10, 11], memo: '社食, 2人分' }),
+            makeItem({ id: 2, title: '=SUM(A1)', memo: null }),
+          ],
+          total: 2,
+        }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi.fn().mockResolvedValue([
+          { id: 10, name: 'ごはん' },
+          { id: 11, name: '交際費' },
+        ]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ExportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          startDate: '2025-01-01',
+          endDate: '2025-01-31',
+          type: 'EXPENSE',
+          categoryIds: [10],
+          order: 'asc',
+        }),
+      );
+
+      expect(mockTransactionRepo.listByLedgerId).toHaveBeenCalledWith({
+        ledgerId: 1,
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        type: 'EXPENSE',
+        categoryIds: [10],
+        sortBy: 'date',
+        order: 'asc',
+        limit: EXPORT_BATCH_SIZE,
+        offset: 0,
+      });
+      expect(mockCategoryRepo.findDisplayNamesByIds).toHaveBeenCalledWith(
+        1,
+        [10, 11],
+      );
+      expect(output.contentType).toBe('text/csv; charset=utf-8');
+      expect(output.fileName).toMatch(/^transactions-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(await collect(output.chunks)).toBe(
+        [
+          '\uFEFFid,date,type,title,amount,currencyCode,categoryIds,categoryNames,memo',
+          '1,2025-01-10,EXPENSE,ランチ,1200,JPY,10;11,ごはん;交際費,"社食, 2人分"',
+          "2,2025-01-10,EXPENSE,'=SUM(A1),1200,JPY,10,ごはん,",
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it('件数が多い場合は前のバッチの最後の取引より後ろを分割して取得し、JSON配列として出力する', async () => {
+      const firstBatch = Array.from({ length: EXPORT_BATCH_SIZE }, (_, index) =>
+        makeItem({ id: EXPORT_BATCH_SIZE + 1 - index }),
+      );
+      const mockTransactionRepo = {
+        listByLedgerId: vi
+          .fn()
+          .mockResolvedValueOnce({ items: firstBatch, total: 501 })
+          .mockResolvedValueOnce({
+            items: [makeItem({ id: 1 })],
+            total: null,
+          }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi
+          .fn()
+          .mockResolvedValue([{ id: 10, name: '食費' }]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ExportTransactionsUseCase);
+
+      const output = await useCase.execute(makeInput({ format: 'json' }));
+
+      // NOTE: 2バッチ目は読み出し時に取得する
+      expect(mockTransactionRepo.listByLedgerId).toHaveBeenCalledTimes(1);
+
+      const rows = JSON.parse(await collect(output.chunks));
+
+      expect(output.contentType).toBe('application/json; charset=utf-8');
+      expect(mockTransactionRepo.listByLedgerId).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          after: { value: '2025-01-10', id: 2 },
+          offset: 0,
+        }),
+      );
+      expect(rows).toHaveLength(501);
+      expect(rows[500]).toEqual({
+        id: 1,
+        date: '2025-01-10',
+        type: 'EXPENSE',
+        title: 'ランチ',
+        amount: '1200',
+        currencyCode: 'JPY',
+        categories: [{ id: 10, name: '食費' }],
+        memo: '',
+      });
+    });
+
+    it('金額は通貨の補助単位の桁数に合わせた10進数表記で出力する', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi.fn().mockResolvedValue({
+          items: [
+            makeItem({ currencyCode: 'USD', amount: 1234 }),
+            makeItem({ id: 2, currencyCode: 'USD', amount: 5 }),
+          ],
+          total: 2,
+        }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi
+          .fn()
+          .mockResolvedValue([{ id: 10, name: '食費' }]),
+      };
+      const mockCurrencyRepo = createCurrencyRepoMock();
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+        createLedgerAccessServiceMock(),
+        mockCurrencyRepo,
+      ).get(ExportTransactionsUseCase);
+
+      const output = await useCase.execute(makeInput());
+
+      expect(mockCurrencyRepo.findAll).toHaveBeenCalledWith({
+        includeInactive: true,
+      });
+      expect(await collect(output.chunks)).toBe(
+        [
+          '\uFEFFid,date,type,title,amount,currencyCode,categoryIds,categoryNames,memo',
+          '1,2025-01-10,EXPENSE,ランチ,12.34,USD,10,食費,',
+          '2,2025-01-10,EXPENSE,ランチ,0.05,USD,10,食費,',
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it('該当する取引がない場合はヘッダーのみ（JSONは空配列）を出力する', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi.fn().mockResolvedValue({ items: [], total: 0 }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ExportTransactionsUseCase);
+
+      const output = await useCase.execute(makeInput({ format: 'json' }));
+
+      expect(await collect(output.chunks)).toBe('[]');
+    });
+  });
+
+  describe('異常系', () => {
+    it('取引の取得に失敗した場合は出力開始前に例外になる', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo, {}).get(
+        ExportTransactionsUseCase,
+      );
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        UnexpectedExportTransactionsError,
+      );
+    });
+
+    it('通貨の補助単位の桁数が分からない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi.fn().mockResolvedValue({
+          items: [makeItem({ currencyCode: 'EUR' })],
+          total: 1,
+        }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ExportTransactionsUseCase);
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        UnexpectedExportTransactionsError,
+      );
+    });
+
+    it('カテゴリの取得に失敗した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        listByLedgerId: vi
+          .fn()
+          .mockResolvedValue({ items: [makeItem()], total: 1 }),
+      };
+      const mockCategoryRepo = {
+        findDisplayNamesByIds: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ExportTransactionsUseCase);
+
+      await expect(useCase.execute(makeInput())).rejects.toBeInstanceOf(
+        UnexpectedExportTransactionsError,
+      );
+    });
+  });
+});
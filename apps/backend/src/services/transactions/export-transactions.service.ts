@@ -0,0 +1,356 @@
+// Application Layer: Export Transactions Use Case
+// 取引一覧と同じ絞り込み条件で、全件を CSV / JSON としてストリーム出力する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type {
+  ITransactionRepository,
+  ListTransactionsResult,
+} from '../../domain/repositories/transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { TransactionListCursor } from '../../domain/values/transaction-list-cursor';
+import { TransactionListOrder } from '../../domain/values/transaction-list-order';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  type ExportTransactionsError,
+  LedgerPermissionDeniedError,
+  UnexpectedExportTransactionsError,
+} from './export-transactions.errors';
+import {
+  EXPORT_FORMATTERS,
+  type ExportFormat,
+  type ExportFormatter,
+  type ExportRow,
+} from './export-transactions.formatter';
+
+// NOTE: 一度に読み込む件数（全件をメモリに載せないよう分割して取得する）
+const EXPORT_BATCH_SIZE = 500 as const;
+const EXPORT_FILE_NAME_PREFIX = 'transactions' as const;
+
+export type ExportTransactionsInput = {
+  userId: number;
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
+  format: ExportFormat;
+  startDate?: string;
+  endDate?: string;
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  categoryIds?: number[];
+  order: 'asc' | 'desc';
+};
+
+export type ExportTransactionsOutput = {
+  contentType: string;
+  fileName: string;
+  chunks: AsyncIterable<string>;
+};
+
+type LedgerAuthorizedInput = ExportTransactionsInput & { ledgerId: number };
+
+type ExportContext = LedgerAuthorizedInput & {
+  exponentByCurrency: Map<string, number>;
+};
+
+type ExportBatch = {
+  isFirst: boolean;
+  rows: ExportRow[];
+  nextCursor: TransactionListCursor | null; // 最後のバッチの場合は null
+};
+
+@injectable()
+export class ExportTransactionsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  /**
+   * NOTE: 権限確認と1バッチ目はレスポンス開始前に行い、エラーをエラーレスポンスとして返せるようにする
+   */
+  async execute(
+    input: ExportTransactionsInput,
+  ): Promise<ExportTransactionsOutput> {
+    const formatter = EXPORT_FORMATTERS[input.format];
+    const context = await this.runProgram(
+      pipe(
+        this.authorizeLedger(input),
+        Effect.flatMap((authorized) => this.loadExponents(authorized)),
+      ),
+    );
+    const firstBatch = await this.runBatch(context, null);
+
+    return {
+      contentType: formatter.contentType,
+      fileName: `${EXPORT_FILE_NAME_PREFIX}-${TransactionDate.today().format()}.${formatter.extension}`,
+      chunks: this.streamChunks(context, formatter, firstBatch),
+    };
+  }
+
+  /**
+   * 帳簿の閲覧権限があることを検証し、対象の帳簿IDを確定する
+   */
+  private authorizeLedger(
+    input: ExportTransactionsInput,
+  ): Effect.Effect<LedgerAuthorizedInput, ExportTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ({ ...input, ledgerId })),
+    );
+  }
+
+  /**
+   * 金額を10進数表記にするため、通貨ごとの補助単位の桁数を取得する（無効化された通貨の取引も出力するため無効な通貨も含める）
+   */
+  private loadExponents(
+    input: LedgerAuthorizedInput,
+  ): Effect.Effect<ExportContext, ExportTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findAll({ includeInactive: true }),
+        catch: (cause) =>
+          this.createUnexpectedError('通貨の取得に失敗しました', cause),
+      }),
+      Effect.map((currencies) => ({
+        ...input,
+        exponentByCurrency: new Map(
+          currencies.map((currency) => [currency.code, currency.exponent]),
+        ),
+      })),
+    );
+  }
+
+  private async *streamChunks(
+    input: ExportContext,
+    formatter: ExportFormatter,
+    firstBatch: ExportBatch,
+  ): AsyncGenerator<string> {
+    yield formatter.begin;
+    yield* this.streamBatches(input, formatter, firstBatch);
+    yield formatter.end;
+  }
+
+  private async *streamBatches(
+    input: ExportContext,
+    formatter: ExportFormatter,
+    batch: ExportBatch,
+  ): AsyncGenerator<string> {
+    yield formatter.formatRows(batch.rows, batch.isFirst);
+
+    if (batch.nextCursor === null) {
+      return;
+    }
+
+    const nextBatch = await this.runBatch(input, batch.nextCursor);
+    yield* this.streamBatches(input, formatter, nextBatch);
+  }
+
+  /**
+   * after より後ろの1バッチ分を取得する（after が null の場合は先頭から）
+   */
+  private runBatch(
+    input: ExportContext,
+    after: TransactionListCursor | null,
+  ): Promise<ExportBatch> {
+    return this.runProgram(this.buildBatchProgram(input, after));
+  }
+
+  private async runProgram<A>(
+    program: Effect.Effect<A, ExportTransactionsError>,
+  ): Promise<A> {
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildBatchProgram(
+    input: ExportContext,
+    after: TransactionListCursor | null,
+  ): Effect.Effect<ExportBatch, ExportTransactionsError> {
+    const order = TransactionListOrder.from(input.order);
+
+    return pipe(
+      this.fetchTransactions(input, order, after),
+      Effect.flatMap((result) =>
+        pipe(
+          this.fetchCategoryNames(input.userId, result),
+          Effect.flatMap((namesById) =>
+            this.toRows(result, namesById, input.exponentByCurrency),
+          ),
+          Effect.map((rows) => {
+            const last = result.items[result.items.length - 1];
+
+            return {
+              isFirst: after === null,
+              rows,
+              nextCursor:
+                result.items.length < EXPORT_BATCH_SIZE || last === undefined
+                  ? null
+                  : TransactionListCursor.fromItem(order, last),
+            };
+          }),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * NOTE: 一覧取得と同じ条件・並び順で、前のバッチの最後の取引より後ろを取得する（キーセットページネーション）
+   * オフセットと違い、出力中に取引が追加/削除されても既存の取引が重複したり抜けたりせず、バッチごとに総件数も数え直さない
+   */
+  private fetchTransactions(
+    input: LedgerAuthorizedInput,
+    order: TransactionListOrder,
+    after: TransactionListCursor | null,
+  ): Effect.Effect<ListTransactionsResult, ExportTransactionsError> {
+    return Effect.tryPromise({
+      try: () =>
+        this.transactionRepository.listByLedgerId({
+          ledgerId: input.ledgerId,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          type: input.type,
+          categoryIds: input.categoryIds,
+          sortBy: order.sortBy,
+          order: order.direction,
+          after:
+            after === null
+              ? undefined
+              : { value: after.sortValue, id: after.id },
+          limit: EXPORT_BATCH_SIZE,
+          offset: 0,
+        }),
+      catch: (cause) =>
+        this.createUnexpectedError('取引の取得に失敗しました', cause),
+    });
+  }
+
+  private fetchCategoryNames(
+    userId: number,
+    result: ListTransactionsResult,
+  ): Effect.Effect<Map<number, string>, ExportTransactionsError> {
+    const categoryIds = Array.from(
+      new Set(result.items.flatMap((item) => item.categoryIds)),
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.categoryRepository.findDisplayNamesByIds(userId, categoryIds),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.map(
+        (categories) =>
+          new Map(categories.map((category) => [category.id, category.name])),
+      ),
+    );
+  }
+
+  private toRows(
+    result: ListTransactionsResult,
+    namesById: Map<number, string>,
+    exponentByCurrency: Map<string, number>,
+  ): Effect.Effect<ExportRow[], ExportTransactionsError> {
+    return Effect.try({
+      try: () =>
+        result.items.map((item) => ({
+          id: item.id,
+          date: item.date,
+          type: item.type,
+          title: item.title,
+          amount: this.formatAmount(
+            item.amount,
+            item.currencyCode,
+            exponentByCurrency,
+          ),
+          currencyCode: item.currencyCode,
+          categories: item.categoryIds.flatMap((id) => {
+            const name = namesById.get(id);
+            return name === undefined ? [] : [{ id, name }];
+          }),
+          memo: item.memo ?? '',
+        })),
+      catch: (cause) =>
+        this.createUnexpectedError('金額の変換に失敗しました', cause),
+    });
+  }
+
+  private formatAmount(
+    amount: number,
+    currencyCode: string,
+    exponentByCurrency: Map<string, number>,
+  ): string {
+    const exponent = exponentByCurrency.get(currencyCode);
+    if (exponent === undefined) {
+      throw new Error(`Currency ${currencyCode} not found`);
+    }
+
+    return Money.ofWithCurrency(amount, currencyCode).toDecimalString(exponent);
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedExportTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedExportTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit<A>(exit: Exit.Exit<A, ExportTransactionsError>): A {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedExportTransactionsError({
+                message: '取引のエクスポートに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
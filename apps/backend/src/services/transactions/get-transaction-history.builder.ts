@@ -0,0 +1,99 @@
+// Application Layer: Get Transaction History Builder
+// 取引の変更履歴（変更前後のスナップショット）から項目ごとの差分を組み立てる
+
+import type { TransactionSplitRecord } from '../../domain/entities/transaction.entity';
+import type {
+  TransactionRevisionAction,
+  TransactionRevisionRecord,
+  TransactionSnapshot,
+} from '../../domain/repositories/transaction-revision.repository.interface';
+
+type TransactionRevisionField = keyof TransactionSnapshot;
+
+type TransactionRevisionChangeValue =
+  | string
+  | number
+  | number[]
+  | TransactionSplitRecord[]
+  | null;
+
+export type TransactionRevisionOutput = {
+  id: number;
+  action: TransactionRevisionAction;
+  changedBy: {
+    userId: number;
+    name: string;
+  } | null;
+  changedAt: string;
+  changes: {
+    field: TransactionRevisionField;
+    before: TransactionRevisionChangeValue;
+    after: TransactionRevisionChangeValue;
+  }[];
+};
+
+// NOTE: 出力する項目の順序（画面の表示順に合わせる）
+const FIELDS: readonly TransactionRevisionField[] = [
+  'type',
+  'title',
+  'amount',
+  'currency',
+  'date',
+  'categoryIds',
+  'splits',
+  'accountId',
+  'transferAccountId',
+  'memo',
+];
+
+// NOTE: メモは空文字と null を区別しない（未入力として扱う）
+const normalize = (
+  field: TransactionRevisionField,
+  value: TransactionRevisionChangeValue,
+): TransactionRevisionChangeValue =>
+  field === 'memo' && value === '' ? null : value;
+
+const isSameElement = (
+  a: number | TransactionSplitRecord,
+  b: number | TransactionSplitRecord | undefined,
+): boolean =>
+  typeof a === 'number' || typeof b !== 'object'
+    ? a === b
+    : a.categoryId === b.categoryId && a.amount === b.amount;
+
+// NOTE: 内訳はカテゴリが同じでも金額だけが変わることがあるため、要素ごとに比較する
+const isSameValue = (
+  a: TransactionRevisionChangeValue,
+  b: TransactionRevisionChangeValue,
+): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length &&
+      a.every((v: number | TransactionSplitRecord, i) => isSameElement(v, b[i]))
+    : a === b;
+
+export class GetTransactionHistoryBuilder {
+  build(record: TransactionRevisionRecord): TransactionRevisionOutput {
+    return {
+      id: record.id,
+      action: record.action,
+      changedBy: record.changedBy,
+      changedAt: record.createdAt.toISOString(),
+      changes: this.diff(record.before, record.after),
+    };
+  }
+
+  private diff(
+    before: TransactionSnapshot,
+    after: TransactionSnapshot | null,
+  ): TransactionRevisionOutput['changes'] {
+    if (after === null) {
+      return [];
+    }
+
+    return FIELDS.map((field) => ({
+      field,
+      before: normalize(field, before[field]),
+      after: normalize(field, after[field]),
+    })).filter((change) => !isSameValue(change.before, change.after));
+  }
+}
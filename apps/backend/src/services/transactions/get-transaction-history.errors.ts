@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from './update-transaction.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+} from './update-transaction.errors';
+
+type UnexpectedGetTransactionHistoryErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedGetTransactionHistoryError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedGetTransactionHistoryErrorParams) {
+    super(params.message, 'UnexpectedGetTransactionHistoryError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type GetTransactionHistoryError =
+  | TransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | UnexpectedGetTransactionHistoryError;
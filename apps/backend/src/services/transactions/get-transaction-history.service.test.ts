@@ -0,0 +1,337 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type {
+  ITransactionRevisionRepository,
+  TransactionRevisionRecord,
+  TransactionSnapshot,
+} from '../../domain/repositories/transaction-revision.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import {
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+  UnexpectedGetTransactionHistoryError,
+} from './get-transaction-history.errors';
+import { GetTransactionHistoryUseCase } from './get-transaction-history.service';
+
+describe('GetTransactionHistoryUseCase（取引の変更履歴取得）', () => {
+  const fixedCreatedAt = new Date('2026-01-01T00:00:00.000Z');
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 1,
+    userId: 100,
+    ledgerId: 10,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2026-01-01',
+    categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
+    memo: '',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedCreatedAt,
+    ...override,
+  });
+
+  const makeSnapshot = (
+    override?: Partial<TransactionSnapshot>,
+  ): TransactionSnapshot => ({
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2026-01-01',
+    categoryIds: [10],
+    splits: [{ categoryId: 10, amount: 1000 }],
+    accountId: null,
+    transferAccountId: null,
+    memo: null,
+    ...override,
+  });
+
+  const makeRevision = (
+    override?: Partial<TransactionRevisionRecord>,
+  ): TransactionRevisionRecord => ({
+    id: 1,
+    transactionId: 1,
+    action: 'UPDATE',
+    changedBy: { userId: 200, name: 'パートナー' },
+    before: makeSnapshot(),
+    after: makeSnapshot(),
+    createdAt: new Date('2026-01-02T00:00:00.000Z'),
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockRevisionRepo: ITransactionRevisionRepository,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ITransactionRevisionRepository>(
+        TOKENS.TransactionRevisionRepository,
+      )
+      .toConstantValue(mockRevisionRepo);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(GetTransactionHistoryUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('変更前後で値が変わった項目のみを差分として返す', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn().mockResolvedValue([
+          makeRevision({
+            before: makeSnapshot({ memo: '' }),
+            after: makeSnapshot({
+              title: 'ディナー',
+              amount: 3000,
+              categoryIds: [10, 11],
+              splits: [
+                { categoryId: 10, amount: 1000 },
+                { categoryId: 11, amount: 2000 },
+              ],
+              memo: null,
+            }),
+          }),
+        ]),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(mockRevisionRepo.findByTransactionId).toHaveBeenCalledWith(1);
+      expect(output).toEqual({
+        revisions: [
+          {
+            id: 1,
+            action: 'UPDATE',
+            changedBy: { userId: 200, name: 'パートナー' },
+            changedAt: '2026-01-02T00:00:00.000Z',
+            changes: [
+              { field: 'title', before: 'ランチ', after: 'ディナー' },
+              { field: 'amount', before: 1000, after: 3000 },
+              { field: 'categoryIds', before: [10], after: [10, 11] },
+              {
+                field: 'splits',
+                before: [{ categoryId: 10, amount: 1000 }],
+                after: [
+                  { categoryId: 10, amount: 1000 },
+                  { categoryId: 11, amount: 2000 },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('カテゴリを変えずに内訳の金額だけを変更した場合も差分として返す', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn().mockResolvedValue([
+          makeRevision({
+            before: makeSnapshot({
+              amount: 3000,
+              categoryIds: [10, 11],
+              splits: [
+                { categoryId: 10, amount: 1000 },
+                { categoryId: 11, amount: 2000 },
+              ],
+            }),
+            after: makeSnapshot({
+              amount: 3000,
+              categoryIds: [10, 11],
+              splits: [
+                { categoryId: 10, amount: 2500 },
+                { categoryId: 11, amount: 500 },
+              ],
+            }),
+          }),
+        ]),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(output.revisions[0]?.changes).toEqual([
+        {
+          field: 'splits',
+          before: [
+            { categoryId: 10, amount: 1000 },
+            { categoryId: 11, amount: 2000 },
+          ],
+          after: [
+            { categoryId: 10, amount: 2500 },
+            { categoryId: 11, amount: 500 },
+          ],
+        },
+      ]);
+    });
+
+    it('削除の履歴は差分を持たない', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi
+          .fn()
+          .mockResolvedValue([
+            makeRevision({ id: 2, action: 'DELETE', after: null }),
+          ]),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(output.revisions[0]).toMatchObject({
+        id: 2,
+        action: 'DELETE',
+        changes: [],
+      });
+    });
+
+    it('帳簿の閲覧者も変更履歴を取得できる', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn().mockResolvedValue([]),
+      };
+      const mockLedgerAccessService = createLedgerAccessServiceMock(
+        LedgerRole.viewer(),
+      );
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+        mockLedgerAccessService,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      const output = await useCase.execute({ userId: 300, id: 1 });
+
+      expect(mockLedgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 300,
+        ledgerId: 10,
+      });
+      expect(output).toEqual({ revisions: [] });
+    });
+  });
+
+  describe('異常系', () => {
+    it('取引が見つからない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi.fn().mockResolvedValue(null),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(TransactionNotFoundError);
+      expect(mockRevisionRepo.findByTransactionId).not.toHaveBeenCalled();
+    });
+
+    it('帳簿のメンバーでない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+        createLedgerAccessServiceMock(null),
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      await expect(
+        useCase.execute({ userId: 300, id: 1 }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(mockRevisionRepo.findByTransactionId).not.toHaveBeenCalled();
+    });
+
+    it('履歴の取得に失敗した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findByIdIncludingDeleted: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockRevisionRepo = {
+        findByTransactionId: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockRevisionRepo,
+      );
+      const useCase = container.get(GetTransactionHistoryUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedGetTransactionHistoryError);
+    });
+  });
+});
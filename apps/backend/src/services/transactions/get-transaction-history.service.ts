@@ -0,0 +1,167 @@
+// Application Layer: Get Transaction History Use Case
+// 取引の変更履歴（誰がいつ何を変更したか）の取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionRevisionRepository } from '../../domain/repositories/transaction-revision.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  GetTransactionHistoryBuilder,
+  type TransactionRevisionOutput,
+} from './get-transaction-history.builder';
+import {
+  type GetTransactionHistoryError,
+  LedgerPermissionDeniedError,
+  TransactionNotFoundError,
+  UnexpectedGetTransactionHistoryError,
+} from './get-transaction-history.errors';
+
+export type GetTransactionHistoryInput = {
+  userId: number;
+  id: number;
+};
+
+export type GetTransactionHistoryOutput = {
+  revisions: TransactionRevisionOutput[];
+};
+
+@injectable()
+export class GetTransactionHistoryUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.TransactionRevisionRepository)
+  private transactionRevisionRepository!: ITransactionRevisionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  private readonly builder = new GetTransactionHistoryBuilder();
+
+  async execute(
+    input: GetTransactionHistoryInput,
+  ): Promise<GetTransactionHistoryOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: GetTransactionHistoryInput,
+  ): Effect.Effect<GetTransactionHistoryOutput, GetTransactionHistoryError> {
+    return pipe(
+      this.fetchTransaction(input),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.flatMap(() => this.fetchRevisions(input)),
+    );
+  }
+
+  /**
+   * 履歴の対象となる取引を取得する（削除した取引の履歴も参照できるよう、削除済みの取引も含める）
+   */
+  private fetchTransaction(
+    input: GetTransactionHistoryInput,
+  ): Effect.Effect<TransactionRecord, GetTransactionHistoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRepository.findByIdIncludingDeleted(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TransactionNotFoundError(input.id))
+          : Effect.succeed(record),
+      ),
+    );
+  }
+
+  /**
+   * 取引が属する帳簿の閲覧権限があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, GetTransactionHistoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  private fetchRevisions(
+    input: GetTransactionHistoryInput,
+  ): Effect.Effect<GetTransactionHistoryOutput, GetTransactionHistoryError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRevisionRepository.findByTransactionId(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('変更履歴の取得に失敗しました', cause),
+      }),
+      Effect.map((records) => ({
+        revisions: records.map((record) => this.builder.build(record)),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedGetTransactionHistoryError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedGetTransactionHistoryError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<GetTransactionHistoryOutput, GetTransactionHistoryError>,
+  ): GetTransactionHistoryOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedGetTransactionHistoryError({
+                message: '変更履歴の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
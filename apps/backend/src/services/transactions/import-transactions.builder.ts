@@ -0,0 +1,59 @@
+// Application Layer: Import Transactions Builder
+// CSVインポート結果（行ごとの状態と件数サマリ）の出力DTO組み立てを担当する
+
+export type ImportRowStatus = 'VALID' | 'INVALID' | 'DUPLICATE' | 'IMPORTED';
+
+export type ImportRowTransactionOutput = {
+  type: 'INCOME' | 'EXPENSE';
+  title: string;
+  amount: number;
+  date: string;
+  categoryId: number;
+  memo: string;
+};
+
+export type ImportRowOutput = {
+  rowNumber: number;
+  rowHash: string;
+  status: ImportRowStatus;
+  transaction: ImportRowTransactionOutput | null;
+  transactionId: number | null;
+  error: { name: string; message: string } | null;
+};
+
+export type ImportTransactionsOutput = {
+  dryRun: boolean;
+  committed: boolean;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicate: number;
+    imported: number;
+  };
+  rows: ImportRowOutput[];
+};
+
+const countByStatus = (rows: ImportRowOutput[], status: ImportRowStatus) =>
+  rows.filter((row) => row.status === status).length;
+
+export class ImportTransactionsBuilder {
+  build(params: {
+    dryRun: boolean;
+    committed: boolean;
+    rows: ImportRowOutput[];
+  }): ImportTransactionsOutput {
+    return {
+      dryRun: params.dryRun,
+      committed: params.committed,
+      summary: {
+        total: params.rows.length,
+        valid: countByStatus(params.rows, 'VALID'),
+        invalid: countByStatus(params.rows, 'INVALID'),
+        duplicate: countByStatus(params.rows, 'DUPLICATE'),
+        imported: countByStatus(params.rows, 'IMPORTED'),
+      },
+      rows: params.rows,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  FutureTransactionDateError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidTransactionTypeError,
+  LedgerPermissionDeniedError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+} from './create-transaction.errors';
+
+export class InvalidImportFileError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidImportFileError');
+  }
+}
+
+export class InvalidImportMappingError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidImportMappingError');
+  }
+}
+
+type UnexpectedImportTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedImportTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedImportTransactionsErrorParams) {
+    super(params.message, 'UnexpectedImportTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+// NOTE: 行単位のバリデーションエラー（create-transaction.errors）は例外ではなく各行の結果として返す
+export type ImportTransactionsError =
+  | InvalidImportFileError
+  | InvalidImportMappingError
+  | LedgerPermissionDeniedError
+  | UnexpectedImportTransactionsError;
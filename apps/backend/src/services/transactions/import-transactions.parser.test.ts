@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeCsv, hashCsvRow, parseCsv } from './import-transactions.parser';
+
+// 「日本,1000」をShift_JISでエンコードしたバイト列
+const SHIFT_JIS_BYTES = new Uint8Array([
+  0x93, 0xfa, 0x96, 0x7b, 0x2c, 0x31, 0x30, 0x30, 0x30,
+]);
+
+describe('import-transactions.parser（CSVパーサー）', () => {
+  describe('正常系', () => {
+    it('decodeCsv: UTF-8をデコードしBOMを除去する', () => {
+      const content = new TextEncoder().encode('\uFEFF日付,金額');
+
+      expect(decodeCsv(content, 'utf-8')).toBe('日付,金額');
+      expect(decodeCsv(content, 'auto')).toBe('日付,金額');
+    });
+
+    it('decodeCsv: Shift_JISを指定してデコードできる', () => {
+      expect(decodeCsv(SHIFT_JIS_BYTES, 'shift_jis')).toBe('日本,1000');
+    });
+
+    it('decodeCsv: auto の場合、UTF-8として不正ならShift_JISとしてデコードする', () => {
+      expect(decodeCsv(SHIFT_JIS_BYTES, 'auto')).toBe('日本,1000');
+    });
+
+    it('parseCsv: ダブルクォート内のカンマ・改行・エスケープを扱える', () => {
+      const records = parseCsv('"a,b","c\r\nd","e""f"\r\n1,2,3');
+
+      expect(records).toEqual([
+        { rowNumber: 1, cells: ['a,b', 'c\r\nd', 'e"f'] },
+        { rowNumber: 2, cells: ['1', '2', '3'] },
+      ]);
+    });
+
+    it('parseCsv: 空行を除外し、行番号はファイル上の位置を保つ', () => {
+      const records = parseCsv('a,b\n\n,\nc,d\n');
+
+      expect(records).toEqual([
+        { rowNumber: 1, cells: ['a', 'b'] },
+        { rowNumber: 4, cells: ['c', 'd'] },
+      ]);
+    });
+
+    it('parseCsv: 末尾の空セルを保持する', () => {
+      expect(parseCsv('a,,')).toEqual([{ rowNumber: 1, cells: ['a', '', ''] }]);
+    });
+
+    it('hashCsvRow: 同じ内容・同じ出現順なら同じハッシュになる', () => {
+      const a = hashCsvRow(['2025-01-01', 'ランチ', '1000'], 1);
+      const b = hashCsvRow([' 2025-01-01', 'ランチ ', '1000'], 1);
+
+      expect(a).toBe(b);
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('hashCsvRow: 出現順や列の区切りが異なれば別のハッシュになる', () => {
+      const first = hashCsvRow(['a', 'b'], 1);
+
+      expect(hashCsvRow(['a', 'b'], 2)).not.toBe(first);
+      expect(hashCsvRow(['ab', ''], 1)).not.toBe(first);
+    });
+  });
+
+  describe('異常系', () => {
+    it('decodeCsv: UTF-8指定で不正なバイト列は例外になる', () => {
+      expect(() => decodeCsv(SHIFT_JIS_BYTES, 'utf-8')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+// Application Layer: Import Transactions Parser
+// CSVファイル（バイト列）のデコード、行/列への分解、行ハッシュの算出を担当する
+
+import { createHash } from 'node:crypto';
+
+export type CsvEncoding = 'auto' | 'utf-8' | 'shift_jis';
+
+export type CsvRecord = {
+  rowNumber: number; // ファイル上のレコード番号（1始まり）
+  cells: string[];
+};
+
+const QUOTE = '"' as const;
+const DELIMITER = ',' as const;
+const CR = '\r' as const;
+const LF = '\n' as const;
+const HASH_ALGORITHM = 'sha256' as const;
+const HASH_CELL_SEPARATOR = '\u001f' as const;
+const HASH_OCCURRENCE_SEPARATOR = '\u001e' as const;
+
+type ParserState = {
+  records: string[][];
+  cells: string[];
+  field: string;
+  inQuotes: boolean;
+  skipNext: boolean;
+};
+
+const decodeStrict = (content: Uint8Array, encoding: string): string =>
+  new TextDecoder(encoding, { fatal: true }).decode(content);
+
+/**
+ * バイト列を文字列にデコードする（BOMは除去される）
+ * NOTE: auto の場合、UTF-8として不正なバイト列であればShift_JIS（国内の銀行/カード会社のCSVで一般的）とみなす
+ */
+export const decodeCsv = (
+  content: Uint8Array,
+  encoding: CsvEncoding,
+): string => {
+  if (encoding !== 'auto') {
+    return decodeStrict(content, encoding);
+  }
+
+  try {
+    return decodeStrict(content, 'utf-8');
+  } catch {
+    return decodeStrict(content, 'shift_jis');
+  }
+};
+
+// NOTE: 1文字ずつ状態を進める（状態は parseCsv 内でのみ使うため破壊的に更新する）
+const endRecord = (state: ParserState): void => {
+  state.cells.push(state.field);
+  state.records.push(state.cells);
+  state.cells = [];
+  state.field = '';
+};
+
+const stepQuoted = (
+  state: ParserState,
+  char: string,
+  next: string | undefined,
+): void => {
+  if (char !== QUOTE) {
+    state.field += char;
+    return;
+  }
+  // NOTE: 引用符内の "" はエスケープされた " として扱う
+  const isEscaped = next === QUOTE;
+  state.field += isEscaped ? QUOTE : '';
+  state.inQuotes = isEscaped;
+  state.skipNext = isEscaped;
+};
+
+const stepUnquoted = (
+  state: ParserState,
+  char: string,
+  next: string | undefined,
+): void => {
+  switch (char) {
+    case QUOTE:
+      state.inQuotes = true;
+      return;
+    case DELIMITER:
+      state.cells.push(state.field);
+      state.field = '';
+      return;
+    case CR:
+      endRecord(state);
+      state.skipNext = next === LF;
+      return;
+    case LF:
+      endRecord(state);
+      return;
+    default:
+      state.field += char;
+  }
+};
+
+const step = (
+  state: ParserState,
+  char: string,
+  next: string | undefined,
+): void => {
+  if (state.skipNext) {
+    state.skipNext = false;
+    return;
+  }
+  (state.inQuotes ? stepQuoted : stepUnquoted)(state, char, next);
+};
+
+const isBlankRecord = (cells: string[]): boolean =>
+  cells.every((cell) => cell.trim().length === 0);
+
+/**
+ * CSV文字列をレコードに分解する（RFC 4180 準拠、空行は除外する）
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const chars = Array.from(text);
+  const state: ParserState = {
+    records: [],
+    cells: [],
+    field: '',
+    inQuotes: false,
+    skipNext: false,
+  };
+
+  chars.forEach((char, index) => {
+    step(state, char, chars[index + 1]);
+  });
+
+  if (state.field.length > 0 || state.cells.length > 0) {
+    endRecord(state);
+  }
+
+  return state.records
+    .map((cells, index) => ({ rowNumber: index + 1, cells }))
+    .filter((record) => !isBlankRecord(record.cells));
+};
+
+/**
+ * 行ハッシュを算出する（同じファイルを再インポートした場合に同じ値になる）
+ * NOTE: ファイル内で内容が完全に一致する行は出現順（occurrence）で区別し、別の取引として扱う
+ */
+export const hashCsvRow = (cells: string[], occurrence: number): string =>
+  createHash(HASH_ALGORITHM)
+    .update(
+      `${cells.map((cell) => cell.trim()).join(HASH_CELL_SEPARATOR)}${HASH_OCCURRENCE_SEPARATOR}${occurrence}`,
+    )
+    .digest('hex');
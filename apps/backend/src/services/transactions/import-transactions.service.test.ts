@@ -0,0 +1,523 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import {
+  InvalidImportFileError,
+  InvalidImportMappingError,
+  UnexpectedImportTransactionsError,
+} from './import-transactions.errors';
+import {
+  type ImportTransactionsInput,
+  ImportTransactionsUseCase,
+} from './import-transactions.service';
+
+describe('ImportTransactionsUseCase（取引CSVインポート）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeCategory = (
+    override?: Partial<CategoryRecord>,
+  ): CategoryRecord => ({
+    id: 10,
+    name: '食費',
+    type: 'EXPENSE',
+    isDefault: true,
+    parentId: null,
+    createdAt: fixedNow,
+    updatedAt: fixedNow,
+    ...override,
+  });
+
+  const toContent = (lines: string[]): Uint8Array =>
+    new TextEncoder().encode(lines.join('\r\n'));
+
+  const makeInput = (
+    override?: Partial<ImportTransactionsInput>,
+  ): ImportTransactionsInput => ({
+    userId: 1,
+    content: toContent([
+      '日付,摘要,金額,メモ',
+      '2025/01/10,ランチ,"-1,200",社食',
+      '2025/01/25,給与,300000,',
+    ]),
+    encoding: 'auto',
+    hasHeader: true,
+    mapping: { date: '日付', title: '摘要', amount: '金額', memo: 'メモ' },
+    defaultCategoryId: 10,
+    dryRun: false,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockCategoryRepo: Partial<ICategoryRepository>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ICategoryRepository>(TOKENS.CategoryRepository)
+      .toConstantValue(mockCategoryRepo as ICategoryRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(ImportTransactionsUseCase).toSelf();
+    return container;
+  };
+
+  const expenseCategoryRepo = () => ({
+    findByIds: vi.fn().mockResolvedValue([makeCategory()]),
+  });
+
+  describe('正常系', () => {
+    it('ドライランの場合は検証結果のみ返し、登録しない', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+        importMany: vi.fn(),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeCategory(),
+            makeCategory({ id: 20, name: '給与', type: 'INCOME' }),
+          ]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          content: toContent([
+            '日付,摘要,金額,カテゴリ',
+            '2025/01/10,ランチ,-1200,10',
+            '2025/01/25,給与,300000,20',
+          ]),
+          mapping: {
+            date: '日付',
+            title: '摘要',
+            amount: '金額',
+            categoryId: 'カテゴリ',
+          },
+          defaultCategoryId: undefined,
+          dryRun: true,
+        }),
+      );
+
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(1, [10, 20]);
+      expect(mockTransactionRepo.importMany).not.toHaveBeenCalled();
+      expect(output.dryRun).toBe(true);
+      expect(output.committed).toBe(false);
+      expect(output.summary).toEqual({
+        total: 2,
+        valid: 2,
+        invalid: 0,
+        duplicate: 0,
+        imported: 0,
+      });
+      expect(output.rows.map((row) => row.transaction)).toEqual([
+        {
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1200,
+          date: '2025-01-10',
+          categoryId: 10,
+          memo: '',
+        },
+        {
+          type: 'INCOME',
+          title: '給与',
+          amount: 300000,
+          date: '2025-01-25',
+          categoryId: 20,
+          memo: '',
+        },
+      ]);
+    });
+
+    it('ドライランでは行ごとの検証エラーを create-transaction のエラー名で返す', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          content: toContent([
+            '日付,摘要,金額',
+            '2025/01/10,ランチ,-1200',
+            '2025/13/01,ランチ,-1200',
+            '2025/01/10,,-1200',
+            '2025/01/10,ランチ,abc',
+          ]),
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+          defaultType: 'EXPENSE',
+          dryRun: true,
+        }),
+      );
+
+      expect(output.summary).toMatchObject({ total: 4, valid: 1, invalid: 3 });
+      expect(
+        output.rows.map((row) => [row.rowNumber, row.status, row.error?.name]),
+      ).toEqual([
+        [2, 'VALID', undefined],
+        [3, 'INVALID', 'InvalidDateFormatError'],
+        [4, 'INVALID', 'TransactionTitleRequiredError'],
+        [5, 'INVALID', 'InvalidAmountError'],
+      ]);
+    });
+
+    it('type 列の表記（支出/入金など）から取引タイプを判定する', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          content: toContent(['2025年1月10日,支出,ランチ,１２００']),
+          hasHeader: false,
+          mapping: { date: 0, type: 1, title: 2, amount: 3 },
+          dryRun: true,
+        }),
+      );
+
+      expect(output.rows[0]).toMatchObject({
+        status: 'VALID',
+        transaction: { type: 'EXPENSE', amount: 1200, date: '2025-01-10' },
+      });
+    });
+
+    it('登録時はインポート済みの行をスキップし、残りを一括登録する', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn(),
+        importMany: vi.fn(),
+      };
+      mockTransactionRepo.findImportedRowHashes.mockImplementation(
+        async (_ledgerId: number, hashes: string[]) => [hashes[0]],
+      );
+      mockTransactionRepo.importMany.mockImplementation(
+        async (_userId: number, rows: { rowHash: string }[]) =>
+          rows.map((row, index) => ({
+            rowHash: row.rowHash,
+            transactionId: 100 + index,
+          })),
+      );
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          content: toContent([
+            '日付,摘要,金額',
+            '2025/01/10,ランチ,-1200',
+            '2025/01/11,ランチ,-1200',
+          ]),
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+        }),
+      );
+
+      expect(mockTransactionRepo.findImportedRowHashes).toHaveBeenCalledWith(
+        1,
+        [output.rows[0].rowHash, output.rows[1].rowHash],
+      );
+      expect(mockTransactionRepo.importMany).toHaveBeenCalledWith(1, [
+        expect.objectContaining({
+          userId: 1,
+          ledgerId: 1,
+          type: 'EXPENSE',
+          title: 'ランチ',
+          amount: 1200,
+          date: '2025-01-11',
+          categoryId: 10,
+          rowHash: output.rows[1].rowHash,
+        }),
+      ]);
+      expect(output.committed).toBe(true);
+      expect(output.rows.map((row) => [row.status, row.transactionId])).toEqual(
+        [
+          ['DUPLICATE', null],
+          ['IMPORTED', 100],
+        ],
+      );
+      expect(output.summary).toMatchObject({ duplicate: 1, imported: 1 });
+    });
+
+    it('帳簿の他のメンバーがインポート済みの行も重複として扱う', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn(),
+        importMany: vi.fn(),
+      };
+      mockTransactionRepo.findImportedRowHashes.mockImplementation(
+        async (_ledgerId: number, hashes: string[]) => hashes,
+      );
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+        createLedgerAccessServiceMock(LedgerRole.editor()),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          userId: 2,
+          ledgerId: 1,
+          content: toContent(['日付,摘要,金額', '2025/01/10,ランチ,-1200']),
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+        }),
+      );
+
+      expect(mockTransactionRepo.findImportedRowHashes).toHaveBeenCalledWith(
+        1,
+        [output.rows[0].rowHash],
+      );
+      expect(mockTransactionRepo.importMany).not.toHaveBeenCalled();
+      expect(output.rows.map((row) => row.status)).toEqual(['DUPLICATE']);
+    });
+
+    it('別の帳簿にインポート済みの行は重複として扱わず、指定した帳簿に登録する', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn(),
+        importMany: vi.fn(),
+      };
+      mockTransactionRepo.findImportedRowHashes.mockImplementation(
+        async (ledgerId: number, hashes: string[]) =>
+          ledgerId === 1 ? hashes : [],
+      );
+      mockTransactionRepo.importMany.mockImplementation(
+        async (_userId: number, rows: { rowHash: string }[]) =>
+          rows.map((row, index) => ({
+            rowHash: row.rowHash,
+            transactionId: 200 + index,
+          })),
+      );
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          ledgerId: 2,
+          content: toContent(['日付,摘要,金額', '2025/01/10,ランチ,-1200']),
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+        }),
+      );
+
+      expect(mockTransactionRepo.findImportedRowHashes).toHaveBeenCalledWith(
+        2,
+        [output.rows[0].rowHash],
+      );
+      expect(mockTransactionRepo.importMany).toHaveBeenCalledWith(1, [
+        expect.objectContaining({ ledgerId: 2 }),
+      ]);
+      expect(output.rows.map((row) => [row.status, row.transactionId])).toEqual(
+        [['IMPORTED', 200]],
+      );
+    });
+
+    it('ファイル内で内容が同じ行は別の行ハッシュになる', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(
+        makeInput({
+          content: toContent([
+            '日付,摘要,金額',
+            '2025/01/10,コーヒー,-300',
+            '2025/01/10,コーヒー,-300',
+          ]),
+          mapping: { date: '日付', title: '摘要', amount: '金額' },
+          dryRun: true,
+        }),
+      );
+
+      expect(output.rows[0].rowHash).not.toBe(output.rows[1].rowHash);
+    });
+
+    it('Shift_JISのCSVを取り込める', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      // 「2025/01/10,日本,-500」をShift_JISでエンコードしたバイト列
+      const content = new Uint8Array([
+        ...new TextEncoder().encode('2025/01/10,'),
+        0x93,
+        0xfa,
+        0x96,
+        0x7b,
+        ...new TextEncoder().encode(',-500'),
+      ]);
+
+      const output = await useCase.execute(
+        makeInput({
+          content,
+          hasHeader: false,
+          mapping: { date: 0, title: 1, amount: 2 },
+          dryRun: true,
+        }),
+      );
+
+      expect(output.rows[0]).toMatchObject({
+        status: 'VALID',
+        transaction: { title: '日本', amount: 500 },
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('不正な行がある場合は登録せず committed=false を返す', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+        importMany: vi.fn(),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([makeCategory({ type: 'INCOME' })]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(makeInput());
+
+      expect(mockTransactionRepo.importMany).not.toHaveBeenCalled();
+      expect(output.committed).toBe(false);
+      expect(output.rows[0]).toMatchObject({
+        status: 'INVALID',
+        error: { name: 'CategoryTypeMismatchError' },
+      });
+    });
+
+    it('存在しないカテゴリは CategoryNotFoundError になる', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+      };
+      const mockCategoryRepo = { findByIds: vi.fn().mockResolvedValue([]) };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      ).get(ImportTransactionsUseCase);
+
+      const output = await useCase.execute(makeInput({ dryRun: true }));
+
+      expect(output.rows[0].error?.name).toBe('CategoryNotFoundError');
+    });
+
+    it('UTF-8指定で不正なバイト列の場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}).get(
+        ImportTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute(
+          makeInput({
+            content: new Uint8Array([0x93, 0xfa]),
+            encoding: 'utf-8',
+          }),
+        ),
+      ).rejects.toBeInstanceOf(InvalidImportFileError);
+    });
+
+    it('ヘッダーのみのファイルは例外になる', async () => {
+      const useCase = createMockContainer({}, {}).get(
+        ImportTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute(makeInput({ content: toContent(['日付,摘要,金額']) })),
+      ).rejects.toBeInstanceOf(InvalidImportFileError);
+    });
+
+    it('マッピングした列がヘッダーに存在しない場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}).get(
+        ImportTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute(
+          makeInput({
+            mapping: { date: '利用日', title: '摘要', amount: '金額' },
+          }),
+        ),
+      ).rejects.toBeInstanceOf(InvalidImportMappingError);
+    });
+
+    it('カテゴリの列も defaultCategoryId もない場合は例外になる', async () => {
+      const useCase = createMockContainer({}, {}).get(
+        ImportTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute(makeInput({ defaultCategoryId: undefined })),
+      ).rejects.toBeInstanceOf(InvalidImportMappingError);
+    });
+
+    it('登録処理が失敗した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findImportedRowHashes: vi.fn().mockResolvedValue([]),
+        importMany: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        expenseCategoryRepo(),
+      ).get(ImportTransactionsUseCase);
+
+      await expect(
+        useCase.execute(
+          makeInput({
+            content: toContent(['日付,摘要,金額', '2025/01/10,ランチ,-1200']),
+            mapping: { date: '日付', title: '摘要', amount: '金額' },
+          }),
+        ),
+      ).rejects.toBeInstanceOf(UnexpectedImportTransactionsError);
+    });
+  });
+});
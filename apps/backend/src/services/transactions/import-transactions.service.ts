@@ -0,0 +1,690 @@
+// Application Layer: Import Transactions Use Case
+// 銀行/カード明細CSVの取り込み（列マッピング・ドライラン・重複スキップ）を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Either from 'effect/Either';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type {
+  ImportTransactionData,
+  ITransactionRepository,
+} from '../../domain/repositories/transaction.repository.interface';
+import type { DomainError } from '../../domain/values/domain-error';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import type { CreateTransactionError } from './create-transaction.errors';
+import {
+  type ImportRowOutput,
+  type ImportRowTransactionOutput,
+  ImportTransactionsBuilder,
+  type ImportTransactionsOutput,
+} from './import-transactions.builder';
+import {
+  CategoryNotFoundError,
+  CategoryTypeMismatchError,
+  FutureTransactionDateError,
+  type ImportTransactionsError,
+  InvalidAmountError,
+  InvalidDateFormatError,
+  InvalidImportFileError,
+  InvalidImportMappingError,
+  InvalidTransactionTypeError,
+  LedgerPermissionDeniedError,
+  TransactionMemoTooLongError,
+  TransactionTitleRequiredError,
+  TransactionTitleTooLongError,
+  UnexpectedImportTransactionsError,
+} from './import-transactions.errors';
+import {
+  type CsvEncoding,
+  type CsvRecord,
+  decodeCsv,
+  hashCsvRow,
+  parseCsv,
+} from './import-transactions.parser';
+
+const MAX_IMPORT_ROWS = 1000 as const;
+const TITLE_MAX_LENGTH = 100 as const;
+const MEMO_MAX_LENGTH = 500 as const;
+const DECIMAL_RADIX = 10 as const;
+const UNKNOWN_CATEGORY_ID = 0 as const;
+const FIRST_OCCURRENCE = 1 as const;
+// NOTE: 明細CSVには通貨列がないことが多いため、インポートした取引は既定の通貨で登録する
+const IMPORT_CURRENCY_CODE = 'JPY' as const;
+
+// NOTE: 明細でよく使われる表記を取引タイプに対応付ける
+const TRANSACTION_TYPE_ALIASES: Record<string, 'INCOME' | 'EXPENSE'> = {
+  INCOME: 'INCOME',
+  EXPENSE: 'EXPENSE',
+  収入: 'INCOME',
+  入金: 'INCOME',
+  支出: 'EXPENSE',
+  出金: 'EXPENSE',
+};
+
+// NOTE: 金額の桁区切り/通貨記号を除去し、▲/△ などの負数表記をマイナスに揃える
+const AMOUNT_IGNORED_CHARS = /[,\s¥円]/g;
+const AMOUNT_NEGATIVE_PREFIX = /^[▲△−]/;
+const DATE_SEPARATORS = /[/.年月]/g;
+const DATE_DAY_SUFFIX = /日$/;
+
+export type ImportColumn = string | number;
+
+export type ImportColumnMapping = {
+  type?: ImportColumn;
+  title: ImportColumn;
+  amount: ImportColumn;
+  date: ImportColumn;
+  categoryId?: ImportColumn;
+  memo?: ImportColumn;
+};
+
+export type ImportTransactionsInput = {
+  userId: number;
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
+  content: Uint8Array;
+  encoding: CsvEncoding;
+  hasHeader: boolean;
+  mapping: ImportColumnMapping;
+  defaultType?: 'INCOME' | 'EXPENSE';
+  defaultCategoryId?: number;
+  dryRun: boolean;
+};
+
+type LedgerAuthorizedInput = ImportTransactionsInput & { ledgerId: number };
+
+type ResolvedColumns = {
+  type: number | null;
+  title: number;
+  amount: number;
+  date: number;
+  categoryId: number | null;
+  memo: number | null;
+};
+
+type ParsedCsv = {
+  header: string[] | null;
+  records: CsvRecord[];
+};
+
+type HashedRecord = CsvRecord & { rowHash: string };
+
+type ValidatedRow = {
+  record: HashedRecord;
+  result: Either.Either<ImportRowTransactionOutput, CreateTransactionError>;
+};
+
+type RowContext = {
+  input: ImportTransactionsInput;
+  columns: ResolvedColumns;
+  categories: Map<number, CategoryRecord>;
+};
+
+const normalizeCell = (value: string | undefined): string =>
+  (value ?? '').normalize('NFKC').trim();
+
+const cellAt = (record: CsvRecord, column: number | null): string =>
+  column === null ? '' : normalizeCell(record.cells[column]);
+
+const parseAmount = (raw: string): number =>
+  Number(
+    raw.replace(AMOUNT_IGNORED_CHARS, '').replace(AMOUNT_NEGATIVE_PREFIX, '-'),
+  );
+
+const parseDate = (raw: string): TransactionDate =>
+  TransactionDate.fromString(
+    raw.replace(DATE_DAY_SUFFIX, '').replace(DATE_SEPARATORS, '-'),
+  );
+
+const toRowError = (error: DomainError) => ({
+  name: error.name,
+  message: error.message,
+});
+
+@injectable()
+export class ImportTransactionsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  private readonly builder = new ImportTransactionsBuilder();
+
+  async execute(
+    input: ImportTransactionsInput,
+  ): Promise<ImportTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ImportTransactionsInput,
+  ): Effect.Effect<ImportTransactionsOutput, ImportTransactionsError> {
+    return pipe(
+      this.authorizeLedger(input),
+      Effect.flatMap((authorized) => this.importRows(authorized)),
+    );
+  }
+
+  /**
+   * 帳簿の編集権限があることを検証し、取り込み先の帳簿IDを確定する
+   */
+  private authorizeLedger(
+    input: ImportTransactionsInput,
+  ): Effect.Effect<LedgerAuthorizedInput, ImportTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ({ ...input, ledgerId })),
+    );
+  }
+
+  private importRows(
+    input: LedgerAuthorizedInput,
+  ): Effect.Effect<ImportTransactionsOutput, ImportTransactionsError> {
+    return pipe(
+      this.decodeContent(input),
+      Effect.flatMap((text) => this.parseRecords(text, input.hasHeader)),
+      Effect.flatMap((parsed) =>
+        pipe(
+          this.resolveColumns(input, parsed.header),
+          Effect.map((columns) => ({
+            columns,
+            records: this.hashRecords(parsed.records),
+          })),
+        ),
+      ),
+      Effect.flatMap(({ columns, records }) =>
+        pipe(
+          this.fetchCategories(input, columns, records),
+          Effect.map((categories) =>
+            records.map((record) =>
+              this.validateRow(record, { input, columns, categories }),
+            ),
+          ),
+        ),
+      ),
+      Effect.flatMap((rows) => this.markDuplicates(input, rows)),
+      Effect.flatMap((rows) => this.commit(input, rows)),
+    );
+  }
+
+  private decodeContent(
+    input: ImportTransactionsInput,
+  ): Effect.Effect<string, ImportTransactionsError> {
+    return Effect.try({
+      try: () => decodeCsv(input.content, input.encoding),
+      catch: () =>
+        new InvalidImportFileError(
+          `ファイルを${input.encoding}としてデコードできませんでした`,
+        ),
+    });
+  }
+
+  private parseRecords(
+    text: string,
+    hasHeader: boolean,
+  ): Effect.Effect<ParsedCsv, ImportTransactionsError> {
+    return pipe(
+      Effect.sync(() => parseCsv(text)),
+      Effect.map((records) =>
+        hasHeader
+          ? { header: records[0]?.cells ?? [], records: records.slice(1) }
+          : { header: null, records },
+      ),
+      Effect.filterOrFail(
+        ({ records }) => records.length > 0,
+        () => new InvalidImportFileError('取り込む行がありません'),
+      ),
+      Effect.filterOrFail(
+        ({ records }) => records.length <= MAX_IMPORT_ROWS,
+        () =>
+          new InvalidImportFileError(
+            `一度に取り込めるのは${MAX_IMPORT_ROWS}行までです`,
+          ),
+      ),
+    );
+  }
+
+  private resolveColumns(
+    input: ImportTransactionsInput,
+    header: string[] | null,
+  ): Effect.Effect<ResolvedColumns, ImportTransactionsError> {
+    const { mapping } = input;
+
+    return pipe(
+      Effect.succeed(mapping),
+      Effect.filterOrFail(
+        () =>
+          mapping.categoryId !== undefined ||
+          input.defaultCategoryId !== undefined,
+        () =>
+          new InvalidImportMappingError(
+            'categoryId の列または defaultCategoryId を指定してください',
+          ),
+      ),
+      Effect.flatMap(() =>
+        Effect.all({
+          type: this.resolveOptionalColumn(mapping.type, header),
+          title: this.resolveColumn(mapping.title, header),
+          amount: this.resolveColumn(mapping.amount, header),
+          date: this.resolveColumn(mapping.date, header),
+          categoryId: this.resolveOptionalColumn(mapping.categoryId, header),
+          memo: this.resolveOptionalColumn(mapping.memo, header),
+        }),
+      ),
+    );
+  }
+
+  private resolveOptionalColumn(
+    column: ImportColumn | undefined,
+    header: string[] | null,
+  ): Effect.Effect<number | null, ImportTransactionsError> {
+    return column === undefined
+      ? Effect.succeed(null)
+      : this.resolveColumn(column, header);
+  }
+
+  private resolveColumn(
+    column: ImportColumn,
+    header: string[] | null,
+  ): Effect.Effect<number, ImportTransactionsError> {
+    if (typeof column === 'number') {
+      return pipe(
+        Effect.succeed(column),
+        Effect.filterOrFail(
+          (index) => header === null || index < header.length,
+          () => new InvalidImportMappingError(`列番号が範囲外です: ${column}`),
+        ),
+      );
+    }
+
+    return pipe(
+      Effect.succeed(header),
+      Effect.filterOrFail(
+        (value): value is string[] => value !== null,
+        () =>
+          new InvalidImportMappingError(
+            `ヘッダーなしの場合は列番号で指定してください: ${column}`,
+          ),
+      ),
+      Effect.map((value) =>
+        value.findIndex((name) => normalizeCell(name) === column.trim()),
+      ),
+      Effect.filterOrFail(
+        (index) => index >= 0,
+        () => new InvalidImportMappingError(`列が見つかりません: ${column}`),
+      ),
+    );
+  }
+
+  private hashRecords(records: CsvRecord[]): HashedRecord[] {
+    const occurrences = new Map<string, number>();
+
+    return records.map((record) => {
+      const key = JSON.stringify(record.cells);
+      const occurrence = (occurrences.get(key) ?? 0) + FIRST_OCCURRENCE;
+      occurrences.set(key, occurrence);
+      return { ...record, rowHash: hashCsvRow(record.cells, occurrence) };
+    });
+  }
+
+  private resolveCategoryId(record: CsvRecord, context: RowContext): number {
+    const raw = cellAt(record, context.columns.categoryId);
+    const parsed = Number.parseInt(raw, DECIMAL_RADIX);
+
+    return raw.length === 0
+      ? (context.input.defaultCategoryId ?? UNKNOWN_CATEGORY_ID)
+      : Number.isNaN(parsed)
+        ? UNKNOWN_CATEGORY_ID
+        : parsed;
+  }
+
+  private fetchCategories(
+    input: ImportTransactionsInput,
+    columns: ResolvedColumns,
+    records: CsvRecord[],
+  ): Effect.Effect<Map<number, CategoryRecord>, ImportTransactionsError> {
+    const context: RowContext = { input, columns, categories: new Map() };
+    const categoryIds = [
+      ...new Set(
+        records.map((record) => this.resolveCategoryId(record, context)),
+      ),
+    ].filter((id) => id > UNKNOWN_CATEGORY_ID);
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          categoryIds.length === 0
+            ? Promise.resolve([])
+            : this.categoryRepository.findByIds(input.userId, categoryIds),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリ情報の取得に失敗しました', cause),
+      }),
+      Effect.map(
+        (categories) =>
+          new Map(categories.map((category) => [category.id, category])),
+      ),
+    );
+  }
+
+  /**
+   * 1行分を検証する（create-transaction と同じルール・同じエラーで判定する）
+   */
+  private validateRow(record: HashedRecord, context: RowContext): ValidatedRow {
+    const program = pipe(
+      this.validateText(record, context),
+      Effect.flatMap((text) =>
+        pipe(
+          this.validateAmountAndType(record, context),
+          Effect.map((amountAndType) => ({ ...text, ...amountAndType })),
+        ),
+      ),
+      Effect.flatMap((value) =>
+        pipe(
+          this.validateDate(record, context),
+          Effect.map((date) => ({ ...value, date })),
+        ),
+      ),
+      Effect.flatMap((value) =>
+        pipe(
+          this.validateCategory(record, context, value.type),
+          Effect.map((categoryId) => ({ ...value, categoryId })),
+        ),
+      ),
+    );
+
+    return { record, result: Effect.runSync(Effect.either(program)) };
+  }
+
+  private validateText(
+    record: CsvRecord,
+    context: RowContext,
+  ): Effect.Effect<{ title: string; memo: string }, CreateTransactionError> {
+    return pipe(
+      Effect.succeed({
+        title: cellAt(record, context.columns.title),
+        memo: cellAt(record, context.columns.memo),
+      }),
+      Effect.filterOrFail(
+        ({ title }) => title.length > 0,
+        () => new TransactionTitleRequiredError(),
+      ),
+      Effect.filterOrFail(
+        ({ title }) => title.length <= TITLE_MAX_LENGTH,
+        () => new TransactionTitleTooLongError(),
+      ),
+      Effect.filterOrFail(
+        ({ memo }) => memo.length <= MEMO_MAX_LENGTH,
+        () => new TransactionMemoTooLongError(),
+      ),
+    );
+  }
+
+  /**
+   * 金額と取引タイプを判定する
+   * NOTE: type 列 → defaultType → 金額の符号（負数=支出）の順で判定し、金額は絶対値で登録する
+   */
+  private validateAmountAndType(
+    record: CsvRecord,
+    context: RowContext,
+  ): Effect.Effect<
+    { type: 'INCOME' | 'EXPENSE'; amount: number },
+    CreateTransactionError
+  > {
+    const signedAmount = parseAmount(cellAt(record, context.columns.amount));
+    const rawType = cellAt(record, context.columns.type);
+
+    return pipe(
+      Effect.succeed(Math.abs(signedAmount)),
+      Effect.filterOrFail(
+        (amount) => Number.isInteger(amount) && amount > 0,
+        () => new InvalidAmountError(signedAmount),
+      ),
+      Effect.flatMap((amount) =>
+        Effect.try({
+          try: () => Money.of(amount).amount,
+          catch: () => new InvalidAmountError(signedAmount),
+        }),
+      ),
+      Effect.flatMap((amount) =>
+        context.columns.type === null
+          ? Effect.succeed({
+              amount,
+              type:
+                context.input.defaultType ??
+                (signedAmount < 0 ? 'EXPENSE' : 'INCOME'),
+            })
+          : pipe(
+              Effect.fromNullable(
+                TRANSACTION_TYPE_ALIASES[rawType.toUpperCase()],
+              ),
+              Effect.mapError(() => new InvalidTransactionTypeError(rawType)),
+              Effect.map((type) => ({ amount, type })),
+            ),
+      ),
+    );
+  }
+
+  private validateDate(
+    record: CsvRecord,
+    context: RowContext,
+  ): Effect.Effect<string, CreateTransactionError> {
+    const raw = cellAt(record, context.columns.date);
+
+    return pipe(
+      Effect.try({
+        try: () => parseDate(raw),
+        catch: () => new InvalidDateFormatError(raw),
+      }),
+      Effect.filterOrFail(
+        (date) => !date.isFuture(),
+        () => new FutureTransactionDateError(raw),
+      ),
+      Effect.map((date) => date.format()),
+    );
+  }
+
+  private validateCategory(
+    record: CsvRecord,
+    context: RowContext,
+    type: 'INCOME' | 'EXPENSE',
+  ): Effect.Effect<number, CreateTransactionError> {
+    const categoryId = this.resolveCategoryId(record, context);
+
+    return pipe(
+      Effect.fromNullable(context.categories.get(categoryId)),
+      Effect.mapError(() => new CategoryNotFoundError(categoryId)),
+      Effect.filterOrFail(
+        (category) => category.type === type,
+        (category) => new CategoryTypeMismatchError(type, category.type),
+      ),
+      Effect.map((category) => category.id),
+    );
+  }
+
+  private markDuplicates(
+    input: LedgerAuthorizedInput,
+    rows: ValidatedRow[],
+  ): Effect.Effect<ImportRowOutput[], ImportTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRepository.findImportedRowHashes(
+            input.ledgerId,
+            rows.map((row) => row.record.rowHash),
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'インポート済みの行の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.map((importedHashes) => {
+        const imported = new Set(importedHashes);
+        return rows.map((row) =>
+          this.toRowOutput(row, imported.has(row.record.rowHash)),
+        );
+      }),
+    );
+  }
+
+  private toRowOutput(
+    row: ValidatedRow,
+    isDuplicate: boolean,
+  ): ImportRowOutput {
+    return Either.match(row.result, {
+      onLeft: (error) => ({
+        rowNumber: row.record.rowNumber,
+        rowHash: row.record.rowHash,
+        status: 'INVALID',
+        transaction: null,
+        transactionId: null,
+        error: toRowError(error),
+      }),
+      onRight: (transaction) => ({
+        rowNumber: row.record.rowNumber,
+        rowHash: row.record.rowHash,
+        status: isDuplicate ? 'DUPLICATE' : 'VALID',
+        transaction,
+        transactionId: null,
+        error: null,
+      }),
+    });
+  }
+
+  /**
+   * 検証済みの行を登録する
+   * NOTE: ドライラン、または不正な行が1件でもある場合は登録しない（全件成功か全件未登録のどちらか）
+   */
+  private commit(
+    input: LedgerAuthorizedInput,
+    rows: ImportRowOutput[],
+  ): Effect.Effect<ImportTransactionsOutput, ImportTransactionsError> {
+    const hasInvalidRow = rows.some((row) => row.status === 'INVALID');
+
+    if (input.dryRun || hasInvalidRow) {
+      return Effect.succeed(
+        this.builder.build({ dryRun: input.dryRun, committed: false, rows }),
+      );
+    }
+
+    const targets: ImportTransactionData[] = rows.flatMap((row) =>
+      row.status === 'VALID' && row.transaction !== null
+        ? [
+            {
+              ...row.transaction,
+              userId: input.userId,
+              ledgerId: input.ledgerId,
+              currency: IMPORT_CURRENCY_CODE,
+              rowHash: row.rowHash,
+            },
+          ]
+        : [],
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          targets.length === 0
+            ? Promise.resolve([])
+            : this.transactionRepository.importMany(input.userId, targets),
+        catch: (cause) =>
+          this.createUnexpectedError('取引のインポートに失敗しました', cause),
+      }),
+      Effect.map((imported) => {
+        const transactionIds = new Map(
+          imported.map((record) => [record.rowHash, record.transactionId]),
+        );
+        return rows.map((row) => this.toCommittedRow(row, transactionIds));
+      }),
+      Effect.map((committedRows) =>
+        this.builder.build({
+          dryRun: false,
+          committed: true,
+          rows: committedRows,
+        }),
+      ),
+    );
+  }
+
+  private toCommittedRow(
+    row: ImportRowOutput,
+    transactionIds: Map<string, number>,
+  ): ImportRowOutput {
+    const transactionId = transactionIds.get(row.rowHash) ?? null;
+
+    // NOTE: 確認後に別のインポートで登録された行は重複として扱う
+    return row.status !== 'VALID'
+      ? row
+      : transactionId === null
+        ? { ...row, status: 'DUPLICATE' }
+        : { ...row, status: 'IMPORTED', transactionId };
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedImportTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedImportTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<ImportTransactionsOutput, ImportTransactionsError>,
+  ): ImportTransactionsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedImportTransactionsError({
+                message: '取引のインポートに失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
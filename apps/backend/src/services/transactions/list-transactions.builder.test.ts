@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import type { CategoryRecord } from '../../domain/entities/category.entity';
 import type { TransactionListItemRecord } from '../../domain/entities/transaction.entity';
 import type { ListTransactionsResult } from '../../domain/repositories/transaction.repository.interface';
+import { CurrencyConverter } from '../exchange-rates/currency-converter';
 import { ListTransactionsBuilder } from './list-transactions.builder';
 
 describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
@@ -14,12 +15,17 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
   ): TransactionListItemRecord => ({
     id: 1,
     userId: 1,
+    ledgerId: 1,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currencyCode: 'JPY',
     date: '2025-01-01',
     categoryIds: [10],
+    splits: [{ categoryId: 10, amount: 1000 }],
+    tagIds: [],
+    accountId: null,
+    transferAccountId: null,
     memo: null,
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
@@ -40,12 +46,24 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
       name: '食費',
       type: 'EXPENSE',
       isDefault: false,
+      parentId: null,
       createdAt,
       updatedAt,
       ...rest,
     };
   };
 
+  const converter = new CurrencyConverter('JPY', [
+    {
+      fromCurrency: 'USD',
+      toCurrency: 'JPY',
+      date: '2025-01-01',
+      rate: '150',
+      fromExponent: 2,
+      toExponent: 0,
+    },
+  ]);
+
   const makeResult = (
     items: TransactionListItemRecord[],
     total: number,
@@ -70,6 +88,8 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
         },
         result: makeResult([makeItem({ categoryIds: [10] })], 1),
         categoriesById,
+        converter,
+        nextCursor: null,
       });
 
       expect(output.transactions[0]?.categories).toEqual([
@@ -83,6 +103,34 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
       );
     });
 
+    it('基準通貨と、取引日時点のレートで換算した金額を出力できる', () => {
+      const builder = new ListTransactionsBuilder();
+
+      const output = builder.build({
+        input: {
+          userId: 1,
+          order: 'desc',
+          page: 1,
+          limit: 20,
+        },
+        result: makeResult(
+          [
+            makeItem({ id: 1, amount: 1000, currencyCode: 'JPY' }),
+            makeItem({ id: 2, amount: 1200, currencyCode: 'USD' }),
+          ],
+          2,
+        ),
+        categoriesById: new Map(),
+        converter,
+        nextCursor: null,
+      });
+
+      expect(output.baseCurrencyCode).toBe('JPY');
+      expect(
+        output.transactions.map((transaction) => transaction.convertedAmount),
+      ).toEqual([1000, 1800]);
+    });
+
     it('ページ情報（totalPages/hasNext/hasPrev）を計算できる', () => {
       const builder = new ListTransactionsBuilder();
 
@@ -95,6 +143,8 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
         },
         result: makeResult([makeItem({ id: 1 })], 41),
         categoriesById: new Map(),
+        converter,
+        nextCursor: null,
       });
 
       expect(output.pagination.total).toBe(41);
@@ -115,6 +165,8 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
         },
         result: makeResult([], 0),
         categoriesById: new Map(),
+        converter,
+        nextCursor: null,
       });
 
       expect(output.pagination.totalPages).toBe(0);
@@ -134,6 +186,8 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
         },
         result: makeResult([makeItem({ id: 1 })], 41),
         categoriesById: new Map(),
+        converter,
+        nextCursor: null,
       });
 
       expect(output.pagination.totalPages).toBe(3);
@@ -155,9 +209,38 @@ describe('ListTransactionsBuilder（取引一覧DTO組み立て）', () => {
         },
         result: makeResult([makeItem({ categoryIds: [999] })], 1),
         categoriesById: new Map(),
+        converter,
+        nextCursor: null,
       });
 
       expect(output.transactions[0]?.categories).toEqual([]);
     });
+
+    it('取引日以前のレートがない通貨の換算額は null になる', () => {
+      const builder = new ListTransactionsBuilder();
+
+      const output = builder.build({
+        input: {
+          userId: 1,
+          order: 'desc',
+          page: 1,
+          limit: 20,
+        },
+        result: makeResult(
+          [
+            makeItem({ currencyCode: 'USD', date: '2024-12-31' }),
+            makeItem({ currencyCode: 'EUR', date: '2025-01-01' }),
+          ],
+          2,
+        ),
+        categoriesById: new Map(),
+        converter,
+        nextCursor: null,
+      });
+
+      expect(
+        output.transactions.map((transaction) => transaction.convertedAmount),
+      ).toEqual([null, null]);
+    });
   });
 });
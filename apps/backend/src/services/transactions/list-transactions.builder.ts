@@ -1,49 +1,67 @@
 // Application Layer: List Transactions Builder
 // 取引一覧取得ユースケースの出力DTO組み立てを担当する
 
-import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { TransactionSplitRecord } from '../../domain/entities/transaction.entity';
+import type { CategoryDisplayNameRecord } from '../../domain/repositories/category.repository.interface';
 import type { ListTransactionsResult } from '../../domain/repositories/transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import type { CurrencyConverter } from '../exchange-rates/currency-converter';
 
 export type ListTransactionsInput = {
   userId: number;
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
   startDate?: string;
   endDate?: string;
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   categoryIds?: number[];
+  tagIds?: number[]; // いずれかのタグが付いた取引に絞り込む
+  q?: string; // タイトル/メモの検索語（表記ゆれは正規化して検索する）
+  minAmount?: number;
+  maxAmount?: number;
+  sortBy?: 'date' | 'amount' | 'createdAt' | 'title'; // 省略時は取引日
   order: 'asc' | 'desc';
+  cursor?: string; // 指定時は page の代わりに、前回の nextCursor より後ろを取得する
   page: number;
   limit: number;
 };
 
 type OutputTransaction = {
   id: number;
+  ledgerId: number;
   userId: number;
-  type: 'INCOME' | 'EXPENSE';
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   title: string;
   amount: number;
   currencyCode: string;
+  convertedAmount: number | null; // 基準通貨への換算額（レートがない場合は null）
   date: string;
   categories: {
     id: number;
     name: string;
-    type: 'INCOME' | 'EXPENSE';
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
     isDefault: boolean;
   }[];
+  splits: TransactionSplitRecord[];
+  tagIds: number[];
+  accountId: number | null;
+  transferAccountId: number | null;
   memo: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
 export type ListTransactionsOutput = {
+  baseCurrencyCode: string;
   transactions: OutputTransaction[];
   pagination: {
-    total: number;
+    total: number | null; // カーソル指定時は null
     page: number;
     limit: number;
-    totalPages: number;
+    totalPages: number | null;
     hasNext: boolean;
     hasPrev: boolean;
   };
+  nextCursor: string | null; // 次のページがない場合（または検索時）は null
 };
 
 const toIsoString = (value: Date): string => value.toISOString();
@@ -55,29 +73,43 @@ export class ListTransactionsBuilder {
   build(params: {
     input: ListTransactionsInput;
     result: ListTransactionsResult;
-    categoriesById: Map<number, CategoryRecord>;
+    nextCursor: string | null;
+    categoriesById: Map<number, CategoryDisplayNameRecord>;
+    converter: CurrencyConverter;
   }): ListTransactionsOutput {
-    const { input, result, categoriesById } = params;
-    const totalPages = calcTotalPages(result.total, input.limit);
+    const { input, result, nextCursor, categoriesById, converter } = params;
+    const totalPages =
+      result.total === null ? null : calcTotalPages(result.total, input.limit);
 
     return {
+      baseCurrencyCode: converter.baseCurrency,
       transactions: result.items.map((item) => ({
         id: item.id,
+        ledgerId: item.ledgerId,
         userId: item.userId,
         type: item.type,
         title: item.title,
         amount: item.amount,
         currencyCode: item.currencyCode,
+        convertedAmount:
+          converter.convert(
+            Money.ofWithCurrency(item.amount, item.currencyCode),
+            item.date,
+          )?.amount ?? null,
         date: item.date,
         categories: item.categoryIds
           .map((id) => categoriesById.get(id))
-          .filter((v): v is CategoryRecord => v !== undefined)
+          .filter((v): v is CategoryDisplayNameRecord => v !== undefined)
           .map((category) => ({
             id: category.id,
             name: category.name,
             type: category.type,
             isDefault: category.isDefault,
           })),
+        splits: item.splits,
+        tagIds: item.tagIds,
+        accountId: item.accountId,
+        transferAccountId: item.transferAccountId,
         memo: item.memo,
         createdAt: toIsoString(item.createdAt),
         updatedAt: toIsoString(item.updatedAt),
@@ -87,9 +119,14 @@ export class ListTransactionsBuilder {
         page: input.page,
         limit: input.limit,
         totalPages,
-        hasNext: input.page < totalPages,
-        hasPrev: input.page > 1,
+        // NOTE: カーソル指定時は page を使わないため、前後のページの有無はカーソルから判定する
+        hasNext:
+          input.cursor === undefined
+            ? totalPages !== null && input.page < totalPages
+            : nextCursor !== null,
+        hasPrev: input.cursor === undefined ? input.page > 1 : true,
       },
+      nextCursor,
     };
   }
 }
@@ -1,4 +1,7 @@
 import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
 
 type UnexpectedListTransactionsErrorParams = {
   message: string;
@@ -11,6 +14,12 @@ export class InvalidPaginationError extends DomainError {
   }
 }
 
+export class InvalidCursorError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidCursorError');
+  }
+}
+
 export class UnexpectedListTransactionsError extends DomainError {
   public readonly cause?: Error;
 
@@ -24,4 +33,6 @@ export class UnexpectedListTransactionsError extends DomainError {
 
 export type ListTransactionsError =
   | InvalidPaginationError
+  | InvalidCursorError
+  | LedgerPermissionDeniedError
   | UnexpectedListTransactionsError;
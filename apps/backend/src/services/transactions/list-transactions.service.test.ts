@@ -1,20 +1,36 @@
 import { describe, expect, it } from 'vitest';
 
 import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
 import type {
   CreateTransactionData,
   Transaction,
   TransactionListItemRecord,
   TransactionRecord,
 } from '../../domain/entities/transaction.entity';
-import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type {
+  CategoryDisplayNameRecord,
+  ICategoryRepository,
+} from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type {
+  ApplicableExchangeRateRecord,
+  FindApplicableExchangeRatesQuery,
+  IExchangeRateRepository,
+} from '../../domain/repositories/exchange-rate.repository.interface';
 import type {
   ITransactionRepository,
   ListTransactionsQuery,
   ListTransactionsResult,
 } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TransactionListCursor } from '../../domain/values/transaction-list-cursor';
+import { TransactionListOrder } from '../../domain/values/transaction-list-order';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
 import {
+  InvalidCursorError,
   InvalidPaginationError,
+  LedgerPermissionDeniedError,
   UnexpectedListTransactionsError,
 } from './list-transactions.errors';
 import { ListTransactionsUseCase } from './list-transactions.service';
@@ -31,12 +47,17 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
   ): TransactionListItemRecord => ({
     id: 1,
     userId: USER_ID,
+    ledgerId: USER_ID,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currencyCode: 'JPY',
     date: '2025-01-01',
     categoryIds: [10],
+    splits: [{ categoryId: 10, amount: 1000 }],
+    tagIds: [],
+    accountId: null,
+    transferAccountId: null,
     memo: null,
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
@@ -57,6 +78,7 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       name: '食費',
       type: 'EXPENSE',
       isDefault: false,
+      parentId: null,
       createdAt,
       updatedAt,
       ...rest,
@@ -64,7 +86,7 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
   };
 
   const createTransactionRepo = (params: {
-    listByUserIdImpl: (
+    listByLedgerIdImpl: (
       query: ListTransactionsQuery,
     ) => Promise<ListTransactionsResult>;
   }): ITransactionRepository => {
@@ -80,11 +102,15 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       throw new Error('not used');
     };
 
-    const notUsedFindCategoryIdsByTransactionId = async (
-      _transactionId: number,
-    ): Promise<number[]> => {
-      throw new Error('not used');
-    };
+    const notUsedFindSplitsByTransactionId: ITransactionRepository['findSplitsByTransactionId'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedFindTagIdsByTransactionId: ITransactionRepository['findTagIdsByTransactionId'] =
+      async () => {
+        throw new Error('not used');
+      };
 
     const notUsedFindByUserId = async (
       _userId: number,
@@ -119,21 +145,73 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       throw new Error('not used');
     };
 
+    const notUsedSummarizeByLedgerId: ITransactionRepository['summarizeByLedgerId'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedSummarizeByLedgerIdPerCurrency: ITransactionRepository['summarizeByLedgerIdPerCurrency'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedFindImportedRowHashes: ITransactionRepository['findImportedRowHashes'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedListTrashedByLedgerId: ITransactionRepository['listTrashedByLedgerId'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedRestore: ITransactionRepository['restore'] = async () => {
+      throw new Error('not used');
+    };
+
+    const notUsedPurge: ITransactionRepository['purge'] = async () => {
+      throw new Error('not used');
+    };
+
+    const notUsedFindIdsDeletedBefore: ITransactionRepository['findIdsDeletedBefore'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    const notUsedImportMany: ITransactionRepository['importMany'] =
+      async () => {
+        throw new Error('not used');
+      };
+
     return {
       create: notUsedCreate,
       findById: notUsedFindById,
-      findCategoryIdsByTransactionId: notUsedFindCategoryIdsByTransactionId,
+      findByIdIncludingDeleted: notUsedFindById,
+      findTrashedById: notUsedFindById,
+      findSplitsByTransactionId: notUsedFindSplitsByTransactionId,
+      findTagIdsByTransactionId: notUsedFindTagIdsByTransactionId,
       findByUserId: notUsedFindByUserId,
       findByUserIdAndPeriod: notUsedFindByUserIdAndPeriod,
-      listByUserId: params.listByUserIdImpl,
+      listByLedgerId: params.listByLedgerIdImpl,
+      listTrashedByLedgerId: notUsedListTrashedByLedgerId,
       update: notUsedUpdate,
       delete: notUsedDelete,
+      restore: notUsedRestore,
+      purge: notUsedPurge,
+      findIdsDeletedBefore: notUsedFindIdsDeletedBefore,
       existsByCategoryId: notUsedExistsByCategoryId,
+      summarizeByLedgerId: notUsedSummarizeByLedgerId,
+      summarizeByLedgerIdPerCurrency: notUsedSummarizeByLedgerIdPerCurrency,
+      findImportedRowHashes: notUsedFindImportedRowHashes,
+      importMany: notUsedImportMany,
     };
   };
 
   const createCategoryRepo = (params: {
-    findByIdsImpl: (userId: number, ids: number[]) => Promise<CategoryRecord[]>;
+    findDisplayNamesByIdsImpl: (
+      userId: number,
+      ids: number[],
+    ) => Promise<CategoryDisplayNameRecord[]>;
   }): ICategoryRepository => {
     const notUsedCreate = async (
       _data: { name: string; typeId: number },
@@ -149,6 +227,7 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
     };
 
     const notUsedFindByName = async (
+      _userId: number,
       _name: string,
     ): Promise<CategoryRecord | null> => {
       throw new Error('not used');
@@ -178,27 +257,139 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       throw new Error('not used');
     };
 
+    const notUsedDeleteCategory: ICategoryRepository['delete'] = async (
+      _categoryId,
+    ) => {
+      throw new Error('not used');
+    };
+
+    const notUsedMergeCategory: ICategoryRepository['merge'] = async (
+      _sourceCategoryId,
+      _targetCategoryId,
+    ) => {
+      throw new Error('not used');
+    };
+
+    const notUsedFindTypeCodeByTypeId: ICategoryRepository['findTypeCodeByTypeId'] =
+      async (_typeId) => {
+        throw new Error('not used');
+      };
+
+    const notUsedFindChildren: ICategoryRepository['findChildren'] = async (
+      _parentIds,
+      _options,
+    ) => {
+      throw new Error('not used');
+    };
+
+    const notUsedHasChildren: ICategoryRepository['hasChildren'] = async (
+      _categoryId,
+    ) => {
+      throw new Error('not used');
+    };
+
+    const notUsedReorder: ICategoryRepository['reorder'] = async (
+      _userId,
+      _categoryIds,
+    ) => {
+      throw new Error('not used');
+    };
+
+    const notUsedUpdateVisibility: ICategoryRepository['updateVisibility'] =
+      async (_userId, _categoryIds, _isVisible) => {
+        throw new Error('not used');
+      };
+
+    const notUsedFindByIds: ICategoryRepository['findByIds'] = async (
+      _userId,
+      _ids,
+    ) => {
+      throw new Error('not used');
+    };
+
     return {
       create: notUsedCreate,
       findById: notUsedFindById,
       findByName: notUsedFindByName,
       findByUserId: notUsedFindByUserId,
-      findByIds: params.findByIdsImpl,
+      findByIds: notUsedFindByIds,
+      findDisplayNamesByIds: params.findDisplayNamesByIdsImpl,
       findAllWithPagination: notUsedFindAllWithPagination,
       findByIdWithUser: notUsedFindByIdWithUser,
       update: notUsedUpdate,
+      delete: notUsedDeleteCategory,
+      merge: notUsedMergeCategory,
+      findTypeCodeByTypeId: notUsedFindTypeCodeByTypeId,
+      findChildren: notUsedFindChildren,
+      hasChildren: notUsedHasChildren,
+      reorder: notUsedReorder,
+      updateVisibility: notUsedUpdateVisibility,
+    };
+  };
+
+  const createCurrencyRepo = (params?: {
+    findBaseByUserIdImpl?: (userId: number) => Promise<CurrencyRecord | null>;
+  }): ICurrencyRepository => {
+    const notUsedFindAll: ICurrencyRepository['findAll'] = async () => {
+      throw new Error('not used');
+    };
+
+    const notUsedFindByCode: ICurrencyRepository['findByCode'] = async () => {
+      throw new Error('not used');
+    };
+
+    const notUsedUpdate: ICurrencyRepository['update'] = async () => {
+      throw new Error('not used');
+    };
+
+    return {
+      findAll: notUsedFindAll,
+      findByCode: notUsedFindByCode,
+      findBaseByUserId: params?.findBaseByUserIdImpl ?? (async () => null),
+      update: notUsedUpdate,
+    };
+  };
+
+  const createExchangeRateRepo = (params?: {
+    findApplicableImpl?: (
+      query: FindApplicableExchangeRatesQuery,
+    ) => Promise<ApplicableExchangeRateRecord[]>;
+  }): IExchangeRateRepository => {
+    const notUsedUpsertMany: IExchangeRateRepository['upsertMany'] =
+      async () => {
+        throw new Error('not used');
+      };
+
+    return {
+      upsertMany: notUsedUpsertMany,
+      findApplicable: params?.findApplicableImpl ?? (async () => []),
     };
   };
 
+  const createLedgerAccessService = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+  });
+
   const createUseCase = (deps: {
     transactionRepository: ITransactionRepository;
     categoryRepository: ICategoryRepository;
+    currencyRepository?: ICurrencyRepository;
+    exchangeRateRepository?: IExchangeRateRepository;
+    ledgerAccessService?: ILedgerAccessService;
   }): ListTransactionsUseCase => {
     const useCase = new ListTransactionsUseCase();
 
     Object.assign(useCase as object, {
       transactionRepository: deps.transactionRepository,
       categoryRepository: deps.categoryRepository,
+      currencyRepository: deps.currencyRepository ?? createCurrencyRepo(),
+      exchangeRateRepository:
+        deps.exchangeRateRepository ?? createExchangeRateRepo(),
+      ledgerAccessService:
+        deps.ledgerAccessService ?? createLedgerAccessService(),
     });
 
     return useCase;
@@ -211,7 +402,7 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       let receivedCategoryIds: number[] | undefined;
 
       const transactionRepository = createTransactionRepo({
-        listByUserIdImpl: async (query) => {
+        listByLedgerIdImpl: async (query) => {
           receivedQuery = query;
           return {
             items: [
@@ -224,7 +415,7 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       });
 
       const categoryRepository = createCategoryRepo({
-        findByIdsImpl: async (userId, ids) => {
+        findDisplayNamesByIdsImpl: async (userId, ids) => {
           receivedCategoryUserId = userId;
           receivedCategoryIds = ids;
           return [
@@ -251,11 +442,12 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       });
 
       expect(receivedQuery).toEqual({
-        userId: USER_ID,
+        ledgerId: USER_ID,
         startDate: '2025-01-01',
         endDate: '2025-12-31',
         type: 'EXPENSE',
         categoryIds: [10],
+        sortBy: 'date',
         order: 'desc',
         limit: LIMIT,
         offset: LIMIT,
@@ -270,16 +462,329 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
         { id: 11, name: '交通費', type: 'EXPENSE', isDefault: false },
       ]);
     });
+
+    it('検索語は表記ゆれを正規化してから取引の検索に渡す', async () => {
+      let receivedQuery: ListTransactionsQuery | undefined;
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async (query) => {
+            receivedQuery = query;
+            return { items: [], total: 0 };
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        page: 1,
+        limit: LIMIT,
+        q: '  ＡＭＡＺＯＮ　ｾｰﾙ ',
+      });
+
+      expect(receivedQuery?.q).toBe('amazon せーる');
+    });
+
+    it('検索語が空白のみの場合は検索しない', async () => {
+      let receivedQuery: ListTransactionsQuery | undefined;
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async (query) => {
+            receivedQuery = query;
+            return { items: [], total: 0 };
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        page: 1,
+        limit: LIMIT,
+        q: '　 ',
+      });
+
+      expect(receivedQuery).toBeDefined();
+      expect(receivedQuery?.q).toBeUndefined();
+    });
+
+    it('ページ指定で続きがある場合は、最後の取引を指すカーソルを返す', async () => {
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [
+              makeItem({ id: 3, date: '2025-01-03' }),
+              makeItem({ id: 2, date: '2025-01-02' }),
+            ],
+            total: 3,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        page: 1,
+        limit: 2,
+      });
+
+      const order = TransactionListOrder.from('desc');
+      expect(output.nextCursor).not.toBeNull();
+      expect(
+        TransactionListCursor.decode(output.nextCursor ?? '', order),
+      ).toMatchObject({ id: 2, sortValue: '2025-01-02' });
+    });
+
+    it('カーソル指定時はカーソルより後ろを1件多く取得し、次のページの有無を判定する', async () => {
+      let receivedQuery: ListTransactionsQuery | undefined;
+      const order = TransactionListOrder.from('asc', 'amount');
+      const cursor = TransactionListCursor.fromItem(
+        order,
+        makeItem({ id: 5, amount: 1500 }),
+      ).encode();
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async (query) => {
+            receivedQuery = query;
+            return {
+              items: [
+                makeItem({ id: 6, amount: 1500 }),
+                makeItem({ id: 7, amount: 2000 }),
+                makeItem({ id: 8, amount: 2500 }),
+              ],
+              total: null,
+            };
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        minAmount: 1000,
+        sortBy: 'amount',
+        order: 'asc',
+        cursor,
+        page: 1,
+        limit: 2,
+      });
+
+      expect(receivedQuery).toMatchObject({
+        minAmount: 1000,
+        sortBy: 'amount',
+        order: 'asc',
+        after: { value: 1500, id: 5 },
+        limit: 3,
+        offset: 0,
+      });
+      expect(output.transactions.map((transaction) => transaction.id)).toEqual([
+        6, 7,
+      ]);
+      expect(
+        TransactionListCursor.decode(output.nextCursor ?? '', order),
+      ).toMatchObject({ id: 7, sortValue: 2000 });
+      // NOTE: カーソル指定時は総件数を数えない
+      expect(output.pagination).toMatchObject({
+        total: null,
+        totalPages: null,
+        hasNext: true,
+        hasPrev: true,
+      });
+    });
+
+    it('カーソル指定時に続きがない場合は nextCursor が null になる', async () => {
+      const order = TransactionListOrder.from('desc');
+      const cursor = TransactionListCursor.fromItem(order, makeItem()).encode();
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [makeItem({ id: 0 })],
+            total: null,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        cursor,
+        page: 1,
+        limit: LIMIT,
+      });
+
+      expect(output.nextCursor).toBeNull();
+      expect(output.pagination.hasNext).toBe(false);
+    });
+
+    it('検索語を指定した場合は関連度順に並ぶため、カーソルを返さない', async () => {
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [makeItem({ id: 1 })],
+            total: 5,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        q: 'ランチ',
+        order: 'desc',
+        page: 1,
+        limit: 1,
+      });
+
+      expect(output.nextCursor).toBeNull();
+      expect(output.pagination.hasNext).toBe(true);
+    });
+
+    it('基準通貨以外の取引は取引日の範囲のレートを取得して換算する', async () => {
+      let receivedRateQuery: FindApplicableExchangeRatesQuery | undefined;
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [
+              makeItem({ id: 1, currencyCode: 'USD', date: '2025-03-10' }),
+              makeItem({ id: 2, currencyCode: 'EUR', date: '2025-01-05' }),
+              makeItem({ id: 3, currencyCode: 'JPY', date: '2025-02-01' }),
+            ],
+            total: 3,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+        exchangeRateRepository: createExchangeRateRepo({
+          findApplicableImpl: async (query) => {
+            receivedRateQuery = query;
+            return [
+              {
+                fromCurrency: 'USD',
+                toCurrency: 'JPY',
+                date: '2025-03-01',
+                rate: '150',
+                fromExponent: 2,
+                toExponent: 0,
+              },
+            ];
+          },
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        page: 1,
+        limit: LIMIT,
+      });
+
+      expect(receivedRateQuery).toEqual({
+        fromCurrencies: ['USD', 'EUR'],
+        toCurrency: 'JPY',
+        startDate: '2025-01-05',
+        endDate: '2025-03-10',
+      });
+      expect(output.baseCurrencyCode).toBe('JPY');
+      // NOTE: USD の金額 1000 は補助単位（セント）なので 10.00ドル * 150 = 1500円
+      expect(
+        output.transactions.map((transaction) => transaction.convertedAmount),
+      ).toEqual([1500, null, 1000]);
+    });
+
+    it('ユーザーの基準通貨が設定されている場合はその通貨に換算する', async () => {
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [makeItem({ currencyCode: 'USD', amount: 25 })],
+            total: 1,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+        currencyRepository: createCurrencyRepo({
+          findBaseByUserIdImpl: async () => ({
+            id: 2,
+            code: 'USD',
+            name: '米ドル',
+            symbol: '$',
+            exponent: 2,
+            isActive: true,
+            createdAt: fixedCreatedAt,
+            updatedAt: fixedUpdatedAt,
+          }),
+        }),
+      });
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        order: 'desc',
+        page: 1,
+        limit: LIMIT,
+      });
+
+      expect(output.baseCurrencyCode).toBe('USD');
+      expect(output.transactions[0]?.convertedAmount).toBe(25);
+    });
   });
 
   describe('異常系', () => {
+    it('帳簿のメンバーでない場合は LedgerPermissionDeniedError になる', async () => {
+      let called = false;
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => {
+            called = true;
+            return { items: [], total: 0 };
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+        ledgerAccessService: createLedgerAccessService(null),
+      });
+
+      await expect(
+        useCase.execute({
+          userId: USER_ID,
+          ledgerId: 99,
+          order: 'desc',
+          page: 1,
+          limit: LIMIT,
+        }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(called).toBe(false);
+    });
+
     it('page が不正な場合は InvalidPaginationError になる', async () => {
       const useCase = createUseCase({
         transactionRepository: createTransactionRepo({
-          listByUserIdImpl: async () => ({ items: [], total: 0 }),
+          listByLedgerIdImpl: async () => ({ items: [], total: 0 }),
         }),
         categoryRepository: createCategoryRepo({
-          findByIdsImpl: async () => [],
+          findDisplayNamesByIdsImpl: async () => [],
         }),
       });
 
@@ -293,15 +798,73 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
       ).rejects.toBeInstanceOf(InvalidPaginationError);
     });
 
+    it('カーソルが並び順と一致しない場合は InvalidCursorError になる', async () => {
+      const cursor = TransactionListCursor.fromItem(
+        TransactionListOrder.from('desc'),
+        makeItem(),
+      ).encode();
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => {
+            throw new Error('not used');
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      await expect(
+        useCase.execute({
+          userId: USER_ID,
+          sortBy: 'title',
+          order: 'desc',
+          cursor,
+          page: 1,
+          limit: LIMIT,
+        }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+    });
+
+    it('検索語とカーソルを同時に指定した場合は InvalidCursorError になる', async () => {
+      const cursor = TransactionListCursor.fromItem(
+        TransactionListOrder.from('desc'),
+        makeItem(),
+      ).encode();
+
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => {
+            throw new Error('not used');
+          },
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+      });
+
+      await expect(
+        useCase.execute({
+          userId: USER_ID,
+          q: 'ランチ',
+          order: 'desc',
+          cursor,
+          page: 1,
+          limit: LIMIT,
+        }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+    });
+
     it('取引一覧の取得に失敗した場合は UnexpectedListTransactionsError になる', async () => {
       const useCase = createUseCase({
         transactionRepository: createTransactionRepo({
-          listByUserIdImpl: async () => {
+          listByLedgerIdImpl: async () => {
             throw new Error('db error');
           },
         }),
         categoryRepository: createCategoryRepo({
-          findByIdsImpl: async () => [],
+          findDisplayNamesByIdsImpl: async () => [],
         }),
       });
 
@@ -318,13 +881,41 @@ describe('ListTransactionsUseCase（取引一覧取得）', () => {
     it('カテゴリの取得に失敗した場合は UnexpectedListTransactionsError になる', async () => {
       const useCase = createUseCase({
         transactionRepository: createTransactionRepo({
-          listByUserIdImpl: async () => ({
+          listByLedgerIdImpl: async () => ({
             items: [makeItem({ categoryIds: [10] })],
             total: 1,
           }),
         }),
         categoryRepository: createCategoryRepo({
-          findByIdsImpl: async () => {
+          findDisplayNamesByIdsImpl: async () => {
+            throw new Error('db error');
+          },
+        }),
+      });
+
+      await expect(
+        useCase.execute({
+          userId: USER_ID,
+          order: 'desc',
+          page: 1,
+          limit: LIMIT,
+        }),
+      ).rejects.toBeInstanceOf(UnexpectedListTransactionsError);
+    });
+
+    it('為替レートの取得に失敗した場合は UnexpectedListTransactionsError になる', async () => {
+      const useCase = createUseCase({
+        transactionRepository: createTransactionRepo({
+          listByLedgerIdImpl: async () => ({
+            items: [makeItem({ currencyCode: 'USD' })],
+            total: 1,
+          }),
+        }),
+        categoryRepository: createCategoryRepo({
+          findDisplayNamesByIdsImpl: async () => [],
+        }),
+        exchangeRateRepository: createExchangeRateRepo({
+          findApplicableImpl: async () => {
             throw new Error('db error');
           },
         }),
@@ -5,8 +5,13 @@ import * as Cause from 'effect/Cause';
 import * as Exit from 'effect/Exit';
 import { inject, injectable } from 'inversify';
 
-import type { CategoryRecord } from '../../domain/entities/category.entity';
-import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import { Currency } from '../../domain/entities/currency.entity';
+import type {
+  CategoryDisplayNameRecord,
+  ICategoryRepository,
+} from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
 import type {
   ITransactionRepository,
   ListTransactionsResult,
@@ -15,20 +20,42 @@ import {
   Pagination,
   PaginationDomainError,
 } from '../../domain/values/pagination';
+import { SearchText } from '../../domain/values/search-text';
+import { TransactionListCursor } from '../../domain/values/transaction-list-cursor';
 import { TransactionListOrder } from '../../domain/values/transaction-list-order';
 import { Effect, pipe } from '../../shared/result';
 import { TOKENS } from '../di/tokens';
+import { CurrencyConverter } from '../exchange-rates/currency-converter';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
 import {
   ListTransactionsBuilder,
   type ListTransactionsInput,
   type ListTransactionsOutput,
 } from './list-transactions.builder';
 import {
+  InvalidCursorError,
   InvalidPaginationError,
+  LedgerPermissionDeniedError,
   type ListTransactionsError,
   UnexpectedListTransactionsError,
 } from './list-transactions.errors';
 
+type TransactionsPage = {
+  result: ListTransactionsResult;
+  nextCursor: string | null;
+};
+
+type CategoriesLoaded = TransactionsPage & {
+  categoriesById: Map<number, CategoryDisplayNameRecord>;
+};
+
+type ConverterLoaded = CategoriesLoaded & {
+  converter: CurrencyConverter;
+};
+
 @injectable()
 export class ListTransactionsUseCase {
   @inject(TOKENS.TransactionRepository)
@@ -37,6 +64,15 @@ export class ListTransactionsUseCase {
   @inject(TOKENS.CategoryRepository)
   private categoryRepository!: ICategoryRepository;
 
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  @inject(TOKENS.ExchangeRateRepository)
+  private exchangeRateRepository!: IExchangeRateRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
   private readonly builder = new ListTransactionsBuilder();
 
   async execute(input: ListTransactionsInput): Promise<ListTransactionsOutput> {
@@ -48,12 +84,39 @@ export class ListTransactionsUseCase {
   private buildProgram(
     input: ListTransactionsInput,
   ): Effect.Effect<ListTransactionsOutput, ListTransactionsError> {
+    const order = TransactionListOrder.from(input.order, input.sortBy);
+
     return pipe(
       this.createPagination(input),
-      Effect.flatMap((pagination) => this.fetchTransactions(input, pagination)),
-      Effect.flatMap((result) => this.fetchCategories(input.userId, result)),
-      Effect.map(({ result, categoriesById }) =>
-        this.builder.build({ input, result, categoriesById }),
+      Effect.flatMap((pagination) =>
+        pipe(
+          this.decodeCursor(input, order),
+          Effect.flatMap((cursor) =>
+            pipe(
+              this.authorizeLedger(input),
+              Effect.flatMap((ledgerId) =>
+                this.fetchTransactions({
+                  input,
+                  ledgerId,
+                  order,
+                  pagination,
+                  cursor,
+                }),
+              ),
+            ),
+          ),
+        ),
+      ),
+      Effect.flatMap((page) => this.fetchCategories(input.userId, page)),
+      Effect.flatMap((value) => this.loadConverter(input.userId, value)),
+      Effect.map(({ result, nextCursor, categoriesById, converter }) =>
+        this.builder.build({
+          input,
+          result,
+          nextCursor,
+          categoriesById,
+          converter,
+        }),
       ),
     );
   }
@@ -76,48 +139,136 @@ export class ListTransactionsUseCase {
     );
   }
 
-  private fetchTransactions(
+  /**
+   * NOTE: 検索時は関連度順に並べるため、並び替えキーを前提とするカーソルは利用できない
+   */
+  private decodeCursor(
     input: ListTransactionsInput,
-    pagination: Pagination,
-  ): Effect.Effect<ListTransactionsResult, ListTransactionsError> {
-    const order = TransactionListOrder.from(input.order);
+    order: TransactionListOrder,
+  ): Effect.Effect<TransactionListCursor | null, ListTransactionsError> {
+    if (input.cursor === undefined) {
+      return Effect.succeed(null);
+    }
 
+    if (!SearchText.from(input.q).isEmpty()) {
+      return Effect.fail(
+        new InvalidCursorError('検索語（q）とカーソルは同時に指定できません'),
+      );
+    }
+
+    const cursor = input.cursor;
+
+    return Effect.try({
+      try: () => TransactionListCursor.decode(cursor, order),
+      catch: (cause) =>
+        new InvalidCursorError(
+          cause instanceof Error ? cause.message : 'カーソルが不正です',
+        ),
+    });
+  }
+
+  /**
+   * 帳簿の閲覧権限があることを検証し、対象の帳簿IDを返す
+   */
+  private authorizeLedger(
+    input: ListTransactionsInput,
+  ): Effect.Effect<number, ListTransactionsError> {
     return pipe(
       Effect.tryPromise({
         try: () =>
-          this.transactionRepository.listByUserId({
+          this.ledgerAccessService.findAccess({
             userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ledgerId),
+    );
+  }
+
+  /**
+   * - カーソル指定時はカーソルより後ろを取得し、次のページの有無を判定するため1件多く取得する
+   * - ページ指定時は総件数から次のページの有無を判定する
+   * NOTE: 検索時は関連度順に並ぶため、次のページのカーソルは返さない
+   */
+  private fetchTransactions(params: {
+    input: ListTransactionsInput;
+    ledgerId: number;
+    order: TransactionListOrder;
+    pagination: Pagination;
+    cursor: TransactionListCursor | null;
+  }): Effect.Effect<TransactionsPage, ListTransactionsError> {
+    const { input, ledgerId, order, pagination, cursor } = params;
+    const keyword = SearchText.from(input.q);
+
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRepository.listByLedgerId({
+            ledgerId,
             startDate: input.startDate,
             endDate: input.endDate,
             type: input.type,
             categoryIds: input.categoryIds,
+            tagIds: input.tagIds,
+            q: keyword.isEmpty() ? undefined : keyword.value,
+            minAmount: input.minAmount,
+            maxAmount: input.maxAmount,
+            sortBy: order.sortBy,
             order: order.direction,
-            limit: pagination.limit,
-            offset: pagination.offset,
+            after:
+              cursor === null
+                ? undefined
+                : { value: cursor.sortValue, id: cursor.id },
+            limit: cursor === null ? pagination.limit : pagination.limit + 1,
+            offset: cursor === null ? pagination.offset : 0,
           }),
         catch: (cause) =>
           this.createUnexpectedError('取引一覧の取得に失敗しました', cause),
       }),
+      Effect.map((result) => {
+        const items = result.items.slice(0, pagination.limit);
+        // NOTE: カーソル指定時は総件数を数えないため、1件多く取得できたかで判定する
+        const hasMore =
+          cursor === null
+            ? pagination.offset + items.length < (result.total ?? 0)
+            : result.items.length > pagination.limit;
+        const last = items[items.length - 1];
+
+        return {
+          result: { ...result, items },
+          nextCursor:
+            hasMore && keyword.isEmpty() && last !== undefined
+              ? TransactionListCursor.fromItem(order, last).encode()
+              : null,
+        };
+      }),
     );
   }
 
   private fetchCategories(
     userId: number,
-    result: ListTransactionsResult,
-  ): Effect.Effect<
-    {
-      result: ListTransactionsResult;
-      categoriesById: Map<number, CategoryRecord>;
-    },
-    ListTransactionsError
-  > {
-    const allCategoryIds = result.items.flatMap((item) => item.categoryIds);
+    page: TransactionsPage,
+  ): Effect.Effect<CategoriesLoaded, ListTransactionsError> {
+    const allCategoryIds = page.result.items.flatMap(
+      (item) => item.categoryIds,
+    );
 
     const uniqueCategoryIds = Array.from(new Set(allCategoryIds));
 
     return pipe(
       Effect.tryPromise({
-        try: () => this.categoryRepository.findByIds(userId, uniqueCategoryIds),
+        // NOTE: 共有帳簿では他のメンバーの独自カテゴリも含まれるため、利用可否で絞り込まずに表示名を取得する
+        try: () =>
+          this.categoryRepository.findDisplayNamesByIds(
+            userId,
+            uniqueCategoryIds,
+          ),
         catch: (cause) =>
           this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
       }),
@@ -125,7 +276,52 @@ export class ListTransactionsUseCase {
         (categories) =>
           new Map(categories.map((category) => [category.id, category])),
       ),
-      Effect.map((categoriesById) => ({ result, categoriesById })),
+      Effect.map((categoriesById) => ({ ...page, categoriesById })),
+    );
+  }
+
+  private loadConverter(
+    userId: number,
+    value: CategoriesLoaded,
+  ): Effect.Effect<ConverterLoaded, ListTransactionsError> {
+    const { items } = value.result;
+    const currencyCodes = Array.from(
+      new Set(items.map((item) => item.currencyCode)),
+    );
+    // NOTE: 取引日の最小〜最大の範囲で、換算に必要なレートのみ取得する
+    const dates = items.map((item) => item.date).sort();
+
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findBaseByUserId(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('基準通貨の取得に失敗しました', cause),
+      }),
+      Effect.map((currency) => currency?.code ?? Currency.DEFAULT_CODE),
+      Effect.flatMap((baseCurrency) =>
+        pipe(
+          Effect.tryPromise({
+            try: () =>
+              this.exchangeRateRepository.findApplicable({
+                fromCurrencies: currencyCodes.filter(
+                  (code) => code !== baseCurrency,
+                ),
+                toCurrency: baseCurrency,
+                startDate: dates[0] ?? '',
+                endDate: dates[dates.length - 1] ?? '',
+              }),
+            catch: (cause) =>
+              this.createUnexpectedError(
+                '為替レートの取得に失敗しました',
+                cause,
+              ),
+          }),
+          Effect.map((rates) => ({
+            ...value,
+            converter: new CurrencyConverter(baseCurrency, rates),
+          })),
+        ),
+      ),
     );
   }
 
@@ -0,0 +1,104 @@
+// Application Layer: List Trashed Transactions Builder
+// ゴミ箱の取引一覧取得ユースケースの出力DTO組み立てを担当する
+
+import type { TransactionSplitRecord } from '../../domain/entities/transaction.entity';
+import type { CategoryDisplayNameRecord } from '../../domain/repositories/category.repository.interface';
+import type { ListTrashedTransactionsResult } from '../../domain/repositories/transaction.repository.interface';
+
+export type ListTrashedTransactionsInput = {
+  userId: number;
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
+  page: number;
+  limit: number;
+};
+
+type OutputTrashedTransaction = {
+  id: number;
+  ledgerId: number;
+  userId: number;
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  title: string;
+  amount: number;
+  currencyCode: string;
+  date: string;
+  categories: {
+    id: number;
+    name: string;
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+    isDefault: boolean;
+  }[];
+  splits: TransactionSplitRecord[];
+  tagIds: number[];
+  accountId: number | null;
+  transferAccountId: number | null;
+  memo: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string;
+};
+
+export type ListTrashedTransactionsOutput = {
+  transactions: OutputTrashedTransaction[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+};
+
+const toIsoString = (value: Date): string => value.toISOString();
+
+const calcTotalPages = (total: number, limit: number): number =>
+  total === 0 ? 0 : Math.ceil(total / limit);
+
+export class ListTrashedTransactionsBuilder {
+  build(params: {
+    input: ListTrashedTransactionsInput;
+    result: ListTrashedTransactionsResult;
+    categoriesById: Map<number, CategoryDisplayNameRecord>;
+  }): ListTrashedTransactionsOutput {
+    const { input, result, categoriesById } = params;
+    const totalPages = calcTotalPages(result.total, input.limit);
+
+    return {
+      transactions: result.items.map((item) => ({
+        id: item.id,
+        ledgerId: item.ledgerId,
+        userId: item.userId,
+        type: item.type,
+        title: item.title,
+        amount: item.amount,
+        currencyCode: item.currencyCode,
+        date: item.date,
+        categories: item.categoryIds
+          .map((id) => categoriesById.get(id))
+          .filter((v): v is CategoryDisplayNameRecord => v !== undefined)
+          .map((category) => ({
+            id: category.id,
+            name: category.name,
+            type: category.type,
+            isDefault: category.isDefault,
+          })),
+        splits: item.splits,
+        tagIds: item.tagIds,
+        accountId: item.accountId,
+        transferAccountId: item.transferAccountId,
+        memo: item.memo,
+        createdAt: toIsoString(item.createdAt),
+        updatedAt: toIsoString(item.updatedAt),
+        deletedAt: toIsoString(item.deletedAt),
+      })),
+      pagination: {
+        total: result.total,
+        page: input.page,
+        limit: input.limit,
+        totalPages,
+        hasNext: input.page < totalPages,
+        hasPrev: input.page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  InvalidPaginationError,
+  LedgerPermissionDeniedError,
+} from './list-transactions.errors';
+
+export {
+  InvalidPaginationError,
+  LedgerPermissionDeniedError,
+} from './list-transactions.errors';
+
+type UnexpectedListTrashedTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListTrashedTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListTrashedTransactionsErrorParams) {
+    super(params.message, 'UnexpectedListTrashedTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListTrashedTransactionsError =
+  | InvalidPaginationError
+  | LedgerPermissionDeniedError
+  | UnexpectedListTrashedTransactionsError;
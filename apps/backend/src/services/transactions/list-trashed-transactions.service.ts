@@ -0,0 +1,213 @@
+// Application Layer: List Trashed Transactions Use Case
+// ゴミ箱の取引（削除済みの取引）一覧の取得を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type {
+  CategoryDisplayNameRecord,
+  ICategoryRepository,
+} from '../../domain/repositories/category.repository.interface';
+import type {
+  ITransactionRepository,
+  ListTrashedTransactionsResult,
+} from '../../domain/repositories/transaction.repository.interface';
+import {
+  Pagination,
+  PaginationDomainError,
+} from '../../domain/values/pagination';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  ListTrashedTransactionsBuilder,
+  type ListTrashedTransactionsInput,
+  type ListTrashedTransactionsOutput,
+} from './list-trashed-transactions.builder';
+import {
+  InvalidPaginationError,
+  LedgerPermissionDeniedError,
+  type ListTrashedTransactionsError,
+  UnexpectedListTrashedTransactionsError,
+} from './list-trashed-transactions.errors';
+
+@injectable()
+export class ListTrashedTransactionsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.CategoryRepository)
+  private categoryRepository!: ICategoryRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  private readonly builder = new ListTrashedTransactionsBuilder();
+
+  async execute(
+    input: ListTrashedTransactionsInput,
+  ): Promise<ListTrashedTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListTrashedTransactionsInput,
+  ): Effect.Effect<
+    ListTrashedTransactionsOutput,
+    ListTrashedTransactionsError
+  > {
+    return pipe(
+      this.createPagination(input),
+      Effect.flatMap((pagination) =>
+        pipe(
+          this.authorizeLedger(input),
+          Effect.flatMap((ledgerId) =>
+            this.fetchTrashedTransactions(ledgerId, pagination),
+          ),
+        ),
+      ),
+      Effect.flatMap((result) =>
+        pipe(
+          this.fetchCategories(input.userId, result),
+          Effect.map((categoriesById) =>
+            this.builder.build({ input, result, categoriesById }),
+          ),
+        ),
+      ),
+    );
+  }
+
+  private createPagination(
+    input: ListTrashedTransactionsInput,
+  ): Effect.Effect<Pagination, ListTrashedTransactionsError> {
+    return Effect.try({
+      try: () => Pagination.fromPage({ page: input.page, limit: input.limit }),
+      catch: (cause) =>
+        cause instanceof PaginationDomainError
+          ? new InvalidPaginationError(cause.message)
+          : new InvalidPaginationError('ページネーションの指定が不正です'),
+    });
+  }
+
+  /**
+   * 帳簿の閲覧権限があることを検証し、対象の帳簿IDを返す
+   */
+  private authorizeLedger(
+    input: ListTrashedTransactionsInput,
+  ): Effect.Effect<number, ListTrashedTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ledgerId),
+    );
+  }
+
+  private fetchTrashedTransactions(
+    ledgerId: number,
+    pagination: Pagination,
+  ): Effect.Effect<
+    ListTrashedTransactionsResult,
+    ListTrashedTransactionsError
+  > {
+    return Effect.tryPromise({
+      try: () =>
+        this.transactionRepository.listTrashedByLedgerId({
+          ledgerId,
+          limit: pagination.limit,
+          offset: pagination.offset,
+        }),
+      catch: (cause) =>
+        this.createUnexpectedError(
+          'ゴミ箱の取引一覧の取得に失敗しました',
+          cause,
+        ),
+    });
+  }
+
+  private fetchCategories(
+    userId: number,
+    result: ListTrashedTransactionsResult,
+  ): Effect.Effect<
+    Map<number, CategoryDisplayNameRecord>,
+    ListTrashedTransactionsError
+  > {
+    const categoryIds = Array.from(
+      new Set(result.items.flatMap((item) => item.categoryIds)),
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        // NOTE: 共有帳簿では他のメンバーの独自カテゴリも含まれるため、利用可否で絞り込まずに表示名を取得する
+        try: () =>
+          this.categoryRepository.findDisplayNamesByIds(userId, categoryIds),
+        catch: (cause) =>
+          this.createUnexpectedError('カテゴリの取得に失敗しました', cause),
+      }),
+      Effect.map(
+        (categories) =>
+          new Map(categories.map((category) => [category.id, category])),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListTrashedTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListTrashedTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      ListTrashedTransactionsOutput,
+      ListTrashedTransactionsError
+    >,
+  ): ListTrashedTransactionsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListTrashedTransactionsError({
+                message: 'ゴミ箱の取引一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  LedgerPermissionDeniedError,
+  TrashedTransactionNotFoundError,
+} from './restore-transaction.errors';
+
+export {
+  LedgerPermissionDeniedError,
+  TrashedTransactionNotFoundError,
+} from './restore-transaction.errors';
+
+type UnexpectedPurgeTransactionErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedPurgeTransactionError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedPurgeTransactionErrorParams) {
+    super(params.message, 'UnexpectedPurgeTransactionError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type PurgeTransactionError =
+  | TrashedTransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | UnexpectedPurgeTransactionError;
@@ -0,0 +1,173 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import {
+  LedgerPermissionDeniedError,
+  TrashedTransactionNotFoundError,
+  UnexpectedPurgeTransactionError,
+} from './purge-transaction.errors';
+import { PurgeTransactionUseCase } from './purge-transaction.service';
+
+describe('PurgeTransactionUseCase（ゴミ箱の取引の完全削除）', () => {
+  const fixedCreatedAt = new Date('2026-01-01T00:00:00.000Z');
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 1,
+    userId: 100,
+    ledgerId: 10,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2026-01-01',
+    categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
+    memo: 'メモ',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedCreatedAt,
+    ...override,
+  });
+
+  const makeAttachmentRecord = (
+    override?: Partial<TransactionAttachmentRecord>,
+  ): TransactionAttachmentRecord => ({
+    id: 1,
+    transactionId: 1,
+    userId: 100,
+    fileName: 'receipt.png',
+    contentType: 'image/png',
+    size: 1024,
+    storageKey: 'users/100/receipt.png',
+    createdAt: fixedCreatedAt,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const setup = (params?: {
+    record?: TransactionRecord | null;
+    attachments?: TransactionAttachmentRecord[];
+    ledgerAccessService?: ILedgerAccessService;
+  }) => {
+    const transactionRepo = {
+      findTrashedById: vi.fn(async () =>
+        params?.record === undefined ? makeTransactionRecord() : params.record,
+      ),
+      purge: vi.fn(async () => undefined),
+    };
+    const attachmentRepo: ITransactionAttachmentRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByTransactionId: vi.fn(async () => params?.attachments ?? []),
+      findStorageKeysByUserId: vi.fn(),
+      delete: vi.fn(),
+    };
+    const storage: IAttachmentStorage = {
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(async () => undefined),
+    };
+    const ledgerAccessService =
+      params?.ledgerAccessService ?? createLedgerAccessServiceMock();
+
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(
+        transactionRepo as Partial<ITransactionRepository> as ITransactionRepository,
+      );
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(attachmentRepo);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(storage);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(ledgerAccessService);
+    container.bind(PurgeTransactionUseCase).toSelf();
+
+    const useCase = container.get(PurgeTransactionUseCase);
+
+    return { useCase, transactionRepo, storage };
+  };
+
+  describe('正常系', () => {
+    it('添付ファイルを削除してから取引を物理削除する', async () => {
+      const { useCase, transactionRepo, storage } = setup({
+        attachments: [
+          makeAttachmentRecord({ id: 1, storageKey: 'users/100/a.png' }),
+          makeAttachmentRecord({ id: 2, storageKey: 'users/100/b.png' }),
+        ],
+      });
+
+      const output = await useCase.execute({ userId: 100, id: 1 });
+
+      expect(transactionRepo.findTrashedById).toHaveBeenCalledWith(1);
+      expect(storage.delete).toHaveBeenCalledWith('users/100/a.png');
+      expect(storage.delete).toHaveBeenCalledWith('users/100/b.png');
+      expect(transactionRepo.purge).toHaveBeenCalledWith(1);
+      expect(
+        vi.mocked(storage.delete).mock.invocationCallOrder[1],
+      ).toBeLessThan(transactionRepo.purge.mock.invocationCallOrder[0]);
+      expect(output).toEqual({ purged: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('ゴミ箱に取引が見つからない場合は例外になる', async () => {
+      const { useCase, transactionRepo } = setup({ record: null });
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(TrashedTransactionNotFoundError);
+      expect(transactionRepo.purge).not.toHaveBeenCalled();
+    });
+
+    it('帳簿の閲覧者は完全削除できない', async () => {
+      const { useCase, transactionRepo, storage } = setup({
+        attachments: [makeAttachmentRecord()],
+        ledgerAccessService: createLedgerAccessServiceMock(LedgerRole.viewer()),
+      });
+
+      await expect(
+        useCase.execute({ userId: 300, id: 1 }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(storage.delete).not.toHaveBeenCalled();
+      expect(transactionRepo.purge).not.toHaveBeenCalled();
+    });
+
+    it('添付ファイルの削除に失敗した場合は取引を物理削除しない', async () => {
+      const { useCase, transactionRepo, storage } = setup({
+        attachments: [makeAttachmentRecord()],
+      });
+      vi.mocked(storage.delete).mockRejectedValueOnce(
+        new Error('storage down'),
+      );
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedPurgeTransactionError);
+      expect(transactionRepo.purge).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,195 @@
+// Application Layer: Purge Transaction Use Case
+// ゴミ箱の取引の物理削除（完全削除）を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import {
+  LedgerPermissionDeniedError,
+  type PurgeTransactionError,
+  TrashedTransactionNotFoundError,
+  UnexpectedPurgeTransactionError,
+} from './purge-transaction.errors';
+
+export type PurgeTransactionInput = {
+  userId: number;
+  id: number;
+};
+
+export type PurgeTransactionOutput = {
+  purged: true;
+};
+
+@injectable()
+export class PurgeTransactionUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  async execute(input: PurgeTransactionInput): Promise<PurgeTransactionOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: PurgeTransactionInput,
+  ): Effect.Effect<PurgeTransactionOutput, PurgeTransactionError> {
+    return pipe(
+      this.fetchTrashedTransaction(input),
+      Effect.flatMap((record) =>
+        this.authorizeLedger(input.userId, record.ledgerId),
+      ),
+      Effect.flatMap(() => this.deleteAttachmentFiles(input.id)),
+      Effect.flatMap(() => this.purgeTransaction(input.id)),
+    );
+  }
+
+  private fetchTrashedTransaction(
+    input: PurgeTransactionInput,
+  ): Effect.Effect<TransactionRecord, PurgeTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findTrashedById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TrashedTransactionNotFoundError(input.id))
+          : Effect.succeed(record),
+      ),
+    );
+  }
+
+  /**
+   * 取引が登録されている帳簿の編集権限（オーナー/編集者）があることを検証する
+   */
+  private authorizeLedger(
+    userId: number,
+    ledgerId: number,
+  ): Effect.Effect<LedgerAccess, PurgeTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.ledgerAccessService.findAccess({ userId, ledgerId }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+    );
+  }
+
+  /**
+   * 添付ファイル本体を削除する
+   * NOTE: 先にDBを消すと保存先キーが分からなくなるため、取引の物理削除より前に行う
+   */
+  private deleteAttachmentFiles(
+    transactionId: number,
+  ): Effect.Effect<void, PurgeTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionAttachmentRepository.findByTransactionId(
+            transactionId,
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '添付ファイル一覧の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((attachments) =>
+        Effect.tryPromise({
+          try: () =>
+            Promise.all(
+              attachments.map((attachment) =>
+                this.attachmentStorage.delete(attachment.storageKey),
+              ),
+            ),
+          catch: (cause) =>
+            this.createUnexpectedError(
+              '添付ファイルの削除に失敗しました',
+              cause,
+            ),
+        }),
+      ),
+      Effect.asVoid,
+    );
+  }
+
+  private purgeTransaction(
+    id: number,
+  ): Effect.Effect<PurgeTransactionOutput, PurgeTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.purge(id),
+        catch: (cause) =>
+          this.createUnexpectedError('取引の完全削除に失敗しました', cause),
+      }),
+      Effect.map(() => ({ purged: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedPurgeTransactionError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedPurgeTransactionError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<PurgeTransactionOutput, PurgeTransactionError>,
+  ): PurgeTransactionOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedPurgeTransactionError({
+                message: '取引の完全削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedPurgeTrashedTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedPurgeTrashedTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedPurgeTrashedTransactionsErrorParams) {
+    super(params.message, 'UnexpectedPurgeTrashedTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type PurgeTrashedTransactionsError =
+  UnexpectedPurgeTrashedTransactionsError;
@@ -0,0 +1,137 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionAttachmentRecord } from '../../domain/entities/transaction-attachment.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { TOKENS } from '../di/tokens';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import { UnexpectedPurgeTrashedTransactionsError } from './purge-trashed-transactions.errors';
+import { PurgeTrashedTransactionsUseCase } from './purge-trashed-transactions.service';
+
+describe('PurgeTrashedTransactionsUseCase（保持期間を過ぎたゴミ箱の取引の物理削除）', () => {
+  const now = new Date('2026-03-01T00:00:00.000Z');
+
+  const makeAttachmentRecord = (
+    transactionId: number,
+    storageKey: string,
+  ): TransactionAttachmentRecord => ({
+    id: 1,
+    transactionId,
+    userId: 100,
+    fileName: 'receipt.png',
+    contentType: 'image/png',
+    size: 1024,
+    storageKey,
+    createdAt: now,
+  });
+
+  const setup = (params?: {
+    transactionIds?: number[];
+    storageKeys?: Record<number, string[]>;
+  }) => {
+    const transactionRepo = {
+      findIdsDeletedBefore: vi.fn(async () => params?.transactionIds ?? [1, 2]),
+      purge: vi.fn(async () => undefined),
+    };
+    const attachmentRepo: ITransactionAttachmentRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByTransactionId: vi.fn(async (transactionId: number) =>
+        (params?.storageKeys?.[transactionId] ?? []).map((key) =>
+          makeAttachmentRecord(transactionId, key),
+        ),
+      ),
+      findStorageKeysByUserId: vi.fn(),
+      delete: vi.fn(),
+    };
+    const storage: IAttachmentStorage = {
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(
+        transactionRepo as Partial<ITransactionRepository> as ITransactionRepository,
+      );
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(attachmentRepo);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(storage);
+    container.bind(PurgeTrashedTransactionsUseCase).toSelf();
+
+    const useCase = container.get(PurgeTrashedTransactionsUseCase);
+
+    return { useCase, transactionRepo, storage };
+  };
+
+  describe('正常系', () => {
+    it('保持期間を過ぎた取引の添付ファイルを削除してから物理削除する', async () => {
+      const { useCase, transactionRepo, storage } = setup({
+        storageKeys: { 1: ['users/100/a.png'] },
+      });
+
+      const result = await useCase.execute({ retentionDays: 30, now });
+
+      expect(transactionRepo.findIdsDeletedBefore).toHaveBeenCalledWith(
+        new Date('2026-01-30T00:00:00.000Z'),
+      );
+      expect(storage.delete).toHaveBeenCalledWith('users/100/a.png');
+      expect(transactionRepo.purge).toHaveBeenCalledWith(1);
+      expect(transactionRepo.purge).toHaveBeenCalledWith(2);
+      expect(
+        vi.mocked(storage.delete).mock.invocationCallOrder[0],
+      ).toBeLessThan(transactionRepo.purge.mock.invocationCallOrder[0]);
+      expect(result).toEqual({ purgedTransactionIds: [1, 2], failed: [] });
+    });
+
+    it('保持日数に応じて削除対象の基準日時が変わる', async () => {
+      const { useCase, transactionRepo } = setup({ transactionIds: [] });
+
+      const result = await useCase.execute({ retentionDays: 7, now });
+
+      expect(transactionRepo.findIdsDeletedBefore).toHaveBeenCalledWith(
+        new Date('2026-02-22T00:00:00.000Z'),
+      );
+      expect(result).toEqual({ purgedTransactionIds: [], failed: [] });
+    });
+
+    it('添付ファイルの削除に失敗した取引は物理削除せず、他の取引の削除は続ける', async () => {
+      const { useCase, transactionRepo, storage } = setup({
+        storageKeys: { 1: ['users/100/a.png'] },
+      });
+      vi.mocked(storage.delete).mockRejectedValueOnce(
+        new Error('storage down'),
+      );
+
+      const result = await useCase.execute({ retentionDays: 30, now });
+
+      expect(transactionRepo.purge).not.toHaveBeenCalledWith(1);
+      expect(transactionRepo.purge).toHaveBeenCalledWith(2);
+      expect(result).toEqual({
+        purgedTransactionIds: [2],
+        failed: [{ transactionId: 1, message: 'storage down' }],
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('削除対象の取得に失敗した場合は UnexpectedPurgeTrashedTransactionsError になる', async () => {
+      const { useCase, transactionRepo } = setup();
+      transactionRepo.findIdsDeletedBefore.mockRejectedValue(
+        new Error('db down'),
+      );
+
+      await expect(
+        useCase.execute({ retentionDays: 30, now }),
+      ).rejects.toBeInstanceOf(UnexpectedPurgeTrashedTransactionsError);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// Application Layer: Purge Trashed Transactions Use Case
+// ゴミ箱の保持期間を過ぎた取引を、添付ファイルごと物理削除する（ジョブから利用）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import {
+  type PurgeTrashedTransactionsError,
+  UnexpectedPurgeTrashedTransactionsError,
+} from './purge-trashed-transactions.errors';
+
+const MS_PER_DAY = 86_400_000;
+
+export type PurgeTrashedTransactionsInput = {
+  retentionDays: number; // 削除した取引をゴミ箱に残しておく日数
+  now?: Date; // 未指定時は実行日時
+};
+
+export type FailedTransactionPurgeOutput = {
+  transactionId: number;
+  message: string;
+};
+
+export type PurgeTrashedTransactionsOutput = {
+  purgedTransactionIds: number[];
+  failed: FailedTransactionPurgeOutput[];
+};
+
+type PurgeResult =
+  | { status: 'purged'; transactionId: number }
+  | ({ status: 'failed' } & FailedTransactionPurgeOutput);
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+@injectable()
+export class PurgeTrashedTransactionsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  async execute(
+    input: PurgeTrashedTransactionsInput,
+  ): Promise<PurgeTrashedTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: PurgeTrashedTransactionsInput,
+  ): Effect.Effect<
+    PurgeTrashedTransactionsOutput,
+    PurgeTrashedTransactionsError
+  > {
+    const now = input.now ?? new Date();
+    const cutoff = new Date(now.getTime() - input.retentionDays * MS_PER_DAY);
+
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findIdsDeletedBefore(cutoff),
+        catch: (cause) =>
+          this.createUnexpectedError('ゴミ箱の取引の取得に失敗しました', cause),
+      }),
+      // NOTE: 1件の失敗で他の取引の削除を止めないよう、取引ごとに結果を集計する
+      Effect.flatMap((transactionIds) =>
+        Effect.forEach(transactionIds, (transactionId) =>
+          this.purgeTransaction(transactionId),
+        ),
+      ),
+      Effect.map((results) => this.summarize(results)),
+    );
+  }
+
+  /**
+   * 添付ファイル本体を削除してから取引を物理削除する
+   * NOTE: 先にDBを消すと保存先キーが分からなくなるため、ファイル削除に失敗した場合はDBを残して次回に再試行させる
+   */
+  private purgeTransaction(transactionId: number): Effect.Effect<PurgeResult> {
+    return pipe(
+      Effect.tryPromise(() =>
+        this.transactionAttachmentRepository.findByTransactionId(transactionId),
+      ),
+      Effect.flatMap((attachments) =>
+        Effect.tryPromise(() =>
+          Promise.all(
+            attachments.map((attachment) =>
+              this.attachmentStorage.delete(attachment.storageKey),
+            ),
+          ),
+        ),
+      ),
+      Effect.flatMap(() =>
+        Effect.tryPromise(() =>
+          this.transactionRepository.purge(transactionId),
+        ),
+      ),
+      Effect.map((): PurgeResult => ({ status: 'purged', transactionId })),
+      Effect.catchAll((error) =>
+        Effect.succeed<PurgeResult>({
+          status: 'failed',
+          transactionId,
+          message: toErrorMessage(error.error),
+        }),
+      ),
+    );
+  }
+
+  private summarize(results: PurgeResult[]): PurgeTrashedTransactionsOutput {
+    return {
+      purgedTransactionIds: results.flatMap((result) =>
+        result.status === 'purged' ? [result.transactionId] : [],
+      ),
+      failed: results.flatMap((result) =>
+        result.status === 'failed'
+          ? [{ transactionId: result.transactionId, message: result.message }]
+          : [],
+      ),
+    };
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedPurgeTrashedTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedPurgeTrashedTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<
+      PurgeTrashedTransactionsOutput,
+      PurgeTrashedTransactionsError
+    >,
+  ): PurgeTrashedTransactionsOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedPurgeTrashedTransactionsError({
+                message: 'ゴミ箱の取引の削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export class TrashedTransactionNotFoundError extends DomainError {
+  constructor(id: number) {
+    super(
+      `ゴミ箱に取引が見つかりません: ${id}`,
+      'TrashedTransactionNotFoundError',
+    );
+  }
+}
+
+type UnexpectedRestoreTransactionErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRestoreTransactionError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRestoreTransactionErrorParams) {
+    super(params.message, 'UnexpectedRestoreTransactionError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RestoreTransactionError =
+  | TrashedTransactionNotFoundError
+  | LedgerPermissionDeniedError
+  | UnexpectedRestoreTransactionError;
@@ -0,0 +1,141 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import {
+  LedgerPermissionDeniedError,
+  TrashedTransactionNotFoundError,
+  UnexpectedRestoreTransactionError,
+} from './restore-transaction.errors';
+import { RestoreTransactionUseCase } from './restore-transaction.service';
+
+describe('RestoreTransactionUseCase（ゴミ箱の取引の復元）', () => {
+  const fixedCreatedAt = new Date('2026-01-01T00:00:00.000Z');
+
+  const makeTransactionRecord = (
+    override?: Partial<TransactionRecord>,
+  ): TransactionRecord => ({
+    id: 1,
+    userId: 100,
+    ledgerId: 10,
+    type: 'EXPENSE',
+    title: 'ランチ',
+    amount: 1000,
+    currency: 'JPY',
+    date: '2026-01-01',
+    categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
+    memo: 'メモ',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedCreatedAt,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(RestoreTransactionUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('帳簿の編集権限がある場合はゴミ箱の取引を復元できる', async () => {
+      const mockTransactionRepo = {
+        findTrashedById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        restore: vi.fn().mockResolvedValue(undefined),
+      };
+      const mockLedgerAccessService = createLedgerAccessServiceMock(
+        LedgerRole.editor(),
+      );
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockLedgerAccessService,
+      );
+      const useCase = container.get(RestoreTransactionUseCase);
+
+      const output = await useCase.execute({ userId: 200, id: 1 });
+
+      expect(mockTransactionRepo.findTrashedById).toHaveBeenCalledWith(1);
+      expect(mockLedgerAccessService.findAccess).toHaveBeenCalledWith({
+        userId: 200,
+        ledgerId: 10,
+      });
+      expect(mockTransactionRepo.restore).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        { changedBy: 200 },
+      );
+      expect(output).toEqual({ restored: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('ゴミ箱に取引が見つからない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findTrashedById: vi.fn().mockResolvedValue(null),
+        restore: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo);
+      const useCase = container.get(RestoreTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 999 }),
+      ).rejects.toBeInstanceOf(TrashedTransactionNotFoundError);
+      expect(mockTransactionRepo.restore).not.toHaveBeenCalled();
+    });
+
+    it('帳簿の閲覧者は復元できない', async () => {
+      const mockTransactionRepo = {
+        findTrashedById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        restore: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      );
+      const useCase = container.get(RestoreTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 300, id: 1 }),
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
+      expect(mockTransactionRepo.restore).not.toHaveBeenCalled();
+    });
+
+    it('復元に失敗した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findTrashedById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        restore: vi.fn().mockRejectedValue(new Error('db down')),
+      };
+
+      const container = createMockContainer(mockTransactionRepo);
+      const useCase = container.get(RestoreTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1 }),
+      ).rejects.toBeInstanceOf(UnexpectedRestoreTransactionError);
+    });
+  });
+});
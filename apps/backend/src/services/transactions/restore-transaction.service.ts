@@ -0,0 +1,191 @@
+// Application Layer: Restore Transaction Use Case
+// ゴミ箱の取引（削除済みの取引）の復元を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import { Transaction } from '../../domain/entities/transaction.entity';
+import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  LedgerPermissionDeniedError,
+  type RestoreTransactionError,
+  TrashedTransactionNotFoundError,
+  UnexpectedRestoreTransactionError,
+} from './restore-transaction.errors';
+
+export type RestoreTransactionInput = {
+  userId: number;
+  id: number;
+};
+
+export type RestoreTransactionOutput = {
+  restored: true;
+};
+
+@injectable()
+export class RestoreTransactionUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  async execute(
+    input: RestoreTransactionInput,
+  ): Promise<RestoreTransactionOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: RestoreTransactionInput,
+  ): Effect.Effect<RestoreTransactionOutput, RestoreTransactionError> {
+    return pipe(
+      this.fetchTrashedTransaction(input),
+      Effect.flatMap((value) => this.authorizeLedger(value)),
+      Effect.flatMap((value) => this.restoreTransaction(value)),
+    );
+  }
+
+  private fetchTrashedTransaction(
+    input: RestoreTransactionInput,
+  ): Effect.Effect<
+    RestoreTransactionInput & { current: TransactionRecord },
+    RestoreTransactionError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.transactionRepository.findTrashedById(input.id),
+        catch: (cause) =>
+          this.createUnexpectedError('取引情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new TrashedTransactionNotFoundError(input.id))
+          : Effect.succeed({ ...input, current: record }),
+      ),
+    );
+  }
+
+  /**
+   * 取引が登録されている帳簿の編集権限（オーナー/編集者）があることを検証する
+   */
+  private authorizeLedger(
+    value: RestoreTransactionInput & { current: TransactionRecord },
+  ): Effect.Effect<
+    RestoreTransactionInput & { current: TransactionRecord },
+    RestoreTransactionError
+  > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: value.userId,
+            ledgerId: value.current.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private restoreTransaction(
+    value: RestoreTransactionInput & { current: TransactionRecord },
+  ): Effect.Effect<RestoreTransactionOutput, RestoreTransactionError> {
+    return pipe(
+      Effect.try({
+        try: () => {
+          const money = Money.ofWithCurrency(
+            value.current.amount,
+            value.current.currency,
+          );
+          const date = TransactionDate.fromString(value.current.date);
+          const transaction = Transaction.reconstruct(
+            value.current.id,
+            value.current.userId,
+            value.current.type,
+            value.current.title,
+            money,
+            date,
+            value.current.categoryId,
+            value.current.memo,
+            value.current.createdAt,
+            value.current.updatedAt,
+          );
+          transaction.restore();
+          return transaction;
+        },
+        catch: (cause) =>
+          this.createUnexpectedError('取引の復元に失敗しました', cause),
+      }),
+      Effect.flatMap((transaction) =>
+        Effect.tryPromise({
+          try: () =>
+            this.transactionRepository.restore(transaction, {
+              changedBy: value.userId,
+            }),
+          catch: (cause) =>
+            this.createUnexpectedError('取引の復元に失敗しました', cause),
+        }),
+      ),
+      Effect.map(() => ({ restored: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedRestoreTransactionError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedRestoreTransactionError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<RestoreTransactionOutput, RestoreTransactionError>,
+  ): RestoreTransactionOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRestoreTransactionError({
+                message: '取引の復元に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
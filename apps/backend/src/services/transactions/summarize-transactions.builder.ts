@@ -0,0 +1,90 @@
+// Application Layer: Summarize Transactions Builder
+// 取引集計ユースケースの出力DTO組み立てを担当する
+
+import type {
+  TransactionCategoryTotalRecord,
+  TransactionTagTotalRecord,
+} from '../../domain/repositories/transaction.repository.interface';
+import type { Money } from '../../domain/values/money';
+import type { TransactionDate } from '../../domain/values/transaction-date';
+
+export type SummarizeTransactionsInput = {
+  userId: number;
+  ledgerId?: number; // 省略時は既定の帳簿（個人用の帳簿）
+  month?: string; // YYYY-MM
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+};
+
+export type SummarizeTransactionsOutput = {
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+  currencyCode: string;
+  totalIncome: number;
+  totalExpense: number;
+  netBalance: number;
+  categories: {
+    categoryId: number;
+    name: string;
+    type: 'INCOME' | 'EXPENSE';
+    amount: number;
+    count: number;
+  }[];
+  tags: {
+    tagId: number;
+    name: string;
+    type: 'INCOME' | 'EXPENSE';
+    amount: number;
+    count: number;
+  }[];
+  unconvertedCount: number;
+};
+
+/**
+ * 収支差額を算出する。
+ * NOTE: Money は負の値を表現できないため、差額は符号付きの number として返す
+ */
+const calcNetBalance = (income: Money, expense: Money): number =>
+  expense.greaterThan(income)
+    ? -expense.subtract(income).amount
+    : income.subtract(expense).amount;
+
+export class SummarizeTransactionsBuilder {
+  build(params: {
+    startDate: TransactionDate;
+    endDate: TransactionDate;
+    totalIncome: Money;
+    totalExpense: Money;
+    categories: TransactionCategoryTotalRecord[];
+    tags: TransactionTagTotalRecord[];
+    unconvertedCount: number;
+  }): SummarizeTransactionsOutput {
+    return {
+      period: {
+        startDate: params.startDate.format(),
+        endDate: params.endDate.format(),
+      },
+      currencyCode: params.totalIncome.currency,
+      totalIncome: params.totalIncome.amount,
+      totalExpense: params.totalExpense.amount,
+      netBalance: calcNetBalance(params.totalIncome, params.totalExpense),
+      categories: params.categories.map((category) => ({
+        categoryId: category.categoryId,
+        name: category.categoryName,
+        type: category.type,
+        amount: category.amount,
+        count: category.count,
+      })),
+      tags: params.tags.map((tag) => ({
+        tagId: tag.tagId,
+        name: tag.tagName,
+        type: tag.type,
+        amount: tag.amount,
+        count: tag.count,
+      })),
+      unconvertedCount: params.unconvertedCount,
+    };
+  }
+}
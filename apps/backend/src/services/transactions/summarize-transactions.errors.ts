@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
+type UnexpectedSummarizeTransactionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class InvalidSummaryPeriodError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidSummaryPeriodError');
+  }
+}
+
+export class UnexpectedSummarizeTransactionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedSummarizeTransactionsErrorParams) {
+    super(params.message, 'UnexpectedSummarizeTransactionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type SummarizeTransactionsError =
+  | InvalidSummaryPeriodError
+  | LedgerPermissionDeniedError
+  | UnexpectedSummarizeTransactionsError;
@@ -0,0 +1,609 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import type {
+  ITransactionRepository,
+  SummarizeTransactionsByCurrencyResult,
+} from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
+import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
+import {
+  InvalidSummaryPeriodError,
+  UnexpectedSummarizeTransactionsError,
+} from './summarize-transactions.errors';
+import { SummarizeTransactionsUseCase } from './summarize-transactions.service';
+
+describe('SummarizeTransactionsUseCase（取引集計）', () => {
+  const USER_ID = 1;
+
+  const makeResult = (
+    override?: Partial<SummarizeTransactionsByCurrencyResult>,
+  ): SummarizeTransactionsByCurrencyResult => ({
+    totals: [
+      {
+        type: 'INCOME',
+        currencyCode: 'JPY',
+        date: '2024-02-25',
+        amount: 300000,
+        count: 1,
+      },
+      {
+        type: 'EXPENSE',
+        currencyCode: 'JPY',
+        date: '2024-02-10',
+        amount: 120000,
+        count: 5,
+      },
+    ],
+    categories: [
+      {
+        categoryId: 1,
+        categoryName: '給与',
+        type: 'INCOME',
+        currencyCode: 'JPY',
+        date: '2024-02-25',
+        amount: 300000,
+        count: 1,
+      },
+      {
+        categoryId: 11,
+        categoryName: '日用品',
+        type: 'EXPENSE',
+        currencyCode: 'JPY',
+        date: '2024-02-10',
+        amount: 40000,
+        count: 1,
+      },
+      {
+        categoryId: 10,
+        categoryName: '食費',
+        type: 'EXPENSE',
+        currencyCode: 'JPY',
+        date: '2024-02-10',
+        amount: 80000,
+        count: 4,
+      },
+    ],
+    tags: [
+      {
+        tagId: 7,
+        tagName: 'trip-okinawa-2026',
+        type: 'EXPENSE',
+        currencyCode: 'JPY',
+        date: '2024-02-10',
+        amount: 60000,
+        count: 2,
+      },
+    ],
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
+  const createMockContainer = (
+    mockTransactionRepo: Partial<ITransactionRepository>,
+    mockCurrencyRepo: Partial<ICurrencyRepository> = {
+      findBaseByUserId: vi.fn().mockResolvedValue(null),
+    },
+    mockExchangeRateRepo: Partial<IExchangeRateRepository> = {
+      findApplicable: vi.fn().mockResolvedValue([]),
+    },
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+  ) => {
+    const container = new Container();
+    container
+      .bind<ITransactionRepository>(TOKENS.TransactionRepository)
+      .toConstantValue(mockTransactionRepo as ITransactionRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container
+      .bind<IExchangeRateRepository>(TOKENS.ExchangeRateRepository)
+      .toConstantValue(mockExchangeRateRepo as IExchangeRateRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container.bind(SummarizeTransactionsUseCase).toSelf();
+    return container;
+  };
+
+  describe('正常系', () => {
+    it('月指定の場合は月初〜月末で集計し、収支差額を算出できる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue(makeResult()),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2024-02',
+      });
+
+      expect(
+        mockTransactionRepo.summarizeByLedgerIdPerCurrency,
+      ).toHaveBeenCalledWith({
+        ledgerId: USER_ID,
+        startDate: '2024-02-01',
+        endDate: '2024-02-29',
+      });
+      expect(output).toEqual({
+        period: { startDate: '2024-02-01', endDate: '2024-02-29' },
+        currencyCode: 'JPY',
+        totalIncome: 300000,
+        totalExpense: 120000,
+        netBalance: 180000,
+        categories: [
+          {
+            categoryId: 10,
+            name: '食費',
+            type: 'EXPENSE',
+            amount: 80000,
+            count: 4,
+          },
+          {
+            categoryId: 11,
+            name: '日用品',
+            type: 'EXPENSE',
+            amount: 40000,
+            count: 1,
+          },
+          {
+            categoryId: 1,
+            name: '給与',
+            type: 'INCOME',
+            amount: 300000,
+            count: 1,
+          },
+        ],
+        tags: [
+          {
+            tagId: 7,
+            name: 'trip-okinawa-2026',
+            type: 'EXPENSE',
+            amount: 60000,
+            count: 2,
+          },
+        ],
+        unconvertedCount: 0,
+      });
+    });
+
+    it('タグごとの合計は基準通貨に換算してタグ単位に合算する', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue(
+          makeResult({
+            totals: [
+              {
+                type: 'EXPENSE',
+                currencyCode: 'JPY',
+                date: '2025-01-03',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-05',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                type: 'EXPENSE',
+                currencyCode: 'EUR',
+                date: '2025-01-05',
+                amount: 10,
+                count: 1,
+              },
+            ],
+            tags: [
+              {
+                tagId: 7,
+                tagName: 'trip-okinawa-2026',
+                type: 'EXPENSE',
+                currencyCode: 'JPY',
+                date: '2025-01-03',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                tagId: 7,
+                tagName: 'trip-okinawa-2026',
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-05',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                tagId: 8,
+                tagName: 'reimbursable',
+                type: 'EXPENSE',
+                currencyCode: 'EUR',
+                date: '2025-01-05',
+                amount: 10,
+                count: 1,
+              },
+            ],
+          }),
+        ),
+      };
+      const mockExchangeRateRepo = {
+        findApplicable: vi.fn().mockResolvedValue([
+          {
+            fromCurrency: 'USD',
+            toCurrency: 'JPY',
+            fromExponent: 2,
+            toExponent: 0,
+            date: '2025-01-01',
+            rate: '150',
+          },
+        ]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        undefined,
+        mockExchangeRateRepo,
+      ).get(SummarizeTransactionsUseCase);
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2025-01',
+      });
+
+      // NOTE: レートがない EUR の取引はタグ別の合計からも除外される
+      expect(output.tags).toEqual([
+        {
+          tagId: 7,
+          name: 'trip-okinawa-2026',
+          type: 'EXPENSE',
+          amount: 1000 + 1500,
+          count: 2,
+        },
+      ]);
+    });
+
+    it('基準通貨以外の取引は取引日以前の直近のレートで換算して合算する', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue(
+          makeResult({
+            totals: [
+              {
+                type: 'EXPENSE',
+                currencyCode: 'JPY',
+                date: '2025-01-03',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-05',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-20',
+                amount: 1000,
+                count: 2,
+              },
+            ],
+            categories: [
+              {
+                categoryId: 10,
+                categoryName: '食費',
+                type: 'EXPENSE',
+                currencyCode: 'JPY',
+                date: '2025-01-03',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                categoryId: 10,
+                categoryName: '食費',
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-05',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                categoryId: 10,
+                categoryName: '食費',
+                type: 'EXPENSE',
+                currencyCode: 'USD',
+                date: '2025-01-20',
+                amount: 1000,
+                count: 2,
+              },
+            ],
+          }),
+        ),
+      };
+      const mockExchangeRateRepo = {
+        findApplicable: vi.fn().mockResolvedValue([
+          {
+            fromCurrency: 'USD',
+            toCurrency: 'JPY',
+            fromExponent: 2,
+            toExponent: 0,
+            date: '2024-12-31',
+            rate: '150.55',
+          },
+          {
+            fromCurrency: 'USD',
+            toCurrency: 'JPY',
+            fromExponent: 2,
+            toExponent: 0,
+            date: '2025-01-15',
+            rate: '160',
+          },
+        ]),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        undefined,
+        mockExchangeRateRepo,
+      ).get(SummarizeTransactionsUseCase);
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2025-01',
+      });
+
+      expect(mockExchangeRateRepo.findApplicable).toHaveBeenCalledWith({
+        fromCurrencies: ['USD'],
+        toCurrency: 'JPY',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+      });
+      // 1000 + round(10.00ドル * 150.55) + 10.00ドル * 160
+      expect(output.totalExpense).toBe(1000 + 1506 + 1600);
+      expect(output.categories).toEqual([
+        {
+          categoryId: 10,
+          name: '食費',
+          type: 'EXPENSE',
+          amount: 4106,
+          count: 4,
+        },
+      ]);
+      expect(output.unconvertedCount).toBe(0);
+    });
+
+    it('レートがない取引は集計から除外し、件数を unconvertedCount で返す', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue({
+          totals: [
+            {
+              type: 'INCOME',
+              currencyCode: 'JPY',
+              date: '2025-01-25',
+              amount: 5000,
+              count: 1,
+            },
+            {
+              type: 'EXPENSE',
+              currencyCode: 'EUR',
+              date: '2025-01-10',
+              amount: 30,
+              count: 3,
+            },
+          ],
+          categories: [],
+          tags: [],
+        }),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2025-01',
+      });
+
+      expect(output.totalIncome).toBe(5000);
+      expect(output.totalExpense).toBe(0);
+      expect(output.unconvertedCount).toBe(3);
+    });
+
+    it('ユーザーの基準通貨が設定されている場合はその通貨で集計する', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue({
+          totals: [
+            {
+              type: 'EXPENSE',
+              currencyCode: 'USD',
+              date: '2025-01-10',
+              amount: 120,
+              count: 2,
+            },
+          ],
+          categories: [],
+          tags: [],
+        }),
+      };
+      const mockCurrencyRepo = {
+        findBaseByUserId: vi.fn().mockResolvedValue({
+          id: 2,
+          code: 'USD',
+          name: '米ドル',
+          symbol: '$',
+          exponent: 2,
+          isActive: true,
+          createdAt: new Date('2025-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        }),
+      };
+
+      const useCase = createMockContainer(
+        mockTransactionRepo,
+        mockCurrencyRepo,
+      ).get(SummarizeTransactionsUseCase);
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2025-01',
+      });
+
+      expect(mockCurrencyRepo.findBaseByUserId).toHaveBeenCalledWith(USER_ID);
+      expect(output.currencyCode).toBe('USD');
+      expect(output.totalExpense).toBe(120);
+    });
+
+    it('支出が収入を上回る場合は収支差額が負の値になる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue(
+          makeResult({
+            totals: [
+              {
+                type: 'INCOME',
+                currencyCode: 'JPY',
+                date: '2025-01-02',
+                amount: 1000,
+                count: 1,
+              },
+              {
+                type: 'EXPENSE',
+                currencyCode: 'JPY',
+                date: '2025-01-03',
+                amount: 5000,
+                count: 2,
+              },
+            ],
+          }),
+        ),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        startDate: '2025-01-01',
+        endDate: '2025-01-15',
+      });
+
+      expect(
+        mockTransactionRepo.summarizeByLedgerIdPerCurrency,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: '2025-01-01',
+          endDate: '2025-01-15',
+        }),
+      );
+      expect(output.netBalance).toBe(-4000);
+    });
+
+    it('取引がない場合は合計0で返す', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi
+          .fn()
+          .mockResolvedValue({ totals: [], categories: [], tags: [] }),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      const output = await useCase.execute({
+        userId: USER_ID,
+        month: '2025-01',
+      });
+
+      expect(output).toMatchObject({
+        totalIncome: 0,
+        totalExpense: 0,
+        netBalance: 0,
+        categories: [],
+        tags: [],
+        unconvertedCount: 0,
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しない月の場合は InvalidSummaryPeriodError になる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: USER_ID, month: '2025-13' }),
+      ).rejects.toBeInstanceOf(InvalidSummaryPeriodError);
+      expect(
+        mockTransactionRepo.summarizeByLedgerIdPerCurrency,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('startDate が endDate より後の場合は InvalidSummaryPeriodError になる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn(),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute({
+          userId: USER_ID,
+          startDate: '2025-02-01',
+          endDate: '2025-01-31',
+        }),
+      ).rejects.toBeInstanceOf(InvalidSummaryPeriodError);
+    });
+
+    it('集計に失敗した場合は UnexpectedSummarizeTransactionsError になる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi
+          .fn()
+          .mockRejectedValue(new Error('boom')),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo).get(
+        SummarizeTransactionsUseCase,
+      );
+
+      await expect(
+        useCase.execute({ userId: USER_ID, month: '2025-01' }),
+      ).rejects.toBeInstanceOf(UnexpectedSummarizeTransactionsError);
+    });
+
+    it('為替レートの取得に失敗した場合は UnexpectedSummarizeTransactionsError になる', async () => {
+      const mockTransactionRepo = {
+        summarizeByLedgerIdPerCurrency: vi.fn().mockResolvedValue(makeResult()),
+      };
+
+      const useCase = createMockContainer(mockTransactionRepo, undefined, {
+        findApplicable: vi.fn().mockRejectedValue(new Error('boom')),
+      }).get(SummarizeTransactionsUseCase);
+
+      await expect(
+        useCase.execute({ userId: USER_ID, month: '2025-01' }),
+      ).rejects.toBeInstanceOf(UnexpectedSummarizeTransactionsError);
+    });
+  });
+});
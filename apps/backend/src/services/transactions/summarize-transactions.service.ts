@@ -0,0 +1,373 @@
+// Application Layer: Summarize Transactions Use Case
+// 月/期間ごとの収支集計（合計・カテゴリ別/タグ別内訳）を担当する
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import { inject, injectable } from 'inversify';
+
+import { Currency } from '../../domain/entities/currency.entity';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { IExchangeRateRepository } from '../../domain/repositories/exchange-rate.repository.interface';
+import type {
+  ITransactionRepository,
+  SummarizeTransactionsByCurrencyResult,
+  TransactionCategoryTotalRecord,
+  TransactionTagTotalRecord,
+  TransactionTypeTotalRecord,
+} from '../../domain/repositories/transaction.repository.interface';
+import { Money } from '../../domain/values/money';
+import { TransactionDate } from '../../domain/values/transaction-date';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import { CurrencyConverter } from '../exchange-rates/currency-converter';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
+import {
+  SummarizeTransactionsBuilder,
+  type SummarizeTransactionsInput,
+  type SummarizeTransactionsOutput,
+} from './summarize-transactions.builder';
+import {
+  InvalidSummaryPeriodError,
+  LedgerPermissionDeniedError,
+  type SummarizeTransactionsError,
+  UnexpectedSummarizeTransactionsError,
+} from './summarize-transactions.errors';
+
+const FIRST_DAY_OF_MONTH_SUFFIX = '-01' as const;
+const NO_TRANSACTIONS = 0 as const;
+
+type SummaryPeriod = {
+  startDate: TransactionDate;
+  endDate: TransactionDate;
+};
+
+type SummaryLoaded = {
+  period: SummaryPeriod;
+  result: SummarizeTransactionsByCurrencyResult;
+};
+
+type ConverterLoaded = SummaryLoaded & {
+  converter: CurrencyConverter;
+};
+
+type CurrencyAmountRecord = {
+  amount: number;
+  currencyCode: string;
+  date: string;
+  count: number;
+};
+
+type ConvertedRecord<T extends CurrencyAmountRecord> = {
+  record: T;
+  converted: Money | null;
+};
+
+const convertRecords = <T extends CurrencyAmountRecord>(
+  records: T[],
+  converter: CurrencyConverter,
+): ConvertedRecord<T>[] =>
+  records.map((record) => ({
+    record,
+    converted: converter.convert(
+      Money.ofWithCurrency(record.amount, record.currencyCode),
+      record.date,
+    ),
+  }));
+
+const isConverted = <T extends CurrencyAmountRecord>(
+  value: ConvertedRecord<T>,
+): value is { record: T; converted: Money } => value.converted !== null;
+
+const sumByType = (
+  totals: ConvertedRecord<TransactionTypeTotalRecord & CurrencyAmountRecord>[],
+  type: 'INCOME' | 'EXPENSE',
+  baseCurrency: string,
+): Money =>
+  totals
+    .filter(isConverted)
+    .filter((total) => total.record.type === type)
+    .reduce(
+      (sum, total) => sum.add(total.converted),
+      Money.ofWithCurrency(0, baseCurrency),
+    );
+
+/**
+ * 換算できなかった（基準通貨へのレートがない）取引の件数を数える
+ */
+const countUnconverted = (
+  totals: ConvertedRecord<TransactionTypeTotalRecord & CurrencyAmountRecord>[],
+): number =>
+  totals
+    .filter((total) => total.converted === null)
+    .reduce<number>((sum, total) => sum + total.record.count, NO_TRANSACTIONS);
+
+/**
+ * 通貨/取引日ごとの内訳を基準通貨に換算してカテゴリ単位に合算する（種別昇順・金額降順）
+ */
+const sumByCategory = (
+  categories: ConvertedRecord<
+    TransactionCategoryTotalRecord & CurrencyAmountRecord
+  >[],
+): TransactionCategoryTotalRecord[] =>
+  Array.from(
+    categories
+      .filter(isConverted)
+      .reduce((map, { record, converted }) => {
+        const key = `${record.type}:${record.categoryId}`;
+        const current = map.get(key);
+        map.set(key, {
+          categoryId: record.categoryId,
+          categoryName: record.categoryName,
+          type: record.type,
+          amount: (current?.amount ?? NO_TRANSACTIONS) + converted.amount,
+          count: (current?.count ?? NO_TRANSACTIONS) + record.count,
+        });
+        return map;
+      }, new Map<string, TransactionCategoryTotalRecord>())
+      .values(),
+  ).sort((a, b) => a.type.localeCompare(b.type) || b.amount - a.amount);
+
+/**
+ * 通貨/取引日ごとの内訳を基準通貨に換算してタグ単位に合算する（種別昇順・金額降順）
+ */
+const sumByTag = (
+  tags: ConvertedRecord<TransactionTagTotalRecord & CurrencyAmountRecord>[],
+): TransactionTagTotalRecord[] =>
+  Array.from(
+    tags
+      .filter(isConverted)
+      .reduce((map, { record, converted }) => {
+        const key = `${record.type}:${record.tagId}`;
+        const current = map.get(key);
+        map.set(key, {
+          tagId: record.tagId,
+          tagName: record.tagName,
+          type: record.type,
+          amount: (current?.amount ?? NO_TRANSACTIONS) + converted.amount,
+          count: (current?.count ?? NO_TRANSACTIONS) + record.count,
+        });
+        return map;
+      }, new Map<string, TransactionTagTotalRecord>())
+      .values(),
+  ).sort((a, b) => a.type.localeCompare(b.type) || b.amount - a.amount);
+
+@injectable()
+export class SummarizeTransactionsUseCase {
+  @inject(TOKENS.TransactionRepository)
+  private transactionRepository!: ITransactionRepository;
+
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  @inject(TOKENS.ExchangeRateRepository)
+  private exchangeRateRepository!: IExchangeRateRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
+  private readonly builder = new SummarizeTransactionsBuilder();
+
+  async execute(
+    input: SummarizeTransactionsInput,
+  ): Promise<SummarizeTransactionsOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: SummarizeTransactionsInput,
+  ): Effect.Effect<SummarizeTransactionsOutput, SummarizeTransactionsError> {
+    return pipe(
+      this.resolvePeriod(input),
+      Effect.flatMap((period) =>
+        pipe(
+          this.authorizeLedger(input),
+          Effect.flatMap((ledgerId) => this.fetchSummary(ledgerId, period)),
+        ),
+      ),
+      Effect.flatMap((value) => this.loadConverter(input.userId, value)),
+      Effect.map(({ period, result, converter }) => {
+        const totals = convertRecords(result.totals, converter);
+
+        return this.builder.build({
+          startDate: period.startDate,
+          endDate: period.endDate,
+          totalIncome: sumByType(totals, 'INCOME', converter.baseCurrency),
+          totalExpense: sumByType(totals, 'EXPENSE', converter.baseCurrency),
+          categories: sumByCategory(
+            convertRecords(result.categories, converter),
+          ),
+          tags: sumByTag(convertRecords(result.tags, converter)),
+          unconvertedCount: countUnconverted(totals),
+        });
+      }),
+    );
+  }
+
+  private resolvePeriod(
+    input: SummarizeTransactionsInput,
+  ): Effect.Effect<SummaryPeriod, SummarizeTransactionsError> {
+    return input.month !== undefined
+      ? this.resolveMonthPeriod(input.month)
+      : this.resolveRangePeriod(input.startDate ?? '', input.endDate ?? '');
+  }
+
+  private resolveMonthPeriod(
+    month: string,
+  ): Effect.Effect<SummaryPeriod, SummarizeTransactionsError> {
+    return pipe(
+      Effect.try({
+        try: () =>
+          TransactionDate.fromString(`${month}${FIRST_DAY_OF_MONTH_SUFFIX}`),
+        catch: () =>
+          new InvalidSummaryPeriodError(`不正な月の指定です: ${month}`),
+      }),
+      Effect.map((date) => ({
+        startDate: date.startOfMonth(),
+        endDate: date.endOfMonth(),
+      })),
+    );
+  }
+
+  private resolveRangePeriod(
+    startDate: string,
+    endDate: string,
+  ): Effect.Effect<SummaryPeriod, SummarizeTransactionsError> {
+    return pipe(
+      Effect.try({
+        try: () => ({
+          startDate: TransactionDate.fromString(startDate),
+          endDate: TransactionDate.fromString(endDate),
+        }),
+        catch: () =>
+          new InvalidSummaryPeriodError(
+            `不正な期間の指定です: ${startDate}〜${endDate}`,
+          ),
+      }),
+      Effect.filterOrFail(
+        (period) => !period.startDate.isAfter(period.endDate),
+        () =>
+          new InvalidSummaryPeriodError(
+            'startDate は endDate より後にできません',
+          ),
+      ),
+    );
+  }
+
+  /**
+   * 帳簿の閲覧権限があることを検証し、対象の帳簿IDを返す
+   */
+  private authorizeLedger(
+    input: SummarizeTransactionsInput,
+  ): Effect.Effect<number, SummarizeTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: input.userId,
+            ledgerId: input.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('read') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(({ ledgerId }) => ledgerId),
+    );
+  }
+
+  private fetchSummary(
+    ledgerId: number,
+    period: SummaryPeriod,
+  ): Effect.Effect<SummaryLoaded, SummarizeTransactionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.transactionRepository.summarizeByLedgerIdPerCurrency({
+            ledgerId,
+            startDate: period.startDate.format(),
+            endDate: period.endDate.format(),
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('取引の集計に失敗しました', cause),
+      }),
+      Effect.map((result) => ({ period, result })),
+    );
+  }
+
+  private loadConverter(
+    userId: number,
+    value: SummaryLoaded,
+  ): Effect.Effect<ConverterLoaded, SummarizeTransactionsError> {
+    const currencyCodes = Array.from(
+      new Set(value.result.totals.map((total) => total.currencyCode)),
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.currencyRepository.findBaseByUserId(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('基準通貨の取得に失敗しました', cause),
+      }),
+      Effect.map((currency) => currency?.code ?? Currency.DEFAULT_CODE),
+      Effect.flatMap((baseCurrency) =>
+        pipe(
+          Effect.tryPromise({
+            try: () =>
+              this.exchangeRateRepository.findApplicable({
+                fromCurrencies: currencyCodes.filter(
+                  (code) => code !== baseCurrency,
+                ),
+                toCurrency: baseCurrency,
+                startDate: value.period.startDate.format(),
+                endDate: value.period.endDate.format(),
+              }),
+            catch: (cause) =>
+              this.createUnexpectedError(
+                '為替レートの取得に失敗しました',
+                cause,
+              ),
+          }),
+          Effect.map((rates) => ({
+            ...value,
+            converter: new CurrencyConverter(baseCurrency, rates),
+          })),
+        ),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedSummarizeTransactionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedSummarizeTransactionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<SummarizeTransactionsOutput, SummarizeTransactionsError>,
+  ): SummarizeTransactionsOutput {
+    if (Exit.isSuccess(exit)) {
+      return exit.value;
+    }
+
+    const error = Cause.squash(exit.cause);
+    throw error instanceof Error ? error : new Error(String(error));
+  }
+}
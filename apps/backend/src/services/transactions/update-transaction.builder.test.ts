@@ -13,12 +13,15 @@ describe('UpdateTransactionBuilder（取引更新DTO組み立て）', () => {
   ): TransactionRecord => ({
     id: 1,
     userId: 100,
+    ledgerId: 100,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currency: 'JPY',
     date: '2026-01-01',
     categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
     memo: 'メモ',
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
@@ -32,6 +35,7 @@ describe('UpdateTransactionBuilder（取引更新DTO組み立て）', () => {
     name: '食費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
     ...override,
@@ -53,12 +57,18 @@ describe('UpdateTransactionBuilder（取引更新DTO組み立て）', () => {
       record,
       categoryIds: [11, 10],
       categories,
+      splits: [
+        { categoryId: 11, amount: 400 },
+        { categoryId: 10, amount: 600 },
+      ],
+      tagIds: [3, 1],
     });
 
     expect(output).toEqual({
       transaction: {
         id: 1,
         userId: 100,
+        ledgerId: 100,
         type: 'EXPENSE',
         title: 'ランチ',
         amount: 1000,
@@ -68,6 +78,13 @@ describe('UpdateTransactionBuilder（取引更新DTO組み立て）', () => {
           { id: 11, name: '日用品', type: 'EXPENSE', isDefault: false },
           { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
         ],
+        splits: [
+          { categoryId: 11, amount: 400 },
+          { categoryId: 10, amount: 600 },
+        ],
+        tagIds: [3, 1],
+        accountId: null,
+        transferAccountId: null,
         memo: '内容',
         createdAt: fixedCreatedAt.toISOString(),
         updatedAt: fixedUpdatedAt.toISOString(),
@@ -82,6 +99,8 @@ describe('UpdateTransactionBuilder（取引更新DTO組み立て）', () => {
       record: makeTransactionRecord({ memo: '' }),
       categoryIds: [10],
       categories: [makeCategoryRecord({ id: 10 })],
+      splits: [{ categoryId: 10, amount: 1000 }],
+      tagIds: [],
     });
 
     expect(output.transaction.memo).toBeNull();
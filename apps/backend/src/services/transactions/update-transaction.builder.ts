@@ -2,13 +2,17 @@
 // 取引更新ユースケースの出力DTO組み立てを担当する
 
 import type { CategoryRecord } from '../../domain/entities/category.entity';
-import type { TransactionRecord } from '../../domain/entities/transaction.entity';
+import type {
+  TransactionRecord,
+  TransactionSplitRecord,
+} from '../../domain/entities/transaction.entity';
 
 export type UpdateTransactionBuilderOutput = {
   transaction: {
     id: number;
+    ledgerId: number;
     userId: number;
-    type: 'INCOME' | 'EXPENSE';
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
     title: string;
     amount: number;
     currencyCode: string;
@@ -16,9 +20,13 @@ export type UpdateTransactionBuilderOutput = {
     categories: {
       id: number;
       name: string;
-      type: 'INCOME' | 'EXPENSE';
+      type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
       isDefault: boolean;
     }[];
+    splits: TransactionSplitRecord[];
+    tagIds: number[];
+    accountId: number | null;
+    transferAccountId: number | null;
     memo: string | null;
     createdAt: string;
     updatedAt: string;
@@ -32,6 +40,8 @@ export class UpdateTransactionBuilder {
     record: TransactionRecord;
     categoryIds: number[];
     categories: CategoryRecord[];
+    splits: TransactionSplitRecord[];
+    tagIds: number[];
   }): UpdateTransactionBuilderOutput {
     const categoriesById = new Map(
       params.categories.map((c) => [c.id, c] as const),
@@ -40,6 +50,7 @@ export class UpdateTransactionBuilder {
     return {
       transaction: {
         id: params.record.id,
+        ledgerId: params.record.ledgerId,
         userId: params.record.userId,
         type: params.record.type,
         title: params.record.title,
@@ -55,6 +66,10 @@ export class UpdateTransactionBuilder {
             type: c.type,
             isDefault: c.isDefault,
           })),
+        splits: params.splits,
+        tagIds: params.tagIds,
+        accountId: params.record.accountId,
+        transferAccountId: params.record.transferAccountId,
         memo: params.record.memo.length === 0 ? null : params.record.memo,
         createdAt: toIsoString(params.record.createdAt),
         updatedAt: toIsoString(params.record.updatedAt),
@@ -1,27 +1,31 @@
 import { DomainError } from '../../domain/values/domain-error';
+import type { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
 import type {
+  AccountCurrencyMismatchError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
   TransactionTitleTooLongError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from './create-transaction.errors';
 
+export { LedgerPermissionDeniedError } from '../ledgers/ledger-access.errors';
+
 export class TransactionNotFoundError extends DomainError {
   constructor(id: number) {
     super(`取引が見つかりません: ${id}`, 'TransactionNotFoundError');
   }
 }
 
-export class NotOwnerError extends DomainError {
-  constructor() {
-    super('取引の所有者ではありません', 'NotOwnerError');
-  }
-}
-
 export class CategoriesNotFoundError extends DomainError {
   constructor(categoryIds: number[]) {
     super(
@@ -40,6 +44,12 @@ export class InvalidCategoryIdsError extends DomainError {
   }
 }
 
+export class InvalidTransactionSplitsError extends DomainError {
+  constructor(message: string) {
+    super(message, 'InvalidTransactionSplitsError');
+  }
+}
+
 type UnexpectedUpdateTransactionErrorParams = {
   message: string;
   cause?: Error;
@@ -58,9 +68,10 @@ export class UnexpectedUpdateTransactionError extends DomainError {
 
 export type UpdateTransactionError =
   | TransactionNotFoundError
-  | NotOwnerError
+  | LedgerPermissionDeniedError
   | InvalidCategoryIdsError
   | CategoriesNotFoundError
+  | InvalidTransactionSplitsError
   | CategoryTypeMismatchError
   | FutureTransactionDateError
   | InvalidAmountError
@@ -69,4 +80,11 @@ export type UpdateTransactionError =
   | TransactionMemoTooLongError
   | TransactionTitleRequiredError
   | TransactionTitleTooLongError
+  | UnsupportedCurrencyError
+  | TransactionAccountNotFoundError
+  | AccountCurrencyMismatchError
+  | TransactionTagsNotFoundError
+  | TransferAccountRequiredError
+  | SameTransferAccountError
+  | TransferAccountNotAllowedError
   | UnexpectedUpdateTransactionError;
@@ -1,23 +1,39 @@
 import { Container } from 'inversify';
 import { describe, expect, it, vi } from 'vitest';
 
+import type { AccountRecord } from '../../domain/entities/account.entity';
 import type { CategoryRecord } from '../../domain/entities/category.entity';
+import type { CurrencyRecord } from '../../domain/entities/currency.entity';
+import type { TagRecord } from '../../domain/entities/tag.entity';
 import type { TransactionRecord } from '../../domain/entities/transaction.entity';
 import { Transaction } from '../../domain/entities/transaction.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
 import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
+import { LedgerRole } from '../../domain/values/ledger-role';
 import { TOKENS } from '../di/tokens';
+import type { ILedgerAccessService } from '../ledgers/ledger-access.service';
 import {
+  AccountCurrencyMismatchError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from './create-transaction.errors';
 import {
   CategoriesNotFoundError,
   InvalidCategoryIdsError,
-  NotOwnerError,
+  InvalidTransactionSplitsError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
   UnexpectedUpdateTransactionError,
 } from './update-transaction.errors';
@@ -34,6 +50,7 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
     name: '食費',
     type: 'EXPENSE',
     isDefault: false,
+    parentId: null,
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
     ...override,
@@ -44,21 +61,75 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
   ): TransactionRecord => ({
     id: 1,
     userId: 100,
+    ledgerId: 100,
     type: 'EXPENSE',
     title: 'ランチ',
     amount: 1000,
     currency: 'JPY',
     date: '2026-01-01',
     categoryId: 10,
+    accountId: null,
+    transferAccountId: null,
     memo: 'メモ',
     createdAt: fixedCreatedAt,
     updatedAt: fixedUpdatedAt,
     ...override,
   });
 
+  const makeCurrencyRecord = (
+    override?: Partial<CurrencyRecord>,
+  ): CurrencyRecord => ({
+    id: 1,
+    code: 'JPY',
+    name: '日本円',
+    symbol: '¥',
+    exponent: 0,
+    isActive: true,
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const makeAccountRecord = (
+    override?: Partial<AccountRecord>,
+  ): AccountRecord => ({
+    id: 5,
+    userId: 100,
+    name: '財布',
+    type: 'CASH',
+    openingBalance: 10000,
+    currency: 'JPY',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const makeTagRecord = (override?: Partial<TagRecord>): TagRecord => ({
+    id: 3,
+    userId: 100,
+    name: 'trip-okinawa-2026',
+    createdAt: fixedCreatedAt,
+    updatedAt: fixedUpdatedAt,
+    ...override,
+  });
+
+  const createLedgerAccessServiceMock = (
+    role: LedgerRole | null = LedgerRole.owner(),
+  ): ILedgerAccessService => ({
+    findAccess: vi.fn(async ({ userId, ledgerId }) =>
+      role === null ? null : { ledgerId: ledgerId ?? userId, role },
+    ),
+  });
+
   const createMockContainer = (
     mockTransactionRepo: Partial<ITransactionRepository>,
     mockCategoryRepo: Partial<ICategoryRepository>,
+    mockCurrencyRepo: Partial<ICurrencyRepository> = {
+      findByCode: vi.fn().mockResolvedValue(makeCurrencyRecord()),
+    },
+    mockAccountRepo: Partial<IAccountRepository> = {},
+    mockLedgerAccessService: ILedgerAccessService = createLedgerAccessServiceMock(),
+    mockTagRepo: Partial<ITagRepository> = {},
   ) => {
     const container = new Container();
     container
@@ -67,6 +138,18 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
     container
       .bind<ICategoryRepository>(TOKENS.CategoryRepository)
       .toConstantValue(mockCategoryRepo as ICategoryRepository);
+    container
+      .bind<ICurrencyRepository>(TOKENS.CurrencyRepository)
+      .toConstantValue(mockCurrencyRepo as ICurrencyRepository);
+    container
+      .bind<IAccountRepository>(TOKENS.AccountRepository)
+      .toConstantValue(mockAccountRepo as IAccountRepository);
+    container
+      .bind<ILedgerAccessService>(TOKENS.LedgerAccessService)
+      .toConstantValue(mockLedgerAccessService);
+    container
+      .bind<ITagRepository>(TOKENS.TagRepository)
+      .toConstantValue(mockTagRepo as ITagRepository);
     container.bind(UpdateTransactionUseCase).toSelf();
     return container;
   };
@@ -86,7 +169,7 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
         userId: 100,
         type: 'EXPENSE',
         title: '更新タイトル',
-        amount: 1200,
+        amount: 1000,
         currency: 'JPY',
         date: '2026-01-01',
         categoryId: 10,
@@ -102,7 +185,11 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
 
       const mockTransactionRepo = {
         findById: vi.fn().mockResolvedValue(current),
-        findCategoryIdsByTransactionId: vi.fn().mockResolvedValue([10, 11]),
+        findSplitsByTransactionId: vi.fn().mockResolvedValue([
+          { categoryId: 10, amount: 700 },
+          { categoryId: 11, amount: 300 },
+        ]),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([3]),
         update: vi.fn().mockResolvedValue(updated),
       };
 
@@ -120,39 +207,394 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
         userId: 100,
         id: 1,
         title: '更新タイトル',
-        amount: 1200,
         memo: '  ',
       });
 
       expect(mockTransactionRepo.findById).toHaveBeenCalledWith(1);
       expect(
-        mockTransactionRepo.findCategoryIdsByTransactionId,
+        mockTransactionRepo.findSplitsByTransactionId,
       ).toHaveBeenCalledWith(1);
       expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [10, 11]);
       expect(mockTransactionRepo.update).toHaveBeenCalledWith(
         expect.any(Transaction),
-        { categoryIds: undefined },
+        { changedBy: 100 },
       );
 
       expect(output).toEqual({
         transaction: {
           id: 1,
           userId: 100,
+          ledgerId: 100,
           type: 'EXPENSE',
           title: '更新タイトル',
-          amount: 1200,
+          amount: 1000,
           currencyCode: 'JPY',
           date: '2026-01-01',
           categories: [
             { id: 10, name: '食費', type: 'EXPENSE', isDefault: false },
             { id: 11, name: '日用品', type: 'EXPENSE', isDefault: false },
           ],
+          splits: [
+            { categoryId: 10, amount: 700 },
+            { categoryId: 11, amount: 300 },
+          ],
+          tagIds: [3],
+          accountId: null,
+          transferAccountId: null,
           memo: null,
           createdAt: fixedCreatedAt.toISOString(),
           updatedAt: fixedUpdatedAt.toISOString(),
         },
       });
     });
+
+    it('共有帳簿の編集者が他のメンバーの取引を更新する場合は、登録者のカテゴリとして確認する', async () => {
+      const current = makeTransactionRecord({ userId: 100, ledgerId: 300 });
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(current),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi
+          .fn()
+          .mockResolvedValue({ ...current, title: '更新タイトル' }),
+      };
+      // NOTE: 登録者（userId: 100）の独自カテゴリは編集者（userId: 200）のカテゴリとしては見つからない
+      const mockCategoryRepo = {
+        findByIds: vi.fn(async (userId: number) =>
+          userId === 100 ? [makeCategoryRecord()] : [],
+        ),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+        undefined,
+        undefined,
+        createLedgerAccessServiceMock(LedgerRole.editor()),
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 200,
+        id: 1,
+        title: '更新タイトル',
+      });
+
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [10]);
+      expect(mockTransactionRepo.update).toHaveBeenCalledWith(
+        expect.any(Transaction),
+        { changedBy: 200 },
+      );
+      expect(output.transaction.title).toBe('更新タイトル');
+    });
+
+    it('通貨のみ指定した場合は金額を引き継いで通貨を更新できる', async () => {
+      const current = makeTransactionRecord({ amount: 1000, currency: 'JPY' });
+      const updated = makeTransactionRecord({ amount: 1000, currency: 'USD' });
+
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(current),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi.fn().mockResolvedValue(updated),
+      };
+
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      };
+
+      const mockCurrencyRepo = {
+        findByCode: vi
+          .fn()
+          .mockResolvedValue(makeCurrencyRecord({ id: 2, code: 'USD' })),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+        mockCurrencyRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        currency: 'USD',
+      });
+
+      expect(mockCurrencyRepo.findByCode).toHaveBeenCalledWith('USD');
+      const [transaction] = mockTransactionRepo.update.mock.calls[0];
+      expect(transaction.amount.amount).toBe(1000);
+      expect(transaction.amount.currency).toBe('USD');
+      expect(transaction.splits[0].amount.currency).toBe('USD');
+      expect(output.transaction.currencyCode).toBe('USD');
+    });
+
+    it('口座を指定して紐づけ、null を指定すると紐づけを解除できる', async () => {
+      const mockTransactionRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValueOnce(makeTransactionRecord())
+          .mockResolvedValueOnce(makeTransactionRecord({ accountId: 5 })),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi
+          .fn()
+          .mockResolvedValueOnce(makeTransactionRecord({ accountId: 5 }))
+          .mockResolvedValueOnce(makeTransactionRecord()),
+      };
+      const mockAccountRepo = {
+        findById: vi.fn().mockResolvedValue(makeAccountRecord()),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        mockAccountRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const linked = await useCase.execute({
+        userId: 100,
+        id: 1,
+        accountId: 5,
+      });
+      const unlinked = await useCase.execute({
+        userId: 100,
+        id: 1,
+        accountId: null,
+      });
+
+      expect(mockAccountRepo.findById).toHaveBeenCalledTimes(1);
+      expect(mockTransactionRepo.update).toHaveBeenNthCalledWith(
+        1,
+        expect.any(Transaction),
+        { changedBy: 100, accountId: 5 },
+      );
+      expect(mockTransactionRepo.update).toHaveBeenNthCalledWith(
+        2,
+        expect.any(Transaction),
+        { changedBy: 100, accountId: null },
+      );
+      expect(linked.transaction.accountId).toBe(5);
+      expect(unlinked.transaction.accountId).toBeNull();
+    });
+
+    it('振替に変更し、振替元/振替先の口座を紐づけられる', async () => {
+      const transferCategory = makeCategoryRecord({
+        id: 20,
+        name: '振替',
+        type: 'TRANSFER',
+      });
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi.fn().mockResolvedValue(
+          makeTransactionRecord({
+            type: 'TRANSFER',
+            categoryId: 20,
+            accountId: 5,
+            transferAccountId: 6,
+          }),
+        ),
+      };
+      const mockAccountRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValueOnce(makeAccountRecord())
+          .mockResolvedValueOnce(makeAccountRecord({ id: 6, name: '財布' })),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([transferCategory]) },
+        undefined,
+        mockAccountRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        type: 'TRANSFER',
+        categoryIds: [20],
+        accountId: 5,
+        transferAccountId: 6,
+      });
+
+      expect(mockAccountRepo.findById).toHaveBeenNthCalledWith(1, 5);
+      expect(mockAccountRepo.findById).toHaveBeenNthCalledWith(2, 6);
+      expect(mockTransactionRepo.update).toHaveBeenCalledWith(
+        expect.any(Transaction),
+        {
+          changedBy: 100,
+          accountId: 5,
+          transferAccountId: 6,
+        },
+      );
+      const [transaction] = mockTransactionRepo.update.mock.calls[0];
+      expect(transaction.categoryId).toBe(20);
+      expect(output.transaction.splits).toEqual([
+        { categoryId: 20, amount: 1000 },
+      ]);
+      expect(output.transaction.type).toBe('TRANSFER');
+      expect(output.transaction.transferAccountId).toBe(6);
+    });
+    it('明細を指定して金額をカテゴリごとに分割できる', async () => {
+      const categories = [
+        makeCategoryRecord({ id: 10, name: '食費' }),
+        makeCategoryRecord({ id: 11, name: '日用品' }),
+      ];
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi.fn(),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord({ amount: 3000 })),
+      };
+      const mockCategoryRepo = {
+        findByIds: vi.fn().mockResolvedValue(categories),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        mockCategoryRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        amount: 3000,
+        splits: [
+          { categoryId: 10, amount: 2000 },
+          { categoryId: 11, amount: 1000 },
+        ],
+      });
+
+      expect(
+        mockTransactionRepo.findSplitsByTransactionId,
+      ).not.toHaveBeenCalled();
+      expect(mockCategoryRepo.findByIds).toHaveBeenCalledWith(100, [10, 11]);
+      const [transaction] = mockTransactionRepo.update.mock.calls[0];
+      expect(transaction.amount.amount).toBe(3000);
+      expect(output.transaction.categories.map((c) => c.id)).toEqual([10, 11]);
+      expect(output.transaction.splits).toEqual([
+        { categoryId: 10, amount: 2000 },
+        { categoryId: 11, amount: 1000 },
+      ]);
+    });
+
+    it('明細が1件の場合は金額の変更に合わせて明細の金額も更新される', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        findTagIdsByTransactionId: vi.fn().mockResolvedValue([]),
+        update: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord({ amount: 1500 })),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {
+        findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]),
+      });
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        amount: 1500,
+      });
+
+      expect(output.transaction.splits).toEqual([
+        { categoryId: 10, amount: 1500 },
+      ]);
+    });
+
+    it('タグを指定した場合は自分のタグで置き換えられる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        findTagIdsByTransactionId: vi.fn(),
+        update: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockTagRepo = {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeTagRecord({ id: 1, name: 'reimbursable' }),
+            makeTagRecord({ id: 3 }),
+          ]),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        undefined,
+        undefined,
+        mockTagRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({
+        userId: 100,
+        id: 1,
+        tagIds: [3, 1],
+      });
+
+      expect(mockTagRepo.findByIds).toHaveBeenCalledWith([3, 1]);
+      expect(
+        mockTransactionRepo.findTagIdsByTransactionId,
+      ).not.toHaveBeenCalled();
+      expect(mockTransactionRepo.update).toHaveBeenCalledWith(
+        expect.any(Transaction),
+        { changedBy: 100, tagIds: [3, 1] },
+      );
+      expect(output.transaction.tagIds).toEqual([3, 1]);
+    });
+
+    it('タグに空配列を指定した場合はすべてのタグを外せる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        update: vi.fn().mockResolvedValue(makeTransactionRecord()),
+      };
+      const mockTagRepo = { findByIds: vi.fn() };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        undefined,
+        undefined,
+        mockTagRepo,
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const output = await useCase.execute({ userId: 100, id: 1, tagIds: [] });
+
+      expect(mockTagRepo.findByIds).not.toHaveBeenCalled();
+      expect(mockTransactionRepo.update).toHaveBeenCalledWith(
+        expect.any(Transaction),
+        { changedBy: 100, tagIds: [] },
+      );
+      expect(output.transaction.tagIds).toEqual([]);
+    });
   });
 
   describe('異常系', () => {
@@ -169,19 +611,23 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
       ).rejects.toBeInstanceOf(TransactionNotFoundError);
     });
 
-    it('所有者が一致しない場合は例外になる', async () => {
+    it('帳簿の閲覧者の場合は例外になる', async () => {
       const mockTransactionRepo = {
-        findById: vi
-          .fn()
-          .mockResolvedValue(makeTransactionRecord({ userId: 999 })),
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
       };
 
-      const container = createMockContainer(mockTransactionRepo, {});
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        undefined,
+        undefined,
+        createLedgerAccessServiceMock(LedgerRole.viewer()),
+      );
       const useCase = container.get(UpdateTransactionUseCase);
 
       await expect(
         useCase.execute({ userId: 100, id: 1, title: '更新' }),
-      ).rejects.toBeInstanceOf(NotOwnerError);
+      ).rejects.toBeInstanceOf(LedgerPermissionDeniedError);
     });
 
     it('categoryIds が空配列の場合は例外になる', async () => {
@@ -260,6 +706,147 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
       ).rejects.toBeInstanceOf(FutureTransactionDateError);
     });
 
+    it('利用できない通貨の場合は例外になる', async () => {
+      const mockTransactionRepo = { findById: vi.fn() };
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        {
+          findByCode: vi
+            .fn()
+            .mockResolvedValue(
+              makeCurrencyRecord({ id: 3, code: 'EUR', isActive: false }),
+            ),
+        },
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, currency: 'EUR' }),
+      ).rejects.toBeInstanceOf(UnsupportedCurrencyError);
+      expect(mockTransactionRepo.findById).not.toHaveBeenCalled();
+    });
+
+    it('明細の合計が取引の金額と一致しない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeCategoryRecord({ id: 10 }),
+            makeCategoryRecord({ id: 11 }),
+          ]),
+      });
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({
+          userId: 100,
+          id: 1,
+          splits: [
+            { categoryId: 10, amount: 800 },
+            { categoryId: 11, amount: 300 },
+          ],
+        }),
+      ).rejects.toBeInstanceOf(InvalidTransactionSplitsError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('明細が複数の取引の金額だけを変更する場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi.fn().mockResolvedValue([
+          { categoryId: 10, amount: 700 },
+          { categoryId: 11, amount: 300 },
+        ]),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeCategoryRecord({ id: 10 }),
+            makeCategoryRecord({ id: 11 }),
+          ]),
+      });
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, amount: 2000 }),
+      ).rejects.toBeInstanceOf(InvalidTransactionSplitsError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('複数のカテゴリを金額なしで指定した場合や、categoryIds と splits を同時に指定した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {
+        findByIds: vi
+          .fn()
+          .mockResolvedValue([
+            makeCategoryRecord({ id: 10 }),
+            makeCategoryRecord({ id: 11 }),
+          ]),
+      });
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, categoryIds: [10, 11] }),
+      ).rejects.toBeInstanceOf(InvalidTransactionSplitsError);
+      await expect(
+        useCase.execute({
+          userId: 100,
+          id: 1,
+          categoryIds: [10],
+          splits: [{ categoryId: 10, amount: 1000 }],
+        }),
+      ).rejects.toBeInstanceOf(InvalidTransactionSplitsError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('他のユーザーのタグや存在しないタグを指定した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        findSplitsByTransactionId: vi
+          .fn()
+          .mockResolvedValue([{ categoryId: 10, amount: 1000 }]),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        { findByIds: vi.fn().mockResolvedValue([makeCategoryRecord()]) },
+        undefined,
+        undefined,
+        undefined,
+        {
+          findByIds: vi
+            .fn()
+            .mockResolvedValue([
+              makeTagRecord({ id: 3 }),
+              makeTagRecord({ id: 4, userId: 999 }),
+            ]),
+        },
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      const error = await useCase
+        .execute({ userId: 100, id: 1, tagIds: [3, 4, 5] })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionTagsNotFoundError);
+      expect((error as Error).message).toContain('4, 5');
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
     it('想定外例外は UnexpectedUpdateTransactionError にラップされる', async () => {
       const mockTransactionRepo = {
         findById: vi.fn().mockRejectedValue(new Error('boom')),
@@ -272,5 +859,114 @@ describe('UpdateTransactionUseCase（取引更新）', () => {
         useCase.execute({ userId: 100, id: 1, title: '更新' }),
       ).rejects.toBeInstanceOf(UnexpectedUpdateTransactionError);
     });
+
+    it('他のユーザーの口座を指定した場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(makeTransactionRecord()),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        undefined,
+        {
+          findById: vi
+            .fn()
+            .mockResolvedValue(makeAccountRecord({ userId: 999 })),
+        },
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, accountId: 5 }),
+      ).rejects.toBeInstanceOf(TransactionAccountNotFoundError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('紐づく口座と異なる通貨に変更する場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord({ accountId: 5 })),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(
+        mockTransactionRepo,
+        {},
+        {
+          findByCode: vi
+            .fn()
+            .mockResolvedValue(makeCurrencyRecord({ id: 2, code: 'USD' })),
+        },
+        { findById: vi.fn().mockResolvedValue(makeAccountRecord()) },
+      );
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, currency: 'USD' }),
+      ).rejects.toBeInstanceOf(AccountCurrencyMismatchError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('振替に変更する際に振替先口座を指定しない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi
+          .fn()
+          .mockResolvedValue(makeTransactionRecord({ accountId: 5 })),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {});
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, type: 'TRANSFER' }),
+      ).rejects.toBeInstanceOf(TransferAccountRequiredError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('振替先口座を振替元口座と同じ口座に変更する場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(
+          makeTransactionRecord({
+            type: 'TRANSFER',
+            accountId: 5,
+            transferAccountId: 6,
+          }),
+        ),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {});
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, transferAccountId: 5 }),
+      ).rejects.toBeInstanceOf(SameTransferAccountError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('振替から変更する際に振替先口座を解除しない場合は例外になる', async () => {
+      const mockTransactionRepo = {
+        findById: vi.fn().mockResolvedValue(
+          makeTransactionRecord({
+            type: 'TRANSFER',
+            accountId: 5,
+            transferAccountId: 6,
+          }),
+        ),
+        update: vi.fn(),
+      };
+
+      const container = createMockContainer(mockTransactionRepo, {});
+      const useCase = container.get(UpdateTransactionUseCase);
+
+      await expect(
+        useCase.execute({ userId: 100, id: 1, type: 'EXPENSE' }),
+      ).rejects.toBeInstanceOf(TransferAccountNotAllowedError);
+      expect(mockTransactionRepo.update).not.toHaveBeenCalled();
+    });
   });
 });
@@ -6,30 +6,53 @@ import * as Exit from 'effect/Exit';
 import * as Option from 'effect/Option';
 import { inject, injectable } from 'inversify';
 
+import type { AccountRecord } from '../../domain/entities/account.entity';
 import type { CategoryRecord } from '../../domain/entities/category.entity';
-import type { TransactionRecord } from '../../domain/entities/transaction.entity';
-import { Transaction } from '../../domain/entities/transaction.entity';
+import type {
+  TransactionRecord,
+  TransactionSplitRecord,
+  TransactionSplitValue,
+} from '../../domain/entities/transaction.entity';
+import {
+  Transaction,
+  TransactionSplitDomainError,
+} from '../../domain/entities/transaction.entity';
+import type { IAccountRepository } from '../../domain/repositories/account.repository.interface';
 import type { ICategoryRepository } from '../../domain/repositories/category.repository.interface';
+import type { ICurrencyRepository } from '../../domain/repositories/currency.repository.interface';
+import type { ITagRepository } from '../../domain/repositories/tag.repository.interface';
 import type { ITransactionRepository } from '../../domain/repositories/transaction.repository.interface';
 import { Money } from '../../domain/values/money';
 import { TransactionDate } from '../../domain/values/transaction-date';
 import { Effect, pipe } from '../../shared/result';
 import { TOKENS } from '../di/tokens';
+import type {
+  ILedgerAccessService,
+  LedgerAccess,
+} from '../ledgers/ledger-access.service';
 import {
+  AccountCurrencyMismatchError,
   CategoryTypeMismatchError,
   FutureTransactionDateError,
   InvalidAmountError,
   InvalidDateFormatError,
   InvalidTransactionTypeError,
+  SameTransferAccountError,
+  TransactionAccountNotFoundError,
   TransactionMemoTooLongError,
+  TransactionTagsNotFoundError,
   TransactionTitleRequiredError,
   TransactionTitleTooLongError,
+  TransferAccountNotAllowedError,
+  TransferAccountRequiredError,
+  UnsupportedCurrencyError,
 } from './create-transaction.errors';
 import { UpdateTransactionBuilder } from './update-transaction.builder';
 import {
   CategoriesNotFoundError,
   InvalidCategoryIdsError,
-  NotOwnerError,
+  InvalidTransactionSplitsError,
+  LedgerPermissionDeniedError,
   TransactionNotFoundError,
   UnexpectedUpdateTransactionError,
   type UpdateTransactionError,
@@ -39,22 +62,34 @@ const MAX_TITLE_LENGTH = 100;
 const MAX_MEMO_LENGTH = 500;
 const MIN_AMOUNT = 1;
 
+// NOTE: undefined の場合は現在の口座を引き継ぎ、null の場合は紐づけを解除する
+const resolveAccountId = (
+  next: number | null | undefined,
+  current: number | null,
+): number | null => (next === undefined ? current : next);
+
 export type UpdateTransactionInput = {
   userId: number;
   id: number;
-  type?: 'INCOME' | 'EXPENSE';
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER';
   title?: string;
   amount?: number;
+  currency?: string;
   date?: string;
   categoryIds?: number[];
+  splits?: TransactionSplitValue[]; // カテゴリごとの金額（categoryIds の代わりに指定し、合計は取引の金額と一致させる）
+  accountId?: number | null; // null の場合は口座との紐づけを解除する
+  transferAccountId?: number | null; // 振替先口座（null の場合は紐づけを解除する）
+  tagIds?: number[]; // 指定した場合はタグを置き換える（空配列ですべて外す）
   memo?: string;
 };
 
 export type UpdateTransactionOutput = {
   transaction: {
     id: number;
+    ledgerId: number;
     userId: number;
-    type: 'INCOME' | 'EXPENSE';
+    type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
     title: string;
     amount: number;
     currencyCode: string;
@@ -62,9 +97,13 @@ export type UpdateTransactionOutput = {
     categories: {
       id: number;
       name: string;
-      type: 'INCOME' | 'EXPENSE';
+      type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
       isDefault: boolean;
     }[];
+    splits: TransactionSplitRecord[];
+    tagIds: number[];
+    accountId: number | null;
+    transferAccountId: number | null;
     memo: string | null;
     createdAt: string;
     updatedAt: string;
@@ -75,6 +114,20 @@ type NormalizedInput = UpdateTransactionInput & {
   title?: string;
   memo?: string;
 };
+type CurrentLoadedInput = NormalizedInput & { current: TransactionRecord };
+type CategoryIdsResolvedInput = CurrentLoadedInput & {
+  resolvedCategoryIds: number[];
+  currentSplits?: TransactionSplitRecord[]; // カテゴリ/明細を指定しない場合のみ取得する
+};
+type CategoriesLoadedInput = CategoryIdsResolvedInput & {
+  categories: CategoryRecord[];
+};
+type TypeResolvedInput = CategoriesLoadedInput & {
+  resolvedType: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+};
+type SplitsResolvedInput = TypeResolvedInput & {
+  nextSplits?: TransactionSplitValue[];
+};
 
 @injectable()
 export class UpdateTransactionUseCase {
@@ -84,6 +137,18 @@ export class UpdateTransactionUseCase {
   @inject(TOKENS.CategoryRepository)
   private categoryRepository!: ICategoryRepository;
 
+  @inject(TOKENS.CurrencyRepository)
+  private currencyRepository!: ICurrencyRepository;
+
+  @inject(TOKENS.AccountRepository)
+  private accountRepository!: IAccountRepository;
+
+  @inject(TOKENS.TagRepository)
+  private tagRepository!: ITagRepository;
+
+  @inject(TOKENS.LedgerAccessService)
+  private ledgerAccessService!: ILedgerAccessService;
+
   private readonly builder = new UpdateTransactionBuilder();
 
   async execute(
@@ -103,19 +168,27 @@ export class UpdateTransactionUseCase {
       Effect.flatMap((value) => this.validateTitle(value)),
       Effect.flatMap((value) => this.validateMemo(value)),
       Effect.flatMap((value) => this.validateAmount(value)),
+      Effect.flatMap((value) => this.validateCurrency(value)),
       Effect.flatMap((value) => this.validateDate(value)),
       Effect.flatMap((value) => this.validateCategoryIds(value)),
+      Effect.flatMap((value) => this.validateSplits(value)),
       Effect.flatMap((value) => this.fetchCurrentTransaction(value)),
-      Effect.flatMap((value) => this.ensureOwner(value)),
+      Effect.flatMap((value) => this.authorizeLedger(value)),
+      Effect.flatMap((value) => this.validateTransferAccounts(value)),
+      Effect.flatMap((value) => this.validateAccount(value)),
       Effect.flatMap((value) => this.resolveCategoryIds(value)),
       Effect.flatMap((value) => this.fetchCategories(value)),
       Effect.flatMap((value) => this.ensureCategoriesMatchType(value)),
+      Effect.flatMap((value) => this.resolveSplits(value)),
+      Effect.flatMap((value) => this.validateTags(value)),
       Effect.flatMap((value) => this.updateTransaction(value)),
       Effect.map((value) =>
         this.builder.build({
           record: value.record,
           categoryIds: value.categoryIds,
           categories: value.categories,
+          splits: value.splits,
+          tagIds: value.tagIds,
         }),
       ),
     );
@@ -139,7 +212,8 @@ export class UpdateTransactionUseCase {
       : pipe(
           Effect.succeed(value),
           Effect.filterOrFail(
-            ({ type }) => type === 'INCOME' || type === 'EXPENSE',
+            ({ type }) =>
+              type === 'INCOME' || type === 'EXPENSE' || type === 'TRANSFER',
             ({ type }) => new InvalidTransactionTypeError(String(type)),
           ),
         );
@@ -193,6 +267,25 @@ export class UpdateTransactionUseCase {
         );
   }
 
+  private validateCurrency(
+    value: NormalizedInput,
+  ): Effect.Effect<NormalizedInput, UpdateTransactionError> {
+    return value.currency === undefined
+      ? Effect.succeed(value)
+      : pipe(
+          Effect.tryPromise({
+            try: () => this.currencyRepository.findByCode(value.currency ?? ''),
+            catch: (cause) =>
+              this.createUnexpectedError('通貨情報の取得に失敗しました', cause),
+          }),
+          Effect.filterOrFail(
+            (currency) => currency?.isActive === true,
+            () => new UnsupportedCurrencyError(value.currency ?? ''),
+          ),
+          Effect.map(() => value),
+        );
+  }
+
   private validateDate(
     value: NormalizedInput,
   ): Effect.Effect<NormalizedInput, UpdateTransactionError> {
@@ -227,6 +320,34 @@ export class UpdateTransactionUseCase {
         );
   }
 
+  /**
+   * 明細は1件以上で、カテゴリ（categoryIds）と同時に指定されていないことを検証する
+   * NOTE: 金額の合計が取引の金額と一致することは、更新後の金額が決まった時点でエンティティが検証する
+   */
+  private validateSplits(
+    value: NormalizedInput,
+  ): Effect.Effect<NormalizedInput, UpdateTransactionError> {
+    return value.splits === undefined
+      ? Effect.succeed(value)
+      : pipe(
+          Effect.succeed(value),
+          Effect.filterOrFail(
+            ({ categoryIds }) => categoryIds === undefined,
+            () =>
+              new InvalidTransactionSplitsError(
+                'categoryIds と splits は同時に指定できません',
+              ),
+          ),
+          Effect.filterOrFail(
+            ({ splits }) => (splits ?? []).length > 0,
+            () =>
+              new InvalidTransactionSplitsError(
+                'splits は1件以上指定する必要があります',
+              ),
+          ),
+        );
+  }
+
   private fetchCurrentTransaction(
     value: NormalizedInput,
   ): Effect.Effect<
@@ -247,66 +368,169 @@ export class UpdateTransactionUseCase {
     );
   }
 
-  private ensureOwner(
+  /**
+   * 取引が登録されている帳簿の編集権限（オーナー/編集者）があることを検証する
+   */
+  private authorizeLedger(
     value: NormalizedInput & { current: TransactionRecord },
   ): Effect.Effect<
     NormalizedInput & { current: TransactionRecord },
     UpdateTransactionError
   > {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.ledgerAccessService.findAccess({
+            userId: value.userId,
+            ledgerId: value.current.ledgerId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('帳簿の権限の確認に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (access): access is LedgerAccess => access?.role.can('write') === true,
+        () => new LedgerPermissionDeniedError(),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  /**
+   * 更新後の取引が振替の場合は振替元/振替先の口座が揃っていて異なること、振替以外の場合は振替先口座がないことを検証する
+   */
+  private validateTransferAccounts(
+    value: NormalizedInput & { current: TransactionRecord },
+  ): Effect.Effect<
+    NormalizedInput & { current: TransactionRecord },
+    UpdateTransactionError
+  > {
+    const type = value.type ?? value.current.type;
+    const accountId = resolveAccountId(
+      value.accountId,
+      value.current.accountId,
+    );
+    const transferAccountId = resolveAccountId(
+      value.transferAccountId,
+      value.current.transferAccountId,
+    );
+
     return pipe(
       Effect.succeed(value),
       Effect.filterOrFail(
-        ({ current, userId }) => current.userId === userId,
-        () => new NotOwnerError(),
+        () => type === 'TRANSFER' || transferAccountId === null,
+        () => new TransferAccountNotAllowedError(type),
+      ),
+      Effect.filterOrFail(
+        () =>
+          type !== 'TRANSFER' ||
+          (accountId !== null && transferAccountId !== null),
+        () => new TransferAccountRequiredError(),
+      ),
+      Effect.filterOrFail(
+        () => transferAccountId === null || accountId !== transferAccountId,
+        () => new SameTransferAccountError(transferAccountId ?? 0),
       ),
     );
   }
 
-  private resolveCategoryIds(
+  /**
+   * 更新後に紐づく口座（振替の場合は振替元/振替先の両方）が、取引を登録したユーザーの口座であり取引と同じ通貨であることを検証する
+   * NOTE: 口座を指定しない場合も、通貨の変更により現在の口座と不整合にならないか検証する
+   */
+  private validateAccount(
     value: NormalizedInput & { current: TransactionRecord },
   ): Effect.Effect<
-    NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-    },
+    NormalizedInput & { current: TransactionRecord },
     UpdateTransactionError
   > {
+    const currency = value.currency ?? value.current.currency;
+    const accountIds = [
+      resolveAccountId(value.accountId, value.current.accountId),
+      resolveAccountId(
+        value.transferAccountId,
+        value.current.transferAccountId,
+      ),
+    ].filter((accountId): accountId is number => accountId !== null);
+
+    return pipe(
+      // NOTE: 共有帳簿では他のメンバーの取引も更新できるが、口座は取引を登録したユーザーのものに限る
+      Effect.forEach(accountIds, (accountId) =>
+        this.ensureAccountUsable(value.current.userId, accountId, currency),
+      ),
+      Effect.map(() => value),
+    );
+  }
+
+  private ensureAccountUsable(
+    userId: number,
+    accountId: number,
+    currency: string,
+  ): Effect.Effect<AccountRecord, UpdateTransactionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.accountRepository.findById(accountId),
+        catch: (cause) =>
+          this.createUnexpectedError('口座情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((account) =>
+        account === null || account.userId !== userId
+          ? Effect.fail(new TransactionAccountNotFoundError(accountId))
+          : Effect.succeed(account),
+      ),
+      Effect.filterOrFail(
+        (account) => account.currency === currency,
+        (account) =>
+          new AccountCurrencyMismatchError(account.currency, currency),
+      ),
+    );
+  }
+
+  /**
+   * 更新後のカテゴリを決定する（カテゴリ/明細を指定しない場合は現在の明細を引き継ぐ）
+   */
+  private resolveCategoryIds(
+    value: CurrentLoadedInput,
+  ): Effect.Effect<CategoryIdsResolvedInput, UpdateTransactionError> {
+    if (value.splits !== undefined) {
+      return Effect.succeed({
+        ...value,
+        resolvedCategoryIds: value.splits.map((split) => split.categoryId),
+      });
+    }
+
     return value.categoryIds !== undefined
       ? Effect.succeed({ ...value, resolvedCategoryIds: value.categoryIds })
       : pipe(
           Effect.tryPromise({
             try: () =>
-              this.transactionRepository.findCategoryIdsByTransactionId(
-                value.id,
-              ),
+              this.transactionRepository.findSplitsByTransactionId(value.id),
             catch: (cause) =>
               this.createUnexpectedError(
                 '取引カテゴリの取得に失敗しました',
                 cause,
               ),
           }),
-          Effect.map((ids) => ({ ...value, resolvedCategoryIds: ids })),
+          Effect.map((currentSplits) => ({
+            ...value,
+            resolvedCategoryIds: currentSplits.map((split) => split.categoryId),
+            currentSplits,
+          })),
         );
   }
 
+  /**
+   * 更新後のカテゴリを取得する
+   * NOTE: 独自カテゴリは作成したユーザーのみが利用できるため、タグと同様に取引を登録したユーザーのカテゴリとして確認する
+   * （共有帳簿の編集者が他のメンバーの取引を更新する場合も、登録者のカテゴリを引き継げるようにする）
+   */
   private fetchCategories(
-    value: NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-    },
-  ): Effect.Effect<
-    NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-      categories: CategoryRecord[];
-    },
-    UpdateTransactionError
-  > {
+    value: CategoryIdsResolvedInput,
+  ): Effect.Effect<CategoriesLoadedInput, UpdateTransactionError> {
     return pipe(
       Effect.tryPromise({
         try: () =>
           this.categoryRepository.findByIds(
-            value.userId,
+            value.current.userId,
             value.resolvedCategoryIds,
           ),
         catch: (cause) =>
@@ -326,20 +550,8 @@ export class UpdateTransactionUseCase {
   }
 
   private ensureCategoriesMatchType(
-    value: NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-      categories: CategoryRecord[];
-    },
-  ): Effect.Effect<
-    NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-      categories: CategoryRecord[];
-      resolvedType: 'INCOME' | 'EXPENSE';
-    },
-    UpdateTransactionError
-  > {
+    value: CategoriesLoadedInput,
+  ): Effect.Effect<TypeResolvedInput, UpdateTransactionError> {
     const resolvedType = value.type ?? value.current.type;
 
     const mismatch = value.categories.find((c) => c.type !== resolvedType);
@@ -349,60 +561,134 @@ export class UpdateTransactionUseCase {
       : Effect.succeed({ ...value, resolvedType });
   }
 
-  private updateTransaction(
-    value: NormalizedInput & {
-      current: TransactionRecord;
-      resolvedCategoryIds: number[];
-      categories: CategoryRecord[];
-      resolvedType: 'INCOME' | 'EXPENSE';
-    },
-  ): Effect.Effect<
+  /**
+   * 指定されたカテゴリ/明細から更新後の明細を決定する（undefined の場合は現在の明細を引き継ぐ）
+   * NOTE: カテゴリのみ指定した場合は全額を割り当てるため、複数のカテゴリに分ける場合は明細で金額を指定する
+   */
+  private resolveSplits(
+    value: TypeResolvedInput,
+  ): Effect.Effect<SplitsResolvedInput, UpdateTransactionError> {
+    if (value.splits !== undefined || value.categoryIds === undefined) {
+      return Effect.succeed({ ...value, nextSplits: value.splits });
+    }
+
+    const nextAmount = value.amount ?? value.current.amount;
+
+    return pipe(
+      Effect.succeed(value.categoryIds),
+      Effect.filterOrFail(
+        (categoryIds) => categoryIds.length === 1,
+        () =>
+          new InvalidTransactionSplitsError(
+            '複数のカテゴリを指定する場合は splits でカテゴリごとの金額を指定してください',
+          ),
+      ),
+      Effect.map(([categoryId]) => ({
+        ...value,
+        nextSplits: [{ categoryId, amount: nextAmount }],
+      })),
+    );
+  }
+
+  /**
+   * タグを指定した場合は、すべて取引を登録したユーザーのタグであることを検証する
+   * NOTE: 共有帳簿では他のメンバーの取引も更新できるが、口座と同様にタグは取引を登録したユーザーのものに限る
+   */
+  private validateTags(
+    value: SplitsResolvedInput,
+  ): Effect.Effect<SplitsResolvedInput, UpdateTransactionError> {
+    const tagIds = value.tagIds ?? [];
+
+    return tagIds.length === 0
+      ? Effect.succeed(value)
+      : pipe(
+          Effect.tryPromise({
+            try: () => this.tagRepository.findByIds(tagIds),
+            catch: (cause) =>
+              this.createUnexpectedError('タグ情報の取得に失敗しました', cause),
+          }),
+          Effect.flatMap((tags) => {
+            const ownedIds = new Set(
+              tags
+                .filter((tag) => tag.userId === value.current.userId)
+                .map((tag) => tag.id),
+            );
+            const missing = tagIds.filter((id) => !ownedIds.has(id));
+
+            return missing.length > 0
+              ? Effect.fail(new TransactionTagsNotFoundError(missing))
+              : Effect.succeed(value);
+          }),
+        );
+  }
+
+  /**
+   * 更新後のタグを取得する（指定しない場合は現在のタグを引き継ぐ）
+   */
+  private resolveTagIds(
+    value: SplitsResolvedInput,
+  ): Effect.Effect<number[], UpdateTransactionError> {
+    return value.tagIds !== undefined
+      ? Effect.succeed(value.tagIds)
+      : Effect.tryPromise({
+          try: () =>
+            this.transactionRepository.findTagIdsByTransactionId(value.id),
+          catch: (cause) =>
+            this.createUnexpectedError('取引のタグの取得に失敗しました', cause),
+        });
+  }
+
+  private updateTransaction(value: SplitsResolvedInput): Effect.Effect<
     {
       record: TransactionRecord;
       categoryIds: number[];
       categories: CategoryRecord[];
+      splits: TransactionSplitRecord[];
+      tagIds: number[];
     },
     UpdateTransactionError
   > {
     const nextTitle = value.title ?? value.current.title;
     const nextMemo = value.memo ?? value.current.memo;
     const nextAmount = value.amount ?? value.current.amount;
+    const nextCurrency = value.currency ?? value.current.currency;
     const nextDate = value.date ?? value.current.date;
-    const primaryCategoryId = value.resolvedCategoryIds[0];
+    const nextSplits = value.nextSplits;
 
     return pipe(
       Effect.try({
         try: () => {
-          const money = Money.ofWithCurrency(
-            nextAmount,
+          const currentMoney = Money.ofWithCurrency(
+            value.current.amount,
             value.current.currency,
           );
+          const money = Money.ofWithCurrency(nextAmount, nextCurrency);
           const date = TransactionDate.fromString(nextDate);
 
-          // NOTE: ドメインエンティティは単一カテゴリを保持しているため、先頭を代表カテゴリとして扱う
+          // NOTE: 明細は現在の内容で再構築し、金額/明細の変更はエンティティで合計が一致することを検証する
           const transaction = Transaction.reconstruct(
             value.current.id,
             value.current.userId,
             value.resolvedType,
             nextTitle,
-            money,
+            currentMoney,
             date,
-            primaryCategoryId,
+            value.current.categoryId,
             nextMemo,
             value.current.createdAt,
             value.current.updatedAt,
+            value.currentSplits,
           );
 
           const operations: ReadonlyArray<((t: Transaction) => void) | null> = [
-            primaryCategoryId !== value.current.categoryId
-              ? (t: Transaction) => t.updateCategory(primaryCategoryId)
-              : null,
             value.title !== undefined
               ? (t: Transaction) => t.updateTitle(nextTitle)
               : null,
-            value.amount !== undefined
-              ? (t: Transaction) => t.updateAmount(money)
-              : null,
+            value.amount !== undefined || value.currency !== undefined
+              ? (t: Transaction) => t.updateAmount(money, nextSplits)
+              : nextSplits !== undefined
+                ? (t: Transaction) => t.updateSplits(nextSplits)
+                : null,
             value.date !== undefined
               ? (t: Transaction) => t.updateDate(date)
               : null,
@@ -421,23 +707,40 @@ export class UpdateTransactionUseCase {
           }, transaction);
         },
         catch: (cause) =>
-          this.createUnexpectedError('取引の更新に失敗しました', cause),
+          cause instanceof TransactionSplitDomainError
+            ? new InvalidTransactionSplitsError(cause.message)
+            : this.createUnexpectedError('取引の更新に失敗しました', cause),
       }),
       Effect.flatMap((transaction) =>
-        Effect.tryPromise({
-          try: () =>
-            this.transactionRepository.update(transaction, {
-              categoryIds: value.categoryIds,
-            }),
-          catch: (cause) =>
-            this.createUnexpectedError('取引の更新に失敗しました', cause),
-        }),
+        pipe(
+          Effect.tryPromise({
+            try: () =>
+              this.transactionRepository.update(transaction, {
+                changedBy: value.userId,
+                accountId: value.accountId,
+                transferAccountId: value.transferAccountId,
+                tagIds: value.tagIds,
+              }),
+            catch: (cause) =>
+              this.createUnexpectedError('取引の更新に失敗しました', cause),
+          }),
+          Effect.flatMap((record) =>
+            pipe(
+              this.resolveTagIds(value),
+              Effect.map((tagIds) => ({
+                record,
+                categoryIds: value.resolvedCategoryIds,
+                categories: value.categories,
+                splits: transaction.splits.map((split) => ({
+                  categoryId: split.categoryId,
+                  amount: split.amount.amount,
+                })),
+                tagIds,
+              })),
+            ),
+          ),
+        ),
       ),
-      Effect.map((record) => ({
-        record,
-        categoryIds: value.resolvedCategoryIds,
-        categories: value.categories,
-      })),
     );
   }
 
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedListUserSessionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedListUserSessionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedListUserSessionsErrorParams) {
+    super(params.message, 'UnexpectedListUserSessionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ListUserSessionsError = UnexpectedListUserSessionsError;
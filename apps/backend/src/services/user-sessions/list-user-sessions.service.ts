@@ -0,0 +1,101 @@
+// Application Layer: List User Sessions Use Case
+// ユーザーの有効なログインセッション一覧取得を担当する
+
+import type { UsersSessionsListOutput } from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IUserSessionRepository } from '../../domain/repositories/user-session.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type ListUserSessionsError,
+  UnexpectedListUserSessionsError,
+} from './list-user-sessions.errors';
+
+export type ListUserSessionsInput = {
+  userId: number;
+  currentSessionId?: string;
+};
+
+@injectable()
+export class ListUserSessionsUseCase {
+  @inject(TOKENS.UserSessionRepository)
+  private userSessionRepository!: IUserSessionRepository;
+
+  async execute(
+    input: ListUserSessionsInput,
+  ): Promise<UsersSessionsListOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ListUserSessionsInput,
+  ): Effect.Effect<UsersSessionsListOutput, ListUserSessionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userSessionRepository.findActiveByUserId(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'セッション一覧の取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.map((records) => ({
+        sessions: records.map((record) => ({
+          id: record.id,
+          device: record.device,
+          userAgent: record.userAgent,
+          ipAddress: record.ipAddress,
+          createdAt: record.createdAt,
+          lastSeenAt: record.lastSeenAt,
+          current: record.id === input.currentSessionId,
+        })),
+      })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedListUserSessionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedListUserSessionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersSessionsListOutput, ListUserSessionsError>,
+  ): UsersSessionsListOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedListUserSessionsError({
+                message: 'セッション一覧の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedRevokeAllUserSessionsErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRevokeAllUserSessionsError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRevokeAllUserSessionsErrorParams) {
+    super(params.message, 'UnexpectedRevokeAllUserSessionsError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RevokeAllUserSessionsError = UnexpectedRevokeAllUserSessionsError;
@@ -0,0 +1,102 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type {
+  IUserSessionRepository,
+  UserSessionRecord,
+} from '../../domain/repositories/user-session.repository.interface';
+import { SessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import { UnexpectedRevokeAllUserSessionsError } from './revoke-all-user-sessions.errors';
+import { RevokeAllUserSessionsUseCase } from './revoke-all-user-sessions.service';
+
+describe('RevokeAllUserSessionsUseCase（他のセッションの一括失効）', () => {
+  const makeSession = (id: string): UserSessionRecord => ({
+    id,
+    userId: 1,
+    device: 'Chrome (Windows)',
+    userAgent: null,
+    ipAddress: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    lastSeenAt: new Date('2025-01-02T00:00:00.000Z'),
+    revokedAt: null,
+  });
+
+  const setup = (overrides?: Partial<IUserSessionRepository>) => {
+    const sessionRepo: IUserSessionRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findActiveByUserId: vi.fn(async () => [
+        makeSession('session-1'),
+        makeSession('session-2'),
+        makeSession('session-3'),
+      ]),
+      revoke: vi.fn(async () => undefined),
+      ...overrides,
+    };
+    const refreshTokenRepo: IRefreshTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(),
+      revoke: vi.fn(),
+      revokeFamily: vi.fn(async () => undefined),
+      revokeAllByUserId: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserSessionRepository>(TOKENS.UserSessionRepository)
+      .toConstantValue(sessionRepo);
+    container
+      .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+      .toConstantValue(refreshTokenRepo);
+    container.bind(TOKENS.SessionService).to(SessionService);
+    container
+      .bind<RevokeAllUserSessionsUseCase>(RevokeAllUserSessionsUseCase)
+      .toSelf();
+
+    const useCase = container.get(RevokeAllUserSessionsUseCase);
+
+    return { useCase, sessionRepo, refreshTokenRepo };
+  };
+
+  describe('正常系', () => {
+    it('現在のセッション以外を失効させ、失効させた件数を返す', async () => {
+      const { useCase, sessionRepo, refreshTokenRepo } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        currentSessionId: 'session-1',
+      });
+
+      expect(sessionRepo.findActiveByUserId).toHaveBeenCalledWith(1);
+      expect(vi.mocked(sessionRepo.revoke).mock.calls).toEqual([
+        ['session-2'],
+        ['session-3'],
+      ]);
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-2',
+      });
+      expect(refreshTokenRepo.revokeFamily).not.toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-1',
+      });
+      expect(result).toEqual({ revokedCount: 2 });
+    });
+  });
+
+  describe('異常系', () => {
+    it('セッションの失効に失敗した場合は UnexpectedRevokeAllUserSessionsError になる', async () => {
+      const { useCase } = setup({
+        findActiveByUserId: vi.fn(async () => {
+          throw new Error('DB 接続エラー');
+        }),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, currentSessionId: 'session-1' }),
+      ).rejects.toBeInstanceOf(UnexpectedRevokeAllUserSessionsError);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// Application Layer: Revoke All User Sessions Use Case
+// 現在のセッション以外のログインセッションをすべて失効させる
+
+import type { UsersSessionsRevokeAllOutput } from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { Effect, pipe } from '../../shared/result';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  type RevokeAllUserSessionsError,
+  UnexpectedRevokeAllUserSessionsError,
+} from './revoke-all-user-sessions.errors';
+
+export type RevokeAllUserSessionsInput = {
+  userId: number;
+  currentSessionId?: string;
+};
+
+@injectable()
+export class RevokeAllUserSessionsUseCase {
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  async execute(
+    input: RevokeAllUserSessionsInput,
+  ): Promise<UsersSessionsRevokeAllOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: RevokeAllUserSessionsInput,
+  ): Effect.Effect<UsersSessionsRevokeAllOutput, RevokeAllUserSessionsError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.sessionService.revokeAll({
+            userId: input.userId,
+            exceptSessionId: input.currentSessionId,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError('セッションの失効に失敗しました', cause),
+      }),
+      Effect.map((revokedCount) => ({ revokedCount })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedRevokeAllUserSessionsError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedRevokeAllUserSessionsError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersSessionsRevokeAllOutput, RevokeAllUserSessionsError>,
+  ): UsersSessionsRevokeAllOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRevokeAllUserSessionsError({
+                message: 'セッションの失効に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
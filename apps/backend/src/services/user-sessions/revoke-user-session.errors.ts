@@ -0,0 +1,27 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class UserSessionNotFoundError extends DomainError {
+  constructor(id: string) {
+    super(`セッションが見つかりません: ${id}`, 'UserSessionNotFoundError');
+  }
+}
+
+type UnexpectedRevokeUserSessionErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRevokeUserSessionError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRevokeUserSessionErrorParams) {
+    super(params.message, 'UnexpectedRevokeUserSessionError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RevokeUserSessionError =
+  | UserSessionNotFoundError
+  | UnexpectedRevokeUserSessionError;
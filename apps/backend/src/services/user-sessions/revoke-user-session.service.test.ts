@@ -0,0 +1,123 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type {
+  IUserSessionRepository,
+  UserSessionRecord,
+} from '../../domain/repositories/user-session.repository.interface';
+import { TOKENS } from '../di/tokens';
+import {
+  UnexpectedRevokeUserSessionError,
+  UserSessionNotFoundError,
+} from './revoke-user-session.errors';
+import { RevokeUserSessionUseCase } from './revoke-user-session.service';
+
+describe('RevokeUserSessionUseCase（セッションの失効）', () => {
+  const makeSession = (
+    override?: Partial<UserSessionRecord>,
+  ): UserSessionRecord => ({
+    id: 'session-2',
+    userId: 1,
+    device: 'Safari (iPhone)',
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '203.0.113.1',
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    lastSeenAt: new Date('2025-01-02T00:00:00.000Z'),
+    revokedAt: null,
+    ...override,
+  });
+
+  const setup = (overrides?: Partial<IUserSessionRepository>) => {
+    const sessionRepo: IUserSessionRepository = {
+      create: vi.fn(),
+      findById: vi.fn(async () => makeSession()),
+      findActiveByUserId: vi.fn(),
+      revoke: vi.fn(async () => undefined),
+      ...overrides,
+    };
+    const refreshTokenRepo: IRefreshTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(),
+      revoke: vi.fn(),
+      revokeFamily: vi.fn(async () => undefined),
+      revokeAllByUserId: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserSessionRepository>(TOKENS.UserSessionRepository)
+      .toConstantValue(sessionRepo);
+    container
+      .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+      .toConstantValue(refreshTokenRepo);
+    container.bind<RevokeUserSessionUseCase>(RevokeUserSessionUseCase).toSelf();
+
+    const useCase = container.get(RevokeUserSessionUseCase);
+
+    return { useCase, sessionRepo, refreshTokenRepo };
+  };
+
+  describe('正常系', () => {
+    it('セッションと同じファミリーのリフレッシュトークンを失効させる', async () => {
+      const { useCase, sessionRepo, refreshTokenRepo } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        sessionId: 'session-2',
+      });
+
+      expect(sessionRepo.revoke).toHaveBeenCalledWith('session-2');
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-2',
+      });
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しないセッションは UserSessionNotFoundError になる', async () => {
+      const { useCase } = setup({ findById: vi.fn(async () => null) });
+
+      await expect(
+        useCase.execute({ userId: 1, sessionId: 'unknown' }),
+      ).rejects.toBeInstanceOf(UserSessionNotFoundError);
+    });
+
+    it('他のユーザーのセッションは UserSessionNotFoundError になる', async () => {
+      const { useCase, sessionRepo } = setup({
+        findById: vi.fn(async () => makeSession({ userId: 2 })),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, sessionId: 'session-2' }),
+      ).rejects.toBeInstanceOf(UserSessionNotFoundError);
+      expect(sessionRepo.revoke).not.toHaveBeenCalled();
+    });
+
+    it('失効済みのセッションは UserSessionNotFoundError になる', async () => {
+      const { useCase } = setup({
+        findById: vi.fn(async () =>
+          makeSession({ revokedAt: new Date('2025-01-03T00:00:00.000Z') }),
+        ),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, sessionId: 'session-2' }),
+      ).rejects.toBeInstanceOf(UserSessionNotFoundError);
+    });
+
+    it('失効処理に失敗した場合は UnexpectedRevokeUserSessionError になる', async () => {
+      const { useCase } = setup({
+        revoke: vi.fn(async () => {
+          throw new Error('DB 接続エラー');
+        }),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, sessionId: 'session-2' }),
+      ).rejects.toBeInstanceOf(UnexpectedRevokeUserSessionError);
+    });
+  });
+});
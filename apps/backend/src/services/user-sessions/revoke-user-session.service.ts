@@ -0,0 +1,132 @@
+// Application Layer: Revoke User Session Use Case
+// 指定したログインセッションの失効を担当する（紛失した端末のログアウトなど）
+
+import type { UsersSessionsRevokeOutput } from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import type {
+  IUserSessionRepository,
+  UserSessionRecord,
+} from '../../domain/repositories/user-session.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type RevokeUserSessionError,
+  UnexpectedRevokeUserSessionError,
+  UserSessionNotFoundError,
+} from './revoke-user-session.errors';
+
+export type RevokeUserSessionInput = {
+  userId: number;
+  sessionId: string;
+};
+
+@injectable()
+export class RevokeUserSessionUseCase {
+  @inject(TOKENS.UserSessionRepository)
+  private userSessionRepository!: IUserSessionRepository;
+
+  @inject(TOKENS.RefreshTokenRepository)
+  private refreshTokenRepository!: IRefreshTokenRepository;
+
+  async execute(
+    input: RevokeUserSessionInput,
+  ): Promise<UsersSessionsRevokeOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: RevokeUserSessionInput,
+  ): Effect.Effect<UsersSessionsRevokeOutput, RevokeUserSessionError> {
+    return pipe(
+      this.fetchActiveSession(input),
+      Effect.flatMap((session) => this.revokeSession(session)),
+    );
+  }
+
+  // 他のユーザーのセッションは存在を明かさないよう、見つからない場合と同じ扱いにする
+  private fetchActiveSession(
+    input: RevokeUserSessionInput,
+  ): Effect.Effect<UserSessionRecord, RevokeUserSessionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userSessionRepository.findById(input.sessionId),
+        catch: (cause) =>
+          this.createUnexpectedError('セッションの取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (session): session is UserSessionRecord =>
+          session !== null &&
+          session.userId === input.userId &&
+          session.revokedAt === null,
+        () => new UserSessionNotFoundError(input.sessionId),
+      ),
+    );
+  }
+
+  private revokeSession(
+    session: UserSessionRecord,
+  ): Effect.Effect<UsersSessionsRevokeOutput, RevokeUserSessionError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            this.userSessionRepository.revoke(session.id),
+            this.refreshTokenRepository.revokeFamily({
+              userId: session.userId,
+              familyId: session.id,
+            }),
+          ]),
+        catch: (cause) =>
+          this.createUnexpectedError('セッションの失効に失敗しました', cause),
+      }),
+      Effect.map(() => ({ success: true })),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedRevokeUserSessionError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedRevokeUserSessionError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersSessionsRevokeOutput, RevokeUserSessionError>,
+  ): UsersSessionsRevokeOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRevokeUserSessionError({
+                message: 'セッションの失効に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
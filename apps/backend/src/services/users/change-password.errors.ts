@@ -0,0 +1,38 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { InvalidPasswordError } from './register-user.errors';
+
+export { InvalidPasswordError } from './register-user.errors';
+
+export class UserNotFoundError extends DomainError {
+  constructor() {
+    super('ユーザーが見つかりません', 'UserNotFoundError');
+  }
+}
+
+export class InvalidCurrentPasswordError extends DomainError {
+  constructor() {
+    super('現在のパスワードが正しくありません', 'InvalidCurrentPasswordError');
+  }
+}
+
+type UnexpectedChangePasswordErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedChangePasswordError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedChangePasswordErrorParams) {
+    super(params.message, 'UnexpectedChangePasswordError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ChangePasswordError =
+  | UserNotFoundError
+  | InvalidCurrentPasswordError
+  | InvalidPasswordError
+  | UnexpectedChangePasswordError;
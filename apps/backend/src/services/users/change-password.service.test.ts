@@ -0,0 +1,152 @@
+import { Container } from 'inversify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type { IPasswordResetTokenRepository } from '../../domain/repositories/password-reset-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidCurrentPasswordError,
+  InvalidPasswordError,
+  UnexpectedChangePasswordError,
+  UserNotFoundError,
+} from './change-password.errors';
+import { ChangePasswordUseCase } from './change-password.service';
+
+describe('ChangePasswordUseCase（パスワード変更）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:old-hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const input = {
+    userId: 1,
+    currentSessionId: 'session-1',
+    currentPassword: 'OldPassword#123',
+    newPassword: 'NewPassword#456',
+  };
+
+  const setup = (overrides?: Partial<IUserRepository>) => {
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () => makeUser()),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(async () => undefined),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+      ...overrides,
+    };
+    const resetTokenRepo: IPasswordResetTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(),
+      markUsed: vi.fn(),
+      invalidateAllByUserId: vi.fn(async () => undefined),
+    };
+    const sessionService: ISessionService = {
+      start: vi.fn(),
+      revokeAll: vi.fn(async () => 2),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<IPasswordResetTokenRepository>(TOKENS.PasswordResetTokenRepository)
+      .toConstantValue(resetTokenRepo);
+    container
+      .bind<ISessionService>(TOKENS.SessionService)
+      .toConstantValue(sessionService);
+    container.bind<ChangePasswordUseCase>(ChangePasswordUseCase).toSelf();
+
+    const useCase = container.get(ChangePasswordUseCase);
+
+    return { useCase, userRepo, resetTokenRepo, sessionService };
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(PasswordHash, 'create').mockResolvedValue(
+      PasswordHash.reconstruct('salt:new-hash'),
+    );
+  });
+
+  describe('正常系', () => {
+    it('パスワードを更新し、現在のセッション以外と未使用の再設定トークンを無効にする', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+      const { useCase, userRepo, resetTokenRepo, sessionService } = setup();
+
+      const result = await useCase.execute(input);
+
+      expect(User.prototype.verifyPassword).toHaveBeenCalledWith(
+        'OldPassword#123',
+      );
+      expect(PasswordHash.create).toHaveBeenCalledWith('NewPassword#456');
+      const [updated] = vi.mocked(userRepo.updatePassword).mock.calls[0];
+      expect(updated.passwordHash.value).toBe('salt:new-hash');
+      expect(sessionService.revokeAll).toHaveBeenCalledWith({
+        userId: 1,
+        exceptSessionId: 'session-1',
+      });
+      expect(resetTokenRepo.invalidateAllByUserId).toHaveBeenCalledWith(1);
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('現在のパスワードが一致しない場合は InvalidCurrentPasswordError になり、更新しない', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(false);
+      const { useCase, userRepo, sessionService } = setup();
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidCurrentPasswordError,
+      );
+      expect(userRepo.updatePassword).not.toHaveBeenCalled();
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('新しいパスワードが要件を満たさない場合は InvalidPasswordError になる', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+      const { useCase, userRepo } = setup();
+
+      await expect(
+        useCase.execute({ ...input, newPassword: 'short' }),
+      ).rejects.toBeInstanceOf(InvalidPasswordError);
+      expect(userRepo.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('ユーザーが存在しない場合は UserNotFoundError になる', async () => {
+      const { useCase } = setup({ findById: vi.fn(async () => null) });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UserNotFoundError,
+      );
+    });
+
+    it('パスワードの更新に失敗した場合は UnexpectedChangePasswordError になり、セッションは残す', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+      const { useCase, sessionService } = setup({
+        updatePassword: vi.fn(async () => {
+          throw new Error('DB 接続エラー');
+        }),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UnexpectedChangePasswordError,
+      );
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+});
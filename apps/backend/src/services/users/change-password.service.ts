@@ -0,0 +1,194 @@
+// Application Layer: Change Password Use Case
+// 現在のパスワードを確認したうえでパスワードを変更し、現在のセッション以外を失効させる
+
+import type {
+  UsersChangePasswordInput,
+  UsersChangePasswordOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { User } from '../../domain/entities/user.entity';
+import type { IPasswordResetTokenRepository } from '../../domain/repositories/password-reset-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Password } from '../../domain/values/password';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { Effect, Either, pipe } from '../../shared/result';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  type ChangePasswordError,
+  InvalidCurrentPasswordError,
+  InvalidPasswordError,
+  UnexpectedChangePasswordError,
+  UserNotFoundError,
+} from './change-password.errors';
+
+export type ChangePasswordInput = UsersChangePasswordInput & {
+  userId: number;
+  currentSessionId?: string;
+};
+
+type PasswordValidatedInput = {
+  user: User;
+  newPassword: Password;
+};
+
+@injectable()
+export class ChangePasswordUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.PasswordResetTokenRepository)
+  private passwordResetTokenRepository!: IPasswordResetTokenRepository;
+
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  async execute(
+    input: ChangePasswordInput,
+  ): Promise<UsersChangePasswordOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: ChangePasswordInput,
+  ): Effect.Effect<UsersChangePasswordOutput, ChangePasswordError> {
+    return pipe(
+      this.findUser(input.userId),
+      Effect.flatMap((user) =>
+        this.verifyCurrentPassword(user, input.currentPassword),
+      ),
+      Effect.flatMap((user) => this.validateNewPassword(user, input)),
+      Effect.flatMap((value) => this.updatePassword(value)),
+      Effect.flatMap(() => this.revokeOtherSessions(input)),
+      Effect.map(() => ({ success: true })),
+    );
+  }
+
+  private findUser(userId: number): Effect.Effect<User, ChangePasswordError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new UserNotFoundError())
+          : Effect.succeed(user),
+      ),
+    );
+  }
+
+  private verifyCurrentPassword(
+    user: User,
+    currentPassword: string,
+  ): Effect.Effect<User, ChangePasswordError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => user.verifyPassword(currentPassword),
+        catch: (cause) =>
+          this.createUnexpectedError('パスワードの照合に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (matched) => matched,
+        () => new InvalidCurrentPasswordError(),
+      ),
+      Effect.map(() => user),
+    );
+  }
+
+  private validateNewPassword(
+    user: User,
+    input: ChangePasswordInput,
+  ): Effect.Effect<PasswordValidatedInput, ChangePasswordError> {
+    return pipe(
+      Password.create(input.newPassword),
+      Either.map((newPassword) => ({ user, newPassword })),
+      Either.mapLeft((error) => new InvalidPasswordError(error.message)),
+      Either.match({
+        onLeft: (error) => Effect.fail(error),
+        onRight: (value) => Effect.succeed(value),
+      }),
+    );
+  }
+
+  private updatePassword(
+    input: PasswordValidatedInput,
+  ): Effect.Effect<void, ChangePasswordError> {
+    return Effect.tryPromise({
+      try: async () => {
+        input.user.changePassword(
+          await PasswordHash.create(input.newPassword.value),
+        );
+        await this.userRepository.updatePassword(input.user);
+      },
+      catch: (cause) =>
+        this.createUnexpectedError('パスワードの更新に失敗しました', cause),
+    });
+  }
+
+  // 変更前のパスワードで発行された他端末のセッションと、未使用の再設定トークンを無効にする
+  private revokeOtherSessions(
+    input: ChangePasswordInput,
+  ): Effect.Effect<void, ChangePasswordError> {
+    return Effect.tryPromise({
+      try: async () => {
+        await this.sessionService.revokeAll({
+          userId: input.userId,
+          exceptSessionId: input.currentSessionId,
+        });
+        await this.passwordResetTokenRepository.invalidateAllByUserId(
+          input.userId,
+        );
+      },
+      catch: (cause) =>
+        this.createUnexpectedError('セッションの失効に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedChangePasswordError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedChangePasswordError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersChangePasswordOutput, ChangePasswordError>,
+  ): UsersChangePasswordOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedChangePasswordError({
+                message: 'パスワードの変更に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { EmailAlreadyExistsError } from './register-user.errors';
+
+export { EmailAlreadyExistsError } from './register-user.errors';
+
+export class InvalidEmailChangeTokenError extends DomainError {
+  constructor() {
+    super(
+      'メールアドレス変更の確認用トークンが無効または期限切れです',
+      'InvalidEmailChangeTokenError',
+    );
+  }
+}
+
+type UnexpectedConfirmEmailChangeErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedConfirmEmailChangeError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedConfirmEmailChangeErrorParams) {
+    super(params.message, 'UnexpectedConfirmEmailChangeError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ConfirmEmailChangeError =
+  | InvalidEmailChangeTokenError
+  | EmailAlreadyExistsError
+  | UnexpectedConfirmEmailChangeError;
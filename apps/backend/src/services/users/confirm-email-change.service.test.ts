@@ -0,0 +1,168 @@
+import { Container } from 'inversify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type {
+  EmailChangeTokenRecord,
+  IEmailChangeTokenRepository,
+} from '../../domain/repositories/email-change-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { hashEmailChangeToken } from '../auth/email-change-token.service';
+import { TOKENS } from '../di/tokens';
+import {
+  EmailAlreadyExistsError,
+  InvalidEmailChangeTokenError,
+} from './confirm-email-change.errors';
+import { ConfirmEmailChangeUseCase } from './confirm-email-change.service';
+
+describe('ConfirmEmailChangeUseCase（メールアドレス変更の確認）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const makeRecord = (
+    overrides?: Partial<EmailChangeTokenRecord>,
+  ): EmailChangeTokenRecord => ({
+    id: 10,
+    userId: 1,
+    newEmail: 'new@example.com',
+    tokenHash: hashEmailChangeToken('change-token'),
+    expiresAt: new Date(Date.now() + 60_000),
+    usedAt: null,
+    createdAt: fixedNow,
+    ...overrides,
+  });
+
+  const setup = (params?: {
+    record?: EmailChangeTokenRecord | null;
+    markUsed?: boolean;
+    emailExists?: boolean;
+    user?: User | null;
+  }) => {
+    const tokenRepo: IEmailChangeTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(async () =>
+        params?.record === undefined ? makeRecord() : params.record,
+      ),
+      markUsed: vi.fn(async () => params?.markUsed ?? true),
+      invalidateAllByUserId: vi.fn(),
+    };
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () =>
+        params?.user === undefined ? makeUser() : params.user,
+      ),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(async () => params?.emailExists ?? false),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(async () => undefined),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+
+    const container = new Container();
+    container
+      .bind<IEmailChangeTokenRepository>(TOKENS.EmailChangeTokenRepository)
+      .toConstantValue(tokenRepo);
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ConfirmEmailChangeUseCase>(ConfirmEmailChangeUseCase)
+      .toSelf();
+
+    const useCase = container.get(ConfirmEmailChangeUseCase);
+
+    return { useCase, tokenRepo, userRepo };
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('トークンを使用済みにして、メールアドレスを変更後のアドレスに更新する', async () => {
+      const { useCase, tokenRepo, userRepo } = setup();
+
+      const result = await useCase.execute({ token: 'change-token' });
+
+      expect(tokenRepo.findByTokenHash).toHaveBeenCalledWith(
+        hashEmailChangeToken('change-token'),
+      );
+      expect(tokenRepo.markUsed).toHaveBeenCalledWith(10);
+      const [updated] = vi.mocked(userRepo.updateProfile).mock.calls[0];
+      expect(updated.email).toBe('new@example.com');
+      expect(result.user).toMatchObject({ id: 1, email: 'new@example.com' });
+    });
+  });
+
+  describe('異常系', () => {
+    it('トークンが存在しない場合は InvalidEmailChangeTokenError になる', async () => {
+      const { useCase, userRepo } = setup({ record: null });
+
+      await expect(
+        useCase.execute({ token: 'unknown' }),
+      ).rejects.toBeInstanceOf(InvalidEmailChangeTokenError);
+      expect(userRepo.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('使用済みのトークンは InvalidEmailChangeTokenError になる', async () => {
+      const { useCase, tokenRepo } = setup({
+        record: makeRecord({ usedAt: fixedNow }),
+      });
+
+      await expect(
+        useCase.execute({ token: 'change-token' }),
+      ).rejects.toBeInstanceOf(InvalidEmailChangeTokenError);
+      expect(tokenRepo.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('有効期限切れのトークンは InvalidEmailChangeTokenError になる', async () => {
+      const { useCase, tokenRepo } = setup({
+        record: makeRecord({ expiresAt: new Date(Date.now() - 1) }),
+      });
+
+      await expect(
+        useCase.execute({ token: 'change-token' }),
+      ).rejects.toBeInstanceOf(InvalidEmailChangeTokenError);
+      expect(tokenRepo.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('同時に使われて先に使用済みになっていた場合は InvalidEmailChangeTokenError になる', async () => {
+      const { useCase, userRepo } = setup({ markUsed: false });
+
+      await expect(
+        useCase.execute({ token: 'change-token' }),
+      ).rejects.toBeInstanceOf(InvalidEmailChangeTokenError);
+      expect(userRepo.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('申請後に変更後のアドレスが他のユーザーに使われた場合は EmailAlreadyExistsError になり、トークンを消費しない', async () => {
+      const { useCase, tokenRepo } = setup({ emailExists: true });
+
+      await expect(
+        useCase.execute({ token: 'change-token' }),
+      ).rejects.toBeInstanceOf(EmailAlreadyExistsError);
+      expect(tokenRepo.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('ユーザーが退会済みの場合は InvalidEmailChangeTokenError になる', async () => {
+      const { useCase, userRepo } = setup({ user: null });
+
+      await expect(
+        useCase.execute({ token: 'change-token' }),
+      ).rejects.toBeInstanceOf(InvalidEmailChangeTokenError);
+      expect(userRepo.updateProfile).not.toHaveBeenCalled();
+    });
+  });
+});
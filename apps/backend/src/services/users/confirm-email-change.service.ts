@@ -0,0 +1,211 @@
+// Application Layer: Confirm Email Change Use Case
+// 変更後のメールアドレスに送った確認用トークンを1回だけ使って、メールアドレスの変更を反映する
+
+import type {
+  UsersConfirmEmailChangeInput,
+  UsersConfirmEmailChangeOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { User } from '../../domain/entities/user.entity';
+import type {
+  EmailChangeTokenRecord,
+  IEmailChangeTokenRepository,
+} from '../../domain/repositories/email-change-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { hashEmailChangeToken } from '../auth/email-change-token.service';
+import { TOKENS } from '../di/tokens';
+import {
+  type ConfirmEmailChangeError,
+  EmailAlreadyExistsError,
+  InvalidEmailChangeTokenError,
+  UnexpectedConfirmEmailChangeError,
+} from './confirm-email-change.errors';
+
+@injectable()
+export class ConfirmEmailChangeUseCase {
+  @inject(TOKENS.EmailChangeTokenRepository)
+  private emailChangeTokenRepository!: IEmailChangeTokenRepository;
+
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  async execute(
+    input: UsersConfirmEmailChangeInput,
+  ): Promise<UsersConfirmEmailChangeOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UsersConfirmEmailChangeInput,
+  ): Effect.Effect<UsersConfirmEmailChangeOutput, ConfirmEmailChangeError> {
+    return pipe(
+      this.findChangeToken(input.token),
+      Effect.flatMap((record) => this.ensureUsable(record)),
+      // NOTE: 申請後に同じアドレスで別のユーザーが登録している可能性があるため、反映前に再確認する
+      Effect.flatMap((record) => this.ensureEmailAvailable(record)),
+      Effect.flatMap((record) => this.consumeChangeToken(record)),
+      Effect.flatMap((record) => this.changeEmail(record)),
+      Effect.map((user) => ({
+        user: {
+          id: Number(user.id),
+          email: user.email,
+          name: user.name,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+      })),
+    );
+  }
+
+  private findChangeToken(
+    token: string,
+  ): Effect.Effect<EmailChangeTokenRecord, ConfirmEmailChangeError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.emailChangeTokenRepository.findByTokenHash(
+            hashEmailChangeToken(token),
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '確認用トークンの取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new InvalidEmailChangeTokenError())
+          : Effect.succeed(record),
+      ),
+    );
+  }
+
+  private ensureUsable(
+    record: EmailChangeTokenRecord,
+  ): Effect.Effect<EmailChangeTokenRecord, ConfirmEmailChangeError> {
+    return pipe(
+      Effect.succeed(record),
+      Effect.filterOrFail(
+        ({ usedAt }) => usedAt === null,
+        () => new InvalidEmailChangeTokenError(),
+      ),
+      Effect.filterOrFail(
+        ({ expiresAt }) => expiresAt.getTime() > Date.now(),
+        () => new InvalidEmailChangeTokenError(),
+      ),
+    );
+  }
+
+  private ensureEmailAvailable(
+    record: EmailChangeTokenRecord,
+  ): Effect.Effect<EmailChangeTokenRecord, ConfirmEmailChangeError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.existsByEmail(record.newEmail),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (exists) => !exists,
+        () => new EmailAlreadyExistsError(record.newEmail),
+      ),
+      Effect.map(() => record),
+    );
+  }
+
+  // 同時に使われて先に使用済みになっていた場合も無効なトークンとして扱う
+  private consumeChangeToken(
+    record: EmailChangeTokenRecord,
+  ): Effect.Effect<EmailChangeTokenRecord, ConfirmEmailChangeError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.emailChangeTokenRepository.markUsed(record.id),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '確認用トークンの更新に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (used) => used,
+        () => new InvalidEmailChangeTokenError(),
+      ),
+      Effect.map(() => record),
+    );
+  }
+
+  private changeEmail(
+    record: EmailChangeTokenRecord,
+  ): Effect.Effect<User, ConfirmEmailChangeError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(record.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new InvalidEmailChangeTokenError())
+          : Effect.tryPromise({
+              try: async () => {
+                user.changeEmail(record.newEmail);
+                await this.userRepository.updateProfile(user);
+                return user;
+              },
+              catch: (cause) =>
+                this.createUnexpectedError(
+                  'メールアドレスの更新に失敗しました',
+                  cause,
+                ),
+            }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedConfirmEmailChangeError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedConfirmEmailChangeError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersConfirmEmailChangeOutput, ConfirmEmailChangeError>,
+  ): UsersConfirmEmailChangeOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedConfirmEmailChangeError({
+                message: 'メールアドレスの変更に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
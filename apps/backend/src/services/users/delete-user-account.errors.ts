@@ -0,0 +1,31 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type {
+  InvalidCurrentPasswordError,
+  UserNotFoundError,
+} from './change-password.errors';
+
+export {
+  InvalidCurrentPasswordError,
+  UserNotFoundError,
+} from './change-password.errors';
+
+type UnexpectedDeleteUserAccountErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedDeleteUserAccountError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedDeleteUserAccountErrorParams) {
+    super(params.message, 'UnexpectedDeleteUserAccountError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type DeleteUserAccountError =
+  | UserNotFoundError
+  | InvalidCurrentPasswordError
+  | UnexpectedDeleteUserAccountError;
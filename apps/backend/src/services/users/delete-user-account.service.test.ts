@@ -0,0 +1,117 @@
+import { Container } from 'inversify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidCurrentPasswordError,
+  UnexpectedDeleteUserAccountError,
+  UserNotFoundError,
+} from './delete-user-account.errors';
+import { DeleteUserAccountUseCase } from './delete-user-account.service';
+
+describe('DeleteUserAccountUseCase（退会）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const input = { userId: 1, password: 'Password#123' };
+
+  const setup = (overrides?: Partial<IUserRepository>) => {
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () => makeUser()),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(async () => undefined),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+      ...overrides,
+    };
+    const sessionService: ISessionService = {
+      start: vi.fn(),
+      revokeAll: vi.fn(async () => 2),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ISessionService>(TOKENS.SessionService)
+      .toConstantValue(sessionService);
+    container.bind<DeleteUserAccountUseCase>(DeleteUserAccountUseCase).toSelf();
+
+    const useCase = container.get(DeleteUserAccountUseCase);
+
+    return { useCase, userRepo, sessionService };
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('パスワードを確認して論理削除し、すべてのセッションを失効させる', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+      const { useCase, userRepo, sessionService } = setup();
+
+      const result = await useCase.execute(input);
+
+      expect(User.prototype.verifyPassword).toHaveBeenCalledWith(
+        'Password#123',
+      );
+      expect(userRepo.softDelete).toHaveBeenCalledWith(1);
+      expect(sessionService.revokeAll).toHaveBeenCalledWith({ userId: 1 });
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('パスワードが一致しない場合は InvalidCurrentPasswordError になり、削除しない', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(false);
+      const { useCase, userRepo, sessionService } = setup();
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidCurrentPasswordError,
+      );
+      expect(userRepo.softDelete).not.toHaveBeenCalled();
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('ユーザーが存在しない場合は UserNotFoundError になる', async () => {
+      const { useCase } = setup({ findById: vi.fn(async () => null) });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UserNotFoundError,
+      );
+    });
+
+    it('論理削除に失敗した場合は UnexpectedDeleteUserAccountError になる', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+      const { useCase, sessionService } = setup({
+        softDelete: vi.fn(async () => {
+          throw new Error('db down');
+        }),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        UnexpectedDeleteUserAccountError,
+      );
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// Application Layer: Delete User Account Use Case
+// パスワードを確認したうえで退会済み（論理削除）にし、すべてのセッションを失効させる
+// NOTE: 取引などの関連データは猶予期間の経過後に PurgeDeletedUsersUseCase が削除する
+
+import type {
+  UsersDeleteAccountInput,
+  UsersDeleteAccountOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  type DeleteUserAccountError,
+  InvalidCurrentPasswordError,
+  UnexpectedDeleteUserAccountError,
+  UserNotFoundError,
+} from './delete-user-account.errors';
+
+export type DeleteUserAccountInput = UsersDeleteAccountInput & {
+  userId: number;
+};
+
+@injectable()
+export class DeleteUserAccountUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  async execute(
+    input: DeleteUserAccountInput,
+  ): Promise<UsersDeleteAccountOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: DeleteUserAccountInput,
+  ): Effect.Effect<UsersDeleteAccountOutput, DeleteUserAccountError> {
+    return pipe(
+      this.findUser(input.userId),
+      Effect.flatMap((user) => this.verifyPassword(user, input.password)),
+      Effect.flatMap(() => this.softDelete(input.userId)),
+      Effect.flatMap(() => this.revokeAllSessions(input.userId)),
+      Effect.map(() => ({ success: true })),
+    );
+  }
+
+  private findUser(
+    userId: number,
+  ): Effect.Effect<User, DeleteUserAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new UserNotFoundError())
+          : Effect.succeed(user),
+      ),
+    );
+  }
+
+  private verifyPassword(
+    user: User,
+    password: string,
+  ): Effect.Effect<User, DeleteUserAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => user.verifyPassword(password),
+        catch: (cause) =>
+          this.createUnexpectedError('パスワードの照合に失敗しました', cause),
+      }),
+      Effect.filterOrFail(
+        (matched) => matched,
+        () => new InvalidCurrentPasswordError(),
+      ),
+      Effect.map(() => user),
+    );
+  }
+
+  private softDelete(
+    userId: number,
+  ): Effect.Effect<void, DeleteUserAccountError> {
+    return Effect.tryPromise({
+      try: () => this.userRepository.softDelete(userId),
+      catch: (cause) =>
+        this.createUnexpectedError('退会処理に失敗しました', cause),
+    });
+  }
+
+  private revokeAllSessions(
+    userId: number,
+  ): Effect.Effect<void, DeleteUserAccountError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.sessionService.revokeAll({ userId }),
+        catch: (cause) =>
+          this.createUnexpectedError('セッションの失効に失敗しました', cause),
+      }),
+      Effect.asVoid,
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedDeleteUserAccountError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedDeleteUserAccountError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersDeleteAccountOutput, DeleteUserAccountError>,
+  ): UsersDeleteAccountOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedDeleteUserAccountError({
+                message: '退会処理に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
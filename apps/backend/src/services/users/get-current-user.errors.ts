@@ -0,0 +1,24 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { UserNotFoundError } from './change-password.errors';
+
+export { UserNotFoundError } from './change-password.errors';
+
+type UnexpectedGetCurrentUserErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedGetCurrentUserError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedGetCurrentUserErrorParams) {
+    super(params.message, 'UnexpectedGetCurrentUserError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type GetCurrentUserError =
+  | UserNotFoundError
+  | UnexpectedGetCurrentUserError;
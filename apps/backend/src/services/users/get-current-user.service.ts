@@ -0,0 +1,98 @@
+// Application Layer: Get Current User Use Case
+// ログイン中のユーザー自身のプロフィールを取得する
+
+import type { UsersMeOutput } from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import {
+  type GetCurrentUserError,
+  UnexpectedGetCurrentUserError,
+  UserNotFoundError,
+} from './get-current-user.errors';
+
+export type GetCurrentUserInput = {
+  userId: number;
+};
+
+@injectable()
+export class GetCurrentUserUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  async execute(input: GetCurrentUserInput): Promise<UsersMeOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: GetCurrentUserInput,
+  ): Effect.Effect<UsersMeOutput, GetCurrentUserError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(input.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new UserNotFoundError())
+          : Effect.succeed({
+              user: {
+                id: Number(user.id),
+                email: user.email,
+                name: user.name,
+                createdAt: user.createdAt,
+                updatedAt: user.updatedAt,
+              },
+            }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedGetCurrentUserError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedGetCurrentUserError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersMeOutput, GetCurrentUserError>,
+  ): UsersMeOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedGetCurrentUserError({
+                message: 'ユーザー情報の取得に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
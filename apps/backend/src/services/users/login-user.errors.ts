@@ -9,6 +9,18 @@ export class InvalidCredentialsError extends DomainError {
   }
 }
 
+export class TooManyLoginAttemptsError extends DomainError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      'ログインの失敗が続いたため、一時的にログインを制限しています。しばらくしてから再度お試しください',
+      'TooManyLoginAttemptsError',
+    );
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 type UnexpectedLoginUserErrorParams = {
   message: string;
   cause?: Error;
@@ -25,4 +37,7 @@ export class UnexpectedLoginUserError extends DomainError {
   }
 }
 
-export type LoginUserError = InvalidCredentialsError | UnexpectedLoginUserError;
+export type LoginUserError =
+  | InvalidCredentialsError
+  | TooManyLoginAttemptsError
+  | UnexpectedLoginUserError;
@@ -6,8 +6,14 @@ import type { IUserRepository } from '../../domain/repositories/user.repository.
 import { PasswordHash } from '../../domain/values/password-hash';
 
 import type { ICreateJwtService } from '../auth/create-jwt.service';
+import type { ILoginThrottleService } from '../auth/login-throttle.service';
+import type { IRefreshTokenService } from '../auth/refresh-token.service';
+import type { ISessionService } from '../auth/session.service';
 import { TOKENS } from '../di/tokens';
-import { InvalidCredentialsError } from './login-user.errors';
+import {
+  InvalidCredentialsError,
+  TooManyLoginAttemptsError,
+} from './login-user.errors';
 import { LoginUserUseCase } from './login-user.service';
 
 describe('LoginUserUseCase（ログイン）', () => {
@@ -24,15 +30,39 @@ describe('LoginUserUseCase（ログイン）', () => {
       fixedNow,
     );
 
-  const setup = (overrides?: Partial<IUserRepository>) => {
+  const setup = (
+    overrides?: Partial<IUserRepository>,
+    retryAfterSeconds: number | null = null,
+  ) => {
     const createJwtService: ICreateJwtService = {
       create: vi.fn(async () => 'test.jwt.token'),
     };
 
+    const refreshTokenService: IRefreshTokenService = {
+      issue: vi.fn(async () => 'test-refresh-token'),
+    };
+
+    const sessionService: ISessionService = {
+      start: vi.fn(async () => 'session-1'),
+      revokeAll: vi.fn(),
+    };
+
+    const loginThrottleService: ILoginThrottleService = {
+      getRetryAfterSeconds: vi.fn(async () => retryAfterSeconds),
+      recordFailure: vi.fn(async () => undefined),
+      recordSuccess: vi.fn(async () => undefined),
+    };
+
     const repo: IUserRepository = {
+      findById: vi.fn(async () => null),
       findByEmail: vi.fn(async () => makeUser()),
       existsByEmail: vi.fn(async () => false),
       create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
       ...overrides,
     };
 
@@ -43,11 +73,27 @@ describe('LoginUserUseCase（ログイン）', () => {
     container
       .bind<ICreateJwtService>(TOKENS.CreateJwtService)
       .toConstantValue(createJwtService);
+    container
+      .bind<IRefreshTokenService>(TOKENS.RefreshTokenService)
+      .toConstantValue(refreshTokenService);
+    container
+      .bind<ISessionService>(TOKENS.SessionService)
+      .toConstantValue(sessionService);
+    container
+      .bind<ILoginThrottleService>(TOKENS.LoginThrottleService)
+      .toConstantValue(loginThrottleService);
     container.bind<LoginUserUseCase>(LoginUserUseCase).toSelf();
 
     const useCase = container.get(LoginUserUseCase);
 
-    return { useCase, repo, createJwtService };
+    return {
+      useCase,
+      repo,
+      createJwtService,
+      refreshTokenService,
+      sessionService,
+      loginThrottleService,
+    };
   };
 
   beforeEach(() => {
@@ -58,7 +104,7 @@ describe('LoginUserUseCase（ログイン）', () => {
     it('正しい認証情報でログインするとトークンを返す', async () => {
       vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
 
-      const { useCase, repo, createJwtService } = setup();
+      const { useCase, repo, createJwtService, refreshTokenService } = setup();
 
       const result = await useCase.execute({
         email: 'Test@Example.Com',
@@ -69,8 +115,61 @@ describe('LoginUserUseCase（ログイン）', () => {
       expect(repo.findByEmail).toHaveBeenCalledWith('test@example.com');
       expect(createJwtService.create).toHaveBeenCalled();
       expect(result.token).toBe('test.jwt.token');
+      expect(refreshTokenService.issue).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-1',
+      });
+      expect(result.refreshToken).toBe('test-refresh-token');
       expect(result.user.email).toBe('test@example.com');
     });
+
+    it('ログイン元の端末情報でセッションを開始し、アクセストークンに紐づける', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+
+      const { useCase, createJwtService, sessionService } = setup();
+      const client = { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.1' };
+
+      await useCase.execute(
+        {
+          email: 'test@example.com',
+          name: 'テストユーザー',
+          password: 'VeryStrong#123',
+        },
+        client,
+      );
+
+      expect(sessionService.start).toHaveBeenCalledWith({ userId: 1, client });
+      expect(createJwtService.create).toHaveBeenCalledWith({
+        userId: 1,
+        email: 'test@example.com',
+        sessionId: 'session-1',
+      });
+    });
+
+    it('ログインに成功するとメールアドレスの失敗回数をリセットする', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+
+      const { useCase, loginThrottleService } = setup();
+
+      await useCase.execute(
+        {
+          email: 'Test@Example.com',
+          name: 'テストユーザー',
+          password: 'VeryStrong#123',
+        },
+        { ipAddress: '203.0.113.1' },
+      );
+
+      expect(loginThrottleService.getRetryAfterSeconds).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        ipAddress: '203.0.113.1',
+      });
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        ipAddress: '203.0.113.1',
+      });
+      expect(loginThrottleService.recordFailure).not.toHaveBeenCalled();
+    });
   });
 
   describe('異常系', () => {
@@ -105,15 +204,42 @@ describe('LoginUserUseCase（ログイン）', () => {
     it('パスワードが誤っている場合は InvalidCredentialsError', async () => {
       vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(false);
 
-      const { useCase } = setup();
+      const { useCase, loginThrottleService } = setup();
 
       await expect(
-        useCase.execute({
+        useCase.execute(
+          {
+            email: 'test@example.com',
+            name: 'テストユーザー',
+            password: 'WrongPassword#999',
+          },
+          { ipAddress: '203.0.113.1' },
+        ),
+      ).rejects.toBeInstanceOf(InvalidCredentialsError);
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        ipAddress: '203.0.113.1',
+      });
+      expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('ロック中は認証情報を照合せず TooManyLoginAttemptsError になる', async () => {
+      vi.spyOn(User.prototype, 'verifyPassword').mockResolvedValue(true);
+
+      const { useCase, repo, loginThrottleService } = setup(undefined, 120);
+
+      const error = await useCase
+        .execute({
           email: 'test@example.com',
           name: 'テストユーザー',
-          password: 'WrongPassword#999',
-        }),
-      ).rejects.toBeInstanceOf(InvalidCredentialsError);
+          password: 'VeryStrong#123',
+        })
+        .catch((cause: unknown) => cause);
+
+      expect(error).toBeInstanceOf(TooManyLoginAttemptsError);
+      expect((error as TooManyLoginAttemptsError).retryAfterSeconds).toBe(120);
+      expect(repo.findByEmail).not.toHaveBeenCalled();
+      expect(loginThrottleService.recordFailure).not.toHaveBeenCalled();
     });
 
     it('削除済みユーザーは findByEmail が null を返すため InvalidCredentialsError', async () => {
@@ -11,10 +11,17 @@ import type { IUserRepository } from '../../domain/repositories/user.repository.
 import { UserName } from '../../domain/values/user-name';
 import { Effect, Either, pipe } from '../../shared/result';
 import type { ICreateJwtService } from '../auth/create-jwt.service';
+import type {
+  ILoginThrottleService,
+  LoginAttempt,
+} from '../auth/login-throttle.service';
+import type { IRefreshTokenService } from '../auth/refresh-token.service';
+import type { ISessionService, SessionClient } from '../auth/session.service';
 import { TOKENS } from '../di/tokens';
 import {
   InvalidCredentialsError,
   type LoginUserError,
+  TooManyLoginAttemptsError,
   UnexpectedLoginUserError,
 } from './login-user.errors';
 
@@ -30,6 +37,15 @@ type UserFoundInput = {
   password: string;
 };
 
+type SessionStartedInput = {
+  user: PublicUserRecord;
+  sessionId: string;
+};
+
+type TokenCreatedInput = SessionStartedInput & {
+  token: string;
+};
+
 @injectable()
 export class LoginUserUseCase {
   @inject(TOKENS.UserRepository)
@@ -38,21 +54,95 @@ export class LoginUserUseCase {
   @inject(TOKENS.CreateJwtService)
   private createJwtService!: ICreateJwtService;
 
-  async execute(input: UsersLoginInput): Promise<UsersLoginOutput> {
-    const program = this.buildProgram(input);
+  @inject(TOKENS.RefreshTokenService)
+  private refreshTokenService!: IRefreshTokenService;
+
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  @inject(TOKENS.LoginThrottleService)
+  private loginThrottleService!: ILoginThrottleService;
+
+  async execute(
+    input: UsersLoginInput,
+    client?: SessionClient,
+  ): Promise<UsersLoginOutput> {
+    const program = this.buildProgram(input, client);
     const exit = await Effect.runPromiseExit(program);
     return this.unwrapExit(exit);
   }
 
   private buildProgram(
     input: UsersLoginInput,
+    client?: SessionClient,
   ): Effect.Effect<UsersLoginOutput, LoginUserError> {
+    const attempt: LoginAttempt = {
+      email: input.email.trim().toLowerCase(),
+      ipAddress: client?.ipAddress,
+    };
+
     return pipe(
-      this.normalizeInput(input),
+      this.ensureNotLocked(attempt),
+      Effect.flatMap(() => this.normalizeInput(input)),
       Effect.flatMap((value) => this.findUser(value)),
       Effect.flatMap((value) => this.verifyName(value)),
       Effect.flatMap((value) => this.verifyPassword(value)),
-      Effect.flatMap((user) => this.createToken(user)),
+      Effect.tapError((error) =>
+        error instanceof InvalidCredentialsError
+          ? this.recordFailure(attempt)
+          : Effect.void,
+      ),
+      Effect.tap(() => this.recordSuccess(attempt)),
+      Effect.flatMap((user) => this.startSession(user, client)),
+      Effect.flatMap((value) => this.createToken(value)),
+      Effect.flatMap((value) => this.createRefreshToken(value)),
+    );
+  }
+
+  // NOTE: ロック中は認証情報が正しくても照合しない（総当たりで正解を判別させない）
+  private ensureNotLocked(
+    attempt: LoginAttempt,
+  ): Effect.Effect<void, LoginUserError> {
+    return pipe(
+      Effect.promise(() =>
+        this.loginThrottleService.getRetryAfterSeconds(attempt),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'ログイン試行回数の確認に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.flatMap((retryAfterSeconds) =>
+        retryAfterSeconds === null
+          ? Effect.void
+          : Effect.fail(new TooManyLoginAttemptsError(retryAfterSeconds)),
+      ),
+    );
+  }
+
+  private recordFailure(
+    attempt: LoginAttempt,
+  ): Effect.Effect<void, LoginUserError> {
+    return pipe(
+      Effect.promise(() => this.loginThrottleService.recordFailure(attempt)),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError('ログイン失敗の記録に失敗しました', cause),
+      ),
+    );
+  }
+
+  private recordSuccess(
+    attempt: LoginAttempt,
+  ): Effect.Effect<void, LoginUserError> {
+    return pipe(
+      Effect.promise(() => this.loginThrottleService.recordSuccess(attempt)),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'ログイン試行回数のリセットに失敗しました',
+          cause,
+        ),
+      ),
     );
   }
 
@@ -124,14 +214,30 @@ export class LoginUserUseCase {
     );
   }
 
-  private createToken(
+  private startSession(
     user: PublicUserRecord,
-  ): Effect.Effect<UsersLoginOutput, LoginUserError> {
+    client?: SessionClient,
+  ): Effect.Effect<SessionStartedInput, LoginUserError> {
+    return pipe(
+      Effect.promise(() =>
+        this.sessionService.start({ userId: user.id, client }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError('セッションの開始に失敗しました', cause),
+      ),
+      Effect.map((sessionId) => ({ user, sessionId })),
+    );
+  }
+
+  private createToken(
+    input: SessionStartedInput,
+  ): Effect.Effect<TokenCreatedInput, LoginUserError> {
     return pipe(
       Effect.promise(() =>
         this.createJwtService.create({
-          userId: user.id,
-          email: user.email,
+          userId: input.user.id,
+          email: input.user.email,
+          sessionId: input.sessionId,
         }),
       ),
       Effect.mapError((cause) =>
@@ -140,7 +246,31 @@ export class LoginUserUseCase {
           cause,
         ),
       ),
-      Effect.map((token) => ({ token, user })),
+      Effect.map((token) => ({ ...input, token })),
+    );
+  }
+
+  private createRefreshToken(
+    input: TokenCreatedInput,
+  ): Effect.Effect<UsersLoginOutput, LoginUserError> {
+    return pipe(
+      Effect.promise(() =>
+        this.refreshTokenService.issue({
+          userId: input.user.id,
+          familyId: input.sessionId,
+        }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの生成に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.map((refreshToken) => ({
+        token: input.token,
+        refreshToken,
+        user: input.user,
+      })),
     );
   }
 
@@ -1,5 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
 import type { ITokenBlacklistRepository } from '../../domain/repositories/token-blacklist.repository.interface';
+import type { IUserSessionRepository } from '../../domain/repositories/user-session.repository.interface';
+import { hashRefreshToken } from '../auth/refresh-token.service';
 import type {
   IVerifyJwtTokenProvider,
   VerifiedTokenPayload,
@@ -20,14 +23,33 @@ const makeRepo = (): ITokenBlacklistRepository => ({
   exists: vi.fn().mockResolvedValue(false),
 });
 
+const makeRefreshTokenRepo = (): IRefreshTokenRepository => ({
+  create: vi.fn(),
+  findByTokenHash: vi.fn().mockResolvedValue(null),
+  revoke: vi.fn().mockResolvedValue(true),
+  revokeFamily: vi.fn().mockResolvedValue(undefined),
+  revokeAllByUserId: vi.fn().mockResolvedValue(undefined),
+});
+
+const makeUserSessionRepo = (): IUserSessionRepository => ({
+  create: vi.fn(),
+  findById: vi.fn().mockResolvedValue(null),
+  findActiveByUserId: vi.fn().mockResolvedValue([]),
+  revoke: vi.fn().mockResolvedValue(undefined),
+});
+
 // InversifyJS の @inject を使わずに直接プロパティに注入してテスト
 const makeUseCase = (
   repo: ITokenBlacklistRepository,
   verifyProvider: IVerifyJwtTokenProvider,
+  refreshTokenRepo: IRefreshTokenRepository = makeRefreshTokenRepo(),
+  userSessionRepo: IUserSessionRepository = makeUserSessionRepo(),
 ) => {
   const useCase = new LogoutUserUseCase();
   Object.assign(useCase, {
     tokenBlacklistRepository: repo,
+    refreshTokenRepository: refreshTokenRepo,
+    userSessionRepository: userSessionRepo,
     verifyJwtTokenProvider: verifyProvider,
   });
   return useCase;
@@ -68,6 +90,92 @@ describe('LogoutUserUseCase', () => {
       });
       expect(result).toEqual({ success: true });
     });
+
+    it('アクセストークンのセッションと同じファミリーのリフレッシュトークンを失効させる', async () => {
+      const payload: VerifiedTokenPayload = {
+        sub: '42',
+        email: 'user@example.com',
+        iat: 1740000000,
+        exp: 1740086400,
+        sid: 'session-1',
+      };
+      const verifyProvider = makeVerifyProvider();
+      vi.mocked(verifyProvider.verify).mockResolvedValueOnce(payload);
+
+      const refreshTokenRepo = makeRefreshTokenRepo();
+      const userSessionRepo = makeUserSessionRepo();
+      const useCase = makeUseCase(
+        makeRepo(),
+        verifyProvider,
+        refreshTokenRepo,
+        userSessionRepo,
+      );
+
+      await useCase.execute({ token: 'valid.jwt.token' });
+
+      expect(userSessionRepo.revoke).toHaveBeenCalledWith('session-1');
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 42,
+        familyId: 'session-1',
+      });
+      expect(refreshTokenRepo.findByTokenHash).not.toHaveBeenCalled();
+    });
+
+    it('sidを持たないトークンでリフレッシュトークンを指定するとそのファミリーのみを失効させる', async () => {
+      const payload: VerifiedTokenPayload = {
+        sub: '42',
+        email: 'user@example.com',
+        iat: 1740000000,
+        exp: 1740086400,
+      };
+      const verifyProvider = makeVerifyProvider();
+      vi.mocked(verifyProvider.verify).mockResolvedValueOnce(payload);
+
+      const refreshTokenRepo = makeRefreshTokenRepo();
+      vi.mocked(refreshTokenRepo.findByTokenHash).mockResolvedValueOnce({
+        id: 1,
+        userId: 42,
+        familyId: 'family-1',
+        tokenHash: hashRefreshToken('refresh-token'),
+        expiresAt: new Date('2025-02-01T00:00:00.000Z'),
+        revokedAt: null,
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+      });
+      const useCase = makeUseCase(makeRepo(), verifyProvider, refreshTokenRepo);
+
+      await useCase.execute({
+        token: 'valid.jwt.token',
+        refreshToken: 'refresh-token',
+      });
+
+      expect(refreshTokenRepo.findByTokenHash).toHaveBeenCalledWith(
+        hashRefreshToken('refresh-token'),
+      );
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 42,
+        familyId: 'family-1',
+      });
+      expect(refreshTokenRepo.revokeAllByUserId).not.toHaveBeenCalled();
+    });
+
+    it('リフレッシュトークンを指定しない場合はユーザーのものをすべて失効させる', async () => {
+      const payload: VerifiedTokenPayload = {
+        sub: '42',
+        email: 'user@example.com',
+        iat: 1740000000,
+        exp: 1740086400,
+      };
+      const verifyProvider = makeVerifyProvider();
+      vi.mocked(verifyProvider.verify).mockResolvedValueOnce(payload);
+
+      const refreshTokenRepo = makeRefreshTokenRepo();
+      const useCase = makeUseCase(makeRepo(), verifyProvider, refreshTokenRepo);
+
+      await useCase.execute({ token: 'valid.jwt.token' });
+
+      expect(refreshTokenRepo.revokeAllByUserId).toHaveBeenCalledWith(42);
+      expect(refreshTokenRepo.revokeFamily).not.toHaveBeenCalled();
+    });
   });
 
   describe('異常系', () => {
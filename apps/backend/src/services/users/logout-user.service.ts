@@ -1,7 +1,10 @@
 import type { UsersLogoutOutput } from '@account-book-app/shared';
 import { inject, injectable } from 'inversify';
 
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
 import type { ITokenBlacklistRepository } from '../../domain/repositories/token-blacklist.repository.interface';
+import type { IUserSessionRepository } from '../../domain/repositories/user-session.repository.interface';
+import { hashRefreshToken } from '../auth/refresh-token.service';
 import type { IVerifyJwtTokenProvider } from '../auth/verify-jwt.service';
 import { VerifyJwtAuthError } from '../auth/verify-jwt.service';
 import { TOKENS } from '../di/tokens';
@@ -15,19 +18,30 @@ export class LogoutUserUseCase {
   @inject(TOKENS.TokenBlacklistRepository)
   private tokenBlacklistRepository!: ITokenBlacklistRepository;
 
+  @inject(TOKENS.RefreshTokenRepository)
+  private refreshTokenRepository!: IRefreshTokenRepository;
+
+  @inject(TOKENS.UserSessionRepository)
+  private userSessionRepository!: IUserSessionRepository;
+
   @inject(TOKENS.VerifyJwtTokenProvider)
   private verifyJwtTokenProvider!: IVerifyJwtTokenProvider;
 
-  async execute(params: { token: string }): Promise<UsersLogoutOutput> {
+  async execute(params: {
+    token: string;
+    refreshToken?: string;
+  }): Promise<UsersLogoutOutput> {
     try {
       const payload = await this.verifyJwtTokenProvider.verify(params.token);
       const tokenIdentifier = `${payload.sub}:${payload.iat}`;
+      const userId = Number(payload.sub);
 
       await this.tokenBlacklistRepository.add({
         tokenIdentifier,
-        userId: Number(payload.sub),
+        userId,
         expiresAt: new Date(payload.exp * 1000),
       });
+      await this.revokeSession(userId, payload.sid, params.refreshToken);
 
       return { success: true };
     } catch (cause) {
@@ -43,4 +57,36 @@ export class LogoutUserUseCase {
       });
     }
   }
+
+  // アクセストークンの sid（ログインセッション）を失効させ、同じファミリーのリフレッシュトークンも失効させる
+  // sid を持たない古いトークンの場合は渡されたリフレッシュトークンからファミリーを特定し、
+  // それも特定できない場合はユーザーのリフレッシュトークンをすべて失効させる
+  private async revokeSession(
+    userId: number,
+    sessionId?: string,
+    refreshToken?: string,
+  ): Promise<void> {
+    const familyId =
+      sessionId ?? (await this.findRefreshTokenFamilyId(userId, refreshToken));
+
+    await (familyId
+      ? Promise.all([
+          this.userSessionRepository.revoke(familyId),
+          this.refreshTokenRepository.revokeFamily({ userId, familyId }),
+        ])
+      : this.refreshTokenRepository.revokeAllByUserId(userId));
+  }
+
+  private async findRefreshTokenFamilyId(
+    userId: number,
+    refreshToken?: string,
+  ): Promise<string | undefined> {
+    const record = refreshToken
+      ? await this.refreshTokenRepository.findByTokenHash(
+          hashRefreshToken(refreshToken),
+        )
+      : null;
+
+    return record?.userId === userId ? record.familyId : undefined;
+  }
 }
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedPurgeDeletedUsersErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedPurgeDeletedUsersError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedPurgeDeletedUsersErrorParams) {
+    super(params.message, 'UnexpectedPurgeDeletedUsersError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type PurgeDeletedUsersError = UnexpectedPurgeDeletedUsersError;
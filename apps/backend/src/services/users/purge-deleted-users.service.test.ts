@@ -0,0 +1,115 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { TOKENS } from '../di/tokens';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import { UnexpectedPurgeDeletedUsersError } from './purge-deleted-users.errors';
+import { PurgeDeletedUsersUseCase } from './purge-deleted-users.service';
+
+describe('PurgeDeletedUsersUseCase（退会済みユーザーの物理削除）', () => {
+  const now = new Date('2025-03-01T00:00:00.000Z');
+
+  const setup = (params?: {
+    userIds?: number[];
+    storageKeys?: Record<number, string[]>;
+  }) => {
+    const userRepo: IUserRepository = {
+      findById: vi.fn(),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(async () => params?.userIds ?? [1, 2]),
+      purge: vi.fn(async () => undefined),
+    };
+    const attachmentRepo: ITransactionAttachmentRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByTransactionId: vi.fn(),
+      findStorageKeysByUserId: vi.fn(
+        async (userId: number) => params?.storageKeys?.[userId] ?? [],
+      ),
+      delete: vi.fn(),
+    };
+    const storage: IAttachmentStorage = {
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ITransactionAttachmentRepository>(
+        TOKENS.TransactionAttachmentRepository,
+      )
+      .toConstantValue(attachmentRepo);
+    container
+      .bind<IAttachmentStorage>(TOKENS.AttachmentStorage)
+      .toConstantValue(storage);
+    container.bind<PurgeDeletedUsersUseCase>(PurgeDeletedUsersUseCase).toSelf();
+
+    const useCase = container.get(PurgeDeletedUsersUseCase);
+
+    return { useCase, userRepo, storage };
+  };
+
+  describe('正常系', () => {
+    it('退会から30日を過ぎたユーザーの添付ファイルを削除してから物理削除する', async () => {
+      const { useCase, userRepo, storage } = setup({
+        storageKeys: { 1: ['users/1/a.png', 'users/1/b.pdf'] },
+      });
+
+      const result = await useCase.execute({ now });
+
+      expect(userRepo.findIdsDeletedBefore).toHaveBeenCalledWith(
+        new Date('2025-01-30T00:00:00.000Z'),
+      );
+      expect(storage.delete).toHaveBeenCalledWith('users/1/a.png');
+      expect(storage.delete).toHaveBeenCalledWith('users/1/b.pdf');
+      expect(userRepo.purge).toHaveBeenCalledWith(1);
+      expect(userRepo.purge).toHaveBeenCalledWith(2);
+      expect(
+        vi.mocked(storage.delete).mock.invocationCallOrder[1],
+      ).toBeLessThan(vi.mocked(userRepo.purge).mock.invocationCallOrder[0]);
+      expect(result).toEqual({ purgedUserIds: [1, 2], failed: [] });
+    });
+
+    it('添付ファイルの削除に失敗したユーザーは物理削除せず、他のユーザーの削除は続ける', async () => {
+      const { useCase, userRepo, storage } = setup({
+        storageKeys: { 1: ['users/1/a.png'] },
+      });
+      vi.mocked(storage.delete).mockRejectedValueOnce(
+        new Error('storage down'),
+      );
+
+      const result = await useCase.execute({ now });
+
+      expect(userRepo.purge).not.toHaveBeenCalledWith(1);
+      expect(userRepo.purge).toHaveBeenCalledWith(2);
+      expect(result).toEqual({
+        purgedUserIds: [2],
+        failed: [{ userId: 1, message: 'storage down' }],
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('退会済みユーザーの取得に失敗した場合は UnexpectedPurgeDeletedUsersError になる', async () => {
+      const { useCase, userRepo } = setup();
+      vi.mocked(userRepo.findIdsDeletedBefore).mockRejectedValue(
+        new Error('db down'),
+      );
+
+      await expect(useCase.execute({ now })).rejects.toBeInstanceOf(
+        UnexpectedPurgeDeletedUsersError,
+      );
+    });
+  });
+});
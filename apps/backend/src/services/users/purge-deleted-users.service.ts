@@ -0,0 +1,171 @@
+// Application Layer: Purge Deleted Users Use Case
+// 退会から猶予期間が過ぎたユーザーを、取引・カテゴリ・添付ファイルなどの関連データごと物理削除する（ジョブから利用）
+
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { ITransactionAttachmentRepository } from '../../domain/repositories/transaction-attachment.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import { TOKENS } from '../di/tokens';
+import type { IAttachmentStorage } from '../transaction-attachments/attachment-storage';
+import {
+  type PurgeDeletedUsersError,
+  UnexpectedPurgeDeletedUsersError,
+} from './purge-deleted-users.errors';
+
+/** 退会後、誤操作からの問い合わせに備えてデータを残しておく日数 */
+export const DELETED_USER_RETENTION_DAYS = 30;
+
+const MS_PER_DAY = 86_400_000;
+
+export type PurgeDeletedUsersInput = {
+  now?: Date; // 未指定時は実行日時
+};
+
+export type FailedPurgeOutput = {
+  userId: number;
+  message: string;
+};
+
+export type PurgeDeletedUsersOutput = {
+  purgedUserIds: number[];
+  failed: FailedPurgeOutput[];
+};
+
+type PurgeResult =
+  | { status: 'purged'; userId: number }
+  | ({ status: 'failed' } & FailedPurgeOutput);
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+@injectable()
+export class PurgeDeletedUsersUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.TransactionAttachmentRepository)
+  private transactionAttachmentRepository!: ITransactionAttachmentRepository;
+
+  @inject(TOKENS.AttachmentStorage)
+  private attachmentStorage!: IAttachmentStorage;
+
+  async execute(
+    input: PurgeDeletedUsersInput,
+  ): Promise<PurgeDeletedUsersOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: PurgeDeletedUsersInput,
+  ): Effect.Effect<PurgeDeletedUsersOutput, PurgeDeletedUsersError> {
+    const now = input.now ?? new Date();
+    const cutoff = new Date(
+      now.getTime() - DELETED_USER_RETENTION_DAYS * MS_PER_DAY,
+    );
+
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findIdsDeletedBefore(cutoff),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '退会済みユーザーの取得に失敗しました',
+            cause,
+          ),
+      }),
+      // NOTE: 1ユーザーの失敗で他のユーザーの削除を止めないよう、ユーザーごとに結果を集計する
+      Effect.flatMap((userIds) =>
+        Effect.forEach(userIds, (userId) => this.purgeUser(userId)),
+      ),
+      Effect.map((results) => this.summarize(results)),
+    );
+  }
+
+  /**
+   * 添付ファイル本体を削除してからユーザーを物理削除する
+   * NOTE: 先にDBを消すと保存先キーが分からなくなるため、ファイル削除に失敗した場合はDBを残して次回に再試行させる
+   */
+  private purgeUser(userId: number): Effect.Effect<PurgeResult> {
+    return pipe(
+      Effect.tryPromise(() =>
+        this.transactionAttachmentRepository.findStorageKeysByUserId(userId),
+      ),
+      Effect.flatMap((storageKeys) =>
+        Effect.tryPromise(() =>
+          Promise.all(
+            storageKeys.map((key) => this.attachmentStorage.delete(key)),
+          ),
+        ),
+      ),
+      Effect.flatMap(() =>
+        Effect.tryPromise(() => this.userRepository.purge(userId)),
+      ),
+      Effect.map((): PurgeResult => ({ status: 'purged', userId })),
+      Effect.catchAll((error) =>
+        Effect.succeed<PurgeResult>({
+          status: 'failed',
+          userId,
+          message: toErrorMessage(error.error),
+        }),
+      ),
+    );
+  }
+
+  private summarize(results: PurgeResult[]): PurgeDeletedUsersOutput {
+    return {
+      purgedUserIds: results.flatMap((result) =>
+        result.status === 'purged' ? [result.userId] : [],
+      ),
+      failed: results.flatMap((result) =>
+        result.status === 'failed'
+          ? [{ userId: result.userId, message: result.message }]
+          : [],
+      ),
+    };
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedPurgeDeletedUsersError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedPurgeDeletedUsersError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<PurgeDeletedUsersOutput, PurgeDeletedUsersError>,
+  ): PurgeDeletedUsersOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedPurgeDeletedUsersError({
+                message: '退会済みユーザーの削除に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
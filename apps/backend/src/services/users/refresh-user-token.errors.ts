@@ -0,0 +1,40 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+export class InvalidRefreshTokenError extends DomainError {
+  constructor() {
+    super(
+      'リフレッシュトークンが無効または期限切れです',
+      'InvalidRefreshTokenError',
+    );
+  }
+}
+
+export class RefreshTokenReusedError extends DomainError {
+  constructor() {
+    super(
+      '使用済みのリフレッシュトークンが再利用されました。再度ログインしてください',
+      'RefreshTokenReusedError',
+    );
+  }
+}
+
+type UnexpectedRefreshUserTokenErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRefreshUserTokenError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRefreshUserTokenErrorParams) {
+    super(params.message, 'UnexpectedRefreshUserTokenError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RefreshUserTokenError =
+  | InvalidRefreshTokenError
+  | RefreshTokenReusedError
+  | UnexpectedRefreshUserTokenError;
@@ -0,0 +1,185 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type {
+  IRefreshTokenRepository,
+  RefreshTokenRecord,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import type { ICreateJwtService } from '../auth/create-jwt.service';
+import {
+  hashRefreshToken,
+  type IRefreshTokenService,
+} from '../auth/refresh-token.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidRefreshTokenError,
+  RefreshTokenReusedError,
+} from './refresh-user-token.errors';
+import { RefreshUserTokenUseCase } from './refresh-user-token.service';
+
+describe('RefreshUserTokenUseCase（トークン再発行）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeRecord = (
+    override?: Partial<RefreshTokenRecord>,
+  ): RefreshTokenRecord => ({
+    id: 10,
+    userId: 1,
+    familyId: 'family-1',
+    tokenHash: hashRefreshToken('refresh-token'),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    createdAt: fixedNow,
+    ...override,
+  });
+
+  const setup = (overrides?: Partial<IRefreshTokenRepository>) => {
+    const refreshTokenRepo: IRefreshTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(async () => makeRecord()),
+      revoke: vi.fn(async () => true),
+      revokeFamily: vi.fn(async () => undefined),
+      revokeAllByUserId: vi.fn(async () => undefined),
+      ...overrides,
+    };
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () =>
+        User.reconstruct(
+          1,
+          'test@example.com',
+          PasswordHash.reconstruct('salt:hash'),
+          'テストユーザー',
+          fixedNow,
+          fixedNow,
+        ),
+      ),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+    const createJwtService: ICreateJwtService = {
+      create: vi.fn(async () => 'new.jwt.token'),
+    };
+    const refreshTokenService: IRefreshTokenService = {
+      issue: vi.fn(async () => 'new-refresh-token'),
+    };
+
+    const container = new Container();
+    container
+      .bind<IRefreshTokenRepository>(TOKENS.RefreshTokenRepository)
+      .toConstantValue(refreshTokenRepo);
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ICreateJwtService>(TOKENS.CreateJwtService)
+      .toConstantValue(createJwtService);
+    container
+      .bind<IRefreshTokenService>(TOKENS.RefreshTokenService)
+      .toConstantValue(refreshTokenService);
+    container.bind<RefreshUserTokenUseCase>(RefreshUserTokenUseCase).toSelf();
+
+    const useCase = container.get(RefreshUserTokenUseCase);
+
+    return { useCase, refreshTokenRepo, userRepo, refreshTokenService };
+  };
+
+  describe('正常系', () => {
+    it('使用したトークンを失効させ、同じファミリーで新しいトークンを発行する', async () => {
+      const { useCase, refreshTokenRepo, refreshTokenService } = setup();
+
+      const result = await useCase.execute({ refreshToken: 'refresh-token' });
+
+      expect(refreshTokenRepo.findByTokenHash).toHaveBeenCalledWith(
+        hashRefreshToken('refresh-token'),
+      );
+      expect(refreshTokenRepo.revoke).toHaveBeenCalledWith(10);
+      expect(refreshTokenService.issue).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'family-1',
+      });
+      expect(result).toEqual({
+        token: 'new.jwt.token',
+        refreshToken: 'new-refresh-token',
+        user: {
+          id: 1,
+          email: 'test@example.com',
+          name: 'テストユーザー',
+          createdAt: fixedNow,
+          updatedAt: fixedNow,
+        },
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しないトークンの場合は InvalidRefreshTokenError になる', async () => {
+      const { useCase } = setup({
+        findByTokenHash: vi.fn(async () => null),
+      });
+
+      await expect(
+        useCase.execute({ refreshToken: 'unknown-token' }),
+      ).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+    });
+
+    it('期限切れのトークンの場合は InvalidRefreshTokenError になる', async () => {
+      const { useCase, refreshTokenRepo } = setup({
+        findByTokenHash: vi.fn(async () =>
+          makeRecord({ expiresAt: new Date(Date.now() - 1000) }),
+        ),
+      });
+
+      await expect(
+        useCase.execute({ refreshToken: 'refresh-token' }),
+      ).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+      expect(refreshTokenRepo.revoke).not.toHaveBeenCalled();
+    });
+
+    it('失効済みのトークンが再利用された場合はファミリーごと失効させる', async () => {
+      const { useCase, refreshTokenRepo, refreshTokenService } = setup({
+        findByTokenHash: vi.fn(async () => makeRecord({ revokedAt: fixedNow })),
+      });
+
+      await expect(
+        useCase.execute({ refreshToken: 'refresh-token' }),
+      ).rejects.toBeInstanceOf(RefreshTokenReusedError);
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'family-1',
+      });
+      expect(refreshTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('同時に使われて先に失効された場合も再利用として扱う', async () => {
+      const { useCase, refreshTokenRepo } = setup({
+        revoke: vi.fn(async () => false),
+      });
+
+      await expect(
+        useCase.execute({ refreshToken: 'refresh-token' }),
+      ).rejects.toBeInstanceOf(RefreshTokenReusedError);
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'family-1',
+      });
+    });
+
+    it('ユーザーが存在しない場合は InvalidRefreshTokenError になる', async () => {
+      const { useCase, userRepo } = setup();
+      vi.mocked(userRepo.findById).mockResolvedValueOnce(null);
+
+      await expect(
+        useCase.execute({ refreshToken: 'refresh-token' }),
+      ).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import type {
+  UsersRefreshInput,
+  UsersRefreshOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { PublicUserRecord } from '../../domain/entities/user.entity';
+import type {
+  IRefreshTokenRepository,
+  RefreshTokenRecord,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import type { ICreateJwtService } from '../auth/create-jwt.service';
+import {
+  hashRefreshToken,
+  type IRefreshTokenService,
+} from '../auth/refresh-token.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidRefreshTokenError,
+  RefreshTokenReusedError,
+  type RefreshUserTokenError,
+  UnexpectedRefreshUserTokenError,
+} from './refresh-user-token.errors';
+
+type UserFoundInput = {
+  familyId: string;
+  user: PublicUserRecord;
+};
+
+type TokenCreatedOutput = UserFoundInput & {
+  token: string;
+};
+
+@injectable()
+export class RefreshUserTokenUseCase {
+  @inject(TOKENS.RefreshTokenRepository)
+  private refreshTokenRepository!: IRefreshTokenRepository;
+
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.CreateJwtService)
+  private createJwtService!: ICreateJwtService;
+
+  @inject(TOKENS.RefreshTokenService)
+  private refreshTokenService!: IRefreshTokenService;
+
+  async execute(input: UsersRefreshInput): Promise<UsersRefreshOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UsersRefreshInput,
+  ): Effect.Effect<UsersRefreshOutput, RefreshUserTokenError> {
+    return pipe(
+      this.findRefreshToken(input.refreshToken),
+      Effect.flatMap((record) => this.detectReuse(record)),
+      Effect.flatMap((record) => this.ensureNotExpired(record)),
+      Effect.flatMap((record) => this.rotate(record)),
+      Effect.flatMap((record) => this.findUser(record)),
+      Effect.flatMap((value) => this.createToken(value)),
+      Effect.flatMap((value) => this.createRefreshToken(value)),
+    );
+  }
+
+  private findRefreshToken(
+    refreshToken: string,
+  ): Effect.Effect<RefreshTokenRecord, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() =>
+        this.refreshTokenRepository.findByTokenHash(
+          hashRefreshToken(refreshToken),
+        ),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの取得に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new InvalidRefreshTokenError())
+          : Effect.succeed(record),
+      ),
+    );
+  }
+
+  // 失効済みのトークンが提示された場合は漏洩とみなし、同じファミリーをすべて失効させる
+  private detectReuse(
+    record: RefreshTokenRecord,
+  ): Effect.Effect<RefreshTokenRecord, RefreshUserTokenError> {
+    return record.revokedAt === null
+      ? Effect.succeed(record)
+      : this.revokeFamilyAsReused(record);
+  }
+
+  private ensureNotExpired(
+    record: RefreshTokenRecord,
+  ): Effect.Effect<RefreshTokenRecord, RefreshUserTokenError> {
+    return pipe(
+      Effect.succeed(record),
+      Effect.filterOrFail(
+        ({ expiresAt }) => expiresAt.getTime() > Date.now(),
+        () => new InvalidRefreshTokenError(),
+      ),
+    );
+  }
+
+  // 使用したトークンを失効させる。同時に使われて先に失効済みだった場合も再利用として扱う
+  private rotate(
+    record: RefreshTokenRecord,
+  ): Effect.Effect<RefreshTokenRecord, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() => this.refreshTokenRepository.revoke(record.id)),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの失効に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.flatMap((revoked) =>
+        revoked ? Effect.succeed(record) : this.revokeFamilyAsReused(record),
+      ),
+    );
+  }
+
+  private revokeFamilyAsReused(
+    record: RefreshTokenRecord,
+  ): Effect.Effect<never, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() =>
+        this.refreshTokenRepository.revokeFamily({
+          userId: record.userId,
+          familyId: record.familyId,
+        }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの失効に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.flatMap(() => Effect.fail(new RefreshTokenReusedError())),
+    );
+  }
+
+  private findUser(
+    record: RefreshTokenRecord,
+  ): Effect.Effect<UserFoundInput, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() => this.userRepository.findById(record.userId)),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      ),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new InvalidRefreshTokenError())
+          : Effect.succeed({
+              familyId: record.familyId,
+              user: {
+                id: Number(user.id),
+                email: user.email,
+                name: user.name,
+                createdAt: user.createdAt,
+                updatedAt: user.updatedAt,
+              },
+            }),
+      ),
+    );
+  }
+
+  private createToken(
+    input: UserFoundInput,
+  ): Effect.Effect<TokenCreatedOutput, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() =>
+        this.createJwtService.create({
+          userId: input.user.id,
+          email: input.user.email,
+          sessionId: input.familyId,
+        }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'アクセストークンの生成に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.map((token) => ({ ...input, token })),
+    );
+  }
+
+  private createRefreshToken(
+    input: TokenCreatedOutput,
+  ): Effect.Effect<UsersRefreshOutput, RefreshUserTokenError> {
+    return pipe(
+      Effect.promise(() =>
+        this.refreshTokenService.issue({
+          userId: input.user.id,
+          familyId: input.familyId,
+        }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの生成に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.map((refreshToken) => ({
+        token: input.token,
+        refreshToken,
+        user: input.user,
+      })),
+    );
+  }
+
+  private createUnexpectedError<T>(
+    message: string,
+    cause: T,
+  ): UnexpectedRefreshUserTokenError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : new Error(typeof cause === 'string' ? cause : '原因不明なエラー');
+
+    return new UnexpectedRefreshUserTokenError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersRefreshOutput, RefreshUserTokenError>,
+  ): UsersRefreshOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRefreshUserTokenError({
+                message: 'トークンの再発行に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -5,6 +5,8 @@ import { User } from '../../domain/entities/user.entity';
 import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
 import { PasswordHash } from '../../domain/values/password-hash';
 import type { ICreateJwtService } from '../auth/create-jwt.service';
+import type { IRefreshTokenService } from '../auth/refresh-token.service';
+import type { ISessionService } from '../auth/session.service';
 import { TOKENS } from '../di/tokens';
 import {
   EmailAlreadyExistsError,
@@ -35,7 +37,17 @@ describe('RegisterUserUseCase（ユーザー登録）', () => {
       create: vi.fn(async () => 'test.jwt.token'),
     };
 
+    const refreshTokenService: IRefreshTokenService = {
+      issue: vi.fn(async () => 'test-refresh-token'),
+    };
+
+    const sessionService: ISessionService = {
+      start: vi.fn(async () => 'session-1'),
+      revokeAll: vi.fn(),
+    };
+
     const repo: IUserRepository = {
+      findById: vi.fn(async () => null),
       findByEmail: vi.fn(async (_email: string) => null),
       existsByEmail: vi.fn(async (_email: string) => false),
       create: vi.fn(async (user: User) =>
@@ -44,6 +56,11 @@ describe('RegisterUserUseCase（ユーザー登録）', () => {
           name: user.name,
         }),
       ),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
       ...overrides,
     };
 
@@ -54,11 +71,23 @@ describe('RegisterUserUseCase（ユーザー登録）', () => {
     container
       .bind<ICreateJwtService>(TOKENS.CreateJwtService)
       .toConstantValue(createJwtService);
+    container
+      .bind<IRefreshTokenService>(TOKENS.RefreshTokenService)
+      .toConstantValue(refreshTokenService);
+    container
+      .bind<ISessionService>(TOKENS.SessionService)
+      .toConstantValue(sessionService);
     container.bind<RegisterUserUseCase>(RegisterUserUseCase).toSelf();
 
     const useCase = container.get(RegisterUserUseCase);
 
-    return { useCase, repo, createJwtService };
+    return {
+      useCase,
+      repo,
+      createJwtService,
+      refreshTokenService,
+      sessionService,
+    };
   };
 
   beforeEach(() => {
@@ -67,7 +96,7 @@ describe('RegisterUserUseCase（ユーザー登録）', () => {
 
   describe('正常系', () => {
     it('ユーザーを登録してトークンを返す', async () => {
-      const { useCase, repo, createJwtService } = setup();
+      const { useCase, repo, createJwtService, refreshTokenService } = setup();
 
       const result = await useCase.execute({
         email: 'NewUser@example.com',
@@ -81,6 +110,11 @@ describe('RegisterUserUseCase（ユーザー登録）', () => {
       expect(result.user.email).toBe('newuser@example.com');
       expect(result.user.name).toBe('新規ユーザー');
       expect(result.token).toBe('test.jwt.token');
+      expect(refreshTokenService.issue).toHaveBeenCalledWith({
+        userId: 1,
+        familyId: 'session-1',
+      });
+      expect(result.refreshToken).toBe('test-refresh-token');
     });
   });
 
@@ -13,6 +13,8 @@ import { Password } from '../../domain/values/password';
 import { PasswordHash } from '../../domain/values/password-hash';
 import { Effect, Either, pipe } from '../../shared/result';
 import type { ICreateJwtService } from '../auth/create-jwt.service';
+import type { IRefreshTokenService } from '../auth/refresh-token.service';
+import type { ISessionService, SessionClient } from '../auth/session.service';
 import { TOKENS } from '../di/tokens';
 import {
   EmailAlreadyExistsError,
@@ -37,6 +39,15 @@ type PasswordValidatedInput = {
   password: Password;
 };
 
+type SessionStartedInput = {
+  user: PublicUserRecord;
+  sessionId: string;
+};
+
+type TokenCreatedInput = SessionStartedInput & {
+  token: string;
+};
+
 @injectable()
 export class RegisterUserUseCase {
   @inject(TOKENS.UserRepository)
@@ -45,14 +56,24 @@ export class RegisterUserUseCase {
   @inject(TOKENS.CreateJwtService)
   private createJwtService!: ICreateJwtService;
 
-  async execute(input: UsersRegisterInput): Promise<UsersRegisterOutput> {
-    const program = this.buildProgram(input);
+  @inject(TOKENS.RefreshTokenService)
+  private refreshTokenService!: IRefreshTokenService;
+
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  async execute(
+    input: UsersRegisterInput,
+    client?: SessionClient,
+  ): Promise<UsersRegisterOutput> {
+    const program = this.buildProgram(input, client);
     const exit = await Effect.runPromiseExit(program);
     return this.unwrapExit(exit);
   }
 
   private buildProgram(
     input: UsersRegisterInput,
+    client?: SessionClient,
   ): Effect.Effect<UsersRegisterOutput, RegisterUserError> {
     return pipe(
       this.normalizeInput(input),
@@ -61,7 +82,9 @@ export class RegisterUserUseCase {
       Effect.flatMap((value) => this.validatePassword(value)),
       Effect.flatMap((value) => this.ensureEmailUnique(value)),
       Effect.flatMap((value) => this.createUser(value)),
-      Effect.flatMap((user) => this.createToken(user)),
+      Effect.flatMap((user) => this.startSession(user, client)),
+      Effect.flatMap((value) => this.createToken(value)),
+      Effect.flatMap((value) => this.createRefreshToken(value)),
     );
   }
 
@@ -165,14 +188,30 @@ export class RegisterUserUseCase {
     );
   }
 
-  private createToken(
+  private startSession(
     user: PublicUserRecord,
-  ): Effect.Effect<UsersRegisterOutput, RegisterUserError> {
+    client?: SessionClient,
+  ): Effect.Effect<SessionStartedInput, RegisterUserError> {
+    return pipe(
+      Effect.promise(() =>
+        this.sessionService.start({ userId: user.id, client }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError('セッションの開始に失敗しました', cause),
+      ),
+      Effect.map((sessionId) => ({ user, sessionId })),
+    );
+  }
+
+  private createToken(
+    input: SessionStartedInput,
+  ): Effect.Effect<TokenCreatedInput, RegisterUserError> {
     return pipe(
       Effect.promise(() =>
         this.createJwtService.create({
-          userId: user.id,
-          email: user.email,
+          userId: input.user.id,
+          email: input.user.email,
+          sessionId: input.sessionId,
         }),
       ),
       Effect.mapError((cause) =>
@@ -181,7 +220,31 @@ export class RegisterUserUseCase {
           cause,
         ),
       ),
-      Effect.map((token) => ({ token, user })),
+      Effect.map((token) => ({ ...input, token })),
+    );
+  }
+
+  private createRefreshToken(
+    input: TokenCreatedInput,
+  ): Effect.Effect<UsersRegisterOutput, RegisterUserError> {
+    return pipe(
+      Effect.promise(() =>
+        this.refreshTokenService.issue({
+          userId: input.user.id,
+          familyId: input.sessionId,
+        }),
+      ),
+      Effect.mapError((cause) =>
+        this.createUnexpectedError(
+          'リフレッシュトークンの生成に失敗しました',
+          cause,
+        ),
+      ),
+      Effect.map((refreshToken) => ({
+        token: input.token,
+        refreshToken,
+        user: input.user,
+      })),
     );
   }
 
@@ -0,0 +1,19 @@
+import { DomainError } from '../../domain/values/domain-error';
+
+type UnexpectedRequestPasswordResetErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedRequestPasswordResetError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedRequestPasswordResetErrorParams) {
+    super(params.message, 'UnexpectedRequestPasswordResetError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type RequestPasswordResetError = UnexpectedRequestPasswordResetError;
@@ -0,0 +1,108 @@
+import { Container } from 'inversify';
+import { describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import type { IPasswordResetTokenService } from '../auth/password-reset-token.service';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender } from '../mail/mail-sender';
+import { UnexpectedRequestPasswordResetError } from './request-password-reset.errors';
+import { RequestPasswordResetUseCase } from './request-password-reset.service';
+
+describe('RequestPasswordResetUseCase（パスワード再設定の受付）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const setup = (overrides?: { mailSender?: Partial<IMailSender> }) => {
+    const userRepo: IUserRepository = {
+      findById: vi.fn(),
+      findByEmail: vi.fn(async (email: string) =>
+        email === 'test@example.com' ? makeUser() : null,
+      ),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+    const passwordResetTokenService: IPasswordResetTokenService = {
+      issue: vi.fn(async () => 'plain-reset-token'),
+    };
+    const mailSender: IMailSender = {
+      send: vi.fn(async () => undefined),
+      ...overrides?.mailSender,
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<IPasswordResetTokenService>(TOKENS.PasswordResetTokenService)
+      .toConstantValue(passwordResetTokenService);
+    container.bind<IMailSender>(TOKENS.MailSender).toConstantValue(mailSender);
+    container
+      .bind<RequestPasswordResetUseCase>(RequestPasswordResetUseCase)
+      .toSelf();
+
+    const useCase = container.get(RequestPasswordResetUseCase);
+
+    return { useCase, userRepo, passwordResetTokenService, mailSender };
+  };
+
+  describe('正常系', () => {
+    it('登録済みのメールアドレス宛てに再設定用トークンを送信する', async () => {
+      const { useCase, userRepo, passwordResetTokenService, mailSender } =
+        setup();
+
+      const result = await useCase.execute({ email: ' Test@Example.com ' });
+
+      expect(userRepo.findByEmail).toHaveBeenCalledWith('test@example.com');
+      expect(passwordResetTokenService.issue).toHaveBeenCalledWith(1);
+      expect(mailSender.send).toHaveBeenCalledWith({
+        to: 'test@example.com',
+        subject: '【家計簿アプリ】パスワード再設定のご案内',
+        text: expect.stringContaining('plain-reset-token'),
+      });
+      expect(result).toEqual({ success: true });
+    });
+
+    it('未登録のメールアドレスでも成功を返し、トークンの発行とメール送信は行わない', async () => {
+      const { useCase, passwordResetTokenService, mailSender } = setup();
+
+      const result = await useCase.execute({ email: 'unknown@example.com' });
+
+      expect(passwordResetTokenService.issue).not.toHaveBeenCalled();
+      expect(mailSender.send).not.toHaveBeenCalled();
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('メール送信に失敗した場合は UnexpectedRequestPasswordResetError になる', async () => {
+      const { useCase } = setup({
+        mailSender: {
+          send: vi.fn(async () => {
+            throw new Error('送信エラー');
+          }),
+        },
+      });
+
+      await expect(
+        useCase.execute({ email: 'test@example.com' }),
+      ).rejects.toBeInstanceOf(UnexpectedRequestPasswordResetError);
+    });
+  });
+});
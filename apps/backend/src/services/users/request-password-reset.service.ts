@@ -0,0 +1,150 @@
+// Application Layer: Request Password Reset Use Case
+// パスワード再設定トークンを発行し、登録済みのメールアドレス宛てに送信する
+// NOTE: メールアドレスが登録済みかどうかを推測されないよう、未登録の場合も成功として扱う
+
+import type {
+  UsersRequestPasswordResetInput,
+  UsersRequestPasswordResetOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import {
+  type IPasswordResetTokenService,
+  PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES,
+} from '../auth/password-reset-token.service';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender, MailMessage } from '../mail/mail-sender';
+import {
+  type RequestPasswordResetError,
+  UnexpectedRequestPasswordResetError,
+} from './request-password-reset.errors';
+
+const PASSWORD_RESET_MAIL_SUBJECT = '【家計簿アプリ】パスワード再設定のご案内';
+
+const toPasswordResetMail = (user: User, token: string): MailMessage => ({
+  to: user.email,
+  subject: PASSWORD_RESET_MAIL_SUBJECT,
+  text: [
+    `${user.name} 様`,
+    '',
+    'パスワード再設定のリクエストを受け付けました。',
+    `以下の再設定用トークンを使用して、${PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES}分以内にパスワードを再設定してください。`,
+    '',
+    token,
+    '',
+    'このメールに心当たりがない場合は、破棄してください。パスワードは変更されません。',
+  ].join('\n'),
+});
+
+@injectable()
+export class RequestPasswordResetUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.PasswordResetTokenService)
+  private passwordResetTokenService!: IPasswordResetTokenService;
+
+  @inject(TOKENS.MailSender)
+  private mailSender!: IMailSender;
+
+  async execute(
+    input: UsersRequestPasswordResetInput,
+  ): Promise<UsersRequestPasswordResetOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UsersRequestPasswordResetInput,
+  ): Effect.Effect<UsersRequestPasswordResetOutput, RequestPasswordResetError> {
+    return pipe(
+      this.findUser(input.email.trim().toLowerCase()),
+      Effect.flatMap((user) =>
+        user === null ? Effect.void : this.sendResetMail(user),
+      ),
+      Effect.map(() => ({ success: true })),
+    );
+  }
+
+  private findUser(
+    email: string,
+  ): Effect.Effect<User | null, RequestPasswordResetError> {
+    return Effect.tryPromise({
+      try: () => this.userRepository.findByEmail(email),
+      catch: (cause) =>
+        this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+    });
+  }
+
+  private sendResetMail(
+    user: User,
+  ): Effect.Effect<void, RequestPasswordResetError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.passwordResetTokenService.issue(Number(user.id)),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'パスワード再設定トークンの発行に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((token) =>
+        Effect.tryPromise({
+          try: () => this.mailSender.send(toPasswordResetMail(user, token)),
+          catch: (cause) =>
+            this.createUnexpectedError(
+              'パスワード再設定メールの送信に失敗しました',
+              cause,
+            ),
+        }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedRequestPasswordResetError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedRequestPasswordResetError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersRequestPasswordResetOutput, RequestPasswordResetError>,
+  ): UsersRequestPasswordResetOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedRequestPasswordResetError({
+                message: 'パスワード再設定の受付に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { InvalidPasswordError } from './register-user.errors';
+
+export { InvalidPasswordError } from './register-user.errors';
+
+export class InvalidPasswordResetTokenError extends DomainError {
+  constructor() {
+    super(
+      'パスワード再設定用のトークンが無効または期限切れです',
+      'InvalidPasswordResetTokenError',
+    );
+  }
+}
+
+type UnexpectedResetPasswordErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedResetPasswordError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedResetPasswordErrorParams) {
+    super(params.message, 'UnexpectedResetPasswordError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type ResetPasswordError =
+  | InvalidPasswordResetTokenError
+  | InvalidPasswordError
+  | UnexpectedResetPasswordError;
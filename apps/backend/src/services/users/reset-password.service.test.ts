@@ -0,0 +1,170 @@
+import { Container } from 'inversify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type {
+  IPasswordResetTokenRepository,
+  PasswordResetTokenRecord,
+} from '../../domain/repositories/password-reset-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { hashPasswordResetToken } from '../auth/password-reset-token.service';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidPasswordError,
+  InvalidPasswordResetTokenError,
+} from './reset-password.errors';
+import { ResetPasswordUseCase } from './reset-password.service';
+
+describe('ResetPasswordUseCase（パスワード再設定）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeRecord = (
+    override?: Partial<PasswordResetTokenRecord>,
+  ): PasswordResetTokenRecord => ({
+    id: 10,
+    userId: 1,
+    tokenHash: hashPasswordResetToken('plain-reset-token'),
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    usedAt: null,
+    createdAt: fixedNow,
+    ...override,
+  });
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:old-hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const input = {
+    token: 'plain-reset-token',
+    newPassword: 'NewPassword#456',
+  };
+
+  const setup = (overrides?: Partial<IPasswordResetTokenRepository>) => {
+    const resetTokenRepo: IPasswordResetTokenRepository = {
+      create: vi.fn(),
+      findByTokenHash: vi.fn(async () => makeRecord()),
+      markUsed: vi.fn(async () => true),
+      invalidateAllByUserId: vi.fn(async () => undefined),
+      ...overrides,
+    };
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () => makeUser()),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(),
+      create: vi.fn(),
+      updatePassword: vi.fn(async () => undefined),
+      updateProfile: vi.fn(),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+    };
+    const sessionService: ISessionService = {
+      start: vi.fn(),
+      revokeAll: vi.fn(async () => 2),
+    };
+
+    const container = new Container();
+    container
+      .bind<IPasswordResetTokenRepository>(TOKENS.PasswordResetTokenRepository)
+      .toConstantValue(resetTokenRepo);
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<ISessionService>(TOKENS.SessionService)
+      .toConstantValue(sessionService);
+    container.bind<ResetPasswordUseCase>(ResetPasswordUseCase).toSelf();
+
+    const useCase = container.get(ResetPasswordUseCase);
+
+    return { useCase, resetTokenRepo, userRepo, sessionService };
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(PasswordHash, 'create').mockResolvedValue(
+      PasswordHash.reconstruct('salt:new-hash'),
+    );
+  });
+
+  describe('正常系', () => {
+    it('トークンを使用済みにしてパスワードを更新し、すべてのセッションを失効させる', async () => {
+      const { useCase, resetTokenRepo, userRepo, sessionService } = setup();
+
+      const result = await useCase.execute(input);
+
+      expect(resetTokenRepo.findByTokenHash).toHaveBeenCalledWith(
+        hashPasswordResetToken('plain-reset-token'),
+      );
+      expect(resetTokenRepo.markUsed).toHaveBeenCalledWith(10);
+      expect(userRepo.findById).toHaveBeenCalledWith(1);
+      const [updated] = vi.mocked(userRepo.updatePassword).mock.calls[0];
+      expect(updated.passwordHash.value).toBe('salt:new-hash');
+      expect(sessionService.revokeAll).toHaveBeenCalledWith({ userId: 1 });
+      expect(resetTokenRepo.invalidateAllByUserId).toHaveBeenCalledWith(1);
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe('異常系', () => {
+    it('存在しないトークンの場合は InvalidPasswordResetTokenError になる', async () => {
+      const { useCase } = setup({ findByTokenHash: vi.fn(async () => null) });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidPasswordResetTokenError,
+      );
+    });
+
+    it('使用済みのトークンの場合は InvalidPasswordResetTokenError になり、更新しない', async () => {
+      const { useCase, userRepo } = setup({
+        findByTokenHash: vi.fn(async () => makeRecord({ usedAt: fixedNow })),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidPasswordResetTokenError,
+      );
+      expect(userRepo.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('有効期限切れのトークンの場合は InvalidPasswordResetTokenError になる', async () => {
+      const { useCase, resetTokenRepo } = setup({
+        findByTokenHash: vi.fn(async () =>
+          makeRecord({ expiresAt: new Date(Date.now() - 1000) }),
+        ),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidPasswordResetTokenError,
+      );
+      expect(resetTokenRepo.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('同時に使われて先に使用済みになっていた場合は InvalidPasswordResetTokenError になる', async () => {
+      const { useCase, userRepo } = setup({
+        markUsed: vi.fn(async () => false),
+      });
+
+      await expect(useCase.execute(input)).rejects.toBeInstanceOf(
+        InvalidPasswordResetTokenError,
+      );
+      expect(userRepo.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('新しいパスワードが要件を満たさない場合は InvalidPasswordError になり、トークンは使用済みにしない', async () => {
+      const { useCase, resetTokenRepo } = setup();
+
+      await expect(
+        useCase.execute({ ...input, newPassword: 'short' }),
+      ).rejects.toBeInstanceOf(InvalidPasswordError);
+      expect(resetTokenRepo.markUsed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,242 @@
+// Application Layer: Reset Password Use Case
+// パスワード再設定トークンを1回だけ使ってパスワードを再設定し、すべてのセッションを失効させる
+
+import type {
+  UsersResetPasswordInput,
+  UsersResetPasswordOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import type { User } from '../../domain/entities/user.entity';
+import type {
+  IPasswordResetTokenRepository,
+  PasswordResetTokenRecord,
+} from '../../domain/repositories/password-reset-token.repository.interface';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Password } from '../../domain/values/password';
+import { PasswordHash } from '../../domain/values/password-hash';
+import { Effect, Either, pipe } from '../../shared/result';
+import { hashPasswordResetToken } from '../auth/password-reset-token.service';
+import type { ISessionService } from '../auth/session.service';
+import { TOKENS } from '../di/tokens';
+import {
+  InvalidPasswordError,
+  InvalidPasswordResetTokenError,
+  type ResetPasswordError,
+  UnexpectedResetPasswordError,
+} from './reset-password.errors';
+
+type PasswordValidatedInput = {
+  record: PasswordResetTokenRecord;
+  newPassword: Password;
+};
+
+type UserFoundInput = {
+  user: User;
+  newPassword: Password;
+};
+
+@injectable()
+export class ResetPasswordUseCase {
+  @inject(TOKENS.PasswordResetTokenRepository)
+  private passwordResetTokenRepository!: IPasswordResetTokenRepository;
+
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.SessionService)
+  private sessionService!: ISessionService;
+
+  async execute(
+    input: UsersResetPasswordInput,
+  ): Promise<UsersResetPasswordOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UsersResetPasswordInput,
+  ): Effect.Effect<UsersResetPasswordOutput, ResetPasswordError> {
+    return pipe(
+      this.findResetToken(input.token),
+      Effect.flatMap((record) => this.ensureUsable(record)),
+      Effect.flatMap((record) =>
+        this.validateNewPassword(record, input.newPassword),
+      ),
+      Effect.flatMap((value) => this.consumeResetToken(value)),
+      Effect.flatMap((value) => this.findUser(value)),
+      Effect.flatMap((value) => this.updatePassword(value)),
+      Effect.flatMap((user) => this.revokeAllSessions(user)),
+      Effect.map(() => ({ success: true })),
+    );
+  }
+
+  private findResetToken(
+    token: string,
+  ): Effect.Effect<PasswordResetTokenRecord, ResetPasswordError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.passwordResetTokenRepository.findByTokenHash(
+            hashPasswordResetToken(token),
+          ),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'パスワード再設定トークンの取得に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((record) =>
+        record === null
+          ? Effect.fail(new InvalidPasswordResetTokenError())
+          : Effect.succeed(record),
+      ),
+    );
+  }
+
+  private ensureUsable(
+    record: PasswordResetTokenRecord,
+  ): Effect.Effect<PasswordResetTokenRecord, ResetPasswordError> {
+    return pipe(
+      Effect.succeed(record),
+      Effect.filterOrFail(
+        ({ usedAt }) => usedAt === null,
+        () => new InvalidPasswordResetTokenError(),
+      ),
+      Effect.filterOrFail(
+        ({ expiresAt }) => expiresAt.getTime() > Date.now(),
+        () => new InvalidPasswordResetTokenError(),
+      ),
+    );
+  }
+
+  // NOTE: 入力ミスでトークンを使い切らないよう、使用済みにする前に新しいパスワードを検証する
+  private validateNewPassword(
+    record: PasswordResetTokenRecord,
+    newPassword: string,
+  ): Effect.Effect<PasswordValidatedInput, ResetPasswordError> {
+    return pipe(
+      Password.create(newPassword),
+      Either.map((password) => ({ record, newPassword: password })),
+      Either.mapLeft((error) => new InvalidPasswordError(error.message)),
+      Either.match({
+        onLeft: (error) => Effect.fail(error),
+        onRight: (value) => Effect.succeed(value),
+      }),
+    );
+  }
+
+  // 同時に使われて先に使用済みになっていた場合も無効なトークンとして扱う
+  private consumeResetToken(
+    input: PasswordValidatedInput,
+  ): Effect.Effect<PasswordValidatedInput, ResetPasswordError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.passwordResetTokenRepository.markUsed(input.record.id),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            'パスワード再設定トークンの更新に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.filterOrFail(
+        (used) => used,
+        () => new InvalidPasswordResetTokenError(),
+      ),
+      Effect.map(() => input),
+    );
+  }
+
+  private findUser(
+    input: PasswordValidatedInput,
+  ): Effect.Effect<UserFoundInput, ResetPasswordError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(input.record.userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new InvalidPasswordResetTokenError())
+          : Effect.succeed({ user, newPassword: input.newPassword }),
+      ),
+    );
+  }
+
+  private updatePassword(
+    input: UserFoundInput,
+  ): Effect.Effect<User, ResetPasswordError> {
+    return Effect.tryPromise({
+      try: async () => {
+        input.user.changePassword(
+          await PasswordHash.create(input.newPassword.value),
+        );
+        await this.userRepository.updatePassword(input.user);
+        return input.user;
+      },
+      catch: (cause) =>
+        this.createUnexpectedError('パスワードの更新に失敗しました', cause),
+    });
+  }
+
+  // パスワードを知らない第三者がログイン中の可能性があるため、すべての端末をログアウトさせる
+  private revokeAllSessions(
+    user: User,
+  ): Effect.Effect<void, ResetPasswordError> {
+    return Effect.tryPromise({
+      try: async () => {
+        await this.sessionService.revokeAll({ userId: Number(user.id) });
+        await this.passwordResetTokenRepository.invalidateAllByUserId(
+          Number(user.id),
+        );
+      },
+      catch: (cause) =>
+        this.createUnexpectedError('セッションの失効に失敗しました', cause),
+    });
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedResetPasswordError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedResetPasswordError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersResetPasswordOutput, ResetPasswordError>,
+  ): UsersResetPasswordOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedResetPasswordError({
+                message: 'パスワードの再設定に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
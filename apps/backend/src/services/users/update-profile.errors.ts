@@ -0,0 +1,37 @@
+import { DomainError } from '../../domain/values/domain-error';
+import type { UserNotFoundError } from './change-password.errors';
+import type {
+  EmailAlreadyExistsError,
+  InvalidUserEmailError,
+  InvalidUserNameError,
+} from './register-user.errors';
+
+export { UserNotFoundError } from './change-password.errors';
+export {
+  EmailAlreadyExistsError,
+  InvalidUserEmailError,
+  InvalidUserNameError,
+} from './register-user.errors';
+
+type UnexpectedUpdateProfileErrorParams = {
+  message: string;
+  cause?: Error;
+};
+
+export class UnexpectedUpdateProfileError extends DomainError {
+  public readonly cause?: Error;
+
+  constructor(params: UnexpectedUpdateProfileErrorParams) {
+    super(params.message, 'UnexpectedUpdateProfileError');
+    if (params.cause) {
+      this.cause = params.cause;
+    }
+  }
+}
+
+export type UpdateProfileError =
+  | UserNotFoundError
+  | InvalidUserNameError
+  | InvalidUserEmailError
+  | EmailAlreadyExistsError
+  | UnexpectedUpdateProfileError;
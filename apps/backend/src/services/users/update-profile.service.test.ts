@@ -0,0 +1,175 @@
+import { Container } from 'inversify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { PasswordHash } from '../../domain/values/password-hash';
+import type { IEmailChangeTokenService } from '../auth/email-change-token.service';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender } from '../mail/mail-sender';
+import {
+  EmailAlreadyExistsError,
+  InvalidUserEmailError,
+  InvalidUserNameError,
+  UnexpectedUpdateProfileError,
+  UserNotFoundError,
+} from './update-profile.errors';
+import { UpdateProfileUseCase } from './update-profile.service';
+
+describe('UpdateProfileUseCase（プロフィール更新）', () => {
+  const fixedNow = new Date('2025-01-01T00:00:00.000Z');
+
+  const makeUser = () =>
+    User.reconstruct(
+      1,
+      'test@example.com',
+      PasswordHash.reconstruct('salt:hash'),
+      'テストユーザー',
+      fixedNow,
+      fixedNow,
+    );
+
+  const setup = (overrides?: Partial<IUserRepository>) => {
+    const userRepo: IUserRepository = {
+      findById: vi.fn(async () => makeUser()),
+      findByEmail: vi.fn(),
+      existsByEmail: vi.fn(async () => false),
+      create: vi.fn(),
+      updatePassword: vi.fn(),
+      updateProfile: vi.fn(async () => undefined),
+      softDelete: vi.fn(),
+      findIdsDeletedBefore: vi.fn(),
+      purge: vi.fn(),
+      ...overrides,
+    };
+    const emailChangeTokenService: IEmailChangeTokenService = {
+      issue: vi.fn(async () => 'change-token'),
+    };
+    const mailSender: IMailSender = {
+      send: vi.fn(async () => undefined),
+    };
+
+    const container = new Container();
+    container
+      .bind<IUserRepository>(TOKENS.UserRepository)
+      .toConstantValue(userRepo);
+    container
+      .bind<IEmailChangeTokenService>(TOKENS.EmailChangeTokenService)
+      .toConstantValue(emailChangeTokenService);
+    container.bind<IMailSender>(TOKENS.MailSender).toConstantValue(mailSender);
+    container.bind<UpdateProfileUseCase>(UpdateProfileUseCase).toSelf();
+
+    const useCase = container.get(UpdateProfileUseCase);
+
+    return { useCase, userRepo, emailChangeTokenService, mailSender };
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('正常系', () => {
+    it('名前を変更して保存する（メールアドレスは確認待ちにならない）', async () => {
+      const { useCase, userRepo, mailSender } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        name: '  新しい名前  ',
+      });
+
+      const [updated] = vi.mocked(userRepo.updateProfile).mock.calls[0];
+      expect(updated.name).toBe('新しい名前');
+      expect(updated.email).toBe('test@example.com');
+      expect(mailSender.send).not.toHaveBeenCalled();
+      expect(result.user).toMatchObject({
+        id: 1,
+        email: 'test@example.com',
+        name: '新しい名前',
+      });
+      expect(result.pendingEmail).toBeNull();
+    });
+
+    it('メールアドレスの変更は反映せず、変更後のアドレスへ確認メールを送る', async () => {
+      const { useCase, userRepo, emailChangeTokenService, mailSender } =
+        setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        email: ' New@Example.com ',
+      });
+
+      expect(userRepo.existsByEmail).toHaveBeenCalledWith('new@example.com');
+      expect(emailChangeTokenService.issue).toHaveBeenCalledWith({
+        userId: 1,
+        newEmail: 'new@example.com',
+      });
+      const [mail] = vi.mocked(mailSender.send).mock.calls[0];
+      expect(mail.to).toBe('new@example.com');
+      expect(mail.text).toContain('change-token');
+      expect(userRepo.updateProfile).not.toHaveBeenCalled();
+      expect(result.user.email).toBe('test@example.com');
+      expect(result.pendingEmail).toBe('new@example.com');
+    });
+
+    it('現在と同じメールアドレスが指定された場合は確認メールを送らない', async () => {
+      const { useCase, emailChangeTokenService, mailSender } = setup();
+
+      const result = await useCase.execute({
+        userId: 1,
+        email: 'TEST@example.com',
+      });
+
+      expect(emailChangeTokenService.issue).not.toHaveBeenCalled();
+      expect(mailSender.send).not.toHaveBeenCalled();
+      expect(result.pendingEmail).toBeNull();
+    });
+  });
+
+  describe('異常系', () => {
+    it('ユーザーが存在しない場合は UserNotFoundError になる', async () => {
+      const { useCase } = setup({ findById: vi.fn(async () => null) });
+
+      await expect(
+        useCase.execute({ userId: 1, name: '新しい名前' }),
+      ).rejects.toBeInstanceOf(UserNotFoundError);
+    });
+
+    it('名前が空の場合は InvalidUserNameError になり、保存しない', async () => {
+      const { useCase, userRepo } = setup();
+
+      await expect(
+        useCase.execute({ userId: 1, name: '   ' }),
+      ).rejects.toBeInstanceOf(InvalidUserNameError);
+      expect(userRepo.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('メールアドレスの形式が不正な場合は InvalidUserEmailError になる', async () => {
+      const { useCase, mailSender } = setup();
+
+      await expect(
+        useCase.execute({ userId: 1, email: 'invalid-email' }),
+      ).rejects.toBeInstanceOf(InvalidUserEmailError);
+      expect(mailSender.send).not.toHaveBeenCalled();
+    });
+
+    it('変更後のメールアドレスが既に使われている場合は EmailAlreadyExistsError になる', async () => {
+      const { useCase, emailChangeTokenService } = setup({
+        existsByEmail: vi.fn(async () => true),
+      });
+
+      await expect(
+        useCase.execute({ userId: 1, email: 'taken@example.com' }),
+      ).rejects.toBeInstanceOf(EmailAlreadyExistsError);
+      expect(emailChangeTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('確認メールの送信に失敗した場合は UnexpectedUpdateProfileError になる', async () => {
+      const { useCase, mailSender } = setup();
+      vi.mocked(mailSender.send).mockRejectedValue(new Error('smtp down'));
+
+      await expect(
+        useCase.execute({ userId: 1, email: 'new@example.com' }),
+      ).rejects.toBeInstanceOf(UnexpectedUpdateProfileError);
+    });
+  });
+});
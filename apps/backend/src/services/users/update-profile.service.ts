@@ -0,0 +1,262 @@
+// Application Layer: Update Profile Use Case
+// ユーザー名を変更し、メールアドレスの変更は確認メールを送って確認待ちにする
+// NOTE: 新しいメールアドレスは受信できることを確認するまで反映しない（確認は ConfirmEmailChangeUseCase）
+
+import type {
+  UsersUpdateProfileInput,
+  UsersUpdateProfileOutput,
+} from '@account-book-app/shared';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
+import { inject, injectable } from 'inversify';
+
+import { User } from '../../domain/entities/user.entity';
+import type { IUserRepository } from '../../domain/repositories/user.repository.interface';
+import { Effect, pipe } from '../../shared/result';
+import {
+  EMAIL_CHANGE_TOKEN_EXPIRES_IN_HOURS,
+  type IEmailChangeTokenService,
+} from '../auth/email-change-token.service';
+import { TOKENS } from '../di/tokens';
+import type { IMailSender, MailMessage } from '../mail/mail-sender';
+import {
+  EmailAlreadyExistsError,
+  InvalidUserEmailError,
+  InvalidUserNameError,
+  UnexpectedUpdateProfileError,
+  type UpdateProfileError,
+  UserNotFoundError,
+} from './update-profile.errors';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMAIL_CHANGE_MAIL_SUBJECT = '【家計簿アプリ】メールアドレス変更の確認';
+
+export type UpdateProfileInput = UsersUpdateProfileInput & {
+  userId: number;
+};
+
+type ProfileChangedInput = {
+  user: User;
+  pendingEmail: string | null;
+};
+
+const toEmailChangeMail = (
+  user: User,
+  newEmail: string,
+  token: string,
+): MailMessage => ({
+  to: newEmail,
+  subject: EMAIL_CHANGE_MAIL_SUBJECT,
+  text: [
+    `${user.name} 様`,
+    '',
+    'メールアドレスの変更リクエストを受け付けました。',
+    `以下の確認用トークンを使用して、${EMAIL_CHANGE_TOKEN_EXPIRES_IN_HOURS}時間以内に変更を完了してください。`,
+    '',
+    token,
+    '',
+    '変更が完了するまでは、これまでのメールアドレスでログインしてください。',
+    'このメールに心当たりがない場合は、破棄してください。メールアドレスは変更されません。',
+  ].join('\n'),
+});
+
+@injectable()
+export class UpdateProfileUseCase {
+  @inject(TOKENS.UserRepository)
+  private userRepository!: IUserRepository;
+
+  @inject(TOKENS.EmailChangeTokenService)
+  private emailChangeTokenService!: IEmailChangeTokenService;
+
+  @inject(TOKENS.MailSender)
+  private mailSender!: IMailSender;
+
+  async execute(input: UpdateProfileInput): Promise<UsersUpdateProfileOutput> {
+    const program = this.buildProgram(input);
+    const exit = await Effect.runPromiseExit(program);
+    return this.unwrapExit(exit);
+  }
+
+  private buildProgram(
+    input: UpdateProfileInput,
+  ): Effect.Effect<UsersUpdateProfileOutput, UpdateProfileError> {
+    return pipe(
+      this.findUser(input.userId),
+      Effect.flatMap((user) => this.changeName(user, input.name)),
+      Effect.flatMap((user) => this.saveProfile(user, input.name)),
+      Effect.flatMap((user) => this.requestEmailChange(user, input.email)),
+      Effect.map(({ user, pendingEmail }) => ({
+        user: {
+          id: Number(user.id),
+          email: user.email,
+          name: user.name,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+        pendingEmail,
+      })),
+    );
+  }
+
+  private findUser(userId: number): Effect.Effect<User, UpdateProfileError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () => this.userRepository.findById(userId),
+        catch: (cause) =>
+          this.createUnexpectedError('ユーザー情報の取得に失敗しました', cause),
+      }),
+      Effect.flatMap((user) =>
+        user === null
+          ? Effect.fail(new UserNotFoundError())
+          : Effect.succeed(user),
+      ),
+    );
+  }
+
+  private changeName(
+    user: User,
+    name: string | undefined,
+  ): Effect.Effect<User, UpdateProfileError> {
+    return name === undefined
+      ? Effect.succeed(user)
+      : Effect.try({
+          try: () => {
+            user.changeName(name);
+            return user;
+          },
+          catch: () => new InvalidUserNameError(),
+        });
+  }
+
+  private saveProfile(
+    user: User,
+    name: string | undefined,
+  ): Effect.Effect<User, UpdateProfileError> {
+    return name === undefined
+      ? Effect.succeed(user)
+      : pipe(
+          Effect.tryPromise({
+            try: () => this.userRepository.updateProfile(user),
+            catch: (cause) =>
+              this.createUnexpectedError(
+                'プロフィールの更新に失敗しました',
+                cause,
+              ),
+          }),
+          Effect.map(() => user),
+        );
+  }
+
+  // 現在と同じメールアドレスが指定された場合は変更なしとして扱う
+  private requestEmailChange(
+    user: User,
+    email: string | undefined,
+  ): Effect.Effect<ProfileChangedInput, UpdateProfileError> {
+    const newEmail =
+      email === undefined ? user.email : User.normalizeEmail(email);
+
+    return newEmail === user.email
+      ? Effect.succeed({ user, pendingEmail: null })
+      : pipe(
+          this.validateNewEmail(newEmail),
+          Effect.flatMap(() => this.sendConfirmationMail(user, newEmail)),
+          Effect.map(() => ({ user, pendingEmail: newEmail })),
+        );
+  }
+
+  private validateNewEmail(
+    newEmail: string,
+  ): Effect.Effect<string, UpdateProfileError> {
+    return pipe(
+      Effect.succeed(newEmail),
+      Effect.filterOrFail(
+        (email) => EMAIL_REGEX.test(email),
+        () => new InvalidUserEmailError(),
+      ),
+      Effect.flatMap((email) =>
+        Effect.tryPromise({
+          try: () => this.userRepository.existsByEmail(email),
+          catch: (cause) =>
+            this.createUnexpectedError(
+              'ユーザー情報の取得に失敗しました',
+              cause,
+            ),
+        }),
+      ),
+      Effect.filterOrFail(
+        (exists) => !exists,
+        () => new EmailAlreadyExistsError(newEmail),
+      ),
+      Effect.map(() => newEmail),
+    );
+  }
+
+  private sendConfirmationMail(
+    user: User,
+    newEmail: string,
+  ): Effect.Effect<void, UpdateProfileError> {
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          this.emailChangeTokenService.issue({
+            userId: Number(user.id),
+            newEmail,
+          }),
+        catch: (cause) =>
+          this.createUnexpectedError(
+            '確認用トークンの発行に失敗しました',
+            cause,
+          ),
+      }),
+      Effect.flatMap((token) =>
+        Effect.tryPromise({
+          try: () =>
+            this.mailSender.send(toEmailChangeMail(user, newEmail, token)),
+          catch: (cause) =>
+            this.createUnexpectedError('確認メールの送信に失敗しました', cause),
+        }),
+      ),
+    );
+  }
+
+  private createUnexpectedError(
+    message: string,
+    cause?: unknown,
+  ): UnexpectedUpdateProfileError {
+    const normalizedCause =
+      cause instanceof Error
+        ? cause
+        : typeof cause === 'string'
+          ? new Error(cause)
+          : new Error('unknown error');
+
+    return new UnexpectedUpdateProfileError({
+      message,
+      cause: normalizedCause,
+    });
+  }
+
+  private unwrapExit(
+    exit: Exit.Exit<UsersUpdateProfileOutput, UpdateProfileError>,
+  ): UsersUpdateProfileOutput {
+    return Exit.match(exit, {
+      onSuccess: (value) => value,
+      onFailure: (cause) =>
+        pipe(
+          Cause.failureOption(cause),
+          Option.match({
+            onNone: () => {
+              throw new UnexpectedUpdateProfileError({
+                message: 'プロフィールの更新に失敗しました',
+                cause: new Error('Effectの実行が失敗しました'),
+              });
+            },
+            onSome: (error) => {
+              throw error;
+            },
+          }),
+        ),
+    });
+  }
+}
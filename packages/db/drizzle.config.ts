@@ -5,13 +5,29 @@ config({ path: "../../.env" });
 
 export default defineConfig({
 	schema: [
+		"./src/schema/accounts.ts",
+		"./src/schema/budgets.ts",
 		"./src/schema/categories.ts",
 		"./src/schema/currencies.ts",
+		"./src/schema/email-change-tokens.ts",
+		"./src/schema/exchange-rates.ts",
+		"./src/schema/ledger-invitations.ts",
+		"./src/schema/ledger-members.ts",
+		"./src/schema/ledgers.ts",
+		"./src/schema/password-reset-tokens.ts",
+		"./src/schema/recurring-transactions.ts",
+		"./src/schema/refresh-tokens.ts",
+		"./src/schema/tags.ts",
 		"./src/schema/token-blacklists.ts",
+		"./src/schema/transaction-attachments.ts",
 		"./src/schema/transaction-categories.ts",
+		"./src/schema/transaction-imports.ts",
+		"./src/schema/transaction-revisions.ts",
+		"./src/schema/transaction-tags.ts",
 		"./src/schema/transaction-types.ts",
 		"./src/schema/transactions.ts",
 		"./src/schema/user-categories.ts",
+		"./src/schema/user-sessions.ts",
 		"./src/schema/users.ts",
 	],
 	out: "./drizzle",
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"from_currency_id" integer NOT NULL,
+	"to_currency_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_from_currency_id_to_currency_id_date_unique" UNIQUE("from_currency_id","to_currency_id","date")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "base_currency_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_from_currency_id_currencies_id_fk" FOREIGN KEY ("from_currency_id") REFERENCES "public"."currencies"("id") ON DELETE restrict ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_to_currency_id_currencies_id_fk" FOREIGN KEY ("to_currency_id") REFERENCES "public"."currencies"("id") ON DELETE restrict ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "users" ADD CONSTRAINT "users_base_currency_id_currencies_id_fk" FOREIGN KEY ("base_currency_id") REFERENCES "public"."currencies"("id") ON DELETE set null ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
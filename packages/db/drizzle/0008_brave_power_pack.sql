@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "transaction_attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transaction_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"content_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transaction_attachments_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_attachments" ADD CONSTRAINT "transaction_attachments_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_attachments" ADD CONSTRAINT "transaction_attachments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "user_sessions" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"device" varchar(100) NOT NULL,
+	"user_agent" varchar(512),
+	"ip_address" varchar(45),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,66 @@
+CREATE TABLE IF NOT EXISTS "ledger_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ledger_id" integer NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(10) NOT NULL,
+	"invited_by" integer NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ledger_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ledger_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ledger_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(10) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ledger_members_ledger_id_user_id_unique" UNIQUE("ledger_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ledgers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "ledger_id" integer;--> statement-breakpoint
+-- 既存ユーザーごとに個人用の帳簿（ID はユーザーIDと同じ）を作成し、既存の取引をその帳簿に移す
+INSERT INTO "ledgers" ("id", "name") SELECT "id", 'マイ家計簿' FROM "users";--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('ledgers', 'id'), coalesce((SELECT max("id") FROM "ledgers"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "ledger_members" ("ledger_id", "user_id", "role") SELECT "id", "id", 'OWNER' FROM "users";--> statement-breakpoint
+UPDATE "transactions" SET "ledger_id" = "user_id";--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "ledger_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ledger_invitations" ADD CONSTRAINT "ledger_invitations_ledger_id_ledgers_id_fk" FOREIGN KEY ("ledger_id") REFERENCES "public"."ledgers"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ledger_invitations" ADD CONSTRAINT "ledger_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ledger_members" ADD CONSTRAINT "ledger_members_ledger_id_ledgers_id_fk" FOREIGN KEY ("ledger_id") REFERENCES "public"."ledgers"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ledger_members" ADD CONSTRAINT "ledger_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transactions" ADD CONSTRAINT "transactions_ledger_id_ledgers_id_fk" FOREIGN KEY ("ledger_id") REFERENCES "public"."ledgers"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
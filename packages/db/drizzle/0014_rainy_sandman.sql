@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "transaction_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transaction_id" integer NOT NULL,
+	"action" varchar(10) NOT NULL,
+	"changed_by" integer,
+	"before" jsonb NOT NULL,
+	"after" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_revisions" ADD CONSTRAINT "transaction_revisions_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_revisions" ADD CONSTRAINT "transaction_revisions_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transaction_revisions_transaction_id_idx" ON "transaction_revisions" ("transaction_id");
\ No newline at end of file
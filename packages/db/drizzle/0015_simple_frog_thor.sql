@@ -0,0 +1,5 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "search_text" text DEFAULT '' NOT NULL;--> statement-breakpoint
+-- 既存の取引の検索用文字列を、アプリケーションの正規化（NFKC・小文字・カタカナ→ひらがな・空白の集約）と同じ規則で作成する
+UPDATE "transactions" SET "search_text" = btrim(regexp_replace(translate(lower(normalize("title" || coalesce(' ' || "memo", ''), NFKC)), 'ァアィイゥウェエォオカガキギクグケゲコゴサザシジスズセゼソゾタダチヂッツヅテデトドナニヌネノハバパヒビピフブプヘベペホボポマミムメモャヤュユョヨラリルレロヮワヰヱヲンヴヵヶ', 'ぁあぃいぅうぇえぉおかがきぎくぐけげこごさざしじすずせぜそぞただちぢっつづてでとどなにぬねのはばぱひびぴふぶぷへべぺほぼぽまみむめもゃやゅゆょよらりるれろゎわゐゑをんゔゕゖ'), '\s+', ' ', 'g'));--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transactions_search_text_trgm_idx" ON "transactions" USING gin ("search_text" gin_trgm_ops);
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "transactions_ledger_id_date_id_idx" ON "transactions" ("ledger_id","date","id");
\ No newline at end of file
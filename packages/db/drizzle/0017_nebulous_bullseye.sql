@@ -0,0 +1,4 @@
+ALTER TABLE "transaction_categories" ADD COLUMN "amount" integer;--> statement-breakpoint
+-- 既存の取引の金額をカテゴリに均等に割り当てる（割り切れない端数は登録順で先頭のカテゴリに寄せる）
+UPDATE "transaction_categories" SET "amount" = "splits"."amount" FROM (SELECT "transaction_categories"."id", "transactions"."amount" / count(*) OVER "w" + CASE WHEN row_number() OVER "w" = 1 THEN "transactions"."amount" % count(*) OVER "w" ELSE 0 END AS "amount" FROM "transaction_categories" INNER JOIN "transactions" ON "transactions"."id" = "transaction_categories"."transaction_id" WINDOW "w" AS (PARTITION BY "transaction_categories"."transaction_id" ORDER BY "transaction_categories"."id" ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING)) AS "splits" WHERE "transaction_categories"."id" = "splits"."id";--> statement-breakpoint
+ALTER TABLE "transaction_categories" ALTER COLUMN "amount" SET NOT NULL;
@@ -0,0 +1,10 @@
+ALTER TABLE "categories" DROP CONSTRAINT "categories_name_unique";--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "user_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+UPDATE "categories" SET "user_id" = "owners"."user_id" FROM (SELECT "category_id", min("user_id") AS "user_id" FROM "user_categories" GROUP BY "category_id") AS "owners" WHERE "categories"."id" = "owners"."category_id" AND "categories"."is_default" = false;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_name_unique" UNIQUE NULLS NOT DISTINCT("user_id","name");
\ No newline at end of file
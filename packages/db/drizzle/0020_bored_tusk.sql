@@ -0,0 +1,8 @@
+ALTER TABLE "categories" ADD COLUMN "parent_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "categories_parent_id_idx" ON "categories" ("parent_id");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "currencies" ADD COLUMN "exponent" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "currencies" SET "exponent" = CASE WHEN "code" IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 0 WHEN "code" IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3 ELSE 2 END;--> statement-breakpoint
+UPDATE "transactions" SET "amount" = "transactions"."amount" * power(10, "currencies"."exponent")::integer FROM "currencies" WHERE "transactions"."currency_id" = "currencies"."id" AND "currencies"."exponent" > 0;--> statement-breakpoint
+UPDATE "transaction_categories" SET "amount" = "transaction_categories"."amount" * power(10, "currencies"."exponent")::integer FROM "transactions" INNER JOIN "currencies" ON "transactions"."currency_id" = "currencies"."id" WHERE "transaction_categories"."transaction_id" = "transactions"."id" AND "currencies"."exponent" > 0;--> statement-breakpoint
+UPDATE "recurring_transactions" SET "amount" = "recurring_transactions"."amount" * power(10, "currencies"."exponent")::integer FROM "currencies" WHERE "recurring_transactions"."currency_id" = "currencies"."id" AND "currencies"."exponent" > 0;--> statement-breakpoint
+UPDATE "budgets" SET "amount" = "budgets"."amount" * power(10, "currencies"."exponent")::integer FROM "currencies" WHERE "budgets"."currency_id" = "currencies"."id" AND "currencies"."exponent" > 0;--> statement-breakpoint
+UPDATE "accounts" SET "opening_balance" = "accounts"."opening_balance" * power(10, "currencies"."exponent")::integer FROM "currencies" WHERE "accounts"."currency_id" = "currencies"."id" AND "currencies"."exponent" > 0;
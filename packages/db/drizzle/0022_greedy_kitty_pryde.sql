@@ -0,0 +1,12 @@
+ALTER TABLE "transaction_imports" DROP CONSTRAINT "transaction_imports_user_id_row_hash_unique";--> statement-breakpoint
+ALTER TABLE "transaction_imports" ADD COLUMN "ledger_id" integer;--> statement-breakpoint
+UPDATE "transaction_imports" SET "ledger_id" = "transactions"."ledger_id" FROM "transactions" WHERE "transaction_imports"."transaction_id" = "transactions"."id";--> statement-breakpoint
+ALTER TABLE "transaction_imports" ALTER COLUMN "ledger_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_imports" ADD CONSTRAINT "transaction_imports_ledger_id_ledgers_id_fk" FOREIGN KEY ("ledger_id") REFERENCES "public"."ledgers"("id") ON DELETE cascade ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DELETE FROM "transaction_imports" AS "duplicated" USING "transaction_imports" AS "kept" WHERE "duplicated"."ledger_id" = "kept"."ledger_id" AND "duplicated"."row_hash" = "kept"."row_hash" AND "duplicated"."id" > "kept"."id";--> statement-breakpoint
+ALTER TABLE "transaction_imports" ADD CONSTRAINT "transaction_imports_ledger_id_row_hash_unique" UNIQUE("ledger_id","row_hash");
\ No newline at end of file
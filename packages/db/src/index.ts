@@ -1,4 +1,5 @@
 export { and, asc, count, desc, eq, isNull, sql } from "drizzle-orm";
+export { alias } from "drizzle-orm/pg-core";
 export type { NodePgDatabase } from "drizzle-orm/node-postgres";
 export { db } from "./db.js";
 export * from "./relations/index.js";
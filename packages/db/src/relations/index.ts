@@ -1,18 +1,40 @@
 import { relations } from "drizzle-orm";
+import { accounts } from "../schema/accounts.js";
+import { budgets } from "../schema/budgets.js";
 import { categories } from "../schema/categories.js";
 import { currencies } from "../schema/currencies.js";
+import { exchangeRates } from "../schema/exchange-rates.js";
+import {
+	recurringTransactionOccurrences,
+	recurringTransactions,
+} from "../schema/recurring-transactions.js";
+import { tags } from "../schema/tags.js";
 import { tokenBlacklists } from "../schema/token-blacklists.js";
+import { transactionAttachments } from "../schema/transaction-attachments.js";
 import { transactionCategories } from "../schema/transaction-categories.js";
+import { transactionImports } from "../schema/transaction-imports.js";
+import { transactionTags } from "../schema/transaction-tags.js";
 import { transactionTypes } from "../schema/transaction-types.js";
 import { transactions } from "../schema/transactions.js";
 import { userCategories } from "../schema/user-categories.js";
 import { users } from "../schema/users.js";
 
 // users relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+	baseCurrency: one(currencies, {
+		fields: [users.baseCurrencyId],
+		references: [currencies.id],
+	}),
 	transactions: many(transactions),
 	userCategories: many(userCategories),
 	tokenBlacklists: many(tokenBlacklists),
+	budgets: many(budgets),
+	recurringTransactions: many(recurringTransactions),
+	transactionImports: many(transactionImports),
+	accounts: many(accounts),
+	transactionAttachments: many(transactionAttachments),
+	tags: many(tags),
+	categories: many(categories),
 }));
 
 // transaction_types relations
@@ -30,8 +52,19 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
 		fields: [categories.typeId],
 		references: [transactionTypes.id],
 	}),
+	user: one(users, {
+		fields: [categories.userId],
+		references: [users.id],
+	}),
+	parent: one(categories, {
+		fields: [categories.parentId],
+		references: [categories.id],
+		relationName: "category_parent",
+	}),
+	children: many(categories, { relationName: "category_parent" }),
 	userCategories: many(userCategories),
 	transactionCategories: many(transactionCategories),
+	budgets: many(budgets),
 }));
 
 // user_categories relations
@@ -62,7 +95,35 @@ export const transactionsRelations = relations(
 			fields: [transactions.currencyId],
 			references: [currencies.id],
 		}),
+		account: one(accounts, {
+			fields: [transactions.accountId],
+			references: [accounts.id],
+			relationName: "account",
+		}),
+		transferAccount: one(accounts, {
+			fields: [transactions.transferAccountId],
+			references: [accounts.id],
+			relationName: "transferAccount",
+		}),
 		transactionCategories: many(transactionCategories),
+		transactionImports: many(transactionImports),
+		attachments: many(transactionAttachments),
+		transactionTags: many(transactionTags),
+	}),
+);
+
+// transaction_attachments relations
+export const transactionAttachmentsRelations = relations(
+	transactionAttachments,
+	({ one }) => ({
+		transaction: one(transactions, {
+			fields: [transactionAttachments.transactionId],
+			references: [transactions.id],
+		}),
+		user: one(users, {
+			fields: [transactionAttachments.userId],
+			references: [users.id],
+		}),
 	}),
 );
 
@@ -81,9 +142,67 @@ export const transactionCategoriesRelations = relations(
 	}),
 );
 
+// tags relations
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+	user: one(users, {
+		fields: [tags.userId],
+		references: [users.id],
+	}),
+	transactionTags: many(transactionTags),
+}));
+
+// transaction_tags relations
+export const transactionTagsRelations = relations(
+	transactionTags,
+	({ one }) => ({
+		transaction: one(transactions, {
+			fields: [transactionTags.transactionId],
+			references: [transactions.id],
+		}),
+		tag: one(tags, {
+			fields: [transactionTags.tagId],
+			references: [tags.id],
+		}),
+	}),
+);
+
 // currencies relations
 export const currenciesRelations = relations(currencies, ({ many }) => ({
 	transactions: many(transactions),
+	budgets: many(budgets),
+	accounts: many(accounts),
+	exchangeRatesFrom: many(exchangeRates, { relationName: "fromCurrency" }),
+	exchangeRatesTo: many(exchangeRates, { relationName: "toCurrency" }),
+}));
+
+// exchange_rates relations
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+	fromCurrency: one(currencies, {
+		fields: [exchangeRates.fromCurrencyId],
+		references: [currencies.id],
+		relationName: "fromCurrency",
+	}),
+	toCurrency: one(currencies, {
+		fields: [exchangeRates.toCurrencyId],
+		references: [currencies.id],
+		relationName: "toCurrency",
+	}),
+}));
+
+// accounts relations
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+	user: one(users, {
+		fields: [accounts.userId],
+		references: [users.id],
+	}),
+	currency: one(currencies, {
+		fields: [accounts.currencyId],
+		references: [currencies.id],
+	}),
+	transactions: many(transactions, { relationName: "account" }),
+	transferTransactions: many(transactions, {
+		relationName: "transferAccount",
+	}),
 }));
 
 // token_blacklists relations
@@ -96,3 +215,73 @@ export const tokenBlacklistsRelations = relations(
 		}),
 	}),
 );
+
+// budgets relations
+export const budgetsRelations = relations(budgets, ({ one }) => ({
+	user: one(users, {
+		fields: [budgets.userId],
+		references: [users.id],
+	}),
+	category: one(categories, {
+		fields: [budgets.categoryId],
+		references: [categories.id],
+	}),
+	currency: one(currencies, {
+		fields: [budgets.currencyId],
+		references: [currencies.id],
+	}),
+}));
+
+// recurring_transactions relations
+export const recurringTransactionsRelations = relations(
+	recurringTransactions,
+	({ one, many }) => ({
+		user: one(users, {
+			fields: [recurringTransactions.userId],
+			references: [users.id],
+		}),
+		transactionType: one(transactionTypes, {
+			fields: [recurringTransactions.typeId],
+			references: [transactionTypes.id],
+		}),
+		currency: one(currencies, {
+			fields: [recurringTransactions.currencyId],
+			references: [currencies.id],
+		}),
+		category: one(categories, {
+			fields: [recurringTransactions.categoryId],
+			references: [categories.id],
+		}),
+		occurrences: many(recurringTransactionOccurrences),
+	}),
+);
+
+// recurring_transaction_occurrences relations
+export const recurringTransactionOccurrencesRelations = relations(
+	recurringTransactionOccurrences,
+	({ one }) => ({
+		recurringTransaction: one(recurringTransactions, {
+			fields: [recurringTransactionOccurrences.recurringTransactionId],
+			references: [recurringTransactions.id],
+		}),
+		transaction: one(transactions, {
+			fields: [recurringTransactionOccurrences.transactionId],
+			references: [transactions.id],
+		}),
+	}),
+);
+
+// transaction_imports relations
+export const transactionImportsRelations = relations(
+	transactionImports,
+	({ one }) => ({
+		user: one(users, {
+			fields: [transactionImports.userId],
+			references: [users.id],
+		}),
+		transaction: one(transactions, {
+			fields: [transactionImports.transactionId],
+			references: [transactions.id],
+		}),
+	}),
+);
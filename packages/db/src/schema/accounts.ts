@@ -0,0 +1,37 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { currencies } from "./currencies";
+import { users } from "./users";
+
+// 口座（現金/銀行口座/クレジットカード）
+// NOTE: 残高は開始残高 + 紐づく取引（収入 - 支出）から算出するため、残高そのものは保持しない
+export const accounts = pgTable(
+	"accounts",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		name: varchar("name", { length: 50 }).notNull(),
+		type: varchar("type", { length: 20 }).notNull(),
+		// NOTE: クレジットカードの未払残高などを表すため負の値も許容する
+		openingBalance: integer("opening_balance").notNull().default(0),
+		currencyId: integer("currency_id")
+			.notNull()
+			.references(() => currencies.id, {
+				onDelete: "restrict",
+				onUpdate: "cascade",
+			}),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.userId, table.name),
+	}),
+);
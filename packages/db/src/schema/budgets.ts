@@ -0,0 +1,39 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+} from "drizzle-orm/pg-core";
+import { categories } from "./categories";
+import { currencies } from "./currencies";
+import { users } from "./users";
+
+// NOTE: 予算はカテゴリごとの月次上限額（毎月同額を適用する）
+export const budgets = pgTable(
+	"budgets",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		categoryId: integer("category_id")
+			.notNull()
+			.references(() => categories.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		amount: integer("amount").notNull(),
+		currencyId: integer("currency_id")
+			.notNull()
+			.references(() => currencies.id, {
+				onDelete: "restrict",
+				onUpdate: "cascade",
+			}),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.userId, table.categoryId),
+	}),
+);
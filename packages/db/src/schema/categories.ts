@@ -1,23 +1,45 @@
 import {
+	type AnyPgColumn,
 	boolean,
+	index,
 	integer,
 	pgTable,
 	serial,
 	timestamp,
+	unique,
 	varchar,
 } from "drizzle-orm/pg-core";
 import { transactionTypes } from "./transaction-types";
+import { users } from "./users";
 
-export const categories = pgTable("categories", {
-	id: serial("id").primaryKey(),
-	name: varchar("name", { length: 50 }).notNull().unique(),
-	typeId: integer("type_id")
-		.notNull()
-		.references(() => transactionTypes.id, {
-			onDelete: "restrict",
+export const categories = pgTable(
+	"categories",
+	{
+		id: serial("id").primaryKey(),
+		name: varchar("name", { length: 50 }).notNull(),
+		typeId: integer("type_id")
+			.notNull()
+			.references(() => transactionTypes.id, {
+				onDelete: "restrict",
+				onUpdate: "cascade",
+			}),
+		isDefault: boolean("is_default").notNull().default(false),
+		// カテゴリを作成したユーザー（null の場合は全ユーザー共通のデフォルトカテゴリ）
+		userId: integer("user_id").references(() => users.id, {
+			onDelete: "cascade",
 			onUpdate: "cascade",
 		}),
-	isDefault: boolean("is_default").notNull().default(false),
-	createdAt: timestamp("created_at").defaultNow().notNull(),
-	updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+		// 親カテゴリ（null の場合は最上位。階層は2段まで。親が削除された場合は最上位に戻す）
+		parentId: integer("parent_id").references((): AnyPgColumn => categories.id, {
+			onDelete: "set null",
+			onUpdate: "cascade",
+		}),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		// NOTE: 名前の重複はユーザーごとに判定する（共通カテゴリ同士は user_id = null 同士で判定する）
+		unq: unique().on(table.userId, table.name).nullsNotDistinct(),
+		parentIdIdx: index("categories_parent_id_idx").on(table.parentId),
+	}),
+);
@@ -3,6 +3,7 @@ import {
   serial,
   varchar,
   boolean,
+  integer,
   timestamp,
 } from "drizzle-orm/pg-core";
 
@@ -11,6 +12,8 @@ export const currencies = pgTable("currencies", {
   code: varchar("code", { length: 3 }).notNull().unique(),
   name: varchar("name", { length: 50 }).notNull().unique(),
   symbol: varchar("symbol", { length: 10 }).notNull(),
+  // NOTE: 補助単位の桁数（ISO 4217 の minor unit。JPY は 0、USD は 2）。金額はこの桁数の最小単位の整数で保存する
+  exponent: integer("exponent").notNull().default(0),
   isActive: boolean("is_active").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -0,0 +1,24 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { users } from "./users";
+
+// メールアドレス変更の確認トークン
+// NOTE: 変更後のメールアドレスは、確認トークンが使用されるまで users には反映しない
+// NOTE: トークン本体は保存せず、SHA-256 ハッシュのみを保持する
+export const emailChangeTokens = pgTable("email_change_tokens", {
+	id: serial("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	newEmail: varchar("new_email", { length: 255 }).notNull(),
+	tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+	expiresAt: timestamp("expires_at").notNull(),
+	usedAt: timestamp("used_at"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
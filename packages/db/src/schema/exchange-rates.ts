@@ -0,0 +1,37 @@
+import {
+	date,
+	integer,
+	numeric,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+} from "drizzle-orm/pg-core";
+import { currencies } from "./currencies";
+
+// NOTE: rate は「換算元 1 単位あたりの換算先の金額」（例: USD→JPY = 150.25）
+export const exchangeRates = pgTable(
+	"exchange_rates",
+	{
+		id: serial("id").primaryKey(),
+		fromCurrencyId: integer("from_currency_id")
+			.notNull()
+			.references(() => currencies.id, {
+				onDelete: "restrict",
+				onUpdate: "cascade",
+			}),
+		toCurrencyId: integer("to_currency_id")
+			.notNull()
+			.references(() => currencies.id, {
+				onDelete: "restrict",
+				onUpdate: "cascade",
+			}),
+		date: date("date").notNull(),
+		rate: numeric("rate", { precision: 18, scale: 8 }).notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.fromCurrencyId, table.toCurrencyId, table.date),
+	}),
+);
@@ -1,8 +1,24 @@
+export * from "./accounts.js";
+export * from "./budgets.js";
 export * from "./categories.js";
 export * from "./currencies.js";
+export * from "./email-change-tokens.js";
+export * from "./exchange-rates.js";
+export * from "./ledger-invitations.js";
+export * from "./ledger-members.js";
+export * from "./ledgers.js";
+export * from "./password-reset-tokens.js";
+export * from "./recurring-transactions.js";
+export * from "./refresh-tokens.js";
+export * from "./tags.js";
 export * from "./token-blacklists.js";
+export * from "./transaction-attachments.js";
 export * from "./transaction-categories.js";
+export * from "./transaction-imports.js";
+export * from "./transaction-revisions.js";
+export * from "./transaction-tags.js";
 export * from "./transaction-types.js";
 export * from "./transactions.js";
 export * from "./user-categories.js";
+export * from "./user-sessions.js";
 export * from "./users.js";
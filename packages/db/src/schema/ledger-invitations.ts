@@ -0,0 +1,29 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { ledgers } from "./ledgers";
+import { users } from "./users";
+
+// 帳簿への招待
+// NOTE: 招待トークンは招待先のメールアドレスに送り、同じメールアドレスのユーザーだけが承諾できる
+// NOTE: トークン本体は保存せず、SHA-256 ハッシュのみを保持する
+export const ledgerInvitations = pgTable("ledger_invitations", {
+	id: serial("id").primaryKey(),
+	ledgerId: integer("ledger_id")
+		.notNull()
+		.references(() => ledgers.id, { onDelete: "cascade", onUpdate: "cascade" }),
+	email: varchar("email", { length: 255 }).notNull(),
+	role: varchar("role", { length: 10 }).notNull(),
+	invitedBy: integer("invited_by")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+	tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+	expiresAt: timestamp("expires_at").notNull(),
+	acceptedAt: timestamp("accepted_at"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -0,0 +1,35 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { ledgers } from "./ledgers";
+import { users } from "./users";
+
+// 帳簿のメンバー
+// NOTE: role は OWNER（オーナー）/ EDITOR（編集者）/ VIEWER（閲覧者）のいずれか
+export const ledgerMembers = pgTable(
+	"ledger_members",
+	{
+		id: serial("id").primaryKey(),
+		ledgerId: integer("ledger_id")
+			.notNull()
+			.references(() => ledgers.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		role: varchar("role", { length: 10 }).notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.ledgerId, table.userId),
+	}),
+);
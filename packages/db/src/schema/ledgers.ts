@@ -0,0 +1,10 @@
+import { pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// 取引をまとめる帳簿
+// NOTE: ユーザー登録時に個人用の帳簿を作成し、メンバーを招待すると家族などと共有できる
+export const ledgers = pgTable("ledgers", {
+	id: serial("id").primaryKey(),
+	name: varchar("name", { length: 50 }).notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
@@ -0,0 +1,23 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { users } from "./users";
+
+// パスワード再設定トークン
+// NOTE: トークン本体は保存せず、SHA-256 ハッシュのみを保持する
+// NOTE: 一度使用したトークンは used_at を記録し、再利用できないようにする
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+	id: serial("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+	expiresAt: timestamp("expires_at").notNull(),
+	usedAt: timestamp("used_at"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -0,0 +1,73 @@
+import {
+	date,
+	integer,
+	pgTable,
+	serial,
+	text,
+	timestamp,
+	unique,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { categories } from "./categories";
+import { currencies } from "./currencies";
+import { transactionTypes } from "./transaction-types";
+import { transactions } from "./transactions";
+import { users } from "./users";
+
+// 繰り返し取引のルール（取引のテンプレート + 繰り返し条件）
+export const recurringTransactions = pgTable("recurring_transactions", {
+	id: serial("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+	typeId: integer("type_id")
+		.notNull()
+		.references(() => transactionTypes.id, {
+			onDelete: "restrict",
+			onUpdate: "cascade",
+		}),
+	title: varchar("title", { length: 100 }).notNull(),
+	amount: integer("amount").notNull(),
+	currencyId: integer("currency_id")
+		.notNull()
+		.references(() => currencies.id, {
+			onDelete: "restrict",
+			onUpdate: "cascade",
+		}),
+	categoryId: integer("category_id")
+		.notNull()
+		.references(() => categories.id, {
+			onDelete: "restrict",
+			onUpdate: "cascade",
+		}),
+	memo: text("memo"),
+	frequency: varchar("frequency", { length: 10 }).notNull(),
+	interval: integer("interval").notNull().default(1),
+	startDate: date("start_date").notNull(),
+	endDate: date("end_date"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ルールから生成済みの発生日（ルール + 日付で一意にし、二重生成を防ぐ）
+export const recurringTransactionOccurrences = pgTable(
+	"recurring_transaction_occurrences",
+	{
+		id: serial("id").primaryKey(),
+		recurringTransactionId: integer("recurring_transaction_id")
+			.notNull()
+			.references(() => recurringTransactions.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		occurrenceDate: date("occurrence_date").notNull(),
+		transactionId: integer("transaction_id").references(
+			() => transactions.id,
+			{ onDelete: "set null", onUpdate: "cascade" },
+		),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.recurringTransactionId, table.occurrenceDate),
+	}),
+);
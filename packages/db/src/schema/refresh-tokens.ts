@@ -0,0 +1,24 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { users } from "./users";
+
+// リフレッシュトークン
+// NOTE: トークン本体は保存せず、SHA-256 ハッシュのみを保持する
+// NOTE: ローテーションで発行されたトークンは同じ family_id を引き継ぎ、再利用検知時はファミリーごと失効させる
+export const refreshTokens = pgTable("refresh_tokens", {
+	id: serial("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	familyId: varchar("family_id", { length: 36 }).notNull(),
+	tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+	expiresAt: timestamp("expires_at").notNull(),
+	revokedAt: timestamp("revoked_at"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
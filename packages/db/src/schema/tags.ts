@@ -0,0 +1,26 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+// タグ（カテゴリとは独立した、取引に付ける自由なラベル。例: 旅行名、立替精算の対象など）
+export const tags = pgTable(
+	"tags",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		name: varchar("name", { length: 30 }).notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.userId, table.name),
+	}),
+);
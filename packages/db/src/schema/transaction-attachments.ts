@@ -0,0 +1,29 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { transactions } from "./transactions";
+import { users } from "./users";
+
+// 取引の添付ファイル（レシート画像など）
+// NOTE: ファイル本体はオブジェクトストレージに保存し、ここではメタデータと保存先のキーのみを保持する
+export const transactionAttachments = pgTable("transaction_attachments", {
+	id: serial("id").primaryKey(),
+	transactionId: integer("transaction_id")
+		.notNull()
+		.references(() => transactions.id, {
+			onDelete: "cascade",
+			onUpdate: "cascade",
+		}),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+	fileName: varchar("file_name", { length: 255 }).notNull(),
+	contentType: varchar("content_type", { length: 100 }).notNull(),
+	size: integer("size").notNull(),
+	storageKey: varchar("storage_key", { length: 255 }).notNull().unique(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -18,6 +18,8 @@ export const transactionCategories = pgTable(
         onDelete: "restrict",
         onUpdate: "cascade",
       }),
+    // カテゴリに割り当てた金額（取引の通貨。取引ごとの合計は取引の金額と一致する）
+    amount: integer("amount").notNull(),
   },
   (table) => ({
     unq: unique().on(table.transactionId, table.categoryId),
@@ -0,0 +1,40 @@
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { ledgers } from "./ledgers";
+import { transactions } from "./transactions";
+import { users } from "./users";
+
+// NOTE: CSVインポート済みの行を記録する（同じ帳簿への同じ行の再インポートを行ハッシュでスキップする）
+export const transactionImports = pgTable(
+	"transaction_imports",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		// NOTE: 別の帳簿には同じ行をインポートできるよう、帳簿ごとに重複を判定する（帳簿のメンバー間でも重複させない）
+		ledgerId: integer("ledger_id")
+			.notNull()
+			.references(() => ledgers.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		rowHash: varchar("row_hash", { length: 64 }).notNull(),
+		transactionId: integer("transaction_id")
+			.notNull()
+			.references(() => transactions.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.ledgerId, table.rowHash),
+	}),
+);
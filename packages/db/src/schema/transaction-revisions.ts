@@ -0,0 +1,55 @@
+import {
+	index,
+	integer,
+	jsonb,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { transactions } from "./transactions";
+import { users } from "./users";
+
+// 変更時点の取引の内容（カテゴリは transaction_categories の登録順）
+export type TransactionRevisionSnapshot = {
+	type: string;
+	title: string;
+	amount: number;
+	currency: string;
+	date: string;
+	categoryIds: number[];
+	// NOTE: カテゴリごとの金額の内訳を記録する前の履歴には含まれない
+	splits?: { categoryId: number; amount: number }[];
+	accountId: number | null;
+	transferAccountId: number | null;
+	memo: string | null;
+};
+
+// 取引の変更履歴（更新/削除/復元のたびに、取引の更新と同じDBトランザクションで記録する）
+// NOTE: 差分は変更前後のスナップショットから参照時に算出する（削除の場合 after は null、復元の場合は before と同じ内容）
+export const transactionRevisions = pgTable(
+	"transaction_revisions",
+	{
+		id: serial("id").primaryKey(),
+		transactionId: integer("transaction_id")
+			.notNull()
+			.references(() => transactions.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		action: varchar("action", { length: 10 }).notNull(),
+		// NOTE: 変更したユーザーの退会後も履歴は残すため、紐づけのみ解除する
+		changedBy: integer("changed_by").references(() => users.id, {
+			onDelete: "set null",
+			onUpdate: "cascade",
+		}),
+		before: jsonb("before").$type<TransactionRevisionSnapshot>().notNull(),
+		after: jsonb("after").$type<TransactionRevisionSnapshot>(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		transactionIdIdx: index("transaction_revisions_transaction_id_idx").on(
+			table.transactionId,
+		),
+	}),
+);
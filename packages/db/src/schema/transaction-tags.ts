@@ -0,0 +1,33 @@
+import {
+	index,
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	unique,
+} from "drizzle-orm/pg-core";
+import { tags } from "./tags";
+import { transactions } from "./transactions";
+
+// 取引とタグの紐づけ（タグを削除した場合は紐づけのみ削除され、取引は残る）
+export const transactionTags = pgTable(
+	"transaction_tags",
+	{
+		id: serial("id").primaryKey(),
+		transactionId: integer("transaction_id")
+			.notNull()
+			.references(() => transactions.id, {
+				onDelete: "cascade",
+				onUpdate: "cascade",
+			}),
+		tagId: integer("tag_id")
+			.notNull()
+			.references(() => tags.id, { onDelete: "cascade", onUpdate: "cascade" }),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => ({
+		unq: unique().on(table.transactionId, table.tagId),
+		// NOTE: タグでの絞り込み/集計用
+		tagIdIdx: index("transaction_tags_tag_id_idx").on(table.tagId),
+	}),
+);
@@ -1,4 +1,5 @@
 import {
+  index,
   pgTable,
   serial,
   integer,
@@ -8,31 +9,68 @@ import {
   timestamp,
 } from "drizzle-orm/pg-core";
 import { users } from "./users";
+import { accounts } from "./accounts";
 import { currencies } from "./currencies";
+import { ledgers } from "./ledgers";
 import { transactionTypes } from "./transaction-types";
 
-export const transactions = pgTable("transactions", {
-  id: serial("id").primaryKey(),
-  userId: integer("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
-  typeId: integer("type_id")
-    .notNull()
-    .references(() => transactionTypes.id, {
-      onDelete: "restrict",
+export const transactions = pgTable(
+  "transactions",
+  {
+    id: serial("id").primaryKey(),
+    ledgerId: integer("ledger_id")
+      .notNull()
+      .references(() => ledgers.id, {
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      }),
+    // NOTE: 取引を登録したユーザー（共有帳簿では記録者を表す）
+    // 共有帳簿の取引がメンバーの削除で失われないよう cascade しない（削除時は帳簿のオーナーに引き継ぐ）
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, {
+        onDelete: "restrict",
+        onUpdate: "cascade",
+      }),
+    typeId: integer("type_id")
+      .notNull()
+      .references(() => transactionTypes.id, {
+        onDelete: "restrict",
+        onUpdate: "cascade",
+      }),
+    title: varchar("title", { length: 100 }).notNull(),
+    amount: integer("amount").notNull(),
+    currencyId: integer("currency_id")
+      .notNull()
+      .references(() => currencies.id, {
+        onDelete: "restrict",
+        onUpdate: "cascade",
+      }),
+    // NOTE: 口座の削除後も取引は残すため、口座との紐づけのみ解除する
+    accountId: integer("account_id").references(() => accounts.id, {
+      onDelete: "set null",
       onUpdate: "cascade",
     }),
-  title: varchar("title", { length: 100 }).notNull(),
-  amount: integer("amount").notNull(),
-  currencyId: integer("currency_id")
-    .notNull()
-    .references(() => currencies.id, {
-      onDelete: "restrict",
-      onUpdate: "cascade",
-    }),
-  date: date("date").notNull(),
-  memo: text("memo"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  deletedAt: timestamp("deleted_at"),
-});
+    // NOTE: 振替（TRANSFER）の入金先口座。振替元口座は accountId で表す
+    transferAccountId: integer("transfer_account_id").references(
+      () => accounts.id,
+      { onDelete: "set null", onUpdate: "cascade" },
+    ),
+    date: date("date").notNull(),
+    memo: text("memo"),
+    // NOTE: タイトルとメモを検索用に正規化した文字列（全角/半角・カタカナ/ひらがな等の違いを吸収する）
+    // 部分一致検索のため、pg_trgm の GIN インデックスをマイグレーションで作成している
+    searchText: text("search_text").default("").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => ({
+    // NOTE: 帳簿ごとの取引一覧（取引日→IDの並び順とカーソルによる続きの取得）で使う
+    ledgerIdDateIdIdx: index("transactions_ledger_id_date_id_idx").on(
+      table.ledgerId,
+      table.date,
+      table.id,
+    ),
+  }),
+);
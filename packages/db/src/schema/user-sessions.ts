@@ -0,0 +1,23 @@
+import {
+	integer,
+	pgTable,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+
+import { users } from "./users";
+
+// ログインセッション（端末ごとのログイン状態）
+// NOTE: id はアクセストークンの sid クレームとリフレッシュトークンの family_id に使う
+export const userSessions = pgTable("user_sessions", {
+	id: varchar("id", { length: 36 }).primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	device: varchar("device", { length: 100 }).notNull(),
+	userAgent: varchar("user_agent", { length: 512 }),
+	ipAddress: varchar("ip_address", { length: 45 }),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+	revokedAt: timestamp("revoked_at"),
+});
@@ -1,10 +1,22 @@
-import { pgTable, serial, varchar, timestamp } from "drizzle-orm/pg-core";
+import {
+	integer,
+	pgTable,
+	serial,
+	timestamp,
+	varchar,
+} from "drizzle-orm/pg-core";
+import { currencies } from "./currencies";
 
 export const users = pgTable("users", {
 	id: serial("id").primaryKey(),
 	email: varchar("email", { length: 255 }).notNull().unique(),
 	passwordHash: varchar("password_hash", { length: 255 }).notNull(),
 	name: varchar("name", { length: 100 }).notNull(),
+	// NOTE: 集計/一覧で換算表示する基準通貨（未設定の場合はJPY）
+	baseCurrencyId: integer("base_currency_id").references(() => currencies.id, {
+		onDelete: "set null",
+		onUpdate: "cascade",
+	}),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 	deletedAt: timestamp("deleted_at"),
@@ -32,18 +32,21 @@ const seedCurrencies = async () => {
 				code: "JPY",
 				name: "日本円",
 				symbol: "¥",
+				exponent: 0,
 				isActive: true,
 			},
 			{
 				code: "USD",
 				name: "米ドル",
 				symbol: "$",
+				exponent: 2,
 				isActive: false,
 			},
 			{
 				code: "EUR",
 				name: "ユーロ",
 				symbol: "€",
+				exponent: 2,
 				isActive: false,
 			},
 		])
@@ -66,19 +69,29 @@ const seedTransactionTypes = async () => {
 				code: "EXPENSE",
 				name: "支出",
 			},
+			{
+				code: "TRANSFER",
+				name: "振替",
+			},
 		])
 		.onConflictDoNothing();
 
 	const types = await db
 		.select()
 		.from(transactionTypes)
-		.where(inArray(transactionTypes.code, ["INCOME", "EXPENSE"]));
+		.where(
+			inArray(transactionTypes.code, ["INCOME", "EXPENSE", "TRANSFER"]),
+		);
 
 	console.log("✅ Transaction types seeded successfully");
 	return types;
 };
 
-const seedCategories = async (incomeTypeId: number, expenseTypeId: number) => {
+const seedCategories = async (
+	incomeTypeId: number,
+	expenseTypeId: number,
+	transferTypeId: number,
+) => {
 	console.log("🌱 Seeding categories...");
 
 	await db
@@ -126,6 +139,12 @@ const seedCategories = async (incomeTypeId: number, expenseTypeId: number) => {
 				typeId: incomeTypeId,
 				isDefault: true,
 			},
+			// 振替カテゴリ
+			{
+				name: "振替",
+				typeId: transferTypeId,
+				isDefault: true,
+			},
 		])
 		.onConflictDoNothing();
 
@@ -142,12 +161,13 @@ const main = async () => {
 
 		const incomeType = types.find((t) => t.code === "INCOME");
 		const expenseType = types.find((t) => t.code === "EXPENSE");
+		const transferType = types.find((t) => t.code === "TRANSFER");
 
-		if (!incomeType || !expenseType) {
+		if (!incomeType || !expenseType || !transferType) {
 			throw new Error("Failed to seed transaction types");
 		}
 
-		await seedCategories(incomeType.id, expenseType.id);
+		await seedCategories(incomeType.id, expenseType.id, transferType.id);
 
 		console.log("🎉 All seeds completed successfully!");
 		process.exit(0);
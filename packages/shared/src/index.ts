@@ -1,8 +1,35 @@
+export * from './schema/accounts/commonSchema';
+export * from './schema/accounts/input';
+export * from './schema/accounts/output';
+
+export * from './schema/budgets/commonSchema';
+export * from './schema/budgets/input';
+export * from './schema/budgets/output';
+
 export * from './schema/categories/commonSchema';
 export * from './schema/categories/input';
 export * from './schema/categories/output';
 export * from './schema/common/pagination';
 
+export * from './schema/currencies/commonSchema';
+export * from './schema/currencies/input';
+export * from './schema/currencies/output';
+
+export * from './schema/exchange-rates/input';
+export * from './schema/exchange-rates/output';
+
+export * from './schema/ledgers/commonSchema';
+export * from './schema/ledgers/input';
+export * from './schema/ledgers/output';
+
+export * from './schema/recurring-transactions/commonSchema';
+export * from './schema/recurring-transactions/input';
+export * from './schema/recurring-transactions/output';
+
+export * from './schema/tags/commonSchema';
+export * from './schema/tags/input';
+export * from './schema/tags/output';
+
 export * from './schema/transactions/commonSchema';
 export * from './schema/transactions/input';
 export * from './schema/transactions/output';
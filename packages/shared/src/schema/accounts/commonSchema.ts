@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+import { currencyCodeSchema } from '../currencies/commonSchema';
+import { ACCOUNT_NAME_MAX_LENGTH, ACCOUNT_TYPE_VALUES } from './constants';
+
+// =====================================
+// Account Type Schema
+// =====================================
+
+export const accountTypeSchema = z.enum(ACCOUNT_TYPE_VALUES);
+
+export type AccountType = z.infer<typeof accountTypeSchema>;
+
+// =====================================
+// Account Base Schema
+// =====================================
+
+export const accountSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().min(1).max(ACCOUNT_NAME_MAX_LENGTH),
+  type: accountTypeSchema,
+  currencyCode: currencyCodeSchema,
+  // NOTE: クレジットカードの未払残高などは負の値になる
+  openingBalance: z.number().int(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type Account = z.infer<typeof accountSchema>;
+
+// =====================================
+// Account Balance Schema
+// =====================================
+
+export const accountBalanceSchema = accountSchema
+  .pick({
+    name: true,
+    type: true,
+    currencyCode: true,
+    openingBalance: true,
+  })
+  .extend({
+    accountId: z.number().int().positive(),
+    totalIncome: z.number().int().min(0),
+    totalExpense: z.number().int().min(0),
+    totalTransferIn: z.number().int().min(0),
+    totalTransferOut: z.number().int().min(0),
+    // NOTE: 開始残高 + 収入 - 支出 + 振替入金 - 振替出金（負の値になりうる）
+    balance: z.number().int(),
+  });
+
+export type AccountBalance = z.infer<typeof accountBalanceSchema>;
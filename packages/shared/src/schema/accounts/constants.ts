@@ -0,0 +1,12 @@
+// =====================================
+// Accounts Schema Constants
+// =====================================
+
+export const ACCOUNT_NAME_MAX_LENGTH = 50 as const;
+
+// NOTE: CASH=現金, BANK=銀行口座, CREDIT_CARD=クレジットカード
+export const ACCOUNT_TYPE_VALUES = ['CASH', 'BANK', 'CREDIT_CARD'] as const;
+
+export const ACCOUNT_DEFAULT_OPENING_BALANCE = 0 as const;
+
+export const ACCOUNT_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
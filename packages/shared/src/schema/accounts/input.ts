@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+import { currencyCodeSchema } from '../currencies/commonSchema';
+import { DEFAULT_CURRENCY_CODE } from '../currencies/constants';
+import { accountTypeSchema } from './commonSchema';
+import {
+  ACCOUNT_DATE_REGEX,
+  ACCOUNT_DEFAULT_OPENING_BALANCE,
+  ACCOUNT_NAME_MAX_LENGTH,
+} from './constants';
+
+// =====================================
+// Accounts Router Input Schemas
+// =====================================
+
+const accountNameSchema = z
+  .string()
+  .trim()
+  .min(1, '口座名は必須です')
+  .max(
+    ACCOUNT_NAME_MAX_LENGTH,
+    `口座名は${ACCOUNT_NAME_MAX_LENGTH}文字以内である必要があります`,
+  );
+
+// accounts.create
+export const accountsCreateInputSchema = z.object({
+  name: accountNameSchema,
+  type: accountTypeSchema,
+  // NOTE: 利用可能（有効化済み）な通貨かどうかはバックエンド側で検証する
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY_CODE),
+  openingBalance: z.number().int().default(ACCOUNT_DEFAULT_OPENING_BALANCE),
+});
+
+export type AccountsCreateInput = z.infer<typeof accountsCreateInputSchema>;
+
+// accounts.update
+// NOTE: 紐づく取引の金額と整合しなくなるため、通貨は変更できない
+export const accountsUpdateInputSchema = z.object({
+  id: z.number().int().positive(),
+  name: accountNameSchema.optional(),
+  type: accountTypeSchema.optional(),
+  openingBalance: z.number().int().optional(),
+});
+
+export type AccountsUpdateInput = z.infer<typeof accountsUpdateInputSchema>;
+
+// accounts.delete
+export const accountsDeleteInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type AccountsDeleteInput = z.infer<typeof accountsDeleteInputSchema>;
+
+// accounts.balances
+// NOTE: asOf を省略した場合は当日時点の残高を返す
+export const accountsBalancesInputSchema = z
+  .object({
+    asOf: z
+      .string()
+      .regex(ACCOUNT_DATE_REGEX, 'asOf はYYYY-MM-DD形式である必要があります')
+      .optional(),
+  })
+  .optional()
+  .default({});
+
+export type AccountsBalancesInput = z.infer<typeof accountsBalancesInputSchema>;
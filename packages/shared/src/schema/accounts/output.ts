@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+import { accountBalanceSchema, accountSchema } from './commonSchema';
+import { ACCOUNT_DATE_REGEX } from './constants';
+
+// =====================================
+// Accounts Router Output Schemas
+// =====================================
+
+// accounts.create Output
+export const accountsCreateOutputSchema = z.object({
+  account: accountSchema,
+});
+
+export type AccountsCreateOutput = z.infer<typeof accountsCreateOutputSchema>;
+
+// accounts.list Output
+export const accountsListOutputSchema = z.object({
+  accounts: z.array(accountSchema),
+});
+
+export type AccountsListOutput = z.infer<typeof accountsListOutputSchema>;
+
+// accounts.update Output
+export const accountsUpdateOutputSchema = z.object({
+  account: accountSchema,
+});
+
+export type AccountsUpdateOutput = z.infer<typeof accountsUpdateOutputSchema>;
+
+// accounts.delete Output
+export const accountsDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type AccountsDeleteOutput = z.infer<typeof accountsDeleteOutputSchema>;
+
+// accounts.balances Output
+export const accountsBalancesOutputSchema = z.object({
+  asOf: z.string().regex(ACCOUNT_DATE_REGEX),
+  accounts: z.array(accountBalanceSchema),
+});
+
+export type AccountsBalancesOutput = z.infer<
+  typeof accountsBalancesOutputSchema
+>;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+import { BUDGET_CURRENCY_MAX_LENGTH } from './constants';
+
+// =====================================
+// Budget Base Schema
+// =====================================
+
+export const budgetSchema = z.object({
+  id: z.number().int().positive(),
+  categoryId: z.number().int().positive(),
+  categoryName: z.string().min(1),
+  amount: z.number().int().positive(),
+  currencyCode: z.string().min(1).max(BUDGET_CURRENCY_MAX_LENGTH),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type Budget = z.infer<typeof budgetSchema>;
+
+// =====================================
+// Budget Status Schema
+// =====================================
+
+export const budgetStatusSchema = budgetSchema
+  .pick({
+    id: true,
+    categoryId: true,
+    categoryName: true,
+    amount: true,
+  })
+  .extend({
+    spent: z.number().int().min(0),
+    // NOTE: 予算超過時は負の値になる
+    remaining: z.number().int(),
+    percentUsed: z.number().int().min(0),
+    isOverBudget: z.boolean(),
+  });
+
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>;
@@ -0,0 +1,7 @@
+// =====================================
+// Budgets Schema Constants
+// =====================================
+
+export const BUDGET_CURRENCY_MAX_LENGTH = 10 as const;
+
+export const BUDGET_MONTH_REGEX = /^\d{4}-\d{2}$/;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+import { BUDGET_MONTH_REGEX } from './constants';
+
+// =====================================
+// Budgets Router Input Schemas
+// =====================================
+
+// budgets.create
+export const budgetsCreateInputSchema = z.object({
+  categoryId: z.number().int().positive(),
+  amount: z.number().int().positive('予算額は0より大きい必要があります'),
+});
+
+export type BudgetsCreateInput = z.infer<typeof budgetsCreateInputSchema>;
+
+// budgets.update
+export const budgetsUpdateInputSchema = z.object({
+  id: z.number().int().positive(),
+  amount: z.number().int().positive('予算額は0より大きい必要があります'),
+});
+
+export type BudgetsUpdateInput = z.infer<typeof budgetsUpdateInputSchema>;
+
+// budgets.delete
+export const budgetsDeleteInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type BudgetsDeleteInput = z.infer<typeof budgetsDeleteInputSchema>;
+
+// budgets.status
+export const budgetsStatusInputSchema = z.object({
+  month: z
+    .string()
+    .regex(BUDGET_MONTH_REGEX, 'month はYYYY-MM形式である必要があります'),
+});
+
+export type BudgetsStatusInput = z.infer<typeof budgetsStatusInputSchema>;
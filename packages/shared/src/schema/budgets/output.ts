@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+import { budgetSchema, budgetStatusSchema } from './commonSchema';
+import { BUDGET_CURRENCY_MAX_LENGTH, BUDGET_MONTH_REGEX } from './constants';
+
+// =====================================
+// Budgets Router Output Schemas
+// =====================================
+
+// budgets.create Output
+export const budgetsCreateOutputSchema = z.object({
+  budget: budgetSchema,
+});
+
+export type BudgetsCreateOutput = z.infer<typeof budgetsCreateOutputSchema>;
+
+// budgets.list Output
+export const budgetsListOutputSchema = z.object({
+  budgets: z.array(budgetSchema),
+});
+
+export type BudgetsListOutput = z.infer<typeof budgetsListOutputSchema>;
+
+// budgets.update Output
+export const budgetsUpdateOutputSchema = z.object({
+  budget: budgetSchema,
+});
+
+export type BudgetsUpdateOutput = z.infer<typeof budgetsUpdateOutputSchema>;
+
+// budgets.delete Output
+export const budgetsDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type BudgetsDeleteOutput = z.infer<typeof budgetsDeleteOutputSchema>;
+
+// budgets.status Output
+export const budgetsStatusOutputSchema = z.object({
+  month: z.string().regex(BUDGET_MONTH_REGEX),
+  // NOTE: 支出実績はすべてこの通貨（予算の通貨）に換算した値
+  currencyCode: z.string().min(1).max(BUDGET_CURRENCY_MAX_LENGTH),
+  budgets: z.array(budgetStatusSchema),
+  // NOTE: 為替レートが登録されておらず換算できなかった（支出実績から除外した）取引の件数
+  unconvertedCount: z.number().int().min(0),
+});
+
+export type BudgetsStatusOutput = z.infer<typeof budgetsStatusOutputSchema>;
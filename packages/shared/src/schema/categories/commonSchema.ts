@@ -4,12 +4,21 @@ import { z } from 'zod';
 // TransactionType Union
 // =====================================
 
+// NOTE: TRANSFER（振替）は口座間の資金移動であり、収入/支出の集計には含めない
 export const transactionTypeSchema = z.union([
   z.literal('INCOME'),
   z.literal('EXPENSE'),
+  z.literal('TRANSFER'),
 ]);
 export type TransactionType = z.infer<typeof transactionTypeSchema>;
 
+// 振替を扱わない入力（定期取引/CSVインポート）向けの取引タイプ
+export const incomeExpenseTypeSchema = z.union([
+  z.literal('INCOME'),
+  z.literal('EXPENSE'),
+]);
+export type IncomeExpenseType = z.infer<typeof incomeExpenseTypeSchema>;
+
 // =====================================
 // Category Base Schema
 // =====================================
@@ -31,6 +40,19 @@ export const userCategorySchema = categorySchema.extend({
   isVisible: z.boolean(),
   customName: z.string().max(50).nullable(),
   displayOrder: z.number().int().nonnegative(),
+  // 親カテゴリID（最上位のカテゴリは null）
+  parentId: z.number().int().positive().nullable(),
 });
 
 export type UserCategory = z.infer<typeof userCategorySchema>;
+
+// =====================================
+// UserCategory Tree Schema
+// =====================================
+
+// NOTE: カテゴリの階層は2段までのため、子カテゴリはさらに子を持たない
+export const userCategoryTreeItemSchema = userCategorySchema.extend({
+  children: z.array(userCategorySchema).optional(),
+});
+
+export type UserCategoryTreeItem = z.infer<typeof userCategoryTreeItemSchema>;
@@ -14,6 +14,8 @@ export const categoriesCreateInputSchema = z.object({
     .min(1, 'カテゴリ名は必須です')
     .max(50, 'カテゴリ名は50文字以内である必要があります'),
   typeId: z.number().int().positive(),
+  // 指定した場合はそのカテゴリのサブカテゴリとして作成する
+  parentId: z.number().int().positive().optional(),
 });
 
 export type CategoriesCreateInput = z.infer<typeof categoriesCreateInputSchema>;
@@ -42,6 +44,8 @@ export const categoriesListInputSchema = z
     type: transactionTypeSchema.optional(),
     // NOTE: OpenAPI の query param は文字列になるため、boolean に寄せる
     includeHidden: booleanFromQueryParamSchema.optional().default(false),
+    // true の場合は最上位のカテゴリをページングし、サブカテゴリを children に入れて返す
+    tree: booleanFromQueryParamSchema.optional().default(false),
     sortBy: z
       .enum(['name', 'createdAt', 'displayOrder'])
       .optional()
@@ -71,20 +75,52 @@ export const categoriesUpdateInputSchema = z.object({
     .max(50, 'カスタム名は50文字以内である必要があります')
     .optional(),
   displayOrder: z.number().int().nonnegative().optional(),
+  // null を指定すると最上位のカテゴリに戻す
+  parentId: z.number().int().positive().nullable().optional(),
 });
 
 export type CategoriesUpdateInput = z.infer<typeof categoriesUpdateInputSchema>;
 
-// categories.reorder
-export const categoryOrderSchema = z.object({
+// categories.delete
+export const categoriesDeleteInputSchema = z.object({
   categoryId: z.number().int().positive(),
-  order: z.number().int().nonnegative(),
+  // 取引で使われているカテゴリを削除する場合の付け替え先
+  reassignToCategoryId: z.number().int().positive().optional(),
+});
+
+export type CategoriesDeleteInput = z.infer<typeof categoriesDeleteInputSchema>;
+
+// categories.merge
+export const categoriesMergeInputSchema = z.object({
+  sourceCategoryId: z.number().int().positive(),
+  targetCategoryId: z.number().int().positive(),
 });
 
+export type CategoriesMergeInput = z.infer<typeof categoriesMergeInputSchema>;
+
+const uniqueCategoryIdsSchema = z
+  .array(z.number().int().positive())
+  .min(1, 'カテゴリIDは1件以上指定する必要があります')
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'カテゴリIDが重複しています',
+  });
+
+// categories.reorder
 export const categoriesReorderInputSchema = z.object({
-  categoryOrders: z.array(categoryOrderSchema).min(1),
+  // 並べたい順のカテゴリID（先頭から displayOrder を 0, 1, 2... に振り直す）
+  categoryIds: uniqueCategoryIdsSchema,
 });
 
 export type CategoriesReorderInput = z.infer<
   typeof categoriesReorderInputSchema
 >;
+
+// categories.bulkUpdateVisibility
+export const categoriesBulkUpdateVisibilityInputSchema = z.object({
+  categoryIds: uniqueCategoryIdsSchema,
+  isVisible: z.boolean(),
+});
+
+export type CategoriesBulkUpdateVisibilityInput = z.infer<
+  typeof categoriesBulkUpdateVisibilityInputSchema
+>;
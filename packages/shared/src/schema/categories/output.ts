@@ -1,6 +1,10 @@
 import { z } from 'zod';
 import { pageInfoSchema } from '../common/pagination';
-import { categorySchema, userCategorySchema } from './commonSchema';
+import {
+  categorySchema,
+  userCategorySchema,
+  userCategoryTreeItemSchema,
+} from './commonSchema';
 
 // =====================================
 // Categories Router Output Schemas
@@ -17,7 +21,7 @@ export type CategoriesCreateOutput = z.infer<
 
 // categories.list Output
 export const categoriesListOutputSchema = z.object({
-  items: z.array(userCategorySchema),
+  items: z.array(userCategoryTreeItemSchema),
   pageInfo: pageInfoSchema,
   total: z.number().int().min(0),
 });
@@ -42,6 +46,22 @@ export type CategoriesUpdateOutput = z.infer<
   typeof categoriesUpdateOutputSchema
 >;
 
+// categories.delete Output
+export const categoriesDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type CategoriesDeleteOutput = z.infer<
+  typeof categoriesDeleteOutputSchema
+>;
+
+// categories.merge Output
+export const categoriesMergeOutputSchema = z.object({
+  merged: z.boolean(),
+});
+
+export type CategoriesMergeOutput = z.infer<typeof categoriesMergeOutputSchema>;
+
 // categories.reorder Output
 export const categoriesReorderOutputSchema = z.object({
   success: z.boolean(),
@@ -50,3 +70,12 @@ export const categoriesReorderOutputSchema = z.object({
 export type CategoriesReorderOutput = z.infer<
   typeof categoriesReorderOutputSchema
 >;
+
+// categories.bulkUpdateVisibility Output
+export const categoriesBulkUpdateVisibilityOutputSchema = z.object({
+  success: z.boolean(),
+});
+
+export type CategoriesBulkUpdateVisibilityOutput = z.infer<
+  typeof categoriesBulkUpdateVisibilityOutputSchema
+>;
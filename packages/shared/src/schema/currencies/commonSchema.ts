@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+import {
+  CURRENCY_CODE_REGEX,
+  CURRENCY_NAME_MAX_LENGTH,
+  CURRENCY_SYMBOL_MAX_LENGTH,
+} from './constants';
+
+// =====================================
+// Currency Base Schema
+// =====================================
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(
+    CURRENCY_CODE_REGEX,
+    '通貨コードはISO 4217形式（英大文字3文字）である必要があります',
+  );
+
+export type CurrencyCode = z.infer<typeof currencyCodeSchema>;
+
+export const currencySchema = z.object({
+  code: currencyCodeSchema,
+  name: z.string().min(1).max(CURRENCY_NAME_MAX_LENGTH),
+  symbol: z.string().min(1).max(CURRENCY_SYMBOL_MAX_LENGTH),
+  // 補助単位の桁数（JPY は 0、USD は 2）。金額はこの桁数の最小単位の整数で扱う
+  exponent: z.number().int().nonnegative(),
+  isActive: z.boolean(),
+  updatedAt: z.string().min(1),
+});
+
+export type Currency = z.infer<typeof currencySchema>;
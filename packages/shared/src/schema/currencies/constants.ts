@@ -0,0 +1,11 @@
+// =====================================
+// Currencies Schema Constants
+// =====================================
+
+// NOTE: ISO 4217 の英字3文字コード（例: JPY, USD, EUR）
+export const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+
+export const DEFAULT_CURRENCY_CODE = 'JPY' as const;
+
+export const CURRENCY_NAME_MAX_LENGTH = 50 as const;
+export const CURRENCY_SYMBOL_MAX_LENGTH = 10 as const;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+import { currencyCodeSchema } from './commonSchema';
+
+// =====================================
+// Currencies Router Input Schemas
+// =====================================
+
+// currencies.list
+// NOTE: 取引入力での選択肢には有効な通貨のみ、管理画面では無効な通貨も含めて取得する
+export const currenciesListInputSchema = z
+  .object({
+    includeInactive: z.boolean().optional().default(false),
+  })
+  .optional()
+  .default({ includeInactive: false });
+
+export type CurrenciesListInput = z.infer<typeof currenciesListInputSchema>;
+
+// currencies.activate
+export const currenciesActivateInputSchema = z.object({
+  code: currencyCodeSchema,
+});
+
+export type CurrenciesActivateInput = z.infer<
+  typeof currenciesActivateInputSchema
+>;
+
+// currencies.deactivate
+export const currenciesDeactivateInputSchema = z.object({
+  code: currencyCodeSchema,
+});
+
+export type CurrenciesDeactivateInput = z.infer<
+  typeof currenciesDeactivateInputSchema
+>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+import { currencySchema } from './commonSchema';
+
+// =====================================
+// Currencies Router Output Schemas
+// =====================================
+
+// currencies.list Output
+export const currenciesListOutputSchema = z.object({
+  currencies: z.array(currencySchema),
+});
+
+export type CurrenciesListOutput = z.infer<typeof currenciesListOutputSchema>;
+
+// currencies.activate Output
+export const currenciesActivateOutputSchema = z.object({
+  currency: currencySchema,
+});
+
+export type CurrenciesActivateOutput = z.infer<
+  typeof currenciesActivateOutputSchema
+>;
+
+// currencies.deactivate Output
+export const currenciesDeactivateOutputSchema = z.object({
+  currency: currencySchema,
+});
+
+export type CurrenciesDeactivateOutput = z.infer<
+  typeof currenciesDeactivateOutputSchema
+>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// =====================================
+// Exchange Rates Router Input Schemas
+// =====================================
+
+// exchangeRates.import
+// NOTE: ローカルのCSVファイル（from,to,date,rate のヘッダー付き）をBase64で受け取る
+export const exchangeRatesImportInputSchema = z.object({
+  content: z.base64('content はBase64形式である必要があります').min(1),
+});
+
+export type ExchangeRatesImportInput = z.infer<
+  typeof exchangeRatesImportInputSchema
+>;
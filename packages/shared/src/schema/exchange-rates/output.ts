@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// =====================================
+// Exchange Rates Router Output Schemas
+// =====================================
+
+// exchangeRates.import Output
+export const exchangeRatesImportOutputSchema = z.object({
+  imported: z.number().int().min(0),
+});
+
+export type ExchangeRatesImportOutput = z.infer<
+  typeof exchangeRatesImportOutputSchema
+>;
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import { USER_EMAIL_MAX_LENGTH } from '../users/constants';
+import {
+  LEDGER_INVITABLE_ROLE_VALUES,
+  LEDGER_NAME_MAX_LENGTH,
+  LEDGER_ROLE_VALUES,
+} from './constants';
+
+// =====================================
+// Ledger Role Schema
+// =====================================
+
+export const ledgerRoleSchema = z.enum(LEDGER_ROLE_VALUES);
+
+export type LedgerRole = z.infer<typeof ledgerRoleSchema>;
+
+export const ledgerInvitableRoleSchema = z.enum(LEDGER_INVITABLE_ROLE_VALUES);
+
+export type LedgerInvitableRole = z.infer<typeof ledgerInvitableRoleSchema>;
+
+// =====================================
+// Ledger Base Schema
+// =====================================
+
+export const ledgerMemberSchema = z.object({
+  userId: z.number().int().positive(),
+  name: z.string().min(1),
+  email: z.string().min(1).max(USER_EMAIL_MAX_LENGTH),
+  role: ledgerRoleSchema,
+  joinedAt: z.string().min(1),
+});
+
+export type LedgerMember = z.infer<typeof ledgerMemberSchema>;
+
+export const ledgerSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().min(1).max(LEDGER_NAME_MAX_LENGTH),
+  // NOTE: 取得したユーザー自身のロール
+  role: ledgerRoleSchema,
+  members: z.array(ledgerMemberSchema),
+  createdAt: z.string().min(1),
+});
+
+export type Ledger = z.infer<typeof ledgerSchema>;
+
+// =====================================
+// Ledger Invitation Schema
+// =====================================
+
+export const ledgerInvitationSchema = z.object({
+  id: z.number().int().positive(),
+  ledgerId: z.number().int().positive(),
+  email: z.string().min(1).max(USER_EMAIL_MAX_LENGTH),
+  role: ledgerInvitableRoleSchema,
+  expiresAt: z.string().min(1),
+});
+
+export type LedgerInvitation = z.infer<typeof ledgerInvitationSchema>;
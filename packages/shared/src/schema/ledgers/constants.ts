@@ -0,0 +1,11 @@
+// =====================================
+// Ledgers Schema Constants
+// =====================================
+
+export const LEDGER_NAME_MAX_LENGTH = 50 as const;
+
+// NOTE: OWNER=オーナー（メンバー管理も可能）, EDITOR=編集者, VIEWER=閲覧者
+export const LEDGER_ROLE_VALUES = ['OWNER', 'EDITOR', 'VIEWER'] as const;
+
+// NOTE: オーナーは帳簿ごとに1人のため、招待で付与できるのは編集者/閲覧者のみ
+export const LEDGER_INVITABLE_ROLE_VALUES = ['EDITOR', 'VIEWER'] as const;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+import { USER_EMAIL_MAX_LENGTH } from '../users/constants';
+import { ledgerInvitableRoleSchema } from './commonSchema';
+
+// =====================================
+// Ledgers Router Input Schemas
+// =====================================
+
+// ledgers.invite
+export const ledgersInviteInputSchema = z.object({
+  ledgerId: z.number().int().positive(),
+  email: z
+    .email('メールアドレスの形式が不正です')
+    .max(
+      USER_EMAIL_MAX_LENGTH,
+      `メールアドレスは${USER_EMAIL_MAX_LENGTH}文字以内である必要があります`,
+    ),
+  role: ledgerInvitableRoleSchema,
+});
+
+export type LedgersInviteInput = z.infer<typeof ledgersInviteInputSchema>;
+
+// ledgers.accept
+export const ledgersAcceptInputSchema = z.object({
+  token: z.string().min(1, '招待トークンは必須です'),
+});
+
+export type LedgersAcceptInput = z.infer<typeof ledgersAcceptInputSchema>;
+
+// ledgers.removeMember
+// NOTE: 自分自身の userId を指定した場合は帳簿から抜ける
+export const ledgersRemoveMemberInputSchema = z.object({
+  ledgerId: z.number().int().positive(),
+  userId: z.number().int().positive(),
+});
+
+export type LedgersRemoveMemberInput = z.infer<
+  typeof ledgersRemoveMemberInputSchema
+>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+import { ledgerInvitationSchema, ledgerSchema } from './commonSchema';
+
+// =====================================
+// Ledgers Router Output Schemas
+// =====================================
+
+// ledgers.list Output
+export const ledgersListOutputSchema = z.object({
+  ledgers: z.array(ledgerSchema),
+});
+
+export type LedgersListOutput = z.infer<typeof ledgersListOutputSchema>;
+
+// ledgers.invite Output
+export const ledgersInviteOutputSchema = z.object({
+  invitation: ledgerInvitationSchema,
+});
+
+export type LedgersInviteOutput = z.infer<typeof ledgersInviteOutputSchema>;
+
+// ledgers.accept Output
+export const ledgersAcceptOutputSchema = z.object({
+  ledger: ledgerSchema,
+});
+
+export type LedgersAcceptOutput = z.infer<typeof ledgersAcceptOutputSchema>;
+
+// ledgers.removeMember Output
+export const ledgersRemoveMemberOutputSchema = z.object({
+  removed: z.boolean(),
+});
+
+export type LedgersRemoveMemberOutput = z.infer<
+  typeof ledgersRemoveMemberOutputSchema
+>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+import { transactionTypeSchema } from '../categories/commonSchema';
+import {
+  TRANSACTION_DATE_REGEX,
+  TRANSACTION_MEMO_MAX_LENGTH,
+  TRANSACTION_TITLE_MAX_LENGTH,
+} from '../transactions/constants';
+import {
+  RECURRING_FREQUENCY_VALUES,
+  RECURRING_INTERVAL_MAX,
+  RECURRING_INTERVAL_MIN,
+} from './constants';
+
+// =====================================
+// Recurring Frequency
+// =====================================
+
+export const recurringFrequencySchema = z.enum(RECURRING_FREQUENCY_VALUES);
+
+export type RecurringFrequency = z.infer<typeof recurringFrequencySchema>;
+
+// =====================================
+// Recurring Transaction Schema
+// =====================================
+
+export const recurringTransactionSchema = z.object({
+  id: z.number().int().positive(),
+  frequency: recurringFrequencySchema,
+  interval: z
+    .number()
+    .int()
+    .min(RECURRING_INTERVAL_MIN)
+    .max(RECURRING_INTERVAL_MAX),
+  startDate: z.string().regex(TRANSACTION_DATE_REGEX),
+  endDate: z.string().regex(TRANSACTION_DATE_REGEX).nullable(),
+  template: z.object({
+    type: transactionTypeSchema,
+    title: z.string().min(1).max(TRANSACTION_TITLE_MAX_LENGTH),
+    amount: z.number().int().positive(),
+    categoryId: z.number().int().positive(),
+    memo: z.string().max(TRANSACTION_MEMO_MAX_LENGTH),
+  }),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type RecurringTransaction = z.infer<typeof recurringTransactionSchema>;
@@ -0,0 +1,14 @@
+// =====================================
+// Recurring Transactions Schema Constants
+// =====================================
+
+export const RECURRING_FREQUENCY_VALUES = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+] as const;
+
+export const RECURRING_INTERVAL_MIN = 1 as const;
+export const RECURRING_INTERVAL_DEFAULT = 1 as const;
+export const RECURRING_INTERVAL_MAX = 365 as const;
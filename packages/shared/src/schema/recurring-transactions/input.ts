@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+import { incomeExpenseTypeSchema } from '../categories/commonSchema';
+import { TRANSACTION_DATE_REGEX } from '../transactions/constants';
+import { transactionsCreateInputSchema } from '../transactions/input';
+import { recurringFrequencySchema } from './commonSchema';
+import {
+  RECURRING_INTERVAL_DEFAULT,
+  RECURRING_INTERVAL_MAX,
+  RECURRING_INTERVAL_MIN,
+} from './constants';
+
+// =====================================
+// Recurring Transactions Router Input Schemas
+// =====================================
+
+// recurringTransactions.create
+// NOTE: template は transactions.create の入力から日付を除いたもの（日付は発生日で決まる）
+export const recurringTransactionsCreateInputSchema = z
+  .object({
+    frequency: recurringFrequencySchema,
+    interval: z
+      .number()
+      .int()
+      .min(
+        RECURRING_INTERVAL_MIN,
+        `interval は${RECURRING_INTERVAL_MIN}以上の整数である必要があります`,
+      )
+      .max(
+        RECURRING_INTERVAL_MAX,
+        `interval は${RECURRING_INTERVAL_MAX}以下である必要があります`,
+      )
+      .default(RECURRING_INTERVAL_DEFAULT),
+    startDate: z
+      .string()
+      .regex(
+        TRANSACTION_DATE_REGEX,
+        'startDate はYYYY-MM-DD形式である必要があります',
+      ),
+    endDate: z
+      .string()
+      .regex(
+        TRANSACTION_DATE_REGEX,
+        'endDate はYYYY-MM-DD形式である必要があります',
+      )
+      .nullable()
+      .optional()
+      .default(null),
+    template: transactionsCreateInputSchema
+      .omit({ date: true, transferAccountId: true })
+      .extend({ type: incomeExpenseTypeSchema }),
+  })
+  .refine(
+    ({ startDate, endDate }) => endDate === null || startDate <= endDate,
+    {
+      message: 'startDate は endDate より後にできません',
+      path: ['startDate'],
+    },
+  );
+
+export type RecurringTransactionsCreateInput = z.infer<
+  typeof recurringTransactionsCreateInputSchema
+>;
+
+// recurringTransactions.delete
+export const recurringTransactionsDeleteInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type RecurringTransactionsDeleteInput = z.infer<
+  typeof recurringTransactionsDeleteInputSchema
+>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+import { TRANSACTION_DATE_REGEX } from '../transactions/constants';
+import { recurringTransactionSchema } from './commonSchema';
+
+// =====================================
+// Recurring Transactions Router Output Schemas
+// =====================================
+
+// recurringTransactions.create Output
+export const recurringTransactionsCreateOutputSchema = z.object({
+  recurringTransaction: recurringTransactionSchema,
+});
+
+export type RecurringTransactionsCreateOutput = z.infer<
+  typeof recurringTransactionsCreateOutputSchema
+>;
+
+// recurringTransactions.list Output
+export const recurringTransactionsListOutputSchema = z.object({
+  recurringTransactions: z.array(recurringTransactionSchema),
+});
+
+export type RecurringTransactionsListOutput = z.infer<
+  typeof recurringTransactionsListOutputSchema
+>;
+
+// recurringTransactions.delete Output
+export const recurringTransactionsDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type RecurringTransactionsDeleteOutput = z.infer<
+  typeof recurringTransactionsDeleteOutputSchema
+>;
+
+// recurringTransactions.generate Output
+export const recurringTransactionsGenerateOutputSchema = z.object({
+  generated: z.array(
+    z.object({
+      recurringTransactionId: z.number().int().positive(),
+      date: z.string().regex(TRANSACTION_DATE_REGEX),
+      transactionId: z.number().int().positive(),
+    }),
+  ),
+  failed: z.array(
+    z.object({
+      recurringTransactionId: z.number().int().positive(),
+      date: z.string().regex(TRANSACTION_DATE_REGEX),
+      message: z.string(),
+    }),
+  ),
+});
+
+export type RecurringTransactionsGenerateOutput = z.infer<
+  typeof recurringTransactionsGenerateOutputSchema
+>;
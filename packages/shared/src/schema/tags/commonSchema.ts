@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+import { TAG_NAME_MAX_LENGTH } from './constants';
+
+// =====================================
+// Tag Base Schema
+// =====================================
+
+// NOTE: カテゴリとは独立した、取引に付ける自由なラベル（ユーザーごとに管理する）
+export const tagSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().min(1).max(TAG_NAME_MAX_LENGTH),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// =====================================
+// Tag IDs Schema
+// =====================================
+
+// NOTE: 取引に付けるタグ（取引の登録/更新で共通）
+export const tagIdsSchema = z
+  .array(z.number().int().positive())
+  .refine(
+    (tagIds) => new Set(tagIds).size === tagIds.length,
+    'タグが重複しています',
+  );
@@ -0,0 +1,5 @@
+// =====================================
+// Tags Schema Constants
+// =====================================
+
+export const TAG_NAME_MAX_LENGTH = 30 as const;
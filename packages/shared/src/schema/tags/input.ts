@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+import { TAG_NAME_MAX_LENGTH } from './constants';
+
+// =====================================
+// Tags Router Input Schemas
+// =====================================
+
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'タグ名は必須です')
+  .max(
+    TAG_NAME_MAX_LENGTH,
+    `タグ名は${TAG_NAME_MAX_LENGTH}文字以内である必要があります`,
+  );
+
+// tags.create
+export const tagsCreateInputSchema = z.object({
+  name: tagNameSchema,
+});
+
+export type TagsCreateInput = z.infer<typeof tagsCreateInputSchema>;
+
+// tags.update
+export const tagsUpdateInputSchema = z.object({
+  id: z.number().int().positive(),
+  name: tagNameSchema,
+});
+
+export type TagsUpdateInput = z.infer<typeof tagsUpdateInputSchema>;
+
+// tags.delete
+// NOTE: 取引との紐づけのみ解除され、取引は残る
+export const tagsDeleteInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type TagsDeleteInput = z.infer<typeof tagsDeleteInputSchema>;
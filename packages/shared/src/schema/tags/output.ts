@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+import { tagSchema } from './commonSchema';
+
+// =====================================
+// Tags Router Output Schemas
+// =====================================
+
+// tags.create Output
+export const tagsCreateOutputSchema = z.object({
+  tag: tagSchema,
+});
+
+export type TagsCreateOutput = z.infer<typeof tagsCreateOutputSchema>;
+
+// tags.list Output
+export const tagsListOutputSchema = z.object({
+  tags: z.array(tagSchema),
+});
+
+export type TagsListOutput = z.infer<typeof tagsListOutputSchema>;
+
+// tags.update Output
+export const tagsUpdateOutputSchema = z.object({
+  tag: tagSchema,
+});
+
+export type TagsUpdateOutput = z.infer<typeof tagsUpdateOutputSchema>;
+
+// tags.delete Output
+export const tagsDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type TagsDeleteOutput = z.infer<typeof tagsDeleteOutputSchema>;
@@ -5,6 +5,9 @@ import {
   transactionTypeSchema,
 } from '../categories/commonSchema';
 import {
+  TRANSACTION_ATTACHMENT_CONTENT_TYPE_VALUES,
+  TRANSACTION_ATTACHMENT_FILE_NAME_MAX_LENGTH,
+  TRANSACTION_ATTACHMENT_MAX_SIZE_BYTES,
   TRANSACTION_CURRENCY_MAX_LENGTH,
   TRANSACTION_DATE_REGEX,
   TRANSACTION_MEMO_MAX_LENGTH,
@@ -17,6 +20,8 @@ import {
 
 export const transactionSchema = z.object({
   id: z.number().int().positive(),
+  ledgerId: z.number().int().positive(),
+  // NOTE: 取引を登録したユーザー（共有帳簿では記録者を表す）
   userId: z.number().int().positive(),
   type: transactionTypeSchema,
   title: z.string().min(1).max(TRANSACTION_TITLE_MAX_LENGTH),
@@ -24,17 +29,33 @@ export const transactionSchema = z.object({
   currency: z.string().min(1).max(TRANSACTION_CURRENCY_MAX_LENGTH),
   date: z.string().min(1),
   categoryId: z.number().int().positive(),
+  accountId: z.number().int().positive().nullable(),
+  transferAccountId: z.number().int().positive().nullable(),
   memo: z.string().max(TRANSACTION_MEMO_MAX_LENGTH),
 });
 
 export type Transaction = z.infer<typeof transactionSchema>;
 
+// =====================================
+// Transaction Split Schema
+// =====================================
+
+// NOTE: カテゴリごとの金額の内訳（取引ごとの合計は取引の金額と一致する）
+export const transactionSplitSchema = z.object({
+  categoryId: z.number().int().positive(),
+  amount: z.number().int().positive('明細の金額は0より大きい必要があります'),
+});
+
+export type TransactionSplit = z.infer<typeof transactionSplitSchema>;
+
 // =====================================
 // Transaction API Schema (I/F 準拠)
 // =====================================
 
 export const transactionApiSchema = z.object({
   id: z.number().int().positive(),
+  ledgerId: z.number().int().positive(),
+  // NOTE: 取引を登録したユーザー（共有帳簿では記録者を表す）
   userId: z.number().int().positive(),
   type: transactionTypeSchema,
   title: z.string().min(1).max(TRANSACTION_TITLE_MAX_LENGTH),
@@ -44,9 +65,37 @@ export const transactionApiSchema = z.object({
     .string()
     .regex(TRANSACTION_DATE_REGEX, '日付はYYYY-MM-DD形式である必要があります'),
   categories: z.array(categorySchema),
+  splits: z.array(transactionSplitSchema),
+  tagIds: z.array(z.number().int().positive()),
+  accountId: z.number().int().positive().nullable(),
+  transferAccountId: z.number().int().positive().nullable(),
   memo: z.string().max(TRANSACTION_MEMO_MAX_LENGTH).nullable(),
   createdAt: z.string().min(1),
   updatedAt: z.string().min(1),
 });
 
 export type TransactionApi = z.infer<typeof transactionApiSchema>;
+
+// =====================================
+// Transaction Attachment Schema
+// =====================================
+
+export const transactionAttachmentContentTypeSchema = z.enum(
+  TRANSACTION_ATTACHMENT_CONTENT_TYPE_VALUES,
+);
+
+export type TransactionAttachmentContentType = z.infer<
+  typeof transactionAttachmentContentTypeSchema
+>;
+
+export const transactionAttachmentSchema = z.object({
+  id: z.number().int().positive(),
+  transactionId: z.number().int().positive(),
+  fileName: z.string().min(1).max(TRANSACTION_ATTACHMENT_FILE_NAME_MAX_LENGTH),
+  contentType: transactionAttachmentContentTypeSchema,
+  // NOTE: バイト数
+  size: z.number().int().positive().max(TRANSACTION_ATTACHMENT_MAX_SIZE_BYTES),
+  createdAt: z.string().min(1),
+});
+
+export type TransactionAttachment = z.infer<typeof transactionAttachmentSchema>;
@@ -16,4 +16,65 @@ export const TRANSACTIONS_LIST_MAX_LIMIT = 100 as const;
 export const TRANSACTIONS_LIST_ORDER_VALUES = ['asc', 'desc'] as const;
 export const TRANSACTIONS_LIST_DEFAULT_ORDER = 'desc' as const;
 
+export const TRANSACTIONS_LIST_SORT_BY_VALUES = [
+  'date',
+  'amount',
+  'createdAt',
+  'title',
+] as const;
+export const TRANSACTIONS_LIST_DEFAULT_SORT_BY = 'date' as const;
+
+export const TRANSACTIONS_LIST_Q_MAX_LENGTH = 100 as const;
+export const TRANSACTIONS_LIST_CURSOR_MAX_LENGTH = 500 as const;
+
+export const TRANSACTIONS_EXPORT_FORMAT_VALUES = ['csv', 'json'] as const;
+export const TRANSACTIONS_EXPORT_DEFAULT_FORMAT = 'csv' as const;
+
+export const TRANSACTION_REVISION_ACTION_VALUES = [
+  'UPDATE',
+  'DELETE',
+  'RESTORE',
+] as const;
+
+export const TRANSACTION_REVISION_FIELD_VALUES = [
+  'type',
+  'title',
+  'amount',
+  'currency',
+  'date',
+  'categoryIds',
+  'splits',
+  'accountId',
+  'transferAccountId',
+  'memo',
+] as const;
+
 export const TRANSACTION_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const TRANSACTION_MONTH_REGEX = /^\d{4}-\d{2}$/;
+
+export const TRANSACTION_IMPORT_ENCODING_VALUES = [
+  'auto',
+  'utf-8',
+  'shift_jis',
+] as const;
+export const TRANSACTION_IMPORT_DEFAULT_ENCODING = 'auto' as const;
+// NOTE: 一度に取り込める行数に対して十分な大きさ（CSVをデコードする前に巨大なファイルを弾く）
+export const TRANSACTION_IMPORT_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+
+export const TRANSACTION_IMPORT_ROW_STATUS_VALUES = [
+  'VALID',
+  'INVALID',
+  'DUPLICATE',
+  'IMPORTED',
+] as const;
+
+// NOTE: レシートの画像を想定する（HEICはiPhoneのカメラの既定形式）
+export const TRANSACTION_ATTACHMENT_CONTENT_TYPE_VALUES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+] as const;
+export const TRANSACTION_ATTACHMENT_FILE_NAME_MAX_LENGTH = 255 as const;
+export const TRANSACTION_ATTACHMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
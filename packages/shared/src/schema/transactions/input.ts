@@ -1,17 +1,34 @@
 import { z } from 'zod';
 
-import { transactionTypeSchema } from '../categories/commonSchema';
+import {
+  incomeExpenseTypeSchema,
+  transactionTypeSchema,
+} from '../categories/commonSchema';
+import { currencyCodeSchema } from '../currencies/commonSchema';
+import { DEFAULT_CURRENCY_CODE } from '../currencies/constants';
+import { tagIdsSchema } from '../tags/commonSchema';
+import { transactionSplitSchema } from './commonSchema';
 import {
   TRANSACTION_DATE_REGEX,
+  TRANSACTION_IMPORT_DEFAULT_ENCODING,
+  TRANSACTION_IMPORT_ENCODING_VALUES,
+  TRANSACTION_IMPORT_MAX_SIZE_BYTES,
   TRANSACTION_MEMO_MAX_LENGTH,
+  TRANSACTION_MONTH_REGEX,
   TRANSACTION_TITLE_MAX_LENGTH,
+  TRANSACTIONS_EXPORT_DEFAULT_FORMAT,
+  TRANSACTIONS_EXPORT_FORMAT_VALUES,
+  TRANSACTIONS_LIST_CURSOR_MAX_LENGTH,
   TRANSACTIONS_LIST_DEFAULT_LIMIT,
   TRANSACTIONS_LIST_DEFAULT_ORDER,
   TRANSACTIONS_LIST_DEFAULT_PAGE,
+  TRANSACTIONS_LIST_DEFAULT_SORT_BY,
   TRANSACTIONS_LIST_MAX_LIMIT,
   TRANSACTIONS_LIST_MIN_LIMIT,
   TRANSACTIONS_LIST_MIN_PAGE,
   TRANSACTIONS_LIST_ORDER_VALUES,
+  TRANSACTIONS_LIST_Q_MAX_LENGTH,
+  TRANSACTIONS_LIST_SORT_BY_VALUES,
 } from './constants';
 
 // =====================================
@@ -20,6 +37,8 @@ import {
 
 // transactions.create
 export const transactionsCreateInputSchema = z.object({
+  // NOTE: 省略時は自分がオーナーの個人用帳簿を対象にする
+  ledgerId: z.number().int().positive().optional(),
   type: transactionTypeSchema,
   title: z
     .string()
@@ -29,11 +48,18 @@ export const transactionsCreateInputSchema = z.object({
       `タイトルは${TRANSACTION_TITLE_MAX_LENGTH}文字以内である必要があります`,
     ),
   amount: z.number().int().positive('金額は0より大きい必要があります'),
+  // NOTE: 利用可能（有効化済み）な通貨かどうかはバックエンド側で検証する
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY_CODE),
   // NOTE: 現状は文字列で受け取り、バックエンド側の VO で厳密に検証する
   date: z
     .string()
     .regex(TRANSACTION_DATE_REGEX, '日付はYYYY-MM-DD形式である必要があります'),
   categoryId: z.number().int().positive(),
+  // NOTE: TRANSFER の場合は accountId（振替元）と transferAccountId（振替先）の両方が必須
+  accountId: z.number().int().positive().optional(),
+  transferAccountId: z.number().int().positive().optional(),
+  // NOTE: 自分のタグのみ指定できる（バックエンド側で検証する）
+  tagIds: tagIdsSchema.optional(),
   memo: z
     .string()
     .max(
@@ -48,57 +74,133 @@ export type TransactionsCreateInput = z.infer<
   typeof transactionsCreateInputSchema
 >;
 
+// transactions.list / transactions.export 共通の絞り込み条件
+const transactionsFilterShape = {
+  // NOTE: 省略時は自分がオーナーの個人用帳簿を対象にする（export はGETのクエリで受け取るため数値に変換する）
+  ledgerId: z.coerce.number().int().positive().optional(),
+  startDate: z
+    .string()
+    .regex(
+      TRANSACTION_DATE_REGEX,
+      'startDate はYYYY-MM-DD形式である必要があります',
+    )
+    .optional(),
+  endDate: z
+    .string()
+    .regex(
+      TRANSACTION_DATE_REGEX,
+      'endDate はYYYY-MM-DD形式である必要があります',
+    )
+    .optional(),
+  type: transactionTypeSchema.optional(),
+  categoryIds: z.array(z.number().int().positive()).optional(),
+  order: z
+    .enum(TRANSACTIONS_LIST_ORDER_VALUES)
+    .default(TRANSACTIONS_LIST_DEFAULT_ORDER),
+};
+
+const isValidDateRange = ({
+  startDate,
+  endDate,
+}: {
+  startDate?: string;
+  endDate?: string;
+}) => startDate === undefined || endDate === undefined || startDate <= endDate;
+
+const invalidDateRangeIssue = {
+  message: 'startDate は endDate より後にできません',
+  path: ['startDate'],
+};
+
+// transactions.list / transactions.trash.list 共通のページ指定
+const transactionsPaginationShape = {
+  page: z.coerce
+    .number()
+    .int()
+    .min(TRANSACTIONS_LIST_MIN_PAGE, 'page は1以上の整数である必要があります')
+    .default(TRANSACTIONS_LIST_DEFAULT_PAGE),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(TRANSACTIONS_LIST_MIN_LIMIT, 'limit は1以上の整数である必要があります')
+    .max(
+      TRANSACTIONS_LIST_MAX_LIMIT,
+      `limit は${TRANSACTIONS_LIST_MAX_LIMIT}以下である必要があります`,
+    )
+    .default(TRANSACTIONS_LIST_DEFAULT_LIMIT),
+};
+
 // transactions.list
 export const transactionsListInputSchema = z
   .object({
-    startDate: z
+    ...transactionsFilterShape,
+    // NOTE: 指定したタグのいずれかが付いた取引に絞り込む
+    tagIds: z.array(z.number().int().positive()).optional(),
+    // NOTE: タイトルとメモを部分一致で検索する（全角/半角・カタカナ/ひらがなの違いは区別しない。空白区切りで複数指定可）
+    q: z
       .string()
-      .regex(
-        TRANSACTION_DATE_REGEX,
-        'startDate はYYYY-MM-DD形式である必要があります',
-      )
-      .optional(),
-    endDate: z
-      .string()
-      .regex(
-        TRANSACTION_DATE_REGEX,
-        'endDate はYYYY-MM-DD形式である必要があります',
+      .max(
+        TRANSACTIONS_LIST_Q_MAX_LENGTH,
+        `q は${TRANSACTIONS_LIST_Q_MAX_LENGTH}文字以内である必要があります`,
       )
       .optional(),
-    type: transactionTypeSchema.optional(),
-    categoryIds: z.array(z.number().int().positive()).optional(),
-    order: z
-      .enum(TRANSACTIONS_LIST_ORDER_VALUES)
-      .default(TRANSACTIONS_LIST_DEFAULT_ORDER),
-    page: z.coerce
+    // NOTE: 取引の通貨での金額で絞り込む（基準通貨への換算はしない）
+    minAmount: z.coerce
       .number()
       .int()
-      .min(TRANSACTIONS_LIST_MIN_PAGE, 'page は1以上の整数である必要があります')
-      .default(TRANSACTIONS_LIST_DEFAULT_PAGE),
-    limit: z.coerce
+      .min(0, 'minAmount は0以上の整数である必要があります')
+      .optional(),
+    maxAmount: z.coerce
       .number()
       .int()
-      .min(
-        TRANSACTIONS_LIST_MIN_LIMIT,
-        'limit は1以上の整数である必要があります',
-      )
-      .max(
-        TRANSACTIONS_LIST_MAX_LIMIT,
-        `limit は${TRANSACTIONS_LIST_MAX_LIMIT}以下である必要があります`,
-      )
-      .default(TRANSACTIONS_LIST_DEFAULT_LIMIT),
+      .min(0, 'maxAmount は0以上の整数である必要があります')
+      .optional(),
+    sortBy: z
+      .enum(TRANSACTIONS_LIST_SORT_BY_VALUES)
+      .default(TRANSACTIONS_LIST_DEFAULT_SORT_BY),
+    // NOTE: 前回のレスポンスの nextCursor を指定すると、page の代わりにその続きを取得する（sortBy/order は前回と同じ値を指定する）
+    cursor: z
+      .string()
+      .min(1)
+      .max(TRANSACTIONS_LIST_CURSOR_MAX_LENGTH)
+      .optional(),
+    ...transactionsPaginationShape,
   })
+  .refine(isValidDateRange, invalidDateRangeIssue)
   .refine(
-    ({ startDate, endDate }) =>
-      startDate === undefined || endDate === undefined || startDate <= endDate,
+    ({ minAmount, maxAmount }) =>
+      minAmount === undefined ||
+      maxAmount === undefined ||
+      minAmount <= maxAmount,
     {
-      message: 'startDate は endDate より後にできません',
-      path: ['startDate'],
+      message: 'minAmount は maxAmount 以下である必要があります',
+      path: ['minAmount'],
     },
   );
 
 export type TransactionsListInput = z.infer<typeof transactionsListInputSchema>;
 
+// transactions.export
+// NOTE: GETのクエリで受け取るため、categoryIds は単一指定（?categoryIds=1）と複数指定（?categoryIds=1&categoryIds=2）の両方を受け付ける
+export const transactionsExportInputSchema = z
+  .object({
+    ...transactionsFilterShape,
+    categoryIds: z
+      .preprocess(
+        (value) => (typeof value === 'string' ? [value] : value),
+        z.array(z.coerce.number().int().positive()),
+      )
+      .optional(),
+    format: z
+      .enum(TRANSACTIONS_EXPORT_FORMAT_VALUES)
+      .default(TRANSACTIONS_EXPORT_DEFAULT_FORMAT),
+  })
+  .refine(isValidDateRange, invalidDateRangeIssue);
+
+export type TransactionsExportInput = z.infer<
+  typeof transactionsExportInputSchema
+>;
+
 // transactions.update
 export const transactionsUpdateInputSchema = z.object({
   id: z.number().int().positive(),
@@ -116,11 +218,27 @@ export const transactionsUpdateInputSchema = z.object({
     .int()
     .positive('金額は0より大きい必要があります')
     .optional(),
+  currency: currencyCodeSchema.optional(),
   date: z
     .string()
     .regex(TRANSACTION_DATE_REGEX, '日付はYYYY-MM-DD形式である必要があります')
     .optional(),
   categoryIds: z.array(z.number().int().positive()).optional(),
+  // NOTE: 複数のカテゴリに金額を分ける場合は categoryIds の代わりに指定する（合計は取引の金額と一致させる。同時指定はバックエンド側で拒否する）
+  splits: z
+    .array(transactionSplitSchema)
+    .min(1, 'splits は1件以上指定する必要があります')
+    .refine(
+      (splits) =>
+        new Set(splits.map((split) => split.categoryId)).size === splits.length,
+      '明細のカテゴリが重複しています',
+    )
+    .optional(),
+  // NOTE: 指定した場合は取引のタグを置き換える（空配列ですべて外す）
+  tagIds: tagIdsSchema.optional(),
+  // NOTE: null を指定した場合は口座との紐づけを解除する
+  accountId: z.number().int().positive().nullable().optional(),
+  transferAccountId: z.number().int().positive().nullable().optional(),
   memo: z
     .string()
     .max(
@@ -142,3 +260,167 @@ export const transactionsDeleteInputSchema = z.object({
 export type TransactionsDeleteInput = z.infer<
   typeof transactionsDeleteInputSchema
 >;
+
+// transactions.history
+export const transactionsHistoryInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type TransactionsHistoryInput = z.infer<
+  typeof transactionsHistoryInputSchema
+>;
+
+// transactions.trash.list
+export const transactionsTrashListInputSchema = z.object({
+  // NOTE: 省略時は自分がオーナーの個人用帳簿を対象にする
+  ledgerId: z.number().int().positive().optional(),
+  ...transactionsPaginationShape,
+});
+
+export type TransactionsTrashListInput = z.infer<
+  typeof transactionsTrashListInputSchema
+>;
+
+// transactions.restore
+export const transactionsRestoreInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type TransactionsRestoreInput = z.infer<
+  typeof transactionsRestoreInputSchema
+>;
+
+// transactions.purge
+export const transactionsPurgeInputSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export type TransactionsPurgeInput = z.infer<
+  typeof transactionsPurgeInputSchema
+>;
+
+// transactions.summary
+// NOTE: 月指定（month）か期間指定（startDate/endDate）のどちらか一方を受け付ける
+export const transactionsSummaryInputSchema = z
+  .object({
+    // NOTE: 省略時は自分がオーナーの個人用帳簿を対象にする
+    ledgerId: z.number().int().positive().optional(),
+    month: z
+      .string()
+      .regex(TRANSACTION_MONTH_REGEX, 'month はYYYY-MM形式である必要があります')
+      .optional(),
+    startDate: z
+      .string()
+      .regex(
+        TRANSACTION_DATE_REGEX,
+        'startDate はYYYY-MM-DD形式である必要があります',
+      )
+      .optional(),
+    endDate: z
+      .string()
+      .regex(
+        TRANSACTION_DATE_REGEX,
+        'endDate はYYYY-MM-DD形式である必要があります',
+      )
+      .optional(),
+  })
+  .refine(
+    ({ month, startDate, endDate }) =>
+      month !== undefined
+        ? startDate === undefined && endDate === undefined
+        : startDate !== undefined && endDate !== undefined,
+    {
+      message:
+        'month または startDate/endDate のどちらか一方を指定してください',
+      path: ['month'],
+    },
+  )
+  .refine(
+    ({ startDate, endDate }) =>
+      startDate === undefined || endDate === undefined || startDate <= endDate,
+    {
+      message: 'startDate は endDate より後にできません',
+      path: ['startDate'],
+    },
+  );
+
+export type TransactionsSummaryInput = z.infer<
+  typeof transactionsSummaryInputSchema
+>;
+
+// transactions.import
+// NOTE: 列はヘッダー名または0始まりの列番号で指定する
+export const transactionsImportColumnSchema = z.union([
+  z.string().min(1),
+  z.number().int().min(0),
+]);
+
+export type TransactionsImportColumn = z.infer<
+  typeof transactionsImportColumnSchema
+>;
+
+// NOTE: type 列を指定しない場合は defaultType、それもなければ金額の符号（負数=支出）で判定する
+export const transactionsImportMappingSchema = z.object({
+  type: transactionsImportColumnSchema.optional(),
+  title: transactionsImportColumnSchema,
+  amount: transactionsImportColumnSchema,
+  date: transactionsImportColumnSchema,
+  categoryId: transactionsImportColumnSchema.optional(),
+  memo: transactionsImportColumnSchema.optional(),
+});
+
+export type TransactionsImportMapping = z.infer<
+  typeof transactionsImportMappingSchema
+>;
+
+export const transactionsImportEncodingSchema = z.enum(
+  TRANSACTION_IMPORT_ENCODING_VALUES,
+);
+
+// CSV本体以外の取り込み設定（tRPC / multipart の両方で共通）
+export const transactionsImportOptionsSchema = z.object({
+  // NOTE: 省略時は自分がオーナーの個人用帳簿を対象にする
+  ledgerId: z.number().int().positive().optional(),
+  mapping: transactionsImportMappingSchema,
+  encoding: transactionsImportEncodingSchema.default(
+    TRANSACTION_IMPORT_DEFAULT_ENCODING,
+  ),
+  hasHeader: z.boolean().default(true),
+  defaultType: incomeExpenseTypeSchema.optional(),
+  defaultCategoryId: z.number().int().positive().optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type TransactionsImportOptions = z.infer<
+  typeof transactionsImportOptionsSchema
+>;
+
+const TRANSACTION_IMPORT_MAX_SIZE_MESSAGE = `ファイルサイズは${TRANSACTION_IMPORT_MAX_SIZE_BYTES}バイトまでです`;
+
+// NOTE: multipart で受け取るCSVファイルのサイズ（バイト数）
+export const transactionsImportFileSizeSchema = z
+  .number()
+  .int()
+  .max(TRANSACTION_IMPORT_MAX_SIZE_BYTES, TRANSACTION_IMPORT_MAX_SIZE_MESSAGE);
+
+// NOTE: Base64は3バイトを4文字で表し、末尾の "=" はパディングのためデコード後のバイト数に含めない
+const BASE64_PADDING = /=*$/;
+const toDecodedSize = (content: string): number =>
+  (content.length / 4) * 3 - (content.match(BASE64_PADDING)?.[0].length ?? 0);
+
+// NOTE: tRPC はJSONのため、CSVファイルの中身はBase64で受け取る（Shift_JIS等のバイト列をそのまま渡すため）
+export const transactionsImportInputSchema =
+  transactionsImportOptionsSchema.extend({
+    content: z
+      .base64('content はBase64形式である必要があります')
+      .min(1)
+      .refine(
+        (content) =>
+          toDecodedSize(content) <= TRANSACTION_IMPORT_MAX_SIZE_BYTES,
+        TRANSACTION_IMPORT_MAX_SIZE_MESSAGE,
+      ),
+  });
+
+export type TransactionsImportInput = z.infer<
+  typeof transactionsImportInputSchema
+>;
@@ -1,6 +1,20 @@
 import { z } from 'zod';
-import { transactionApiSchema, transactionSchema } from './commonSchema';
+import { transactionTypeSchema } from '../categories/commonSchema';
+import { currencyCodeSchema } from '../currencies/commonSchema';
 import {
+  transactionApiSchema,
+  transactionAttachmentSchema,
+  transactionSchema,
+  transactionSplitSchema,
+} from './commonSchema';
+import {
+  TRANSACTION_CURRENCY_MAX_LENGTH,
+  TRANSACTION_DATE_REGEX,
+  TRANSACTION_IMPORT_ROW_STATUS_VALUES,
+  TRANSACTION_MEMO_MAX_LENGTH,
+  TRANSACTION_REVISION_ACTION_VALUES,
+  TRANSACTION_REVISION_FIELD_VALUES,
+  TRANSACTION_TITLE_MAX_LENGTH,
   TRANSACTIONS_LIST_MAX_LIMIT,
   TRANSACTIONS_LIST_MIN_LIMIT,
   TRANSACTIONS_LIST_MIN_PAGE,
@@ -37,15 +51,59 @@ export type TransactionsListPagination = z.infer<
   typeof transactionsListPaginationSchema
 >;
 
+// NOTE: convertedAmount は基準通貨への換算額（該当日以前の為替レートがない場合は null）
+export const transactionsListItemSchema = transactionApiSchema.extend({
+  convertedAmount: z.number().int().min(0).nullable(),
+});
+
+export type TransactionsListItem = z.infer<typeof transactionsListItemSchema>;
+
+// NOTE: カーソル指定時は総件数を数え直さないため、total / totalPages は null になる（総件数は最初のページで取得する）
+export const transactionsListCursorPaginationSchema =
+  transactionsListPaginationSchema.extend({
+    total: z.number().int().min(0).nullable(),
+    totalPages: z.number().int().min(0).nullable(),
+  });
+
 export const transactionsListOutputSchema = z.object({
-  transactions: z.array(transactionApiSchema),
-  pagination: transactionsListPaginationSchema,
+  baseCurrencyCode: currencyCodeSchema,
+  transactions: z.array(transactionsListItemSchema),
+  pagination: transactionsListCursorPaginationSchema,
+  // NOTE: 続きを取得するためのカーソル（次のページがない場合や、検索語を指定した場合は null）
+  nextCursor: z.string().nullable(),
 });
 
 export type TransactionsListOutput = z.infer<
   typeof transactionsListOutputSchema
 >;
 
+// transactions.export Output（format=json の場合の1行分）
+export const transactionsExportRowSchema = z.object({
+  id: z.number().int().positive(),
+  date: z.string().regex(TRANSACTION_DATE_REGEX),
+  type: transactionTypeSchema,
+  title: z.string().min(1).max(TRANSACTION_TITLE_MAX_LENGTH),
+  amount: z.number().int().positive(),
+  currencyCode: z.string().min(1).max(TRANSACTION_CURRENCY_MAX_LENGTH),
+  categories: z.array(
+    z.object({
+      id: z.number().int().positive(),
+      name: z.string().min(1),
+    }),
+  ),
+  memo: z.string().max(TRANSACTION_MEMO_MAX_LENGTH),
+});
+
+export type TransactionsExportRow = z.infer<typeof transactionsExportRowSchema>;
+
+export const transactionsExportOutputSchema = z.array(
+  transactionsExportRowSchema,
+);
+
+export type TransactionsExportOutput = z.infer<
+  typeof transactionsExportOutputSchema
+>;
+
 // transactions.update Output
 export const transactionsUpdateOutputSchema = z.object({
   transaction: transactionApiSchema,
@@ -63,3 +121,203 @@ export const transactionsDeleteOutputSchema = z.object({
 export type TransactionsDeleteOutput = z.infer<
   typeof transactionsDeleteOutputSchema
 >;
+
+// transactions.history Output
+export const transactionRevisionChangeValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.array(z.number().int().positive()),
+  z.array(transactionSplitSchema),
+  z.null(),
+]);
+
+export const transactionRevisionChangeSchema = z.object({
+  field: z.enum(TRANSACTION_REVISION_FIELD_VALUES),
+  before: transactionRevisionChangeValueSchema,
+  after: transactionRevisionChangeValueSchema,
+});
+
+export type TransactionRevisionChange = z.infer<
+  typeof transactionRevisionChangeSchema
+>;
+
+export const transactionRevisionSchema = z.object({
+  id: z.number().int().positive(),
+  action: z.enum(TRANSACTION_REVISION_ACTION_VALUES),
+  // NOTE: 変更したユーザーが退会済みの場合は null
+  changedBy: z
+    .object({
+      userId: z.number().int().positive(),
+      name: z.string(),
+    })
+    .nullable(),
+  changedAt: z.string(),
+  // NOTE: 値が変わった項目のみ（削除/復元の場合は空）
+  changes: z.array(transactionRevisionChangeSchema),
+});
+
+export type TransactionRevision = z.infer<typeof transactionRevisionSchema>;
+
+export const transactionsHistoryOutputSchema = z.object({
+  revisions: z.array(transactionRevisionSchema),
+});
+
+export type TransactionsHistoryOutput = z.infer<
+  typeof transactionsHistoryOutputSchema
+>;
+
+// transactions.trash.list Output
+// NOTE: deletedAt はゴミ箱に移動した日時（保持期間を過ぎると完全削除される）
+export const transactionsTrashListItemSchema = transactionApiSchema.extend({
+  deletedAt: z.string(),
+});
+
+export type TransactionsTrashListItem = z.infer<
+  typeof transactionsTrashListItemSchema
+>;
+
+export const transactionsTrashListOutputSchema = z.object({
+  transactions: z.array(transactionsTrashListItemSchema),
+  pagination: transactionsListPaginationSchema,
+});
+
+export type TransactionsTrashListOutput = z.infer<
+  typeof transactionsTrashListOutputSchema
+>;
+
+// transactions.restore Output
+export const transactionsRestoreOutputSchema = z.object({
+  restored: z.boolean(),
+});
+
+export type TransactionsRestoreOutput = z.infer<
+  typeof transactionsRestoreOutputSchema
+>;
+
+// transactions.purge Output
+export const transactionsPurgeOutputSchema = z.object({
+  purged: z.boolean(),
+});
+
+export type TransactionsPurgeOutput = z.infer<
+  typeof transactionsPurgeOutputSchema
+>;
+
+// transactions.summary Output
+export const transactionsSummaryCategorySchema = z.object({
+  categoryId: z.number().int().positive(),
+  name: z.string().min(1),
+  type: transactionTypeSchema,
+  amount: z.number().int().min(0),
+  count: z.number().int().min(0),
+});
+
+export type TransactionsSummaryCategory = z.infer<
+  typeof transactionsSummaryCategorySchema
+>;
+
+// NOTE: 取引の金額（明細ではなく取引全体）をタグごとに集計する。複数のタグが付いた取引は各タグに計上される
+export const transactionsSummaryTagSchema = z.object({
+  tagId: z.number().int().positive(),
+  name: z.string().min(1),
+  type: transactionTypeSchema,
+  amount: z.number().int().min(0),
+  count: z.number().int().min(0),
+});
+
+export type TransactionsSummaryTag = z.infer<
+  typeof transactionsSummaryTagSchema
+>;
+
+export const transactionsSummaryOutputSchema = z.object({
+  period: z.object({
+    startDate: z.string().regex(TRANSACTION_DATE_REGEX),
+    endDate: z.string().regex(TRANSACTION_DATE_REGEX),
+  }),
+  // NOTE: 集計額はすべてこの通貨（ユーザーの基準通貨）に換算した値
+  currencyCode: z.string().min(1).max(TRANSACTION_CURRENCY_MAX_LENGTH),
+  totalIncome: z.number().int().min(0),
+  totalExpense: z.number().int().min(0),
+  // NOTE: 支出が収入を上回る場合は負の値になる
+  netBalance: z.number().int(),
+  categories: z.array(transactionsSummaryCategorySchema),
+  tags: z.array(transactionsSummaryTagSchema),
+  // NOTE: 為替レートが登録されておらず換算できなかった（集計から除外した）取引の件数
+  unconvertedCount: z.number().int().min(0),
+});
+
+export type TransactionsSummaryOutput = z.infer<
+  typeof transactionsSummaryOutputSchema
+>;
+
+// transactions.import Output
+export const transactionsImportRowSchema = z.object({
+  // NOTE: ファイル上の行番号（ヘッダー行を含めて1始まり）
+  rowNumber: z.number().int().positive(),
+  rowHash: z.string().min(1),
+  status: z.enum(TRANSACTION_IMPORT_ROW_STATUS_VALUES),
+  transaction: z
+    .object({
+      type: transactionTypeSchema,
+      title: z.string(),
+      amount: z.number().int().positive(),
+      date: z.string().regex(TRANSACTION_DATE_REGEX),
+      categoryId: z.number().int().positive(),
+      memo: z.string(),
+    })
+    .nullable(),
+  transactionId: z.number().int().positive().nullable(),
+  error: z
+    .object({
+      name: z.string(),
+      message: z.string(),
+    })
+    .nullable(),
+});
+
+export type TransactionsImportRow = z.infer<typeof transactionsImportRowSchema>;
+
+export const transactionsImportOutputSchema = z.object({
+  dryRun: z.boolean(),
+  // NOTE: 不正な行が1件でもある場合は1件も登録しない（committed = false）
+  committed: z.boolean(),
+  summary: z.object({
+    total: z.number().int().min(0),
+    valid: z.number().int().min(0),
+    invalid: z.number().int().min(0),
+    duplicate: z.number().int().min(0),
+    imported: z.number().int().min(0),
+  }),
+  rows: z.array(transactionsImportRowSchema),
+});
+
+export type TransactionsImportOutput = z.infer<
+  typeof transactionsImportOutputSchema
+>;
+
+// transactions.attachments.upload Output
+export const transactionsAttachmentsUploadOutputSchema = z.object({
+  attachment: transactionAttachmentSchema,
+});
+
+export type TransactionsAttachmentsUploadOutput = z.infer<
+  typeof transactionsAttachmentsUploadOutputSchema
+>;
+
+// transactions.attachments.list Output
+export const transactionsAttachmentsListOutputSchema = z.object({
+  attachments: z.array(transactionAttachmentSchema),
+});
+
+export type TransactionsAttachmentsListOutput = z.infer<
+  typeof transactionsAttachmentsListOutputSchema
+>;
+
+// transactions.attachments.delete Output
+export const transactionsAttachmentsDeleteOutputSchema = z.object({
+  deleted: z.boolean(),
+});
+
+export type TransactionsAttachmentsDeleteOutput = z.infer<
+  typeof transactionsAttachmentsDeleteOutputSchema
+>;
@@ -11,3 +11,15 @@ export const userPublicSchema = z.object({
 });
 
 export type UserPublic = z.infer<typeof userPublicSchema>;
+
+export const userSessionSchema = z.object({
+  id: z.string().min(1),
+  device: z.string(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.date(),
+  lastSeenAt: z.date(),
+  current: z.boolean(),
+});
+
+export type UserSession = z.infer<typeof userSessionSchema>;
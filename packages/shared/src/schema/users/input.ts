@@ -8,6 +8,14 @@ import {
 
 const PASSWORD_SYMBOL_REGEX = /[^A-Za-z0-9]/;
 
+const newPasswordSchema = z
+  .string()
+  .min(
+    USER_PASSWORD_MIN_LENGTH,
+    `パスワードは${USER_PASSWORD_MIN_LENGTH}文字以上である必要があります`,
+  )
+  .regex(PASSWORD_SYMBOL_REGEX, 'パスワードには記号を1文字以上含めてください');
+
 export const usersRegisterInputSchema = z.object({
   email: z
     .email('メールアドレスの形式が不正です')
@@ -22,16 +30,7 @@ export const usersRegisterInputSchema = z.object({
       USER_NAME_MAX_LENGTH,
       `ユーザー名は${USER_NAME_MAX_LENGTH}文字以内である必要があります`,
     ),
-  password: z
-    .string()
-    .min(
-      USER_PASSWORD_MIN_LENGTH,
-      `パスワードは${USER_PASSWORD_MIN_LENGTH}文字以上である必要があります`,
-    )
-    .regex(
-      PASSWORD_SYMBOL_REGEX,
-      'パスワードには記号を1文字以上含めてください',
-    ),
+  password: newPasswordSchema,
 });
 
 export type UsersRegisterInput = z.infer<typeof usersRegisterInputSchema>;
@@ -54,3 +53,97 @@ export const usersLoginInputSchema = z.object({
 });
 
 export type UsersLoginInput = z.infer<typeof usersLoginInputSchema>;
+
+export const usersRefreshInputSchema = z.object({
+  refreshToken: z.string().min(1, 'リフレッシュトークンは必須です'),
+});
+
+export type UsersRefreshInput = z.infer<typeof usersRefreshInputSchema>;
+
+export const usersLogoutInputSchema = z.object({
+  refreshToken: z.string().min(1, 'リフレッシュトークンは必須です').optional(),
+});
+
+export type UsersLogoutInput = z.infer<typeof usersLogoutInputSchema>;
+
+export const usersSessionsRevokeInputSchema = z.object({
+  id: z.string().min(1, 'セッションIDは必須です'),
+});
+
+export type UsersSessionsRevokeInput = z.infer<
+  typeof usersSessionsRevokeInputSchema
+>;
+
+export const usersChangePasswordInputSchema = z.object({
+  currentPassword: z.string().min(1, '現在のパスワードは必須です'),
+  newPassword: newPasswordSchema,
+});
+
+export type UsersChangePasswordInput = z.infer<
+  typeof usersChangePasswordInputSchema
+>;
+
+export const usersRequestPasswordResetInputSchema = z.object({
+  email: z
+    .email('メールアドレスの形式が不正です')
+    .max(
+      USER_EMAIL_MAX_LENGTH,
+      `メールアドレスは${USER_EMAIL_MAX_LENGTH}文字以内である必要があります`,
+    ),
+});
+
+export type UsersRequestPasswordResetInput = z.infer<
+  typeof usersRequestPasswordResetInputSchema
+>;
+
+export const usersResetPasswordInputSchema = z.object({
+  token: z.string().min(1, 'リセット用トークンは必須です'),
+  newPassword: newPasswordSchema,
+});
+
+export type UsersResetPasswordInput = z.infer<
+  typeof usersResetPasswordInputSchema
+>;
+
+export const usersUpdateProfileInputSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'ユーザー名は必須です')
+      .max(
+        USER_NAME_MAX_LENGTH,
+        `ユーザー名は${USER_NAME_MAX_LENGTH}文字以内である必要があります`,
+      )
+      .optional(),
+    email: z
+      .email('メールアドレスの形式が不正です')
+      .max(
+        USER_EMAIL_MAX_LENGTH,
+        `メールアドレスは${USER_EMAIL_MAX_LENGTH}文字以内である必要があります`,
+      )
+      .optional(),
+  })
+  .refine(
+    (value) => value.name !== undefined || value.email !== undefined,
+    '変更する項目を指定してください',
+  );
+
+export type UsersUpdateProfileInput = z.infer<
+  typeof usersUpdateProfileInputSchema
+>;
+
+export const usersConfirmEmailChangeInputSchema = z.object({
+  token: z.string().min(1, '確認用トークンは必須です'),
+});
+
+export type UsersConfirmEmailChangeInput = z.infer<
+  typeof usersConfirmEmailChangeInputSchema
+>;
+
+export const usersDeleteAccountInputSchema = z.object({
+  password: z.string().min(1, 'パスワードは必須です'),
+});
+
+export type UsersDeleteAccountInput = z.infer<
+  typeof usersDeleteAccountInputSchema
+>;
@@ -1,9 +1,10 @@
 import { z } from 'zod';
 
-import { userPublicSchema } from './commonSchema';
+import { userPublicSchema, userSessionSchema } from './commonSchema';
 
 const authOutputSchema = z.object({
   token: z.string().min(1),
+  refreshToken: z.string().min(1),
   user: userPublicSchema,
 });
 
@@ -13,7 +14,82 @@ export type UsersRegisterOutput = z.infer<typeof usersRegisterOutputSchema>;
 export const usersLoginOutputSchema = authOutputSchema;
 export type UsersLoginOutput = z.infer<typeof usersLoginOutputSchema>;
 
+export const usersRefreshOutputSchema = authOutputSchema;
+export type UsersRefreshOutput = z.infer<typeof usersRefreshOutputSchema>;
+
 export const usersLogoutOutputSchema = z.object({
   success: z.boolean(),
 });
 export type UsersLogoutOutput = z.infer<typeof usersLogoutOutputSchema>;
+
+export const usersSessionsListOutputSchema = z.object({
+  sessions: z.array(userSessionSchema),
+});
+export type UsersSessionsListOutput = z.infer<
+  typeof usersSessionsListOutputSchema
+>;
+
+export const usersSessionsRevokeOutputSchema = z.object({
+  success: z.boolean(),
+});
+export type UsersSessionsRevokeOutput = z.infer<
+  typeof usersSessionsRevokeOutputSchema
+>;
+
+// 現在のセッション以外をすべて失効させた件数
+export const usersSessionsRevokeAllOutputSchema = z.object({
+  revokedCount: z.number().int().nonnegative(),
+});
+export type UsersSessionsRevokeAllOutput = z.infer<
+  typeof usersSessionsRevokeAllOutputSchema
+>;
+
+export const usersChangePasswordOutputSchema = z.object({
+  success: z.boolean(),
+});
+export type UsersChangePasswordOutput = z.infer<
+  typeof usersChangePasswordOutputSchema
+>;
+
+// NOTE: メールアドレスが登録済みかどうかを推測されないよう、常に success: true を返す
+export const usersRequestPasswordResetOutputSchema = z.object({
+  success: z.boolean(),
+});
+export type UsersRequestPasswordResetOutput = z.infer<
+  typeof usersRequestPasswordResetOutputSchema
+>;
+
+export const usersResetPasswordOutputSchema = z.object({
+  success: z.boolean(),
+});
+export type UsersResetPasswordOutput = z.infer<
+  typeof usersResetPasswordOutputSchema
+>;
+
+export const usersMeOutputSchema = z.object({
+  user: userPublicSchema,
+});
+export type UsersMeOutput = z.infer<typeof usersMeOutputSchema>;
+
+// NOTE: メールアドレスの変更は確認が済むまで反映しないため、確認待ちのアドレスを pendingEmail で返す
+export const usersUpdateProfileOutputSchema = z.object({
+  user: userPublicSchema,
+  pendingEmail: z.email().nullable(),
+});
+export type UsersUpdateProfileOutput = z.infer<
+  typeof usersUpdateProfileOutputSchema
+>;
+
+export const usersConfirmEmailChangeOutputSchema = z.object({
+  user: userPublicSchema,
+});
+export type UsersConfirmEmailChangeOutput = z.infer<
+  typeof usersConfirmEmailChangeOutputSchema
+>;
+
+export const usersDeleteAccountOutputSchema = z.object({
+  success: z.boolean(),
+});
+export type UsersDeleteAccountOutput = z.infer<
+  typeof usersDeleteAccountOutputSchema
+>;